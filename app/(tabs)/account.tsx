@@ -51,6 +51,8 @@ import {
   getEmployeeApiBaseUrl,
   type MonthlyHoursResponse,
 } from '@features/account/monthlyHours';
+import { fetchQrDisplayObjects } from '@features/shifts/rotatingQrService';
+import { fetchKioskObjects } from '@features/shifts/kioskService';
 import {
   capitalizeFirstLetter,
   deriveStoragePathFromUrl,
@@ -426,6 +428,20 @@ export default function AccountScreen() {
     enabled: Boolean(user?.id && session?.access_token && apiBaseUrl),
     staleTime: 60_000,
   });
+  const { data: qrDisplay } = useQuery({
+    queryKey: ['qrDisplayObjects', user?.id],
+    queryFn: fetchQrDisplayObjects,
+    enabled: Boolean(user?.id),
+    retry: false,
+    staleTime: 5 * 60_000,
+  });
+  const { data: kioskObjects } = useQuery({
+    queryKey: ['kioskObjects', user?.id],
+    queryFn: fetchKioskObjects,
+    enabled: Boolean(user?.id),
+    retry: false,
+    staleTime: 5 * 60_000,
+  });
   const status = shiftStatus(user?.user_metadata);
   const translatedStatus = status === 'Active' ? t('statusActive') : status;
   const contactPhone =
@@ -1005,6 +1021,46 @@ export default function AccountScreen() {
                     </Text>
                     <Ionicons name="chevron-forward" size={16} color={theme.textSecondary} />
                   </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.toolsRow, { borderColor: theme.borderSoft }]}
+                    onPress={() => router.push('/kiosk-badge')}
+                  >
+                    <View style={[styles.toolsIconWrap, { backgroundColor: theme.surfaceMuted }]}>
+                      <Ionicons name="id-card-outline" size={16} color={theme.primary} />
+                    </View>
+                    <Text style={[styles.toolsLabel, { color: theme.textPrimary }]}>
+                      {t('accountKioskBadge')}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={16} color={theme.textSecondary} />
+                  </TouchableOpacity>
+                  {qrDisplay?.objects.length ? (
+                    <TouchableOpacity
+                      style={[styles.toolsRow, { borderColor: theme.borderSoft }]}
+                      onPress={() => router.push('/qr-display')}
+                    >
+                      <View style={[styles.toolsIconWrap, { backgroundColor: theme.surfaceMuted }]}>
+                        <Ionicons name="qr-code-outline" size={16} color={theme.primary} />
+                      </View>
+                      <Text style={[styles.toolsLabel, { color: theme.textPrimary }]}>
+                        {t('accountQrDisplay')}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={16} color={theme.textSecondary} />
+                    </TouchableOpacity>
+                  ) : null}
+                  {kioskObjects?.length ? (
+                    <TouchableOpacity
+                      style={[styles.toolsRow, { borderColor: theme.borderSoft }]}
+                      onPress={() => router.push('/kiosk')}
+                    >
+                      <View style={[styles.toolsIconWrap, { backgroundColor: theme.surfaceMuted }]}>
+                        <Ionicons name="tablet-landscape-outline" size={16} color={theme.primary} />
+                      </View>
+                      <Text style={[styles.toolsLabel, { color: theme.textPrimary }]}>
+                        {t('accountKioskMode')}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={16} color={theme.textSecondary} />
+                    </TouchableOpacity>
+                  ) : null}
                 </View>
               ) : null}
               <View style={styles.contactList}>
@@ -7,6 +7,7 @@ import { useRouter } from 'expo-router';
 import { BackButton } from '@shared/components/BackButton';
 import { useTheme } from '@shared/themeContext';
 import { useLanguage } from '@shared/context/LanguageContext';
+import { useTimeDisplay } from '@shared/context/TimeDisplayContext';
 import { layoutTokens } from '@shared/theme/layout';
 import { LinearGradient } from 'expo-linear-gradient';
 
@@ -14,6 +15,7 @@ export default function CalendarSettingsScreen() {
   const router = useRouter();
   const { theme } = useTheme();
   const { t } = useLanguage();
+  const { timeDisplayMode, setTimeDisplayMode } = useTimeDisplay();
   const insets = useSafeAreaInsets();
   const tabBarHeight = useBottomTabBarHeight();
 
@@ -22,6 +24,7 @@ export default function CalendarSettingsScreen() {
     label: string;
     icon: keyof typeof Ionicons.glyphMap;
     onPress: () => void;
+    selected?: boolean;
   };
   type CalendarSettingGroup = {
     key: string;
@@ -51,6 +54,26 @@ export default function CalendarSettingsScreen() {
           },
         ],
       },
+      {
+        key: 'time',
+        title: t('calendarSettingsGroupTime'),
+        actions: [
+          {
+            key: 'siteTime',
+            label: t('timeDisplaySite'),
+            icon: 'business-outline' as const,
+            onPress: () => setTimeDisplayMode('site'),
+            selected: timeDisplayMode === 'site',
+          },
+          {
+            key: 'deviceTime',
+            label: t('timeDisplayDevice'),
+            icon: 'phone-portrait-outline' as const,
+            onPress: () => setTimeDisplayMode('device'),
+            selected: timeDisplayMode === 'device',
+          },
+        ],
+      },
       {
         key: 'external',
         title: t('calendarSettingsGroupExternal'),
@@ -74,7 +97,7 @@ export default function CalendarSettingsScreen() {
         ],
       },
     ],
-    [router, t]
+    [router, setTimeDisplayMode, t, timeDisplayMode]
   );
   const heroStats = useMemo(
     () => [
@@ -152,12 +175,21 @@ export default function CalendarSettingsScreen() {
                   index === group.actions.length - 1 && styles.rowLast,
                 ]}
                 onPress={action.onPress}
+                accessibilityState={action.selected === undefined ? undefined : { selected: action.selected }}
               >
                 <View style={[styles.iconWrap, { backgroundColor: theme.surfaceElevated, borderColor: theme.border }]}>
                   <Ionicons name={action.icon} size={16} color={theme.primary} />
                 </View>
                 <Text style={[styles.rowLabel, { color: theme.textPrimary }]}>{action.label}</Text>
-                <Ionicons name="chevron-forward" size={18} color={theme.textSecondary} />
+                {action.selected === undefined ? (
+                  <Ionicons name="chevron-forward" size={18} color={theme.textSecondary} />
+                ) : (
+                  <Ionicons
+                    name={action.selected ? 'checkmark-circle' : 'ellipse-outline'}
+                    size={18}
+                    color={action.selected ? theme.primary : theme.textSecondary}
+                  />
+                )}
               </TouchableOpacity>
             ))}
           </View>
@@ -27,6 +27,8 @@ import { useTheme } from '@shared/themeContext';
 import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
 import { layoutTokens } from '@shared/theme/layout';
 import { useAuth } from '@hooks/useSupabaseAuth';
+import { useTimeDisplay } from '@shared/context/TimeDisplayContext';
+import { getZonedDateParts, getZonedDayKey } from '@shared/utils/timeUtils';
 
 const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
@@ -158,6 +160,7 @@ const renderSkeletons = () => (
 export default function CalendarScreen() {
   const router = useRouter();
   const { t } = useLanguage();
+  const { getDisplayTimeZone } = useTimeDisplay();
   const { theme } = useTheme();
   const { user } = useAuth();
   const { width, height } = useWindowDimensions();
@@ -169,8 +172,16 @@ export default function CalendarScreen() {
   const insets = useSafeAreaInsets();
   const tabBarHeight = useBottomTabBarHeight();
   const isIOS = Platform.OS === 'ios';
-  const { orderedShifts, isLoading, error, refetch, isUsingCachedShifts, cachedShiftsAt } = useShiftFeed();
   const [visibleMonth, setVisibleMonth] = useState(() => startOfMonth(new Date()));
+  const {
+    orderedShifts,
+    isLoading,
+    isLoadingMonth,
+    error,
+    refetch,
+    isUsingCachedShifts,
+    cachedShiftsAt,
+  } = useShiftFeed({ month: visibleMonth });
   const calendarFlip = useRef(new Animated.Value(0)).current;
   const hasManuallyChangedMonth = useRef(false);
   const rotateY = calendarFlip.interpolate({
@@ -240,39 +251,41 @@ export default function CalendarScreen() {
     [t]
   );
 
-  const monthShifts = useMemo(() => {
-    const nextMonth = new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + 1, 1);
-    return orderedShifts.filter((shift) => {
-      const shiftDate = new Date(shift.start);
-      return shiftDate >= visibleMonth && shiftDate < nextMonth;
-    });
-  }, [orderedShifts, visibleMonth]);
+  const monthShifts = useMemo(
+    () =>
+      orderedShifts.filter((shift) => {
+        const parts = getZonedDateParts(shift.start, getDisplayTimeZone(shift));
+        return (
+          parts?.year === visibleMonth.getFullYear() && parts.month === visibleMonth.getMonth() + 1
+        );
+      }),
+    [getDisplayTimeZone, orderedShifts, visibleMonth]
+  );
 
   const shiftTypesByDay = useMemo(() => {
     const map = new Map<string, Set<ShiftType>>();
-    const categorize = (shiftStart: string): ShiftType => {
-      const hour = new Date(shiftStart).getHours();
+    const categorize = (hour: number): ShiftType => {
       if (hour >= 6 && hour < 14) return 'morning';
       if (hour >= 14 && hour < 22) return 'evening';
       return 'night';
     };
     monthShifts.forEach((shift) => {
-      const shiftDate = new Date(shift.start);
-      if (Number.isNaN(shiftDate.getTime())) return;
-      const key = dayKey(shiftDate);
+      const timeZone = getDisplayTimeZone(shift);
+      const key = getZonedDayKey(shift.start, timeZone);
+      const parts = getZonedDateParts(shift.start, timeZone);
+      if (!key || !parts) return;
       const set = map.get(key) ?? new Set<ShiftType>();
-      set.add(categorize(shift.start));
+      set.add(categorize(parts.hour));
       map.set(key, set);
     });
     return map;
-  }, [monthShifts]);
+  }, [getDisplayTimeZone, monthShifts]);
 
   const shiftsByDay = useMemo(() => {
     const map = new Map<string, (typeof orderedShifts)[number][]>();
     monthShifts.forEach((shift) => {
-      const shiftDate = new Date(shift.start);
-      if (Number.isNaN(shiftDate.getTime())) return;
-      const key = dayKey(shiftDate);
+      const key = getZonedDayKey(shift.start, getDisplayTimeZone(shift));
+      if (!key) return;
       const bucket = map.get(key) ?? [];
       bucket.push(shift);
       map.set(key, bucket);
@@ -281,14 +294,13 @@ export default function CalendarScreen() {
       bucket.sort((a, b) => Number(new Date(a.start)) - Number(new Date(b.start)));
     });
     return map;
-  }, [monthShifts]);
+  }, [getDisplayTimeZone, monthShifts]);
 
   const dayPhaseMap = useMemo(() => {
     const map = new Map<string, ShiftPhase>();
     monthShifts.forEach((shift) => {
-      const shiftDate = new Date(shift.start);
-      if (Number.isNaN(shiftDate.getTime())) return;
-      const key = dayKey(shiftDate);
+      const key = getZonedDayKey(shift.start, getDisplayTimeZone(shift));
+      if (!key) return;
       const phase = getShiftPhase(shift.start, shift.end, now);
       const existing = map.get(key);
       if (!existing || existing === 'past' || (existing === 'upcoming' && phase === 'live')) {
@@ -296,10 +308,11 @@ export default function CalendarScreen() {
       }
     });
     return map;
-  }, [monthShifts, now]);
+  }, [getDisplayTimeZone, monthShifts, now]);
 
   const calendarWeeks = useMemo(() => getCalendarWeeks(visibleMonth), [visibleMonth]);
-  const showSkeletons = !isGuest && isLoading && !orderedShifts.length && !error;
+  const showSkeletons =
+    !isGuest && ((isLoading && !orderedShifts.length) || (isLoadingMonth && !monthShifts.length)) && !error;
 
   const importedCalendarColorMap = useMemo(() => {
     const palette = ['#34d399', '#fb923c', '#38bdf8', '#a855f7', '#f472b6'];
@@ -16,7 +16,8 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '@hooks/useSupabaseAuth';
 import { supabase } from '@lib/supabaseClient';
 import { useShiftFeed } from '@features/shifts/useShiftFeed';
-import { getShiftPhase } from '@shared/utils/shiftPhase';
+import { useQrClockQueue } from '@features/shifts/useQrClockQueue';
+import { useEmployeePresence } from '@features/shifts/useEmployeePresence';
 import { useNotifications } from '@shared/context/NotificationContext';
 import { useLanguage } from '@shared/context/LanguageContext';
 import { useTheme } from '@shared/themeContext';
@@ -219,6 +220,7 @@ export default function HomeDashboardScreen() {
   const { user, session } = useAuth();
   const { orderedShifts, isLoading, isUsingCachedShifts, cachedShiftsAt } = useShiftFeed();
   const { unreadCount } = useNotifications();
+  const { pendingEvents: pendingClockEvents, rejectedEvents: rejectedClockEvents } = useQrClockQueue();
   const { t } = useLanguage();
   const { theme } = useTheme();
   const employeeId = user?.id ?? '';
@@ -234,10 +236,8 @@ export default function HomeDashboardScreen() {
       }) ?? orderedShifts[0]
     );
   }, [orderedShifts]);
-  const activeShift = useMemo(
-    () => orderedShifts.find((shift) => getShiftPhase(shift.start, shift.end) === 'live') ?? null,
-    [orderedShifts]
-  );
+  const { presence } = useEmployeePresence();
+  const isClockedIn = presence.isClockedIn;
 
   const { data: vacationContext } = useQuery({
     queryKey: ['homeVacationContext', employeeId],
@@ -290,12 +290,13 @@ export default function HomeDashboardScreen() {
   const quickActions = [
     {
       key: 'clock',
-      title: activeShift ? t('dashboardClockOutAction') : t('dashboardClockInAction'),
+      title: isClockedIn ? t('dashboardClockOutAction') : t('dashboardClockInAction'),
       icon: 'qr-code-outline',
       path: '/qr-clock-in',
     },
     { key: 'shifts', title: t('dashboardViewShiftsAction'), icon: 'list-outline', path: '/my-shifts' },
     { key: 'calendar', title: t('dashboardOpenCalendarAction'), icon: 'calendar-outline', path: '/calendar' },
+    { key: 'openShifts', title: t('dashboardOpenShiftsAction'), icon: 'hand-left-outline', path: '/open-shifts' },
     { key: 'documents', title: t('dashboardUploadDocumentAction'), icon: 'document-attach-outline', path: '/employee-documents' },
     { key: 'vacation', title: t('dashboardRequestVacationAction'), icon: 'airplane-outline', path: '/vacation-requests' },
     { key: 'support', title: t('dashboardContactSupportAction'), icon: 'help-circle-outline', path: '/support' },
@@ -337,6 +338,26 @@ export default function HomeDashboardScreen() {
           </View>
         ) : null}
 
+        {pendingClockEvents.length || rejectedClockEvents.length ? (
+          <Pressable
+            style={[styles.notice, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}
+            onPress={() => router.push('/qr-clock-in')}
+            accessibilityRole="button"
+          >
+            <Ionicons
+              name={rejectedClockEvents.length ? 'alert-circle-outline' : 'cloud-upload-outline'}
+              size={15}
+              color={rejectedClockEvents.length ? theme.fail : theme.caution}
+            />
+            <Text style={[styles.noticeText, { color: theme.textSecondary }]}>
+              {rejectedClockEvents.length
+                ? t('qrClockQueueRejectedMessage', { count: rejectedClockEvents.length })
+                : t('qrClockQueuePendingTitle', { count: pendingClockEvents.length })}
+            </Text>
+            <Ionicons name="chevron-forward" size={15} color={theme.textSecondary} />
+          </Pressable>
+        ) : null}
+
         <View style={[styles.section, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
           <View style={styles.sectionHeader}>
             <Text style={[styles.sectionTitle, { color: theme.textPrimary }]}>{t('dashboardNextShiftTitle')}</Text>
@@ -373,9 +394,9 @@ export default function HomeDashboardScreen() {
 
         <View style={styles.statsGrid}>
           <View style={[styles.statCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
-            <Ionicons name={activeShift ? 'radio-button-on' : 'radio-button-off'} size={18} color={activeShift ? theme.success : theme.textSecondary} />
+            <Ionicons name={isClockedIn ? 'radio-button-on' : 'radio-button-off'} size={18} color={isClockedIn ? theme.success : theme.textSecondary} />
             <Text style={[styles.statValue, { color: theme.textPrimary }]}>
-              {activeShift ? t('dashboardClockedIn') : t('dashboardClockedOut')}
+              {isClockedIn ? t('dashboardClockedIn') : t('dashboardClockedOut')}
             </Text>
             <Text style={[styles.statLabel, { color: theme.textSecondary }]}>{t('dashboardClockStatus')}</Text>
           </View>
@@ -424,7 +445,7 @@ export default function HomeDashboardScreen() {
         </View>
 
         <PrimaryButton
-          title={activeShift ? t('dashboardClockOutAction') : t('dashboardClockInAction')}
+          title={isClockedIn ? t('dashboardClockOutAction') : t('dashboardClockInAction')}
           onPress={() => router.push('/qr-clock-in')}
         />
       </ScrollView>
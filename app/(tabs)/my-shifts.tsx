@@ -14,12 +14,23 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
 import { ShiftCard } from '@shared/components/ShiftCard';
+import { ShiftDeclineSheet } from '@shared/components/ShiftDeclineSheet';
 import { PrimaryButton } from '@shared/components/PrimaryButton';
 import { useShiftFeed } from '@features/shifts/useShiftFeed';
-import { confirmShiftAssignment } from '@features/shifts/shiftsService';
-import { normalizeShiftConfirmationStatus } from '@lib/shiftConfirmationStatus';
+import { useShiftConflicts } from '@hooks/useShiftConflicts';
+import { useShiftSeries } from '@hooks/useShiftSeries';
+import { useOpenShifts } from '@features/shifts/useOpenShifts';
+import type { Shift } from '@features/shifts/shiftsService';
+import type { ShiftDeclineInput } from '@features/shifts/shiftDecline';
+import type { ShiftConfirmItemStatus } from '@features/shifts/shiftBatchConfirm';
+import {
+  formatShiftConfirmCountdown,
+  getEarliestShiftConfirmDeadline,
+} from '@features/shifts/shiftConfirmDeadline';
+import { isShiftAwaitingResponse, normalizeShiftConfirmationStatus } from '@lib/shiftConfirmationStatus';
 import { getShiftPhase } from '@shared/utils/shiftPhase';
-import { useLanguage } from '@shared/context/LanguageContext';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import { useTimeDisplay } from '@shared/context/TimeDisplayContext';
 import { useFocusEffect, useRouter } from 'expo-router';
 import { useTheme } from '@shared/themeContext';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -29,6 +40,11 @@ import { useAuth } from '@hooks/useSupabaseAuth';
 import { buildShiftPlanCalendarContent, buildShiftPlanFileName } from '@shared/utils/shiftPlanExport';
 import { recordPositiveRatingMoment } from '@shared/utils/ratingPrompt';
 
+const confirmFailureReasonKeys: Partial<Record<ShiftConfirmItemStatus, TranslationKey>> = {
+  not_found: 'confirmAllShiftsReasonNotFound',
+  not_published: 'confirmAllShiftsReasonNotPublished',
+};
+
 const getMonthLabel = (date: Date) => date.toLocaleDateString([], { month: 'long', year: 'numeric' });
 
 const renderSkeletons = () => (
@@ -45,6 +61,7 @@ const renderSkeletons = () => (
 export default function MyShiftsScreen() {
   const router = useRouter();
   const { t } = useLanguage();
+  const { getDisplayTimeZone } = useTimeDisplay();
   const { theme } = useTheme();
   const { user } = useAuth();
   const { width, height } = useWindowDimensions();
@@ -54,8 +71,27 @@ export default function MyShiftsScreen() {
   const showTabletGrid = isTabletLandscape && width >= 1180;
   const horizontalPadding = isTablet ? 20 : layoutTokens.screenHorizontal;
   const isGuest = !user;
-  const { orderedShifts, isLoading, error, refetch, isUsingCachedShifts, cachedShiftsAt } = useShiftFeed();
+  const {
+    orderedShifts,
+    isLoading,
+    error,
+    refetch,
+    isUsingCachedShifts,
+    cachedShiftsAt,
+    pendingSyncCount,
+    syncConflicts,
+    dismissSyncConflicts,
+    confirmAssignment,
+    confirmAssignments,
+    declineAssignment,
+    declineAssignments,
+  } = useShiftFeed();
+  const { getConflictWarnings, confirmDespiteConflicts } = useShiftConflicts(orderedShifts);
+  const { getSeriesSummary, chooseSeriesScope } = useShiftSeries(orderedShifts);
+  const { pendingClaimCount } = useOpenShifts({ listOpenShifts: false });
   const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [decliningShifts, setDecliningShifts] = useState<Shift[]>([]);
+  const [isSubmittingDecline, setIsSubmittingDecline] = useState(false);
   const [confirmingAll, setConfirmingAll] = useState(false);
   const [isExportingPlan, setIsExportingPlan] = useState(false);
   const [layoutTick, setLayoutTick] = useState(0);
@@ -83,14 +119,16 @@ export default function MyShiftsScreen() {
     if (Number.isNaN(start.getTime())) {
       return t('nextShift');
     }
+    const timeZone = getDisplayTimeZone(nextShift);
     const dateText = start.toLocaleDateString([], {
       weekday: 'short',
       month: 'short',
       day: 'numeric',
+      timeZone,
     });
-    const timeText = start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    const timeText = start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone });
     return `${t('nextShift')}: ${dateText} · ${timeText}`;
-  }, [isGuest, nextShift, t]);
+  }, [getDisplayTimeZone, isGuest, nextShift, t]);
 
   const showSkeletons = isLoading && !orderedShifts.length && !error;
   const cachedShiftNotice = isUsingCachedShifts ? (
@@ -105,17 +143,22 @@ export default function MyShiftsScreen() {
       </Text>
     </View>
   ) : null;
-  const pendingAssignmentIds = useMemo(
+  const pendingShifts = useMemo(
     () =>
-      orderedShifts
-        .filter((shift) => {
-          if (!shift.assignmentId) return false;
-          const normalized = normalizeShiftConfirmationStatus(shift.confirmationStatus);
-          return normalized === 'published';
-        })
-        .map((shift) => shift.assignmentId as string),
+      orderedShifts.filter((shift) => {
+        if (!shift.assignmentId) return false;
+        return isShiftAwaitingResponse(normalizeShiftConfirmationStatus(shift.confirmationStatus));
+      }),
     [orderedShifts]
   );
+  const earliestConfirmDeadline = useMemo(
+    () => getEarliestShiftConfirmDeadline(pendingShifts),
+    [pendingShifts]
+  );
+  const pendingAssignmentIds = useMemo(
+    () => pendingShifts.map((shift) => shift.assignmentId as string),
+    [pendingShifts]
+  );
   const pendingAssignmentIdSet = useMemo(
     () => new Set(pendingAssignmentIds),
     [pendingAssignmentIds]
@@ -196,12 +239,85 @@ export default function MyShiftsScreen() {
     []
   );
 
+  useEffect(() => {
+    if (!syncConflicts.length) return;
+    const failedCount = syncConflicts.filter((conflict) => conflict.reason === 'retries-exhausted').length;
+    const changedCount = syncConflicts.length - failedCount;
+    Alert.alert(
+      t('shiftSyncConflictTitle'),
+      [
+        changedCount ? t('shiftSyncConflictBody', { count: changedCount }) : null,
+        failedCount ? t('shiftSyncFailedBody', { count: failedCount }) : null,
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+    );
+    dismissSyncConflicts();
+  }, [dismissSyncConflicts, syncConflicts, t]);
+
+  /** Confirms several shifts at once and reports per-shift results. */
+  const confirmShiftBatch = useCallback(
+    async (targets: Shift[]) => {
+      const { confirmed, queued, failed } = await confirmAssignments(targets);
+      if (failed.length) {
+        console.error('Confirm all shifts failed', {
+          failed: failed.map(({ result }) => result),
+          total: targets.length,
+        });
+      }
+      const lines: string[] = [];
+      if (!failed.length && confirmed.length) {
+        lines.push(t('confirmAllShiftsResultSuccessBody', { count: confirmed.length }));
+      } else if (failed.length && confirmed.length) {
+        lines.push(
+          t('confirmAllShiftsResultPartialBody', {
+            successCount: confirmed.length,
+            failedCount: failed.length,
+          })
+        );
+      } else if (failed.length) {
+        lines.push(t('confirmAllShiftsResultFailureBody'));
+      }
+      if (queued.length) {
+        lines.push(t('confirmAllShiftsResultQueuedBody', { count: queued.length }));
+      }
+      failed.forEach(({ shift, result }) => {
+        lines.push(
+          t('confirmAllShiftsFailedItem', {
+            shift: shift.objectName ?? shift.title,
+            date: new Date(shift.start).toLocaleDateString([], {
+              weekday: 'short',
+              month: 'short',
+              day: 'numeric',
+              timeZone: getDisplayTimeZone(shift),
+            }),
+            reason: t(confirmFailureReasonKeys[result.status] ?? 'confirmAllShiftsReasonFailed'),
+          })
+        );
+      });
+      Alert.alert(t('confirmAllShiftsResultTitle'), lines.join('\n'));
+    },
+    [confirmAssignments, getDisplayTimeZone, t]
+  );
+
   const handleConfirm = useCallback(
-    async (assignmentId: string) => {
+    async (shift: Shift) => {
+      const assignmentId = shift.assignmentId;
+      if (!assignmentId) return;
+      const targets = await chooseSeriesScope(shift, 'confirm');
+      if (!targets) return;
+      if (!(await confirmDespiteConflicts(targets))) return;
       try {
         setConfirmingId(assignmentId);
-        await confirmShiftAssignment(assignmentId);
-        await refetch();
+        if (targets.length > 1) {
+          await confirmShiftBatch(targets);
+          return;
+        }
+        const outcome = await confirmAssignment(shift);
+        if (outcome === 'queued') {
+          Alert.alert(t('shiftConfirmQueuedTitle'), t('shiftConfirmQueuedBody'));
+          return;
+        }
         await recordPositiveRatingMoment({
           moment: 'shift-confirmed',
           copy: {
@@ -219,48 +335,59 @@ export default function MyShiftsScreen() {
         setConfirmingId((current) => (current === assignmentId ? null : current));
       }
     },
-    [refetch, router, t]
+    [chooseSeriesScope, confirmAssignment, confirmDespiteConflicts, confirmShiftBatch, router, t]
+  );
+
+  const handleDecline = useCallback(
+    async (shift: Shift) => {
+      const targets = await chooseSeriesScope(shift, 'decline');
+      if (targets) setDecliningShifts(targets);
+    },
+    [chooseSeriesScope]
+  );
+
+  const handleDeclineSubmit = useCallback(
+    async (input: ShiftDeclineInput) => {
+      if (!decliningShifts.length) return;
+      try {
+        setIsSubmittingDecline(true);
+        if (decliningShifts.length === 1) {
+          await declineAssignment(decliningShifts[0], input);
+          setDecliningShifts([]);
+          return;
+        }
+        const { declined, failed } = await declineAssignments(decliningShifts, input);
+        if (!declined.length) {
+          Alert.alert(t('shiftDeclineFailedTitle'), t('shiftDeclineFailedBody'));
+          return;
+        }
+        setDecliningShifts([]);
+        if (failed.length) {
+          Alert.alert(
+            t('shiftDeclineFailedTitle'),
+            t('shiftSeriesDeclinePartialBody', { declined: declined.length, total: decliningShifts.length })
+          );
+        }
+      } catch (error) {
+        console.error('Shift decline failed', error);
+        Alert.alert(t('shiftDeclineFailedTitle'), t('shiftDeclineFailedBody'));
+      } finally {
+        setIsSubmittingDecline(false);
+      }
+    },
+    [declineAssignment, declineAssignments, decliningShifts, t]
   );
 
   const handleConfirmAll = useCallback(async () => {
-    if (!pendingAssignmentIds.length || confirmingAll) return;
+    if (!pendingShifts.length || confirmingAll) return;
+    if (!(await confirmDespiteConflicts(pendingShifts))) return;
     try {
       setConfirmingAll(true);
-      const results = await Promise.allSettled(
-        pendingAssignmentIds.map((assignmentId) => confirmShiftAssignment(assignmentId))
-      );
-      const succeeded = results.filter((result) => result.status === 'fulfilled').length;
-      const rejected = results.filter((result) => result.status === 'rejected');
-      if (rejected.length) {
-        console.error('Confirm all shifts failed', {
-          failed: rejected.length,
-          total: results.length,
-        });
-      }
-      await refetch();
-      if (!rejected.length) {
-        Alert.alert(
-          t('confirmAllShiftsResultTitle'),
-          t('confirmAllShiftsResultSuccessBody', { count: succeeded })
-        );
-      } else if (succeeded > 0) {
-        Alert.alert(
-          t('confirmAllShiftsResultTitle'),
-          t('confirmAllShiftsResultPartialBody', {
-            successCount: succeeded,
-            failedCount: rejected.length,
-          })
-        );
-      } else {
-        Alert.alert(
-          t('confirmAllShiftsResultTitle'),
-          t('confirmAllShiftsResultFailureBody')
-        );
-      }
+      await confirmShiftBatch(pendingShifts);
     } finally {
       setConfirmingAll(false);
     }
-  }, [confirmingAll, pendingAssignmentIds, refetch, t]);
+  }, [confirmDespiteConflicts, confirmShiftBatch, confirmingAll, pendingShifts]);
 
   const handleExportShiftPlan = useCallback(async () => {
     if (isExportingPlan) return;
@@ -369,7 +496,10 @@ export default function MyShiftsScreen() {
                 params: { from: 'shifts' },
               })
             }
-            onConfirm={assignmentId ? () => handleConfirm(assignmentId) : undefined}
+            onConfirm={assignmentId ? () => handleConfirm(shift) : undefined}
+            onDecline={assignmentId ? () => void handleDecline(shift) : undefined}
+            conflictWarnings={getConflictWarnings(shift.id)}
+            seriesSummary={getSeriesSummary(shift)}
             confirmLoading={
               assignmentId
                 ? confirmingId === assignmentId || (confirmingAll && pendingAssignmentIdSet.has(assignmentId))
@@ -383,7 +513,10 @@ export default function MyShiftsScreen() {
       confirmingAll,
       confirmingId,
       focusedShiftId,
+      getConflictWarnings,
+      getSeriesSummary,
       handleConfirm,
+      handleDecline,
       handleShiftLayout,
       pendingAssignmentIdSet,
       router,
@@ -478,6 +611,43 @@ export default function MyShiftsScreen() {
           </View>
         </View>
         {isUsingCachedShifts ? cachedShiftNotice : errorView}
+        {earliestConfirmDeadline ? (
+          <View style={[styles.cachedNotice, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}>
+            <Ionicons
+              name="hourglass-outline"
+              size={15}
+              color={earliestConfirmDeadline.urgency === 'normal' ? theme.info : theme.caution}
+            />
+            <Text style={[styles.cachedNoticeText, { color: theme.textSecondary }]}>
+              {earliestConfirmDeadline.urgency === 'overdue'
+                ? t('shiftConfirmDeadlineNoticeOverdue', { count: pendingShifts.length })
+                : t('shiftConfirmDeadlineNotice', {
+                    count: pendingShifts.length,
+                    time: formatShiftConfirmCountdown(earliestConfirmDeadline.remainingMs),
+                  })}
+            </Text>
+          </View>
+        ) : null}
+        {pendingSyncCount > 0 ? (
+          <View style={[styles.cachedNotice, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}>
+            <Ionicons name="sync-outline" size={15} color={theme.caution} />
+            <Text style={[styles.cachedNoticeText, { color: theme.textSecondary }]}>
+              {t('shiftSyncPendingNotice', { count: pendingSyncCount })}
+            </Text>
+          </View>
+        ) : null}
+        {pendingClaimCount > 0 ? (
+          <TouchableOpacity
+            onPress={() => router.push('/open-shifts')}
+            activeOpacity={0.9}
+            style={[styles.cachedNotice, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}
+          >
+            <Ionicons name="hand-left-outline" size={15} color={theme.info} />
+            <Text style={[styles.cachedNoticeText, { color: theme.textSecondary }]}>
+              {t('openShiftsPendingClaimsNotice', { count: pendingClaimCount })}
+            </Text>
+          </TouchableOpacity>
+        ) : null}
         <ScrollView
           ref={listScrollRef}
           contentContainerStyle={listContentStyle}
@@ -498,6 +668,12 @@ export default function MyShiftsScreen() {
           {!error && !orderedShifts.length && !isLoading && renderListEmptyState()}
         </ScrollView>
       </View>
+      <ShiftDeclineSheet
+        visible={decliningShifts.length > 0}
+        submitting={isSubmittingDecline}
+        onClose={() => setDecliningShifts([])}
+        onSubmit={(input) => void handleDeclineSubmit(input)}
+      />
     </SafeAreaView>
   );
 }
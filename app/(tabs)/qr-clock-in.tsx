@@ -1,154 +1,87 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Alert, Linking, Pressable, StyleSheet, Text, useWindowDimensions, View } from 'react-native';
 import { Camera, CameraView, BarcodeScanningResult, PermissionResponse } from 'expo-camera';
 import { useRouter } from 'expo-router';
 import Constants from 'expo-constants';
 import { PrimaryButton } from '@shared/components/PrimaryButton';
-import { useLanguage } from '@shared/context/LanguageContext';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '@shared/themeContext';
 import { LinearGradient } from 'expo-linear-gradient';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { layoutTokens } from '@shared/theme/layout';
 import { useAuth } from '@hooks/useSupabaseAuth';
-import { supabase } from '@lib/supabaseClient';
-import { parseQrClockInCode } from '@shared/utils/qrClockIn';
+import { type SignedQrTokenCheck, findShiftForQrClockIn, parseQrClockInCode } from '@shared/utils/qrClockIn';
+import { verifyQrClockInCode } from '@features/shifts/qrSigningKeys';
+import { useLocation } from '@hooks/useLocation';
+import {
+  type QrClockInLocation,
+  type ShiftGeofence,
+  checkGeofence,
+  toQrClockInLocation,
+} from '@features/shifts/shiftGeofence';
 import { recordPositiveRatingMoment } from '@shared/utils/ratingPrompt';
 import { useShiftFeed } from '@features/shifts/useShiftFeed';
 import { trackAppEvent } from '@shared/utils/analytics';
+import { ShiftHandoverSheet } from '@shared/components/ShiftHandoverSheet';
+import { createHandoverNote } from '@features/shifts/shiftHandoverService';
+import { getShiftChecklistProgress, loadLocalShiftChecklist } from '@features/shifts/shiftChecklist';
+import { queueShiftChecklistSubmission } from '@features/shifts/shiftChecklistService';
+import { postQrClockIn } from '@features/shifts/qrClockInService';
+import {
+  type QueuedClockEvent,
+  createQueuedClockEvent,
+  enqueueClockEvent,
+  inferQueuedClockAction,
+} from '@features/shifts/qrClockQueue';
+import { useQrClockQueue } from '@features/shifts/useQrClockQueue';
+import { isNetworkError } from '@features/shifts/shiftMutationQueue';
+import { type ManualClockInput, getDefaultManualClockAction, getManualClockShifts } from '@features/shifts/manualClock';
+import { useManualClock } from '@features/shifts/useManualClock';
+import { type ShiftBreakAction, type ShiftBreakResult, getShiftBreakMs } from '@features/shifts/shiftBreaks';
+import { useShiftBreaks } from '@features/shifts/useShiftBreaks';
+import { useEmployeePresence } from '@features/shifts/useEmployeePresence';
+import { ManualClockSheet, manualClockResultTranslationKeys } from '@shared/components/ManualClockSheet';
 
-type EmployeePresence = {
-  isLoggedIn: boolean;
-  lastCheckInAt?: string | null;
-  lastCheckInTag?: string | null;
-};
+type ScanStatus = 'ready' | 'checking' | 'confirm' | 'success' | 'queued' | 'error';
 
-type ScanStatus = 'ready' | 'checking' | 'confirm' | 'success' | 'error';
+type ClockInLocationResult =
+  | { ok: true; location?: QrClockInLocation }
+  | { ok: false; message: string; canOpenSettings?: boolean };
 
 const CLOCK_IN_REMINDER_WINDOW_MS = 60 * 60 * 1000;
 const CLOCK_OUT_REMINDER_WINDOW_MS = 30 * 60 * 1000;
 
-const getStringField = (source?: Record<string, unknown>, key?: string) => {
-  if (!source || !key) return undefined;
-  const value = source[key];
-  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
-};
-
-const isMissingColumnError = (error: unknown) =>
-  typeof error === 'object' &&
-  error !== null &&
-  'code' in error &&
-  (error as { code?: string }).code === '42703';
-
-const withUtcFallback = (value?: string | null) => {
-  if (!value) return null;
-  const normalized = value.trim();
-  if (!normalized) return null;
-  if (/[zZ]$/.test(normalized) || /[+-]\d{2}:\d{2}$/.test(normalized)) {
-    return normalized;
-  }
-  return `${normalized}Z`;
-};
-
-const parsePresenceDate = (value?: string | null) => {
-  const normalized = withUtcFallback(value);
-  if (!normalized) return null;
-  const parsed = new Date(normalized);
-  if (Number.isNaN(parsed.getTime())) {
-    return null;
-  }
-  return parsed;
-};
-
 const formatShortTime = (value: Date) =>
   value.toLocaleTimeString([], {
     hour: 'numeric',
     minute: '2-digit',
   });
 
-const getShiftIdFromTag = (tag?: string | null) => {
-  if (typeof tag !== 'string') return null;
-  const trimmed = tag.trim();
-  if (!trimmed.startsWith('shift:')) {
-    return null;
-  }
-  const shiftId = trimmed.slice('shift:'.length).trim();
-  return shiftId || null;
-};
-
-const fetchEmployeePresence = async (
-  employeeId: string,
-  email?: string | null,
-  metadata?: Record<string, unknown>
-): Promise<EmployeePresence | null> => {
-  if (!supabase) {
-    return null;
-  }
+const formatDistance = (meters: number) =>
+  meters >= 1000
+    ? `${(meters / 1000).toLocaleString([], { maximumFractionDigits: 1 })} km`
+    : `${Math.round(meters)} m`;
 
-  const candidateLookups: { column: string; value: string }[] = [
-    { column: 'id', value: employeeId },
-    { column: 'employeeId', value: employeeId },
-    { column: 'employee_id', value: employeeId },
-    { column: 'userId', value: employeeId },
-    { column: 'user_id', value: employeeId },
-    { column: 'auth_user_id', value: employeeId },
-    { column: 'authUserId', value: employeeId },
-    { column: 'profile_id', value: employeeId },
-    { column: 'profileId', value: employeeId },
-  ];
-  if (email) {
-    candidateLookups.push({ column: 'email', value: email });
-  }
-
-  const metadataEmployeeIds = [
-    getStringField(metadata, 'employee_id'),
-    getStringField(metadata, 'employeeId'),
-    getStringField(metadata, 'profile_id'),
-    getStringField(metadata, 'profileId'),
-  ].filter((value): value is string => Boolean(value));
-  metadataEmployeeIds.forEach((value) => {
-    candidateLookups.push({ column: 'id', value });
-    candidateLookups.push({ column: 'employee_id', value });
-    candidateLookups.push({ column: 'employeeId', value });
-  });
-
-  const seenLookups = new Set<string>();
-  for (const lookup of candidateLookups) {
-    const dedupeKey = `${lookup.column}:${lookup.value}`;
-    if (seenLookups.has(dedupeKey)) {
-      continue;
-    }
-    seenLookups.add(dedupeKey);
-
-    const { data, error } = await supabase
-      .from('employees')
-      .select('isLoggedIn,lastCheckInAt,lastCheckInTag')
-      .eq(lookup.column, lookup.value)
-      .limit(1);
-
-    if (error) {
-      if (isMissingColumnError(error)) {
-        continue;
-      }
-      console.warn('Failed to load QR presence state', error);
-      return null;
-    }
-
-    if (Array.isArray(data) && data.length > 0) {
-      const row = data[0] as {
-        isLoggedIn?: unknown;
-        lastCheckInAt?: unknown;
-        lastCheckInTag?: unknown;
-      };
-      return {
-        isLoggedIn: row.isLoggedIn === true,
-        lastCheckInAt: typeof row.lastCheckInAt === 'string' ? row.lastCheckInAt : null,
-        lastCheckInTag: typeof row.lastCheckInTag === 'string' ? row.lastCheckInTag : null,
-      };
-    }
-  }
+/** Running break time as m:ss, or h:mm:ss from one hour on. */
+const formatBreakTimer = (elapsedMs: number) => {
+  const totalSeconds = Math.max(0, Math.floor(elapsedMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
 
-  return null;
+const breakResultTranslationKeys: Record<ShiftBreakResult['status'], TranslationKey> = {
+  started: 'qrBreakStartedMessage',
+  ended: 'qrBreakEndedMessage',
+  already_recorded: 'qrBreakResultAlreadyRecorded',
+  already_on_break: 'qrBreakResultAlreadyOnBreak',
+  not_on_break: 'qrBreakResultNotOnBreak',
+  not_assigned: 'qrBreakResultNotAssigned',
+  not_found: 'qrBreakResultNotFound',
+  outside_shift: 'qrBreakResultOutsideShift',
+  invalid: 'qrBreakResultInvalid',
 };
 
 export default function QrClockInScreen() {
@@ -168,29 +101,39 @@ export default function QrClockInScreen() {
   const [scanFeedback, setScanFeedback] = useState<string | null>(null);
   const [scanStatus, setScanStatus] = useState<ScanStatus>('ready');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [employeePresence, setEmployeePresence] = useState<EmployeePresence | null>(null);
   const [clockTickMs, setClockTickMs] = useState(() => Date.now());
+  const [handoverShiftId, setHandoverShiftId] = useState<string | null>(null);
+  const [isSubmittingHandover, setIsSubmittingHandover] = useState(false);
+  const [isManualClockVisible, setIsManualClockVisible] = useState(false);
   const { t } = useLanguage();
   const { user, session } = useAuth();
   const { orderedShifts } = useShiftFeed();
+  const { refresh: refreshLocation } = useLocation();
+  const {
+    pendingEvents: pendingClockEvents,
+    rejectedEvents: rejectedClockEvents,
+    lastResult: lastClockQueueResult,
+    flush: flushClockQueue,
+    discardEvent: discardClockEvent,
+  } = useQrClockQueue();
+  const { submitRequest: submitManualClockRequest, isSubmitting: isSubmittingManualClock } = useManualClock();
+  const { breaks: shiftBreaks, activeBreak, recordBreak, isRecording: isRecordingBreak } = useShiftBreaks();
+  const { presence, refetch: refetchPresence } = useEmployeePresence();
   const apiBaseUrlValue = (Constants.expoConfig?.extra?.apiBaseUrl as string | undefined)?.trim();
   const apiBaseUrl = apiBaseUrlValue ? apiBaseUrlValue.replace(/\/+$/, '') : '';
   const lastScanRef = useRef<{ value: string; at: number } | null>(null);
-  const mergedMetadata = useMemo(() => {
-    const next: Record<string, unknown> = {};
-    if (user?.app_metadata && typeof user.app_metadata === 'object') {
-      Object.assign(next, user.app_metadata);
-    }
-    if (user?.user_metadata && typeof user.user_metadata === 'object') {
-      Object.assign(next, user.user_metadata);
-    }
-    return next;
-  }, [user?.app_metadata, user?.user_metadata]);
-
+  const handledClockQueueResultRef = useRef<typeof lastClockQueueResult>(null);
   const resolveQrClockInErrorMessage = (status: number, errorMessage?: string) => {
     if (status === 401) {
       return t('qrClockInSessionRequired');
     }
+    if (
+      (status === 403 || status === 422) &&
+      typeof errorMessage === 'string' &&
+      /geofence|outside.*(site|radius)/i.test(errorMessage)
+    ) {
+      return t('qrClockInOutsideGeofenceServer');
+    }
     if (status === 403) {
       return typeof errorMessage === 'string' && errorMessage.trim()
         ? errorMessage.trim()
@@ -212,6 +155,23 @@ export default function QrClockInScreen() {
     return t('qrClockInInvalidCode');
   };
 
+  /** Message for codes refused on the device; null when the scan may be submitted. */
+  const resolveQrTokenCheckMessage = (check: SignedQrTokenCheck) => {
+    switch (check.status) {
+      case 'malformed':
+        return t('qrClockInTokenMalformed');
+      case 'unknown-key':
+      case 'invalid-signature':
+        return t('qrClockInTokenForged');
+      case 'expired':
+        return t('qrClockInTokenExpired', { time: formatShortTime(new Date(check.expiredAt)) });
+      case 'not-yet-valid':
+        return t('qrClockInTokenNotYetValid', { time: formatShortTime(new Date(check.validFrom)) });
+      default:
+        return null;
+    }
+  };
+
   const formatWorkedDuration = (workedMs?: number) => {
     if (typeof workedMs !== 'number' || !Number.isFinite(workedMs) || workedMs <= 0) {
       return null;
@@ -235,52 +195,36 @@ export default function QrClockInScreen() {
     })();
   }, []);
 
-  useEffect(() => {
-    const timer = setInterval(() => setClockTickMs(Date.now()), 60000);
-    return () => clearInterval(timer);
-  }, []);
+  const checkedInAt = presence.clockedInAt;
+  const activeShiftId = presence.activeShiftId;
+  const currentBreak =
+    presence.isClockedIn && activeBreak && activeBreak.shiftId === activeShiftId ? activeBreak : null;
+  const isOnBreak = Boolean(currentBreak);
 
   useEffect(() => {
-    let isActive = true;
-
-    const loadPresence = async () => {
-      if (!user?.id) {
-        if (isActive) {
-          setEmployeePresence(null);
-        }
-        return;
-      }
-      const nextPresence = await fetchEmployeePresence(user.id, user.email, mergedMetadata);
-      if (isActive) {
-        setEmployeePresence(nextPresence);
-      }
-    };
-
-    void loadPresence();
-    const timer = setInterval(() => {
-      void loadPresence();
-    }, 60000);
-
-    return () => {
-      isActive = false;
-      clearInterval(timer);
-    };
-  }, [mergedMetadata, user?.email, user?.id]);
+    setClockTickMs(Date.now());
+    // The break timer counts seconds; otherwise a minute is precise enough.
+    const timer = setInterval(() => setClockTickMs(Date.now()), isOnBreak ? 1000 : 60000);
+    return () => clearInterval(timer);
+  }, [isOnBreak]);
 
-  const checkedInAt = parsePresenceDate(employeePresence?.lastCheckInAt);
-  const activeShiftId = getShiftIdFromTag(employeePresence?.lastCheckInTag);
   const activeShift = useMemo(
     () => orderedShifts.find((shift) => shift.id === activeShiftId) ?? null,
     [activeShiftId, orderedShifts]
   );
   const workedSoFar = useMemo(() => {
-    if (!employeePresence?.isLoggedIn || !checkedInAt) {
+    if (!presence.isClockedIn || !checkedInAt) {
       return null;
     }
-    return formatWorkedDuration(Math.max(0, clockTickMs - checkedInAt.getTime()));
-  }, [checkedInAt, clockTickMs, employeePresence?.isLoggedIn, t]);
+    const breakMs = activeShiftId ? getShiftBreakMs(shiftBreaks, activeShiftId, clockTickMs) : 0;
+    return formatWorkedDuration(Math.max(0, clockTickMs - checkedInAt.getTime() - breakMs));
+  }, [activeShiftId, checkedInAt, clockTickMs, presence.isClockedIn, shiftBreaks, t]);
+  const shiftBreakTotal =
+    presence.isClockedIn && activeShiftId && !currentBreak
+      ? formatWorkedDuration(getShiftBreakMs(shiftBreaks, activeShiftId, clockTickMs))
+      : null;
   const reminderMessage = useMemo(() => {
-    if (employeePresence?.isLoggedIn && activeShift) {
+    if (presence.isClockedIn && activeShift) {
       const shiftEnd = new Date(activeShift.end);
       if (!Number.isNaN(shiftEnd.getTime())) {
         const remainingMs = shiftEnd.getTime() - clockTickMs;
@@ -301,7 +245,7 @@ export default function QrClockInScreen() {
       const untilStart = shiftStart.getTime() - clockTickMs;
       return untilStart >= 0 && untilStart <= CLOCK_IN_REMINDER_WINDOW_MS;
     });
-    if (!nextShift || employeePresence?.isLoggedIn) {
+    if (!nextShift || presence.isClockedIn) {
       return null;
     }
 
@@ -309,7 +253,7 @@ export default function QrClockInScreen() {
       shift: nextShift.title,
       time: formatShortTime(new Date(nextShift.start)),
     });
-  }, [activeShift, clockTickMs, employeePresence?.isLoggedIn, orderedShifts, t]);
+  }, [activeShift, clockTickMs, presence.isClockedIn, orderedShifts, t]);
 
   const scanStatusMeta = useMemo(() => {
     if (scanStatus === 'checking' || isSubmitting) {
@@ -336,6 +280,14 @@ export default function QrClockInScreen() {
         color: theme.success,
       };
     }
+    if (scanStatus === 'queued') {
+      return {
+        icon: 'cloud-upload-outline',
+        title: t('qrScanStatusQueuedTitle'),
+        body: scanFeedback ?? t('qrScanStatusQueuedBody'),
+        color: theme.caution,
+      };
+    }
     if (scanStatus === 'error') {
       return {
         icon: 'alert-circle-outline',
@@ -347,20 +299,162 @@ export default function QrClockInScreen() {
     return {
       icon: 'scan-outline',
       title: t('qrScanStatusReadyTitle'),
-      body: activeShift
+      body: currentBreak
+        ? t('qrScanStatusReadyBreakBody')
+        : activeShift
         ? t('qrScanStatusReadyClockOutBody', { shift: activeShift.title })
         : t('qrScanStatusReadyBody'),
       color: theme.primary,
     };
-  }, [activeShift, isSubmitting, scanFeedback, scanStatus, t, theme.caution, theme.fail, theme.primary, theme.success]);
+  }, [
+    activeShift,
+    currentBreak,
+    isSubmitting,
+    scanFeedback,
+    scanStatus,
+    t,
+    theme.caution,
+    theme.fail,
+    theme.primary,
+    theme.success,
+  ]);
 
-  const refreshPresence = async () => {
-    if (!user?.id) {
-      setEmployeePresence(null);
-      return;
+  const refreshPresence = useCallback(async () => {
+    if (!user?.id) return;
+    await refetchPresence();
+  }, [refetchPresence, user?.id]);
+
+  useEffect(() => {
+    // Handle each replay result once, even when `t` or the user changes later.
+    if (!lastClockQueueResult || handledClockQueueResultRef.current === lastClockQueueResult) return;
+    handledClockQueueResultRef.current = lastClockQueueResult;
+    void refreshPresence();
+    if (user?.id) {
+      lastClockQueueResult.submitted.forEach(({ response }) => {
+        if (response.clockIn?.action === 'clock_out' && response.clockIn.shiftId) {
+          void queueShiftChecklistSubmission(user.id, response.clockIn.shiftId);
+        }
+      });
+    }
+    if (lastClockQueueResult.rejected.length) {
+      Alert.alert(
+        t('qrClockQueueRejectedTitle'),
+        t('qrClockQueueRejectedMessage', { count: lastClockQueueResult.rejected.length })
+      );
+    }
+  }, [lastClockQueueResult, refreshPresence, t, user?.id]);
+
+  const describeQueuedClockEvent = (event: QueuedClockEvent) => {
+    const shift = event.shiftId ? orderedShifts.find((candidate) => candidate.id === event.shiftId) : undefined;
+    return t(event.expectedAction === 'clock_out' ? 'qrClockQueueClockOutAt' : 'qrClockQueueClockInAt', {
+      time: formatShortTime(new Date(event.scannedAt)),
+      shift: shift?.title ?? t('qrClockQueueUnknownShift'),
+    });
+  };
+
+  /**
+   * Keeps a scan that could not reach the server so it is replayed later. Scans
+   * made while earlier ones are still queued wait behind them to keep the order.
+   */
+  const queueOfflineScan = async (
+    normalizedData: string,
+    location: QrClockInLocation | undefined,
+    reason: 'offline' | 'behind-queue'
+  ) => {
+    if (!user?.id) return false;
+    const shiftId =
+      parseQrClockInCode(normalizedData).shiftId ?? findShiftForQrClockIn(normalizedData, orderedShifts)?.id;
+    const isClockedInToShift = presence.isClockedIn && Boolean(shiftId) && shiftId === activeShiftId;
+    const event = createQueuedClockEvent({
+      qrCode: normalizedData,
+      shiftId,
+      expectedAction: inferQueuedClockAction(pendingClockEvents, shiftId, isClockedInToShift),
+      location,
+    });
+    try {
+      await enqueueClockEvent(user.id, event);
+    } catch (error) {
+      console.warn('Failed to queue offline QR scan', error);
+      return false;
+    }
+    const message = t(reason === 'offline' ? 'qrClockQueuedMessage' : 'qrClockQueuedBehindMessage', {
+      event: describeQueuedClockEvent(event),
+    });
+    setScanFeedback(message);
+    setScanStatus('queued');
+    Alert.alert(t('qrClockQueuedTitle'), message);
+    return true;
+  };
+
+  const continueAfterScan = (shiftId: string, isClockOut: boolean) => {
+    void recordPositiveRatingMoment({
+      moment: isClockOut ? 'qr-clock-out' : 'qr-clock-in',
+      copy: {
+        title: t('ratingPromptTitle'),
+        body: t('ratingPromptBody'),
+        rateAction: t('ratingPromptRateAction'),
+        feedbackAction: t('ratingPromptFeedbackAction'),
+        laterAction: t('ratingPromptLaterAction'),
+      },
+      onFeedback: () => router.push('/support'),
+    });
+    router.push(`/shift-details/${shiftId}`);
+  };
+
+  const closeHandoverSheet = () => {
+    const shiftId = handoverShiftId;
+    setHandoverShiftId(null);
+    if (shiftId) continueAfterScan(shiftId, true);
+  };
+
+  const handleSubmitHandover = async (body: string) => {
+    if (!handoverShiftId) return;
+    setIsSubmittingHandover(true);
+    try {
+      const result = await createHandoverNote(handoverShiftId, body);
+      if (!result.ok) {
+        Alert.alert(t('shiftHandoverSheetTitle'), t('shiftHandoverSubmitFailed'));
+        return;
+      }
+      closeHandoverSheet();
+    } catch (error) {
+      console.warn('Failed to save handover note', error);
+      Alert.alert(t('shiftHandoverSheetTitle'), t('shiftHandoverSubmitFailed'));
+    } finally {
+      setIsSubmittingHandover(false);
     }
-    const nextPresence = await fetchEmployeePresence(user.id, user.email, mergedMetadata);
-    setEmployeePresence(nextPresence);
+  };
+
+  /**
+   * Takes a fresh position fix for the scan. Sites without a geofence accept
+   * scans without one; for the others the scan is refused on the device when
+   * the employee is clearly elsewhere, and the server repeats the check.
+   */
+  const resolveClockInLocation = async (geofence?: ShiftGeofence): Promise<ClockInLocationResult> => {
+    const result = await refreshLocation({ enableHighAccuracy: true, maximumAge: 30_000, timeout: 15_000 });
+    if (result.status !== 'granted') {
+      // Without a fix the scan still goes through and the server enforces the fence.
+      if (!geofence || result.status === 'unavailable') return { ok: true };
+      return { ok: false, message: t('qrClockInLocationDenied'), canOpenSettings: true };
+    }
+
+    const fix = {
+      latitude: result.location.coords.latitude,
+      longitude: result.location.coords.longitude,
+      accuracy: result.location.coords.accuracy ?? undefined,
+      capturedAt: new Date(result.location.timestamp).toISOString(),
+    };
+    const check = checkGeofence(geofence, fix);
+    if (check.status === 'outside') {
+      return {
+        ok: false,
+        message: t('qrClockInOutsideGeofence', { distance: formatDistance(check.distanceMeters) }),
+      };
+    }
+    if (check.status === 'inaccurate') {
+      return { ok: false, message: t('qrClockInLocationInaccurate') };
+    }
+    return { ok: true, location: toQrClockInLocation(fix) };
   };
 
   const submitQrScan = async (normalizedData: string, rawData: string) => {
@@ -387,37 +481,63 @@ export default function QrClockInScreen() {
       return;
     }
 
+    let location: QrClockInLocation | undefined;
     try {
-      const response = await fetch(`${apiBaseUrl}/api/objects/qr-clock-in`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({
-          qrCode: normalizedData,
-        }),
-      });
+      const tokenCheck = user?.id
+        ? await verifyQrClockInCode(normalizedData, {
+            employeeId: user.id,
+            apiBaseUrl,
+            accessToken: session.access_token,
+          })
+        : null;
+      const tokenMessage = tokenCheck ? resolveQrTokenCheckMessage(tokenCheck) : null;
+      if (tokenMessage) {
+        setScanFeedback(tokenMessage);
+        setScanStatus('error');
+        Alert.alert(t('qrClockInInvalidTitle'), tokenMessage);
+        return;
+      }
 
-      const payload = (await response.json().catch(() => ({}))) as {
-        clockIn?: {
-          shiftId?: string;
-          action?: 'clock_in' | 'clock_out';
-          workedMs?: number;
-        };
-        error?: string;
-      };
+      const scannedShift = findShiftForQrClockIn(normalizedData, orderedShifts);
+      const locationResult = await resolveClockInLocation(scannedShift?.geofence);
+      if (!locationResult.ok) {
+        setScanFeedback(locationResult.message);
+        setScanStatus('error');
+        Alert.alert(
+          t('qrClockInLocationTitle'),
+          locationResult.message,
+          locationResult.canOpenSettings
+            ? [
+                { text: t('commonCancel'), style: 'cancel' },
+                { text: t('openSystemSettings'), onPress: handleOpenSettings },
+              ]
+            : undefined
+        );
+        return;
+      }
 
-      if (!response.ok || !payload.clockIn?.shiftId) {
-        const message = resolveQrClockInErrorMessage(response.status, payload.error);
+      location = locationResult.location;
+      if (pendingClockEvents.length && (await queueOfflineScan(normalizedData, location, 'behind-queue'))) {
+        void flushClockQueue().catch(() => undefined);
+        return;
+      }
+      const response = await postQrClockIn({
+        apiBaseUrl,
+        accessToken: session.access_token,
+        qrCode: normalizedData,
+        location,
+      });
+
+      if (response.status < 200 || response.status >= 300 || !response.clockIn?.shiftId) {
+        const message = resolveQrClockInErrorMessage(response.status, response.error);
         setScanFeedback(message);
         setScanStatus('error');
         Alert.alert(t('qrClockInInvalidTitle'), message);
         return;
       }
 
-      const workedDuration = formatWorkedDuration(payload.clockIn?.workedMs);
-      const isClockOut = payload.clockIn?.action === 'clock_out';
+      const workedDuration = formatWorkedDuration(response.clockIn?.workedMs);
+      const isClockOut = response.clockIn?.action === 'clock_out';
       void trackAppEvent('qr_completed', { action: isClockOut ? 'clock_out' : 'clock_in' });
       const message = isClockOut
         ? t('qrClockOutSuccessMessage', {
@@ -426,26 +546,33 @@ export default function QrClockInScreen() {
         : t('qrClockInSuccessMessage');
       setScanFeedback(message);
       setScanStatus('success');
-      Alert.alert(isClockOut ? t('qrClockOutSuccessTitle') : t('qrClockInSuccessTitle'), message, [
+      const shiftId = response.clockIn.shiftId;
+      if (isClockOut && user?.id) {
+        void queueShiftChecklistSubmission(user.id, shiftId);
+      }
+      if (isClockOut) {
+        Alert.alert(t('qrClockOutSuccessTitle'), message, [
+          {
+            text: t('shiftHandoverLeaveNote'),
+            onPress: () => setHandoverShiftId(shiftId),
+          },
+          {
+            text: t('commonContinue'),
+            onPress: () => continueAfterScan(shiftId, true),
+          },
+        ]);
+        return;
+      }
+      Alert.alert(t('qrClockInSuccessTitle'), message, [
         {
           text: t('commonContinue'),
-          onPress: () => {
-            void recordPositiveRatingMoment({
-              moment: isClockOut ? 'qr-clock-out' : 'qr-clock-in',
-              copy: {
-                title: t('ratingPromptTitle'),
-                body: t('ratingPromptBody'),
-                rateAction: t('ratingPromptRateAction'),
-                feedbackAction: t('ratingPromptFeedbackAction'),
-                laterAction: t('ratingPromptLaterAction'),
-              },
-              onFeedback: () => router.push('/support'),
-            });
-            router.push(`/shift-details/${payload.clockIn?.shiftId}`);
-          },
+          onPress: () => continueAfterScan(shiftId, false),
         },
       ]);
-    } catch {
+    } catch (error) {
+      if (isNetworkError(error) && (await queueOfflineScan(normalizedData, location, 'offline'))) {
+        return;
+      }
       const message = t('qrClockInSubmitFailed');
       setScanFeedback(message);
       setScanStatus('error');
@@ -456,6 +583,73 @@ export default function QrClockInScreen() {
     }
   };
 
+  const manualClockShifts = useMemo(
+    () => getManualClockShifts(orderedShifts, new Date(clockTickMs)),
+    [clockTickMs, orderedShifts]
+  );
+
+  const handleSubmitManualClock = async (input: ManualClockInput) => {
+    try {
+      const { result, locationMissing } = await submitManualClockRequest(input);
+      const message = t(manualClockResultTranslationKeys[result.status]);
+      if (!result.ok) {
+        Alert.alert(t('manualClockSheetTitle'), message);
+        return;
+      }
+      setIsManualClockVisible(false);
+      Alert.alert(
+        t('manualClockRequestedTitle'),
+        locationMissing ? `${message}\n\n${t('manualClockLocationMissing')}` : message
+      );
+    } catch (error) {
+      console.warn('Failed to request manual clock event', error);
+      Alert.alert(
+        t('manualClockSheetTitle'),
+        t(isNetworkError(error) ? 'manualClockOffline' : 'manualClockSubmitFailed')
+      );
+    }
+  };
+
+  const resetScanner = () => {
+    setScannedData(null);
+    setScanFeedback(null);
+    setScanStatus('ready');
+    lastScanRef.current = null;
+    setIsScanning(true);
+  };
+
+  /** Starts or ends a break in the shift the employee is clocked in to. */
+  const handleBreakAction = async (action: ShiftBreakAction, source: 'scan' | 'button') => {
+    if (!activeShiftId || isRecordingBreak) return;
+    const breakStartedAt = currentBreak ? Date.parse(currentBreak.startedAt) : null;
+    try {
+      const result = await recordBreak(activeShiftId, action, source);
+      const message = t(breakResultTranslationKeys[result.status], {
+        duration: formatWorkedDuration(breakStartedAt ? Date.now() - breakStartedAt : undefined) ?? '',
+      });
+      if (source === 'scan') {
+        setScanFeedback(message);
+        setScanStatus(result.ok ? 'success' : 'error');
+      }
+      if (result.ok) {
+        void trackAppEvent('qr_completed', { action });
+      }
+      Alert.alert(
+        t('qrBreakTitle'),
+        message,
+        source === 'scan' ? [{ text: t('commonContinue'), onPress: resetScanner }] : undefined
+      );
+    } catch (error) {
+      console.warn('Failed to record shift break', error);
+      const message = t(isNetworkError(error) ? 'qrBreakOffline' : 'qrBreakFailed');
+      if (source === 'scan') {
+        setScanFeedback(message);
+        setScanStatus('error');
+      }
+      Alert.alert(t('qrBreakTitle'), message);
+    }
+  };
+
   const handleRequestPermission = async () => {
     const response = await Camera.requestCameraPermissionsAsync();
     setPermission(response);
@@ -486,17 +680,33 @@ export default function QrClockInScreen() {
     };
 
     const parsedCode = parseQrClockInCode(normalizedData);
-    const scannedShiftId = parsedCode.shiftId ?? null;
-    const currentShiftId = getShiftIdFromTag(employeePresence?.lastCheckInTag);
+    const scannedShiftId = parsedCode.shiftId ?? findShiftForQrClockIn(normalizedData, orderedShifts)?.id ?? null;
+    const currentShiftId = presence.activeShiftId;
+    if (currentBreak && scannedShiftId === currentBreak.shiftId) {
+      // Scanning the site code during a break ends the break rather than the shift.
+      setScannedData(data);
+      setIsScanning(false);
+      setScanStatus('checking');
+      await handleBreakAction('break_end', 'scan');
+      return;
+    }
     const shouldConfirmClockOut =
-      employeePresence?.isLoggedIn === true &&
-      Boolean(scannedShiftId) &&
-      scannedShiftId === currentShiftId;
+      presence.isClockedIn && Boolean(scannedShiftId) && scannedShiftId === currentShiftId;
 
     if (shouldConfirmClockOut) {
-      const message = t('qrClockOutConfirmMessage', {
+      const checklist =
+        user?.id && scannedShiftId
+          ? await loadLocalShiftChecklist(user.id, scannedShiftId).catch(() => null)
+          : null;
+      const missingTasks = checklist
+        ? getShiftChecklistProgress(checklist.tasks, checklist.completions).missingRequired.length
+        : 0;
+      const confirmMessage = t('qrClockOutConfirmMessage', {
         duration: workedSoFar ?? t('qrClockOutWorkedUnknown'),
       });
+      const message = missingTasks
+        ? `${confirmMessage}\n\n${t('shiftChecklistClockOutMissing', { count: missingTasks })}`
+        : confirmMessage;
       setScannedData(data);
       setIsScanning(false);
       setScanFeedback(message);
@@ -505,12 +715,13 @@ export default function QrClockInScreen() {
         {
           text: t('commonCancel'),
           style: 'cancel',
+          onPress: resetScanner,
+        },
+        {
+          text: t('qrBreakStartAction'),
           onPress: () => {
-            setScannedData(null);
-            setScanFeedback(null);
-            setScanStatus('ready');
-            lastScanRef.current = null;
-            setIsScanning(true);
+            setScanStatus('checking');
+            void handleBreakAction('break_start', 'scan');
           },
         },
         {
@@ -587,7 +798,42 @@ export default function QrClockInScreen() {
             <Text style={[styles.scanStatusBody, { color: theme.textSecondary }]}>{scanStatusMeta.body}</Text>
           </View>
         </View>
-        {employeePresence?.isLoggedIn && checkedInAt ? (
+        {pendingClockEvents.length || rejectedClockEvents.length ? (
+          <View style={[styles.statusCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
+            {pendingClockEvents.length ? (
+              <>
+                <Text style={[styles.statusTitle, { color: theme.textPrimary }]}>
+                  {t('qrClockQueuePendingTitle', { count: pendingClockEvents.length })}
+                </Text>
+                {pendingClockEvents.map((event) => (
+                  <View key={event.id} style={styles.queueRow}>
+                    <Ionicons name="cloud-upload-outline" size={14} color={theme.caution} />
+                    <Text style={[styles.queueText, { color: theme.textSecondary }]}>
+                      {describeQueuedClockEvent(event)}
+                    </Text>
+                  </View>
+                ))}
+              </>
+            ) : null}
+            {rejectedClockEvents.map((event) => (
+              <View key={event.id} style={styles.queueRow}>
+                <Ionicons name="alert-circle-outline" size={14} color={theme.fail} />
+                <Text style={[styles.queueText, { color: theme.fail }]}>
+                  {t('qrClockQueueRejectedEvent', {
+                    event: describeQueuedClockEvent(event),
+                    reason: resolveQrClockInErrorMessage(event.rejected?.status ?? 400, event.rejected?.error),
+                  })}
+                </Text>
+                <Pressable onPress={() => void discardClockEvent(event.id)} accessibilityRole="button" hitSlop={8}>
+                  <Text style={[styles.queueDiscard, { color: theme.textSecondary }]}>
+                    {t('qrClockQueueDiscard')}
+                  </Text>
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        ) : null}
+        {presence.isClockedIn && checkedInAt ? (
           <View style={[styles.statusCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
             <Text style={[styles.statusTitle, { color: theme.textPrimary }]}>
               {t('qrClockedInStatusTitle')}
@@ -595,11 +841,56 @@ export default function QrClockInScreen() {
             <Text style={[styles.statusBody, { color: theme.textSecondary }]}>
               {t('qrClockedInStatusMessage', { time: formatShortTime(checkedInAt) })}
             </Text>
+            {presence.events.length > 1 ? (
+              <Text style={[styles.statusBody, { color: theme.textSecondary }]}>
+                {t('qrPresenceToday', {
+                  events: presence.events
+                    .map((event) =>
+                      t(event.action === 'clock_in' ? 'qrPresenceClockIn' : 'qrPresenceClockOut', {
+                        time: formatShortTime(new Date(event.occurredAt)),
+                      })
+                    )
+                    .join(' · '),
+                })}
+              </Text>
+            ) : null}
             {workedSoFar ? (
               <Text style={[styles.statusWorked, { color: theme.textPrimary }]}>
                 {t('qrClockedInWorkedSoFar', { duration: workedSoFar })}
               </Text>
             ) : null}
+            {currentBreak ? (
+              <View style={[styles.breakTimer, { backgroundColor: `${theme.caution}14`, borderColor: theme.caution }]}>
+                <Ionicons name="cafe-outline" size={16} color={theme.caution} />
+                <Text style={[styles.breakTimerLabel, { color: theme.textPrimary }]}>
+                  {t('qrBreakRunning', { time: formatShortTime(new Date(currentBreak.startedAt)) })}
+                </Text>
+                <Text style={[styles.breakTimerValue, { color: theme.caution }]}>
+                  {formatBreakTimer(clockTickMs - Date.parse(currentBreak.startedAt))}
+                </Text>
+              </View>
+            ) : shiftBreakTotal ? (
+              <Text style={[styles.statusBody, { color: theme.textSecondary }]}>
+                {t('qrBreakTotal', { duration: shiftBreakTotal })}
+              </Text>
+            ) : null}
+            {activeShiftId ? (
+              <Pressable
+                style={[
+                  styles.supportButton,
+                  styles.breakButton,
+                  { borderColor: theme.borderSoft, backgroundColor: theme.surface },
+                ]}
+                onPress={() => void handleBreakAction(currentBreak ? 'break_end' : 'break_start', 'button')}
+                disabled={isRecordingBreak}
+                accessibilityRole="button"
+              >
+                <Ionicons name={currentBreak ? 'play-outline' : 'cafe-outline'} size={16} color={theme.primary} />
+                <Text style={[styles.supportButtonText, { color: theme.textPrimary }]}>
+                  {t(currentBreak ? 'qrBreakEndAction' : 'qrBreakStartAction')}
+                </Text>
+              </Pressable>
+            ) : null}
           </View>
         ) : null}
         {reminderMessage ? (
@@ -627,6 +918,16 @@ export default function QrClockInScreen() {
             </Text>
           </View>
         </View>
+        {isScanning ? (
+          <Pressable
+            onPress={() => setIsManualClockVisible(true)}
+            accessibilityRole="button"
+            style={styles.manualClockLink}
+            hitSlop={8}
+          >
+            <Text style={[styles.manualClockLinkText, { color: theme.primary }]}>{t('manualClockQrMissingLink')}</Text>
+          </Pressable>
+        ) : null}
         {scannedData ? (
           <View style={[styles.scanResult, { backgroundColor: theme.surface }]}>
             <Text style={[styles.scanLabel, { color: theme.textSecondary }]}>{t('lastScanLabel')}</Text>
@@ -649,6 +950,17 @@ export default function QrClockInScreen() {
               }}
               style={styles.recoveryPrimary}
             />
+            {scanStatus === 'error' ? (
+              <Pressable
+                style={[styles.supportButton, { borderColor: theme.borderSoft, backgroundColor: theme.surface }]}
+                onPress={() => setIsManualClockVisible(true)}
+              >
+                <Ionicons name="create-outline" size={16} color={theme.primary} />
+                <Text style={[styles.supportButtonText, { color: theme.textPrimary }]}>
+                  {t('manualClockOpenAction')}
+                </Text>
+              </Pressable>
+            ) : null}
             {scanStatus === 'error' ? (
               <Pressable
                 style={[styles.supportButton, { borderColor: theme.borderSoft, backgroundColor: theme.surface }]}
@@ -663,6 +975,25 @@ export default function QrClockInScreen() {
           </View>
         ) : null}
       </View>
+      <ShiftHandoverSheet
+        visible={Boolean(handoverShiftId)}
+        submitting={isSubmittingHandover}
+        onClose={closeHandoverSheet}
+        onSubmit={(body) => void handleSubmitHandover(body)}
+      />
+      <ManualClockSheet
+        visible={isManualClockVisible}
+        shifts={manualClockShifts}
+        initialShiftId={activeShiftId ?? undefined}
+        getDefaultAction={(shift) =>
+          getDefaultManualClockAction(shift, {
+            isClockedInToShift: presence.isClockedIn && shift.id === activeShiftId,
+          })
+        }
+        submitting={isSubmittingManualClock}
+        onClose={() => setIsManualClockVisible(false)}
+        onSubmit={(input) => void handleSubmitManualClock(input)}
+      />
     </SafeAreaView>
   );
 }
@@ -746,11 +1077,49 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontSize: 12,
   },
+  queueRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  queueText: {
+    flex: 1,
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  queueDiscard: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
   statusWorked: {
     marginTop: 6,
     fontSize: 12,
     fontWeight: '600',
   },
+  breakTimer: {
+    marginTop: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  breakTimerLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  breakTimerValue: {
+    fontSize: 16,
+    fontWeight: '800',
+    fontVariant: ['tabular-nums'],
+  },
+  breakButton: {
+    marginTop: 10,
+  },
   reminderCard: {
     marginBottom: 12,
     padding: 12,
@@ -866,6 +1235,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
+  manualClockLink: {
+    alignSelf: 'center',
+    marginTop: 12,
+  },
+  manualClockLinkText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
   button: {
     marginTop: 24,
   },
@@ -39,8 +39,12 @@ import {
   useLanguage,
 } from '@shared/context/LanguageContext';
 import { CalendarSelectionProvider } from '@shared/context/CalendarSelectionContext';
+import { TimeDisplayProvider } from '@shared/context/TimeDisplayContext';
+import { useShiftConfirmReminders } from '@shared/hooks/useShiftConfirmReminders';
 import { ThemeProvider, useTheme } from '@shared/themeContext';
-import { getShifts, type Shift } from '@features/shifts/shiftsService';
+import { getShifts, getShiftsInWindow, type Shift } from '@features/shifts/shiftsService';
+import { getMonthShiftWindow, getShiftMonthKey } from '@features/shifts/shiftWindow';
+import { useKioskSession } from '@features/shifts/useKioskSession';
 import { useShiftNotifications } from '@shared/hooks/useShiftNotifications';
 import { getStartupRoute } from '@shared/utils/startupRoute';
 import { resolveTargetPath } from '@shared/utils/notificationUtils';
@@ -143,24 +147,22 @@ function LayoutContentInner() {
   const isJobsRoute = pathname === '/jobs' || pathname.startsWith('/jobs/');
   const isPublicRoute = isAuthRoute || pathname === '/onboarding' || pathname === '/startup' || isJobsRoute;
   const userId = user?.id;
-  const { data: quickShifts = [] } = useQuery({
+  const { data: quickShiftsData } = useQuery({
     queryKey: ['quickActionsShifts', userId],
     queryFn: () => getShifts(userId),
     enabled: !!userId,
     staleTime: 30_000,
   });
+  const quickShifts = useMemo(() => quickShiftsData ?? [], [quickShiftsData]);
   const quickShiftIds = useMemo(() => quickShifts.map((shift) => shift.id).filter(Boolean), [quickShifts]);
   useShiftNotifications(quickShiftIds);
-  const monthlyShifts = useMemo(() => {
-    const monthStart = new Date(selectedMonth);
-    monthStart.setHours(0, 0, 0, 0);
-    const monthEnd = new Date(monthStart);
-    monthEnd.setMonth(monthEnd.getMonth() + 1);
-    return quickShifts.filter((shift) => {
-      const start = new Date(shift.start);
-      return start >= monthStart && start < monthEnd;
-    });
-  }, [quickShifts, selectedMonth]);
+  useShiftConfirmReminders(quickShiftsData);
+  const { data: monthlyShifts = [] } = useQuery({
+    queryKey: ['shifts', userId, 'month', getShiftMonthKey(selectedMonth)],
+    queryFn: () => getShiftsInWindow(userId, getMonthShiftWindow(selectedMonth)),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
   const monthSelectorLabel = useMemo(() => {
     return selectedMonth.toLocaleDateString(undefined, {
       month: 'long',
@@ -191,6 +193,13 @@ function LayoutContentInner() {
       router.replace(getStartupRoute(true));
     }
   }, [isAuthRoute, isPublicRoute, loading, router, user]);
+  const { session: kioskSession } = useKioskSession();
+  useEffect(() => {
+    // A shared kiosk device never shows the operator's own screens.
+    if (kioskSession && pathname !== '/kiosk') {
+      router.replace('/kiosk');
+    }
+  }, [kioskSession, pathname, router]);
   const reportOptionDefinitions = useMemo<
     { key: ReportOptionKey; label: string }[]
   >(
@@ -256,7 +265,7 @@ function LayoutContentInner() {
       const additions = nextKeys.filter((key) => !preserved.includes(key));
       return [...preserved, ...additions];
     });
-  }, [quickShifts, formatShiftKey]);
+  }, [monthlyShifts, formatShiftKey]);
   const insets = useSafeAreaInsets();
   const { theme } = useTheme();
   const reportThemeOptions = useMemo<Record<'default' | 'soft', [string, string]>>(
@@ -1134,7 +1143,9 @@ export default function RootLayout() {
             <NotificationProvider>
               <ThemeProvider>
                 <CalendarSelectionProvider>
-                  <LayoutContent />
+                  <TimeDisplayProvider>
+                    <LayoutContent />
+                  </TimeDisplayProvider>
                 </CalendarSelectionProvider>
               </ThemeProvider>
             </NotificationProvider>
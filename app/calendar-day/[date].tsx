@@ -12,12 +12,17 @@ import { useLocalSearchParams, useRouter } from 'expo-router';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import * as Calendar from 'expo-calendar';
 import { BackButton } from '@shared/components/BackButton';
+import { ShiftConflictWarnings } from '@shared/components/ShiftConflictWarnings';
 import { useShiftFeed } from '@features/shifts/useShiftFeed';
+import { useShiftConflicts } from '@hooks/useShiftConflicts';
+import { useShiftSeries } from '@hooks/useShiftSeries';
 import { getShiftPhase, phaseMeta, type ShiftPhase } from '@shared/utils/shiftPhase';
 import { useCalendarSelection } from '@shared/context/CalendarSelectionContext';
 import { useLanguage } from '@shared/context/LanguageContext';
+import { useTimeDisplay } from '@shared/context/TimeDisplayContext';
 import { useTheme } from '@shared/themeContext';
 import { openAddressInMaps } from '@shared/utils/maps';
+import { getZonedDayKey } from '@shared/utils/timeUtils';
 
 type ImportedCalendarEvent = {
   title?: string;
@@ -33,16 +38,18 @@ const dayKey = (date: Date) => {
   return `${year}-${month}-${day}`;
 };
 
-const formatShiftTime = (shift: { start: string; end: string }) => {
+const formatShiftTime = (shift: { start: string; end: string }, timeZone?: string) => {
   const start = new Date(shift.start);
   const end = new Date(shift.end);
   const startLabel = start.toLocaleTimeString(undefined, {
     hour: 'numeric',
     minute: '2-digit',
+    timeZone,
   });
   const endLabel = end.toLocaleTimeString(undefined, {
     hour: 'numeric',
     minute: '2-digit',
+    timeZone,
   });
   return { startLabel, endLabel };
 };
@@ -80,8 +87,8 @@ export default function CalendarDayDetailsScreen() {
   const { date } = useLocalSearchParams();
   const dateParam = Array.isArray(date) ? date[0] : date;
   const { t } = useLanguage();
+  const { getDisplayTimeZone } = useTimeDisplay();
   const { theme } = useTheme();
-  const { orderedShifts } = useShiftFeed();
   const { selectedCalendars } = useCalendarSelection();
   const [importedEvents, setImportedEvents] = useState<ImportedCalendarEvent[]>([]);
   const selectedCalendarIds = useMemo(
@@ -103,6 +110,9 @@ export default function CalendarDayDetailsScreen() {
     const candidate = new Date(year, month - 1, day);
     return Number.isNaN(candidate.getTime()) ? null : candidate;
   }, [dateParam]);
+  const { orderedShifts } = useShiftFeed({ month: parsedDate ?? undefined });
+  const { getConflictWarnings } = useShiftConflicts(orderedShifts);
+  const { getSeriesSummary } = useShiftSeries(orderedShifts);
 
   const activeDayLabel = useMemo(() => {
     if (!parsedDate) return null;
@@ -116,12 +126,10 @@ export default function CalendarDayDetailsScreen() {
   const activeDayShifts = useMemo(() => {
     if (!parsedDate) return [];
     const targetKey = dayKey(parsedDate);
-    return orderedShifts.filter((shift) => {
-      const shiftDate = new Date(shift.start);
-      if (Number.isNaN(shiftDate.getTime())) return false;
-      return dayKey(shiftDate) === targetKey;
-    });
-  }, [orderedShifts, parsedDate]);
+    return orderedShifts.filter(
+      (shift) => getZonedDayKey(shift.start, getDisplayTimeZone(shift)) === targetKey
+    );
+  }, [getDisplayTimeZone, orderedShifts, parsedDate]);
 
   useEffect(() => {
     let isMounted = true;
@@ -202,11 +210,12 @@ export default function CalendarDayDetailsScreen() {
           </Text>
           {activeDayShifts.length ? (
             activeDayShifts.map((shift) => {
-              const { startLabel, endLabel } = formatShiftTime(shift);
+              const { startLabel, endLabel } = formatShiftTime(shift, getDisplayTimeZone(shift));
               const shiftPhase = getShiftPhase(shift.start, shift.end);
               const phaseInfo = phaseMeta[shiftPhase];
               const phaseLabel = t(PHASE_TRANSLATION_KEYS[shiftPhase]);
               const locationLabel = buildShiftLocation(shift);
+              const seriesSummary = getSeriesSummary(shift);
               return (
                 <Pressable
                   key={shift.id}
@@ -237,6 +246,12 @@ export default function CalendarDayDetailsScreen() {
                   <Text style={[styles.shiftTime, { color: theme.textSecondary }]}>
                     {startLabel} — {endLabel}
                   </Text>
+                  {seriesSummary ? (
+                    <View style={styles.seriesRow}>
+                      <Ionicons name="repeat-outline" size={13} color={theme.textSecondary} />
+                      <Text style={[styles.seriesText, { color: theme.textSecondary }]}>{seriesSummary}</Text>
+                    </View>
+                  ) : null}
                   {locationLabel ? (
                     <View style={styles.locationRow}>
                       <Text style={[styles.locationText, { color: theme.textSecondary }]}>{locationLabel}</Text>
@@ -259,6 +274,7 @@ export default function CalendarDayDetailsScreen() {
                       {shift.description}
                     </Text>
                   ) : null}
+                  <ShiftConflictWarnings warnings={getConflictWarnings(shift.id)} style={styles.conflictWarnings} />
                 </Pressable>
               );
             })
@@ -388,6 +404,16 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 4,
   },
+  seriesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    columnGap: 5,
+    marginBottom: 4,
+  },
+  seriesText: {
+    flex: 1,
+    fontSize: 12,
+  },
   locationRow: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -409,6 +435,9 @@ const styles = StyleSheet.create({
   shiftDescription: {
     fontSize: 13,
   },
+  conflictWarnings: {
+    marginTop: 8,
+  },
   importedRow: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BackButton } from '@shared/components/BackButton';
+import { PrimaryButton } from '@shared/components/PrimaryButton';
+import { QrCodeView } from '@shared/components/QrCodeView';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { useLanguage } from '@shared/context/LanguageContext';
+import { useTheme } from '@shared/themeContext';
+import { layoutTokens } from '@shared/theme/layout';
+import { isValidKioskPin } from '@features/shifts/kioskMode';
+import { fetchMyKioskBadge, saveMyKioskPin } from '@features/shifts/kioskService';
+
+const BADGE_MAX_SIZE = 300;
+
+export default function KioskBadgeScreen() {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { width } = useWindowDimensions();
+  const queryClient = useQueryClient();
+  const [pin, setPin] = useState('');
+  const [pinMessage, setPinMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+  const [isSavingPin, setIsSavingPin] = useState(false);
+  const [isRenewing, setIsRenewing] = useState(false);
+  const queryKey = ['kioskBadge', user?.id];
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => fetchMyKioskBadge(),
+    enabled: Boolean(user?.id),
+    retry: false,
+  });
+  const badgeSize = Math.min(BADGE_MAX_SIZE, width - layoutTokens.screenHorizontal * 2);
+
+  const renewBadge = async () => {
+    setIsRenewing(true);
+    try {
+      queryClient.setQueryData(queryKey, await fetchMyKioskBadge(true));
+    } catch (renewError) {
+      console.warn('Failed to renew kiosk badge', renewError);
+      Alert.alert(t('kioskBadgeTitle'), t('kioskBadgeUnavailable'));
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  const handleRenew = () => {
+    Alert.alert(t('kioskBadgeRenew'), t('kioskBadgeRenewConfirm'), [
+      { text: t('commonCancel'), style: 'cancel' },
+      { text: t('commonContinue'), style: 'destructive', onPress: () => void renewBadge() },
+    ]);
+  };
+
+  const handleSavePin = async () => {
+    if (!isValidKioskPin(pin)) {
+      setPinMessage({ tone: 'error', text: t('kioskSetupInvalidPin') });
+      return;
+    }
+    setIsSavingPin(true);
+    try {
+      const result = await saveMyKioskPin(pin);
+      if (!result.ok) {
+        setPinMessage({ tone: 'error', text: t('kioskSetupInvalidPin') });
+        return;
+      }
+      setPin('');
+      setPinMessage({ tone: 'success', text: t('kioskBadgePinSaved') });
+      void queryClient.invalidateQueries({ queryKey });
+    } catch (saveError) {
+      console.warn('Failed to save kiosk PIN', saveError);
+      setPinMessage({ tone: 'error', text: t('kioskBadgePinFailed') });
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.background }]} edges={['left', 'right']}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.container,
+          { paddingTop: layoutTokens.screenTop, paddingBottom: insets.bottom + 28 },
+        ]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <BackButton fallbackHref="/account" />
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.textPrimary }]}>{t('kioskBadgeTitle')}</Text>
+          <Text style={[styles.body, { color: theme.textSecondary }]}>{t('kioskBadgeDescription')}</Text>
+        </View>
+
+        {isLoading ? <Text style={[styles.body, { color: theme.textSecondary }]}>{t('kioskBadgeLoading')}</Text> : null}
+        {error ? (
+          <View style={styles.block}>
+            <Text style={[styles.body, { color: theme.fail }]}>{t('kioskBadgeUnavailable')}</Text>
+            <PrimaryButton title={t('retry')} onPress={() => void refetch()} />
+          </View>
+        ) : null}
+
+        {data ? (
+          <View style={[styles.card, styles.badgeCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
+            <QrCodeView value={data.badge} size={badgeSize} />
+            <TouchableOpacity onPress={handleRenew} disabled={isRenewing} style={styles.textButton}>
+              <Text style={[styles.textButtonLabel, { color: theme.primary }]}>{t('kioskBadgeRenew')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        {data ? (
+          <View style={[styles.card, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
+            <Text style={[styles.label, { color: theme.textPrimary }]}>{t('kioskBadgePinTitle')}</Text>
+            <Text style={[styles.body, { color: theme.textSecondary }]}>{t('kioskBadgePinDescription')}</Text>
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              {t(data.hasPin ? 'kioskBadgePinSet' : 'kioskBadgePinNotSet')}
+            </Text>
+            <TextInput
+              value={pin}
+              onChangeText={(value) => {
+                setPin(value.replace(/[^0-9]/g, '').slice(0, 6));
+                setPinMessage(null);
+              }}
+              placeholder={t('kioskBadgePinPlaceholder')}
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={6}
+              style={[
+                styles.input,
+                { color: theme.textPrimary, backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft },
+              ]}
+            />
+            {pinMessage ? (
+              <Text style={[styles.hint, { color: pinMessage.tone === 'success' ? theme.success : theme.fail }]}>
+                {pinMessage.text}
+              </Text>
+            ) : null}
+            <PrimaryButton
+              title={t('kioskBadgePinSave')}
+              onPress={() => void handleSavePin()}
+              loading={isSavingPin}
+              disabled={!pin}
+            />
+          </View>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  container: { paddingHorizontal: layoutTokens.screenHorizontal, gap: 16 },
+  header: { gap: 6 },
+  title: { fontSize: 28, fontWeight: '900' },
+  body: { fontSize: 14, lineHeight: 20 },
+  hint: { fontSize: 13, lineHeight: 18 },
+  block: { gap: 12 },
+  card: { borderWidth: 1, borderRadius: 18, padding: 18, gap: 12 },
+  badgeCard: { alignItems: 'center' },
+  label: { fontSize: 16, fontWeight: '800' },
+  input: { borderWidth: 1, borderRadius: 12, paddingHorizontal: 14, paddingVertical: 10, fontSize: 18, letterSpacing: 4 },
+  textButton: { paddingHorizontal: 16, paddingVertical: 8 },
+  textButtonLabel: { fontSize: 14, fontWeight: '700' },
+});
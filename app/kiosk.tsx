@@ -0,0 +1,640 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  BackHandler,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Camera, CameraView, type BarcodeScanningResult, type PermissionResponse } from 'expo-camera';
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'expo-router';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BackButton } from '@shared/components/BackButton';
+import { PrimaryButton } from '@shared/components/PrimaryButton';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import { useTheme } from '@shared/themeContext';
+import { layoutTokens } from '@shared/theme/layout';
+import { trackAppEvent } from '@shared/utils/analytics';
+import { formatMinutesLabel, getEmployeeApiBaseUrl } from '@features/account/monthlyHours';
+import {
+  type KioskActivityEntry,
+  type KioskEmployee,
+  type KioskIdentity,
+  type KioskRejection,
+  type KioskSession,
+  KIOSK_IDLE_RESET_MS,
+  checkKioskExitPin,
+  clearKioskSession,
+  createKioskClientEventId,
+  createKioskSession,
+  getKioskExitLockMs,
+  isValidKioskPin,
+  loadKioskActivity,
+  parseKioskBadgeCode,
+  recordKioskActivity,
+  recordKioskExitFailure,
+  resolveKioskRejection,
+  saveKioskSession,
+} from '@features/shifts/kioskMode';
+import { fetchKioskEmployees, fetchKioskObjects, postKioskClockIn } from '@features/shifts/kioskService';
+import { isNetworkError } from '@features/shifts/shiftMutationQueue';
+import { useKioskSession } from '@features/shifts/useKioskSession';
+
+type KioskPhase = 'scan' | 'pick' | 'pin' | 'submitting' | 'result';
+
+type KioskResult = { tone: 'success' | 'error'; message: string };
+
+const PIN_MAX_LENGTH = 6;
+const PIN_PAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'delete'];
+const ACTIVITY_VISIBLE_COUNT = 10;
+
+const rejectionTranslationKeys: Record<KioskRejection, TranslationKey> = {
+  unknown_badge: 'kioskErrorUnknownBadge',
+  no_pin: 'kioskErrorNoPin',
+  wrong_pin: 'kioskErrorWrongPin',
+  pin_locked: 'kioskErrorPinLocked',
+  rate_limited: 'kioskErrorRateLimited',
+  not_scheduled: 'kioskErrorNotScheduled',
+  not_operator: 'kioskErrorNotOperator',
+};
+
+const formatActivityTime = (value: string) =>
+  new Date(value).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+function KioskSetup() {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
+  const [exitPin, setExitPin] = useState('');
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['kioskObjects', user?.id],
+    queryFn: fetchKioskObjects,
+    enabled: Boolean(user?.id),
+    retry: false,
+  });
+
+  const objects = useMemo(() => data ?? [], [data]);
+  const selectedObject = objects.find((object) => object.objectId === selectedObjectId) ?? objects[0] ?? null;
+
+  const handleStart = async () => {
+    if (!user?.id || !selectedObject) return;
+    if (!isValidKioskPin(exitPin)) {
+      setSetupError(t('kioskSetupInvalidPin'));
+      return;
+    }
+    setSetupError(null);
+    await saveKioskSession(createKioskSession({ object: selectedObject, operatorId: user.id, exitPin }));
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.background }]} edges={['left', 'right']}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.container,
+          { paddingTop: layoutTokens.screenTop, paddingBottom: insets.bottom + 28 },
+        ]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <BackButton fallbackHref="/account" />
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.textPrimary }]}>{t('kioskTitle')}</Text>
+          <Text style={[styles.body, { color: theme.textSecondary }]}>{t('kioskSetupDescription')}</Text>
+        </View>
+
+        {isLoading ? <Text style={[styles.body, { color: theme.textSecondary }]}>{t('qrDisplayLoading')}</Text> : null}
+        {error ? (
+          <View style={styles.block}>
+            <Text style={[styles.body, { color: theme.fail }]}>{t('kioskSetupUnavailable')}</Text>
+            <PrimaryButton title={t('retry')} onPress={() => void refetch()} />
+          </View>
+        ) : null}
+        {!isLoading && !error && objects.length === 0 ? (
+          <Text style={[styles.body, { color: theme.textSecondary }]}>{t('kioskSetupEmpty')}</Text>
+        ) : null}
+
+        {selectedObject ? (
+          <View style={[styles.card, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
+            <Text style={[styles.label, { color: theme.textPrimary }]}>{t('kioskSetupObject')}</Text>
+            <View style={styles.chipList}>
+              {objects.map((object) => {
+                const selected = object.objectId === selectedObject.objectId;
+                return (
+                  <TouchableOpacity
+                    key={object.objectId}
+                    style={[
+                      styles.chip,
+                      {
+                        borderColor: selected ? theme.primary : theme.borderSoft,
+                        backgroundColor: selected ? `${theme.primary}14` : theme.surface,
+                      },
+                    ]}
+                    onPress={() => setSelectedObjectId(object.objectId)}
+                    accessibilityState={{ selected }}
+                  >
+                    <Text
+                      style={[styles.chipLabel, { color: selected ? theme.primary : theme.textPrimary }]}
+                      numberOfLines={1}
+                    >
+                      {object.title}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={[styles.label, { color: theme.textPrimary }]}>{t('kioskSetupExitPin')}</Text>
+            <TextInput
+              value={exitPin}
+              onChangeText={(value) => setExitPin(value.replace(/[^0-9]/g, '').slice(0, PIN_MAX_LENGTH))}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={PIN_MAX_LENGTH}
+              style={[
+                styles.input,
+                { color: theme.textPrimary, backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft },
+              ]}
+            />
+            <Text style={[styles.hint, { color: setupError ? theme.fail : theme.textSecondary }]}>
+              {setupError ?? t('kioskSetupExitPinHint')}
+            </Text>
+            <PrimaryButton title={t('kioskSetupStart')} onPress={() => void handleStart()} />
+          </View>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function KioskTerminal({ session }: { session: KioskSession }) {
+  const router = useRouter();
+  const { session: authSession } = useAuth();
+  const { t } = useLanguage();
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [permission, setPermission] = useState<PermissionResponse | null>(null);
+  const [phase, setPhase] = useState<KioskPhase>('scan');
+  const [selectedEmployee, setSelectedEmployee] = useState<KioskEmployee | null>(null);
+  const [pin, setPin] = useState('');
+  const [result, setResult] = useState<KioskResult | null>(null);
+  const [resultShownAt, setResultShownAt] = useState(0);
+  const [tickMs, setTickMs] = useState(() => Date.now());
+  const [activity, setActivity] = useState<KioskActivityEntry[]>([]);
+  const [isExitVisible, setIsExitVisible] = useState(false);
+  const [exitPin, setExitPin] = useState('');
+  const [exitError, setExitError] = useState<string | null>(null);
+  // The camera reports a held badge many times per second; only the first read counts.
+  const scanLockRef = useRef(false);
+  const employeesQuery = useQuery({
+    queryKey: ['kioskEmployees', session.objectId],
+    queryFn: () => fetchKioskEmployees(session.objectId),
+    enabled: phase === 'pick',
+    retry: false,
+    staleTime: 60 * 1000,
+  });
+
+  useEffect(() => {
+    void Camera.requestCameraPermissionsAsync().then(setPermission);
+    void loadKioskActivity().then(setActivity);
+  }, []);
+
+  // The device stays on this screen until someone enters the exit PIN.
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => true);
+    return () => subscription.remove();
+  }, []);
+
+  const resetKiosk = useCallback(() => {
+    scanLockRef.current = false;
+    setPhase('scan');
+    setSelectedEmployee(null);
+    setPin('');
+    setResult(null);
+  }, []);
+
+  // Abandoned PIN entry is cleared so the next person never sees someone else's name.
+  useEffect(() => {
+    if (phase !== 'pick' && phase !== 'pin') return;
+    const timer = setTimeout(resetKiosk, KIOSK_IDLE_RESET_MS);
+    return () => clearTimeout(timer);
+  }, [phase, pin, resetKiosk, selectedEmployee]);
+
+  useEffect(() => {
+    if (phase !== 'result') return;
+    const interval = setInterval(() => setTickMs(Date.now()), 1000);
+    const timer = setTimeout(resetKiosk, session.resetSeconds * 1000);
+    return () => {
+      clearInterval(interval);
+      clearTimeout(timer);
+    };
+  }, [phase, resetKiosk, session.resetSeconds]);
+
+  const showResult = (nextResult: KioskResult) => {
+    setResult(nextResult);
+    setResultShownAt(Date.now());
+    setTickMs(Date.now());
+    setPhase('result');
+  };
+
+  const logActivity = async (entry: KioskActivityEntry) => {
+    try {
+      setActivity(await recordKioskActivity(entry));
+    } catch (error) {
+      console.warn('Failed to save kiosk activity', error);
+    }
+  };
+
+  const submitIdentity = async (identity: KioskIdentity, employeeName?: string) => {
+    const apiBaseUrl = getEmployeeApiBaseUrl();
+    const now = new Date();
+    const clientEventId = createKioskClientEventId(now);
+    const entry: KioskActivityEntry = {
+      id: clientEventId,
+      at: now.toISOString(),
+      method: identity.method,
+      status: 'failed',
+      employeeName,
+    };
+    if (!apiBaseUrl || !authSession?.access_token) {
+      showResult({ tone: 'error', message: t(apiBaseUrl ? 'qrClockInSessionRequired' : 'qrClockInMissingApiBaseUrl') });
+      return;
+    }
+
+    setPhase('submitting');
+    try {
+      const response = await postKioskClockIn({
+        apiBaseUrl,
+        accessToken: authSession.access_token,
+        objectId: session.objectId,
+        identity,
+        clientEventId,
+        occurredAt: entry.at,
+      });
+
+      if (response.status >= 200 && response.status < 300 && response.clockIn?.shiftId) {
+        const name = response.employee?.name?.trim() || employeeName || '';
+        const isClockOut = response.clockIn.action === 'clock_out';
+        const workedMs = response.clockIn.workedMs;
+        void trackAppEvent('qr_completed', { action: isClockOut ? 'clock_out' : 'clock_in', source: 'kiosk' });
+        void logActivity({
+          ...entry,
+          status: 'success',
+          employeeName: name || undefined,
+          action: isClockOut ? 'clock_out' : 'clock_in',
+        });
+        showResult({
+          tone: 'success',
+          message: isClockOut
+            ? t('kioskClockOutSuccess', {
+                name,
+                duration:
+                  typeof workedMs === 'number' && workedMs > 0
+                    ? formatMinutesLabel(Math.round(workedMs / 60000), t)
+                    : t('qrClockOutWorkedUnknown'),
+              })
+            : t('kioskClockInSuccess', { name }),
+        });
+        return;
+      }
+
+      const rejection = resolveKioskRejection(response.error);
+      void logActivity({ ...entry, status: rejection ? 'rejected' : 'failed', rejection });
+      showResult({
+        tone: 'error',
+        message: rejection
+          ? t(rejectionTranslationKeys[rejection])
+          : response.status === 401
+            ? t('qrClockInSessionRequired')
+            : t('kioskErrorFailed'),
+      });
+    } catch (error) {
+      void logActivity(entry);
+      showResult({ tone: 'error', message: t(isNetworkError(error) ? 'kioskErrorOffline' : 'kioskErrorFailed') });
+    }
+  };
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    if (phase !== 'scan' || scanLockRef.current) return;
+    scanLockRef.current = true;
+    const badge = parseKioskBadgeCode(data);
+    if (!badge) {
+      showResult({ tone: 'error', message: t('kioskErrorNotBadge') });
+      return;
+    }
+    void submitIdentity({ method: 'badge', badge });
+  };
+
+  const handlePinKey = (key: string) => {
+    if (key === 'clear') {
+      setPin('');
+      return;
+    }
+    if (key === 'delete') {
+      setPin((current) => current.slice(0, -1));
+      return;
+    }
+    setPin((current) => (current.length < PIN_MAX_LENGTH ? `${current}${key}` : current));
+  };
+
+  const handleSubmitPin = () => {
+    if (!selectedEmployee || !isValidKioskPin(pin)) return;
+    void submitIdentity(
+      { method: 'pin', employeeId: selectedEmployee.employeeId, pin },
+      selectedEmployee.name
+    );
+  };
+
+  const handleExit = async () => {
+    const now = new Date();
+    const lockMs = getKioskExitLockMs(session, now);
+    if (lockMs > 0) {
+      setExitError(t('kioskExitLocked', { seconds: Math.ceil(lockMs / 1000) }));
+      setExitPin('');
+      return;
+    }
+    if (!checkKioskExitPin(session, exitPin)) {
+      const nextSession = recordKioskExitFailure(session, now);
+      const nextLockMs = getKioskExitLockMs(nextSession, now);
+      setExitError(
+        nextLockMs > 0 ? t('kioskExitLocked', { seconds: Math.ceil(nextLockMs / 1000) }) : t('kioskExitWrongPin')
+      );
+      setExitPin('');
+      await saveKioskSession(nextSession);
+      return;
+    }
+    setIsExitVisible(false);
+    await clearKioskSession();
+    router.replace('/account');
+  };
+
+  const closeExit = () => {
+    setIsExitVisible(false);
+    setExitPin('');
+    setExitError(null);
+  };
+
+  const secondsLeft = Math.max(1, Math.ceil((resultShownAt + session.resetSeconds * 1000 - tickMs) / 1000));
+  const employees = employeesQuery.data?.employees ?? [];
+
+  const describeActivity = (entry: KioskActivityEntry) => {
+    if (entry.status === 'success') {
+      return t(entry.action === 'clock_out' ? 'kioskActivityClockOut' : 'kioskActivityClockIn', {
+        name: entry.employeeName ?? '—',
+      });
+    }
+    return t('kioskActivityRejected', {
+      reason: entry.rejection ? t(rejectionTranslationKeys[entry.rejection]) : t('kioskErrorFailed'),
+    });
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.background }]} edges={['left', 'right']}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.container,
+          { paddingTop: layoutTokens.screenTop, paddingBottom: insets.bottom + 28 },
+        ]}
+      >
+        <View style={styles.terminalHeader}>
+          <View style={styles.header}>
+            <Text style={[styles.eyebrow, { color: theme.primary }]}>{t('kioskTitle')}</Text>
+            <Text style={[styles.title, { color: theme.textPrimary }]}>{session.objectTitle}</Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => setIsExitVisible(true)}
+            accessibilityRole="button"
+            accessibilityLabel={t('kioskExit')}
+            style={[styles.exitButton, { borderColor: theme.borderSoft }]}
+          >
+            <Ionicons name="lock-closed-outline" size={16} color={theme.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        {phase === 'scan' ? (
+          <View style={styles.block}>
+            <Text style={[styles.prompt, { color: theme.textPrimary }]}>{t('kioskScanPrompt')}</Text>
+            {permission?.granted ? (
+              <View style={[styles.preview, { borderColor: theme.borderSoft }]}>
+                <CameraView
+                  style={styles.camera}
+                  facing="front"
+                  onBarcodeScanned={handleBarcodeScanned}
+                  barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+                />
+              </View>
+            ) : (
+              <Text style={[styles.body, { color: theme.fail }]}>{t('cameraPermissionRequired')}</Text>
+            )}
+            {session.allowPin ? (
+              <PrimaryButton title={t('kioskUsePin')} onPress={() => setPhase('pick')} />
+            ) : null}
+          </View>
+        ) : null}
+
+        {phase === 'pick' ? (
+          <View style={styles.block}>
+            <Text style={[styles.prompt, { color: theme.textPrimary }]}>{t('kioskChooseName')}</Text>
+            {employeesQuery.isLoading ? (
+              <Text style={[styles.body, { color: theme.textSecondary }]}>{t('qrDisplayLoading')}</Text>
+            ) : null}
+            {employeesQuery.error || employeesQuery.data?.status === 'not_operator' ? (
+              <Text style={[styles.body, { color: theme.fail }]}>
+                {t(employeesQuery.error ? 'kioskErrorFailed' : 'kioskErrorNotOperator')}
+              </Text>
+            ) : null}
+            {employeesQuery.data?.ok && employees.length === 0 ? (
+              <Text style={[styles.body, { color: theme.textSecondary }]}>{t('kioskNoEmployees')}</Text>
+            ) : null}
+            <View style={styles.chipList}>
+              {employees.map((employee) => (
+                <TouchableOpacity
+                  key={employee.employeeId}
+                  style={[styles.nameChip, { borderColor: theme.borderSoft, backgroundColor: theme.surface }]}
+                  onPress={() => {
+                    setSelectedEmployee(employee);
+                    setPin('');
+                    setPhase('pin');
+                  }}
+                >
+                  <Text style={[styles.nameChipLabel, { color: theme.textPrimary }]} numberOfLines={1}>
+                    {employee.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.textButton} onPress={resetKiosk}>
+              <Text style={[styles.textButtonLabel, { color: theme.textSecondary }]}>{t('commonBack')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        {phase === 'pin' && selectedEmployee ? (
+          <View style={styles.block}>
+            <Text style={[styles.prompt, { color: theme.textPrimary }]}>
+              {t('kioskEnterPin', { name: selectedEmployee.name })}
+            </Text>
+            <Text style={[styles.pinDots, { color: theme.textPrimary }]}>
+              {pin.length ? '•'.repeat(pin.length) : ' '}
+            </Text>
+            <View style={styles.pinPad}>
+              {PIN_PAD_KEYS.map((key) => (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.pinKey, { borderColor: theme.borderSoft, backgroundColor: theme.surface }]}
+                  onPress={() => handlePinKey(key)}
+                  accessibilityRole="button"
+                  accessibilityLabel={key}
+                >
+                  {key === 'delete' ? (
+                    <Ionicons name="backspace-outline" size={22} color={theme.textPrimary} />
+                  ) : key === 'clear' ? (
+                    <Ionicons name="close-outline" size={22} color={theme.textPrimary} />
+                  ) : (
+                    <Text style={[styles.pinKeyLabel, { color: theme.textPrimary }]}>{key}</Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+            <PrimaryButton title={t('kioskSubmitPin')} onPress={handleSubmitPin} disabled={!isValidKioskPin(pin)} />
+            <TouchableOpacity style={styles.textButton} onPress={() => setPhase('pick')}>
+              <Text style={[styles.textButtonLabel, { color: theme.textSecondary }]}>{t('commonBack')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        {phase === 'submitting' ? (
+          <Text style={[styles.prompt, { color: theme.textSecondary }]}>{t('qrScanOverlayChecking')}</Text>
+        ) : null}
+
+        {phase === 'result' && result ? (
+          <Pressable
+            onPress={resetKiosk}
+            style={[
+              styles.resultCard,
+              { borderColor: result.tone === 'success' ? theme.success : theme.fail, backgroundColor: theme.surface },
+            ]}
+          >
+            <Ionicons
+              name={result.tone === 'success' ? 'checkmark-circle' : 'alert-circle'}
+              size={48}
+              color={result.tone === 'success' ? theme.success : theme.fail}
+            />
+            <Text style={[styles.resultMessage, { color: theme.textPrimary }]}>{result.message}</Text>
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              {t('kioskResetIn', { seconds: secondsLeft })}
+            </Text>
+          </Pressable>
+        ) : null}
+
+        <View style={[styles.card, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
+          <Text style={[styles.label, { color: theme.textPrimary }]}>{t('kioskActivityTitle')}</Text>
+          {activity.length === 0 ? (
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>{t('kioskActivityEmpty')}</Text>
+          ) : (
+            activity.slice(0, ACTIVITY_VISIBLE_COUNT).map((entry) => (
+              <View key={entry.id} style={styles.activityRow}>
+                <Text style={[styles.activityTime, { color: theme.textSecondary }]}>
+                  {formatActivityTime(entry.at)}
+                </Text>
+                <Text
+                  style={[styles.activityText, { color: entry.status === 'success' ? theme.textPrimary : theme.fail }]}
+                  numberOfLines={2}
+                >
+                  {describeActivity(entry)}
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+
+      <Modal visible={isExitVisible} animationType="fade" transparent onRequestClose={closeExit}>
+        <Pressable style={styles.modalBackdrop} onPress={closeExit}>
+          <Pressable
+            style={[styles.modal, { backgroundColor: theme.surfaceElevated, borderColor: theme.borderSoft }]}
+            onPress={(event) => event.stopPropagation()}
+          >
+            <Text style={[styles.label, { color: theme.textPrimary }]}>{t('kioskExit')}</Text>
+            <Text style={[styles.hint, { color: exitError ? theme.fail : theme.textSecondary }]}>
+              {exitError ?? t('kioskExitPrompt')}
+            </Text>
+            <TextInput
+              value={exitPin}
+              onChangeText={(value) => setExitPin(value.replace(/[^0-9]/g, '').slice(0, PIN_MAX_LENGTH))}
+              keyboardType="number-pad"
+              secureTextEntry
+              autoFocus
+              maxLength={PIN_MAX_LENGTH}
+              style={[
+                styles.input,
+                { color: theme.textPrimary, backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft },
+              ]}
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.textButton} onPress={closeExit}>
+                <Text style={[styles.textButtonLabel, { color: theme.textSecondary }]}>{t('commonCancel')}</Text>
+              </TouchableOpacity>
+              <PrimaryButton title={t('kioskExit')} onPress={() => void handleExit()} disabled={!exitPin} />
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+export default function KioskScreen() {
+  const { session, isLoading } = useKioskSession();
+  const { theme } = useTheme();
+
+  if (isLoading) {
+    return <View style={[styles.safeArea, { backgroundColor: theme.background }]} />;
+  }
+  return session ? <KioskTerminal session={session} /> : <KioskSetup />;
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  container: { paddingHorizontal: layoutTokens.screenHorizontal, gap: 16 },
+  header: { gap: 6, flexShrink: 1 },
+  terminalHeader: { flexDirection: 'row', alignItems: 'flex-start', justifyContent: 'space-between', gap: 12 },
+  eyebrow: { fontSize: 12, fontWeight: '800', textTransform: 'uppercase', letterSpacing: 0.6 },
+  title: { fontSize: 28, fontWeight: '900' },
+  body: { fontSize: 14, lineHeight: 20 },
+  hint: { fontSize: 13, lineHeight: 18 },
+  block: { gap: 14 },
+  prompt: { fontSize: 20, fontWeight: '800', textAlign: 'center' },
+  card: { borderWidth: 1, borderRadius: 18, padding: 18, gap: 12 },
+  label: { fontSize: 16, fontWeight: '800' },
+  chipList: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { borderWidth: 1, borderRadius: 999, paddingHorizontal: 14, paddingVertical: 8, maxWidth: '100%' },
+  chipLabel: { fontSize: 13, fontWeight: '700' },
+  nameChip: { borderWidth: 1, borderRadius: 14, paddingHorizontal: 18, paddingVertical: 14, minWidth: 140 },
+  nameChipLabel: { fontSize: 16, fontWeight: '700' },
+  input: { borderWidth: 1, borderRadius: 12, paddingHorizontal: 14, paddingVertical: 10, fontSize: 18, letterSpacing: 4 },
+  exitButton: { borderWidth: 1, borderRadius: 999, padding: 10 },
+  preview: { borderWidth: 1, borderRadius: 18, overflow: 'hidden', aspectRatio: 1, width: '100%', maxWidth: 420, alignSelf: 'center' },
+  camera: { flex: 1 },
+  pinDots: { fontSize: 32, letterSpacing: 10, textAlign: 'center', minHeight: 40 },
+  pinPad: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', gap: 12, maxWidth: 300, alignSelf: 'center' },
+  pinKey: { width: 76, height: 64, borderWidth: 1, borderRadius: 16, alignItems: 'center', justifyContent: 'center' },
+  pinKeyLabel: { fontSize: 24, fontWeight: '700' },
+  textButton: { alignSelf: 'center', paddingHorizontal: 16, paddingVertical: 10 },
+  textButtonLabel: { fontSize: 14, fontWeight: '700' },
+  resultCard: { borderWidth: 2, borderRadius: 22, padding: 24, gap: 12, alignItems: 'center' },
+  resultMessage: { fontSize: 20, fontWeight: '800', textAlign: 'center' },
+  activityRow: { flexDirection: 'row', gap: 12 },
+  activityTime: { fontSize: 13, fontWeight: '600', fontVariant: ['tabular-nums'], width: 48 },
+  activityText: { fontSize: 13, flex: 1 },
+  modalBackdrop: { flex: 1, backgroundColor: 'rgba(0,0,0,0.45)', justifyContent: 'center', padding: 24 },
+  modal: { borderWidth: 1, borderRadius: 20, padding: 20, gap: 12 },
+  modalActions: { flexDirection: 'row', justifyContent: 'flex-end', alignItems: 'center', gap: 8 },
+});
@@ -42,6 +42,10 @@ import {
   submitShiftSwapRequest,
   type ShiftSwapRequestRecord,
 } from '@features/account/employeeSelfService';
+import { applyManualClockRequests } from '@features/shifts/manualClock';
+import { fetchManualClockRequests } from '@features/shifts/manualClockService';
+import { applyShiftBreaks } from '@features/shifts/shiftBreaks';
+import { fetchShiftBreaks } from '@features/shifts/shiftBreakService';
 
 type ObjectTotal = {
   objectId?: string | null;
@@ -318,8 +322,41 @@ export default function MonthlyHoursScreen() {
     retry: false,
     staleTime: 30_000,
   });
+  const { data: manualClockRequests = [] } = useQuery({
+    queryKey: ['manualClockRequests', user?.id, selectedMonthKey],
+    queryFn: () => fetchManualClockRequests(`${selectedMonthKey}-01`),
+    enabled: Boolean(user?.id),
+    retry: false,
+    staleTime: 30_000,
+  });
+  const { data: shiftBreaks = [] } = useQuery({
+    queryKey: ['shiftBreaks', user?.id, selectedMonthKey],
+    queryFn: () => fetchShiftBreaks(`${selectedMonthKey}-01`),
+    enabled: Boolean(user?.id),
+    retry: false,
+    staleTime: 30_000,
+  });
 
-  const summary = data?.summary;
+  const { timings: shiftTimings, deductedMinutes: breakDeductedMinutes } = useMemo(
+    () =>
+      applyShiftBreaks(
+        applyManualClockRequests(getMonthlyHoursShiftTimings(data), manualClockRequests),
+        shiftBreaks
+      ),
+    [data, manualClockRequests, shiftBreaks]
+  );
+  // Breaks the API does not know about yet come off the month total as well.
+  const summary = useMemo(
+    () =>
+      data?.summary && breakDeductedMinutes > 0
+        ? {
+            ...data.summary,
+            workedMinutes: Math.max(0, data.summary.workedMinutes - breakDeductedMinutes),
+            deltaMinutes: data.summary.deltaMinutes - breakDeductedMinutes,
+          }
+        : data?.summary,
+    [breakDeductedMinutes, data?.summary]
+  );
   const monthLabel = useMemo(
     () => formatMonthlyHoursMonthLabel(summary?.month ?? selectedMonthKey, language),
     [language, selectedMonthKey, summary?.month]
@@ -369,7 +406,6 @@ export default function MonthlyHoursScreen() {
       ]
     : [];
   const objectTotals = getObjectTotals(data?.objectTotals);
-  const shiftTimings = useMemo(() => getMonthlyHoursShiftTimings(data), [data]);
   const swapCandidates = useMemo(() => getSwapCandidates(data?.rows), [data?.rows]);
   const serverSubmittedSwapKeys = useMemo(() => {
     const keys = new Set<string>();
@@ -507,7 +543,13 @@ export default function MonthlyHoursScreen() {
                       <div class="primary-text">${escapeHtml(shift.location || shift.title)}</div>
                       <div class="secondary-text">${escapeHtml(
                         formatTimingDate(shift.clockIn ?? shift.clockOut ?? shift.start)
-                      )}</div>
+                      )}${shift.needsApproval ? ` · ${escapeHtml(t('accountMonthlyHoursNeedsApproval'))}` : ''}${
+                        shift.breakMinutes
+                          ? ` · ${escapeHtml(
+                              t('accountMonthlyHoursBreak', { duration: formatMinutesLabel(shift.breakMinutes, t) })
+                            )}`
+                          : ''
+                      }</div>
                     </td>
                     <td class="numeric-cell">${escapeHtml(formatMinutesLabel(shift.workedMinutes, t))}</td>
                     <td class="numeric-cell">${escapeHtml(formatTimingTime(shift.clockIn))}</td>
@@ -1519,6 +1561,34 @@ export default function MonthlyHoursScreen() {
                           <Text style={[styles.timingMeta, { color: theme.textSecondary }]}>
                             {formatTimingDate(shift.clockIn ?? shift.clockOut ?? shift.start)}
                           </Text>
+                          {shift.needsApproval ? (
+                            <View
+                              style={[
+                                styles.timingApprovalBadge,
+                                { backgroundColor: `${theme.caution}1f`, borderColor: theme.caution },
+                              ]}
+                            >
+                              <Ionicons name="time-outline" size={11} color={theme.caution} />
+                              <Text style={[styles.timingApprovalLabel, { color: theme.caution }]}>
+                                {t('accountMonthlyHoursNeedsApproval')}
+                              </Text>
+                            </View>
+                          ) : null}
+                          {shift.breakMinutes ? (
+                            <View
+                              style={[
+                                styles.timingApprovalBadge,
+                                { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft },
+                              ]}
+                            >
+                              <Ionicons name="cafe-outline" size={11} color={theme.textSecondary} />
+                              <Text style={[styles.timingApprovalLabel, { color: theme.textSecondary }]}>
+                                {t('accountMonthlyHoursBreak', {
+                                  duration: formatMinutesLabel(shift.breakMinutes, t),
+                                })}
+                              </Text>
+                            </View>
+                          ) : null}
                           {isCompactPhoneLayout ? (
                             <View
                               style={[
@@ -2429,6 +2499,19 @@ const styles = StyleSheet.create({
   timingMeta: {
     fontSize: 13,
   },
+  timingApprovalBadge: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  timingApprovalLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
   timingInlineWorkedBadge: {
     borderWidth: 1,
     borderRadius: 999,
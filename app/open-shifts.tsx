@@ -0,0 +1,351 @@
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, View, useWindowDimensions } from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BackButton } from '@shared/components/BackButton';
+import { PrimaryButton } from '@shared/components/PrimaryButton';
+import { ShiftCard } from '@shared/components/ShiftCard';
+import { useTheme } from '@shared/themeContext';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import { layoutTokens } from '@shared/theme/layout';
+import { getContentMaxWidth } from '@shared/utils/responsiveLayout';
+import { getUserFacingErrorMessage } from '@shared/utils/userFacingError';
+import { useOpenShifts } from '@features/shifts/useOpenShifts';
+import {
+  filterOpenShifts,
+  getOpenShiftFilterOptions,
+  isQualifiedForShift,
+  type ClaimOpenShiftResult,
+  type ShiftClaim,
+} from '@features/shifts/openShifts';
+import type { Shift } from '@features/shifts/shiftMapping';
+
+const claimResultMessageKeys: Record<ClaimOpenShiftResult['status'], TranslationKey> = {
+  pending: 'openShiftsClaimSentBody',
+  already_claimed: 'openShiftsClaimAlreadyClaimed',
+  already_assigned: 'openShiftsClaimAlreadyAssigned',
+  not_open: 'openShiftsClaimNotOpen',
+  not_found: 'openShiftsClaimNotOpen',
+  not_qualified: 'openShiftsClaimNotQualified',
+  not_linked: 'openShiftsNotLinked',
+};
+
+type FilterChipsProps = {
+  label: string;
+  options: { value: string; label: string }[];
+  selected: string | null;
+  onSelect: (value: string | null) => void;
+};
+
+const FilterChips = ({ label, options, selected, onSelect }: FilterChipsProps) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  if (!options.length) return null;
+  return (
+    <View style={styles.filterGroup}>
+      <Text style={[styles.filterLabel, { color: theme.textSecondary }]}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {[{ value: null, label: t('openShiftsFilterAll') }, ...options].map((option) => {
+          const isActive = selected === option.value;
+          return (
+            <Pressable
+              key={option.value ?? 'all'}
+              onPress={() => onSelect(option.value)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isActive }}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor: isActive ? theme.primary : theme.surfaceMuted,
+                  borderColor: isActive ? theme.primary : theme.borderSoft,
+                },
+              ]}
+            >
+              <Text style={[styles.chipText, { color: isActive ? '#fff' : theme.textPrimary }]}>{option.label}</Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+export default function OpenShiftsScreen() {
+  const { theme } = useTheme();
+  const { t, language } = useLanguage();
+  const insets = useSafeAreaInsets();
+  const { width } = useWindowDimensions();
+  const contentMaxWidth = getContentMaxWidth(width);
+  const {
+    openShifts,
+    qualifications,
+    isLinked,
+    isLoading,
+    error,
+    claimsByShiftId,
+    refetch,
+    claimShift,
+    withdrawClaim,
+  } = useOpenShifts();
+  const [qualificationFilter, setQualificationFilter] = useState<string | null>(null);
+  const [siteFilter, setSiteFilter] = useState<string | null>(null);
+  const [dayFilter, setDayFilter] = useState<string | null>(null);
+  const [busyShiftId, setBusyShiftId] = useState<string | null>(null);
+
+  const filterOptions = useMemo(() => getOpenShiftFilterOptions(openShifts), [openShifts]);
+  const visibleShifts = useMemo(
+    () => filterOpenShifts(openShifts, { qualification: qualificationFilter, site: siteFilter, day: dayFilter }),
+    [dayFilter, openShifts, qualificationFilter, siteFilter]
+  );
+  const dayOptions = useMemo(() => {
+    const formatter = new Intl.DateTimeFormat(language === 'de' ? 'de-DE' : 'en-US', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      timeZone: 'UTC',
+    });
+    return filterOptions.days.map((day) => ({ value: day, label: formatter.format(new Date(`${day}T12:00:00Z`)) }));
+  }, [filterOptions.days, language]);
+
+  const submitClaim = async (shift: Shift) => {
+    setBusyShiftId(shift.id);
+    try {
+      const result = await claimShift(shift);
+      Alert.alert(
+        result.ok ? t('openShiftsClaimSentTitle') : t('openShiftsClaimFailedTitle'),
+        t(claimResultMessageKeys[result.status])
+      );
+    } catch (claimError) {
+      Alert.alert(
+        t('openShiftsClaimFailedTitle'),
+        getUserFacingErrorMessage(claimError, { fallback: t('openShiftsClaimFailedBody') })
+      );
+    } finally {
+      setBusyShiftId(null);
+    }
+  };
+
+  const handleClaim = (shift: Shift) => {
+    Alert.alert(t('openShiftsClaimConfirmTitle'), t('openShiftsClaimConfirmBody'), [
+      { text: t('commonCancel'), style: 'cancel' },
+      { text: t('openShiftsClaimAction'), onPress: () => void submitClaim(shift) },
+    ]);
+  };
+
+  const handleWithdraw = async (claim: ShiftClaim) => {
+    setBusyShiftId(claim.shiftId);
+    try {
+      const result = await withdrawClaim(claim);
+      if (!result.ok) {
+        Alert.alert(t('openShiftsWithdrawFailedTitle'), t('openShiftsWithdrawAlreadyReviewed'));
+      }
+    } catch (withdrawError) {
+      Alert.alert(
+        t('openShiftsWithdrawFailedTitle'),
+        getUserFacingErrorMessage(withdrawError, { fallback: t('openShiftsClaimFailedBody') })
+      );
+    } finally {
+      setBusyShiftId(null);
+    }
+  };
+
+  const getFooterLabel = (claim: ShiftClaim | undefined, qualified: boolean) => {
+    if (claim?.status === 'pending') return t('openShiftsClaimPending');
+    if (!qualified) return t('openShiftsNotQualified');
+    return undefined;
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.background }]} edges={['left', 'right']}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingBottom: insets.bottom + 28,
+            maxWidth: contentMaxWidth,
+            alignSelf: 'center',
+            width: '100%',
+          },
+        ]}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.header}>
+          <BackButton fallbackHref="/home" />
+          <View style={styles.headerCopy}>
+            <Text style={[styles.headerTitle, { color: theme.textPrimary }]}>{t('openShiftsTitle')}</Text>
+            <Text style={[styles.headerHint, { color: theme.textSecondary }]}>{t('openShiftsHint')}</Text>
+          </View>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.stateBlock}>
+            <ActivityIndicator color={theme.primary} />
+            <Text style={[styles.stateText, { color: theme.textSecondary }]}>{t('openShiftsLoading')}</Text>
+          </View>
+        ) : error ? (
+          <View style={styles.stateBlock}>
+            <Text style={[styles.stateText, { color: theme.fail }]}>
+              {getUserFacingErrorMessage(error, { fallback: t('openShiftsLoadFailed') })}
+            </Text>
+            <PrimaryButton title={t('retry')} onPress={() => void refetch()} />
+          </View>
+        ) : !isLinked ? (
+          <View style={[styles.sectionCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
+            <Text style={[styles.stateText, { color: theme.textSecondary }]}>{t('openShiftsNotLinked')}</Text>
+          </View>
+        ) : (
+          <>
+            <View style={[styles.sectionCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
+              <FilterChips
+                label={t('openShiftsFilterQualification')}
+                options={filterOptions.qualifications.map((value) => ({ value, label: value }))}
+                selected={qualificationFilter}
+                onSelect={setQualificationFilter}
+              />
+              <FilterChips
+                label={t('openShiftsFilterSite')}
+                options={filterOptions.sites.map((value) => ({ value, label: value }))}
+                selected={siteFilter}
+                onSelect={setSiteFilter}
+              />
+              <FilterChips label={t('openShiftsFilterDay')} options={dayOptions} selected={dayFilter} onSelect={setDayFilter} />
+            </View>
+
+            {visibleShifts.length === 0 ? (
+              <Text style={[styles.stateText, { color: theme.textSecondary }]}>
+                {openShifts.length ? t('openShiftsFilteredEmpty') : t('openShiftsEmpty')}
+              </Text>
+            ) : (
+              <View style={styles.shiftList}>
+                {visibleShifts.map((shift) => {
+                  const claim = claimsByShiftId.get(shift.id);
+                  const qualified = isQualifiedForShift(shift, qualifications);
+                  const canClaim = qualified && claim?.status !== 'pending';
+                  return (
+                    <View key={shift.id} style={styles.shiftItem}>
+                      <ShiftCard
+                        shift={shift}
+                        onConfirm={canClaim ? () => handleClaim(shift) : undefined}
+                        confirmLabel={t('openShiftsClaimAction')}
+                        confirmLoading={busyShiftId === shift.id}
+                        footerLabel={getFooterLabel(claim, qualified)}
+                      />
+                      {shift.qualifications?.length ? (
+                        <Text style={[styles.shiftMeta, { color: theme.textSecondary }]}>
+                          {t('openShiftsRequires', { qualifications: shift.qualifications.join(', ') })}
+                        </Text>
+                      ) : null}
+                      {claim?.status === 'rejected' ? (
+                        <Text style={[styles.shiftMeta, { color: theme.fail }]}>{t('openShiftsClaimRejected')}</Text>
+                      ) : null}
+                      {claim?.status === 'pending' ? (
+                        <Pressable
+                          onPress={() => void handleWithdraw(claim)}
+                          accessibilityRole="button"
+                          hitSlop={8}
+                          disabled={busyShiftId === shift.id}
+                          style={styles.withdrawButton}
+                        >
+                          <Text style={[styles.withdrawText, { color: theme.primary }]}>{t('openShiftsWithdrawAction')}</Text>
+                        </Pressable>
+                      ) : null}
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: layoutTokens.screenHorizontal,
+    paddingTop: 18,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 6,
+  },
+  headerCopy: {
+    flex: 1,
+    gap: 6,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '800',
+  },
+  headerHint: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  sectionCard: {
+    borderWidth: 1,
+    borderRadius: 24,
+    padding: 18,
+    gap: 14,
+  },
+  filterGroup: {
+    gap: 8,
+  },
+  filterLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.7,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  stateBlock: {
+    paddingVertical: 20,
+    alignItems: 'center',
+    gap: 10,
+  },
+  stateText: {
+    fontSize: 14,
+    lineHeight: 21,
+  },
+  shiftList: {
+    gap: 16,
+  },
+  shiftItem: {
+    gap: 6,
+  },
+  shiftMeta: {
+    fontSize: 13,
+    lineHeight: 18,
+    paddingHorizontal: 6,
+  },
+  withdrawButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  withdrawText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BackButton } from '@shared/components/BackButton';
+import { PrimaryButton } from '@shared/components/PrimaryButton';
+import { QrCodeView } from '@shared/components/QrCodeView';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { useLanguage } from '@shared/context/LanguageContext';
+import { useTheme } from '@shared/themeContext';
+import { layoutTokens } from '@shared/theme/layout';
+import { createRotatingQrToken } from '@features/shifts/rotatingQr';
+import { fetchQrDisplayObjects } from '@features/shifts/rotatingQrService';
+
+const QR_MAX_SIZE = 360;
+
+export default function QrDisplayScreen() {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { width } = useWindowDimensions();
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
+  const [tickMs, setTickMs] = useState(() => Date.now());
+  const { data, dataUpdatedAt, isLoading, error, refetch } = useQuery({
+    queryKey: ['qrDisplayObjects', user?.id],
+    queryFn: fetchQrDisplayObjects,
+    enabled: Boolean(user?.id),
+    retry: false,
+  });
+
+  useEffect(() => {
+    const interval = setInterval(() => setTickMs(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const objects = useMemo(() => data?.objects ?? [], [data?.objects]);
+  const selectedObject = objects.find((object) => object.objectId === selectedObjectId) ?? objects[0] ?? null;
+
+  // Codes are checked against the server clock, so follow it rather than the device's.
+  const serverOffsetMs = data?.serverTime ? Date.parse(data.serverTime) - dataUpdatedAt : 0;
+  const nowMs = tickMs + serverOffsetMs;
+  const stepIndex = selectedObject ? Math.floor(nowMs / (selectedObject.stepSeconds * 1000)) : 0;
+  const token = useMemo(
+    () => (selectedObject ? createRotatingQrToken(selectedObject, stepIndex * selectedObject.stepSeconds * 1000) : null),
+    [selectedObject, stepIndex]
+  );
+  const secondsLeft = token ? Math.max(1, Math.ceil((token.nextRotationAt - nowMs) / 1000)) : 0;
+  const qrSize = Math.min(QR_MAX_SIZE, width - layoutTokens.screenHorizontal * 2);
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.background }]} edges={['left', 'right']}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.container,
+          { paddingTop: layoutTokens.screenTop, paddingBottom: insets.bottom + 28 },
+        ]}
+      >
+        <BackButton fallbackHref="/account" />
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.textPrimary }]}>{t('qrDisplayTitle')}</Text>
+          <Text style={[styles.body, { color: theme.textSecondary }]}>{t('qrDisplayDescription')}</Text>
+        </View>
+
+        {isLoading ? <Text style={[styles.body, { color: theme.textSecondary }]}>{t('qrDisplayLoading')}</Text> : null}
+        {error ? (
+          <View style={styles.errorBlock}>
+            <Text style={[styles.body, { color: theme.fail }]}>{t('qrDisplayUnavailable')}</Text>
+            <PrimaryButton title={t('retry')} onPress={() => void refetch()} />
+          </View>
+        ) : null}
+        {!isLoading && !error && objects.length === 0 ? (
+          <Text style={[styles.body, { color: theme.textSecondary }]}>{t('qrDisplayEmpty')}</Text>
+        ) : null}
+
+        {objects.length > 1 ? (
+          <View style={styles.objectList}>
+            {objects.map((object) => {
+              const selected = object.objectId === selectedObject?.objectId;
+              return (
+                <TouchableOpacity
+                  key={object.objectId}
+                  style={[
+                    styles.objectChip,
+                    {
+                      borderColor: selected ? theme.primary : theme.borderSoft,
+                      backgroundColor: selected ? `${theme.primary}14` : theme.surface,
+                    },
+                  ]}
+                  onPress={() => setSelectedObjectId(object.objectId)}
+                  accessibilityState={{ selected }}
+                >
+                  <Text
+                    style={[styles.objectChipLabel, { color: selected ? theme.primary : theme.textPrimary }]}
+                    numberOfLines={1}
+                  >
+                    {object.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ) : null}
+
+        {selectedObject && token ? (
+          <View style={[styles.card, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}>
+            <Text style={[styles.label, { color: theme.textPrimary }]}>{selectedObject.title}</Text>
+            <QrCodeView value={token.value} size={qrSize} />
+            <Text style={[styles.countdown, { color: theme.textSecondary }]}>
+              {t('qrDisplayRotatesIn', { seconds: secondsLeft })}
+            </Text>
+          </View>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  container: { paddingHorizontal: layoutTokens.screenHorizontal, gap: 16 },
+  header: { gap: 6 },
+  title: { fontSize: 28, fontWeight: '900' },
+  body: { fontSize: 14, lineHeight: 20 },
+  errorBlock: { gap: 12 },
+  objectList: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  objectChip: { borderWidth: 1, borderRadius: 999, paddingHorizontal: 14, paddingVertical: 8, maxWidth: '100%' },
+  objectChipLabel: { fontSize: 13, fontWeight: '700' },
+  card: { borderWidth: 1, borderRadius: 18, padding: 18, gap: 14, alignItems: 'center' },
+  label: { fontSize: 16, fontWeight: '800', textAlign: 'center' },
+  countdown: { fontSize: 13, fontWeight: '600', fontVariant: ['tabular-nums'] },
+});
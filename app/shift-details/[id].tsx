@@ -9,19 +9,51 @@ import {
   View,
 } from 'react-native';
 import Ionicons from '@expo/vector-icons/Ionicons';
-import type { ComponentProps } from 'react';
+import { useEffect, useState, type ComponentProps } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useRouter, useLocalSearchParams } from 'expo-router';
-import { getShiftById } from '@features/shifts/shiftsService';
+import * as ImagePicker from 'expo-image-picker';
+import { getShiftAttachmentUrl, getShiftById } from '@features/shifts/shiftsService';
+import { loadCachedShiftDetail, saveCachedShiftDetail } from '@features/shifts/shiftCache';
 import { BackButton } from '@shared/components/BackButton';
 import { PrimaryButton } from '@shared/components/PrimaryButton';
+import { ShiftDeclineSheet, getShiftDeclineLabel } from '@shared/components/ShiftDeclineSheet';
 import type { Shift } from '@features/shifts/shiftsService';
+import type { ShiftDeclineInput } from '@features/shifts/shiftDecline';
+import type { ShiftAttachment, ShiftAttachmentKind, ShiftBreak, ShiftPay } from '@features/shifts/shiftExtras';
+import { useShiftFeed } from '@features/shifts/useShiftFeed';
+import { useShiftSeries } from '@hooks/useShiftSeries';
+import { useShiftChangeLog } from '@features/shifts/useShiftChangeLog';
+import { ShiftChangeTimeline } from '@shared/components/ShiftChangeTimeline';
+import { useShiftRoster } from '@features/shifts/useShiftRoster';
+import type { ShiftRosterMember, ShiftRosterPrivacy } from '@features/shifts/shiftRoster';
+import { ShiftRosterList, type ShiftRosterContactChannel } from '@shared/components/ShiftRosterList';
+import { useShiftHandover } from '@features/shifts/useShiftHandover';
+import { ShiftHandoverNotes } from '@shared/components/ShiftHandoverNotes';
+import { useShiftChecklist } from '@features/shifts/useShiftChecklist';
+import type { ShiftChecklistTask } from '@features/shifts/shiftChecklist';
+import { ShiftChecklist } from '@shared/components/ShiftChecklist';
+import { useShiftIncidents } from '@features/shifts/useShiftIncidents';
+import type { IncidentReportInput } from '@features/shifts/shiftIncidents';
+import { ShiftIncidentSheet } from '@shared/components/ShiftIncidentSheet';
+import { ShiftIncidentList } from '@shared/components/ShiftIncidentList';
+import { type ManualClockInput, getDefaultManualClockAction, getManualClockShifts } from '@features/shifts/manualClock';
+import { useManualClock } from '@features/shifts/useManualClock';
+import { isNetworkError } from '@features/shifts/shiftMutationQueue';
+import { ManualClockSheet, manualClockResultTranslationKeys } from '@shared/components/ManualClockSheet';
+import {
+  isShiftAwaitingResponse,
+  isShiftDeclinedByEmployee,
+  normalizeShiftConfirmationStatus,
+} from '@lib/shiftConfirmationStatus';
 import { useAuth } from '@hooks/useSupabaseAuth';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { getShiftPhase, phaseMeta, ShiftPhase } from '@shared/utils/shiftPhase';
 import { useTheme } from '@shared/themeContext';
 import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import { useTimeDisplay } from '@shared/context/TimeDisplayContext';
+import { getTimeZoneLabel } from '@shared/utils/timeUtils';
 import { openAddressInMaps } from '@shared/utils/maps';
 import { SUPPORT_FALLBACK_URL } from '@shared/utils/support';
 
@@ -71,20 +103,21 @@ const phaseTranslationKey: Record<ShiftPhase, TranslationKey> = {
   upcoming: 'phaseUpcoming',
 };
 
-const formatDate = (value: string) => {
+const formatDate = (value: string, timeZone?: string) => {
   const parsed = new Date(value);
   if (Number.isNaN(parsed.getTime())) return 'TBD';
   return parsed.toLocaleDateString([], {
     weekday: 'long',
     month: 'long',
     day: 'numeric',
+    timeZone,
   });
 };
 
-const formatTime = (value: string) => {
+const formatTime = (value: string, timeZone?: string) => {
   const parsed = new Date(value);
   if (Number.isNaN(parsed.getTime())) return '—';
-  return parsed.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return parsed.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone });
 };
 
 const formatDuration = (start: string, end: string) => {
@@ -101,6 +134,23 @@ const formatDuration = (start: string, end: string) => {
   return `${hoursText}${minutesText}`.trim() || '—';
 };
 
+const attachmentMeta: Record<
+  ShiftAttachmentKind,
+  { icon: ComponentProps<typeof Ionicons>['name']; labelKey: TranslationKey }
+> = {
+  briefing: { icon: 'document-text-outline', labelKey: 'shiftAttachmentBriefing' },
+  'floor-plan': { icon: 'map-outline', labelKey: 'shiftAttachmentFloorPlan' },
+  other: { icon: 'attach-outline', labelKey: 'shiftAttachmentOther' },
+};
+
+const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat([], { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
 const formatCountdownLabel = (
   minutes: number,
   liveNowLabel: string,
@@ -128,13 +178,74 @@ export default function ShiftDetailsScreen() {
 
   const { data: shift, isLoading, refetch } = useQuery({
     queryKey: ['shift', shiftId],
-    queryFn: () => (shiftId ? getShiftById(shiftId) : Promise.resolve(undefined)),
+    queryFn: async () => {
+      if (!shiftId) return undefined;
+      try {
+        const nextShift = await getShiftById(shiftId);
+        if (nextShift && userId) {
+          void saveCachedShiftDetail(userId, nextShift).catch((error) => {
+            console.warn('Failed to cache shift detail', error);
+          });
+        }
+        return nextShift;
+      } catch (error) {
+        const cachedDetail = await loadCachedShiftDetail(userId, shiftId);
+        if (cachedDetail) return cachedDetail;
+        throw error;
+      }
+    },
     enabled: Boolean(shiftId),
   });
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { t } = useLanguage();
+  const { getDisplayTimeZone } = useTimeDisplay();
   const { theme } = useTheme();
+  const { orderedShifts, declineAssignment } = useShiftFeed();
+  const { getSeriesSummary } = useShiftSeries(orderedShifts);
+  const { entries: changeEntries, originalValues } = useShiftChangeLog(shiftId);
+  const {
+    status: rosterStatus,
+    members: rosterMembers,
+    privacy: rosterPrivacy,
+    updatePrivacy: updateRosterPrivacy,
+    isUpdatingPrivacy: isUpdatingRosterPrivacy,
+  } = useShiftRoster(shiftId);
+  const {
+    incoming: incomingHandoverNotes,
+    outgoing: outgoingHandoverNotes,
+    markIncomingRead: markHandoverNotesRead,
+  } = useShiftHandover(shiftId);
+  const {
+    tasks: checklistTasks,
+    completions: checklistCompletions,
+    progress: checklistProgress,
+    submittedAt: checklistSubmittedAt,
+    isPendingSubmit: isChecklistPendingSubmit,
+    toggleTask: toggleChecklistTask,
+    attachTaskPhoto: attachChecklistPhoto,
+  } = useShiftChecklist(shiftId);
+  const {
+    reports: incidentReports,
+    queuedReports: queuedIncidentReports,
+    submitReport: submitIncidentReport,
+    isSubmitting: isSubmittingIncident,
+    discardQueuedReport: discardQueuedIncidentReport,
+  } = useShiftIncidents(shiftId);
+  const [isIncidentSheetVisible, setIsIncidentSheetVisible] = useState(false);
+  const { submitRequest: submitManualClockRequest, isSubmitting: isSubmittingManualClock } = useManualClock();
+  const [isManualClockVisible, setIsManualClockVisible] = useState(false);
+  const hasUnreadHandoverNotes = incomingHandoverNotes.some((note) => !note.readAt);
+
+  // Opening the shift counts as reading the notes left by the previous shift.
+  useEffect(() => {
+    if (!hasUnreadHandoverNotes) return;
+    void markHandoverNotesRead().catch((error) => {
+      console.warn('Failed to mark handover notes read', error);
+    });
+  }, [hasUnreadHandoverNotes, markHandoverNotesRead]);
+  const [isDeclineSheetVisible, setIsDeclineSheetVisible] = useState(false);
+  const [isSubmittingDecline, setIsSubmittingDecline] = useState(false);
 
   if (!shiftId) {
     return (
@@ -150,6 +261,8 @@ export default function ShiftDetailsScreen() {
         ?.find((item) => item.id === shiftId)
     : undefined;
   const shiftToShow = shift ?? cachedShift;
+  // getShiftById reads the shift row only; the answer lives on the feed's assignment.
+  const assignedShift = orderedShifts.find((item) => item.id === shiftId);
 
   if (isLoading && !shiftToShow) {
     return (
@@ -172,9 +285,13 @@ export default function ShiftDetailsScreen() {
   const locationLabel = shiftToShow.objectName ?? shiftToShow.location ?? t('locationTbd');
   const locationSubtext = shiftToShow.objectAddress ?? shiftToShow.location;
   const duration = formatDuration(shiftToShow.start, shiftToShow.end);
-  const startLabel = formatTime(shiftToShow.start);
-  const endLabel = formatTime(shiftToShow.end);
-  const dateLabel = formatDate(shiftToShow.start);
+  const displayTimeZone = getDisplayTimeZone(shiftToShow);
+  const timeZoneLabel = getTimeZoneLabel(shiftToShow.start, displayTimeZone);
+  const startLabel = formatTime(shiftToShow.start, displayTimeZone);
+  const endLabel = formatTime(shiftToShow.end, displayTimeZone);
+  const dateLabel = timeZoneLabel
+    ? `${formatDate(shiftToShow.start, displayTimeZone)} · ${t('shiftSiteTimeLabel', { zone: timeZoneLabel })}`
+    : formatDate(shiftToShow.start, displayTimeZone);
   const description = shiftToShow.description?.trim();
   const statusLabel = t(status.labelKey);
   const statusDescription = t(status.descriptionKey);
@@ -191,9 +308,64 @@ export default function ShiftDetailsScreen() {
   const opsContact = shiftToShow.objectContactName ?? shiftToShow.objectName ?? t('shiftOpsTeam');
   const contactEmail = shiftToShow.objectContactEmail;
   const contactPhone = shiftToShow.objectContactPhone;
+  const formatBreak = (entry: ShiftBreak) => {
+    const minutesLabel = t('shiftBreakMinutes', { minutes: entry.minutes });
+    const window =
+      entry.start && entry.end
+        ? `${formatTime(entry.start, displayTimeZone)} – ${formatTime(entry.end, displayTimeZone)} · `
+        : '';
+    return `${window}${minutesLabel}${entry.paid ? ` (${t('shiftBreakPaid')})` : ''}`;
+  };
+  const formatPay = (pay: ShiftPay) =>
+    [
+      pay.hourlyRate !== undefined
+        ? t('shiftPayHourly', { amount: formatMoney(pay.hourlyRate, pay.currency) })
+        : null,
+      ...pay.premiums.flatMap((premium) => [
+        premium.percent !== undefined
+          ? t('shiftPremiumPercent', { label: premium.label, percent: premium.percent })
+          : null,
+        premium.amount !== undefined
+          ? t('shiftPremiumAmount', { label: premium.label, amount: formatMoney(premium.amount, pay.currency) })
+          : null,
+      ]),
+    ]
+      .filter(Boolean)
+      .join('\n');
+  const seriesSummary = getSeriesSummary(assignedShift ?? shiftToShow);
+  const shiftFacts = [
+    seriesSummary ? { key: 'series', label: t('shiftSeriesLabel'), value: seriesSummary } : null,
+    shiftToShow.role ? { key: 'role', label: t('shiftRoleLabel'), value: shiftToShow.role } : null,
+    shiftToShow.breaks?.length
+      ? { key: 'breaks', label: t('shiftBreaksLabel'), value: shiftToShow.breaks.map(formatBreak).join('\n') }
+      : null,
+    shiftToShow.qualifications?.length
+      ? { key: 'qualifications', label: t('shiftQualificationsLabel'), value: shiftToShow.qualifications.join(', ') }
+      : null,
+    shiftToShow.dressCode ? { key: 'dressCode', label: t('shiftDressCodeLabel'), value: shiftToShow.dressCode } : null,
+    shiftToShow.pay ? { key: 'pay', label: t('shiftPayLabel'), value: formatPay(shiftToShow.pay) } : null,
+  ].filter((fact): fact is { key: string; label: string; value: string } => Boolean(fact?.value));
+  const attachments = shiftToShow.attachments ?? [];
   const handleOpenMaps = () => {
     openAddressInMaps(locationSubtext);
   };
+  const responseStatus = normalizeShiftConfirmationStatus(assignedShift?.confirmationStatus);
+  const canDecline = Boolean(assignedShift?.assignmentId) && isShiftAwaitingResponse(responseStatus);
+  const hasDeclineAnswer =
+    isShiftDeclinedByEmployee(responseStatus) || responseStatus === 'tentative';
+  const handleDeclineSubmit = async (input: ShiftDeclineInput) => {
+    if (!assignedShift) return;
+    try {
+      setIsSubmittingDecline(true);
+      await declineAssignment(assignedShift, input);
+      setIsDeclineSheetVisible(false);
+    } catch (error) {
+      console.error('Shift decline failed', error);
+      Alert.alert(t('shiftDeclineFailedTitle'), t('shiftDeclineFailedBody'));
+    } finally {
+      setIsSubmittingDecline(false);
+    }
+  };
   const openExternal = async (url: string, title: string, fallbackUrl?: string) => {
     try {
       const supported = await Linking.canOpenURL(url);
@@ -213,6 +385,19 @@ export default function ShiftDetailsScreen() {
       Alert.alert(title, t('unableOpenLinkDevice'));
     }
   };
+  const handleOpenAttachment = async (attachment: ShiftAttachment) => {
+    try {
+      const url = await getShiftAttachmentUrl(attachment);
+      if (!url) {
+        Alert.alert(attachment.name, t('shiftAttachmentUnavailable'));
+        return;
+      }
+      await openExternal(url, attachment.name);
+    } catch (error) {
+      console.warn('Failed to open shift attachment', error);
+      Alert.alert(attachment.name, t('shiftAttachmentUnavailable'));
+    }
+  };
   const handleCallContact = async () => {
     if (!contactPhone) {
       Alert.alert(t('callLabel'), t('notProvided'));
@@ -222,6 +407,80 @@ export default function ShiftDetailsScreen() {
     const telUrl = `tel:${normalized || contactPhone}`;
     await openExternal(telUrl, t('callLabel'));
   };
+  const handleContactCoworker = async (member: ShiftRosterMember, channel: ShiftRosterContactChannel) => {
+    if (channel === 'email') {
+      if (member.email) await openExternal(`mailto:${member.email}`, t('emailLabel'));
+      return;
+    }
+    if (!member.phone) return;
+    const normalized = member.phone.replace(/[^\d+]/g, '') || member.phone;
+    await openExternal(
+      `${channel === 'call' ? 'tel' : 'sms'}:${normalized}`,
+      channel === 'call' ? t('callLabel') : t('shiftRosterMessageLabel')
+    );
+  };
+  const handleChangeRosterPrivacy = async (privacy: ShiftRosterPrivacy) => {
+    try {
+      await updateRosterPrivacy(privacy);
+    } catch (error) {
+      console.warn('Failed to update roster privacy', error);
+      Alert.alert(t('shiftRosterPrivacyTitle'), t('shiftRosterPrivacyFailed'));
+    }
+  };
+  const handleToggleChecklistTask = (task: ShiftChecklistTask) => {
+    void toggleChecklistTask(task.id).catch((error) => {
+      console.warn('Failed to save checklist progress', error);
+    });
+  };
+  const handleAddChecklistPhoto = async (task: ShiftChecklistTask) => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(t('shiftChecklistHeading'), t('shiftChecklistCameraDenied'));
+      return;
+    }
+    const result = await ImagePicker.launchCameraAsync({ quality: 0.8 });
+    const photoUri = result.canceled ? undefined : result.assets?.[0]?.uri;
+    if (!photoUri) return;
+    try {
+      await attachChecklistPhoto(task.id, photoUri);
+    } catch (error) {
+      console.warn('Failed to save checklist photo', error);
+    }
+  };
+  const handleSubmitIncident = async (input: IncidentReportInput) => {
+    try {
+      const { submitted } = await submitIncidentReport(input);
+      setIsIncidentSheetVisible(false);
+      Alert.alert(
+        t('incidentSheetTitle'),
+        submitted ? t('incidentSubmittedMessage') : t('incidentQueuedMessage')
+      );
+    } catch (error) {
+      console.warn('Failed to save incident report', error);
+      Alert.alert(t('incidentSheetTitle'), t('incidentSubmitFailed'));
+    }
+  };
+  const handleSubmitManualClock = async (input: ManualClockInput) => {
+    try {
+      const { result, locationMissing } = await submitManualClockRequest(input);
+      const message = t(manualClockResultTranslationKeys[result.status]);
+      if (!result.ok) {
+        Alert.alert(t('manualClockSheetTitle'), message);
+        return;
+      }
+      setIsManualClockVisible(false);
+      Alert.alert(
+        t('manualClockRequestedTitle'),
+        locationMissing ? `${message}\n\n${t('manualClockLocationMissing')}` : message
+      );
+    } catch (error) {
+      console.warn('Failed to request manual clock event', error);
+      Alert.alert(
+        t('manualClockSheetTitle'),
+        t(isNetworkError(error) ? 'manualClockOffline' : 'manualClockSubmitFailed')
+      );
+    }
+  };
   const handleEmailContact = async () => {
     if (!contactEmail) {
       Alert.alert(t('emailLabel'), t('notProvided'));
@@ -239,6 +498,7 @@ export default function ShiftDetailsScreen() {
       : t('upcoming');
   const shiftPhase: ShiftPhase = getShiftPhase(shiftToShow.start, shiftToShow.end, now);
   const phaseLabel = t(phaseTranslationKey[shiftPhase]);
+  const manualClockShifts = getManualClockShifts([shiftToShow], now);
   const checklist = [t('arriveTip'), t('badgeTip'), t('reviewTip')];
   const prepValue = minutesUntilStart <= 30 ? t('headToLocation') : t('prepGear');
   const heroStats = [
@@ -423,6 +683,126 @@ export default function ShiftDetailsScreen() {
         ) : null}
       </View>
 
+      {shiftFacts.length ? (
+        <View style={[styles.section, sectionBackgroundStyle]}>
+          <Text style={[styles.sectionHeading, { color: textSecondaryColor }]}>
+            {t('shiftDetailsHeading')}
+          </Text>
+          {shiftFacts.map((fact) => (
+            <View key={fact.key} style={styles.gridItem}>
+              <Text style={[styles.gridLabel, { color: textSecondaryColor }]}>{fact.label}</Text>
+              <Text style={[styles.sectionBody, { color: textPrimaryColor }]}>{fact.value}</Text>
+            </View>
+          ))}
+        </View>
+      ) : null}
+
+      {attachments.length ? (
+        <View style={[styles.section, sectionBackgroundStyle]}>
+          <Text style={[styles.sectionHeading, { color: textSecondaryColor }]}>
+            {t('shiftFilesHeading')}
+          </Text>
+          {attachments.map((attachment) => (
+            <Pressable
+              key={attachment.url ?? attachment.path ?? attachment.name}
+              style={({ pressed }) => [
+                styles.contactActionButton,
+                { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft },
+                pressed && styles.mapActionButtonPressed,
+              ]}
+              onPress={() => {
+                void handleOpenAttachment(attachment);
+              }}
+              accessibilityRole="button"
+              accessibilityLabel={`${t(attachmentMeta[attachment.kind].labelKey)}: ${attachment.name}`}
+            >
+              <Ionicons name={attachmentMeta[attachment.kind].icon} size={16} color={theme.info} />
+              <Text style={[styles.mapActionLabel, { color: theme.info }]}>{attachment.name}</Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+
+      {checklistTasks.length ? (
+        <View style={[styles.section, sectionBackgroundStyle]}>
+          <Text style={[styles.sectionHeading, { color: textSecondaryColor }]}>
+            {t('shiftChecklistHeading')}
+          </Text>
+          <ShiftChecklist
+            tasks={checklistTasks}
+            completions={checklistCompletions}
+            progress={checklistProgress}
+            editable={shiftPhase === 'live'}
+            submittedAt={checklistSubmittedAt}
+            isPendingSubmit={isChecklistPendingSubmit}
+            onToggleTask={handleToggleChecklistTask}
+            onAddPhoto={(task) => void handleAddChecklistPhoto(task)}
+          />
+        </View>
+      ) : null}
+
+      {incomingHandoverNotes.length || outgoingHandoverNotes.length ? (
+        <View style={[styles.section, sectionBackgroundStyle]}>
+          <Text style={[styles.sectionHeading, { color: textSecondaryColor }]}>
+            {t('shiftHandoverHeading')}
+          </Text>
+          <ShiftHandoverNotes incoming={incomingHandoverNotes} outgoing={outgoingHandoverNotes} />
+        </View>
+      ) : null}
+
+      {shiftPhase !== 'upcoming' || incidentReports.length || queuedIncidentReports.length ? (
+        <View style={[styles.section, sectionBackgroundStyle]}>
+          <Text style={[styles.sectionHeading, { color: textSecondaryColor }]}>
+            {t('incidentHeading')}
+          </Text>
+          <ShiftIncidentList
+            reports={incidentReports}
+            queuedReports={queuedIncidentReports}
+            onDiscardQueued={(report) => void discardQueuedIncidentReport(report.id)}
+          />
+          <Pressable
+            style={({ pressed }) => [
+              styles.contactActionButton,
+              { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft },
+              pressed && styles.mapActionButtonPressed,
+            ]}
+            onPress={() => setIsIncidentSheetVisible(true)}
+            accessibilityRole="button"
+          >
+            <Ionicons name="warning-outline" size={16} color={theme.caution} />
+            <Text style={[styles.mapActionLabel, { color: theme.textPrimary }]}>{t('incidentReportAction')}</Text>
+          </Pressable>
+        </View>
+      ) : null}
+
+      {rosterStatus === 'ok' ? (
+        <View style={[styles.section, sectionBackgroundStyle]}>
+          <Text style={[styles.sectionHeading, { color: textSecondaryColor }]}>
+            {t('shiftRosterHeading')}
+          </Text>
+          <ShiftRosterList
+            members={rosterMembers}
+            privacy={rosterPrivacy}
+            privacyDisabled={isUpdatingRosterPrivacy}
+            onChangePrivacy={(privacy) => void handleChangeRosterPrivacy(privacy)}
+            onContact={(member, channel) => void handleContactCoworker(member, channel)}
+          />
+        </View>
+      ) : null}
+
+      {changeEntries.length ? (
+        <View style={[styles.section, sectionBackgroundStyle]}>
+          <Text style={[styles.sectionHeading, { color: textSecondaryColor }]}>
+            {t('shiftChangeHistoryHeading')}
+          </Text>
+          <ShiftChangeTimeline
+            entries={changeEntries}
+            originalValues={originalValues}
+            timeZone={displayTimeZone}
+          />
+        </View>
+      ) : null}
+
       {description ? (
         <View style={[styles.section, sectionBackgroundStyle]}>
           <Text style={[styles.sectionHeading, { color: textSecondaryColor }]}>
@@ -480,9 +860,75 @@ export default function ShiftDetailsScreen() {
         </Pressable>
       </View>
 
+      {assignedShift && (canDecline || hasDeclineAnswer) ? (
+        <View style={[styles.section, sectionBackgroundStyle]}>
+          <Text style={[styles.sectionHeading, { color: textSecondaryColor }]}>
+            {t('shiftResponseHeading')}
+          </Text>
+          {hasDeclineAnswer ? (
+            <Text
+              style={[
+                styles.sectionBody,
+                { color: isShiftDeclinedByEmployee(responseStatus) ? theme.fail : theme.caution },
+              ]}
+            >
+              {getShiftDeclineLabel(t, assignedShift)}
+            </Text>
+          ) : null}
+          {hasDeclineAnswer && assignedShift.declineNote ? (
+            <Text style={[styles.sectionBody, { color: textPrimaryColor }]}>{assignedShift.declineNote}</Text>
+          ) : null}
+          {canDecline ? (
+            <Pressable
+              style={({ pressed }) => [
+                styles.contactActionButton,
+                { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft },
+                pressed && styles.mapActionButtonPressed,
+              ]}
+              onPress={() => setIsDeclineSheetVisible(true)}
+              accessibilityRole="button"
+            >
+              <Ionicons name="close-circle-outline" size={16} color={theme.fail} />
+              <Text style={[styles.mapActionLabel, { color: theme.fail }]}>{t('shiftDeclineAction')}</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      ) : null}
+
       <View style={styles.cta}>
         <PrimaryButton title={t('cta')} onPress={() => router.push('/qr-clock-in')} />
+        {manualClockShifts.length ? (
+          <Pressable
+            onPress={() => setIsManualClockVisible(true)}
+            accessibilityRole="button"
+            style={styles.manualClockLink}
+            hitSlop={8}
+          >
+            <Text style={[styles.manualClockLinkText, { color: theme.primary }]}>{t('manualClockQrMissingLink')}</Text>
+          </Pressable>
+        ) : null}
       </View>
+      <ShiftDeclineSheet
+        visible={isDeclineSheetVisible}
+        submitting={isSubmittingDecline}
+        onClose={() => setIsDeclineSheetVisible(false)}
+        onSubmit={(input) => void handleDeclineSubmit(input)}
+      />
+      <ShiftIncidentSheet
+        visible={isIncidentSheetVisible}
+        submitting={isSubmittingIncident}
+        onClose={() => setIsIncidentSheetVisible(false)}
+        onSubmit={(input) => void handleSubmitIncident(input)}
+      />
+      <ManualClockSheet
+        visible={isManualClockVisible}
+        shifts={manualClockShifts}
+        initialShiftId={shiftToShow.id}
+        getDefaultAction={(shift) => getDefaultManualClockAction(shift)}
+        submitting={isSubmittingManualClock}
+        onClose={() => setIsManualClockVisible(false)}
+        onSubmit={(input) => void handleSubmitManualClock(input)}
+      />
     </ScrollView>
   );
 }
@@ -752,6 +1198,14 @@ const styles = StyleSheet.create({
     marginTop: 24,
     marginBottom: 16,
   },
+  manualClockLink: {
+    alignSelf: 'center',
+    marginTop: 14,
+  },
+  manualClockLinkText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
   mapActionButton: {
     marginTop: 10,
     alignSelf: 'flex-start',
@@ -1,5 +1,7 @@
 export type MonthlyHoursShiftTiming = {
   id: string;
+  /** The shift the row belongs to, when the row has an id of its own. */
+  shiftId?: string;
   title: string;
   location: string;
   start: string | null;
@@ -7,6 +9,10 @@ export type MonthlyHoursShiftTiming = {
   clockIn: string | null;
   clockOut: string | null;
   workedMinutes: number;
+  /** Clock times were entered manually and wait for supervisor approval. */
+  needsApproval?: boolean;
+  /** Recorded break time; `workedMinutes` already excludes it. */
+  breakMinutes?: number;
 };
 
 type MonthlyHoursShiftPayload = {
@@ -73,6 +79,15 @@ const pickIso = (row: Record<string, unknown>, keys: string[]) => {
   return undefined;
 };
 
+export const compareShiftTimings = (a: MonthlyHoursShiftTiming, b: MonthlyHoursShiftTiming) => {
+  const aTime = Number(new Date(a.clockIn ?? a.start ?? 0));
+  const bTime = Number(new Date(b.clockIn ?? b.start ?? 0));
+  if (Number.isNaN(aTime) && Number.isNaN(bTime)) return 0;
+  if (Number.isNaN(aTime)) return 1;
+  if (Number.isNaN(bTime)) return -1;
+  return aTime - bTime;
+};
+
 export const getMonthlyHoursShiftTimings = (
   payload?: MonthlyHoursShiftPayload | null
 ): MonthlyHoursShiftTiming[] => {
@@ -91,7 +106,7 @@ export const getMonthlyHoursShiftTimings = (
   }
 
   return rows
-    .map((row, index) => {
+    .map((row, index): MonthlyHoursShiftTiming | null => {
       const objectMeta = isRecord(row.object) ? row.object : undefined;
       const title =
         pickString(row, ['title', 'shiftTitle', 'name']) ??
@@ -145,9 +160,18 @@ export const getMonthlyHoursShiftTimings = (
       if (!clockIn && !clockOut && workedMinutes <= 0) {
         return null;
       }
+      const breakMinutes = pickNumber(row, ['breakMinutes', 'breakDurationMinutes']);
+      const needsApproval =
+        row.needsApproval === true ||
+        row.approvalStatus === 'pending' ||
+        (row.manual === true && row.approvalStatus !== 'approved');
+
+      const id = pickString(row, ['id', 'shiftId']) ?? `monthly-hours-shift-${index}`;
+      const shiftId = pickString(row, ['shiftId']);
 
       return {
-        id: pickString(row, ['id', 'shiftId']) ?? `monthly-hours-shift-${index}`,
+        id,
+        ...(shiftId && shiftId !== id ? { shiftId } : {}),
         title,
         location,
         start: start ?? null,
@@ -155,15 +179,10 @@ export const getMonthlyHoursShiftTimings = (
         clockIn: clockIn ?? null,
         clockOut: clockOut ?? null,
         workedMinutes,
+        ...(needsApproval ? { needsApproval } : {}),
+        ...(breakMinutes !== undefined ? { breakMinutes: Math.max(0, Math.round(breakMinutes)) } : {}),
       };
     })
     .filter((entry): entry is MonthlyHoursShiftTiming => Boolean(entry))
-    .sort((a, b) => {
-      const aTime = Number(new Date(a.clockIn ?? a.start ?? 0));
-      const bTime = Number(new Date(b.clockIn ?? b.start ?? 0));
-      if (Number.isNaN(aTime) && Number.isNaN(bTime)) return 0;
-      if (Number.isNaN(aTime)) return 1;
-      if (Number.isNaN(bTime)) return -1;
-      return aTime - bTime;
-    });
+    .sort(compareShiftTimings);
 };
@@ -0,0 +1,148 @@
+import { readString } from '../../shared/utils/parseUtils';
+
+export type PresenceClockAction = 'clock_in' | 'clock_out';
+
+export type PresenceClockSource = 'qr' | 'kiosk' | 'manual';
+
+/** One clock-in or clock-out the Employee API applied for the employee. */
+export type PresenceClockEvent = {
+  id: string;
+  shiftId?: string;
+  action: PresenceClockAction;
+  source: PresenceClockSource;
+  occurredAt: string;
+};
+
+/** The shift the running clock-in belongs to. */
+export type PresenceShift = {
+  id: string;
+  title?: string;
+  objectTitle?: string;
+  start?: string;
+  end?: string;
+};
+
+export type EmployeePresence = {
+  isClockedIn: boolean;
+  clockedInAt: Date | null;
+  activeShiftId: string | null;
+  activeShift: PresenceShift | null;
+  /** Today's clock events, oldest first. */
+  events: PresenceClockEvent[];
+};
+
+export const EMPTY_EMPLOYEE_PRESENCE: EmployeePresence = {
+  isClockedIn: false,
+  clockedInAt: null,
+  activeShiftId: null,
+  activeShift: null,
+  events: [],
+};
+
+/** Presence timestamps stored without a zone are UTC. */
+export const parsePresenceDate = (value?: string | null) => {
+  const normalized = value?.trim();
+  if (!normalized) return null;
+  const parsed = new Date(
+    /[zZ]$/.test(normalized) || /[+-]\d{2}:?\d{2}$/.test(normalized) ? normalized : `${normalized}Z`
+  );
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/** Local midnight, so "today" follows the device like the rest of the app. */
+export const getPresenceDayStart = (now = new Date()) =>
+  new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+export const parsePresenceClockEvent = (value: unknown): PresenceClockEvent | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const id = readString(record.id);
+  const occurredAt = parsePresenceDate(readString(record.occurredAt));
+  if (!id || !occurredAt || (record.action !== 'clock_in' && record.action !== 'clock_out')) {
+    return null;
+  }
+  return {
+    id,
+    shiftId: readString(record.shiftId),
+    action: record.action,
+    source: record.source === 'kiosk' || record.source === 'manual' ? record.source : 'qr',
+    occurredAt: occurredAt.toISOString(),
+  };
+};
+
+const parsePresenceShift = (value: unknown): PresenceShift | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const id = readString(record.id);
+  if (!id) return null;
+  return {
+    id,
+    title: readString(record.title),
+    objectTitle: readString(record.objectTitle),
+    start: readString(record.start),
+    end: readString(record.end),
+  };
+};
+
+export const parseEmployeePresence = (value: unknown): EmployeePresence => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Employee presence returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status !== 'ok') {
+    throw new Error('Employee presence returned an unknown status.');
+  }
+  const isClockedIn = record.isClockedIn === true;
+  const activeShift = isClockedIn ? parsePresenceShift(record.activeShift) : null;
+  const events = Array.isArray(record.events)
+    ? record.events.flatMap((entry) => {
+        const event = parsePresenceClockEvent(entry);
+        return event ? [event] : [];
+      })
+    : [];
+  return {
+    isClockedIn,
+    clockedInAt: isClockedIn ? parsePresenceDate(readString(record.clockedInAt)) : null,
+    activeShiftId: isClockedIn ? readString(record.activeShiftId) ?? activeShift?.id ?? null : null,
+    activeShift,
+    events,
+  };
+};
+
+/**
+ * Applies a realtime event ahead of the refetch that follows it. Events older
+ * than the current clock-in are only added to the list.
+ */
+export const applyPresenceClockEvent = (
+  presence: EmployeePresence,
+  event: PresenceClockEvent,
+  dayStart = getPresenceDayStart()
+): EmployeePresence => {
+  if (presence.events.some((existing) => existing.id === event.id)) {
+    return presence;
+  }
+  const occurredAt = new Date(event.occurredAt);
+  const events =
+    occurredAt.getTime() >= dayStart.getTime()
+      ? [...presence.events, event].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt))
+      : presence.events;
+  const latest = presence.events.reduce<number | null>(
+    (max, existing) => Math.max(max ?? 0, new Date(existing.occurredAt).getTime()),
+    presence.clockedInAt?.getTime() ?? null
+  );
+  if (latest !== null && occurredAt.getTime() < latest) {
+    return { ...presence, events };
+  }
+  if (event.action === 'clock_out') {
+    return { ...presence, isClockedIn: false, clockedInAt: null, activeShiftId: null, activeShift: null, events };
+  }
+  const activeShiftId = event.shiftId ?? null;
+  return {
+    ...presence,
+    isClockedIn: true,
+    clockedInAt: occurredAt,
+    activeShiftId,
+    activeShift: presence.activeShift?.id === activeShiftId ? presence.activeShift : null,
+    events,
+  };
+};
@@ -0,0 +1,65 @@
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import {
+  type EmployeePresence,
+  type PresenceClockEvent,
+  getPresenceDayStart,
+  parseEmployeePresence,
+  parsePresenceClockEvent,
+} from './employeePresence';
+
+const EMPLOYEE_PRESENCE_UNAVAILABLE_MESSAGE = 'Employee presence is not available yet.';
+
+/** The caller's clock state, active shift and clock events since `dayStart`. */
+export const fetchEmployeePresence = async (dayStart = getPresenceDayStart()): Promise<EmployeePresence> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('get_employee_presence', { day_start: dayStart.toISOString() });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(EMPLOYEE_PRESENCE_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseEmployeePresence(data);
+};
+
+export type PresenceClockEventSubscription = {
+  unsubscribe: () => void;
+};
+
+let presenceSubscriptionSequence = 0;
+
+export const subscribeToPresenceClockEvents = (
+  employeeId: string,
+  onEvent: (event: PresenceClockEvent) => void
+): PresenceClockEventSubscription => {
+  if (!supabase || !employeeId) {
+    return { unsubscribe: () => {} };
+  }
+
+  presenceSubscriptionSequence += 1;
+  const eventChannel = supabase.channel(`employee_clock_events:${employeeId}:${presenceSubscriptionSequence}`);
+  eventChannel.on(
+    'postgres_changes',
+    {
+      event: 'INSERT',
+      schema: 'public',
+      table: 'employee_clock_events',
+      filter: `employeeId=eq.${employeeId}`,
+    },
+    (payload) => {
+      const event = payload.new ? parsePresenceClockEvent(payload.new) : null;
+      if (event) onEvent(event);
+    }
+  );
+
+  eventChannel.subscribe();
+
+  return {
+    unsubscribe: () => eventChannel.unsubscribe(),
+  };
+};
@@ -0,0 +1,343 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { sha512 } from '../../shared/utils/sha512';
+import { encodeBase64UrlBytes } from '../../shared/utils/qrClockIn';
+import { readString } from '../../shared/utils/parseUtils';
+import type { QrClockAction } from './qrClockQueue';
+
+/** A site the signed-in employee may run a shared clock-in tablet for. */
+export type KioskObject = {
+  objectId: string;
+  title: string;
+  allowPin: boolean;
+  /** How long a result stays on screen before the kiosk is ready for the next person. */
+  resetSeconds: number;
+};
+
+/** Someone with a shift at the kiosk's site around now, offered for PIN entry. */
+export type KioskEmployee = {
+  employeeId: string;
+  name: string;
+  shiftId: string;
+  shiftStart?: string;
+  shiftEnd?: string;
+};
+
+export type KioskEmployeesResult =
+  | { ok: true; status: 'ok'; employees: KioskEmployee[] }
+  | { ok: false; status: 'not_operator'; employees: [] };
+
+/** The signed-in employee's own badge for clocking in at a kiosk. */
+export type KioskBadge = {
+  badge: string;
+  issuedAt?: string;
+  hasPin: boolean;
+};
+
+export type KioskPinResult = { ok: boolean; status: 'saved' | 'invalid' };
+
+/** Kiosk mode running on this device. Persisted so restarts return to the kiosk. */
+export type KioskSession = {
+  objectId: string;
+  objectTitle: string;
+  allowPin: boolean;
+  resetSeconds: number;
+  /** The signed-in employee who started the kiosk; clock events are sent with their session. */
+  operatorId: string;
+  exitPinSalt: string;
+  exitPinHash: string;
+  startedAt: string;
+  /** Wrong exit PINs since the kiosk started; every third one locks the exit for longer. */
+  failedExitAttempts: number;
+  exitLockedUntil: string | null;
+};
+
+export type KioskIdentity =
+  | { method: 'badge'; badge: string }
+  | { method: 'pin'; employeeId: string; pin: string };
+
+export type KioskClockResponse = {
+  status: number;
+  clockIn?: { shiftId?: string; action?: QrClockAction; workedMs?: number };
+  employee?: { name?: string };
+  error?: string;
+};
+
+/** Refusals the Employee API reports in `error` for kiosk clock events. */
+export type KioskRejection =
+  | 'unknown_badge'
+  | 'no_pin'
+  | 'wrong_pin'
+  | 'pin_locked'
+  | 'rate_limited'
+  | 'not_scheduled'
+  | 'not_operator';
+
+/** One line of the kiosk's on-device activity log. */
+export type KioskActivityEntry = {
+  id: string;
+  at: string;
+  method: KioskIdentity['method'];
+  status: 'success' | 'rejected' | 'failed';
+  employeeName?: string;
+  action?: QrClockAction;
+  rejection?: KioskRejection;
+};
+
+export const KIOSK_BADGE_PREFIX = 'SHIFTOR_BADGE:';
+
+/** The PIN pad and name list are cleared after this long without a touch. */
+export const KIOSK_IDLE_RESET_MS = 30 * 1000;
+
+export const KIOSK_ACTIVITY_LIMIT = 50;
+
+const KIOSK_DEFAULT_RESET_SECONDS = 8;
+const KIOSK_EXIT_ATTEMPTS_PER_LOCK = 3;
+const KIOSK_EXIT_LOCK_BASE_MS = 30 * 1000;
+const KIOSK_EXIT_LOCK_MAX_MS = 60 * 60 * 1000;
+const KIOSK_MIN_BADGE_TOKEN_LENGTH = 16;
+const KIOSK_SESSION_KEY = 'shiftor:kiosk-session';
+const KIOSK_ACTIVITY_KEY = 'shiftor:kiosk-activity';
+
+const kioskRejections: KioskRejection[] = [
+  'unknown_badge',
+  'no_pin',
+  'wrong_pin',
+  'pin_locked',
+  'rate_limited',
+  'not_scheduled',
+  'not_operator',
+];
+
+const sessionListeners = new Set<(session: KioskSession | null) => void>();
+
+const toAsciiBytes = (value: string) => Uint8Array.from(value, (character) => character.charCodeAt(0));
+
+export const isValidKioskPin = (pin: string) => /^[0-9]{4,6}$/.test(pin);
+
+/** The badge code from a scan, or null when the code is not a badge. */
+export const parseKioskBadgeCode = (raw: string): string | null => {
+  const value = raw.trim();
+  if (!value.startsWith(KIOSK_BADGE_PREFIX)) return null;
+  const token = value.slice(KIOSK_BADGE_PREFIX.length);
+  return token.length >= KIOSK_MIN_BADGE_TOKEN_LENGTH && /^[A-Za-z0-9_-]+$/.test(token) ? value : null;
+};
+
+export const resolveKioskRejection = (error?: string): KioskRejection | undefined =>
+  kioskRejections.find((candidate) => candidate === error);
+
+export const hashKioskExitPin = (pin: string, salt: string) =>
+  encodeBase64UrlBytes(sha512(toAsciiBytes(`${salt}:${pin}`)));
+
+export const createKioskSession = (
+  input: { object: KioskObject; operatorId: string; exitPin: string },
+  now = new Date(),
+  salt = `${now.getTime().toString(36)}${Math.random().toString(36).slice(2, 12)}`
+): KioskSession => ({
+  objectId: input.object.objectId,
+  objectTitle: input.object.title,
+  allowPin: input.object.allowPin,
+  resetSeconds: input.object.resetSeconds,
+  operatorId: input.operatorId,
+  exitPinSalt: salt,
+  exitPinHash: hashKioskExitPin(input.exitPin, salt),
+  startedAt: now.toISOString(),
+  failedExitAttempts: 0,
+  exitLockedUntil: null,
+});
+
+export const checkKioskExitPin = (session: KioskSession, pin: string) =>
+  hashKioskExitPin(pin, session.exitPinSalt) === session.exitPinHash;
+
+/** Milliseconds until the exit PIN may be tried again, 0 when it is not locked. */
+export const getKioskExitLockMs = (session: KioskSession, now = new Date()) => {
+  const lockedUntil = session.exitLockedUntil ? new Date(session.exitLockedUntil).getTime() : NaN;
+  return Number.isNaN(lockedUntil) ? 0 : Math.max(0, lockedUntil - now.getTime());
+};
+
+/**
+ * Counts a wrong exit PIN. Every third one locks the exit, starting at 30 s
+ * and doubling up to an hour, so the 4–6 digits cannot be tried through.
+ */
+export const recordKioskExitFailure = (session: KioskSession, now = new Date()): KioskSession => {
+  const failedExitAttempts = session.failedExitAttempts + 1;
+  if (failedExitAttempts % KIOSK_EXIT_ATTEMPTS_PER_LOCK !== 0) {
+    return { ...session, failedExitAttempts };
+  }
+  const lockCount = failedExitAttempts / KIOSK_EXIT_ATTEMPTS_PER_LOCK;
+  const lockMs = Math.min(KIOSK_EXIT_LOCK_MAX_MS, KIOSK_EXIT_LOCK_BASE_MS * 2 ** (lockCount - 1));
+  return { ...session, failedExitAttempts, exitLockedUntil: new Date(now.getTime() + lockMs).toISOString() };
+};
+
+export const createKioskClientEventId = (now = new Date()) =>
+  `kiosk-${now.getTime()}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Newest first, capped at `limit` so the shared device keeps little personal data. */
+export const appendKioskActivity = (
+  log: KioskActivityEntry[],
+  entry: KioskActivityEntry,
+  limit = KIOSK_ACTIVITY_LIMIT
+) => [entry, ...log.filter((existing) => existing.id !== entry.id)].slice(0, limit);
+
+const clampResetSeconds = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(60, Math.max(3, Math.round(value)))
+    : KIOSK_DEFAULT_RESET_SECONDS;
+
+export const parseKioskObjects = (value: unknown): KioskObject[] => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Kiosk sites returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status !== 'ok' || !Array.isArray(record.objects)) {
+    throw new Error('Kiosk sites returned an unknown status.');
+  }
+  return record.objects.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') return [];
+    const object = entry as Record<string, unknown>;
+    const objectId = readString(object.objectId);
+    if (!objectId) return [];
+    return [
+      {
+        objectId,
+        title: readString(object.title) ?? objectId,
+        allowPin: object.allowPin !== false,
+        resetSeconds: clampResetSeconds(object.resetSeconds),
+      },
+    ];
+  });
+};
+
+export const parseKioskEmployees = (value: unknown): KioskEmployeesResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Kiosk employees returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status === 'not_operator') {
+    return { ok: false, status: 'not_operator', employees: [] };
+  }
+  if (record.status !== 'ok' || !Array.isArray(record.employees)) {
+    throw new Error('Kiosk employees returned an unknown status.');
+  }
+  const employees = record.employees.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') return [];
+    const employee = entry as Record<string, unknown>;
+    const employeeId = readString(employee.employeeId);
+    const shiftId = readString(employee.shiftId);
+    if (!employeeId || !shiftId) return [];
+    const name = [readString(employee.firstName), readString(employee.lastName)].filter(Boolean).join(' ');
+    return [
+      {
+        employeeId,
+        name: name || employeeId.slice(0, 8),
+        shiftId,
+        shiftStart: readString(employee.shiftStart),
+        shiftEnd: readString(employee.shiftEnd),
+      },
+    ];
+  });
+  return { ok: true, status: 'ok', employees };
+};
+
+export const parseKioskBadge = (value: unknown): KioskBadge => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Kiosk badge returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  const badge = readString(record.badge);
+  if (record.status !== 'ok' || !badge || !parseKioskBadgeCode(badge)) {
+    throw new Error('Kiosk badge returned an unknown status.');
+  }
+  return { badge, issuedAt: readString(record.issuedAt), hasPin: record.hasPin === true };
+};
+
+export const parseKioskPinResult = (value: unknown): KioskPinResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Kiosk PIN returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status !== 'saved' && record.status !== 'invalid') {
+    throw new Error('Kiosk PIN returned an unknown status.');
+  }
+  return { ok: record.ok === true, status: record.status };
+};
+
+export const parseKioskSession = (value: string | null): KioskSession | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value) as Partial<KioskSession>;
+    if (
+      typeof parsed.objectId !== 'string' ||
+      typeof parsed.operatorId !== 'string' ||
+      typeof parsed.exitPinSalt !== 'string' ||
+      typeof parsed.exitPinHash !== 'string'
+    ) {
+      return null;
+    }
+    return {
+      objectId: parsed.objectId,
+      objectTitle: typeof parsed.objectTitle === 'string' ? parsed.objectTitle : parsed.objectId,
+      allowPin: parsed.allowPin !== false,
+      resetSeconds: clampResetSeconds(parsed.resetSeconds),
+      operatorId: parsed.operatorId,
+      exitPinSalt: parsed.exitPinSalt,
+      exitPinHash: parsed.exitPinHash,
+      startedAt: typeof parsed.startedAt === 'string' ? parsed.startedAt : new Date(0).toISOString(),
+      failedExitAttempts:
+        typeof parsed.failedExitAttempts === 'number' && Number.isFinite(parsed.failedExitAttempts)
+          ? Math.max(0, Math.floor(parsed.failedExitAttempts))
+          : 0,
+      exitLockedUntil: typeof parsed.exitLockedUntil === 'string' ? parsed.exitLockedUntil : null,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const isKioskActivityEntry = (value: unknown): value is KioskActivityEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<KioskActivityEntry>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.at === 'string' &&
+    (entry.method === 'badge' || entry.method === 'pin') &&
+    (entry.status === 'success' || entry.status === 'rejected' || entry.status === 'failed')
+  );
+};
+
+export const parseKioskActivity = (value: string | null): KioskActivityEntry[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isKioskActivityEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadKioskSession = async () => parseKioskSession(await AsyncStorage.getItem(KIOSK_SESSION_KEY));
+
+export const saveKioskSession = async (session: KioskSession) => {
+  await AsyncStorage.setItem(KIOSK_SESSION_KEY, JSON.stringify(session));
+  sessionListeners.forEach((listener) => listener(session));
+};
+
+/** Leaves kiosk mode and drops the activity log with the names in it. */
+export const clearKioskSession = async () => {
+  await AsyncStorage.multiRemove([KIOSK_SESSION_KEY, KIOSK_ACTIVITY_KEY]);
+  sessionListeners.forEach((listener) => listener(null));
+};
+
+export const subscribeToKioskSession = (listener: (session: KioskSession | null) => void) => {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+};
+
+export const loadKioskActivity = async () => parseKioskActivity(await AsyncStorage.getItem(KIOSK_ACTIVITY_KEY));
+
+export const recordKioskActivity = async (entry: KioskActivityEntry) => {
+  const log = appendKioskActivity(await loadKioskActivity(), entry);
+  await AsyncStorage.setItem(KIOSK_ACTIVITY_KEY, JSON.stringify(log));
+  return log;
+};
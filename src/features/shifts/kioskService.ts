@@ -0,0 +1,133 @@
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import {
+  type KioskBadge,
+  type KioskClockResponse,
+  type KioskEmployeesResult,
+  type KioskIdentity,
+  type KioskObject,
+  type KioskPinResult,
+  parseKioskBadge,
+  parseKioskEmployees,
+  parseKioskObjects,
+  parseKioskPinResult,
+} from './kioskMode';
+import type { QrClockInLocation } from './shiftGeofence';
+
+const KIOSK_UNAVAILABLE_MESSAGE = 'Kiosk mode is not available yet.';
+
+/** Sites the signed-in employee may run a kiosk for. */
+export const fetchKioskObjects = async (): Promise<KioskObject[]> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_kiosk_objects');
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(KIOSK_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseKioskObjects(data);
+};
+
+export const fetchKioskEmployees = async (objectId: string): Promise<KioskEmployeesResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_kiosk_employees', { target_object_id: objectId });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(KIOSK_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseKioskEmployees(data);
+};
+
+/** The caller's badge; `renew` replaces it so the old code stops working. */
+export const fetchMyKioskBadge = async (renew = false): Promise<KioskBadge> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('get_my_kiosk_badge', { renew });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(KIOSK_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseKioskBadge(data);
+};
+
+export const saveMyKioskPin = async (pin: string): Promise<KioskPinResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('set_my_kiosk_pin', { new_pin: pin });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(KIOSK_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseKioskPinResult(data);
+};
+
+/**
+ * Clocks the identified employee in or out with the operator's session. Like
+ * `postQrClockIn`, network failures throw and HTTP answers resolve.
+ */
+export const postKioskClockIn = async ({
+  apiBaseUrl,
+  accessToken,
+  objectId,
+  identity,
+  clientEventId,
+  occurredAt,
+  location,
+}: {
+  apiBaseUrl: string;
+  accessToken: string;
+  objectId: string;
+  identity: KioskIdentity;
+  clientEventId: string;
+  occurredAt: string;
+  location?: QrClockInLocation;
+}): Promise<KioskClockResponse> => {
+  const response = await fetch(`${apiBaseUrl}/api/objects/kiosk-clock-in`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({
+      objectId,
+      clientEventId,
+      occurredAt,
+      ...(identity.method === 'badge'
+        ? { badge: identity.badge }
+        : { employeeId: identity.employeeId, pin: identity.pin }),
+      ...(location ? { location } : {}),
+    }),
+  });
+
+  const payload = (await response.json().catch(() => ({}))) as Omit<KioskClockResponse, 'status'>;
+  return {
+    status: response.status,
+    clockIn: payload.clockIn,
+    employee: payload.employee,
+    error: typeof payload.error === 'string' ? payload.error : undefined,
+  };
+};
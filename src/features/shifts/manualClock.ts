@@ -0,0 +1,240 @@
+import {
+  type MonthlyHoursShiftTiming,
+  compareShiftTimings,
+} from '../account/monthlyHoursParsing';
+import { readString } from '../../shared/utils/parseUtils';
+import type { QrClockAction } from './qrClockQueue';
+import type { QrClockInLocation } from './shiftGeofence';
+import type { Shift } from './shiftMapping';
+
+export type ManualClockReason = 'qr-missing' | 'qr-damaged' | 'scanner-failed' | 'other';
+
+export type ManualClockRequestStatus = 'pending' | 'approved' | 'rejected';
+
+/** What the employee enters in the manual clock sheet. */
+export type ManualClockInput = {
+  shiftId: string;
+  action: QrClockAction;
+  reason: ManualClockReason;
+  note?: string;
+  photoUri?: string;
+  includeLocation: boolean;
+};
+
+export type ManualClockSubmission = {
+  clientRequestId: string;
+  shiftId: string;
+  action: QrClockAction;
+  requestedAt: string;
+  reason: ManualClockReason;
+  note?: string;
+  photoPath?: string;
+  location?: QrClockInLocation;
+};
+
+export type ManualClockRequest = {
+  id: string;
+  clientRequestId?: string;
+  shiftId: string;
+  action: QrClockAction;
+  requestedAt: string;
+  reason: ManualClockReason;
+  note?: string;
+  hasPhoto: boolean;
+  hasLocation: boolean;
+  status: ManualClockRequestStatus;
+  reviewNote?: string;
+  createdAt: string;
+  shiftTitle?: string;
+  shiftStart?: string;
+  shiftEnd?: string;
+};
+
+export type ManualClockRequestResult = {
+  ok: boolean;
+  status: 'requested' | 'already_requested' | 'not_assigned' | 'not_found' | 'outside_window' | 'invalid';
+  request?: ManualClockRequest;
+};
+
+export type ManualClockValidationError = 'note-required' | 'note-too-long';
+
+export const MANUAL_CLOCK_REASONS: ManualClockReason[] = ['qr-missing', 'qr-damaged', 'scanner-failed', 'other'];
+
+export const MANUAL_CLOCK_NOTE_MAX_LENGTH = 500;
+
+/** How far outside a shift a manual entry is accepted; mirrors the server check. */
+export const MANUAL_CLOCK_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+const parseReason = (value: unknown) => MANUAL_CLOCK_REASONS.find((reason) => reason === value);
+
+const parseAction = (value: unknown): QrClockAction | undefined =>
+  value === 'clock_in' || value === 'clock_out' ? value : undefined;
+
+export const validateManualClockInput = (
+  input: Pick<ManualClockInput, 'reason' | 'note'>
+): ManualClockValidationError | null => {
+  const note = input.note?.trim() ?? '';
+  if (input.reason === 'other' && !note) return 'note-required';
+  if (note.length > MANUAL_CLOCK_NOTE_MAX_LENGTH) return 'note-too-long';
+  return null;
+};
+
+/** Shifts the employee can clock manually right now: live ones and those within the window. */
+export const getManualClockShifts = (shifts: Shift[], now = new Date()) =>
+  shifts
+    .filter((shift) => {
+      const start = Date.parse(shift.start);
+      const end = Date.parse(shift.end);
+      if (Number.isNaN(start) || Number.isNaN(end)) return false;
+      return now.getTime() >= start - MANUAL_CLOCK_WINDOW_MS && now.getTime() <= end + MANUAL_CLOCK_WINDOW_MS;
+    })
+    .sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+
+/**
+ * Suggests clocking out when the employee is already clocked in to the shift,
+ * by QR or by a manual request that was not rejected, or when it has ended.
+ */
+export const getDefaultManualClockAction = (
+  shift: Pick<Shift, 'id' | 'end'>,
+  {
+    isClockedInToShift = false,
+    requests = [],
+    now = new Date(),
+  }: { isClockedInToShift?: boolean; requests?: ManualClockRequest[]; now?: Date } = {}
+): QrClockAction => {
+  const lastRequest = requests
+    .filter((request) => request.shiftId === shift.id && request.status !== 'rejected')
+    .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt))
+    .pop();
+  if (lastRequest) return lastRequest.action === 'clock_in' ? 'clock_out' : 'clock_in';
+  if (isClockedInToShift) return 'clock_out';
+  return now.getTime() > Date.parse(shift.end) ? 'clock_out' : 'clock_in';
+};
+
+export const createManualClockSubmission = (
+  input: ManualClockInput,
+  extras: { photoPath?: string; location?: QrClockInLocation } = {},
+  now = new Date()
+): ManualClockSubmission => ({
+  clientRequestId: `manual-${now.getTime()}-${Math.random().toString(36).slice(2, 10)}`,
+  shiftId: input.shiftId,
+  action: input.action,
+  requestedAt: now.toISOString(),
+  reason: input.reason,
+  note: input.note?.trim() || undefined,
+  photoPath: extras.photoPath,
+  location: extras.location,
+});
+
+export const parseManualClockRequest = (value: unknown): ManualClockRequest | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const id = readString(record.id);
+  const shiftId = readString(record.shiftId);
+  const action = parseAction(record.action);
+  const requestedAt = readString(record.requestedAt);
+  const createdAt = readString(record.createdAt);
+  if (!id || !shiftId || !action || !requestedAt || !createdAt) return null;
+  return {
+    id,
+    clientRequestId: readString(record.clientRequestId),
+    shiftId,
+    action,
+    requestedAt,
+    reason: parseReason(record.reason) ?? 'other',
+    note: readString(record.note),
+    hasPhoto: record.hasPhoto === true,
+    hasLocation: record.hasLocation === true,
+    status: record.status === 'approved' || record.status === 'rejected' ? record.status : 'pending',
+    reviewNote: readString(record.reviewNote),
+    createdAt,
+    shiftTitle: readString(record.shiftTitle),
+    shiftStart: readString(record.shiftStart),
+    shiftEnd: readString(record.shiftEnd),
+  };
+};
+
+const requestStatuses: ManualClockRequestResult['status'][] = [
+  'requested',
+  'already_requested',
+  'not_assigned',
+  'not_found',
+  'outside_window',
+  'invalid',
+];
+
+export const parseManualClockRequestResult = (value: unknown): ManualClockRequestResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Manual clock request returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  const status = requestStatuses.find((candidate) => candidate === record.status);
+  if (!status) {
+    throw new Error('Manual clock request returned an unknown status.');
+  }
+  return { ok: record.ok === true, status, request: parseManualClockRequest(record.request) ?? undefined };
+};
+
+export const parseManualClockRequests = (value: unknown): ManualClockRequest[] => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Manual clock requests returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status !== 'ok' || !Array.isArray(record.requests)) {
+    throw new Error('Manual clock requests returned an unknown status.');
+  }
+  return record.requests
+    .flatMap((request) => parseManualClockRequest(request) ?? [])
+    .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+};
+
+/**
+ * Adds pending manual entries to the monthly clock times. Shifts the API
+ * already lists are flagged and gain the missing times; others get their own
+ * row. Approved entries are part of the API data, rejected ones never count.
+ */
+export const applyManualClockRequests = (
+  timings: MonthlyHoursShiftTiming[],
+  requests: ManualClockRequest[]
+): MonthlyHoursShiftTiming[] => {
+  const pendingByShift = new Map<string, ManualClockRequest[]>();
+  requests
+    .filter((request) => request.status === 'pending')
+    .forEach((request) => {
+      pendingByShift.set(request.shiftId, [...(pendingByShift.get(request.shiftId) ?? []), request]);
+    });
+  if (!pendingByShift.size) return timings;
+
+  const pendingTimes = (pending: ManualClockRequest[], action: QrClockAction) =>
+    pending.find((request) => request.action === action)?.requestedAt ?? null;
+
+  const merged = timings.map((timing) => {
+    const shiftId = timing.shiftId ?? timing.id;
+    const pending = pendingByShift.get(shiftId);
+    if (!pending) return timing;
+    pendingByShift.delete(shiftId);
+    return {
+      ...timing,
+      clockIn: timing.clockIn ?? pendingTimes(pending, 'clock_in'),
+      clockOut: timing.clockOut ?? pendingTimes(pending, 'clock_out'),
+      needsApproval: true,
+    };
+  });
+
+  pendingByShift.forEach((pending, shiftId) => {
+    const first = pending[0];
+    merged.push({
+      id: shiftId,
+      title: first.shiftTitle ?? '',
+      location: '',
+      start: first.shiftStart ?? null,
+      end: first.shiftEnd ?? null,
+      clockIn: pendingTimes(pending, 'clock_in'),
+      clockOut: pendingTimes(pending, 'clock_out'),
+      workedMinutes: 0,
+      needsApproval: true,
+    });
+  });
+
+  return merged.sort(compareShiftTimings);
+};
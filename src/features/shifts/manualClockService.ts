@@ -0,0 +1,99 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import {
+  type ManualClockRequest,
+  type ManualClockRequestResult,
+  type ManualClockSubmission,
+  parseManualClockRequestResult,
+  parseManualClockRequests,
+} from './manualClock';
+import { SHIFT_EVIDENCE_BUCKET } from './shiftChecklistService';
+
+const MANUAL_CLOCK_UNAVAILABLE_MESSAGE = 'Manual clock requests are not available yet.';
+
+const isAlreadyUploadedError = (error: unknown) =>
+  error instanceof Error && /already exists|duplicate/i.test(error.message);
+
+/**
+ * Uploads the photo of a manual clock request. The path is derived from the
+ * request id so a retried submission reuses the uploaded object.
+ */
+export const uploadManualClockPhoto = async (
+  employeeId: string,
+  submission: Pick<ManualClockSubmission, 'clientRequestId' | 'shiftId'>,
+  uri: string
+): Promise<string> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+  const manipulated = await ImageManipulator.manipulateAsync(uri, [{ resize: { width: 1600 } }], {
+    compress: 0.8,
+    format: ImageManipulator.SaveFormat.JPEG,
+  });
+  const storagePath = `manual-clock/${submission.shiftId}/${employeeId}/${submission.clientRequestId}.jpg`;
+
+  const fileResponse = await fetch(manipulated.uri);
+  if (!fileResponse.ok) {
+    throw new Error('Could not read the manual clock photo.');
+  }
+  const fileBlob = await fileResponse.blob();
+
+  const { data, error } = await supabase.storage.from(SHIFT_EVIDENCE_BUCKET).upload(storagePath, fileBlob, {
+    contentType: 'image/jpeg',
+    upsert: false,
+  });
+
+  if (error && !isAlreadyUploadedError(error)) {
+    throw error;
+  }
+
+  return data?.path ?? storagePath;
+};
+
+export const requestManualClockEvent = async (
+  submission: ManualClockSubmission
+): Promise<ManualClockRequestResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('request_manual_clock_event', {
+    client_request_id: submission.clientRequestId,
+    target_shift_id: submission.shiftId,
+    clock_action: submission.action,
+    requested_at: submission.requestedAt,
+    request_reason: submission.reason,
+    request_note: submission.note ?? null,
+    photo_path: submission.photoPath ?? null,
+    location_latitude: submission.location?.latitude ?? null,
+    location_longitude: submission.location?.longitude ?? null,
+    location_accuracy: submission.location?.accuracy ?? null,
+  });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(MANUAL_CLOCK_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseManualClockRequestResult(data);
+};
+
+/** The caller's manual clock requests for shifts starting in the month. */
+export const fetchManualClockRequests = async (monthStart: string): Promise<ManualClockRequest[]> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_manual_clock_requests', { month_start: monthStart });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(MANUAL_CLOCK_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseManualClockRequests(data);
+};
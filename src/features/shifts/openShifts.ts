@@ -0,0 +1,191 @@
+import { getZonedDayKey } from '../../shared/utils/timeUtils';
+import { readString } from '../../shared/utils/parseUtils';
+import type { Shift } from './shiftMapping';
+
+export type ShiftClaimStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export type ShiftClaim = {
+  id: string;
+  shiftId: string;
+  status: ShiftClaimStatus;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+  reviewedAt?: string;
+};
+
+export type ClaimOpenShiftResult = {
+  ok: boolean;
+  status:
+    | 'pending'
+    | 'already_claimed'
+    | 'already_assigned'
+    | 'not_open'
+    | 'not_found'
+    | 'not_qualified'
+    | 'not_linked';
+  claimId?: string;
+};
+
+export type WithdrawShiftClaimResult = {
+  ok: boolean;
+  status: ShiftClaimStatus | 'not_found';
+};
+
+export type OpenShiftListResult = {
+  status: 'ok' | 'not_linked';
+  rows: Record<string, unknown>[];
+  /** The caller's own qualifications, used to mark shifts they cannot claim. */
+  qualifications: string[];
+};
+
+export type OpenShiftFilters = {
+  qualification?: string | null;
+  site?: string | null;
+  /** `YYYY-MM-DD` in the shift's site time zone. */
+  day?: string | null;
+};
+
+const CLAIM_STATUSES: ShiftClaimStatus[] = ['pending', 'approved', 'rejected', 'withdrawn'];
+const CLAIM_RESULT_STATUSES: ClaimOpenShiftResult['status'][] = [
+  'pending',
+  'already_claimed',
+  'already_assigned',
+  'not_open',
+  'not_found',
+  'not_qualified',
+  'not_linked',
+];
+
+const normalizeQualification = (value: string) => value.trim().toLowerCase();
+
+export const isShiftClaimStatus = (value: unknown): value is ShiftClaimStatus =>
+  CLAIM_STATUSES.includes(value as ShiftClaimStatus);
+
+export const parseShiftClaimRow = (row: Record<string, unknown>): ShiftClaim | null => {
+  const id = readString(row.id);
+  const shiftId = readString(row.shiftId);
+  if (!id || !shiftId || !isShiftClaimStatus(row.status)) return null;
+  return {
+    id,
+    shiftId,
+    status: row.status,
+    note: readString(row.note),
+    createdAt: readString(row.createdAt) ?? '',
+    updatedAt: readString(row.updatedAt) ?? readString(row.createdAt) ?? '',
+    reviewedAt: readString(row.reviewedAt),
+  };
+};
+
+export const parseOpenShiftListResult = (value: unknown): OpenShiftListResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Open shift list returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status === 'not_linked') {
+    return { status: 'not_linked', rows: [], qualifications: [] };
+  }
+  if (record.status !== 'ok' || !Array.isArray(record.shifts)) {
+    throw new Error('Open shift list returned an unknown status.');
+  }
+  return {
+    status: 'ok',
+    rows: record.shifts.filter(
+      (row): row is Record<string, unknown> => Boolean(row) && typeof row === 'object'
+    ),
+    qualifications: Array.isArray(record.qualifications)
+      ? record.qualifications.filter((entry): entry is string => typeof entry === 'string')
+      : [],
+  };
+};
+
+export const parseClaimOpenShiftResult = (value: unknown): ClaimOpenShiftResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Open shift claim returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (!CLAIM_RESULT_STATUSES.includes(record.status as ClaimOpenShiftResult['status'])) {
+    throw new Error('Open shift claim returned an unknown status.');
+  }
+  return {
+    ok: record.ok === true,
+    status: record.status as ClaimOpenShiftResult['status'],
+    claimId: readString(record.claimId),
+  };
+};
+
+export const parseWithdrawShiftClaimResult = (value: unknown): WithdrawShiftClaimResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Shift claim withdrawal returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status !== 'not_found' && !isShiftClaimStatus(record.status)) {
+    throw new Error('Shift claim withdrawal returned an unknown status.');
+  }
+  return { ok: record.ok === true, status: record.status as WithdrawShiftClaimResult['status'] };
+};
+
+/** The site an open shift belongs to, as shown in the site filter. */
+export const getOpenShiftSite = (shift: Pick<Shift, 'objectName' | 'location'>) =>
+  shift.objectName?.trim() || shift.location.trim();
+
+export const isQualifiedForShift = (
+  shift: Pick<Shift, 'qualifications'>,
+  employeeQualifications: string[]
+) => {
+  const held = new Set(employeeQualifications.map(normalizeQualification));
+  return (shift.qualifications ?? []).every((qualification) => held.has(normalizeQualification(qualification)));
+};
+
+export const filterOpenShifts = <T extends Pick<Shift, 'start' | 'timeZone' | 'objectName' | 'location' | 'qualifications'>>(
+  shifts: T[],
+  { qualification, site, day }: OpenShiftFilters
+) =>
+  shifts.filter((shift) => {
+    if (
+      qualification &&
+      !(shift.qualifications ?? []).some(
+        (entry) => normalizeQualification(entry) === normalizeQualification(qualification)
+      )
+    ) {
+      return false;
+    }
+    if (site && getOpenShiftSite(shift) !== site) return false;
+    if (day && getZonedDayKey(shift.start, shift.timeZone) !== day) return false;
+    return true;
+  });
+
+const sortedUnique = (values: (string | null | undefined)[]) =>
+  Array.from(new Set(values.filter((value): value is string => Boolean(value)))).sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+/** Filter chips offered for the current list of open shifts. */
+export const getOpenShiftFilterOptions = (
+  shifts: Pick<Shift, 'start' | 'timeZone' | 'objectName' | 'location' | 'qualifications'>[]
+) => ({
+  qualifications: sortedUnique(
+    Array.from(
+      new Map(
+        shifts
+          .flatMap((shift) => shift.qualifications ?? [])
+          .reverse()
+          .map((qualification) => [normalizeQualification(qualification), qualification.trim()])
+      ).values()
+    )
+  ),
+  sites: sortedUnique(shifts.map(getOpenShiftSite)),
+  days: sortedUnique(shifts.map((shift) => getZonedDayKey(shift.start, shift.timeZone))),
+});
+
+/** The most recent claim per shift; older withdrawn or rejected claims are superseded. */
+export const getLatestShiftClaims = (claims: ShiftClaim[]) => {
+  const latest = new Map<string, ShiftClaim>();
+  claims.forEach((claim) => {
+    const current = latest.get(claim.shiftId);
+    if (!current || claim.updatedAt > current.updatedAt) {
+      latest.set(claim.shiftId, claim);
+    }
+  });
+  return latest;
+};
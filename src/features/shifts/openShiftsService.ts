@@ -0,0 +1,142 @@
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import { type Shift, mapShiftRecord, sortShiftsByStart } from './shiftMapping';
+import type { ShiftWindow } from './shiftWindow';
+import {
+  type ClaimOpenShiftResult,
+  type ShiftClaim,
+  type WithdrawShiftClaimResult,
+  parseClaimOpenShiftResult,
+  parseOpenShiftListResult,
+  parseShiftClaimRow,
+  parseWithdrawShiftClaimResult,
+} from './openShifts';
+
+export type OpenShiftFeed = {
+  status: 'ok' | 'not_linked';
+  shifts: Shift[];
+  qualifications: string[];
+};
+
+type ShiftClaimSubscription = {
+  unsubscribe: () => void;
+};
+
+const OPEN_SHIFTS_UNAVAILABLE_MESSAGE = 'Open shifts are not available yet.';
+const SHIFT_CLAIM_COLUMNS = 'id, shiftId, status, note, createdAt, updatedAt, reviewedAt';
+
+let claimSubscriptionSequence = 0;
+
+export const fetchOpenShifts = async (window: ShiftWindow): Promise<OpenShiftFeed> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_open_shifts', {
+    window_from: window.from,
+    window_to: window.to,
+  });
+
+  if (error) {
+    if (isMissingBackendError(error, { includeTables: true })) {
+      throw new Error(OPEN_SHIFTS_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  const result = parseOpenShiftListResult(data);
+  return {
+    status: result.status,
+    shifts: sortShiftsByStart(
+      result.rows.map((row) => mapShiftRecord(row)).filter((shift) => shift.id !== 'unknown')
+    ),
+    qualifications: result.qualifications,
+  };
+};
+
+export const fetchShiftClaims = async (employeeId: string): Promise<ShiftClaim[]> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase
+    .from('shift_claims')
+    .select(SHIFT_CLAIM_COLUMNS)
+    .eq('employeeId', employeeId)
+    .order('updatedAt', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    if (isMissingBackendError(error, { includeTables: true })) {
+      return [];
+    }
+    throw error;
+  }
+
+  return ((data ?? []) as Record<string, unknown>[]).flatMap((row) => parseShiftClaimRow(row) ?? []);
+};
+
+export const claimOpenShift = async (shiftId: string, note?: string): Promise<ClaimOpenShiftResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('claim_open_shift', {
+    target_shift_id: shiftId,
+    claim_note: note?.trim() || null,
+  });
+
+  if (error) {
+    if (isMissingBackendError(error, { includeTables: true })) {
+      throw new Error(OPEN_SHIFTS_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseClaimOpenShiftResult(data);
+};
+
+export const withdrawShiftClaim = async (claimId: string): Promise<WithdrawShiftClaimResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('withdraw_shift_claim', { target_claim_id: claimId });
+
+  if (error) {
+    throw error;
+  }
+
+  return parseWithdrawShiftClaimResult(data);
+};
+
+/** Fires when a planner reviews one of the employee's claims. */
+export const subscribeToShiftClaims = (
+  employeeId: string,
+  onChange: (claim: ShiftClaim) => void
+): ShiftClaimSubscription => {
+  if (!supabase || !employeeId) {
+    return { unsubscribe: () => {} };
+  }
+
+  claimSubscriptionSequence += 1;
+  const claimChannel = supabase.channel(`shift_claims:${employeeId}:${claimSubscriptionSequence}`);
+  claimChannel.on(
+    'postgres_changes',
+    {
+      event: '*',
+      schema: 'public',
+      table: 'shift_claims',
+      filter: `employeeId=eq.${employeeId}`,
+    },
+    (payload) => {
+      const claim = payload.new ? parseShiftClaimRow(payload.new as Record<string, unknown>) : null;
+      if (claim) onChange(claim);
+    }
+  );
+
+  claimChannel.subscribe();
+
+  return {
+    unsubscribe: () => claimChannel.unsubscribe(),
+  };
+};
@@ -0,0 +1,41 @@
+import type { QrClockInLocation } from './shiftGeofence';
+import type { ClockEventSubmitResponse, QueuedClockEventMeta } from './qrClockQueue';
+
+/**
+ * Posts one QR scan to the Employee API. Network failures throw; every HTTP
+ * answer resolves with its status so callers can tell refusals from outages.
+ */
+export const postQrClockIn = async ({
+  apiBaseUrl,
+  accessToken,
+  qrCode,
+  location,
+  offline,
+}: {
+  apiBaseUrl: string;
+  accessToken: string;
+  qrCode: string;
+  location?: QrClockInLocation;
+  /** Present when a scan recorded offline is replayed. */
+  offline?: QueuedClockEventMeta;
+}): Promise<ClockEventSubmitResponse> => {
+  const response = await fetch(`${apiBaseUrl}/api/objects/qr-clock-in`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({
+      qrCode,
+      ...(location ? { location } : {}),
+      ...(offline ? { offline } : {}),
+    }),
+  });
+
+  const payload = (await response.json().catch(() => ({}))) as Omit<ClockEventSubmitResponse, 'status'>;
+  return {
+    status: response.status,
+    clockIn: payload.clockIn,
+    error: typeof payload.error === 'string' ? payload.error : undefined,
+  };
+};
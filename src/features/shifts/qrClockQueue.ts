@@ -0,0 +1,294 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { QrClockInLocation } from './shiftGeofence';
+import { isNetworkError } from './shiftMutationQueue';
+
+export type QrClockAction = 'clock_in' | 'clock_out';
+
+/** A QR scan recorded while the clock-in API could not be reached. */
+export type QueuedClockEvent = {
+  /** Generated on the device; the server uses it to ignore replays. */
+  id: string;
+  qrCode: string;
+  shiftId?: string;
+  /** What the scan is expected to do, for display until the server decides. */
+  expectedAction: QrClockAction;
+  location?: QrClockInLocation;
+  /** Device wall-clock time of the scan. */
+  scannedAt: string;
+  /** Monotonic clock reading at the scan; only comparable within `sessionId`. */
+  monotonicMs?: number;
+  /** App process the monotonic reading belongs to. */
+  sessionId: string;
+  attempts: number;
+  lastError?: string;
+  /** Set when the server refused the event; it is no longer retried. */
+  rejected?: { status: number; error?: string; at: string };
+};
+
+/** Timing evidence sent with a replayed scan. */
+export type QueuedClockEventMeta = {
+  eventId: string;
+  scannedAt: string;
+  /**
+   * Time since the scan on the monotonic clock. Lets the server place the scan
+   * without trusting the device clock; absent after an app restart.
+   */
+  elapsedSinceScanMs?: number;
+  attempts: number;
+};
+
+export type ClockEventSubmitResponse = {
+  status: number;
+  clockIn?: { shiftId?: string; action?: QrClockAction; workedMs?: number };
+  error?: string;
+};
+
+export type ClockEventSubmitter = (
+  event: QueuedClockEvent,
+  meta: QueuedClockEventMeta
+) => Promise<ClockEventSubmitResponse>;
+
+export type ClockEventReplayResult = {
+  submitted: { event: QueuedClockEvent; response: ClockEventSubmitResponse }[];
+  rejected: QueuedClockEvent[];
+  /** Entries still waiting, including earlier rejections kept for the employee to see. */
+  remaining: QueuedClockEvent[];
+};
+
+export type MonotonicReading = {
+  sessionId: string;
+  monotonicMs?: number;
+};
+
+const QR_CLOCK_QUEUE_PREFIX = 'shiftor:qr-clock-queue';
+
+/** Identifies this app process; monotonic readings reset when it restarts. */
+export const CLOCK_EVENT_SESSION_ID = `session-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const queueKey = (employeeId: string) => `${QR_CLOCK_QUEUE_PREFIX}:${employeeId}`;
+
+const queueListeners = new Map<string, Set<(queue: QueuedClockEvent[]) => void>>();
+const flushesInFlight = new Map<string, Promise<ClockEventReplayResult>>();
+
+export const readMonotonicClock = (): MonotonicReading => {
+  const now = globalThis.performance?.now?.();
+  return {
+    sessionId: CLOCK_EVENT_SESSION_ID,
+    monotonicMs: typeof now === 'number' && Number.isFinite(now) ? Math.round(now) : undefined,
+  };
+};
+
+export const createQueuedClockEvent = (
+  input: Pick<QueuedClockEvent, 'qrCode' | 'shiftId' | 'expectedAction' | 'location'>,
+  now = new Date(),
+  clock: MonotonicReading = readMonotonicClock()
+): QueuedClockEvent => ({
+  id: `clock-${now.getTime()}-${Math.random().toString(36).slice(2, 10)}`,
+  qrCode: input.qrCode,
+  shiftId: input.shiftId,
+  expectedAction: input.expectedAction,
+  location: input.location,
+  scannedAt: now.toISOString(),
+  monotonicMs: clock.monotonicMs,
+  sessionId: clock.sessionId,
+  attempts: 0,
+});
+
+export const buildQueuedClockEventMeta = (
+  event: QueuedClockEvent,
+  clock: MonotonicReading = readMonotonicClock()
+): QueuedClockEventMeta => {
+  const canMeasure =
+    event.sessionId === clock.sessionId &&
+    event.monotonicMs !== undefined &&
+    clock.monotonicMs !== undefined &&
+    clock.monotonicMs >= event.monotonicMs;
+  return {
+    eventId: event.id,
+    scannedAt: event.scannedAt,
+    elapsedSinceScanMs: canMeasure ? (clock.monotonicMs as number) - (event.monotonicMs as number) : undefined,
+    attempts: event.attempts + 1,
+  };
+};
+
+/** Statuses that mean the scan itself was refused; anything else is retried. */
+export const isClockEventRejection = (status: number) =>
+  status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429;
+
+/**
+ * What a new scan of the shift will most likely do: the opposite of the last
+ * queued scan for it, or of the known presence when nothing is queued.
+ */
+export const inferQueuedClockAction = (
+  queue: QueuedClockEvent[],
+  shiftId: string | undefined,
+  isClockedInToShift: boolean
+): QrClockAction => {
+  const lastQueued = [...queue]
+    .reverse()
+    .find((event) => !event.rejected && event.shiftId !== undefined && event.shiftId === shiftId);
+  if (lastQueued) {
+    return lastQueued.expectedAction === 'clock_in' ? 'clock_out' : 'clock_in';
+  }
+  return isClockedInToShift ? 'clock_out' : 'clock_in';
+};
+
+export const getPendingClockEvents = (queue: QueuedClockEvent[]) => queue.filter((event) => !event.rejected);
+
+export const getRejectedClockEvents = (queue: QueuedClockEvent[]) => queue.filter((event) => event.rejected);
+
+/**
+ * Replays queued scans strictly in scan order. Network failures, expired
+ * sessions and server errors stop the replay so a clock-out is never sent
+ * ahead of its clock-in.
+ */
+export const replayQueuedClockEvents = async (
+  queue: QueuedClockEvent[],
+  submit: ClockEventSubmitter,
+  clock: () => MonotonicReading = readMonotonicClock,
+  now: () => Date = () => new Date()
+): Promise<ClockEventReplayResult> => {
+  const result: ClockEventReplayResult = { submitted: [], rejected: [], remaining: [] };
+
+  for (let index = 0; index < queue.length; index += 1) {
+    const event = queue[index];
+    if (event.rejected) {
+      result.remaining.push(event);
+      continue;
+    }
+    try {
+      const response = await submit(event, buildQueuedClockEventMeta(event, clock()));
+      if (response.status >= 200 && response.status < 300 && response.clockIn?.shiftId) {
+        result.submitted.push({ event, response });
+        continue;
+      }
+      if (isClockEventRejection(response.status)) {
+        const rejected: QueuedClockEvent = {
+          ...event,
+          attempts: event.attempts + 1,
+          rejected: { status: response.status, error: response.error, at: now().toISOString() },
+        };
+        result.rejected.push(rejected);
+        result.remaining.push(rejected);
+        continue;
+      }
+      result.remaining.push(
+        { ...event, attempts: event.attempts + 1, lastError: response.error ?? `HTTP ${response.status}` },
+        ...queue.slice(index + 1)
+      );
+      break;
+    } catch (error) {
+      const nextEvent: QueuedClockEvent = {
+        ...event,
+        attempts: event.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+      result.remaining.push(nextEvent, ...queue.slice(index + 1));
+      if (!isNetworkError(error)) {
+        console.warn('Failed to replay queued QR scan', error);
+      }
+      break;
+    }
+  }
+
+  return result;
+};
+
+const isQueuedClockEvent = (value: unknown): value is QueuedClockEvent => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<QueuedClockEvent>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.qrCode === 'string' &&
+    (entry.expectedAction === 'clock_in' || entry.expectedAction === 'clock_out') &&
+    typeof entry.scannedAt === 'string' &&
+    typeof entry.sessionId === 'string' &&
+    typeof entry.attempts === 'number'
+  );
+};
+
+export const parseQrClockQueue = (value: string | null): QueuedClockEvent[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isQueuedClockEvent) : [];
+  } catch {
+    return [];
+  }
+};
+
+const notifyQueueListeners = (employeeId: string, queue: QueuedClockEvent[]) => {
+  queueListeners.get(employeeId)?.forEach((listener) => listener(queue));
+};
+
+export const loadQrClockQueue = async (employeeId?: string | null) => {
+  if (!employeeId) return [];
+  return parseQrClockQueue(await AsyncStorage.getItem(queueKey(employeeId)));
+};
+
+const saveQrClockQueue = async (employeeId: string, queue: QueuedClockEvent[]) => {
+  if (queue.length) {
+    await AsyncStorage.setItem(queueKey(employeeId), JSON.stringify(queue));
+  } else {
+    await AsyncStorage.removeItem(queueKey(employeeId));
+  }
+  notifyQueueListeners(employeeId, queue);
+  return queue;
+};
+
+export const enqueueClockEvent = async (employeeId: string, event: QueuedClockEvent) => {
+  const queue = await loadQrClockQueue(employeeId);
+  return saveQrClockQueue(employeeId, [...queue.filter((entry) => entry.id !== event.id), event]);
+};
+
+export const removeQueuedClockEvent = async (employeeId: string, eventId: string) => {
+  const queue = await loadQrClockQueue(employeeId);
+  return saveQrClockQueue(
+    employeeId,
+    queue.filter((entry) => entry.id !== eventId)
+  );
+};
+
+export const subscribeToQrClockQueue = (employeeId: string, listener: (queue: QueuedClockEvent[]) => void) => {
+  const listeners = queueListeners.get(employeeId) ?? new Set();
+  listeners.add(listener);
+  queueListeners.set(employeeId, listeners);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) {
+      queueListeners.delete(employeeId);
+    }
+  };
+};
+
+/**
+ * Replays the persisted scans of an employee. Concurrent callers share one
+ * replay so the scanner and the dashboard never submit a scan twice.
+ */
+export const flushQrClockQueue = (employeeId: string, submit: ClockEventSubmitter) => {
+  const inFlight = flushesInFlight.get(employeeId);
+  if (inFlight) return inFlight;
+
+  const flush = (async () => {
+    const queue = await loadQrClockQueue(employeeId);
+    if (!getPendingClockEvents(queue).length) {
+      return { submitted: [], rejected: [], remaining: queue };
+    }
+    const result = await replayQueuedClockEvents(queue, submit);
+    const latestQueue = await loadQrClockQueue(employeeId);
+    const replayedIds = new Set(queue.map((event) => event.id));
+    const queuedDuringReplay = latestQueue.filter((event) => !replayedIds.has(event.id));
+    // Entries discarded during the replay stay discarded.
+    const stillQueuedIds = new Set(latestQueue.map((event) => event.id));
+    await saveQrClockQueue(employeeId, [
+      ...result.remaining.filter((event) => stillQueuedIds.has(event.id)),
+      ...queuedDuringReplay,
+    ]);
+    return result;
+  })().finally(() => {
+    flushesInFlight.delete(employeeId);
+  });
+
+  flushesInFlight.set(employeeId, flush);
+  return flush;
+};
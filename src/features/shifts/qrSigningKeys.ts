@@ -0,0 +1,128 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  type QrSigningKey,
+  type SignedQrTokenCheck,
+  checkSignedQrClockInCode,
+} from '../../shared/utils/qrClockIn';
+
+type CachedQrSigningKeys = {
+  keys: QrSigningKey[];
+  fetchedAt: string;
+};
+
+const QR_SIGNING_KEYS_PREFIX = 'shiftor:qr-signing-keys';
+
+/** Keys are refetched after this; a stale cache is still used when offline. */
+export const QR_SIGNING_KEYS_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+const cacheKey = (employeeId: string) => `${QR_SIGNING_KEYS_PREFIX}:${employeeId}`;
+
+export const parseQrSigningKeys = (value: unknown): QrSigningKey[] => {
+  if (!value || typeof value !== 'object') return [];
+  const keys = (value as { keys?: unknown }).keys;
+  if (!Array.isArray(keys)) return [];
+  return keys.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') return [];
+    const record = entry as Record<string, unknown>;
+    const alg = record.alg;
+    if (alg !== undefined && alg !== 'Ed25519' && alg !== 'EdDSA') return [];
+    if (typeof record.publicKey !== 'string' || !record.publicKey.trim()) return [];
+    return [
+      {
+        kid: typeof record.kid === 'string' && record.kid.trim() ? record.kid.trim() : undefined,
+        publicKey: record.publicKey.trim(),
+      },
+    ];
+  });
+};
+
+const loadCachedQrSigningKeys = async (employeeId: string): Promise<CachedQrSigningKeys | null> => {
+  try {
+    const value = await AsyncStorage.getItem(cacheKey(employeeId));
+    if (!value) return null;
+    const parsed = JSON.parse(value) as Partial<CachedQrSigningKeys>;
+    const keys = parseQrSigningKeys(parsed);
+    return keys.length && typeof parsed.fetchedAt === 'string' ? { keys, fetchedAt: parsed.fetchedAt } : null;
+  } catch {
+    return null;
+  }
+};
+
+/** The public keys the employee's company signs clock-in QR codes with. */
+export const fetchQrSigningKeys = async ({
+  apiBaseUrl,
+  accessToken,
+}: {
+  apiBaseUrl: string;
+  accessToken: string;
+}): Promise<QrSigningKey[]> => {
+  const response = await fetch(`${apiBaseUrl}/api/objects/qr-signing-keys`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`QR signing keys request failed with ${response.status}`);
+  }
+  return parseQrSigningKeys(await response.json());
+};
+
+type ResolveKeysOptions = {
+  employeeId: string;
+  apiBaseUrl: string;
+  accessToken: string;
+  forceRefresh?: boolean;
+  now?: Date;
+};
+
+/**
+ * Cached keys while fresh, otherwise newly fetched ones. Falls back to a stale
+ * cache when the fetch fails and to null when no keys were ever loaded.
+ */
+export const resolveQrSigningKeys = async ({
+  employeeId,
+  apiBaseUrl,
+  accessToken,
+  forceRefresh = false,
+  now = new Date(),
+}: ResolveKeysOptions): Promise<{ keys: QrSigningKey[]; fresh: boolean } | null> => {
+  const cached = await loadCachedQrSigningKeys(employeeId);
+  const cacheAgeMs = cached ? now.getTime() - Date.parse(cached.fetchedAt) : Infinity;
+  if (cached && !forceRefresh && cacheAgeMs >= 0 && cacheAgeMs < QR_SIGNING_KEYS_MAX_AGE_MS) {
+    return { keys: cached.keys, fresh: false };
+  }
+
+  try {
+    const keys = await fetchQrSigningKeys({ apiBaseUrl, accessToken });
+    if (!keys.length) return cached ? { keys: cached.keys, fresh: false } : null;
+    const nextCache: CachedQrSigningKeys = { keys, fetchedAt: now.toISOString() };
+    await AsyncStorage.setItem(cacheKey(employeeId), JSON.stringify(nextCache)).catch(() => undefined);
+    return { keys, fresh: true };
+  } catch (error) {
+    console.warn('Failed to load QR signing keys', error);
+    return cached ? { keys: cached.keys, fresh: false } : null;
+  }
+};
+
+/**
+ * Checks a scanned code before it is submitted. An unknown key id triggers one
+ * refetch so a rotated company key is picked up without waiting for the cache.
+ */
+export const verifyQrClockInCode = async (
+  rawValue: string,
+  options: Omit<ResolveKeysOptions, 'forceRefresh'>
+): Promise<SignedQrTokenCheck> => {
+  const initial = checkSignedQrClockInCode(rawValue, null, options.now);
+  if (initial.status !== 'unverified') {
+    return initial;
+  }
+
+  const resolved = await resolveQrSigningKeys(options);
+  const check = checkSignedQrClockInCode(rawValue, resolved?.keys ?? null, options.now);
+  if (check.status !== 'unknown-key' || resolved?.fresh) {
+    return check;
+  }
+
+  const refreshed = await resolveQrSigningKeys({ ...options, forceRefresh: true });
+  return refreshed?.fresh ? checkSignedQrClockInCode(rawValue, refreshed.keys, options.now) : initial;
+};
@@ -0,0 +1,103 @@
+import { hmacSha512 } from '../../shared/utils/sha512';
+import {
+  ROTATING_QR_SIGNATURE_LENGTH,
+  decodeBase64UrlBytes,
+  encodeBase64UrlBytes,
+} from '../../shared/utils/qrClockIn';
+
+/** A site whose clock-in code this device may display, with its rotation secret. */
+export type QrDisplayObject = {
+  objectId: string;
+  title: string;
+  kid: string;
+  /** base64url HMAC secret, shared only with the server. */
+  secret: string;
+  stepSeconds: number;
+};
+
+export type QrDisplayObjects = {
+  objects: QrDisplayObject[];
+  /** Server clock when the list was read, to correct a drifting display clock. */
+  serverTime?: string;
+};
+
+export type RotatingQrToken = {
+  value: string;
+  validFrom: number;
+  expiresAt: number;
+  /** When the next code replaces this one; it stays scannable until `expiresAt`. */
+  nextRotationAt: number;
+};
+
+export const ROTATING_QR_DEFAULT_STEP_SECONDS = 30;
+const ROTATING_QR_MIN_STEP_SECONDS = 10;
+const ROTATING_QR_MAX_STEP_SECONDS = 300;
+
+const toAsciiBytes = (value: string) => Uint8Array.from(value, (character) => character.charCodeAt(0));
+
+/**
+ * The v3 code for the time step containing `nowMs`. It is valid for two steps
+ * so a code that rotates mid-scan still works; the server accepts the current
+ * and the previous step only.
+ */
+export const createRotatingQrToken = (object: QrDisplayObject, nowMs: number): RotatingQrToken => {
+  const secret = decodeBase64UrlBytes(object.secret);
+  if (!secret?.length) {
+    throw new Error('Rotating QR secret is invalid.');
+  }
+  const stepMs = object.stepSeconds * 1000;
+  const validFrom = Math.floor(nowMs / stepMs) * stepMs;
+  const expiresAt = validFrom + stepMs * 2;
+  const payload = JSON.stringify({
+    v: 3,
+    kid: object.kid,
+    objectId: object.objectId,
+    nbf: validFrom / 1000,
+    exp: expiresAt / 1000,
+  });
+  const encodedPayload = encodeBase64UrlBytes(toAsciiBytes(payload));
+  const signature = hmacSha512(secret, toAsciiBytes(encodedPayload)).subarray(0, ROTATING_QR_SIGNATURE_LENGTH);
+  return {
+    value: `SHIFTOR_QR_CLOCK_IN:${encodedPayload}.${encodeBase64UrlBytes(signature)}`,
+    validFrom,
+    expiresAt,
+    nextRotationAt: validFrom + stepMs,
+  };
+};
+
+const parseQrDisplayObject = (value: unknown): QrDisplayObject | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.objectId !== 'string' || !record.objectId) return null;
+  if (typeof record.secret !== 'string' || !decodeBase64UrlBytes(record.secret)?.length) return null;
+  const stepSeconds =
+    typeof record.stepSeconds === 'number' && Number.isFinite(record.stepSeconds)
+      ? Math.min(ROTATING_QR_MAX_STEP_SECONDS, Math.max(ROTATING_QR_MIN_STEP_SECONDS, Math.round(record.stepSeconds)))
+      : ROTATING_QR_DEFAULT_STEP_SECONDS;
+  return {
+    objectId: record.objectId,
+    title: typeof record.title === 'string' && record.title.trim() ? record.title.trim() : record.objectId,
+    kid: typeof record.kid === 'string' && record.kid ? record.kid : 'default',
+    secret: record.secret,
+    stepSeconds,
+  };
+};
+
+export const parseQrDisplayObjects = (value: unknown): QrDisplayObjects => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('QR display objects returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status !== 'ok' || !Array.isArray(record.objects)) {
+    throw new Error('QR display objects returned an unknown status.');
+  }
+  return {
+    objects: record.objects
+      .flatMap((object) => parseQrDisplayObject(object) ?? [])
+      .sort((a, b) => a.title.localeCompare(b.title)),
+    serverTime:
+      typeof record.serverTime === 'string' && Number.isFinite(Date.parse(record.serverTime))
+        ? record.serverTime
+        : undefined,
+  };
+};
@@ -0,0 +1,22 @@
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import { type QrDisplayObjects, parseQrDisplayObjects } from './rotatingQr';
+
+const QR_DISPLAY_UNAVAILABLE_MESSAGE = 'Rotating QR codes are not available yet.';
+
+/** Sites the signed-in supervisor may show a rotating clock-in code for. */
+export const fetchQrDisplayObjects = async (): Promise<QrDisplayObjects> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_qr_display_objects');
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(QR_DISPLAY_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseQrDisplayObjects(data);
+};
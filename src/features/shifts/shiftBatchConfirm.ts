@@ -0,0 +1,280 @@
+import {
+  type ShiftConfirmationStatus,
+  isShiftAwaitingResponse,
+  normalizeShiftConfirmationStatus,
+} from '../../lib/shiftConfirmationStatus';
+import type { Shift } from './shiftMapping';
+import { isNetworkError } from './shiftMutationQueue';
+
+export type ShiftConfirmItemStatus =
+  | 'confirmed'
+  | 'already_confirmed'
+  | 'not_found'
+  | 'not_published'
+  | 'failed';
+
+export type ShiftConfirmItemResult = {
+  assignmentId: string;
+  status: ShiftConfirmItemStatus;
+  confirmationStatus?: string;
+  confirmedAt?: string;
+  /** Why a `failed` item failed; absent for the other statuses. */
+  error?: string;
+  /** Whether retrying the same item may succeed. */
+  transient?: boolean;
+  /** Whether the request never reached the server, so the item can wait for a connection. */
+  offline?: boolean;
+};
+
+export type ShiftBatchConfirmExecutor = (assignmentIds: string[]) => Promise<ShiftConfirmItemResult[]>;
+
+export type ShiftBatchConfirmReport = {
+  /** One entry per requested assignment, in request order. */
+  results: ShiftConfirmItemResult[];
+  confirmedIds: string[];
+  failed: ShiftConfirmItemResult[];
+  attempts: number;
+};
+
+export type ShiftBatchConfirmOptions = {
+  maxAttempts?: number;
+  wait?: (attempt: number) => Promise<void>;
+};
+
+type ShiftConfirmationSnapshot = Pick<
+  Shift,
+  'confirmationStatus' | 'confirmedAt' | 'declineReason' | 'declineNote' | 'declinedAt'
+>;
+
+export const MAX_SHIFT_BATCH_CONFIRM_ATTEMPTS = 3;
+export const SHIFT_BATCH_CONFIRM_LIMIT = 200;
+
+const ITEM_STATUSES: ShiftConfirmItemStatus[] = [
+  'confirmed',
+  'already_confirmed',
+  'not_found',
+  'not_published',
+  'failed',
+];
+
+/** Serialization failures, deadlocks and statement timeouts are worth another try. */
+const TRANSIENT_POSTGRES_CODES = new Set(['40001', '40P01', '57014']);
+
+const defaultWait = (attempt: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, 500 * 2 ** (attempt - 1)));
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const describeError = (error: unknown) =>
+  error instanceof Error
+    ? error.message
+    : typeof error === 'object' && error !== null && 'message' in error
+    ? String((error as { message?: unknown }).message)
+    : String(error);
+
+export const isShiftConfirmItemSuccess = (result: Pick<ShiftConfirmItemResult, 'status'>) =>
+  result.status === 'confirmed' || result.status === 'already_confirmed';
+
+export const isTransientShiftConfirmError = (error: unknown) => {
+  if (isNetworkError(error)) return true;
+  if (!error || typeof error !== 'object') return false;
+  const { code, status } = error as { code?: unknown; status?: unknown };
+  if (typeof code === 'string' && TRANSIENT_POSTGRES_CODES.has(code)) return true;
+  return typeof status === 'number' && status >= 500;
+};
+
+/**
+ * Reads the `confirm_shift_assignments` RPC response. Assignments the server did
+ * not report on count as failed so nothing is silently treated as confirmed.
+ */
+export const parseShiftBatchConfirmResult = (
+  assignmentIds: string[],
+  value: unknown
+): ShiftConfirmItemResult[] => {
+  const rows =
+    value && typeof value === 'object' && Array.isArray((value as { results?: unknown }).results)
+      ? ((value as { results: unknown[] }).results)
+      : null;
+  if (!rows) {
+    throw new Error('Shift batch confirmation returned an invalid response.');
+  }
+  const resultsById = new Map<string, ShiftConfirmItemResult>();
+  rows.forEach((row) => {
+    if (!row || typeof row !== 'object') return;
+    const record = row as Record<string, unknown>;
+    const assignmentId = readString(record.assignmentId);
+    const status = record.status as ShiftConfirmItemStatus;
+    if (!assignmentId || !ITEM_STATUSES.includes(status)) return;
+    resultsById.set(assignmentId, {
+      assignmentId,
+      status,
+      confirmationStatus: readString(record.confirmationStatus),
+      confirmedAt: readString(record.confirmedAt),
+      error: readString(record.error),
+    });
+  });
+  return assignmentIds.map(
+    (assignmentId) =>
+      resultsById.get(assignmentId) ?? {
+        assignmentId,
+        status: 'failed',
+        error: 'No result returned for assignment.',
+        transient: true,
+      }
+  );
+};
+
+/**
+ * Sorts current assignment rows for the batched-update fallback: only published
+ * or tentative assignments are updated, the rest get their final result here.
+ */
+export const classifyShiftConfirmRows = (
+  assignmentIds: string[],
+  rows: { id?: unknown; confirmationStatus?: unknown; confirmedAt?: unknown }[]
+) => {
+  const rowsById = new Map(rows.flatMap((row) => (typeof row.id === 'string' ? [[row.id, row] as const] : [])));
+  const eligibleIds: string[] = [];
+  const results: ShiftConfirmItemResult[] = [];
+  assignmentIds.forEach((assignmentId) => {
+    const row = rowsById.get(assignmentId);
+    if (!row) {
+      results.push({ assignmentId, status: 'not_found' });
+      return;
+    }
+    const confirmationStatus = readString(row.confirmationStatus);
+    const normalized = normalizeShiftConfirmationStatus(confirmationStatus);
+    if (normalized === 'confirmed' || normalized === 'confirmed by employee') {
+      results.push({
+        assignmentId,
+        status: 'already_confirmed',
+        confirmationStatus,
+        confirmedAt: readString(row.confirmedAt),
+      });
+    } else if (isShiftAwaitingResponse(normalized)) {
+      eligibleIds.push(assignmentId);
+    } else {
+      results.push({ assignmentId, status: 'not_published', confirmationStatus });
+    }
+  });
+  return { eligibleIds, results };
+};
+
+/**
+ * Confirms assignments in batches and retries only the items that failed for
+ * transient reasons. Permanent failures are reported, never retried.
+ */
+export const confirmShiftAssignmentsWithRetry = async (
+  assignmentIds: string[],
+  executor: ShiftBatchConfirmExecutor,
+  { maxAttempts = MAX_SHIFT_BATCH_CONFIRM_ATTEMPTS, wait = defaultWait }: ShiftBatchConfirmOptions = {}
+): Promise<ShiftBatchConfirmReport> => {
+  const requestedIds = Array.from(new Set(assignmentIds));
+  const resultsById = new Map<string, ShiftConfirmItemResult>();
+  let pendingIds = requestedIds;
+  let attempts = 0;
+
+  while (pendingIds.length && attempts < maxAttempts) {
+    attempts += 1;
+    let batchResults: ShiftConfirmItemResult[] = [];
+    try {
+      for (let index = 0; index < pendingIds.length; index += SHIFT_BATCH_CONFIRM_LIMIT) {
+        batchResults.push(...(await executor(pendingIds.slice(index, index + SHIFT_BATCH_CONFIRM_LIMIT))));
+      }
+    } catch (error) {
+      const transient = isTransientShiftConfirmError(error);
+      const answeredIds = new Set(batchResults.map((result) => result.assignmentId));
+      batchResults = [
+        ...batchResults,
+        ...pendingIds
+          .filter((assignmentId) => !answeredIds.has(assignmentId))
+          .map((assignmentId) => ({
+            assignmentId,
+            status: 'failed' as const,
+            error: describeError(error),
+            transient,
+            offline: isNetworkError(error),
+          })),
+      ];
+    }
+    batchResults.forEach((result) => resultsById.set(result.assignmentId, result));
+    pendingIds = pendingIds.filter((assignmentId) => {
+      const result = resultsById.get(assignmentId);
+      return !result || (result.status === 'failed' && result.transient);
+    });
+    if (pendingIds.length && attempts < maxAttempts) {
+      await wait(attempts);
+    }
+  }
+
+  const results = requestedIds.map(
+    (assignmentId) =>
+      resultsById.get(assignmentId) ?? { assignmentId, status: 'failed' as const, transient: true }
+  );
+  return {
+    results,
+    confirmedIds: results.filter(isShiftConfirmItemSuccess).map((result) => result.assignmentId),
+    failed: results.filter((result) => !isShiftConfirmItemSuccess(result)),
+    attempts,
+  };
+};
+
+export const snapshotShiftConfirmations = (shifts: Shift[], assignmentIds: string[]) => {
+  const requested = new Set(assignmentIds);
+  const snapshot = new Map<string, ShiftConfirmationSnapshot>();
+  shifts.forEach((shift) => {
+    if (!shift.assignmentId || !requested.has(shift.assignmentId) || snapshot.has(shift.assignmentId)) return;
+    snapshot.set(shift.assignmentId, {
+      confirmationStatus: shift.confirmationStatus,
+      confirmedAt: shift.confirmedAt,
+      declineReason: shift.declineReason,
+      declineNote: shift.declineNote,
+      declinedAt: shift.declinedAt,
+    });
+  });
+  return snapshot;
+};
+
+/** Marks the assignments confirmed before the server answers. */
+export const applyOptimisticShiftConfirmations = (
+  shifts: Shift[],
+  assignmentIds: string[],
+  confirmedAt: string
+): Shift[] => {
+  const requested = new Set(assignmentIds);
+  return shifts.map((shift) =>
+    shift.assignmentId && requested.has(shift.assignmentId)
+      ? {
+          ...shift,
+          confirmationStatus: 'confirmed by employee',
+          confirmedAt,
+          declineReason: undefined,
+          declineNote: undefined,
+          declinedAt: undefined,
+        }
+      : shift
+  );
+};
+
+/**
+ * Settles an optimistic update: confirmed items take the server's timestamp,
+ * failed ones go back to what they were before the optimistic write.
+ */
+export const reconcileShiftConfirmations = (
+  shifts: Shift[],
+  report: Pick<ShiftBatchConfirmReport, 'results'>,
+  snapshot: Map<string, ShiftConfirmationSnapshot>
+): Shift[] => {
+  const resultsById = new Map(report.results.map((result) => [result.assignmentId, result]));
+  return shifts.map((shift) => {
+    const result = shift.assignmentId ? resultsById.get(shift.assignmentId) : undefined;
+    if (!result || !shift.assignmentId) return shift;
+    if (isShiftConfirmItemSuccess(result)) {
+      const confirmationStatus: ShiftConfirmationStatus = normalizeShiftConfirmationStatus(
+        result.confirmationStatus ?? 'confirmed by employee'
+      );
+      return { ...shift, confirmationStatus, confirmedAt: result.confirmedAt ?? shift.confirmedAt };
+    }
+    const previous = snapshot.get(shift.assignmentId);
+    return previous ? { ...shift, ...previous } : shift;
+  });
+};
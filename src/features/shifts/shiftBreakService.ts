@@ -0,0 +1,51 @@
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import {
+  type RecordedShiftBreak,
+  type ShiftBreakResult,
+  type ShiftBreakSubmission,
+  parseShiftBreakResult,
+  parseShiftBreaks,
+} from './shiftBreaks';
+
+const SHIFT_BREAKS_UNAVAILABLE_MESSAGE = 'Break tracking is not available yet.';
+
+export const recordShiftBreak = async (submission: ShiftBreakSubmission): Promise<ShiftBreakResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('record_shift_break', {
+    client_event_id: submission.clientEventId,
+    target_shift_id: submission.shiftId,
+    break_action: submission.action,
+    occurred_at: submission.occurredAt,
+    event_source: submission.source,
+  });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(SHIFT_BREAKS_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseShiftBreakResult(data);
+};
+
+/** The caller's breaks in shifts starting in the month, plus any break still running. */
+export const fetchShiftBreaks = async (monthStart: string): Promise<RecordedShiftBreak[]> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_shift_breaks', { month_start: monthStart });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(SHIFT_BREAKS_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseShiftBreaks(data);
+};
@@ -0,0 +1,149 @@
+import type { MonthlyHoursShiftTiming } from '../account/monthlyHoursParsing';
+import { readString } from '../../shared/utils/parseUtils';
+
+export type ShiftBreakAction = 'break_start' | 'break_end';
+
+/** Whether the break was recorded by scanning the site code or with the button. */
+export type ShiftBreakSource = 'scan' | 'button';
+
+/** A break taken while clocked in; planned breaks are `ShiftBreak` in shiftExtras. */
+export type RecordedShiftBreak = {
+  id: string;
+  shiftId: string;
+  startedAt: string;
+  /** Null while the break is running. */
+  endedAt: string | null;
+  startSource: ShiftBreakSource;
+  endSource?: ShiftBreakSource;
+};
+
+export type ShiftBreakSubmission = {
+  clientEventId: string;
+  shiftId: string;
+  action: ShiftBreakAction;
+  occurredAt: string;
+  source: ShiftBreakSource;
+};
+
+export type ShiftBreakResult = {
+  ok: boolean;
+  status:
+    | 'started'
+    | 'ended'
+    | 'already_recorded'
+    | 'already_on_break'
+    | 'not_on_break'
+    | 'not_assigned'
+    | 'not_found'
+    | 'outside_shift'
+    | 'invalid';
+  shiftBreak?: RecordedShiftBreak;
+};
+
+const parseSource = (value: unknown): ShiftBreakSource | undefined =>
+  value === 'scan' || value === 'button' ? value : undefined;
+
+export const createShiftBreakSubmission = (
+  input: Pick<ShiftBreakSubmission, 'shiftId' | 'action' | 'source'>,
+  now = new Date()
+): ShiftBreakSubmission => ({
+  clientEventId: `break-${now.getTime()}-${Math.random().toString(36).slice(2, 10)}`,
+  shiftId: input.shiftId,
+  action: input.action,
+  occurredAt: now.toISOString(),
+  source: input.source,
+});
+
+export const parseShiftBreak = (value: unknown): RecordedShiftBreak | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const id = readString(record.id);
+  const shiftId = readString(record.shiftId);
+  const startedAt = readString(record.startedAt);
+  if (!id || !shiftId || !startedAt || Number.isNaN(Date.parse(startedAt))) return null;
+  const endedAt = readString(record.endedAt);
+  return {
+    id,
+    shiftId,
+    startedAt,
+    endedAt: endedAt && !Number.isNaN(Date.parse(endedAt)) ? endedAt : null,
+    startSource: parseSource(record.startSource) ?? 'button',
+    endSource: parseSource(record.endSource),
+  };
+};
+
+const resultStatuses: ShiftBreakResult['status'][] = [
+  'started',
+  'ended',
+  'already_recorded',
+  'already_on_break',
+  'not_on_break',
+  'not_assigned',
+  'not_found',
+  'outside_shift',
+  'invalid',
+];
+
+export const parseShiftBreakResult = (value: unknown): ShiftBreakResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Shift break returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  const status = resultStatuses.find((candidate) => candidate === record.status);
+  if (!status) {
+    throw new Error('Shift break returned an unknown status.');
+  }
+  return { ok: record.ok === true, status, shiftBreak: parseShiftBreak(record.break) ?? undefined };
+};
+
+export const parseShiftBreaks = (value: unknown): RecordedShiftBreak[] => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Shift breaks returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status !== 'ok' || !Array.isArray(record.breaks)) {
+    throw new Error('Shift breaks returned an unknown status.');
+  }
+  return record.breaks
+    .flatMap((entry) => parseShiftBreak(entry) ?? [])
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+};
+
+/** The running break, optionally only when it belongs to `shiftId`. */
+export const getActiveShiftBreak = (breaks: RecordedShiftBreak[], shiftId?: string | null) =>
+  [...breaks]
+    .reverse()
+    .find((entry) => entry.endedAt === null && (shiftId === undefined || entry.shiftId === shiftId)) ?? null;
+
+/** Total break time of a shift, counting a running break up to `nowMs`. */
+export const getShiftBreakMs = (breaks: RecordedShiftBreak[], shiftId: string, nowMs = Date.now()) =>
+  breaks
+    .filter((entry) => entry.shiftId === shiftId)
+    .reduce((total, entry) => {
+      const end = entry.endedAt ? Date.parse(entry.endedAt) : nowMs;
+      return total + Math.max(0, end - Date.parse(entry.startedAt));
+    }, 0);
+
+/**
+ * Takes recorded breaks off the worked time of shifts the API reports without
+ * break data. Running breaks are left out until they end. `deductedMinutes`
+ * is what the month total has to lose to match.
+ */
+export const applyShiftBreaks = (
+  timings: MonthlyHoursShiftTiming[],
+  breaks: RecordedShiftBreak[]
+): { timings: MonthlyHoursShiftTiming[]; deductedMinutes: number } => {
+  const endedBreaks = breaks.filter((entry) => entry.endedAt !== null);
+  if (!endedBreaks.length) return { timings, deductedMinutes: 0 };
+
+  let deductedMinutes = 0;
+  const adjusted = timings.map((timing) => {
+    if (timing.breakMinutes !== undefined) return timing;
+    const breakMinutes = Math.round(getShiftBreakMs(endedBreaks, timing.shiftId ?? timing.id) / 60000);
+    if (breakMinutes <= 0) return timing;
+    const workedMinutes = Math.max(0, timing.workedMinutes - breakMinutes);
+    deductedMinutes += timing.workedMinutes - workedMinutes;
+    return { ...timing, workedMinutes, breakMinutes };
+  });
+  return { timings: adjusted, deductedMinutes };
+};
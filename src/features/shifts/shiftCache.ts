@@ -4,11 +4,23 @@ import type { Shift } from './shiftMapping';
 export type CachedShiftFeed = {
   shifts: Shift[];
   cachedAt: string;
+  highWaterMark?: string | null;
+  fullSyncedAt?: string | null;
+  windowKey?: string | null;
+};
+
+export type ShiftFeedSyncMarks = {
+  highWaterMark: string | null;
+  fullSyncedAt: string | null;
+  windowKey?: string | null;
 };
 
 const SHIFT_CACHE_PREFIX = 'shiftor:shift-feed';
+const SHIFT_DETAIL_CACHE_PREFIX = 'shiftor:shift-detail';
 
 const cacheKey = (employeeId: string) => `${SHIFT_CACHE_PREFIX}:${employeeId}`;
+const detailCacheKey = (employeeId: string, shiftId: string) =>
+  `${SHIFT_DETAIL_CACHE_PREFIX}:${employeeId}:${shiftId}`;
 
 const isShift = (value: unknown): value is Shift => {
   if (!value || typeof value !== 'object') return false;
@@ -38,6 +50,9 @@ export const parseCachedShiftFeed = (value: string | null): CachedShiftFeed | nu
     return {
       cachedAt: parsed.cachedAt,
       shifts: parsed.shifts,
+      highWaterMark: typeof parsed.highWaterMark === 'string' ? parsed.highWaterMark : null,
+      fullSyncedAt: typeof parsed.fullSyncedAt === 'string' ? parsed.fullSyncedAt : null,
+      windowKey: typeof parsed.windowKey === 'string' ? parsed.windowKey : null,
     };
   } catch {
     return null;
@@ -49,11 +64,44 @@ export const loadCachedShiftFeed = async (employeeId?: string | null): Promise<C
   return parseCachedShiftFeed(await AsyncStorage.getItem(cacheKey(employeeId)));
 };
 
-export const saveCachedShiftFeed = async (employeeId: string, shifts: Shift[]) => {
+export const saveCachedShiftFeed = async (
+  employeeId: string,
+  shifts: Shift[],
+  marks?: ShiftFeedSyncMarks
+) => {
   const payload: CachedShiftFeed = {
     shifts,
     cachedAt: new Date().toISOString(),
+    highWaterMark: marks?.highWaterMark ?? null,
+    fullSyncedAt: marks?.fullSyncedAt ?? null,
+    windowKey: marks?.windowKey ?? null,
   };
   await AsyncStorage.setItem(cacheKey(employeeId), JSON.stringify(payload));
   return payload;
 };
+
+export const parseCachedShiftDetail = (value: string | null): Shift | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return isShift(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadCachedShiftDetail = async (
+  employeeId: string | null | undefined,
+  shiftId: string
+): Promise<Shift | null> => {
+  if (!employeeId) return null;
+  const detail = parseCachedShiftDetail(await AsyncStorage.getItem(detailCacheKey(employeeId, shiftId)));
+  if (detail) return detail;
+  const feed = await loadCachedShiftFeed(employeeId);
+  return feed?.shifts.find((shift) => shift.id === shiftId) ?? null;
+};
+
+export const saveCachedShiftDetail = async (employeeId: string, shift: Shift) => {
+  await AsyncStorage.setItem(detailCacheKey(employeeId, shift.id), JSON.stringify(shift));
+  return shift;
+};
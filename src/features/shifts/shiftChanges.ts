@@ -0,0 +1,202 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { type Shift, mapShiftRecord } from './shiftMapping';
+
+export type ShiftChangeField = 'start' | 'end' | 'site' | 'location' | 'role' | 'dressCode' | 'description';
+
+export type ShiftFieldChange = {
+  field: ShiftChangeField;
+  /** Absent when the field had no value, and on the published entry. */
+  before?: string;
+  after?: string;
+};
+
+export type ShiftChangeEntry = {
+  id: string;
+  shiftId: string;
+  changedAt: string;
+  /** 'published' lists the values the shift was first published with. */
+  kind: 'published' | 'updated';
+  changes: ShiftFieldChange[];
+  /** 'device' entries were recorded from realtime updates when no server log was available. */
+  source: 'server' | 'device';
+};
+
+type TrackedField = {
+  field: ShiftChangeField;
+  read: (shift: Shift) => string | undefined;
+};
+
+const SHIFT_CHANGE_LOG_PREFIX = 'shiftor:shift-change-log';
+const MAX_LOCAL_SHIFT_CHANGES = 200;
+/** A device entry matching a server entry within this window describes the same edit. */
+const DUPLICATE_CHANGE_WINDOW_MS = 10 * 60 * 1000;
+
+const logKey = (employeeId: string) => `${SHIFT_CHANGE_LOG_PREFIX}:${employeeId}`;
+
+const readInstant = (value: string) => {
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+};
+
+const readText = (value?: string) => value?.trim() || undefined;
+
+const TRACKED_FIELDS: TrackedField[] = [
+  { field: 'start', read: (shift) => readInstant(shift.start) },
+  { field: 'end', read: (shift) => readInstant(shift.end) },
+  { field: 'site', read: (shift) => readText(shift.objectName) },
+  { field: 'location', read: (shift) => readText(shift.objectAddress ?? shift.location) },
+  { field: 'role', read: (shift) => readText(shift.role) },
+  { field: 'dressCode', read: (shift) => readText(shift.dressCode) },
+  { field: 'description', read: (shift) => readText(shift.description) },
+];
+
+/** Field-by-field differences between two states of a shift. */
+export const diffShiftSnapshots = (before: Shift, after: Shift): ShiftFieldChange[] =>
+  TRACKED_FIELDS.flatMap(({ field, read }) => {
+    const previous = read(before);
+    const next = read(after);
+    return previous === next ? [] : [{ field, before: previous, after: next }];
+  });
+
+/** Tracked values of a newly published shift. */
+export const describePublishedShift = (shift: Shift): ShiftFieldChange[] =>
+  TRACKED_FIELDS.flatMap(({ field, read }) => {
+    const value = read(shift);
+    return value ? [{ field, after: value }] : [];
+  });
+
+const readRecord = (value: unknown): Record<string, unknown> | undefined => {
+  if (typeof value === 'string') {
+    try {
+      return readRecord(JSON.parse(value));
+    } catch {
+      return undefined;
+    }
+  }
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+};
+
+/**
+ * Server log rows carry full shift snapshots ("before" is null for the insert)
+ * so they map through the same adapters as the feed. Rows that only touched
+ * untracked columns yield null.
+ */
+export const parseShiftChangeLogRow = (row: unknown): ShiftChangeEntry | null => {
+  const record = readRecord(row);
+  const after = readRecord(record?.after);
+  if (!record || !after || typeof record.id !== 'string' || typeof record.changedAt !== 'string') {
+    return null;
+  }
+  const afterShift = mapShiftRecord(after);
+  const shiftId = typeof record.shiftId === 'string' ? record.shiftId : afterShift.id;
+  const before = readRecord(record.before);
+  const changes = before
+    ? diffShiftSnapshots(mapShiftRecord(before), afterShift)
+    : describePublishedShift(afterShift);
+  if (!changes.length) return null;
+  return {
+    id: record.id,
+    shiftId,
+    changedAt: record.changedAt,
+    kind: before ? 'updated' : 'published',
+    changes,
+    source: 'server',
+  };
+};
+
+const changeSignature = (entry: ShiftChangeEntry) =>
+  entry.changes.map((change) => `${change.field}:${change.before ?? ''}>${change.after ?? ''}`).join('|');
+
+const isSameChange = (a: ShiftChangeEntry, b: ShiftChangeEntry) =>
+  a.shiftId === b.shiftId &&
+  changeSignature(a) === changeSignature(b) &&
+  Math.abs(new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime()) <= DUPLICATE_CHANGE_WINDOW_MS;
+
+/** Server and device entries newest first; device copies of server entries are dropped. */
+export const mergeShiftChangeEntries = (
+  serverEntries: ShiftChangeEntry[],
+  deviceEntries: ShiftChangeEntry[]
+): ShiftChangeEntry[] => {
+  const uniqueDeviceEntries = deviceEntries.filter(
+    (entry) => !serverEntries.some((serverEntry) => isSameChange(serverEntry, entry))
+  );
+  return [...serverEntries, ...uniqueDeviceEntries].sort((a, b) => b.changedAt.localeCompare(a.changedAt));
+};
+
+/**
+ * Values the shift was first published with, for every field that changed
+ * since: the published entry when known, otherwise the earliest "before".
+ */
+export const getOriginalShiftValues = (entries: ShiftChangeEntry[]): ShiftFieldChange[] => {
+  const oldestFirst = [...entries].sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+  const published = oldestFirst.find((entry) => entry.kind === 'published');
+  const updates = oldestFirst.filter((entry) => entry.kind === 'updated');
+  const originals = new Map<ShiftChangeField, string | undefined>();
+  updates.forEach((entry) => {
+    entry.changes.forEach((change) => {
+      if (originals.has(change.field)) return;
+      const publishedValue = published?.changes.find((item) => item.field === change.field);
+      originals.set(change.field, published ? publishedValue?.after : change.before);
+    });
+  });
+  return TRACKED_FIELDS.flatMap(({ field }) =>
+    originals.has(field) ? [{ field, before: originals.get(field) }] : []
+  );
+};
+
+const isShiftChangeEntry = (value: unknown): value is ShiftChangeEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<ShiftChangeEntry>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.shiftId === 'string' &&
+    typeof entry.changedAt === 'string' &&
+    (entry.kind === 'published' || entry.kind === 'updated') &&
+    Array.isArray(entry.changes)
+  );
+};
+
+export const parseLocalShiftChanges = (value: string | null): ShiftChangeEntry[] => {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter(isShiftChangeEntry).map((entry) => ({ ...entry, source: 'device' as const }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadLocalShiftChanges = async (employeeId: string, shiftId?: string) => {
+  const entries = parseLocalShiftChanges(await AsyncStorage.getItem(logKey(employeeId)));
+  return shiftId ? entries.filter((entry) => entry.shiftId === shiftId) : entries;
+};
+
+/** Records a realtime update on this device; returns null when no tracked field changed. */
+export const recordLocalShiftChange = async (
+  employeeId: string,
+  before: Shift,
+  after: Shift,
+  changedAt = new Date().toISOString()
+): Promise<ShiftChangeEntry | null> => {
+  const changes = diffShiftSnapshots(before, after);
+  if (!changes.length) return null;
+  const entry: ShiftChangeEntry = {
+    id: `${after.id}:${changedAt}`,
+    shiftId: after.id,
+    changedAt,
+    kind: 'updated',
+    changes,
+    source: 'device',
+  };
+  const entries = await loadLocalShiftChanges(employeeId);
+  if (entries.some((existing) => isSameChange(existing, entry))) return null;
+  const next = [entry, ...entries]
+    .sort((a, b) => b.changedAt.localeCompare(a.changedAt))
+    .slice(0, MAX_LOCAL_SHIFT_CHANGES);
+  await AsyncStorage.setItem(logKey(employeeId), JSON.stringify(next));
+  return entry;
+};
@@ -0,0 +1,265 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readString } from '../../shared/utils/parseUtils';
+
+export type ShiftChecklistTask = {
+  id: string;
+  title: string;
+  details?: string;
+  isRequired: boolean;
+  /** Only counts as done with photo proof. */
+  requiresPhoto: boolean;
+  position: number;
+};
+
+export type ShiftTaskCompletion = {
+  taskId: string;
+  completedAt: string;
+  /** Photo on the device, kept until it is uploaded. */
+  photoUri?: string;
+  /** Storage path once the photo is uploaded. */
+  photoPath?: string;
+  note?: string;
+};
+
+export type ShiftChecklistResult = {
+  status: 'ok' | 'not_assigned';
+  tasks: ShiftChecklistTask[];
+  completions: ShiftTaskCompletion[];
+  submittedAt?: string;
+};
+
+export type SubmitShiftChecklistResult = {
+  ok: boolean;
+  status: 'submitted' | 'not_assigned' | 'not_found' | 'invalid';
+  /** Required task ids the server does not count as done. */
+  missingRequired: string[];
+  submittedAt?: string;
+};
+
+/** Device copy of a shift checklist: the tasks as last loaded and what the employee ticked. */
+export type LocalShiftChecklist = {
+  shiftId: string;
+  tasks: ShiftChecklistTask[];
+  completions: ShiftTaskCompletion[];
+  updatedAt: string;
+  /** Set at clock-out; cleared once the server accepted the submission. */
+  pendingSubmitAt?: string;
+  submittedAt?: string;
+};
+
+export type ShiftChecklistProgress = {
+  done: number;
+  total: number;
+  requiredDone: number;
+  requiredTotal: number;
+  missingRequired: ShiftChecklistTask[];
+};
+
+const SHIFT_CHECKLIST_PREFIX = 'shiftor:shift-checklists';
+const SUBMITTED_CHECKLIST_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+const checklistKey = (employeeId: string) => `${SHIFT_CHECKLIST_PREFIX}:${employeeId}`;
+
+export const parseShiftChecklistTask = (value: unknown): ShiftChecklistTask | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const id = readString(record.id);
+  const title = readString(record.title);
+  if (!id || !title) return null;
+  return {
+    id,
+    title,
+    details: readString(record.details),
+    isRequired: record.isRequired !== false,
+    requiresPhoto: record.requiresPhoto === true,
+    position: typeof record.position === 'number' && Number.isFinite(record.position) ? record.position : 0,
+  };
+};
+
+export const parseShiftTaskCompletion = (value: unknown): ShiftTaskCompletion | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const taskId = readString(record.taskId);
+  const completedAt = readString(record.completedAt);
+  if (!taskId || !completedAt) return null;
+  return {
+    taskId,
+    completedAt,
+    photoUri: readString(record.photoUri),
+    photoPath: readString(record.photoPath),
+    note: readString(record.note),
+  };
+};
+
+const sortTasks = (tasks: ShiftChecklistTask[]) =>
+  [...tasks].sort((a, b) => a.position - b.position || a.title.localeCompare(b.title));
+
+export const parseShiftChecklistResult = (value: unknown): ShiftChecklistResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Shift checklist returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status === 'not_assigned') {
+    return { status: 'not_assigned', tasks: [], completions: [] };
+  }
+  if (record.status !== 'ok' || !Array.isArray(record.tasks)) {
+    throw new Error('Shift checklist returned an unknown status.');
+  }
+  return {
+    status: 'ok',
+    tasks: sortTasks(record.tasks.flatMap((task) => parseShiftChecklistTask(task) ?? [])),
+    completions: Array.isArray(record.completions)
+      ? record.completions.flatMap((completion) => parseShiftTaskCompletion(completion) ?? [])
+      : [],
+    submittedAt: readString(record.submittedAt),
+  };
+};
+
+const submitStatuses: SubmitShiftChecklistResult['status'][] = ['submitted', 'not_assigned', 'not_found', 'invalid'];
+
+export const parseSubmitShiftChecklistResult = (value: unknown): SubmitShiftChecklistResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Checklist submission returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  const status = submitStatuses.find((candidate) => candidate === record.status);
+  if (!status) {
+    throw new Error('Checklist submission returned an unknown status.');
+  }
+  return {
+    ok: record.ok === true,
+    status,
+    missingRequired: Array.isArray(record.missingRequired)
+      ? record.missingRequired.flatMap((taskId) => readString(taskId) ?? [])
+      : [],
+    submittedAt: readString(record.submittedAt),
+  };
+};
+
+export const isShiftTaskDone = (task: ShiftChecklistTask, completion?: ShiftTaskCompletion) =>
+  Boolean(completion && (!task.requiresPhoto || completion.photoUri || completion.photoPath));
+
+export const getShiftChecklistProgress = (
+  tasks: ShiftChecklistTask[],
+  completions: ShiftTaskCompletion[]
+): ShiftChecklistProgress => {
+  const completionByTask = new Map(completions.map((completion) => [completion.taskId, completion]));
+  const doneTasks = tasks.filter((task) => isShiftTaskDone(task, completionByTask.get(task.id)));
+  const requiredTasks = tasks.filter((task) => task.isRequired);
+  return {
+    done: doneTasks.length,
+    total: tasks.length,
+    requiredDone: doneTasks.filter((task) => task.isRequired).length,
+    requiredTotal: requiredTasks.length,
+    missingRequired: requiredTasks.filter((task) => !doneTasks.includes(task)),
+  };
+};
+
+/** Sets or clears the completion of one task. */
+export const setShiftTaskCompletion = (
+  checklist: LocalShiftChecklist,
+  taskId: string,
+  completion: Omit<ShiftTaskCompletion, 'taskId'> | null,
+  now = new Date()
+): LocalShiftChecklist => {
+  const others = checklist.completions.filter((entry) => entry.taskId !== taskId);
+  return {
+    ...checklist,
+    completions: completion ? [...others, { ...completion, taskId }] : others,
+    updatedAt: now.toISOString(),
+    submittedAt: undefined,
+  };
+};
+
+/**
+ * Combines the server checklist with the device copy. Ticks made on the device
+ * after the last submission win; otherwise the submitted completions are shown.
+ */
+export const mergeShiftChecklist = (
+  shiftId: string,
+  server: ShiftChecklistResult,
+  local?: LocalShiftChecklist | null,
+  now = new Date()
+): LocalShiftChecklist => {
+  const taskIds = new Set(server.tasks.map((task) => task.id));
+  const localIsNewer =
+    local &&
+    (local.pendingSubmitAt || !local.submittedAt) &&
+    (!server.submittedAt || Date.parse(local.updatedAt) > Date.parse(server.submittedAt));
+  // Submitted completions only carry the storage path; keep the device photo for previews.
+  const localPhotoUris = new Map(
+    (local?.completions ?? []).flatMap((completion) =>
+      completion.photoUri ? [[completion.taskId, completion.photoUri] as const] : []
+    )
+  );
+  const completions = localIsNewer
+    ? local.completions
+    : server.completions.map((completion) => ({
+        ...completion,
+        photoUri: completion.photoUri ?? localPhotoUris.get(completion.taskId),
+      }));
+  return {
+    shiftId,
+    tasks: server.tasks,
+    completions: completions.filter((completion) => taskIds.has(completion.taskId)),
+    updatedAt: localIsNewer ? local.updatedAt : local?.updatedAt ?? now.toISOString(),
+    pendingSubmitAt: localIsNewer ? local.pendingSubmitAt : undefined,
+    submittedAt: localIsNewer ? undefined : server.submittedAt,
+  };
+};
+
+/** Payload for submit_shift_checklist; local photo uris never leave the device. */
+export const buildShiftChecklistSubmission = (completions: ShiftTaskCompletion[]) =>
+  completions.map(({ taskId, completedAt, photoPath, note }) => ({ taskId, completedAt, photoPath, note }));
+
+const isLocalShiftChecklist = (value: unknown): value is LocalShiftChecklist => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<LocalShiftChecklist>;
+  return (
+    typeof entry.shiftId === 'string' &&
+    Array.isArray(entry.tasks) &&
+    Array.isArray(entry.completions) &&
+    typeof entry.updatedAt === 'string'
+  );
+};
+
+export const parseLocalShiftChecklists = (value: string | null): Record<string, LocalShiftChecklist> => {
+  if (!value) return {};
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.values(parsed as Record<string, unknown>)
+        .filter(isLocalShiftChecklist)
+        .map((checklist) => [checklist.shiftId, checklist])
+    );
+  } catch {
+    return {};
+  }
+};
+
+/** Checklists waiting for submission are kept until sent; all others for two weeks. */
+export const pruneLocalShiftChecklists = (
+  checklists: Record<string, LocalShiftChecklist>,
+  now = new Date()
+) =>
+  Object.fromEntries(
+    Object.entries(checklists).filter(
+      ([, checklist]) =>
+        Boolean(checklist.pendingSubmitAt) ||
+        now.getTime() - new Date(checklist.updatedAt).getTime() < SUBMITTED_CHECKLIST_RETENTION_MS
+    )
+  );
+
+export const loadLocalShiftChecklists = async (employeeId: string) =>
+  parseLocalShiftChecklists(await AsyncStorage.getItem(checklistKey(employeeId)));
+
+export const loadLocalShiftChecklist = async (employeeId: string, shiftId: string) =>
+  (await loadLocalShiftChecklists(employeeId))[shiftId] ?? null;
+
+export const saveLocalShiftChecklist = async (employeeId: string, checklist: LocalShiftChecklist) => {
+  const checklists = await loadLocalShiftChecklists(employeeId);
+  const next = pruneLocalShiftChecklists({ ...checklists, [checklist.shiftId]: checklist });
+  await AsyncStorage.setItem(checklistKey(employeeId), JSON.stringify(next));
+  return checklist;
+};
@@ -0,0 +1,148 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import {
+  type LocalShiftChecklist,
+  type ShiftChecklistResult,
+  type SubmitShiftChecklistResult,
+  buildShiftChecklistSubmission,
+  loadLocalShiftChecklist,
+  loadLocalShiftChecklists,
+  parseShiftChecklistResult,
+  parseSubmitShiftChecklistResult,
+  saveLocalShiftChecklist,
+} from './shiftChecklist';
+import { isNetworkError } from './shiftMutationQueue';
+
+const SHIFT_CHECKLIST_UNAVAILABLE_MESSAGE = 'Site checklists are not available yet.';
+
+/** Private bucket for checklist photo proof; see supabase/shift-checklists.sql. */
+export const SHIFT_EVIDENCE_BUCKET = 'shift-evidence';
+
+/** Tasks of the shift's object and the caller's last submitted completions. */
+export const fetchShiftChecklist = async (shiftId: string): Promise<ShiftChecklistResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_shift_checklist', { target_shift_id: shiftId });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(SHIFT_CHECKLIST_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseShiftChecklistResult(data);
+};
+
+export const uploadShiftTaskPhoto = async (
+  employeeId: string,
+  shiftId: string,
+  taskId: string,
+  uri: string
+): Promise<string> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+  const manipulated = await ImageManipulator.manipulateAsync(uri, [{ resize: { width: 1600 } }], {
+    compress: 0.8,
+    format: ImageManipulator.SaveFormat.JPEG,
+  });
+  const path = `shift-checklists/${shiftId}/${employeeId}/${taskId}-${Date.now()}.jpg`;
+  const response = await fetch(manipulated.uri);
+  const buffer = await response.arrayBuffer();
+  const { error } = await supabase.storage.from(SHIFT_EVIDENCE_BUCKET).upload(path, buffer, {
+    contentType: 'image/jpeg',
+  });
+  if (error) {
+    throw error;
+  }
+  return path;
+};
+
+export const submitShiftChecklist = async (
+  checklist: Pick<LocalShiftChecklist, 'shiftId' | 'completions'>
+): Promise<SubmitShiftChecklistResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('submit_shift_checklist', {
+    target_shift_id: checklist.shiftId,
+    task_completions: buildShiftChecklistSubmission(checklist.completions),
+  });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(SHIFT_CHECKLIST_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseSubmitShiftChecklistResult(data);
+};
+
+/**
+ * Uploads pending photos and submits the device checklist of a shift. Each
+ * uploaded path is saved right away so a retry never uploads a photo twice.
+ * Returns null when there is nothing on the device to submit.
+ */
+export const syncShiftChecklist = async (
+  employeeId: string,
+  shiftId: string
+): Promise<SubmitShiftChecklistResult | null> => {
+  const stored = await loadLocalShiftChecklist(employeeId, shiftId);
+  if (!stored || !stored.pendingSubmitAt) return null;
+
+  let checklist = stored;
+  for (const completion of stored.completions) {
+    if (!completion.photoUri || completion.photoPath) continue;
+    const photoPath = await uploadShiftTaskPhoto(employeeId, shiftId, completion.taskId, completion.photoUri);
+    checklist = await saveLocalShiftChecklist(employeeId, {
+      ...checklist,
+      completions: checklist.completions.map((entry) =>
+        entry.taskId === completion.taskId ? { ...entry, photoPath } : entry
+      ),
+    });
+  }
+
+  // Rejected submissions stay on the device but are not retried.
+  const result = await submitShiftChecklist(checklist);
+  await saveLocalShiftChecklist(employeeId, {
+    ...checklist,
+    pendingSubmitAt: undefined,
+    submittedAt: result.ok ? result.submittedAt ?? new Date().toISOString() : undefined,
+  });
+  return result;
+};
+
+/** Marks the device checklist for submission (at clock-out) and tries to send it. */
+export const queueShiftChecklistSubmission = async (employeeId: string, shiftId: string) => {
+  const checklist = await loadLocalShiftChecklist(employeeId, shiftId);
+  if (!checklist || !checklist.tasks.length) return null;
+  await saveLocalShiftChecklist(employeeId, { ...checklist, pendingSubmitAt: new Date().toISOString() });
+  try {
+    return await syncShiftChecklist(employeeId, shiftId);
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      console.warn('Failed to submit shift checklist', error);
+    }
+    return null;
+  }
+};
+
+/** Retries checklists that could not be submitted at clock-out, stopping while offline. */
+export const flushPendingShiftChecklists = async (employeeId: string) => {
+  const checklists = Object.values(await loadLocalShiftChecklists(employeeId)).filter(
+    (checklist) => checklist.pendingSubmitAt
+  );
+  for (const checklist of checklists) {
+    try {
+      await syncShiftChecklist(employeeId, checklist.shiftId);
+    } catch (error) {
+      if (isNetworkError(error)) return;
+      console.warn('Failed to submit shift checklist', error);
+    }
+  }
+};
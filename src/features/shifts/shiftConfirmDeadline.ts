@@ -0,0 +1,133 @@
+import {
+  isShiftAwaitingResponse,
+  normalizeShiftConfirmationStatus,
+} from '../../lib/shiftConfirmationStatus';
+import type { Shift } from './shiftMapping';
+
+export type ShiftConfirmUrgency = 'normal' | 'soon' | 'urgent' | 'overdue';
+
+export type ShiftConfirmDeadlineState = {
+  deadline: string;
+  remainingMs: number;
+  urgency: ShiftConfirmUrgency;
+};
+
+export type ShiftConfirmReminderLevel = 'gentle' | 'firm' | 'final';
+
+export type ShiftConfirmReminder = {
+  /** Stable per assignment, level and deadline so a moved deadline replaces its reminders. */
+  identifier: string;
+  assignmentId: string;
+  shiftId: string;
+  level: ShiftConfirmReminderLevel;
+  fireAt: string;
+  deadline: string;
+};
+
+type DeadlineShift = Pick<Shift, 'id' | 'assignmentId' | 'confirmationStatus' | 'confirmBy'>;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const SHIFT_CONFIRM_SOON_MS = 24 * HOUR_MS;
+export const SHIFT_CONFIRM_URGENT_MS = 6 * HOUR_MS;
+
+/** Reminders fire this long before the deadline, escalating in tone. */
+export const SHIFT_CONFIRM_REMINDER_OFFSETS: { level: ShiftConfirmReminderLevel; beforeMs: number }[] = [
+  { level: 'gentle', beforeMs: 24 * HOUR_MS },
+  { level: 'firm', beforeMs: 6 * HOUR_MS },
+  { level: 'final', beforeMs: HOUR_MS },
+];
+
+export const SHIFT_CONFIRM_REMINDER_PREFIX = 'shift-confirm-reminder';
+
+const getDeadlineTime = (shift: DeadlineShift) => {
+  if (!shift.confirmBy || !shift.assignmentId) return null;
+  if (!isShiftAwaitingResponse(normalizeShiftConfirmationStatus(shift.confirmationStatus))) return null;
+  const time = new Date(shift.confirmBy).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+export const getShiftConfirmUrgency = (remainingMs: number): ShiftConfirmUrgency => {
+  if (remainingMs <= 0) return 'overdue';
+  if (remainingMs <= SHIFT_CONFIRM_URGENT_MS) return 'urgent';
+  if (remainingMs <= SHIFT_CONFIRM_SOON_MS) return 'soon';
+  return 'normal';
+};
+
+/** Deadline state for shifts that still need an answer; null once answered or without a deadline. */
+export const getShiftConfirmDeadline = (
+  shift: DeadlineShift,
+  now = new Date()
+): ShiftConfirmDeadlineState | null => {
+  const deadlineTime = getDeadlineTime(shift);
+  if (deadlineTime === null) return null;
+  const remainingMs = deadlineTime - now.getTime();
+  return {
+    deadline: new Date(deadlineTime).toISOString(),
+    remainingMs,
+    urgency: getShiftConfirmUrgency(remainingMs),
+  };
+};
+
+/** The most pressing open deadline in a list, used for the My Shifts summary. */
+export const getEarliestShiftConfirmDeadline = (shifts: DeadlineShift[], now = new Date()) =>
+  shifts.reduce<ShiftConfirmDeadlineState | null>((earliest, shift) => {
+    const state = getShiftConfirmDeadline(shift, now);
+    if (!state) return earliest;
+    return !earliest || state.remainingMs < earliest.remainingMs ? state : earliest;
+  }, null);
+
+/** Compact countdown such as "2d 4h", "3h 20m" or "15m"; overdue deadlines count as zero. */
+export const formatShiftConfirmCountdown = (remainingMs: number) => {
+  const totalMinutes = Math.max(0, Math.ceil(remainingMs / MINUTE_MS));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days) return hours ? `${days}d ${hours}h` : `${days}d`;
+  if (hours) return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+};
+
+export const buildShiftConfirmReminderIdentifier = (
+  assignmentId: string,
+  level: ShiftConfirmReminderLevel,
+  deadline: string
+) => `${SHIFT_CONFIRM_REMINDER_PREFIX}:${assignmentId}:${level}:${new Date(deadline).getTime()}`;
+
+export const isShiftConfirmReminderIdentifier = (identifier: string, assignmentId?: string) =>
+  identifier.startsWith(
+    assignmentId ? `${SHIFT_CONFIRM_REMINDER_PREFIX}:${assignmentId}:` : `${SHIFT_CONFIRM_REMINDER_PREFIX}:`
+  );
+
+/** Future reminders for every unanswered shift with a deadline. */
+export const buildShiftConfirmReminders = (
+  shifts: DeadlineShift[],
+  now = new Date()
+): ShiftConfirmReminder[] =>
+  shifts.flatMap((shift) => {
+    const deadlineTime = getDeadlineTime(shift);
+    if (deadlineTime === null || deadlineTime <= now.getTime()) return [];
+    const assignmentId = shift.assignmentId as string;
+    const deadline = new Date(deadlineTime).toISOString();
+    return SHIFT_CONFIRM_REMINDER_OFFSETS.filter(({ beforeMs }) => deadlineTime - beforeMs > now.getTime()).map(
+      ({ level, beforeMs }) => ({
+        identifier: buildShiftConfirmReminderIdentifier(assignmentId, level, deadline),
+        assignmentId,
+        shiftId: shift.id,
+        level,
+        fireAt: new Date(deadlineTime - beforeMs).toISOString(),
+        deadline,
+      })
+    );
+  });
+
+/** Splits scheduled reminder identifiers into the ones to cancel and the reminders still to schedule. */
+export const diffShiftConfirmReminders = (scheduledIdentifiers: string[], desired: ShiftConfirmReminder[]) => {
+  const desiredIdentifiers = new Set(desired.map((reminder) => reminder.identifier));
+  const scheduled = new Set(scheduledIdentifiers.filter((identifier) => isShiftConfirmReminderIdentifier(identifier)));
+  return {
+    cancel: Array.from(scheduled).filter((identifier) => !desiredIdentifiers.has(identifier)),
+    schedule: desired.filter((reminder) => !scheduled.has(reminder.identifier)),
+  };
+};
@@ -0,0 +1,69 @@
+import {
+  buildShiftConfirmReminders,
+  diffShiftConfirmReminders,
+  isShiftConfirmReminderIdentifier,
+  type ShiftConfirmReminder,
+} from './shiftConfirmDeadline';
+import type { Shift } from './shiftMapping';
+
+export type ShiftConfirmReminderContent = {
+  title: string;
+  body: string;
+};
+
+const loadNotifications = async () => {
+  const Notifications = await import('expo-notifications');
+  const { status } = await Notifications.getPermissionsAsync();
+  return status === 'granted' ? Notifications : null;
+};
+
+const listScheduledReminderIdentifiers = async (
+  Notifications: NonNullable<Awaited<ReturnType<typeof loadNotifications>>>,
+  assignmentId?: string
+) => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  return scheduled
+    .map((request) => request.identifier)
+    .filter((identifier) => isShiftConfirmReminderIdentifier(identifier, assignmentId));
+};
+
+/**
+ * Schedules escalating local reminders for unanswered shifts with a deadline and
+ * cancels reminders that no longer apply. Identifiers are deterministic, so the
+ * device's scheduled notifications are the only state.
+ */
+export const syncShiftConfirmReminders = async (
+  shifts: Shift[],
+  buildContent: (reminder: ShiftConfirmReminder) => ShiftConfirmReminderContent,
+  now = new Date()
+) => {
+  const Notifications = await loadNotifications();
+  if (!Notifications) return;
+  const scheduledIdentifiers = await listScheduledReminderIdentifiers(Notifications);
+  const { cancel, schedule } = diffShiftConfirmReminders(
+    scheduledIdentifiers,
+    buildShiftConfirmReminders(shifts, now)
+  );
+  await Promise.all(cancel.map((identifier) => Notifications.cancelScheduledNotificationAsync(identifier)));
+  for (const reminder of schedule) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.identifier,
+      content: {
+        ...buildContent(reminder),
+        data: { shiftId: reminder.shiftId, target: `/shift-details/${reminder.shiftId}` },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(reminder.fireAt),
+      },
+    });
+  }
+};
+
+/** Drops every pending reminder for one assignment, e.g. right after it was confirmed. */
+export const cancelShiftConfirmReminders = async (assignmentId?: string) => {
+  const Notifications = await loadNotifications();
+  if (!Notifications) return;
+  const identifiers = await listScheduledReminderIdentifiers(Notifications, assignmentId);
+  await Promise.all(identifiers.map((identifier) => Notifications.cancelScheduledNotificationAsync(identifier)));
+};
@@ -0,0 +1,134 @@
+import {
+  isShiftDeclinedByEmployee,
+  normalizeShiftConfirmationStatus,
+} from '../../lib/shiftConfirmationStatus';
+import { getZonedDayKey } from '../../shared/utils/timeUtils';
+import type { Shift } from './shiftMapping';
+
+export type ShiftConflictKind = 'overlap' | 'short-rest' | 'vacation';
+
+export type ShiftConflict =
+  | { kind: 'overlap'; shiftId: string; otherShiftId: string }
+  | {
+      kind: 'short-rest';
+      shiftId: string;
+      otherShiftId: string;
+      /** Whether the other shift comes before or after this one. */
+      position: 'before' | 'after';
+      restMs: number;
+    }
+  | { kind: 'vacation'; shiftId: string; vacationId: string; startDate: string; endDate: string };
+
+/** The part of a vacation request the engine needs; dates are inclusive `YYYY-MM-DD` days. */
+export type ShiftConflictVacation = {
+  id: string;
+  startDate: string;
+  endDate: string;
+  status: string;
+};
+
+export type ShiftConflictOptions = {
+  minRestMs?: number;
+};
+
+type ConflictShift = Pick<Shift, 'id' | 'start' | 'end' | 'confirmationStatus' | 'timeZone'>;
+
+type ShiftInterval = { shift: ConflictShift; startMs: number; endMs: number };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Minimum rest between two shifts under the German Working Hours Act. */
+export const MIN_REST_BETWEEN_SHIFTS_MS = 11 * HOUR_MS;
+
+const toInterval = (shift: ConflictShift): ShiftInterval | null => {
+  const startMs = new Date(shift.start).getTime();
+  const endMs = new Date(shift.end).getTime();
+  if (Number.isNaN(startMs) || Number.isNaN(endMs) || endMs <= startMs) return null;
+  return { shift, startMs, endMs };
+};
+
+/** Declined shifts are no longer the employee's to work, so they never conflict. */
+const countsForConflicts = (shift: ConflictShift) =>
+  !isShiftDeclinedByEmployee(normalizeShiftConfirmationStatus(shift.confirmationStatus));
+
+const addConflict = (conflicts: Map<string, ShiftConflict[]>, conflict: ShiftConflict) => {
+  const existing = conflicts.get(conflict.shiftId);
+  if (existing) {
+    existing.push(conflict);
+  } else {
+    conflicts.set(conflict.shiftId, [conflict]);
+  }
+};
+
+const collidesWithVacation = (interval: ShiftInterval, vacation: ShiftConflictVacation) => {
+  const firstDay = getZonedDayKey(new Date(interval.startMs), interval.shift.timeZone);
+  const lastDay = getZonedDayKey(new Date(interval.endMs - 1), interval.shift.timeZone);
+  if (!firstDay || !lastDay) return false;
+  return firstDay <= vacation.endDate && lastDay >= vacation.startDate;
+};
+
+/**
+ * Flags shifts that overlap each other, leave less than the minimum rest between
+ * them, or fall into an approved vacation. Every conflict is reported on both
+ * shifts involved, keyed by shift id.
+ */
+export const detectShiftConflicts = (
+  shifts: ConflictShift[],
+  vacations: ShiftConflictVacation[] = [],
+  { minRestMs = MIN_REST_BETWEEN_SHIFTS_MS }: ShiftConflictOptions = {}
+): Map<string, ShiftConflict[]> => {
+  const conflicts = new Map<string, ShiftConflict[]>();
+  const intervals = shifts
+    .filter(countsForConflicts)
+    .map(toInterval)
+    .filter((interval): interval is ShiftInterval => interval !== null)
+    .sort((a, b) => a.startMs - b.startMs);
+
+  intervals.forEach((current, index) => {
+    for (let nextIndex = index + 1; nextIndex < intervals.length; nextIndex += 1) {
+      const next = intervals[nextIndex];
+      if (next.startMs >= current.endMs + minRestMs) break;
+      if (next.shift.id === current.shift.id) continue;
+      if (next.startMs < current.endMs) {
+        addConflict(conflicts, { kind: 'overlap', shiftId: current.shift.id, otherShiftId: next.shift.id });
+        addConflict(conflicts, { kind: 'overlap', shiftId: next.shift.id, otherShiftId: current.shift.id });
+        continue;
+      }
+      const restMs = next.startMs - current.endMs;
+      addConflict(conflicts, {
+        kind: 'short-rest',
+        shiftId: current.shift.id,
+        otherShiftId: next.shift.id,
+        position: 'after',
+        restMs,
+      });
+      addConflict(conflicts, {
+        kind: 'short-rest',
+        shiftId: next.shift.id,
+        otherShiftId: current.shift.id,
+        position: 'before',
+        restMs,
+      });
+    }
+  });
+
+  const approvedVacations = vacations.filter((vacation) => vacation.status === 'approved');
+  intervals.forEach((interval) => {
+    approvedVacations.forEach((vacation) => {
+      if (!collidesWithVacation(interval, vacation)) return;
+      addConflict(conflicts, {
+        kind: 'vacation',
+        shiftId: interval.shift.id,
+        vacationId: vacation.id,
+        startDate: vacation.startDate,
+        endDate: vacation.endDate,
+      });
+    });
+  });
+
+  return conflicts;
+};
+
+/** Conflicts for several shifts at once, e.g. everything a "confirm all" would accept. */
+export const collectShiftConflicts = (conflicts: Map<string, ShiftConflict[]>, shiftIds: string[]) =>
+  shiftIds.flatMap((shiftId) => conflicts.get(shiftId) ?? []);
@@ -0,0 +1,54 @@
+export type ShiftDeclineReason = 'illness' | 'schedule-conflict' | 'transport' | 'personal' | 'other';
+
+/** Statuses an employee can answer a published shift with instead of confirming it. */
+export type ShiftDeclineStatus = 'declined by employee' | 'tentative';
+
+export type ShiftDeclineInput = {
+  status: ShiftDeclineStatus;
+  reason: ShiftDeclineReason;
+  note?: string;
+};
+
+export type ShiftDeclineValidationError = 'reason-required' | 'note-required' | 'note-too-long';
+
+export const SHIFT_DECLINE_REASONS: ShiftDeclineReason[] = [
+  'illness',
+  'schedule-conflict',
+  'transport',
+  'personal',
+  'other',
+];
+
+export const SHIFT_DECLINE_NOTE_MAX_LENGTH = 500;
+
+const reasonSynonyms: Record<string, ShiftDeclineReason> = {
+  illness: 'illness',
+  sick: 'illness',
+  'schedule conflict': 'schedule-conflict',
+  conflict: 'schedule-conflict',
+  transport: 'transport',
+  personal: 'personal',
+  other: 'other',
+};
+
+export const parseShiftDeclineReason = (value?: unknown): ShiftDeclineReason | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLowerCase().replace(/[_-]+/g, ' ');
+  return reasonSynonyms[normalized];
+};
+
+export const normalizeShiftDeclineNote = (note?: string | null) => {
+  const trimmed = note?.trim() ?? '';
+  return trimmed.length ? trimmed : undefined;
+};
+
+/** "Other" needs a note so the planner knows what happened. */
+export const validateShiftDecline = (
+  input: Partial<ShiftDeclineInput>
+): ShiftDeclineValidationError | null => {
+  if (!input.reason || !SHIFT_DECLINE_REASONS.includes(input.reason)) return 'reason-required';
+  const note = normalizeShiftDeclineNote(input.note);
+  if (input.reason === 'other' && !note) return 'note-required';
+  if (note && note.length > SHIFT_DECLINE_NOTE_MAX_LENGTH) return 'note-too-long';
+  return null;
+};
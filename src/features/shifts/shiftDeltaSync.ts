@@ -0,0 +1,132 @@
+import {
+  isShiftVisibleToEmployee,
+  normalizeShiftConfirmationStatus,
+} from '../../lib/shiftConfirmationStatus';
+import {
+  type AssignmentMeta,
+  type Shift,
+  type ShiftMappingOptions,
+  mapShiftArray,
+  sortShiftsByStart,
+  toAssignmentMeta,
+  withAssignmentMeta,
+} from './shiftMapping';
+
+export type ShiftFeedDelta = {
+  changedAssignments: AssignmentMeta[];
+  activeAssignmentIds: string[];
+  shiftRows: Record<string, unknown>[];
+};
+
+export const FULL_SHIFT_RESYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deltas re-read this far behind the mark: a row stamped before the mark can
+ * become visible only once its transaction commits.
+ */
+export const SHIFT_DELTA_OVERLAP_MS = 5 * 60 * 1000;
+
+const UPDATED_AT_KEYS = ['updatedAt', 'updated_at'];
+
+export const readRowUpdatedAt = (row: Record<string, unknown>): string | undefined => {
+  for (const key of UPDATED_AT_KEYS) {
+    const value = row[key];
+    if (typeof value === 'string' && !Number.isNaN(new Date(value).getTime())) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+export const advanceHighWaterMark = (
+  current: string | null | undefined,
+  candidates: (string | undefined)[]
+): string | null => {
+  let mark = current ?? null;
+  let markTime = mark ? new Date(mark).getTime() : Number.NEGATIVE_INFINITY;
+  candidates.forEach((candidate) => {
+    if (!candidate) return;
+    const candidateTime = new Date(candidate).getTime();
+    if (!Number.isNaN(candidateTime) && candidateTime > markTime) {
+      mark = candidate;
+      markTime = candidateTime;
+    }
+  });
+  return mark;
+};
+
+export const getShiftDeltaSince = (highWaterMark: string) => {
+  const markTime = new Date(highWaterMark).getTime();
+  return Number.isNaN(markTime) ? highWaterMark : new Date(markTime - SHIFT_DELTA_OVERLAP_MS).toISOString();
+};
+
+export const shouldRunFullShiftSync = (
+  highWaterMark: string | null | undefined,
+  fullSyncedAt: string | null | undefined,
+  now = new Date()
+) => {
+  if (!highWaterMark || !fullSyncedAt) return true;
+  const fullSyncedTime = new Date(fullSyncedAt).getTime();
+  if (Number.isNaN(fullSyncedTime)) return true;
+  return now.getTime() - fullSyncedTime >= FULL_SHIFT_RESYNC_INTERVAL_MS;
+};
+
+export const collectDeltaShiftIds = (current: Shift[], changedAssignments: AssignmentMeta[]) => {
+  const knownShiftIds = new Set(current.map((shift) => shift.id));
+  return Array.from(
+    new Set(
+      changedAssignments
+        .filter(
+          (assignment) =>
+            assignment.shiftId &&
+            !knownShiftIds.has(assignment.shiftId) &&
+            isShiftVisibleToEmployee(normalizeShiftConfirmationStatus(assignment.confirmationStatus))
+        )
+        .map((assignment) => assignment.shiftId as string)
+    )
+  );
+};
+
+/**
+ * Applies an incremental sync result to the cached feed: drops shifts whose
+ * assignment was deleted or hidden, refreshes assignment metadata, and maps the
+ * changed shift rows on top.
+ */
+export const mergeShiftFeedDelta = (
+  current: Shift[],
+  delta: ShiftFeedDelta,
+  options?: ShiftMappingOptions
+): Shift[] => {
+  const activeAssignmentIds = new Set(delta.activeAssignmentIds);
+  const shiftsById = new Map<string, Shift>();
+  current.forEach((shift) => {
+    if (shift.assignmentId && !activeAssignmentIds.has(shift.assignmentId)) return;
+    shiftsById.set(shift.id, shift);
+  });
+
+  const assignmentByShiftId = new Map<string, AssignmentMeta>();
+  shiftsById.forEach((shift) => {
+    assignmentByShiftId.set(shift.id, toAssignmentMeta(shift));
+  });
+
+  delta.changedAssignments.forEach((assignment) => {
+    if (!assignment.shiftId) return;
+    if (assignment.assignmentId && !activeAssignmentIds.has(assignment.assignmentId)) return;
+    assignmentByShiftId.set(assignment.shiftId, assignment);
+
+    const existing = shiftsById.get(assignment.shiftId);
+    if (!existing) return;
+    const confirmationStatus = normalizeShiftConfirmationStatus(assignment.confirmationStatus);
+    if (!isShiftVisibleToEmployee(confirmationStatus)) {
+      shiftsById.delete(assignment.shiftId);
+      return;
+    }
+    shiftsById.set(assignment.shiftId, withAssignmentMeta(existing, assignment, confirmationStatus));
+  });
+
+  mapShiftArray(delta.shiftRows, Array.from(assignmentByShiftId.values()), options).forEach((shift) => {
+    shiftsById.set(shift.id, shift);
+  });
+
+  return sortShiftsByStart(Array.from(shiftsById.values()));
+};
@@ -0,0 +1,184 @@
+import { getZonedDayKey, zonedWallTimeToUtc } from '../../shared/utils/timeUtils';
+import { readString } from '../../shared/utils/parseUtils';
+
+export type ShiftBreak = {
+  /** Instant the break starts; absent when only a duration is planned. */
+  start?: string;
+  end?: string;
+  minutes: number;
+  paid: boolean;
+};
+
+export type ShiftPremium = {
+  label: string;
+  /** Surcharge on the hourly rate, e.g. 25 for night work. */
+  percent?: number;
+  /** Fixed amount per shift in the pay currency. */
+  amount?: number;
+};
+
+export type ShiftPay = {
+  hourlyRate?: number;
+  currency: string;
+  premiums: ShiftPremium[];
+};
+
+export type ShiftAttachmentKind = 'briefing' | 'floor-plan' | 'other';
+
+export type ShiftAttachment = {
+  name: string;
+  kind: ShiftAttachmentKind;
+  /** Public link to the file. */
+  url?: string;
+  /** Storage object path, resolved to a signed URL when opened. */
+  path?: string;
+  mimeType?: string;
+};
+
+export const DEFAULT_SHIFT_PAY_CURRENCY = 'EUR';
+
+const WALL_TIME_PATTERN = /^\d{1,2}:\d{2}(?::\d{2})?$/;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const attachmentKindSynonyms: Record<string, ShiftAttachmentKind> = {
+  briefing: 'briefing',
+  brief: 'briefing',
+  instructions: 'briefing',
+  'floor plan': 'floor-plan',
+  floorplan: 'floor-plan',
+  'site plan': 'floor-plan',
+  map: 'floor-plan',
+};
+
+const readNumber = (value: unknown) => {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value.replace(',', '.')) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const readBoolean = (value: unknown) => value === true || value === 'true';
+
+/** jsonb columns may arrive as parsed values or as JSON text. */
+const readJsonArray = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string' || !value.trim()) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const readRecords = (value: unknown) =>
+  readJsonArray(value).filter(
+    (entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object' && !Array.isArray(entry)
+  );
+
+/**
+ * Break times are either instants or wall-clock times at the site. Wall-clock
+ * times fall on the shift's start day, or the next day once they are earlier
+ * than the shift start (night shifts).
+ */
+const resolveBreakInstant = (value: unknown, shiftStart: string, timeZone?: string) => {
+  const text = readString(value);
+  if (!text) return undefined;
+  if (!WALL_TIME_PATTERN.test(text)) {
+    const parsed = new Date(text);
+    return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+  }
+  const day = getZonedDayKey(shiftStart, timeZone);
+  if (!day) return undefined;
+  const resolved = timeZone
+    ? zonedWallTimeToUtc(day, text, timeZone)
+    : `${day}T${text.replace(/^(\d):/, '0$1:')}`;
+  const resolvedMs = resolved ? new Date(resolved).getTime() : Number.NaN;
+  if (Number.isNaN(resolvedMs)) return undefined;
+  const startMs = new Date(shiftStart).getTime();
+  return new Date(resolvedMs < startMs ? resolvedMs + DAY_MS : resolvedMs).toISOString();
+};
+
+export const parseShiftBreaks = (
+  value: unknown,
+  totalMinutes: unknown,
+  shift: { start: string; timeZone?: string }
+): ShiftBreak[] | undefined => {
+  const breaks = readRecords(value).flatMap((entry): ShiftBreak[] => {
+    const start = resolveBreakInstant(entry.start ?? entry.startTime ?? entry.from, shift.start, shift.timeZone);
+    let end = resolveBreakInstant(entry.end ?? entry.endTime ?? entry.to, shift.start, shift.timeZone);
+    if (start && end && new Date(end).getTime() <= new Date(start).getTime()) {
+      end = new Date(new Date(end).getTime() + DAY_MS).toISOString();
+    }
+    const minutes =
+      start && end
+        ? Math.round((new Date(end).getTime() - new Date(start).getTime()) / MINUTE_MS)
+        : readNumber(entry.minutes ?? entry.durationMinutes ?? entry.duration);
+    if (!minutes || minutes <= 0) return [];
+    return [{ start, end: start ? end : undefined, minutes, paid: readBoolean(entry.paid) }];
+  });
+  if (breaks.length) {
+    return breaks.sort((a, b) => {
+      if (a.start && b.start) return a.start.localeCompare(b.start);
+      return a.start ? -1 : b.start ? 1 : 0;
+    });
+  }
+  const fallbackMinutes = readNumber(totalMinutes);
+  return fallbackMinutes && fallbackMinutes > 0 ? [{ minutes: fallbackMinutes, paid: false }] : undefined;
+};
+
+/** Minutes deducted from the shift for unpaid breaks. */
+export const getUnpaidBreakMinutes = (breaks: ShiftBreak[] | undefined) =>
+  (breaks ?? []).reduce((total, entry) => (entry.paid ? total : total + entry.minutes), 0);
+
+export const parseShiftPremiums = (value: unknown): ShiftPremium[] =>
+  readRecords(value).flatMap((entry): ShiftPremium[] => {
+    const label = readString(entry.label) ?? readString(entry.name) ?? readString(entry.type);
+    const percent = readNumber(entry.percent ?? entry.percentage);
+    const amount = readNumber(entry.amount);
+    if (!label || (percent === undefined && amount === undefined)) return [];
+    return [{ label, percent, amount }];
+  });
+
+export const parseShiftPay = (
+  hourlyRate: unknown,
+  currency: unknown,
+  premiums: unknown
+): ShiftPay | undefined => {
+  const rate = readNumber(hourlyRate);
+  const parsedPremiums = parseShiftPremiums(premiums);
+  if (rate === undefined && !parsedPremiums.length) return undefined;
+  const currencyCode = readString(currency)?.toUpperCase();
+  return {
+    hourlyRate: rate,
+    currency: currencyCode && /^[A-Z]{3}$/.test(currencyCode) ? currencyCode : DEFAULT_SHIFT_PAY_CURRENCY,
+    premiums: parsedPremiums,
+  };
+};
+
+export const parseShiftAttachmentKind = (value: unknown): ShiftAttachmentKind => {
+  const normalized = readString(value)?.toLowerCase().replace(/[_-]+/g, ' ');
+  return (normalized && attachmentKindSynonyms[normalized]) || 'other';
+};
+
+/** Shift and site files combined; a file listed on both is kept once. */
+export const parseShiftAttachments = (...sources: unknown[]): ShiftAttachment[] | undefined => {
+  const seen = new Set<string>();
+  const attachments = sources.flatMap(readRecords).flatMap((entry): ShiftAttachment[] => {
+    const url = readString(entry.url) ?? readString(entry.href);
+    const path = readString(entry.path) ?? readString(entry.storagePath);
+    const location = url ?? path;
+    if (!location || seen.has(location)) return [];
+    seen.add(location);
+    const name = readString(entry.name) ?? readString(entry.title) ?? location.split('/').pop() ?? location;
+    return [
+      {
+        name,
+        kind: parseShiftAttachmentKind(entry.kind ?? entry.type ?? entry.category),
+        url,
+        path: url ? undefined : path,
+        mimeType: readString(entry.mimeType) ?? readString(entry.contentType),
+      },
+    ];
+  });
+  return attachments.length ? attachments : undefined;
+};
@@ -0,0 +1,98 @@
+export type ShiftGeofence = {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+};
+
+export type LocationFix = {
+  latitude: number;
+  longitude: number;
+  /** Horizontal accuracy in meters as reported by the device. */
+  accuracy?: number;
+  capturedAt: string;
+};
+
+export type GeofenceCheck =
+  | { status: 'no-geofence' }
+  | { status: 'inside' | 'outside'; distanceMeters: number }
+  /** The fix is too coarse to tell; the employee should retry with a better signal. */
+  | { status: 'inaccurate'; distanceMeters: number; accuracy: number };
+
+/** Location sent with a QR scan so the server can repeat the geofence check. */
+export type QrClockInLocation = {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  capturedAt: string;
+};
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 150;
+/** Fixes less precise than this cannot confirm the employee is on site. */
+export const MAX_GEOFENCE_FIX_ACCURACY_METERS = 500;
+/** Part of the reported accuracy that is forgiven at the edge of the radius. */
+const MAX_ACCURACY_ALLOWANCE_METERS = 100;
+const EARTH_RADIUS_METERS = 6_371_000;
+
+const readNumber = (value: unknown) => {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value.replace(',', '.')) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/** Site coordinates and radius; undefined when the site has no usable position. */
+export const parseShiftGeofence = (
+  latitude: unknown,
+  longitude: unknown,
+  radiusMeters?: unknown
+): ShiftGeofence | undefined => {
+  const lat = readNumber(latitude);
+  const lng = readNumber(longitude);
+  if (lat === undefined || lng === undefined) return undefined;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  // 0,0 is what unset numeric columns tend to hold, not a real site.
+  if (lat === 0 && lng === 0) return undefined;
+  const radius = readNumber(radiusMeters);
+  return {
+    latitude: lat,
+    longitude: lng,
+    radiusMeters: radius && radius > 0 ? radius : DEFAULT_GEOFENCE_RADIUS_METERS,
+  };
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance between two coordinates. */
+export const getDistanceMeters = (
+  from: Pick<LocationFix, 'latitude' | 'longitude'>,
+  to: Pick<LocationFix, 'latitude' | 'longitude'>
+) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Checks a fix against the site. Part of the fix's accuracy is forgiven so an
+ * employee standing at the entrance is not refused because of GPS drift.
+ */
+export const checkGeofence = (geofence: ShiftGeofence | undefined, fix: LocationFix): GeofenceCheck => {
+  if (!geofence) return { status: 'no-geofence' };
+  const distanceMeters = Math.round(getDistanceMeters(fix, geofence));
+  const accuracy = fix.accuracy !== undefined && fix.accuracy > 0 ? fix.accuracy : 0;
+  if (distanceMeters <= geofence.radiusMeters + Math.min(accuracy, MAX_ACCURACY_ALLOWANCE_METERS)) {
+    return { status: 'inside', distanceMeters };
+  }
+  if (accuracy > MAX_GEOFENCE_FIX_ACCURACY_METERS) {
+    return { status: 'inaccurate', distanceMeters, accuracy: Math.round(accuracy) };
+  }
+  return { status: 'outside', distanceMeters };
+};
+
+export const toQrClockInLocation = (fix: LocationFix): QrClockInLocation => ({
+  latitude: fix.latitude,
+  longitude: fix.longitude,
+  accuracy: fix.accuracy !== undefined ? Math.round(fix.accuracy) : undefined,
+  capturedAt: fix.capturedAt,
+});
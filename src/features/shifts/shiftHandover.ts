@@ -0,0 +1,140 @@
+import { readString } from '../../shared/utils/parseUtils';
+
+export type HandoverNoteRead = {
+  readerId: string;
+  /** First name only; the author sees who of the next shift has read the note. */
+  readerName?: string;
+  readAt: string;
+};
+
+export type HandoverNote = {
+  id: string;
+  /** Shift the note was written on. */
+  shiftId: string;
+  /** Next shift at the object when the note was written, if one was planned. */
+  recipientShiftId?: string;
+  authorId: string;
+  authorName?: string;
+  body: string;
+  createdAt: string;
+  /** When the caller read an incoming note. */
+  readAt?: string;
+  /** Receipts on notes the caller wrote. */
+  reads: HandoverNoteRead[];
+};
+
+export type HandoverNotesResult = {
+  status: 'ok' | 'not_assigned';
+  /** Notes left by the previous shift at the object. */
+  incoming: HandoverNote[];
+  /** Notes the caller left on this shift for the next one. */
+  outgoing: HandoverNote[];
+};
+
+export type CreateHandoverNoteResult = {
+  ok: boolean;
+  status: 'created' | 'not_assigned' | 'not_found' | 'invalid';
+  note?: HandoverNote;
+};
+
+export type MarkHandoverNoteReadResult = {
+  ok: boolean;
+  status: 'read' | 'not_found';
+  readAt?: string;
+};
+
+export type HandoverNoteValidationError = 'note-required' | 'note-too-long';
+
+export const HANDOVER_NOTE_MAX_LENGTH = 1000;
+
+export const validateHandoverNote = (body?: string | null): HandoverNoteValidationError | null => {
+  const trimmed = body?.trim() ?? '';
+  if (!trimmed) return 'note-required';
+  if (trimmed.length > HANDOVER_NOTE_MAX_LENGTH) return 'note-too-long';
+  return null;
+};
+
+const parseHandoverNoteRead = (value: unknown): HandoverNoteRead | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const readerId = readString(record.readerId);
+  const readAt = readString(record.readAt);
+  if (!readerId || !readAt) return null;
+  return { readerId, readerName: readString(record.readerName), readAt };
+};
+
+/** Maps a `shift_handover_notes` row, as returned by the RPCs or a realtime insert. */
+export const parseHandoverNote = (value: unknown): HandoverNote | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const id = readString(record.id);
+  const shiftId = readString(record.shiftId);
+  const authorId = readString(record.authorId);
+  const body = readString(record.body);
+  const createdAt = readString(record.createdAt);
+  if (!id || !shiftId || !authorId || !body || !createdAt) return null;
+  return {
+    id,
+    shiftId,
+    recipientShiftId: readString(record.recipientShiftId),
+    authorId,
+    authorName: readString(record.authorName),
+    body,
+    createdAt,
+    readAt: readString(record.readAt),
+    reads: Array.isArray(record.reads) ? record.reads.flatMap((read) => parseHandoverNoteRead(read) ?? []) : [],
+  };
+};
+
+const parseNoteList = (value: unknown) =>
+  (Array.isArray(value) ? value.flatMap((note) => parseHandoverNote(note) ?? []) : []).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+
+export const parseHandoverNotesResult = (value: unknown): HandoverNotesResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Handover notes returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status === 'not_assigned') {
+    return { status: 'not_assigned', incoming: [], outgoing: [] };
+  }
+  if (record.status !== 'ok') {
+    throw new Error('Handover notes returned an unknown status.');
+  }
+  return { status: 'ok', incoming: parseNoteList(record.incoming), outgoing: parseNoteList(record.outgoing) };
+};
+
+const createStatuses: CreateHandoverNoteResult['status'][] = ['created', 'not_assigned', 'not_found', 'invalid'];
+
+export const parseCreateHandoverNoteResult = (value: unknown): CreateHandoverNoteResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Handover note returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  const status = createStatuses.find((candidate) => candidate === record.status);
+  if (!status) {
+    throw new Error('Handover note returned an unknown status.');
+  }
+  return { ok: record.ok === true, status, note: parseHandoverNote(record.note) ?? undefined };
+};
+
+export const parseMarkHandoverNoteReadResult = (value: unknown): MarkHandoverNoteReadResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Handover read receipt returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status !== 'read' && record.status !== 'not_found') {
+    throw new Error('Handover read receipt returned an unknown status.');
+  }
+  return { ok: record.ok === true, status: record.status, readAt: readString(record.readAt) };
+};
+
+/** Incoming notes the caller has not opened yet. */
+export const getUnreadHandoverNotes = (notes: HandoverNote[]) => notes.filter((note) => !note.readAt);
+
+/** One-line preview for notifications. */
+export const summarizeHandoverNote = (body: string, maxLength = 120) => {
+  const singleLine = body.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1).trimEnd()}…` : singleLine;
+};
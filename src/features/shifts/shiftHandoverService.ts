@@ -0,0 +1,111 @@
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import {
+  type CreateHandoverNoteResult,
+  type HandoverNote,
+  type HandoverNotesResult,
+  type MarkHandoverNoteReadResult,
+  parseCreateHandoverNoteResult,
+  parseHandoverNote,
+  parseHandoverNotesResult,
+  parseMarkHandoverNoteReadResult,
+} from './shiftHandover';
+
+const HANDOVER_NOTES_UNAVAILABLE_MESSAGE = 'Handover notes are not available yet.';
+
+/** Notes from the previous shift at the object and the caller's own notes for the next one. */
+export const fetchHandoverNotes = async (shiftId: string): Promise<HandoverNotesResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_handover_notes', { target_shift_id: shiftId });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(HANDOVER_NOTES_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseHandoverNotesResult(data);
+};
+
+/** The server addresses the note to the next shift at the same object. */
+export const createHandoverNote = async (shiftId: string, body: string): Promise<CreateHandoverNoteResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('create_handover_note', {
+    source_shift_id: shiftId,
+    note_body: body.trim(),
+  });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(HANDOVER_NOTES_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseCreateHandoverNoteResult(data);
+};
+
+export const markHandoverNoteRead = async (noteId: string): Promise<MarkHandoverNoteReadResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('mark_handover_note_read', { target_note_id: noteId });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(HANDOVER_NOTES_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseMarkHandoverNoteReadResult(data);
+};
+
+export type HandoverNoteSubscription = {
+  unsubscribe: () => void;
+};
+
+let handoverSubscriptionSequence = 0;
+
+/**
+ * Notes written for any of the given shifts. `shiftFilterValue` is the
+ * comma-separated id list used by the other shift channels.
+ */
+export const subscribeToIncomingHandoverNotes = (
+  employeeId: string,
+  shiftFilterValue: string,
+  onNote: (note: HandoverNote) => void
+): HandoverNoteSubscription => {
+  if (!supabase || !employeeId || !shiftFilterValue) {
+    return { unsubscribe: () => {} };
+  }
+
+  handoverSubscriptionSequence += 1;
+  const noteChannel = supabase.channel(`shift_handover_notes:${employeeId}:${handoverSubscriptionSequence}`);
+  noteChannel.on(
+    'postgres_changes',
+    {
+      event: 'INSERT',
+      schema: 'public',
+      table: 'shift_handover_notes',
+      filter: `recipientShiftId=in.(${shiftFilterValue})`,
+    },
+    (payload) => {
+      const note = payload.new ? parseHandoverNote(payload.new) : null;
+      if (note && note.authorId !== employeeId) onNote(note);
+    }
+  );
+
+  noteChannel.subscribe();
+
+  return {
+    unsubscribe: () => noteChannel.unsubscribe(),
+  };
+};
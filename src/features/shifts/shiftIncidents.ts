@@ -0,0 +1,248 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readString } from '../../shared/utils/parseUtils';
+
+export type IncidentCategory = 'damage' | 'injury' | 'security' | 'safety-hazard' | 'theft' | 'other';
+
+export type IncidentSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type IncidentReportStatus = 'open' | 'acknowledged' | 'resolved';
+
+export type IncidentReportInput = {
+  category: IncidentCategory;
+  severity: IncidentSeverity;
+  description: string;
+  occurredAt: string;
+  /** Where on site it happened, e.g. "Loading bay 3". */
+  locationNote?: string;
+  photoUris: string[];
+};
+
+export type QueuedIncidentPhoto = {
+  uri: string;
+  /** Storage path once uploaded. */
+  path?: string;
+};
+
+/** A report waiting on the device until it is uploaded and submitted. */
+export type QueuedIncidentReport = Omit<IncidentReportInput, 'photoUris'> & {
+  /** Generated on the device; the server uses it to ignore replays. */
+  id: string;
+  shiftId: string;
+  photos: QueuedIncidentPhoto[];
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+  /** Set when the server refused the report; it is no longer retried. */
+  rejectedStatus?: 'not_assigned' | 'not_found' | 'invalid';
+};
+
+export type IncidentReport = {
+  id: string;
+  clientReportId?: string;
+  shiftId: string;
+  category: IncidentCategory;
+  severity: IncidentSeverity;
+  description: string;
+  occurredAt: string;
+  locationNote?: string;
+  photoCount: number;
+  status: IncidentReportStatus;
+  createdAt: string;
+};
+
+export type IncidentReportsResult = {
+  status: 'ok' | 'not_assigned';
+  reports: IncidentReport[];
+};
+
+export type SubmitIncidentReportResult = {
+  ok: boolean;
+  status: 'submitted' | 'already_submitted' | 'not_assigned' | 'not_found' | 'invalid';
+  report?: IncidentReport;
+};
+
+export type IncidentReportValidationError = 'description-required' | 'description-too-long' | 'too-many-photos';
+
+export const INCIDENT_CATEGORIES: IncidentCategory[] = [
+  'damage',
+  'injury',
+  'security',
+  'safety-hazard',
+  'theft',
+  'other',
+];
+
+export const INCIDENT_SEVERITIES: IncidentSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export const INCIDENT_DESCRIPTION_MAX_LENGTH = 2000;
+export const INCIDENT_LOCATION_NOTE_MAX_LENGTH = 200;
+export const INCIDENT_MAX_PHOTOS = 5;
+
+const INCIDENT_QUEUE_PREFIX = 'shiftor:incident-queue';
+
+const queueKey = (employeeId: string) => `${INCIDENT_QUEUE_PREFIX}:${employeeId}`;
+
+export const validateIncidentReport = (
+  input: Pick<IncidentReportInput, 'description' | 'photoUris'>
+): IncidentReportValidationError | null => {
+  const description = input.description.trim();
+  if (!description) return 'description-required';
+  if (description.length > INCIDENT_DESCRIPTION_MAX_LENGTH) return 'description-too-long';
+  if (input.photoUris.length > INCIDENT_MAX_PHOTOS) return 'too-many-photos';
+  return null;
+};
+
+export const createQueuedIncidentReport = (
+  shiftId: string,
+  input: IncidentReportInput,
+  now = new Date()
+): QueuedIncidentReport => ({
+  id: `incident-${now.getTime()}-${Math.random().toString(36).slice(2, 10)}`,
+  shiftId,
+  category: input.category,
+  severity: input.severity,
+  description: input.description.trim(),
+  occurredAt: input.occurredAt,
+  locationNote: readString(input.locationNote)?.slice(0, INCIDENT_LOCATION_NOTE_MAX_LENGTH),
+  photos: input.photoUris.slice(0, INCIDENT_MAX_PHOTOS).map((uri) => ({ uri })),
+  queuedAt: now.toISOString(),
+  attempts: 0,
+});
+
+const parseCategory = (value: unknown) => INCIDENT_CATEGORIES.find((category) => category === value);
+const parseSeverity = (value: unknown) => INCIDENT_SEVERITIES.find((severity) => severity === value);
+
+export const parseIncidentReport = (value: unknown): IncidentReport | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const id = readString(record.id);
+  const shiftId = readString(record.shiftId);
+  const description = readString(record.description);
+  const occurredAt = readString(record.occurredAt);
+  const createdAt = readString(record.createdAt);
+  if (!id || !shiftId || !description || !occurredAt || !createdAt) return null;
+  return {
+    id,
+    clientReportId: readString(record.clientReportId),
+    shiftId,
+    category: parseCategory(record.category) ?? 'other',
+    severity: parseSeverity(record.severity) ?? 'medium',
+    description,
+    occurredAt,
+    locationNote: readString(record.locationNote),
+    photoCount: typeof record.photoCount === 'number' ? record.photoCount : 0,
+    status: record.status === 'acknowledged' || record.status === 'resolved' ? record.status : 'open',
+    createdAt,
+  };
+};
+
+export const parseIncidentReportsResult = (value: unknown): IncidentReportsResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Incident reports returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status === 'not_assigned') {
+    return { status: 'not_assigned', reports: [] };
+  }
+  if (record.status !== 'ok' || !Array.isArray(record.reports)) {
+    throw new Error('Incident reports returned an unknown status.');
+  }
+  return {
+    status: 'ok',
+    reports: record.reports
+      .flatMap((report) => parseIncidentReport(report) ?? [])
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  };
+};
+
+const submitStatuses: SubmitIncidentReportResult['status'][] = [
+  'submitted',
+  'already_submitted',
+  'not_assigned',
+  'not_found',
+  'invalid',
+];
+
+export const parseSubmitIncidentReportResult = (value: unknown): SubmitIncidentReportResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Incident report returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  const status = submitStatuses.find((candidate) => candidate === record.status);
+  if (!status) {
+    throw new Error('Incident report returned an unknown status.');
+  }
+  return { ok: record.ok === true, status, report: parseIncidentReport(record.report) ?? undefined };
+};
+
+/** Queued reports of a shift that the server has not listed yet, newest first. */
+export const getQueuedIncidentReports = (
+  queue: QueuedIncidentReport[],
+  shiftId: string,
+  submitted: IncidentReport[] = []
+) => {
+  const submittedIds = new Set(submitted.flatMap((report) => report.clientReportId ?? []));
+  return queue
+    .filter((report) => report.shiftId === shiftId && !submittedIds.has(report.id))
+    .sort((a, b) => b.queuedAt.localeCompare(a.queuedAt));
+};
+
+const isQueuedIncidentReport = (value: unknown): value is QueuedIncidentReport => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<QueuedIncidentReport>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.shiftId === 'string' &&
+    typeof entry.description === 'string' &&
+    typeof entry.occurredAt === 'string' &&
+    typeof entry.queuedAt === 'string' &&
+    typeof entry.attempts === 'number' &&
+    Array.isArray(entry.photos) &&
+    Boolean(parseCategory(entry.category)) &&
+    Boolean(parseSeverity(entry.severity))
+  );
+};
+
+export const parseIncidentQueue = (value: string | null): QueuedIncidentReport[] => {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter(isQueuedIncidentReport) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadIncidentQueue = async (employeeId: string) =>
+  parseIncidentQueue(await AsyncStorage.getItem(queueKey(employeeId)));
+
+const saveIncidentQueue = async (employeeId: string, queue: QueuedIncidentReport[]) => {
+  if (queue.length) {
+    await AsyncStorage.setItem(queueKey(employeeId), JSON.stringify(queue));
+  } else {
+    await AsyncStorage.removeItem(queueKey(employeeId));
+  }
+  return queue;
+};
+
+export const enqueueIncidentReport = async (employeeId: string, report: QueuedIncidentReport) => {
+  const queue = await loadIncidentQueue(employeeId);
+  return saveIncidentQueue(employeeId, [...queue.filter((entry) => entry.id !== report.id), report]);
+};
+
+/** Replaces a queued report in place, e.g. after one of its photos was uploaded. */
+export const updateQueuedIncidentReport = async (employeeId: string, report: QueuedIncidentReport) => {
+  const queue = await loadIncidentQueue(employeeId);
+  return saveIncidentQueue(
+    employeeId,
+    queue.map((entry) => (entry.id === report.id ? report : entry))
+  );
+};
+
+export const removeQueuedIncidentReport = async (employeeId: string, reportId: string) => {
+  const queue = await loadIncidentQueue(employeeId);
+  return saveIncidentQueue(
+    employeeId,
+    queue.filter((entry) => entry.id !== reportId)
+  );
+};
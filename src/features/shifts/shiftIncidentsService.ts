@@ -0,0 +1,180 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import {
+  type IncidentReportsResult,
+  type QueuedIncidentReport,
+  type SubmitIncidentReportResult,
+  loadIncidentQueue,
+  parseIncidentReportsResult,
+  parseSubmitIncidentReportResult,
+  removeQueuedIncidentReport,
+  updateQueuedIncidentReport,
+} from './shiftIncidents';
+import { SHIFT_EVIDENCE_BUCKET } from './shiftChecklistService';
+import { isNetworkError } from './shiftMutationQueue';
+
+const INCIDENT_REPORTS_UNAVAILABLE_MESSAGE = 'Incident reports are not available yet.';
+
+const isAlreadyUploadedError = (error: unknown) =>
+  error instanceof Error && /already exists|duplicate/i.test(error.message);
+
+export type IncidentQueueFlushResult = {
+  submitted: QueuedIncidentReport[];
+  rejected: QueuedIncidentReport[];
+  remaining: number;
+};
+
+const flushesInFlight = new Map<string, Promise<IncidentQueueFlushResult>>();
+
+/** The caller's reports for the shift; photos stay in storage and are counted only. */
+export const fetchIncidentReports = async (shiftId: string): Promise<IncidentReportsResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_incident_reports', { target_shift_id: shiftId });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(INCIDENT_REPORTS_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseIncidentReportsResult(data);
+};
+
+/**
+ * Uploads one photo of a queued report. The path is derived from the report id
+ * so a retry after an interrupted upload finds the existing object.
+ */
+export const uploadIncidentPhoto = async (
+  employeeId: string,
+  report: Pick<QueuedIncidentReport, 'id' | 'shiftId'>,
+  index: number,
+  uri: string
+): Promise<string> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+  const manipulated = await ImageManipulator.manipulateAsync(uri, [{ resize: { width: 1600 } }], {
+    compress: 0.8,
+    format: ImageManipulator.SaveFormat.JPEG,
+  });
+  const storagePath = `shift-incidents/${report.shiftId}/${employeeId}/${report.id}-${index + 1}.jpg`;
+
+  const fileResponse = await fetch(manipulated.uri);
+  if (!fileResponse.ok) {
+    throw new Error('Could not read the incident photo.');
+  }
+  const fileBlob = await fileResponse.blob();
+
+  const { data, error } = await supabase.storage.from(SHIFT_EVIDENCE_BUCKET).upload(storagePath, fileBlob, {
+    contentType: 'image/jpeg',
+    upsert: false,
+  });
+
+  if (error && !isAlreadyUploadedError(error)) {
+    throw error;
+  }
+
+  return data?.path ?? storagePath;
+};
+
+export const submitIncidentReport = async (
+  report: QueuedIncidentReport
+): Promise<SubmitIncidentReportResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('submit_incident_report', {
+    client_report_id: report.id,
+    target_shift_id: report.shiftId,
+    report_category: report.category,
+    report_severity: report.severity,
+    report_description: report.description,
+    occurred_at: report.occurredAt,
+    location_note: report.locationNote ?? null,
+    photo_paths: report.photos.flatMap((photo) => photo.path ?? []),
+  });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(INCIDENT_REPORTS_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseSubmitIncidentReportResult(data);
+};
+
+/** Uploads the photos of one queued report, then submits it. */
+const syncQueuedIncidentReport = async (employeeId: string, queued: QueuedIncidentReport) => {
+  let report = queued;
+  for (let index = 0; index < report.photos.length; index += 1) {
+    if (report.photos[index].path) continue;
+    const path = await uploadIncidentPhoto(employeeId, report, index, report.photos[index].uri);
+    report = {
+      ...report,
+      photos: report.photos.map((photo, photoIndex) => (photoIndex === index ? { ...photo, path } : photo)),
+    };
+    await updateQueuedIncidentReport(employeeId, report);
+  }
+  return { report, result: await submitIncidentReport(report) };
+};
+
+/**
+ * Submits queued reports oldest first. A network failure stops the flush so
+ * the remaining reports wait for the next attempt; refused reports are kept
+ * with their status so the employee can see and discard them.
+ */
+export const flushIncidentQueue = (employeeId: string) => {
+  const inFlight = flushesInFlight.get(employeeId);
+  if (inFlight) return inFlight;
+
+  const flush = (async () => {
+    const result: IncidentQueueFlushResult = { submitted: [], rejected: [], remaining: 0 };
+    const queue = (await loadIncidentQueue(employeeId))
+      .filter((report) => !report.rejectedStatus)
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+    for (let index = 0; index < queue.length; index += 1) {
+      const queued = queue[index];
+      try {
+        const { report, result: submitResult } = await syncQueuedIncidentReport(employeeId, queued);
+        if (submitResult.ok) {
+          await removeQueuedIncidentReport(employeeId, report.id);
+          result.submitted.push(report);
+        } else {
+          const rejected: QueuedIncidentReport = {
+            ...report,
+            rejectedStatus: submitResult.status as QueuedIncidentReport['rejectedStatus'],
+          };
+          await updateQueuedIncidentReport(employeeId, rejected);
+          result.rejected.push(rejected);
+        }
+      } catch (error) {
+        // Reload so photo paths saved before the failure are kept.
+        const latest = (await loadIncidentQueue(employeeId)).find((entry) => entry.id === queued.id) ?? queued;
+        await updateQueuedIncidentReport(employeeId, {
+          ...latest,
+          attempts: latest.attempts + 1,
+          lastError: error instanceof Error ? error.message : String(error),
+        }).catch(() => undefined);
+        if (isNetworkError(error)) {
+          result.remaining = queue.length - index;
+          break;
+        }
+        result.remaining += 1;
+      }
+    }
+
+    return result;
+  })().finally(() => {
+    flushesInFlight.delete(employeeId);
+  });
+
+  flushesInFlight.set(employeeId, flush);
+  return flush;
+};
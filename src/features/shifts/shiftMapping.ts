@@ -3,7 +3,28 @@ import {
   isShiftVisibleToEmployee,
   normalizeShiftConfirmationStatus,
 } from '../../lib/shiftConfirmationStatus';
-import { ensureShiftEndAfterStart } from '../../shared/utils/timeUtils';
+import {
+  ensureShiftEndAfterStart,
+  hasExplicitUtcOffset,
+  isValidTimeZone,
+  zonedWallTimeToUtc,
+} from '../../shared/utils/timeUtils';
+import {
+  type ResolvedShiftSchema,
+  type ShiftSchemaColumn,
+  getShiftSchema,
+} from './shiftSchemaAdapters';
+import { type ShiftDeclineReason, parseShiftDeclineReason } from './shiftDecline';
+import {
+  type ShiftAttachment,
+  type ShiftBreak,
+  type ShiftPay,
+  parseShiftAttachments,
+  parseShiftBreaks,
+  parseShiftPay,
+} from './shiftExtras';
+import { type ShiftSeriesRef, parseShiftSeriesRef } from './shiftSeries';
+import { type ShiftGeofence, parseShiftGeofence } from './shiftGeofence';
 
 export type ShiftStatus = 'scheduled' | 'in-progress' | 'completed' | 'blocked';
 
@@ -12,12 +33,18 @@ export type AssignmentMeta = {
   shiftId?: string;
   confirmationStatus?: string;
   confirmedAt?: string;
+  declineReason?: string;
+  declineNote?: string;
+  declinedAt?: string;
+  updatedAt?: string;
 };
 
 export type Shift = {
   id: string;
   title: string;
   location: string;
+  /** Site the shift takes place at; rotating QR codes name it instead of the shift. */
+  objectId?: string;
   objectName?: string;
   objectAddress?: string;
   objectContactName?: string;
@@ -30,6 +57,55 @@ export type Shift = {
   assignmentId?: string;
   confirmationStatus?: ShiftConfirmationStatus;
   confirmedAt?: string;
+  declineReason?: ShiftDeclineReason;
+  declineNote?: string;
+  declinedAt?: string;
+  pendingSync?: boolean;
+  /** IANA zone of the site; wall-clock columns are interpreted in it. */
+  timeZone?: string;
+  /** Instant by which the employee should confirm the published shift. */
+  confirmBy?: string;
+  /** Qualifications required to work the shift, e.g. first-aid. */
+  qualifications?: string[];
+  breaks?: ShiftBreak[];
+  /** Role or position the employee works in, e.g. team lead. */
+  role?: string;
+  pay?: ShiftPay;
+  dressCode?: string;
+  /** Briefings, floor plans and other files for the shift or its site. */
+  attachments?: ShiftAttachment[];
+  /** Weekly pattern the shift belongs to, when the planner created it as a series. */
+  series?: ShiftSeriesRef;
+  /** Where the site is and how close the employee must be to clock in by QR. */
+  geofence?: ShiftGeofence;
+};
+
+export type DroppedShiftRow = {
+  index: number;
+  reason: 'missing-id';
+  columns: string[];
+};
+
+export type DefaultedShiftField = {
+  index: number;
+  shiftId: string;
+  field: 'start' | 'end';
+};
+
+export type ShiftMappingDiagnostics = {
+  total: number;
+  mapped: number;
+  hidden: number;
+  dropped: DroppedShiftRow[];
+  defaulted: DefaultedShiftField[];
+  /** Rows per adapter that supplied the start time. */
+  adapterUsage: Record<string, number>;
+};
+
+export type ShiftMappingOptions = {
+  schema?: ResolvedShiftSchema;
+  /** Called when rows were dropped or fell back to default times. */
+  onDiagnostics?: (diagnostics: ShiftMappingDiagnostics) => void;
 };
 
 export const defaultShiftStartIso = '2026-01-25T08:00:00Z';
@@ -52,23 +128,93 @@ const parseIso = (value?: unknown): string | undefined => {
   return undefined;
 };
 
-const normalizeTimestampPair = (date?: unknown, time?: unknown, fallback?: string): string => {
+const splitWallClock = (value: string): [string, string] | null => {
+  const [datePart, timePart] = value.split('T');
+  return timePart ? [datePart, timePart] : null;
+};
+
+/**
+ * Combines separate date and time columns into an ISO instant. Values without
+ * an explicit offset are wall-clock times at the site, so they are resolved in
+ * the site zone when one is known and in device time otherwise.
+ */
+const normalizeTimestampPair = (
+  date?: unknown,
+  time?: unknown,
+  fallback?: string,
+  timeZone?: string
+): string => {
   const isoDate = parseIso(date);
   const isoTime = parseIso(time);
   if (isoDate && isoTime) {
     const combinedDate = isoDate.split('T')[0];
     const combinedTime = isoTime.includes('T') ? isoTime.split('T')[1] : isoTime;
+    if (timeZone && !hasExplicitUtcOffset(combinedTime)) {
+      const zoned = zonedWallTimeToUtc(combinedDate, combinedTime, timeZone);
+      if (zoned) return zoned;
+    }
     const combined = new Date(`${combinedDate}T${combinedTime}`);
     if (!Number.isNaN(combined.getTime())) return combined.toISOString();
   }
+  if (isoDate && timeZone && !hasExplicitUtcOffset(isoDate)) {
+    const wallClock = splitWallClock(isoDate);
+    const zoned = wallClock ? zonedWallTimeToUtc(wallClock[0], wallClock[1], timeZone) : null;
+    if (zoned) return zoned;
+  }
   if (isoDate) return isoDate;
   if (isoTime) return isoTime;
   return fallback ?? defaultShiftStartIso;
 };
 
-const pickValue = (row: Record<string, unknown>, keys: string[]): string | undefined => {
-  for (const key of keys) {
-    const value = row[key];
+/** Single timestamp column, read as site wall-clock time when it has no offset. */
+const normalizeInstant = (value?: unknown, timeZone?: string): string | undefined => {
+  const iso = parseIso(value)?.trim().replace(' ', 'T');
+  if (!iso) return undefined;
+  if (timeZone && !hasExplicitUtcOffset(iso)) {
+    const wallClock = splitWallClock(iso);
+    const zoned = wallClock ? zonedWallTimeToUtc(wallClock[0], wallClock[1], timeZone) : null;
+    if (zoned) return zoned;
+  }
+  const parsed = new Date(iso);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+};
+
+/** Accepts arrays, Postgres array literals such as `{a,b}` and comma-separated text. */
+const normalizeStringList = (value: unknown): string[] | undefined => {
+  const entries = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+    ? value.replace(/^\{|\}$/g, '').split(',')
+    : [];
+  const list = Array.from(
+    new Set(
+      entries
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map((entry) => entry.replace(/^"|"$/g, '').trim())
+        .filter(Boolean)
+    )
+  );
+  return list.length ? list : undefined;
+};
+
+type PickedValue = {
+  value: unknown;
+  adapterId?: string;
+};
+
+const readSchemaColumn = (
+  raw: Record<string, unknown>,
+  entry: ShiftSchemaColumn
+): unknown => {
+  if (entry.source === 'row') return raw[entry.column];
+  const objectMeta = raw.object;
+  if (!objectMeta || typeof objectMeta !== 'object' || Array.isArray(objectMeta)) return undefined;
+  return (objectMeta as Record<string, unknown>)[entry.column];
+};
+
+const pickValue = (raw: Record<string, unknown>, columns: ShiftSchemaColumn[]): string | undefined => {
+  for (const entry of columns) {
+    const value = readSchemaColumn(raw, entry);
     if (typeof value === 'string' && value.trim()) {
       return value;
     }
@@ -76,74 +222,100 @@ const pickValue = (row: Record<string, unknown>, keys: string[]): string | undef
   return undefined;
 };
 
-const pickFirstValue = (row: Record<string, unknown>, keys: string[]): unknown => {
-  for (const key of keys) {
-    if (key in row && row[key] !== undefined && row[key] !== null) {
-      return row[key];
+const pickFirstValue = (raw: Record<string, unknown>, columns: ShiftSchemaColumn[]): PickedValue => {
+  for (const entry of columns) {
+    const value = readSchemaColumn(raw, entry);
+    if (value !== undefined && value !== null) {
+      return { value, adapterId: entry.adapterId };
     }
   }
-  return undefined;
+  return { value: undefined };
 };
 
-export const mapShiftRecord = (raw: Record<string, unknown>): Shift => {
-  const start = normalizeTimestampPair(
-    pickFirstValue(raw, ['shiftStartingDate', 'shiftstartingdate', 'start_date', 'start', 'start_at']),
-    pickFirstValue(raw, ['shiftStartingTime', 'shiftstartingtime', 'start_time', 'startTime']),
-    defaultShiftStartIso
-  );
-  let end = normalizeTimestampPair(
-    pickFirstValue(raw, ['shiftEndingDate', 'shiftendingdate', 'end_date', 'end', 'end_at']),
-    pickFirstValue(raw, ['shiftEndingTime', 'shiftendingtime', 'end_time', 'endTime']),
-    defaultShiftEndIso
-  );
-  end = ensureShiftEndAfterStart(start, end);
-  const title =
-    pickValue(raw, ['title', 'shiftTitle', 'name', 'shift_name', 'ShiftTitle']) ?? 'Shift';
-  const objectMeta = raw.object as Record<string, unknown> | undefined;
-  const location =
-    pickValue(raw, ['location', 'address', 'shiftLocation', 'shift_location']) ??
-    pickValue(raw, ['objectAddress', 'shiftAddress', 'object_address']) ??
-    (objectMeta ? pickValue(objectMeta, ['address']) : undefined) ??
-    'TBD';
-  const objectName =
-    pickValue(raw, [
-      'objectTitle',
-      'objectName',
-      'shiftObject',
-      'shiftobject',
-      'shiftLocation',
-      'locationName',
-    ]) ?? (objectMeta ? pickValue(objectMeta, ['title']) : undefined);
-  const objectAddress =
-    pickValue(raw, ['objectAddress', 'shiftAddress', 'address', 'object_address']) ??
-    (objectMeta ? pickValue(objectMeta, ['address']) : undefined);
-  const objectContactName =
-    pickValue(raw, ['objectContactName', 'contactName', 'opsName']) ??
-    (objectMeta ? pickValue(objectMeta, ['contactName', 'opsName']) : undefined);
-  const objectContactPhone =
-    pickValue(raw, ['objectContactPhone', 'contactPhone', 'opsPhone', 'phone']) ??
-    (objectMeta ? pickValue(objectMeta, ['contactPhone', 'opsPhone', 'phone']) : undefined);
-  const objectContactEmail =
-    pickValue(raw, ['objectContactEmail', 'contactEmail', 'opsEmail', 'email']) ??
-    (objectMeta ? pickValue(objectMeta, ['contactEmail', 'opsEmail', 'email']) : undefined);
-  const description = pickValue(raw, ['description', 'shiftDescription']);
-  const statusValue = pickValue(raw, ['status', 'shiftStatus']) ?? 'scheduled';
+/** Every non-empty value across the columns, for fields merged from shift and site. */
+const pickAllValues = (raw: Record<string, unknown>, columns: ShiftSchemaColumn[]): unknown[] =>
+  columns
+    .map((entry) => readSchemaColumn(raw, entry))
+    .filter((value) => value !== undefined && value !== null);
+
+type MappedShiftRecord = {
+  shift: Shift;
+  startAdapterId?: string;
+  defaultedFields: DefaultedShiftField['field'][];
+};
+
+const mapShiftRecordWithSources = (
+  raw: Record<string, unknown>,
+  schema: ResolvedShiftSchema
+): MappedShiftRecord => {
+  const timeZoneValue = pickValue(raw, schema.timeZone)?.trim();
+  const timeZone = isValidTimeZone(timeZoneValue) ? timeZoneValue : undefined;
+  const startDate = pickFirstValue(raw, schema.startDate);
+  const startTime = pickFirstValue(raw, schema.startTime);
+  const endDate = pickFirstValue(raw, schema.endDate);
+  const endTime = pickFirstValue(raw, schema.endTime);
+  const start = normalizeTimestampPair(startDate.value, startTime.value, defaultShiftStartIso, timeZone);
+  let end = normalizeTimestampPair(endDate.value, endTime.value, defaultShiftEndIso, timeZone);
+  end = ensureShiftEndAfterStart(start, end, timeZone);
+  const defaultedFields: DefaultedShiftField['field'][] = [];
+  if (startDate.value === undefined && startTime.value === undefined) defaultedFields.push('start');
+  if (endDate.value === undefined && endTime.value === undefined) defaultedFields.push('end');
+
+  const idValue = pickFirstValue(raw, schema.id).value;
+  const description = pickValue(raw, schema.description);
+  const statusValue = pickValue(raw, schema.status) ?? 'scheduled';
   return {
-    id: (typeof raw.id === 'string' && raw.id) || 'unknown',
-    title,
-    location,
-    objectName,
-    objectAddress,
-    objectContactName,
-    objectContactPhone,
-    objectContactEmail,
-    start,
-    end,
-    status: normalizeStatus(statusValue),
-    description: description ?? undefined,
+    shift: {
+      id: (typeof idValue === 'string' && idValue) || 'unknown',
+      title: pickValue(raw, schema.title) ?? 'Shift',
+      location: pickValue(raw, schema.location) ?? 'TBD',
+      objectId: pickValue(raw, schema.objectId),
+      objectName: pickValue(raw, schema.objectName),
+      objectAddress: pickValue(raw, schema.objectAddress),
+      objectContactName: pickValue(raw, schema.objectContactName),
+      objectContactPhone: pickValue(raw, schema.objectContactPhone),
+      objectContactEmail: pickValue(raw, schema.objectContactEmail),
+      start,
+      end,
+      status: normalizeStatus(statusValue),
+      description: description ?? undefined,
+      timeZone,
+      confirmBy: normalizeInstant(pickFirstValue(raw, schema.confirmBy).value, timeZone),
+      qualifications: normalizeStringList(pickFirstValue(raw, schema.qualifications).value),
+      breaks: parseShiftBreaks(
+        pickFirstValue(raw, schema.breaks).value,
+        pickFirstValue(raw, schema.breakMinutes).value,
+        { start, timeZone }
+      ),
+      role: pickValue(raw, schema.role)?.trim(),
+      pay: parseShiftPay(
+        pickFirstValue(raw, schema.hourlyRate).value,
+        pickValue(raw, schema.currency),
+        pickFirstValue(raw, schema.premiums).value
+      ),
+      dressCode: pickValue(raw, schema.dressCode)?.trim(),
+      attachments: parseShiftAttachments(...pickAllValues(raw, schema.attachments)),
+      series: parseShiftSeriesRef(
+        pickFirstValue(raw, schema.seriesId).value,
+        pickValue(raw, schema.recurrenceRule),
+        pickFirstValue(raw, schema.seriesEndsOn).value
+      ),
+      geofence: parseShiftGeofence(
+        pickFirstValue(raw, schema.latitude).value,
+        pickFirstValue(raw, schema.longitude).value,
+        pickFirstValue(raw, schema.geofenceRadius).value
+      ),
+    },
+    startAdapterId: startDate.adapterId ?? startTime.adapterId,
+    defaultedFields,
   };
 };
 
+export const mapShiftRecord = (
+  raw: Record<string, unknown>,
+  schema: ResolvedShiftSchema = getShiftSchema()
+): Shift => mapShiftRecordWithSources(raw, schema).shift;
+
 export const sortShiftsByStart = (list: Shift[]): Shift[] =>
   [...list].sort((a, b) => {
     const aTime = Number(new Date(a.start));
@@ -154,11 +326,24 @@ export const sortShiftsByStart = (list: Shift[]): Shift[] =>
     return aTime - bTime;
   });
 
-export const mapShiftArray = (
+/**
+ * Maps shift rows and reports what happened to each of them: rows without an id
+ * are dropped, rows without start or end columns fall back to default times.
+ */
+export const mapShiftArrayWithDiagnostics = (
   data?: Record<string, unknown>[],
-  assignments?: AssignmentMeta[]
-): Shift[] => {
-  if (!data?.length) return [];
+  assignments?: AssignmentMeta[],
+  schema: ResolvedShiftSchema = getShiftSchema()
+): { shifts: Shift[]; diagnostics: ShiftMappingDiagnostics } => {
+  const diagnostics: ShiftMappingDiagnostics = {
+    total: data?.length ?? 0,
+    mapped: 0,
+    hidden: 0,
+    dropped: [],
+    defaulted: [],
+    adapterUsage: {},
+  };
+  if (!data?.length) return { shifts: [], diagnostics };
   const assignmentByShiftId = new Map<string, AssignmentMeta>();
   assignments?.forEach((assignment) => {
     if (assignment.shiftId) {
@@ -167,20 +352,64 @@ export const mapShiftArray = (
   });
 
   const parsed: Shift[] = [];
-  data.forEach((row) => {
-    const shift = mapShiftRecord(row);
-    if (shift.id === 'unknown') return;
+  data.forEach((row, index) => {
+    const { shift, startAdapterId, defaultedFields } = mapShiftRecordWithSources(row, schema);
+    if (shift.id === 'unknown') {
+      diagnostics.dropped.push({ index, reason: 'missing-id', columns: Object.keys(row) });
+      return;
+    }
+    defaultedFields.forEach((field) => {
+      diagnostics.defaulted.push({ index, shiftId: shift.id, field });
+    });
+    if (startAdapterId) {
+      diagnostics.adapterUsage[startAdapterId] = (diagnostics.adapterUsage[startAdapterId] ?? 0) + 1;
+    }
     const assignment = assignmentByShiftId.get(shift.id);
     const confirmationStatus = normalizeShiftConfirmationStatus(assignment?.confirmationStatus);
     if (!isShiftVisibleToEmployee(confirmationStatus)) {
+      diagnostics.hidden += 1;
       return;
     }
-    parsed.push({
-      ...shift,
-      assignmentId: assignment?.assignmentId,
-      confirmationStatus,
-      confirmedAt: assignment?.confirmedAt,
-    });
+    diagnostics.mapped += 1;
+    parsed.push(withAssignmentMeta(shift, assignment, confirmationStatus));
   });
-  return sortShiftsByStart(parsed);
+  return { shifts: sortShiftsByStart(parsed), diagnostics };
+};
+
+export const withAssignmentMeta = (
+  shift: Shift,
+  assignment: AssignmentMeta | undefined,
+  confirmationStatus: ShiftConfirmationStatus = normalizeShiftConfirmationStatus(
+    assignment?.confirmationStatus
+  )
+): Shift => ({
+  ...shift,
+  assignmentId: assignment?.assignmentId,
+  confirmationStatus,
+  confirmedAt: assignment?.confirmedAt,
+  declineReason: parseShiftDeclineReason(assignment?.declineReason),
+  declineNote: assignment?.declineNote,
+  declinedAt: assignment?.declinedAt,
+});
+
+export const toAssignmentMeta = (shift: Shift): AssignmentMeta => ({
+  assignmentId: shift.assignmentId,
+  shiftId: shift.id,
+  confirmationStatus: shift.confirmationStatus,
+  confirmedAt: shift.confirmedAt,
+  declineReason: shift.declineReason,
+  declineNote: shift.declineNote,
+  declinedAt: shift.declinedAt,
+});
+
+export const mapShiftArray = (
+  data?: Record<string, unknown>[],
+  assignments?: AssignmentMeta[],
+  options: ShiftMappingOptions = {}
+): Shift[] => {
+  const { shifts, diagnostics } = mapShiftArrayWithDiagnostics(data, assignments, options.schema);
+  if (diagnostics.dropped.length || diagnostics.defaulted.length) {
+    options.onDiagnostics?.(diagnostics);
+  }
+  return shifts;
 };
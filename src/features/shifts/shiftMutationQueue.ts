@@ -0,0 +1,244 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  type ShiftConfirmationStatus,
+  normalizeShiftConfirmationStatus,
+} from '../../lib/shiftConfirmationStatus';
+import type { Shift } from './shiftMapping';
+
+export type QueuedShiftMutation = {
+  id: string;
+  type: 'confirm';
+  assignmentId: string;
+  shiftId?: string;
+  expectedStatus: ShiftConfirmationStatus;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+};
+
+/** `retries-exhausted`: the confirmation kept failing and was dropped from the queue. */
+export type ShiftMutationConflictReason = 'assignment-missing' | 'status-changed' | 'retries-exhausted';
+
+export type ShiftMutationConflict = {
+  mutation: QueuedShiftMutation;
+  reason: ShiftMutationConflictReason;
+  serverStatus?: ShiftConfirmationStatus;
+};
+
+export type ShiftMutationExecutor = {
+  fetchAssignmentStatus: (assignmentId: string) => Promise<{ confirmationStatus?: string } | null>;
+  confirm: (assignmentId: string) => Promise<void>;
+};
+
+export type ShiftMutationReplayResult = {
+  applied: QueuedShiftMutation[];
+  conflicts: ShiftMutationConflict[];
+  failed: QueuedShiftMutation[];
+  remaining: QueuedShiftMutation[];
+};
+
+type QueuedMutationResolution = 'apply' | 'already-applied' | 'assignment-missing' | 'status-changed';
+
+const SHIFT_MUTATION_QUEUE_PREFIX = 'shiftor:shift-mutation-queue';
+export const MAX_SHIFT_MUTATION_ATTEMPTS = 5;
+
+const queueKey = (employeeId: string) => `${SHIFT_MUTATION_QUEUE_PREFIX}:${employeeId}`;
+
+const queueListeners = new Map<string, Set<(queue: QueuedShiftMutation[]) => void>>();
+const replaysInFlight = new Map<string, Promise<ShiftMutationReplayResult>>();
+
+const isQueuedShiftMutation = (value: unknown): value is QueuedShiftMutation => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<QueuedShiftMutation>;
+  return (
+    typeof entry.id === 'string' &&
+    entry.type === 'confirm' &&
+    typeof entry.assignmentId === 'string' &&
+    typeof entry.expectedStatus === 'string' &&
+    typeof entry.queuedAt === 'string' &&
+    typeof entry.attempts === 'number'
+  );
+};
+
+const isConfirmedStatus = (status: ShiftConfirmationStatus) =>
+  status === 'confirmed' || status === 'confirmed by employee';
+
+export const isNetworkError = (error: unknown) => {
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === 'object' && error !== null && 'message' in error
+      ? String((error as { message?: unknown }).message)
+      : '';
+  return /network request failed|failed to fetch|network ?error|timed? ?out|offline/i.test(message);
+};
+
+export const parseShiftMutationQueue = (value: string | null): QueuedShiftMutation[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isQueuedShiftMutation) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const createConfirmShiftMutation = (
+  shift: Pick<Shift, 'id' | 'assignmentId' | 'confirmationStatus'>,
+  now = new Date()
+): QueuedShiftMutation | null => {
+  if (!shift.assignmentId) return null;
+  return {
+    id: `confirm:${shift.assignmentId}:${now.getTime()}`,
+    type: 'confirm',
+    assignmentId: shift.assignmentId,
+    shiftId: shift.id,
+    expectedStatus: normalizeShiftConfirmationStatus(shift.confirmationStatus),
+    queuedAt: now.toISOString(),
+    attempts: 0,
+  };
+};
+
+export const resolveQueuedMutation = (
+  mutation: QueuedShiftMutation,
+  serverRow: { confirmationStatus?: string } | null
+): QueuedMutationResolution => {
+  if (!serverRow) return 'assignment-missing';
+  const serverStatus = normalizeShiftConfirmationStatus(serverRow.confirmationStatus);
+  if (isConfirmedStatus(serverStatus)) return 'already-applied';
+  if (serverStatus !== mutation.expectedStatus) return 'status-changed';
+  return 'apply';
+};
+
+/**
+ * Overlays queued confirmations on a shift list so the feed reflects what the
+ * employee already did while offline.
+ */
+export const applyQueuedShiftMutations = (
+  shifts: Shift[],
+  queue: QueuedShiftMutation[]
+): Shift[] => {
+  if (!queue.length) return shifts;
+  const pendingAssignmentIds = new Set(queue.map((mutation) => mutation.assignmentId));
+  return shifts.map((shift) =>
+    shift.assignmentId && pendingAssignmentIds.has(shift.assignmentId)
+      ? { ...shift, confirmationStatus: 'confirmed by employee', pendingSync: true }
+      : shift
+  );
+};
+
+/**
+ * Replays queued mutations strictly in order. The first failure that stays
+ * queued stops the replay so later entries are never applied ahead of earlier
+ * ones; entries out of attempts are dropped and reported as conflicts.
+ */
+export const replayShiftMutations = async (
+  queue: QueuedShiftMutation[],
+  executor: ShiftMutationExecutor
+): Promise<ShiftMutationReplayResult> => {
+  const result: ShiftMutationReplayResult = { applied: [], conflicts: [], failed: [], remaining: [] };
+
+  for (let index = 0; index < queue.length; index += 1) {
+    const mutation = queue[index];
+    try {
+      const serverRow = await executor.fetchAssignmentStatus(mutation.assignmentId);
+      const resolution = resolveQueuedMutation(mutation, serverRow);
+      if (resolution === 'assignment-missing' || resolution === 'status-changed') {
+        result.conflicts.push({
+          mutation,
+          reason: resolution,
+          serverStatus: serverRow
+            ? normalizeShiftConfirmationStatus(serverRow.confirmationStatus)
+            : undefined,
+        });
+        continue;
+      }
+      if (resolution === 'apply') {
+        await executor.confirm(mutation.assignmentId);
+      }
+      result.applied.push(mutation);
+    } catch (error) {
+      const nextMutation: QueuedShiftMutation = {
+        ...mutation,
+        attempts: mutation.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+      if (!isNetworkError(error) && nextMutation.attempts >= MAX_SHIFT_MUTATION_ATTEMPTS) {
+        result.failed.push(nextMutation);
+        result.conflicts.push({ mutation: nextMutation, reason: 'retries-exhausted' });
+        continue;
+      }
+      result.remaining.push(nextMutation, ...queue.slice(index + 1));
+      break;
+    }
+  }
+
+  return result;
+};
+
+const notifyQueueListeners = (employeeId: string, queue: QueuedShiftMutation[]) => {
+  queueListeners.get(employeeId)?.forEach((listener) => listener(queue));
+};
+
+export const loadShiftMutationQueue = async (employeeId?: string | null) => {
+  if (!employeeId) return [];
+  return parseShiftMutationQueue(await AsyncStorage.getItem(queueKey(employeeId)));
+};
+
+const saveShiftMutationQueue = async (employeeId: string, queue: QueuedShiftMutation[]) => {
+  if (queue.length) {
+    await AsyncStorage.setItem(queueKey(employeeId), JSON.stringify(queue));
+  } else {
+    await AsyncStorage.removeItem(queueKey(employeeId));
+  }
+  notifyQueueListeners(employeeId, queue);
+  return queue;
+};
+
+export const enqueueShiftMutation = async (employeeId: string, mutation: QueuedShiftMutation) => {
+  const queue = await loadShiftMutationQueue(employeeId);
+  const withoutDuplicate = queue.filter((entry) => entry.assignmentId !== mutation.assignmentId);
+  return saveShiftMutationQueue(employeeId, [...withoutDuplicate, mutation]);
+};
+
+export const subscribeToShiftMutationQueue = (
+  employeeId: string,
+  listener: (queue: QueuedShiftMutation[]) => void
+) => {
+  const listeners = queueListeners.get(employeeId) ?? new Set();
+  listeners.add(listener);
+  queueListeners.set(employeeId, listeners);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) {
+      queueListeners.delete(employeeId);
+    }
+  };
+};
+
+/**
+ * Replays the persisted queue for an employee. Concurrent callers share one
+ * replay so mounted screens never submit the same confirmation twice.
+ */
+export const flushShiftMutationQueue = (employeeId: string, executor: ShiftMutationExecutor) => {
+  const inFlight = replaysInFlight.get(employeeId);
+  if (inFlight) return inFlight;
+
+  const replay = (async () => {
+    const queue = await loadShiftMutationQueue(employeeId);
+    if (!queue.length) {
+      return { applied: [], conflicts: [], failed: [], remaining: [] };
+    }
+    const result = await replayShiftMutations(queue, executor);
+    const latestQueue = await loadShiftMutationQueue(employeeId);
+    const replayedIds = new Set(queue.map((mutation) => mutation.id));
+    const queuedDuringReplay = latestQueue.filter((mutation) => !replayedIds.has(mutation.id));
+    await saveShiftMutationQueue(employeeId, [...result.remaining, ...queuedDuringReplay]);
+    return result;
+  })().finally(() => {
+    replaysInFlight.delete(employeeId);
+  });
+
+  replaysInFlight.set(employeeId, replay);
+  return replay;
+};
@@ -0,0 +1,111 @@
+import { readString } from '../../shared/utils/parseUtils';
+
+export type ShiftRosterMember = {
+  assignmentId: string;
+  employeeId: string;
+  firstName?: string;
+  /** Withheld by the server when the co-worker hides their last name. */
+  lastName?: string;
+  role?: string;
+  isLead: boolean;
+  isSelf: boolean;
+  /** Only present when the co-worker opted in to sharing contact details. */
+  phone?: string;
+  email?: string;
+};
+
+/** The caller's own roster privacy settings. */
+export type ShiftRosterPrivacy = {
+  shareContact: boolean;
+  showLastName: boolean;
+};
+
+export type ShiftRosterResult = {
+  status: 'ok' | 'not_assigned';
+  members: ShiftRosterMember[];
+  privacy: ShiftRosterPrivacy;
+};
+
+export type UpdateShiftRosterPrivacyResult = {
+  ok: boolean;
+  status: 'updated' | 'not_found';
+  privacy: ShiftRosterPrivacy;
+};
+
+export const DEFAULT_SHIFT_ROSTER_PRIVACY: ShiftRosterPrivacy = {
+  shareContact: false,
+  showLastName: true,
+};
+
+const parsePrivacy = (value: unknown): ShiftRosterPrivacy => {
+  if (!value || typeof value !== 'object') return DEFAULT_SHIFT_ROSTER_PRIVACY;
+  const record = value as Record<string, unknown>;
+  return {
+    shareContact: record.shareContact === true,
+    showLastName: record.showLastName !== false,
+  };
+};
+
+export const parseShiftRosterMember = (value: unknown): ShiftRosterMember | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const assignmentId = readString(record.assignmentId);
+  const employeeId = readString(record.employeeId);
+  if (!assignmentId || !employeeId) return null;
+  return {
+    assignmentId,
+    employeeId,
+    firstName: readString(record.firstName),
+    lastName: readString(record.lastName),
+    role: readString(record.role),
+    isLead: record.isLead === true,
+    isSelf: record.isSelf === true,
+    phone: readString(record.phone),
+    email: readString(record.email),
+  };
+};
+
+const memberSortName = (member: ShiftRosterMember) =>
+  [member.firstName, member.lastName].filter(Boolean).join(' ').toLocaleLowerCase();
+
+/** Shift leads first, then the caller, then co-workers by name. */
+export const sortShiftRosterMembers = (members: ShiftRosterMember[]) =>
+  [...members].sort(
+    (a, b) =>
+      Number(b.isLead) - Number(a.isLead) ||
+      Number(b.isSelf) - Number(a.isSelf) ||
+      memberSortName(a).localeCompare(memberSortName(b))
+  );
+
+export const parseShiftRosterResult = (value: unknown): ShiftRosterResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Shift roster returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status === 'not_assigned') {
+    return { status: 'not_assigned', members: [], privacy: parsePrivacy(record.privacy) };
+  }
+  if (record.status !== 'ok' || !Array.isArray(record.members)) {
+    throw new Error('Shift roster returned an unknown status.');
+  }
+  return {
+    status: 'ok',
+    members: sortShiftRosterMembers(record.members.flatMap((member) => parseShiftRosterMember(member) ?? [])),
+    privacy: parsePrivacy(record.privacy),
+  };
+};
+
+export const parseUpdateShiftRosterPrivacyResult = (value: unknown): UpdateShiftRosterPrivacyResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Roster privacy update returned an invalid response.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.status !== 'updated' && record.status !== 'not_found') {
+    throw new Error('Roster privacy update returned an unknown status.');
+  }
+  return { ok: record.ok === true, status: record.status, privacy: parsePrivacy(record.privacy) };
+};
+
+/** "Alex Meyer", or "Alex" when the last name is hidden; null without any name. */
+export const formatShiftRosterName = (member: Pick<ShiftRosterMember, 'firstName' | 'lastName'>) =>
+  [member.firstName, member.lastName].filter(Boolean).join(' ') || null;
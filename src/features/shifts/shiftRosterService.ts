@@ -0,0 +1,50 @@
+import { isMissingBackendError, supabase } from '@lib/supabaseClient';
+import {
+  type ShiftRosterPrivacy,
+  type ShiftRosterResult,
+  type UpdateShiftRosterPrivacyResult,
+  parseShiftRosterResult,
+  parseUpdateShiftRosterPrivacyResult,
+} from './shiftRoster';
+
+const SHIFT_ROSTER_UNAVAILABLE_MESSAGE = 'The team roster is not available yet.';
+
+/** Co-workers assigned to the shift; the server applies each member's privacy settings. */
+export const fetchShiftRoster = async (shiftId: string): Promise<ShiftRosterResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('list_shift_roster', { target_shift_id: shiftId });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(SHIFT_ROSTER_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseShiftRosterResult(data);
+};
+
+export const updateShiftRosterPrivacy = async (
+  privacy: ShiftRosterPrivacy
+): Promise<UpdateShiftRosterPrivacyResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.rpc('update_roster_privacy', {
+    share_contact: privacy.shareContact,
+    show_last_name: privacy.showLastName,
+  });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      throw new Error(SHIFT_ROSTER_UNAVAILABLE_MESSAGE);
+    }
+    throw error;
+  }
+
+  return parseUpdateShiftRosterPrivacyResult(data);
+};
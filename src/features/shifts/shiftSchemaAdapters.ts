@@ -0,0 +1,314 @@
+export type ShiftSchemaField =
+  | 'id'
+  | 'title'
+  | 'startDate'
+  | 'startTime'
+  | 'endDate'
+  | 'endTime'
+  | 'location'
+  | 'objectId'
+  | 'objectName'
+  | 'objectAddress'
+  | 'objectContactName'
+  | 'objectContactPhone'
+  | 'objectContactEmail'
+  | 'description'
+  | 'status'
+  | 'timeZone'
+  | 'confirmBy'
+  | 'qualifications'
+  | 'breaks'
+  | 'breakMinutes'
+  | 'role'
+  | 'hourlyRate'
+  | 'currency'
+  | 'premiums'
+  | 'dressCode'
+  | 'attachments'
+  | 'seriesId'
+  | 'recurrenceRule'
+  | 'seriesEndsOn'
+  | 'latitude'
+  | 'longitude'
+  | 'geofenceRadius';
+
+export type ShiftSchemaFieldMap = Partial<Record<ShiftSchemaField, string[]>>;
+
+/**
+ * Describes how one backend schema generation names its shift columns. Adapters
+ * with a higher version are consulted first; equal versions keep registration order.
+ */
+export type ShiftSchemaAdapter = {
+  id: string;
+  version: number;
+  label: string;
+  /** Columns on the shift row, in lookup order. */
+  fields: ShiftSchemaFieldMap;
+  /** Columns on the embedded `object` relation, consulted after all row columns. */
+  objectFields?: ShiftSchemaFieldMap;
+};
+
+export type ShiftSchemaColumn = {
+  column: string;
+  adapterId: string;
+  source: 'row' | 'object';
+};
+
+export type ResolvedShiftSchema = Record<ShiftSchemaField, ShiftSchemaColumn[]>;
+
+export const SHIFT_SCHEMA_FIELDS: ShiftSchemaField[] = [
+  'id',
+  'title',
+  'startDate',
+  'startTime',
+  'endDate',
+  'endTime',
+  'location',
+  'objectId',
+  'objectName',
+  'objectAddress',
+  'objectContactName',
+  'objectContactPhone',
+  'objectContactEmail',
+  'description',
+  'status',
+  'timeZone',
+  'confirmBy',
+  'qualifications',
+  'breaks',
+  'breakMinutes',
+  'role',
+  'hourlyRate',
+  'currency',
+  'premiums',
+  'dressCode',
+  'attachments',
+  'seriesId',
+  'recurrenceRule',
+  'seriesEndsOn',
+  'latitude',
+  'longitude',
+  'geofenceRadius',
+];
+
+export const BUILT_IN_SHIFT_SCHEMA_ADAPTERS: ShiftSchemaAdapter[] = [
+  {
+    id: 'shiftor-camel',
+    version: 2,
+    label: 'Shiftor quoted camelCase columns',
+    fields: {
+      id: ['id'],
+      title: ['title', 'shiftTitle', 'ShiftTitle'],
+      startDate: ['shiftStartingDate'],
+      startTime: ['shiftStartingTime', 'startTime'],
+      endDate: ['shiftEndingDate'],
+      endTime: ['shiftEndingTime', 'endTime'],
+      location: ['location', 'address', 'shiftLocation', 'objectAddress', 'shiftAddress'],
+      objectId: ['objectId'],
+      objectName: ['objectTitle', 'objectName', 'shiftObject', 'shiftLocation', 'locationName'],
+      objectAddress: ['objectAddress', 'shiftAddress', 'address'],
+      objectContactName: ['objectContactName', 'contactName', 'opsName'],
+      objectContactPhone: ['objectContactPhone', 'contactPhone', 'opsPhone', 'phone'],
+      objectContactEmail: ['objectContactEmail', 'contactEmail', 'opsEmail', 'email'],
+      description: ['description', 'shiftDescription'],
+      status: ['status', 'shiftStatus'],
+      timeZone: ['timeZone', 'siteTimeZone'],
+      confirmBy: ['confirmBy', 'confirmationDeadline'],
+      qualifications: ['requiredQualifications', 'qualifications'],
+      breaks: ['breaks', 'scheduledBreaks'],
+      breakMinutes: ['breakMinutes', 'breakDuration'],
+      role: ['role', 'position', 'shiftRole'],
+      hourlyRate: ['hourlyRate', 'payRate'],
+      currency: ['currency', 'payCurrency'],
+      premiums: ['premiums', 'payPremiums'],
+      dressCode: ['dressCode'],
+      attachments: ['attachments'],
+      seriesId: ['seriesId', 'shiftSeriesId', 'recurrenceId'],
+      recurrenceRule: ['recurrenceRule', 'rrule'],
+      seriesEndsOn: ['seriesEndsOn', 'recurrenceEndsOn'],
+      latitude: ['objectLatitude'],
+      longitude: ['objectLongitude'],
+      geofenceRadius: ['geofenceRadiusMeters'],
+    },
+    objectFields: {
+      location: ['address'],
+      objectId: ['id'],
+      objectName: ['title'],
+      objectAddress: ['address'],
+      objectContactName: ['contactName', 'opsName'],
+      objectContactPhone: ['contactPhone', 'opsPhone', 'phone'],
+      objectContactEmail: ['contactEmail', 'opsEmail', 'email'],
+      timeZone: ['timeZone'],
+      dressCode: ['dressCode'],
+      attachments: ['attachments', 'siteFiles'],
+      latitude: ['latitude', 'lat'],
+      longitude: ['longitude', 'lng'],
+      geofenceRadius: ['geofenceRadiusMeters', 'geofenceRadius'],
+    },
+  },
+  {
+    id: 'shiftor-lowercase',
+    version: 2,
+    label: 'Shiftor unquoted columns folded to lowercase',
+    fields: {
+      startDate: ['shiftstartingdate'],
+      startTime: ['shiftstartingtime'],
+      endDate: ['shiftendingdate'],
+      endTime: ['shiftendingtime'],
+      objectId: ['objectid'],
+      objectName: ['shiftobject'],
+      timeZone: ['timezone', 'sitetimezone'],
+      confirmBy: ['confirmby', 'confirmationdeadline'],
+      qualifications: ['requiredqualifications'],
+      breaks: ['scheduledbreaks'],
+      breakMinutes: ['breakminutes', 'breakduration'],
+      role: ['shiftrole'],
+      hourlyRate: ['hourlyrate', 'payrate'],
+      currency: ['paycurrency'],
+      premiums: ['paypremiums'],
+      dressCode: ['dresscode'],
+      seriesId: ['seriesid', 'shiftseriesid'],
+      recurrenceRule: ['recurrencerule'],
+      seriesEndsOn: ['seriesendson'],
+      latitude: ['objectlatitude'],
+      longitude: ['objectlongitude'],
+      geofenceRadius: ['geofenceradiusmeters'],
+    },
+    objectFields: {
+      timeZone: ['timezone'],
+      dressCode: ['dresscode'],
+      attachments: ['sitefiles'],
+      geofenceRadius: ['geofenceradiusmeters', 'geofenceradius'],
+    },
+  },
+  {
+    id: 'legacy-snake',
+    version: 1,
+    label: 'Legacy snake_case columns',
+    fields: {
+      title: ['name', 'shift_name'],
+      startDate: ['start_date', 'start', 'start_at'],
+      startTime: ['start_time'],
+      endDate: ['end_date', 'end', 'end_at'],
+      endTime: ['end_time'],
+      location: ['shift_location', 'object_address'],
+      objectId: ['object_id'],
+      objectAddress: ['object_address'],
+      timeZone: ['time_zone'],
+      confirmBy: ['confirm_by', 'confirmation_deadline'],
+      qualifications: ['required_qualifications'],
+      breaks: ['scheduled_breaks'],
+      breakMinutes: ['break_minutes', 'break_duration'],
+      role: ['shift_role'],
+      hourlyRate: ['hourly_rate', 'pay_rate'],
+      currency: ['pay_currency'],
+      premiums: ['pay_premiums'],
+      dressCode: ['dress_code'],
+      seriesId: ['series_id', 'recurrence_id'],
+      recurrenceRule: ['recurrence_rule'],
+      seriesEndsOn: ['series_ends_on'],
+      latitude: ['object_latitude'],
+      longitude: ['object_longitude'],
+      geofenceRadius: ['geofence_radius_meters'],
+    },
+    objectFields: {
+      timeZone: ['time_zone'],
+      dressCode: ['dress_code'],
+      attachments: ['site_files'],
+      geofenceRadius: ['geofence_radius_meters', 'geofence_radius'],
+    },
+  },
+];
+
+let registeredAdapters: ShiftSchemaAdapter[] = [...BUILT_IN_SHIFT_SCHEMA_ADAPTERS];
+let resolvedSchema: ResolvedShiftSchema | null = null;
+
+const isColumnList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((column) => typeof column === 'string' && column.trim().length > 0);
+
+const validateFieldMap = (adapterId: string, map: ShiftSchemaFieldMap | undefined) => {
+  if (!map) return;
+  Object.entries(map).forEach(([field, columns]) => {
+    if (!SHIFT_SCHEMA_FIELDS.includes(field as ShiftSchemaField)) {
+      throw new Error(`Shift schema adapter ${adapterId} maps unknown field "${field}".`);
+    }
+    if (!isColumnList(columns)) {
+      throw new Error(`Shift schema adapter ${adapterId} has invalid columns for "${field}".`);
+    }
+  });
+};
+
+const validateAdapter = (adapter: ShiftSchemaAdapter) => {
+  if (!adapter.id?.trim()) {
+    throw new Error('Shift schema adapter requires an id.');
+  }
+  if (!Number.isFinite(adapter.version)) {
+    throw new Error(`Shift schema adapter ${adapter.id} requires a numeric version.`);
+  }
+  validateFieldMap(adapter.id, adapter.fields);
+  validateFieldMap(adapter.id, adapter.objectFields);
+};
+
+const orderAdapters = (adapters: ShiftSchemaAdapter[]) =>
+  adapters
+    .map((adapter, index) => ({ adapter, index }))
+    .sort((a, b) => b.adapter.version - a.adapter.version || a.index - b.index)
+    .map(({ adapter }) => adapter);
+
+/**
+ * Flattens adapters into one lookup list per field: every adapter's row columns
+ * in priority order, followed by their embedded object columns.
+ */
+export const resolveShiftSchema = (adapters: ShiftSchemaAdapter[]): ResolvedShiftSchema => {
+  const ordered = orderAdapters(adapters);
+  const schema = {} as ResolvedShiftSchema;
+  SHIFT_SCHEMA_FIELDS.forEach((field) => {
+    const seen = new Set<string>();
+    const columns: ShiftSchemaColumn[] = [];
+    const append = (source: ShiftSchemaColumn['source'], adapter: ShiftSchemaAdapter) => {
+      const map = source === 'row' ? adapter.fields : adapter.objectFields;
+      map?.[field]?.forEach((column) => {
+        const key = `${source}:${column}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        columns.push({ column, adapterId: adapter.id, source });
+      });
+    };
+    ordered.forEach((adapter) => append('row', adapter));
+    ordered.forEach((adapter) => append('object', adapter));
+    schema[field] = columns;
+  });
+  return schema;
+};
+
+export const getShiftSchema = (): ResolvedShiftSchema => {
+  if (!resolvedSchema) {
+    resolvedSchema = resolveShiftSchema(registeredAdapters);
+  }
+  return resolvedSchema;
+};
+
+/** Row column names for a field, as used by the realtime change detector. */
+export const getShiftSchemaColumns = (
+  field: ShiftSchemaField,
+  schema: ResolvedShiftSchema = getShiftSchema()
+) => schema[field].filter((entry) => entry.source === 'row').map((entry) => entry.column);
+
+export const listShiftSchemaAdapters = () => orderAdapters(registeredAdapters);
+
+/** Adds a tenant adapter, replacing any registered adapter with the same id. */
+export const registerShiftSchemaAdapter = (adapter: ShiftSchemaAdapter) => {
+  validateAdapter(adapter);
+  registeredAdapters = [...registeredAdapters.filter((entry) => entry.id !== adapter.id), adapter];
+  resolvedSchema = null;
+};
+
+export const unregisterShiftSchemaAdapter = (adapterId: string) => {
+  registeredAdapters = registeredAdapters.filter((entry) => entry.id !== adapterId);
+  resolvedSchema = null;
+};
+
+export const resetShiftSchemaAdapters = () => {
+  registeredAdapters = [...BUILT_IN_SHIFT_SCHEMA_ADAPTERS];
+  resolvedSchema = null;
+};
@@ -0,0 +1,206 @@
+import {
+  isShiftAwaitingResponse,
+  normalizeShiftConfirmationStatus,
+} from '../../lib/shiftConfirmationStatus';
+import { getZonedDateParts, getZonedDayKey } from '../../shared/utils/timeUtils';
+import type { Shift } from './shiftMapping';
+
+export type ShiftSeriesWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/** The subset of RFC 5545 recurrence rules planners use for shift patterns. */
+export type ShiftRecurrence = {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  byDay: ShiftSeriesWeekday[];
+  /** `YYYY-MM-DD` of the last possible occurrence. */
+  until?: string;
+  count?: number;
+};
+
+export type ShiftSeriesRef = {
+  id: string;
+  /** RRULE text as stored on the shift, e.g. `FREQ=WEEKLY;BYDAY=MO,WE`. */
+  rule?: string;
+  /** `YYYY-MM-DD` of the series' last day when the planner set one. */
+  endsOn?: string;
+};
+
+type SeriesShift = Pick<Shift, 'id' | 'start' | 'end' | 'timeZone' | 'series'>;
+
+export type ShiftSeriesGroup<T extends SeriesShift = SeriesShift> = {
+  seriesId: string;
+  /** Occurrences in the loaded feed, earliest first. */
+  shifts: T[];
+  recurrence: ShiftRecurrence | null;
+  /** Weekdays from the rule, or the ones the loaded occurrences fall on. */
+  weekdays: ShiftSeriesWeekday[];
+  /** Site wall-clock `HH:MM` of the first occurrence. */
+  startTime: string;
+  endTime: string;
+  /** `YYYY-MM-DD` the series runs until, when the rule or the planner sets an end. */
+  until?: string;
+};
+
+export const SHIFT_SERIES_WEEKDAYS: ShiftSeriesWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isWeekday = (value: string): value is ShiftSeriesWeekday =>
+  SHIFT_SERIES_WEEKDAYS.includes(value as ShiftSeriesWeekday);
+
+const parseRuleDate = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z?)?$/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+const dayKeyToUtcMs = (dayKey: string) => Date.parse(`${dayKey}T00:00:00Z`);
+
+const utcMsToDayKey = (value: number) => new Date(value).toISOString().slice(0, 10);
+
+/** Monday-based weekday of a `YYYY-MM-DD` key. */
+export const getDayKeyWeekday = (dayKey: string): ShiftSeriesWeekday =>
+  SHIFT_SERIES_WEEKDAYS[(new Date(dayKeyToUtcMs(dayKey)).getUTCDay() + 6) % 7];
+
+export const parseRecurrenceRule = (value?: string | null): ShiftRecurrence | null => {
+  if (!value?.trim()) return null;
+  const fields = new Map(
+    value
+      .trim()
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map((part) => part.split('=') as [string, string | undefined])
+      .map(([key, fieldValue]) => [key.trim().toUpperCase(), fieldValue?.trim().toUpperCase() ?? ''])
+  );
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') return null;
+  const interval = Number(fields.get('INTERVAL') ?? 1);
+  const count = fields.has('COUNT') ? Number(fields.get('COUNT')) : undefined;
+  const until = fields.has('UNTIL') ? parseRuleDate(fields.get('UNTIL') ?? '') : undefined;
+  const byDay = (fields.get('BYDAY') ?? '').split(',').filter(Boolean);
+  if (
+    !Number.isInteger(interval) ||
+    interval < 1 ||
+    (count !== undefined && (!Number.isInteger(count) || count < 1)) ||
+    (fields.has('UNTIL') && !until) ||
+    !byDay.every(isWeekday)
+  ) {
+    return null;
+  }
+  return {
+    freq,
+    interval,
+    byDay: SHIFT_SERIES_WEEKDAYS.filter((day) => byDay.includes(day)),
+    until,
+    count,
+  };
+};
+
+const readText = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined;
+
+/** Series reference of a shift row; rows without a series id are standalone. */
+export const parseShiftSeriesRef = (id: unknown, rule: unknown, endsOn: unknown): ShiftSeriesRef | undefined => {
+  const seriesId = readText(id);
+  if (!seriesId) return undefined;
+  const endDay = readText(endsOn)?.slice(0, 10);
+  return {
+    id: seriesId,
+    rule: readText(rule),
+    endsOn: endDay && /^\d{4}-\d{2}-\d{2}$/.test(endDay) ? endDay : undefined,
+  };
+};
+
+const formatWallTime = (value: string, timeZone?: string) => {
+  const parts = getZonedDateParts(value, timeZone);
+  return parts ? `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}` : '';
+};
+
+const getShiftDayKey = (shift: Pick<Shift, 'start' | 'timeZone'>) => getZonedDayKey(shift.start, shift.timeZone);
+
+/** Groups shifts of the same series; standalone shifts are left out. */
+export const groupShiftSeries = <T extends SeriesShift>(shifts: T[]): Map<string, ShiftSeriesGroup<T>> => {
+  const bySeries = new Map<string, T[]>();
+  shifts.forEach((shift) => {
+    if (!shift.series?.id) return;
+    bySeries.set(shift.series.id, [...(bySeries.get(shift.series.id) ?? []), shift]);
+  });
+
+  const groups = new Map<string, ShiftSeriesGroup<T>>();
+  bySeries.forEach((members, seriesId) => {
+    const ordered = [...members].sort((a, b) => a.start.localeCompare(b.start));
+    const first = ordered[0];
+    const recurrence = parseRecurrenceRule(ordered.find((shift) => shift.series?.rule)?.series?.rule);
+    const dayKeys = ordered.map(getShiftDayKey).filter((key): key is string => Boolean(key));
+    const derivedWeekdays = SHIFT_SERIES_WEEKDAYS.filter((day) =>
+      dayKeys.some((key) => getDayKeyWeekday(key) === day)
+    );
+    groups.set(seriesId, {
+      seriesId,
+      shifts: ordered,
+      recurrence,
+      weekdays: recurrence?.byDay.length ? recurrence.byDay : derivedWeekdays,
+      startTime: formatWallTime(first.start, first.timeZone),
+      endTime: formatWallTime(first.end, first.timeZone),
+      until: recurrence?.until ?? ordered.find((shift) => shift.series?.endsOn)?.series?.endsOn,
+    });
+  });
+  return groups;
+};
+
+/** Upcoming occurrences the employee has not answered yet. */
+export const getOpenSeriesShifts = <T extends SeriesShift & { assignmentId?: string; confirmationStatus?: string }>(
+  group: ShiftSeriesGroup<T>,
+  now: Date = new Date()
+) =>
+  group.shifts.filter(
+    (shift) =>
+      Boolean(shift.assignmentId) &&
+      new Date(shift.start).getTime() > now.getTime() &&
+      isShiftAwaitingResponse(normalizeShiftConfirmationStatus(shift.confirmationStatus))
+  );
+
+/**
+ * Day keys the rule produces from `firstDay` through `lastDay`. Weeks start on
+ * Monday; a weekly rule without BYDAY repeats on the first day's weekday.
+ */
+export const expandShiftRecurrence = (
+  recurrence: ShiftRecurrence,
+  firstDay: string,
+  lastDay: string
+): string[] => {
+  const endMs = Math.min(
+    dayKeyToUtcMs(lastDay),
+    recurrence.until ? dayKeyToUtcMs(recurrence.until) : Number.POSITIVE_INFINITY
+  );
+  const firstMs = dayKeyToUtcMs(firstDay);
+  if (Number.isNaN(firstMs) || Number.isNaN(endMs)) return [];
+  const days: string[] = [];
+  const isComplete = () => recurrence.count !== undefined && days.length >= recurrence.count;
+  const push = (ms: number) => {
+    if (ms >= firstMs && ms <= endMs && !isComplete()) days.push(utcMsToDayKey(ms));
+  };
+
+  if (recurrence.freq === 'DAILY') {
+    for (let ms = firstMs; ms <= endMs && !isComplete(); ms += recurrence.interval * DAY_MS) {
+      if (!recurrence.byDay.length || recurrence.byDay.includes(getDayKeyWeekday(utcMsToDayKey(ms)))) push(ms);
+    }
+    return days;
+  }
+
+  const weekdays = recurrence.byDay.length ? recurrence.byDay : [getDayKeyWeekday(firstDay)];
+  const weekStartMs = firstMs - SHIFT_SERIES_WEEKDAYS.indexOf(getDayKeyWeekday(firstDay)) * DAY_MS;
+  for (let weekMs = weekStartMs; weekMs <= endMs && !isComplete(); weekMs += recurrence.interval * 7 * DAY_MS) {
+    weekdays.forEach((day) => push(weekMs + SHIFT_SERIES_WEEKDAYS.indexOf(day) * DAY_MS));
+  }
+  return days;
+};
+
+export const formatRecurrenceRule = (recurrence: ShiftRecurrence, untilUtc?: string) =>
+  [
+    `FREQ=${recurrence.freq}`,
+    recurrence.interval > 1 ? `INTERVAL=${recurrence.interval}` : null,
+    recurrence.byDay.length ? `BYDAY=${recurrence.byDay.join(',')}` : null,
+    untilUtc ? `UNTIL=${untilUtc}` : null,
+  ]
+    .filter(Boolean)
+    .join(';');
@@ -0,0 +1,117 @@
+import { type Shift, sortShiftsByStart } from './shiftMapping';
+
+/** Half-open range of shift start times: `from` is inclusive, `to` exclusive. */
+export type ShiftWindow = {
+  from: string;
+  to: string;
+};
+
+export type ShiftWindowCursor = {
+  start: string;
+  id: string;
+};
+
+export const SHIFT_WINDOW_PAGE_SIZE = 100;
+export const SHIFT_FEED_PAST_MONTHS = 1;
+export const SHIFT_FEED_FUTURE_MONTHS = 3;
+
+const CURSOR_SEPARATOR = '|';
+
+export const getMonthStart = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+const addMonths = (date: Date, offset: number) =>
+  new Date(date.getFullYear(), date.getMonth() + offset, 1);
+
+export const getShiftMonthKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const parseShiftMonthKey = (key: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) return null;
+  return new Date(Number(match[1]), month - 1, 1);
+};
+
+export const getMonthShiftWindow = (month: Date): ShiftWindow => {
+  const monthStart = getMonthStart(month);
+  return {
+    from: monthStart.toISOString(),
+    to: addMonths(monthStart, 1).toISOString(),
+  };
+};
+
+/**
+ * The window kept in the persisted, delta-synced feed. Months outside of it are
+ * fetched on demand by the screens that need them.
+ */
+export const getDefaultShiftFeedWindow = (now = new Date()): ShiftWindow => {
+  const monthStart = getMonthStart(now);
+  return {
+    from: addMonths(monthStart, -SHIFT_FEED_PAST_MONTHS).toISOString(),
+    to: addMonths(monthStart, SHIFT_FEED_FUTURE_MONTHS + 1).toISOString(),
+  };
+};
+
+export const getShiftWindowKey = (window: ShiftWindow) => `${window.from}/${window.to}`;
+
+export const getNeighbourMonths = (month: Date): [Date, Date, Date] => {
+  const monthStart = getMonthStart(month);
+  return [addMonths(monthStart, -1), monthStart, addMonths(monthStart, 1)];
+};
+
+export const isMonthInShiftWindow = (month: Date, window: ShiftWindow) => {
+  const monthWindow = getMonthShiftWindow(month);
+  return (
+    new Date(monthWindow.from).getTime() >= new Date(window.from).getTime() &&
+    new Date(monthWindow.to).getTime() <= new Date(window.to).getTime()
+  );
+};
+
+const toLocalDateKey = (date: Date) =>
+  `${getShiftMonthKey(date)}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * The window as calendar dates for filtering the date-only
+ * `shiftStartingDate` column. Bounds are local midnights, so this matches
+ * `isShiftInWindow` in every UTC offset.
+ */
+export const getShiftWindowDates = (window: ShiftWindow): ShiftWindow => ({
+  from: toLocalDateKey(new Date(window.from)),
+  to: toLocalDateKey(new Date(window.to)),
+});
+
+export const isShiftInWindow = (shift: Pick<Shift, 'start'>, window: ShiftWindow) => {
+  const start = new Date(shift.start).getTime();
+  if (Number.isNaN(start)) return false;
+  return start >= new Date(window.from).getTime() && start < new Date(window.to).getTime();
+};
+
+export const encodeShiftWindowCursor = (cursor: ShiftWindowCursor) =>
+  `${cursor.start}${CURSOR_SEPARATOR}${cursor.id}`;
+
+export const decodeShiftWindowCursor = (value?: string | null): ShiftWindowCursor | null => {
+  if (!value) return null;
+  const separatorIndex = value.indexOf(CURSOR_SEPARATOR);
+  if (separatorIndex <= 0 || separatorIndex === value.length - 1) return null;
+  return {
+    start: value.slice(0, separatorIndex),
+    id: value.slice(separatorIndex + 1),
+  };
+};
+
+/**
+ * Combines shift lists loaded for different windows. Earlier lists win when the
+ * same shift appears twice, so the synced feed takes precedence over month pages.
+ */
+export const mergeShiftWindows = (lists: (Shift[] | undefined)[]): Shift[] => {
+  const shiftsById = new Map<string, Shift>();
+  lists.forEach((list) => {
+    list?.forEach((shift) => {
+      if (!shiftsById.has(shift.id)) {
+        shiftsById.set(shift.id, shift);
+      }
+    });
+  });
+  return sortShiftsByStart(Array.from(shiftsById.values()));
+};
@@ -1,11 +1,41 @@
 import { PostgrestError } from '@supabase/supabase-js';
-import { supabase } from '@lib/supabaseClient';
+import { isMissingBackendError, supabase, supabaseStorageBucket } from '@lib/supabaseClient';
 import {
   type AssignmentMeta,
   type Shift,
+  type ShiftMappingDiagnostics,
+  type ShiftMappingOptions,
   mapShiftArray,
   mapShiftRecord,
 } from './shiftMapping';
+import { loadCachedShiftFeed, saveCachedShiftFeed } from './shiftCache';
+import {
+  type ShiftFeedDelta,
+  advanceHighWaterMark,
+  collectDeltaShiftIds,
+  getShiftDeltaSince,
+  mergeShiftFeedDelta,
+  readRowUpdatedAt,
+  shouldRunFullShiftSync,
+} from './shiftDeltaSync';
+import {
+  type ShiftWindow,
+  SHIFT_WINDOW_PAGE_SIZE,
+  decodeShiftWindowCursor,
+  encodeShiftWindowCursor,
+  getDefaultShiftFeedWindow,
+  getShiftWindowDates,
+  getShiftWindowKey,
+  isShiftInWindow,
+} from './shiftWindow';
+import { type ShiftDeclineInput, normalizeShiftDeclineNote, validateShiftDecline } from './shiftDecline';
+import {
+  type ShiftConfirmItemResult,
+  classifyShiftConfirmRows,
+  parseShiftBatchConfirmResult,
+} from './shiftBatchConfirm';
+import type { ShiftAttachment } from './shiftExtras';
+import { type ShiftChangeEntry, parseShiftChangeLogRow } from './shiftChanges';
 export type { Shift } from './shiftMapping';
 
 const isMissingColumnError = (error: unknown) =>
@@ -14,26 +44,81 @@ const isMissingColumnError = (error: unknown) =>
   'code' in error &&
   (error as PostgrestError).code === '42703';
 
+const isMissingRelationError = (error: unknown) =>
+  typeof error === 'object' &&
+  error !== null &&
+  'code' in error &&
+  ['42P01', 'PGRST205'].includes((error as PostgrestError).code);
+
+const ASSIGNMENT_COLUMNS = 'id, shiftId, confirmationStatus, confirmedAt';
+const ASSIGNMENT_DECLINE_COLUMNS = 'declineReason, declineNote, declinedAt';
+const SYNCED_ASSIGNMENT_COLUMNS = `${ASSIGNMENT_COLUMNS}, updatedAt, ${ASSIGNMENT_DECLINE_COLUMNS}`;
+/** Richest selection first; older databases lack the decline and updatedAt columns. */
+const ASSIGNMENT_SELECTIONS = [SYNCED_ASSIGNMENT_COLUMNS, `${ASSIGNMENT_COLUMNS}, updatedAt`, ASSIGNMENT_COLUMNS];
+const SHIFT_COLUMNS = '*, object:objectId (*)';
+const SHIFT_WINDOW_COLUMN = 'shiftStartingDate';
+
+class DeltaSyncUnsupportedError extends Error {}
+class ShiftWindowUnsupportedError extends Error {}
+
+type ShiftFeedSnapshot = {
+  shifts: Shift[];
+  highWaterMark: string | null;
+};
+
+export type ShiftWindowPage = ShiftFeedSnapshot & {
+  nextCursor: string | null;
+};
+
+export type ShiftWindowPageOptions = {
+  cursor?: string | null;
+  limit?: number;
+};
+
+const reportShiftMappingDiagnostics = (diagnostics: ShiftMappingDiagnostics) => {
+  if (diagnostics.dropped.length) {
+    console.warn(
+      `Dropped ${diagnostics.dropped.length} of ${diagnostics.total} shift rows without an id`,
+      diagnostics.dropped
+    );
+  }
+  if (diagnostics.defaulted.length) {
+    console.warn('Shift rows without start or end columns fell back to default times', diagnostics.defaulted);
+  }
+};
+
+const shiftMappingOptions: ShiftMappingOptions = { onDiagnostics: reportShiftMappingDiagnostics };
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const mapAssignmentRow = (row: Record<string, unknown>): AssignmentMeta => ({
+  assignmentId: readString(row.id),
+  shiftId: readString(row.shiftId),
+  confirmationStatus: readString(row.confirmationStatus),
+  confirmedAt: readString(row.confirmedAt),
+  declineReason: readString(row.declineReason),
+  declineNote: readString(row.declineNote),
+  declinedAt: readString(row.declinedAt),
+  updatedAt: readString(row.updatedAt),
+});
+
 const tryFetchShiftAssignments = async (employeeId: string): Promise<AssignmentMeta[]> => {
   if (!supabase) return [];
-  const { data, error } = await supabase
-    .from('shift_assignments')
-    .select('id, shiftId, confirmationStatus, confirmedAt')
-    .eq('employeeId', employeeId);
+  for (const columns of ASSIGNMENT_SELECTIONS) {
+    const { data, error } = await supabase
+      .from('shift_assignments')
+      .select(columns)
+      .eq('employeeId', employeeId);
 
-  if (error) {
-    if (isMissingColumnError(error)) {
-      return [];
+    if (!error) {
+      return ((data ?? []) as unknown as Record<string, unknown>[]).map(mapAssignmentRow);
+    }
+    if (!isMissingColumnError(error)) {
+      throw error;
     }
-    throw error;
   }
 
-  return (data ?? []).map((row) => ({
-    assignmentId: typeof row.id === 'string' ? row.id : undefined,
-    shiftId: typeof row.shiftId === 'string' ? row.shiftId : undefined,
-    confirmationStatus: typeof row.confirmationStatus === 'string' ? row.confirmationStatus : undefined,
-    confirmedAt: typeof row.confirmedAt === 'string' ? row.confirmedAt : undefined,
-  }));
+  return [];
 };
 
 const tryFetchShiftsByIds = async (ids: string[]): Promise<Record<string, unknown>[]> => {
@@ -41,7 +126,7 @@ const tryFetchShiftsByIds = async (ids: string[]): Promise<Record<string, unknow
   if (!supabase) return [];
   const { data, error } = await supabase
     .from('shifts')
-    .select('*, object:objectId (title, address)')
+    .select(SHIFT_COLUMNS)
     .in('id', ids);
 
   if (error) {
@@ -51,9 +136,9 @@ const tryFetchShiftsByIds = async (ids: string[]): Promise<Record<string, unknow
   return data ?? [];
 };
 
-const fetchShiftAssignments = async (employeeId?: string): Promise<Shift[]> => {
+const fetchShiftAssignments = async (employeeId?: string): Promise<ShiftFeedSnapshot> => {
   if (!employeeId) {
-    return [];
+    return { shifts: [], highWaterMark: null };
   }
 
   const assignments = await tryFetchShiftAssignments(employeeId);
@@ -62,19 +147,261 @@ const fetchShiftAssignments = async (employeeId?: string): Promise<Shift[]> => {
     .filter((shiftId): shiftId is string => Boolean(shiftId));
 
   if (!ids.length) {
-    return [];
+    return { shifts: [], highWaterMark: null };
   }
 
   const shiftRows = await tryFetchShiftsByIds(ids);
-  return mapShiftArray(shiftRows, assignments);
+  const supportsDeltaSync = assignments.every((assignment) => Boolean(assignment.updatedAt));
+  return {
+    shifts: mapShiftArray(shiftRows, assignments, shiftMappingOptions),
+    highWaterMark: supportsDeltaSync
+      ? advanceHighWaterMark(null, [
+          ...assignments.map((assignment) => assignment.updatedAt),
+          ...shiftRows.map(readRowUpdatedAt),
+        ])
+      : null,
+  };
 };
 
+const readEmbeddedAssignmentRows = (row: Record<string, unknown>): Record<string, unknown>[] => {
+  const embedded = row.assignment;
+  if (Array.isArray(embedded)) {
+    return embedded.filter(
+      (entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object'
+    );
+  }
+  return embedded && typeof embedded === 'object' ? [embedded as Record<string, unknown>] : [];
+};
+
+const quoteFilterValue = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+
+const fetchShiftWindowPage = async (
+  employeeId: string,
+  window: ShiftWindow,
+  { cursor, limit = SHIFT_WINDOW_PAGE_SIZE }: ShiftWindowPageOptions = {}
+): Promise<ShiftWindowPage> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const windowDates = getShiftWindowDates(window);
+  let request = supabase
+    .from('shifts')
+    .select(`${SHIFT_COLUMNS}, assignment:shift_assignments!inner (${SYNCED_ASSIGNMENT_COLUMNS})`)
+    .eq('assignment.employeeId', employeeId)
+    .gte(SHIFT_WINDOW_COLUMN, windowDates.from)
+    .lt(SHIFT_WINDOW_COLUMN, windowDates.to);
+
+  const after = decodeShiftWindowCursor(cursor);
+  if (after) {
+    const start = quoteFilterValue(after.start);
+    const id = quoteFilterValue(after.id);
+    request = request.or(
+      `${SHIFT_WINDOW_COLUMN}.gt.${start},and(${SHIFT_WINDOW_COLUMN}.eq.${start},id.gt.${id})`
+    );
+  }
+
+  const { data, error } = await request
+    .order(SHIFT_WINDOW_COLUMN, { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit + 1);
+
+  if (error) {
+    if (isMissingColumnError(error)) {
+      throw new ShiftWindowUnsupportedError(
+        'Windowed shift queries require shiftStartingDate, updatedAt and decline columns.'
+      );
+    }
+    throw error;
+  }
+
+  const rows = (data ?? []) as Record<string, unknown>[];
+  const pageRows = rows.slice(0, limit);
+  const assignments = pageRows.flatMap(readEmbeddedAssignmentRows).map(mapAssignmentRow);
+  const lastRow = pageRows[pageRows.length - 1];
+  const lastStart = lastRow?.[SHIFT_WINDOW_COLUMN];
+  const nextCursor =
+    rows.length > limit && typeof lastStart === 'string' && typeof lastRow.id === 'string'
+      ? encodeShiftWindowCursor({ start: lastStart, id: lastRow.id })
+      : null;
+
+  return {
+    shifts: mapShiftArray(pageRows, assignments, shiftMappingOptions),
+    highWaterMark: advanceHighWaterMark(null, [
+      ...assignments.map((assignment) => assignment.updatedAt),
+      ...pageRows.map(readRowUpdatedAt),
+    ]),
+    nextCursor,
+  };
+};
+
+const fetchShiftWindow = async (employeeId: string, window: ShiftWindow): Promise<ShiftFeedSnapshot> => {
+  const shifts: Shift[] = [];
+  let highWaterMark: string | null = null;
+  let cursor: string | null = null;
+
+  do {
+    const page: ShiftWindowPage = await fetchShiftWindowPage(employeeId, window, { cursor });
+    shifts.push(...page.shifts);
+    highWaterMark = advanceHighWaterMark(highWaterMark, [page.highWaterMark ?? undefined]);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return { shifts, highWaterMark };
+};
+
+/**
+ * Loads every assigned shift starting inside the window, falling back to the
+ * unwindowed fetch for databases that predate the window columns.
+ */
+const fetchShiftWindowSnapshot = async (
+  employeeId: string,
+  window: ShiftWindow
+): Promise<ShiftFeedSnapshot> => {
+  try {
+    return await fetchShiftWindow(employeeId, window);
+  } catch (error) {
+    if (!(error instanceof ShiftWindowUnsupportedError)) {
+      throw error;
+    }
+  }
+
+  const snapshot = await fetchShiftAssignments(employeeId);
+  return {
+    ...snapshot,
+    shifts: snapshot.shifts.filter((shift) => isShiftInWindow(shift, window)),
+  };
+};
+
+const throwDeltaError = (error: unknown): never => {
+  if (isMissingColumnError(error)) {
+    throw new DeltaSyncUnsupportedError('Shift delta sync requires updatedAt and decline columns.');
+  }
+  throw error;
+};
+
+const fetchShiftFeedDelta = async (employeeId: string, highWaterMark: string): Promise<ShiftFeedDelta> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const since = getShiftDeltaSince(highWaterMark);
+
+  const [changedAssignmentsResult, activeAssignmentsResult, changedShiftsResult] = await Promise.all([
+    supabase
+      .from('shift_assignments')
+      .select(SYNCED_ASSIGNMENT_COLUMNS)
+      .eq('employeeId', employeeId)
+      .gte('updatedAt', since),
+    supabase.from('shift_assignments').select('id').eq('employeeId', employeeId),
+    supabase
+      .from('shift_assignments')
+      .select(`shiftId, shift:shiftId!inner (${SHIFT_COLUMNS})`)
+      .eq('employeeId', employeeId)
+      .gte('shift.updatedAt', since),
+  ]);
+
+  if (changedAssignmentsResult.error) throwDeltaError(changedAssignmentsResult.error);
+  if (activeAssignmentsResult.error) throwDeltaError(activeAssignmentsResult.error);
+  if (changedShiftsResult.error) throwDeltaError(changedShiftsResult.error);
+
+  const changedShiftRows = (changedShiftsResult.data ?? []).flatMap((row) => {
+    const shift = (row as { shift?: unknown }).shift;
+    return shift && typeof shift === 'object' && !Array.isArray(shift)
+      ? [shift as Record<string, unknown>]
+      : [];
+  });
+
+  return {
+    changedAssignments: (changedAssignmentsResult.data ?? []).map(mapAssignmentRow),
+    activeAssignmentIds: (activeAssignmentsResult.data ?? [])
+      .map((row) => row.id)
+      .filter((id): id is string => typeof id === 'string'),
+    shiftRows: changedShiftRows,
+  };
+};
+
+const syncShiftFeed = async (employeeId: string): Promise<Shift[]> => {
+  const cachedFeed = await loadCachedShiftFeed(employeeId).catch(() => null);
+  const now = new Date();
+  const window = getDefaultShiftFeedWindow(now);
+  const windowKey = getShiftWindowKey(window);
+
+  if (
+    cachedFeed &&
+    cachedFeed.windowKey === windowKey &&
+    !shouldRunFullShiftSync(cachedFeed.highWaterMark, cachedFeed.fullSyncedAt, now)
+  ) {
+    try {
+      const since = cachedFeed.highWaterMark as string;
+      const delta = await fetchShiftFeedDelta(employeeId, since);
+      const missingShiftRows = await tryFetchShiftsByIds(
+        collectDeltaShiftIds(cachedFeed.shifts, delta.changedAssignments)
+      );
+      const shiftRows = [...delta.shiftRows, ...missingShiftRows];
+      const shifts = mergeShiftFeedDelta(
+        cachedFeed.shifts,
+        { ...delta, shiftRows },
+        shiftMappingOptions
+      ).filter((shift) => isShiftInWindow(shift, window));
+      await saveCachedShiftFeed(employeeId, shifts, {
+        highWaterMark: advanceHighWaterMark(since, [
+          ...delta.changedAssignments.map((assignment) => assignment.updatedAt),
+          ...delta.shiftRows.map(readRowUpdatedAt),
+        ]),
+        fullSyncedAt: cachedFeed.fullSyncedAt ?? null,
+        windowKey,
+      });
+      return shifts;
+    } catch (error) {
+      if (!(error instanceof DeltaSyncUnsupportedError)) {
+        throw error;
+      }
+    }
+  }
+
+  const snapshot = await fetchShiftWindowSnapshot(employeeId, window);
+  await saveCachedShiftFeed(employeeId, snapshot.shifts, {
+    highWaterMark: snapshot.highWaterMark,
+    fullSyncedAt: snapshot.highWaterMark ? now.toISOString() : null,
+    windowKey,
+  });
+  return snapshot.shifts;
+};
+
+/**
+ * Returns the employee's shifts inside the default feed window, syncing the
+ * persisted feed incrementally. Use `getShiftsInWindow` for other months.
+ */
 export const getShifts = async (employeeId?: string): Promise<Shift[]> => {
   if (!supabase) {
     throw new Error('Supabase client not configured');
   }
 
-  return await fetchShiftAssignments(employeeId);
+  if (!employeeId) {
+    return [];
+  }
+
+  return await syncShiftFeed(employeeId);
+};
+
+export const getShiftWindowPage = async (
+  employeeId: string,
+  window: ShiftWindow,
+  options?: ShiftWindowPageOptions
+): Promise<ShiftWindowPage> => fetchShiftWindowPage(employeeId, window, options);
+
+export const getShiftsInWindow = async (employeeId: string | undefined, window: ShiftWindow) => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  if (!employeeId) {
+    return [];
+  }
+
+  const snapshot = await fetchShiftWindowSnapshot(employeeId, window);
+  return snapshot.shifts;
 };
 
 export const confirmShiftAssignment = async (assignmentId: string): Promise<void> => {
@@ -82,15 +409,155 @@ export const confirmShiftAssignment = async (assignmentId: string): Promise<void
     throw new Error('Supabase client not configured');
   }
 
+  const client = supabase;
   const confirmedAt = new Date().toISOString();
+  const confirmation = { confirmationStatus: 'confirmed by employee', confirmedAt };
+  const confirmAssignment = (clearDecline: boolean) =>
+    client
+      .from('shift_assignments')
+      .update(
+        clearDecline
+          ? { ...confirmation, declineReason: null, declineNote: null, declinedAt: null }
+          : confirmation
+      )
+      .eq('id', assignmentId)
+      .select('id, confirmationStatus, confirmedAt')
+      .maybeSingle();
+
+  // A tentative answer is replaced by the confirmation; older databases have no decline columns.
+  let { data, error } = await confirmAssignment(true);
+  if (error && isMissingColumnError(error)) {
+    ({ data, error } = await confirmAssignment(false));
+  }
+
+  if (error) {
+    throw error;
+  }
+
+  const updatedStatus =
+    typeof data?.confirmationStatus === 'string' ? data.confirmationStatus.trim().toLowerCase() : '';
+  const updatedConfirmedAt =
+    typeof data?.confirmedAt === 'string' ? data.confirmedAt.trim() : '';
+
+  if (!data?.id || updatedStatus !== 'confirmed by employee' || !updatedConfirmedAt) {
+    throw new Error(`Shift confirmation was not applied for assignment ${assignmentId}.`);
+  }
+};
+
+/**
+ * Batched-update fallback for databases without the `confirm_shift_assignments`
+ * RPC: reads the current statuses first so every assignment still gets a result.
+ */
+const confirmShiftAssignmentsByUpdate = async (assignmentIds: string[]): Promise<ShiftConfirmItemResult[]> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data: rows, error: readError } = await supabase
+    .from('shift_assignments')
+    .select('id, confirmationStatus, confirmedAt')
+    .in('id', assignmentIds);
+
+  if (readError) {
+    throw readError;
+  }
+
+  const { eligibleIds, results } = classifyShiftConfirmRows(assignmentIds, rows ?? []);
+  if (!eligibleIds.length) {
+    return results;
+  }
+
+  const client = supabase;
+  const confirmation = { confirmationStatus: 'confirmed by employee', confirmedAt: new Date().toISOString() };
+  const confirmAssignments = (clearDecline: boolean) =>
+    client
+      .from('shift_assignments')
+      .update(
+        clearDecline
+          ? { ...confirmation, declineReason: null, declineNote: null, declinedAt: null }
+          : confirmation
+      )
+      .in('id', eligibleIds)
+      .select('id, confirmationStatus, confirmedAt');
+
+  let { data: updatedRows, error: updateError } = await confirmAssignments(true);
+  if (updateError && isMissingColumnError(updateError)) {
+    ({ data: updatedRows, error: updateError } = await confirmAssignments(false));
+  }
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  const updatedById = new Map((updatedRows ?? []).map((row) => [String(row.id), row]));
+  const updatedResults = eligibleIds.map((assignmentId): ShiftConfirmItemResult => {
+    const row = updatedById.get(assignmentId);
+    return row
+      ? {
+          assignmentId,
+          status: 'confirmed',
+          confirmationStatus: readString(row.confirmationStatus),
+          confirmedAt: readString(row.confirmedAt),
+        }
+      : { assignmentId, status: 'failed', error: 'Confirmation was not applied.', transient: true };
+  });
+  const resultsById = new Map([...results, ...updatedResults].map((result) => [result.assignmentId, result]));
+  return assignmentIds.flatMap((assignmentId) => resultsById.get(assignmentId) ?? []);
+};
+
+/**
+ * Confirms several assignments in one round trip and reports a result for each,
+ * so callers can tell exactly which ones went through.
+ */
+export const confirmShiftAssignments = async (assignmentIds: string[]): Promise<ShiftConfirmItemResult[]> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  if (!assignmentIds.length) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('confirm_shift_assignments', { assignment_ids: assignmentIds });
+
+  if (error) {
+    if (isMissingBackendError(error)) {
+      return confirmShiftAssignmentsByUpdate(assignmentIds);
+    }
+    throw error;
+  }
+
+  return parseShiftBatchConfirmResult(assignmentIds, data);
+};
+
+/**
+ * Answers a published shift with "can't make it" or "tentative". The reason is
+ * stored on the assignment so planners see why the shift needs covering.
+ */
+export const declineShiftAssignment = async (
+  assignmentId: string,
+  input: ShiftDeclineInput
+): Promise<void> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const validationError = validateShiftDecline(input);
+  if (validationError) {
+    throw new Error(`Shift decline for assignment ${assignmentId} is invalid: ${validationError}.`);
+  }
+
   const { data, error } = await supabase
     .from('shift_assignments')
     .update({
-      confirmationStatus: 'confirmed by employee',
-      confirmedAt,
+      confirmationStatus: input.status,
+      confirmedAt: null,
+      declineReason: input.reason,
+      declineNote: normalizeShiftDeclineNote(input.note) ?? null,
+      declinedAt: new Date().toISOString(),
     })
     .eq('id', assignmentId)
-    .select('id, confirmationStatus, confirmedAt')
+    .select('id, confirmationStatus, declineReason')
     .maybeSingle();
 
   if (error) {
@@ -99,12 +566,36 @@ export const confirmShiftAssignment = async (assignmentId: string): Promise<void
 
   const updatedStatus =
     typeof data?.confirmationStatus === 'string' ? data.confirmationStatus.trim().toLowerCase() : '';
-  const updatedConfirmedAt =
-    typeof data?.confirmedAt === 'string' ? data.confirmedAt.trim() : '';
 
-  if (!data?.id || updatedStatus !== 'confirmed by employee' || !updatedConfirmedAt) {
-    throw new Error(`Shift confirmation was not applied for assignment ${assignmentId}.`);
+  if (!data?.id || updatedStatus !== input.status || data.declineReason !== input.reason) {
+    throw new Error(`Shift decline was not applied for assignment ${assignmentId}.`);
+  }
+};
+
+export const fetchShiftAssignmentStatus = async (
+  assignmentId: string
+): Promise<{ confirmationStatus?: string } | null> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase
+    .from('shift_assignments')
+    .select('id, confirmationStatus')
+    .eq('id', assignmentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data?.id) {
+    return null;
   }
+
+  return {
+    confirmationStatus: typeof data.confirmationStatus === 'string' ? data.confirmationStatus : undefined,
+  };
 };
 
 type ShiftSubscription = {
@@ -147,7 +638,7 @@ export const getShiftById = async (shiftId: string): Promise<Shift | undefined>
 
   const { data, error } = await supabase
     .from('shifts')
-    .select('*, object:objectId (title, address)')
+    .select(SHIFT_COLUMNS)
     .eq('id', shiftId)
     .maybeSingle();
 
@@ -157,3 +648,51 @@ export const getShiftById = async (shiftId: string): Promise<Shift | undefined>
 
   return data ? mapShiftRecord(data) : undefined;
 };
+
+/** Server-side change log of a shift, newest first; empty where the log is not installed. */
+export const fetchShiftChangeLog = async (shiftId: string): Promise<ShiftChangeEntry[]> => {
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase
+    .from('shift_change_log')
+    .select('id, shiftId, changedAt, before, after')
+    .eq('shiftId', shiftId)
+    .order('changedAt', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    if (isMissingRelationError(error)) {
+      return [];
+    }
+    throw error;
+  }
+
+  return (data ?? []).flatMap((row) => {
+    const entry = parseShiftChangeLogRow(row);
+    return entry ? [entry] : [];
+  });
+};
+
+/** Link to open an attachment; storage files get a short-lived signed URL. */
+export const getShiftAttachmentUrl = async (attachment: ShiftAttachment): Promise<string | null> => {
+  if (attachment.url) return attachment.url;
+  if (!attachment.path) return null;
+  if (!supabase) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(supabaseStorageBucket)
+    .createSignedUrl(attachment.path, 60 * 10, { download: attachment.name });
+
+  if (error) {
+    if (/not found|object not found/i.test(error.message)) {
+      return null;
+    }
+    throw error;
+  }
+
+  return data?.signedUrl ?? null;
+};
@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { fetchEmployeePresence, subscribeToPresenceClockEvents } from './employeePresenceService';
+import { type EmployeePresence, EMPTY_EMPLOYEE_PRESENCE, applyPresenceClockEvent, getPresenceDayStart } from './employeePresence';
+
+/**
+ * Clock state of the signed-in employee. Clock events arriving over realtime
+ * are applied at once and then confirmed by a refetch.
+ */
+export const useEmployeePresence = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const dayStart = getPresenceDayStart();
+  const dayKey = dayStart.toISOString();
+  const queryKey = ['employeePresence', userId, dayKey];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => fetchEmployeePresence(new Date(dayKey)),
+    enabled: Boolean(userId),
+    retry: false,
+    staleTime: 30 * 1000,
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+    const subscription = subscribeToPresenceClockEvents(userId, (event) => {
+      queryClient.setQueryData<EmployeePresence>(['employeePresence', userId, dayKey], (current) =>
+        applyPresenceClockEvent(current ?? EMPTY_EMPLOYEE_PRESENCE, event, new Date(dayKey))
+      );
+      void queryClient.invalidateQueries({ queryKey: ['employeePresence', userId] });
+    });
+    return () => subscription.unsubscribe();
+  }, [dayKey, queryClient, userId]);
+
+  return {
+    presence: query.data ?? EMPTY_EMPLOYEE_PRESENCE,
+    refetch: query.refetch,
+  };
+};
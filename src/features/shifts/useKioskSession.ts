@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { type KioskSession, loadKioskSession, subscribeToKioskSession } from './kioskMode';
+
+/**
+ * The kiosk session running on this device. A session started by someone
+ * else than the signed-in employee does not count.
+ */
+export const useKioskSession = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [session, setSession] = useState<KioskSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isActive = true;
+    loadKioskSession()
+      .then((stored) => {
+        if (isActive) setSession(stored);
+      })
+      .catch(() => {
+        if (isActive) setSession(null);
+      })
+      .finally(() => {
+        if (isActive) setIsLoading(false);
+      });
+    const unsubscribe = subscribeToKioskSession(setSession);
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return {
+    session: session && userId && session.operatorId === userId ? session : null,
+    isLoading,
+  };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { requestCurrentLocation } from '@hooks/useLocation';
+import { type ManualClockInput, createManualClockSubmission } from './manualClock';
+import { requestManualClockEvent, uploadManualClockPhoto } from './manualClockService';
+import { type QrClockInLocation, toQrClockInLocation } from './shiftGeofence';
+
+const resolveManualClockLocation = async (): Promise<QrClockInLocation | undefined> => {
+  const result = await requestCurrentLocation({ enableHighAccuracy: true, maximumAge: 30_000, timeout: 15_000 });
+  if (result.status !== 'granted') return undefined;
+  return toQrClockInLocation({
+    latitude: result.location.coords.latitude,
+    longitude: result.location.coords.longitude,
+    accuracy: result.location.coords.accuracy ?? undefined,
+    capturedAt: new Date(result.location.timestamp).toISOString(),
+  });
+};
+
+/**
+ * Manual clock-ins and clock-outs for when the site QR code cannot be scanned.
+ * They are sent straight to the backend and count only once a supervisor approves.
+ */
+export const useManualClock = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submitRequest = useCallback(
+    async (input: ManualClockInput) => {
+      if (!userId) {
+        throw new Error('Sign in required');
+      }
+      setIsSubmitting(true);
+      try {
+        const location = input.includeLocation ? await resolveManualClockLocation() : undefined;
+        const draft = createManualClockSubmission(input, { location });
+        const photoPath = input.photoUri
+          ? await uploadManualClockPhoto(userId, draft, input.photoUri)
+          : undefined;
+        const result = await requestManualClockEvent({ ...draft, photoPath });
+        if (result.ok) {
+          await queryClient.invalidateQueries({ queryKey: ['manualClockRequests', userId] });
+        }
+        return { result, locationMissing: input.includeLocation && !location };
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [queryClient, userId]
+  );
+
+  return { submitRequest, isSubmitting };
+};
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import {
+  claimOpenShift,
+  fetchOpenShifts,
+  fetchShiftClaims,
+  subscribeToShiftClaims,
+  withdrawShiftClaim,
+} from './openShiftsService';
+import { getLatestShiftClaims, type ShiftClaim } from './openShifts';
+import type { Shift } from './shiftMapping';
+import { getDefaultShiftFeedWindow } from './shiftWindow';
+
+type UseOpenShiftsOptions = {
+  /** Set to false when only the employee's claims are needed, e.g. for the shift feed. */
+  listOpenShifts?: boolean;
+};
+
+/** Open shifts at the employee's company plus the employee's own claims on them. */
+export const useOpenShifts = ({ listOpenShifts = true }: UseOpenShiftsOptions = {}) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+
+  const openShiftsQuery = useQuery({
+    queryKey: ['openShifts', userId],
+    queryFn: () => fetchOpenShifts(getDefaultShiftFeedWindow()),
+    enabled: !!userId && listOpenShifts,
+    staleTime: 60 * 1000,
+  });
+
+  const claimsQuery = useQuery({
+    queryKey: ['shiftClaims', userId],
+    queryFn: () => fetchShiftClaims(userId ?? ''),
+    enabled: !!userId,
+    staleTime: 30 * 1000,
+  });
+
+  const refreshClaims = useCallback(
+    () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['shiftClaims', userId] }),
+        queryClient.invalidateQueries({ queryKey: ['openShifts', userId] }),
+      ]),
+    [queryClient, userId]
+  );
+
+  useEffect(() => {
+    if (!userId) return;
+    const subscription = subscribeToShiftClaims(userId, (claim) => {
+      void refreshClaims();
+      // An approved claim turns into an assignment in the regular shift feed.
+      if (claim.status === 'approved') {
+        void queryClient.invalidateQueries({ queryKey: ['shifts', userId] });
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [queryClient, refreshClaims, userId]);
+
+  const claimShift = useCallback(
+    async (shift: Shift, note?: string) => {
+      const result = await claimOpenShift(shift.id, note);
+      await refreshClaims();
+      return result;
+    },
+    [refreshClaims]
+  );
+
+  const withdrawClaim = useCallback(
+    async (claim: ShiftClaim) => {
+      const result = await withdrawShiftClaim(claim.id);
+      await refreshClaims();
+      return result;
+    },
+    [refreshClaims]
+  );
+
+  const claims = claimsQuery.data;
+  const claimsByShiftId = useMemo(() => getLatestShiftClaims(claims ?? []), [claims]);
+  const pendingClaimCount = useMemo(
+    () => Array.from(claimsByShiftId.values()).filter((claim) => claim.status === 'pending').length,
+    [claimsByShiftId]
+  );
+  const refetchOpenShifts = openShiftsQuery.refetch;
+  const refetchClaims = claimsQuery.refetch;
+  const refetch = useCallback(
+    () => Promise.all([refetchOpenShifts(), refetchClaims()]),
+    [refetchClaims, refetchOpenShifts]
+  );
+
+  return {
+    openShifts: openShiftsQuery.data?.shifts ?? [],
+    qualifications: openShiftsQuery.data?.qualifications ?? [],
+    isLinked: openShiftsQuery.data?.status !== 'not_linked',
+    isLoading: openShiftsQuery.isLoading,
+    error: openShiftsQuery.error,
+    claims: claims ?? [],
+    claimsByShiftId,
+    pendingClaimCount,
+    refetch,
+    claimShift,
+    withdrawClaim,
+  };
+};
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { getEmployeeApiBaseUrl } from '@features/account/monthlyHours';
+import { postQrClockIn } from './qrClockInService';
+import {
+  type ClockEventReplayResult,
+  type QueuedClockEvent,
+  flushQrClockQueue,
+  getPendingClockEvents,
+  getRejectedClockEvents,
+  loadQrClockQueue,
+  removeQueuedClockEvent,
+  subscribeToQrClockQueue,
+} from './qrClockQueue';
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+/**
+ * QR scans recorded offline. While any are pending they are replayed on mount,
+ * when the app returns to the foreground and every 30 seconds.
+ */
+export const useQrClockQueue = () => {
+  const { user, session } = useAuth();
+  const userId = user?.id;
+  const accessToken = session?.access_token;
+  const [queue, setQueue] = useState<QueuedClockEvent[]>([]);
+  const [lastResult, setLastResult] = useState<ClockEventReplayResult | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setQueue([]);
+      return;
+    }
+    let isActive = true;
+    loadQrClockQueue(userId)
+      .then((nextQueue) => {
+        if (isActive) setQueue(nextQueue);
+      })
+      .catch(() => {
+        if (isActive) setQueue([]);
+      });
+    const unsubscribe = subscribeToQrClockQueue(userId, setQueue);
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const flush = useCallback(async () => {
+    const apiBaseUrl = getEmployeeApiBaseUrl();
+    if (!userId || !accessToken || !apiBaseUrl) return null;
+    const result = await flushQrClockQueue(userId, (event, offline) =>
+      postQrClockIn({ apiBaseUrl, accessToken, qrCode: event.qrCode, location: event.location, offline })
+    );
+    if (result.submitted.length || result.rejected.length) {
+      setLastResult(result);
+    }
+    return result;
+  }, [accessToken, userId]);
+
+  const pendingEvents = useMemo(() => getPendingClockEvents(queue), [queue]);
+  const rejectedEvents = useMemo(() => getRejectedClockEvents(queue), [queue]);
+  const hasPendingEvents = pendingEvents.length > 0;
+
+  useEffect(() => {
+    if (!hasPendingEvents) return;
+    const replay = () => {
+      flush().catch((error) => {
+        console.warn('Failed to replay queued QR scans', error);
+      });
+    };
+    replay();
+    const timer = setInterval(replay, RETRY_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') replay();
+    });
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, [flush, hasPendingEvents]);
+
+  const discardEvent = useCallback(
+    async (eventId: string) => {
+      if (!userId) return;
+      await removeQueuedClockEvent(userId, eventId);
+    },
+    [userId]
+  );
+
+  return {
+    pendingEvents,
+    rejectedEvents,
+    lastResult,
+    flush,
+    discardEvent,
+  };
+};
@@ -0,0 +1,58 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { formatMonthKey } from '@features/account/monthlyHours';
+import { fetchShiftBreaks, recordShiftBreak } from './shiftBreakService';
+import {
+  type ShiftBreakAction,
+  type ShiftBreakSource,
+  createShiftBreakSubmission,
+  getActiveShiftBreak,
+} from './shiftBreaks';
+
+/**
+ * Breaks of the current month and the running one. Break events need a
+ * connection; they are not queued like QR scans.
+ */
+export const useShiftBreaks = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [isRecording, setIsRecording] = useState(false);
+  const monthKey = formatMonthKey(new Date());
+
+  const query = useQuery({
+    queryKey: ['shiftBreaks', userId, monthKey],
+    queryFn: () => fetchShiftBreaks(`${monthKey}-01`),
+    enabled: Boolean(userId),
+    retry: false,
+    staleTime: 30 * 1000,
+  });
+  const breaks = useMemo(() => query.data ?? [], [query.data]);
+
+  const recordBreak = useCallback(
+    async (shiftId: string, action: ShiftBreakAction, source: ShiftBreakSource) => {
+      if (!userId) {
+        throw new Error('Sign in required');
+      }
+      setIsRecording(true);
+      try {
+        const result = await recordShiftBreak(createShiftBreakSubmission({ shiftId, action, source }));
+        if (result.ok) {
+          await queryClient.invalidateQueries({ queryKey: ['shiftBreaks', userId] });
+        }
+        return result;
+      } finally {
+        setIsRecording(false);
+      }
+    },
+    [queryClient, userId]
+  );
+
+  return {
+    breaks,
+    activeBreak: getActiveShiftBreak(breaks),
+    recordBreak,
+    isRecording,
+  };
+};
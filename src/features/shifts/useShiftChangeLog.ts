@@ -0,0 +1,45 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { fetchShiftChangeLog } from './shiftsService';
+import {
+  getOriginalShiftValues,
+  loadLocalShiftChanges,
+  mergeShiftChangeEntries,
+} from './shiftChanges';
+
+/**
+ * Change history of one shift: the server log merged with updates this device
+ * recorded from realtime events. The device entries still show when the server
+ * log is unreachable.
+ */
+export const useShiftChangeLog = (shiftId?: string) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const query = useQuery({
+    queryKey: ['shiftChangeLog', userId, shiftId],
+    queryFn: async () => {
+      const [serverEntries, deviceEntries] = await Promise.all([
+        fetchShiftChangeLog(shiftId ?? '').catch((error) => {
+          console.warn('Failed to load shift change log', error);
+          return [];
+        }),
+        loadLocalShiftChanges(userId ?? '', shiftId),
+      ]);
+      return mergeShiftChangeEntries(serverEntries, deviceEntries);
+    },
+    enabled: Boolean(userId && shiftId),
+    staleTime: 30 * 1000,
+  });
+
+  const entries = query.data;
+  const originalValues = useMemo(() => getOriginalShiftValues(entries ?? []), [entries]);
+
+  return {
+    entries: entries ?? [],
+    originalValues,
+    isLoading: query.isLoading && Boolean(userId && shiftId),
+    refetch: query.refetch,
+  };
+};
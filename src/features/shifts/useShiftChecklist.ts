@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { fetchShiftChecklist, flushPendingShiftChecklists } from './shiftChecklistService';
+import {
+  type LocalShiftChecklist,
+  getShiftChecklistProgress,
+  loadLocalShiftChecklist,
+  mergeShiftChecklist,
+  saveLocalShiftChecklist,
+  setShiftTaskCompletion,
+} from './shiftChecklist';
+
+/**
+ * Site checklist of a shift. Ticks are stored on the device right away so they
+ * survive going offline; they are submitted at clock-out.
+ */
+export const useShiftChecklist = (shiftId?: string) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [checklist, setChecklist] = useState<LocalShiftChecklist | null>(null);
+
+  const query = useQuery({
+    queryKey: ['shiftChecklist', userId, shiftId],
+    queryFn: () => fetchShiftChecklist(shiftId ?? ''),
+    enabled: Boolean(userId && shiftId),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (!userId || !shiftId) {
+      setChecklist(null);
+      return;
+    }
+    let cancelled = false;
+    void loadLocalShiftChecklist(userId, shiftId).then((local) => {
+      if (cancelled) return;
+      if (query.data?.status === 'ok') {
+        const merged = mergeShiftChecklist(shiftId, query.data, local);
+        setChecklist(merged);
+        void saveLocalShiftChecklist(userId, merged).catch(() => undefined);
+      } else if (query.data?.status !== 'not_assigned') {
+        // Offline or still loading: show the checklist as last stored on the device.
+        setChecklist(local);
+      } else {
+        setChecklist(null);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [query.data, shiftId, userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    void flushPendingShiftChecklists(userId).catch(() => undefined);
+  }, [userId]);
+
+  const updateTask = useCallback(
+    async (taskId: string, completion: Parameters<typeof setShiftTaskCompletion>[2]) => {
+      if (!userId || !checklist) return;
+      const next = setShiftTaskCompletion(checklist, taskId, completion);
+      setChecklist(next);
+      await saveLocalShiftChecklist(userId, next);
+    },
+    [checklist, userId]
+  );
+
+  /** Ticks or unticks a task; a photo-proof task keeps its photo while ticked. */
+  const toggleTask = useCallback(
+    (taskId: string) => {
+      const existing = checklist?.completions.find((completion) => completion.taskId === taskId);
+      return updateTask(taskId, existing ? null : { completedAt: new Date().toISOString() });
+    },
+    [checklist, updateTask]
+  );
+
+  const attachTaskPhoto = useCallback(
+    (taskId: string, photoUri: string) => {
+      const existing = checklist?.completions.find((completion) => completion.taskId === taskId);
+      return updateTask(taskId, {
+        completedAt: existing?.completedAt ?? new Date().toISOString(),
+        note: existing?.note,
+        photoUri,
+      });
+    },
+    [checklist, updateTask]
+  );
+
+  const progress = useMemo(
+    () => getShiftChecklistProgress(checklist?.tasks ?? [], checklist?.completions ?? []),
+    [checklist]
+  );
+
+  return {
+    tasks: checklist?.tasks ?? [],
+    completions: checklist?.completions ?? [],
+    progress,
+    submittedAt: checklist?.submittedAt,
+    isPendingSubmit: Boolean(checklist?.pendingSubmitAt),
+    isLoading: query.isLoading && Boolean(userId && shiftId),
+    error: query.error,
+    refetch: query.refetch,
+    toggleTask,
+    attachTaskPhoto,
+  };
+};
@@ -1,12 +1,74 @@
-import { useEffect, useMemo, useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
+  confirmShiftAssignment,
+  confirmShiftAssignments,
+  declineShiftAssignment,
+  fetchShiftAssignmentStatus,
   getShifts,
+  getShiftsInWindow,
   subscribeToShiftUpdates,
   type Shift,
 } from '@features/shifts/shiftsService';
 import { useAuth } from '@hooks/useSupabaseAuth';
-import { loadCachedShiftFeed, saveCachedShiftFeed, type CachedShiftFeed } from './shiftCache';
+import { loadCachedShiftFeed, type CachedShiftFeed } from './shiftCache';
+import type { ShiftDeclineInput } from './shiftDecline';
+import {
+  applyOptimisticShiftConfirmations,
+  confirmShiftAssignmentsWithRetry,
+  reconcileShiftConfirmations,
+  snapshotShiftConfirmations,
+  type ShiftConfirmItemResult,
+} from './shiftBatchConfirm';
+import { cancelShiftConfirmReminders } from './shiftConfirmReminders';
+import {
+  applyQueuedShiftMutations,
+  createConfirmShiftMutation,
+  enqueueShiftMutation,
+  flushShiftMutationQueue,
+  isNetworkError,
+  loadShiftMutationQueue,
+  subscribeToShiftMutationQueue,
+  type QueuedShiftMutation,
+  type ShiftMutationConflict,
+  type ShiftMutationExecutor,
+} from './shiftMutationQueue';
+import {
+  getDefaultShiftFeedWindow,
+  getMonthShiftWindow,
+  getNeighbourMonths,
+  getShiftMonthKey,
+  isMonthInShiftWindow,
+  mergeShiftWindows,
+  parseShiftMonthKey,
+} from './shiftWindow';
+
+export type ShiftConfirmationOutcome = 'confirmed' | 'queued';
+
+export type ShiftBatchConfirmationOutcome = {
+  confirmed: Shift[];
+  /** Left for the offline queue after retries kept failing on the network. */
+  queued: Shift[];
+  failed: { shift: Shift; result: ShiftConfirmItemResult }[];
+};
+
+export type ShiftFeedOptions = {
+  /** Month the screen is showing; it and its neighbours are loaded on demand. */
+  month?: Date;
+};
+
+const SHIFT_MONTH_STALE_TIME_MS = 5 * 60 * 1000;
+
+const shiftMutationExecutor: ShiftMutationExecutor = {
+  fetchAssignmentStatus: fetchShiftAssignmentStatus,
+  confirm: confirmShiftAssignment,
+};
+
+const dropConfirmReminders = (assignmentId: string) => {
+  cancelShiftConfirmReminders(assignmentId).catch((error) => {
+    console.warn('Failed to cancel shift confirmation reminders', error);
+  });
+};
 
 const orderShiftsByStart = (shifts?: Shift[]) => {
   if (!shifts?.length) return [];
@@ -18,10 +80,25 @@ const orderShiftsByStart = (shifts?: Shift[]) => {
     .sort((a, b) => Number(new Date(a.start)) - Number(new Date(b.start)));
 };
 
-export const useShiftFeed = () => {
+const useShiftMonthQuery = (userId: string | undefined, monthKey: string | null) =>
+  useQuery({
+    queryKey: ['shifts', userId, 'month', monthKey],
+    queryFn: () => {
+      const month = monthKey ? parseShiftMonthKey(monthKey) : null;
+      return month ? getShiftsInWindow(userId, getMonthShiftWindow(month)) : [];
+    },
+    enabled: !!userId && !!monthKey,
+    staleTime: SHIFT_MONTH_STALE_TIME_MS,
+  });
+
+export const useShiftFeed = (options: ShiftFeedOptions = {}) => {
   const { user } = useAuth();
   const userId = user?.id;
+  const queryClient = useQueryClient();
+  const visibleMonthKey = options.month ? getShiftMonthKey(options.month) : null;
   const [cachedFeed, setCachedFeed] = useState<CachedShiftFeed | null>(null);
+  const [pendingMutations, setPendingMutations] = useState<QueuedShiftMutation[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<ShiftMutationConflict[]>([]);
 
   const query = useQuery({
     queryKey: ['shifts', userId],
@@ -30,6 +107,18 @@ export const useShiftFeed = () => {
     staleTime: 30 * 1000,
   });
 
+  const [previousMonthKey, currentMonthKey, nextMonthKey] = useMemo(() => {
+    const month = visibleMonthKey ? parseShiftMonthKey(visibleMonthKey) : null;
+    if (!month) return [null, null, null];
+    const feedWindow = getDefaultShiftFeedWindow();
+    return getNeighbourMonths(month).map((neighbour) =>
+      isMonthInShiftWindow(neighbour, feedWindow) ? null : getShiftMonthKey(neighbour)
+    );
+  }, [visibleMonthKey]);
+  const previousMonthQuery = useShiftMonthQuery(userId, previousMonthKey);
+  const currentMonthQuery = useShiftMonthQuery(userId, currentMonthKey);
+  const nextMonthQuery = useShiftMonthQuery(userId, nextMonthKey);
+
   useEffect(() => {
     let isActive = true;
     loadCachedShiftFeed(userId)
@@ -48,15 +137,78 @@ export const useShiftFeed = () => {
     };
   }, [userId]);
 
+  useEffect(() => {
+    setPendingMutations([]);
+    setSyncConflicts([]);
+    if (!userId) return;
+    let isActive = true;
+    loadShiftMutationQueue(userId)
+      .then((queue) => {
+        if (isActive) {
+          setPendingMutations(queue);
+        }
+      })
+      .catch(() => {
+        if (isActive) {
+          setPendingMutations([]);
+        }
+      });
+    const unsubscribe = subscribeToShiftMutationQueue(userId, setPendingMutations);
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
   useEffect(() => {
     if (!userId || !query.data) return;
-    saveCachedShiftFeed(userId, query.data)
-      .then((nextCachedFeed) => setCachedFeed(nextCachedFeed))
+    let isActive = true;
+    loadCachedShiftFeed(userId)
+      .then((nextCachedFeed) => {
+        if (isActive) {
+          setCachedFeed(nextCachedFeed);
+        }
+      })
       .catch((error) => {
-        console.warn('Failed to cache shift feed', error);
+        console.warn('Failed to read cached shift feed', error);
       });
+    return () => {
+      isActive = false;
+    };
   }, [query.data, userId]);
 
+  const refetchShifts = query.refetch;
+  // The root layout schedules confirm-by reminders from its own shift query.
+  const refreshReminderShifts = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ['quickActionsShifts', userId] }),
+    [queryClient, userId]
+  );
+  const hasPendingMutations = pendingMutations.length > 0;
+  useEffect(() => {
+    if (!userId || !hasPendingMutations || !query.isSuccess) return;
+    let isActive = true;
+    flushShiftMutationQueue(userId, shiftMutationExecutor)
+      .then((result) => {
+        if (result.applied.length) {
+          result.applied.forEach((mutation) => dropConfirmReminders(mutation.assignmentId));
+          void refreshReminderShifts();
+        }
+        if (!isActive) return;
+        if (result.conflicts.length) {
+          setSyncConflicts((current) => [...current, ...result.conflicts]);
+        }
+        if (result.applied.length || result.conflicts.length || result.failed.length) {
+          void refetchShifts();
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to replay queued shift confirmations', error);
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [hasPendingMutations, query.dataUpdatedAt, query.isSuccess, refetchShifts, refreshReminderShifts, userId]);
+
   useEffect(() => {
     if (!userId) return;
     const subscription = subscribeToShiftUpdates(userId, () => query.refetch());
@@ -69,15 +221,154 @@ export const useShiftFeed = () => {
     return () => clearInterval(timer);
   }, [userId, query.refetch]);
 
+  const confirmAssignment = useCallback(
+    async (shift: Shift): Promise<ShiftConfirmationOutcome> => {
+      if (!shift.assignmentId) {
+        throw new Error(`Shift ${shift.id} has no assignment to confirm.`);
+      }
+      try {
+        await confirmShiftAssignment(shift.assignmentId);
+        dropConfirmReminders(shift.assignmentId);
+        void refreshReminderShifts();
+        await refetchShifts();
+        return 'confirmed';
+      } catch (error) {
+        const mutation = createConfirmShiftMutation(shift);
+        if (!userId || !mutation || !isNetworkError(error)) {
+          throw error;
+        }
+        await enqueueShiftMutation(userId, mutation);
+        return 'queued';
+      }
+    },
+    [refetchShifts, refreshReminderShifts, userId]
+  );
+
+  const confirmAssignments = useCallback(
+    async (shifts: Shift[]): Promise<ShiftBatchConfirmationOutcome> => {
+      const shiftsByAssignment = new Map(
+        shifts.flatMap((shift) => (shift.assignmentId ? [[shift.assignmentId, shift] as const] : []))
+      );
+      const assignmentIds = Array.from(shiftsByAssignment.keys());
+      if (!assignmentIds.length) {
+        return { confirmed: [], queued: [], failed: [] };
+      }
+
+      const queryKey = ['shifts', userId];
+      await queryClient.cancelQueries({ queryKey });
+      const snapshot = snapshotShiftConfirmations(
+        queryClient.getQueriesData<Shift[]>({ queryKey }).flatMap(([, data]) => data ?? []),
+        assignmentIds
+      );
+      const confirmedAt = new Date().toISOString();
+      queryClient.setQueriesData<Shift[]>({ queryKey }, (data) =>
+        data ? applyOptimisticShiftConfirmations(data, assignmentIds, confirmedAt) : data
+      );
+
+      const report = await confirmShiftAssignmentsWithRetry(
+        assignmentIds,
+        confirmShiftAssignments
+      );
+      queryClient.setQueriesData<Shift[]>({ queryKey }, (data) =>
+        data ? reconcileShiftConfirmations(data, report, snapshot) : data
+      );
+
+      const outcome: ShiftBatchConfirmationOutcome = { confirmed: [], queued: [], failed: [] };
+      for (const result of report.results) {
+        const shift = shiftsByAssignment.get(result.assignmentId);
+        if (!shift) continue;
+        if (report.confirmedIds.includes(result.assignmentId)) {
+          dropConfirmReminders(result.assignmentId);
+          outcome.confirmed.push(shift);
+          continue;
+        }
+        const mutation = result.offline ? createConfirmShiftMutation(shift) : null;
+        if (userId && mutation) {
+          await enqueueShiftMutation(userId, mutation);
+          outcome.queued.push(shift);
+          continue;
+        }
+        outcome.failed.push({ shift, result });
+      }
+
+      if (outcome.confirmed.length) {
+        void refreshReminderShifts();
+      }
+      await refetchShifts();
+      return outcome;
+    },
+    [queryClient, refetchShifts, refreshReminderShifts, userId]
+  );
+
+  const declineAssignment = useCallback(
+    async (shift: Shift, input: ShiftDeclineInput) => {
+      if (!shift.assignmentId) {
+        throw new Error(`Shift ${shift.id} has no assignment to decline.`);
+      }
+      await declineShiftAssignment(shift.assignmentId, input);
+      dropConfirmReminders(shift.assignmentId);
+      void refreshReminderShifts();
+      await refetchShifts();
+    },
+    [refetchShifts, refreshReminderShifts]
+  );
+
+  const declineAssignments = useCallback(
+    async (shifts: Shift[], input: ShiftDeclineInput) => {
+      const declined: Shift[] = [];
+      const failed: Shift[] = [];
+      for (const shift of shifts) {
+        if (!shift.assignmentId) continue;
+        try {
+          await declineShiftAssignment(shift.assignmentId, input);
+          dropConfirmReminders(shift.assignmentId);
+          declined.push(shift);
+        } catch (error) {
+          console.error('Shift decline failed', { shiftId: shift.id, error });
+          failed.push(shift);
+        }
+      }
+      if (declined.length) {
+        void refreshReminderShifts();
+        await refetchShifts();
+      }
+      return { declined, failed };
+    },
+    [refetchShifts, refreshReminderShifts]
+  );
+
+  const dismissSyncConflicts = useCallback(() => setSyncConflicts([]), []);
+
+  const isShowingCachedFeed = Boolean(userId) && !query.data && Boolean(cachedFeed?.shifts.length);
   const shouldUseCachedFeed =
-    Boolean(userId) && !query.data?.length && Boolean(cachedFeed?.shifts.length) && Boolean(query.error);
-  const displayedShifts = shouldUseCachedFeed ? cachedFeed?.shifts : query.data;
-  const orderedShifts = useMemo(() => orderShiftsByStart(displayedShifts), [displayedShifts]);
+    isShowingCachedFeed && (Boolean(query.error) || query.fetchStatus === 'paused');
+  const displayedShifts = query.data ?? (isShowingCachedFeed ? cachedFeed?.shifts : undefined);
+  const previousMonthShifts = previousMonthQuery.data;
+  const currentMonthShifts = currentMonthQuery.data;
+  const nextMonthShifts = nextMonthQuery.data;
+  const orderedShifts = useMemo(() => {
+    const windowedShifts = mergeShiftWindows([
+      displayedShifts,
+      previousMonthShifts,
+      currentMonthShifts,
+      nextMonthShifts,
+    ]);
+    return orderShiftsByStart(applyQueuedShiftMutations(windowedShifts, pendingMutations));
+  }, [currentMonthShifts, displayedShifts, nextMonthShifts, pendingMutations, previousMonthShifts]);
+  const isLoadingMonth = currentMonthQuery.fetchStatus === 'fetching' && !currentMonthShifts;
 
   return {
     ...query,
     orderedShifts,
+    isLoadingMonth,
     isUsingCachedShifts: shouldUseCachedFeed,
     cachedShiftsAt: shouldUseCachedFeed ? cachedFeed?.cachedAt ?? null : null,
+    pendingSyncCount: pendingMutations.length,
+    syncConflicts,
+    dismissSyncConflicts,
+    confirmAssignment,
+    confirmAssignments,
+    declineAssignment,
+    declineAssignments,
   };
 };
@@ -0,0 +1,64 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { createHandoverNote, fetchHandoverNotes, markHandoverNoteRead } from './shiftHandoverService';
+import { getUnreadHandoverNotes } from './shiftHandover';
+
+/** Handover notes on a shift: incoming from the previous shift, outgoing with read receipts. */
+export const useShiftHandover = (shiftId?: string) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const query = useQuery({
+    queryKey: ['handoverNotes', userId, shiftId],
+    queryFn: () => fetchHandoverNotes(shiftId ?? ''),
+    enabled: Boolean(userId && shiftId),
+    staleTime: 60 * 1000,
+  });
+
+  const incoming = useMemo(() => query.data?.incoming ?? [], [query.data]);
+
+  const submitNote = useCallback(
+    async (body: string) => {
+      if (!shiftId) {
+        throw new Error('Shift id is missing');
+      }
+      setIsSubmitting(true);
+      try {
+        const result = await createHandoverNote(shiftId, body);
+        await queryClient.invalidateQueries({ queryKey: ['handoverNotes', userId, shiftId] });
+        return result;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [queryClient, shiftId, userId]
+  );
+
+  /** Records read receipts for every incoming note that is still unread. */
+  const markIncomingRead = useCallback(async () => {
+    const unread = getUnreadHandoverNotes(incoming);
+    if (!unread.length) return 0;
+    const results = await Promise.all(unread.map((note) => markHandoverNoteRead(note.id).catch(() => null)));
+    const marked = results.filter((result) => result?.ok).length;
+    // Refetching after a rejected receipt would only retry it in a loop.
+    if (marked) {
+      await queryClient.invalidateQueries({ queryKey: ['handoverNotes', userId, shiftId] });
+    }
+    return marked;
+  }, [incoming, queryClient, shiftId, userId]);
+
+  return {
+    status: query.data?.status,
+    incoming,
+    outgoing: query.data?.outgoing ?? [],
+    isLoading: query.isLoading && Boolean(userId && shiftId),
+    error: query.error,
+    refetch: query.refetch,
+    submitNote,
+    isSubmitting,
+    markIncomingRead,
+  };
+};
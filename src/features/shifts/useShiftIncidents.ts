@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { fetchIncidentReports, flushIncidentQueue } from './shiftIncidentsService';
+import {
+  type IncidentReportInput,
+  type QueuedIncidentReport,
+  createQueuedIncidentReport,
+  enqueueIncidentReport,
+  getQueuedIncidentReports,
+  loadIncidentQueue,
+  removeQueuedIncidentReport,
+} from './shiftIncidents';
+
+/**
+ * Incident reports of a shift. New reports are queued on the device first and
+ * submitted right away when online, or on a later flush.
+ */
+export const useShiftIncidents = (shiftId?: string) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [queue, setQueue] = useState<QueuedIncidentReport[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const query = useQuery({
+    queryKey: ['shiftIncidents', userId, shiftId],
+    queryFn: () => fetchIncidentReports(shiftId ?? ''),
+    enabled: Boolean(userId && shiftId),
+    staleTime: 60 * 1000,
+  });
+
+  const reloadQueue = useCallback(async () => {
+    if (!userId) {
+      setQueue([]);
+      return;
+    }
+    setQueue(await loadIncidentQueue(userId));
+  }, [userId]);
+
+  const flush = useCallback(async () => {
+    if (!userId) return null;
+    const result = await flushIncidentQueue(userId);
+    await reloadQueue();
+    if (result.submitted.length) {
+      await queryClient.invalidateQueries({ queryKey: ['shiftIncidents', userId] });
+    }
+    return result;
+  }, [queryClient, reloadQueue, userId]);
+
+  useEffect(() => {
+    void reloadQueue();
+    void flush().catch(() => undefined);
+  }, [flush, reloadQueue]);
+
+  const submitReport = useCallback(
+    async (input: IncidentReportInput) => {
+      if (!userId || !shiftId) {
+        throw new Error('Shift id is missing');
+      }
+      setIsSubmitting(true);
+      try {
+        const report = createQueuedIncidentReport(shiftId, input);
+        await enqueueIncidentReport(userId, report);
+        await reloadQueue();
+        const result = await flush().catch(() => null);
+        return { report, submitted: Boolean(result?.submitted.some((entry) => entry.id === report.id)) };
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [flush, reloadQueue, shiftId, userId]
+  );
+
+  const discardQueuedReport = useCallback(
+    async (reportId: string) => {
+      if (!userId) return;
+      await removeQueuedIncidentReport(userId, reportId);
+      await reloadQueue();
+    },
+    [reloadQueue, userId]
+  );
+
+  const reports = useMemo(() => query.data?.reports ?? [], [query.data]);
+  const queuedReports = useMemo(
+    () => (shiftId ? getQueuedIncidentReports(queue, shiftId, reports) : []),
+    [queue, reports, shiftId]
+  );
+
+  return {
+    status: query.data?.status,
+    reports,
+    queuedReports,
+    isLoading: query.isLoading && Boolean(userId && shiftId),
+    error: query.error,
+    refetch: query.refetch,
+    submitReport,
+    isSubmitting,
+    discardQueuedReport,
+    retryQueuedReports: flush,
+  };
+};
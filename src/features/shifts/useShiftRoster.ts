@@ -0,0 +1,46 @@
+import { useCallback, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { fetchShiftRoster, updateShiftRosterPrivacy } from './shiftRosterService';
+import { DEFAULT_SHIFT_ROSTER_PRIVACY, type ShiftRosterPrivacy } from './shiftRoster';
+
+/** Co-workers on a shift plus the employee's own roster privacy settings. */
+export const useShiftRoster = (shiftId?: string) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [isUpdatingPrivacy, setIsUpdatingPrivacy] = useState(false);
+
+  const query = useQuery({
+    queryKey: ['shiftRoster', userId, shiftId],
+    queryFn: () => fetchShiftRoster(shiftId ?? ''),
+    enabled: Boolean(userId && shiftId),
+    staleTime: 60 * 1000,
+  });
+
+  /** Privacy applies to every roster the employee appears on. */
+  const updatePrivacy = useCallback(
+    async (privacy: ShiftRosterPrivacy) => {
+      setIsUpdatingPrivacy(true);
+      try {
+        const result = await updateShiftRosterPrivacy(privacy);
+        await queryClient.invalidateQueries({ queryKey: ['shiftRoster', userId] });
+        return result;
+      } finally {
+        setIsUpdatingPrivacy(false);
+      }
+    },
+    [queryClient, userId]
+  );
+
+  return {
+    status: query.data?.status,
+    members: query.data?.members ?? [],
+    privacy: query.data?.privacy ?? DEFAULT_SHIFT_ROSTER_PRIVACY,
+    isLoading: query.isLoading && Boolean(userId && shiftId),
+    error: query.error,
+    refetch: query.refetch,
+    updatePrivacy,
+    isUpdatingPrivacy,
+  };
+};
@@ -5,7 +5,9 @@ export type ShiftConfirmationStatus =
   | 'assigned'
   | 'published'
   | 'confirmed'
-  | 'confirmed by employee';
+  | 'confirmed by employee'
+  | 'tentative'
+  | 'declined by employee';
 
 const canonical: ShiftConfirmationStatus[] = [
   'not published',
@@ -15,6 +17,8 @@ const canonical: ShiftConfirmationStatus[] = [
   'published',
   'confirmed',
   'confirmed by employee',
+  'tentative',
+  'declined by employee',
 ];
 
 const labels: Record<ShiftConfirmationStatus, string> = {
@@ -25,6 +29,8 @@ const labels: Record<ShiftConfirmationStatus, string> = {
   published: 'Published',
   confirmed: 'Confirmed',
   'confirmed by employee': 'Confirmed by employee',
+  tentative: 'Tentative',
+  'declined by employee': 'Declined by employee',
 };
 
 const synonyms: Record<string, ShiftConfirmationStatus> = {
@@ -39,6 +45,11 @@ const synonyms: Record<string, ShiftConfirmationStatus> = {
   'confirmed by employee': 'confirmed by employee',
   'confirmed_by_employee': 'confirmed by employee',
   'confirmed-by-employee': 'confirmed by employee',
+  tentative: 'tentative',
+  declined: 'declined by employee',
+  'declined by employee': 'declined by employee',
+  'declined_by_employee': 'declined by employee',
+  'declined-by-employee': 'declined by employee',
 };
 
 export const normalizeShiftConfirmationStatus = (
@@ -55,4 +66,15 @@ export const getShiftConfirmationStatusLabel = (
 ): string => labels[status];
 
 export const isShiftVisibleToEmployee = (status: ShiftConfirmationStatus): boolean =>
-  status === 'published' || status === 'confirmed' || status === 'confirmed by employee';
+  status === 'published' ||
+  status === 'confirmed' ||
+  status === 'confirmed by employee' ||
+  status === 'tentative' ||
+  status === 'declined by employee';
+
+/** Published shifts the employee still has to answer; tentative ones stay open. */
+export const isShiftAwaitingResponse = (status: ShiftConfirmationStatus): boolean =>
+  status === 'published' || status === 'tentative';
+
+export const isShiftDeclinedByEmployee = (status: ShiftConfirmationStatus): boolean =>
+  status === 'declined by employee';
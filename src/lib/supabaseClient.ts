@@ -1,6 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient, PostgrestError, SupabaseClient } from '@supabase/supabase-js';
 
 const { extra } = Constants.expoConfig ?? {};
 
@@ -42,3 +42,13 @@ export const supabaseStorageBucket =
   configuredStorageBucket && configuredStorageBucket.trim()
     ? configuredStorageBucket.trim()
     : 'company-assets';
+
+const MISSING_FUNCTION_CODES = ['PGRST202', '42883'];
+const MISSING_TABLE_CODES = ['42P01', 'PGRST205'];
+
+/** The RPC (or, with `includeTables`, the table) behind a feature is not deployed yet. */
+export const isMissingBackendError = (error: unknown, { includeTables = false } = {}) => {
+  if (typeof error !== 'object' || error === null || !('code' in error)) return false;
+  const { code } = error as PostgrestError;
+  return MISSING_FUNCTION_CODES.includes(code) || (includeTables && MISSING_TABLE_CODES.includes(code));
+};
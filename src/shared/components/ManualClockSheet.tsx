@@ -0,0 +1,461 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, Image, Modal, Pressable, ScrollView, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import * as ImagePicker from 'expo-image-picker';
+import { PrimaryButton } from '@shared/components/PrimaryButton';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import { useTheme } from '@shared/themeContext';
+import {
+  MANUAL_CLOCK_NOTE_MAX_LENGTH,
+  MANUAL_CLOCK_REASONS,
+  validateManualClockInput,
+  type ManualClockInput,
+  type ManualClockReason,
+  type ManualClockRequestResult,
+  type ManualClockValidationError,
+} from '@features/shifts/manualClock';
+import type { QrClockAction } from '@features/shifts/qrClockQueue';
+import type { Shift } from '@features/shifts/shiftMapping';
+
+export const manualClockReasonTranslationKeys: Record<ManualClockReason, TranslationKey> = {
+  'qr-missing': 'manualClockReasonQrMissing',
+  'qr-damaged': 'manualClockReasonQrDamaged',
+  'scanner-failed': 'manualClockReasonScannerFailed',
+  other: 'manualClockReasonOther',
+};
+
+export const manualClockResultTranslationKeys: Record<ManualClockRequestResult['status'], TranslationKey> = {
+  requested: 'manualClockRequestedMessage',
+  already_requested: 'manualClockRequestedMessage',
+  not_assigned: 'manualClockNotAssigned',
+  not_found: 'manualClockNotFound',
+  outside_window: 'manualClockOutsideWindow',
+  invalid: 'manualClockSubmitFailed',
+};
+
+const validationMessageKeys: Record<ManualClockValidationError, TranslationKey> = {
+  'note-required': 'manualClockNoteRequired',
+  'note-too-long': 'manualClockNoteTooLong',
+};
+
+const formatShiftWindow = (shift: Shift) => {
+  const format = (value: string) =>
+    new Date(value).toLocaleTimeString([], {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  return `${format(shift.start)} – ${format(shift.end)}`;
+};
+
+type Props = {
+  visible: boolean;
+  /** Shifts that can be clocked manually right now. */
+  shifts: Shift[];
+  initialShiftId?: string;
+  getDefaultAction: (shift: Shift) => QrClockAction;
+  submitting?: boolean;
+  onClose: () => void;
+  onSubmit: (input: ManualClockInput) => void;
+};
+
+export const ManualClockSheet = ({
+  visible,
+  shifts,
+  initialShiftId,
+  getDefaultAction,
+  submitting,
+  onClose,
+  onSubmit,
+}: Props) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const [shiftId, setShiftId] = useState<string | undefined>();
+  const [action, setAction] = useState<QrClockAction>('clock_in');
+  const [reason, setReason] = useState<ManualClockReason>('qr-missing');
+  const [note, setNote] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | undefined>();
+  const [includeLocation, setIncludeLocation] = useState(true);
+  const [validationError, setValidationError] = useState<ManualClockValidationError | null>(null);
+
+  const wasVisibleRef = useRef(false);
+
+  const selectShift = useCallback(
+    (shift?: Shift) => {
+      setShiftId(shift?.id);
+      if (shift) setAction(getDefaultAction(shift));
+    },
+    [getDefaultAction]
+  );
+
+  useEffect(() => {
+    // Reset only when the sheet opens; the shift list refreshes in the background.
+    const opened = visible && !wasVisibleRef.current;
+    wasVisibleRef.current = visible;
+    if (!opened) return;
+    selectShift(shifts.find((shift) => shift.id === initialShiftId) ?? shifts[0]);
+    setReason('qr-missing');
+    setNote('');
+    setPhotoUri(undefined);
+    setIncludeLocation(true);
+    setValidationError(null);
+  }, [initialShiftId, selectShift, shifts, visible]);
+
+  const handleTakePhoto = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(t('manualClockSheetTitle'), t('manualClockPhotoPermissionDenied'));
+      return;
+    }
+    const result = await ImagePicker.launchCameraAsync({ quality: 0.8 });
+    const uri = result.canceled ? undefined : result.assets?.[0]?.uri;
+    if (uri) setPhotoUri(uri);
+  };
+
+  const handleSubmit = () => {
+    if (!shiftId) return;
+    const error = validateManualClockInput({ reason, note });
+    setValidationError(error);
+    if (error) return;
+    onSubmit({
+      shiftId,
+      action,
+      reason,
+      note: note.trim() || undefined,
+      photoUri,
+      includeLocation,
+    });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      style={[
+        styles.chip,
+        {
+          borderColor: selected ? theme.primary : theme.borderSoft,
+          backgroundColor: selected ? theme.primary : theme.surfaceMuted,
+        },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : theme.textPrimary }]}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <Modal transparent visible={visible} animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.modalBackdrop} onPress={onClose}>
+        <Pressable
+          style={[styles.modalCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}
+          onPress={(event) => event.stopPropagation()}
+        >
+          <View style={[styles.modalHandle, { backgroundColor: theme.borderSoft }]} />
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.content}>
+            <Text style={[styles.modalTitle, { color: theme.textPrimary }]}>{t('manualClockSheetTitle')}</Text>
+            <Text style={[styles.modalSubtitle, { color: theme.textSecondary }]}>
+              {t('manualClockSheetSubtitle')}
+            </Text>
+
+            {shifts.length ? (
+              <>
+                <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('manualClockShiftLabel')}</Text>
+                {shifts.map((shift) => {
+                  const selected = shift.id === shiftId;
+                  return (
+                    <Pressable
+                      key={shift.id}
+                      onPress={() => selectShift(shift)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected }}
+                      style={[
+                        styles.shiftOption,
+                        {
+                          borderColor: selected ? theme.primary : theme.borderSoft,
+                          backgroundColor: theme.surfaceMuted,
+                        },
+                      ]}
+                    >
+                      <Ionicons
+                        name={selected ? 'radio-button-on' : 'radio-button-off'}
+                        size={18}
+                        color={selected ? theme.primary : theme.textSecondary}
+                      />
+                      <View style={styles.shiftOptionCopy}>
+                        <Text style={[styles.shiftOptionTitle, { color: theme.textPrimary }]} numberOfLines={1}>
+                          {shift.title}
+                        </Text>
+                        <Text style={[styles.shiftOptionMeta, { color: theme.textSecondary }]} numberOfLines={1}>
+                          {formatShiftWindow(shift)}
+                        </Text>
+                      </View>
+                    </Pressable>
+                  );
+                })}
+
+                <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('manualClockActionLabel')}</Text>
+                <View style={styles.chipRow}>
+                  {renderChip('clock_in', t('manualClockActionClockIn'), action === 'clock_in', () =>
+                    setAction('clock_in')
+                  )}
+                  {renderChip('clock_out', t('manualClockActionClockOut'), action === 'clock_out', () =>
+                    setAction('clock_out')
+                  )}
+                </View>
+
+                <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('manualClockReasonLabel')}</Text>
+                <View style={styles.chipRow}>
+                  {MANUAL_CLOCK_REASONS.map((option) =>
+                    renderChip(option, t(manualClockReasonTranslationKeys[option]), reason === option, () => {
+                      setReason(option);
+                      setValidationError(null);
+                    })
+                  )}
+                </View>
+
+                <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('manualClockNoteLabel')}</Text>
+                <View style={[styles.noteWrap, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}>
+                  <TextInput
+                    value={note}
+                    onChangeText={(value) => {
+                      setNote(value);
+                      setValidationError(null);
+                    }}
+                    placeholder={t('manualClockNotePlaceholder')}
+                    placeholderTextColor={theme.textPlaceholder}
+                    maxLength={MANUAL_CLOCK_NOTE_MAX_LENGTH}
+                    multiline
+                    textAlignVertical="top"
+                    style={[styles.noteInput, { color: theme.textPrimary }]}
+                  />
+                </View>
+
+                <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('manualClockPhotoLabel')}</Text>
+                <View style={styles.photoRow}>
+                  {photoUri ? (
+                    <Pressable
+                      onPress={() => setPhotoUri(undefined)}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('manualClockRemovePhoto')}
+                    >
+                      <Image source={{ uri: photoUri }} style={styles.photo} />
+                      <View style={[styles.removeBadge, { backgroundColor: theme.surface }]}>
+                        <Ionicons name="close" size={12} color={theme.textPrimary} />
+                      </View>
+                    </Pressable>
+                  ) : (
+                    <Pressable
+                      onPress={() => void handleTakePhoto()}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('manualClockTakePhoto')}
+                      style={[styles.photoButton, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}
+                    >
+                      <Ionicons name="camera-outline" size={22} color={theme.info} />
+                    </Pressable>
+                  )}
+                  <Text style={[styles.photoHint, { color: theme.textSecondary }]}>{t('manualClockPhotoHint')}</Text>
+                </View>
+
+                <View style={styles.toggleRow}>
+                  <View style={styles.toggleCopy}>
+                    <Text style={[styles.toggleTitle, { color: theme.textPrimary }]}>
+                      {t('manualClockLocationLabel')}
+                    </Text>
+                    <Text style={[styles.toggleHint, { color: theme.textSecondary }]}>
+                      {t('manualClockLocationHint')}
+                    </Text>
+                  </View>
+                  <Switch value={includeLocation} onValueChange={setIncludeLocation} />
+                </View>
+
+                {validationError ? (
+                  <Text style={[styles.errorText, { color: theme.fail }]}>
+                    {t(validationMessageKeys[validationError], { max: MANUAL_CLOCK_NOTE_MAX_LENGTH })}
+                  </Text>
+                ) : null}
+
+                <PrimaryButton
+                  title={t('manualClockSubmit')}
+                  onPress={handleSubmit}
+                  loading={submitting}
+                  style={styles.submitButton}
+                />
+              </>
+            ) : (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>{t('manualClockNoShifts')}</Text>
+            )}
+            <Pressable onPress={onClose} accessibilityRole="button" style={styles.cancelButton} hitSlop={8}>
+              <Text style={[styles.cancelText, { color: theme.textSecondary }]}>{t('commonCancel')}</Text>
+            </Pressable>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(2, 6, 23, 0.72)',
+    justifyContent: 'flex-end',
+  },
+  modalCard: {
+    maxHeight: '92%',
+    borderTopLeftRadius: 28,
+    borderTopRightRadius: 28,
+    borderWidth: 1,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  content: {
+    paddingBottom: 28,
+  },
+  modalHandle: {
+    width: 46,
+    height: 5,
+    borderRadius: 999,
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 6,
+    marginBottom: 4,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  shiftOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  shiftOptionCopy: {
+    flex: 1,
+    minWidth: 0,
+  },
+  shiftOptionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  shiftOptionMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  noteWrap: {
+    borderWidth: 1,
+    borderRadius: 16,
+    minHeight: 90,
+  },
+  noteInput: {
+    minHeight: 90,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: 12,
+  },
+  removeBadge: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photoButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photoHint: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 16,
+  },
+  toggleCopy: {
+    flex: 1,
+  },
+  toggleTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  toggleHint: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  submitButton: {
+    marginTop: 18,
+  },
+  cancelButton: {
+    alignSelf: 'center',
+    marginTop: 14,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
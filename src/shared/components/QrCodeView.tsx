@@ -0,0 +1,72 @@
+import { useMemo } from 'react';
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+import { encodeQrCode } from '@shared/utils/qrCodeMatrix';
+
+type Props = {
+  value: string;
+  /** Upper bound for the rendered width and height, including the quiet zone. */
+  size: number;
+  style?: StyleProp<ViewStyle>;
+};
+
+const QUIET_ZONE_MODULES = 4;
+
+/**
+ * Renders a QR code from plain views, one per run of dark modules in a row.
+ * Module sizes are whole pixels so scanners see sharp edges.
+ */
+export const QrCodeView = ({ value, size, style }: Props) => {
+  const matrix = useMemo(() => encodeQrCode(value), [value]);
+  const moduleSize = Math.max(2, Math.floor(size / (matrix.size + QUIET_ZONE_MODULES * 2)));
+
+  const rows = useMemo(
+    () =>
+      matrix.modules.map((row) => {
+        const runs: { start: number; length: number }[] = [];
+        row.forEach((dark, x) => {
+          if (!dark) return;
+          const last = runs[runs.length - 1];
+          if (last && last.start + last.length === x) {
+            last.length += 1;
+          } else {
+            runs.push({ start: x, length: 1 });
+          }
+        });
+        return runs;
+      }),
+    [matrix]
+  );
+
+  return (
+    <View
+      style={[styles.container, { padding: moduleSize * QUIET_ZONE_MODULES }, style]}
+      accessibilityRole="image"
+    >
+      {rows.map((runs, y) => (
+        <View key={y} style={{ width: moduleSize * matrix.size, height: moduleSize }}>
+          {runs.map((run) => (
+            <View
+              key={run.start}
+              style={[
+                styles.module,
+                { left: run.start * moduleSize, width: run.length * moduleSize, height: moduleSize },
+              ]}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+    alignSelf: 'center',
+  },
+  module: {
+    position: 'absolute',
+    top: 0,
+    backgroundColor: '#000000',
+  },
+});
@@ -14,6 +14,15 @@ import {
 import { getShiftPhase, phaseMeta } from '@shared/utils/shiftPhase';
 import { openAddressInMaps } from '@shared/utils/maps';
 import { useTheme } from '@shared/themeContext';
+import { useTimeDisplay } from '@shared/context/TimeDisplayContext';
+import { getTimeZoneLabel } from '@shared/utils/timeUtils';
+import { getShiftDeclineLabel } from '@shared/components/ShiftDeclineSheet';
+import { ShiftConflictWarnings } from '@shared/components/ShiftConflictWarnings';
+import {
+  formatShiftConfirmCountdown,
+  getShiftConfirmDeadline,
+  type ShiftConfirmUrgency,
+} from '@features/shifts/shiftConfirmDeadline';
 
 const statusColors: Record<string, string> = {
   scheduled: '#2563eb',
@@ -21,6 +30,8 @@ const statusColors: Record<string, string> = {
   completed: '#6b7280',
   blocked: '#dc2626',
   confirmed: '#16a34a',
+  declined: '#dc2626',
+  tentative: '#d97706',
 };
 
 const statusIconMap: Record<string, ComponentProps<typeof Ionicons>['name']> = {
@@ -29,6 +40,8 @@ const statusIconMap: Record<string, ComponentProps<typeof Ionicons>['name']> = {
   completed: 'checkmark-done-outline',
   blocked: 'alert-circle-outline',
   confirmed: 'checkmark-circle-outline',
+  declined: 'close-circle-outline',
+  tentative: 'help-circle-outline',
 };
 
 const statusLabelTranslationKeys: Record<string, TranslationKey | undefined> = {
@@ -37,22 +50,31 @@ const statusLabelTranslationKeys: Record<string, TranslationKey | undefined> = {
   completed: 'statusCompleted',
   blocked: 'statusBlocked',
   confirmed: 'confirmed',
+  declined: 'statusDeclined',
+  tentative: 'statusTentative',
+};
+
+const deadlineColors: Record<ShiftConfirmUrgency, string> = {
+  normal: '#2563eb',
+  soon: '#d97706',
+  urgent: '#ea580c',
+  overdue: '#dc2626',
 };
 
-const formatTime = (iso: string) => {
+const formatTime = (iso: string, timeZone?: string) => {
   const parsed = new Date(iso);
   if (Number.isNaN(parsed.getTime())) {
     return '—';
   }
-  return parsed.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return parsed.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone });
 };
 
-const formatDate = (iso: string) => {
+const formatDate = (iso: string, timeZone?: string) => {
   const parsed = new Date(iso);
   if (Number.isNaN(parsed.getTime())) {
     return '—';
   }
-  return parsed.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+  return parsed.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', timeZone });
 };
 
 const formatDuration = (start: string, end: string) => {
@@ -89,28 +111,56 @@ type Props = {
   shift: Shift;
   onPress?: () => void;
   onConfirm?: () => void;
+  onDecline?: () => void;
   confirmLoading?: boolean;
   isPrimary?: boolean;
+  /** Overlap, rest-period or vacation warnings, already translated. */
+  conflictWarnings?: string[];
+  /** Replaces the default "Confirm shift" button title. */
+  confirmLabel?: string;
+  /** Shown in place of the actions when the card has no confirm handler. */
+  footerLabel?: string;
+  /** Recurrence summary such as "Every Mon/Wed 08:00–12:00", already translated. */
+  seriesSummary?: string;
 };
 
 export const ShiftCard = ({
   shift,
   onPress,
   onConfirm,
+  onDecline,
   confirmLoading,
   isPrimary,
+  conflictWarnings,
+  confirmLabel,
+  footerLabel,
+  seriesSummary,
 }: Props) => {
   const [showFullAddress, setShowFullAddress] = useState(false);
   const [showFullDescription, setShowFullDescription] = useState(false);
   const { theme } = useTheme();
   const { t } = useLanguage();
+  const { getDisplayTimeZone } = useTimeDisplay();
+  const displayTimeZone = getDisplayTimeZone(shift);
+  const timeZoneLabel = getTimeZoneLabel(shift.start, displayTimeZone);
   const normalizedConfirmationStatus = normalizeShiftConfirmationStatus(shift.confirmationStatus);
   const isConfirmed =
     normalizedConfirmationStatus === 'confirmed' ||
     normalizedConfirmationStatus === 'confirmed by employee';
+  const isDeclined = normalizedConfirmationStatus === 'declined by employee';
+  const isTentative = normalizedConfirmationStatus === 'tentative';
   const confirmationLabel = getShiftConfirmationStatusLabel(normalizedConfirmationStatus);
+  const declineLabel = getShiftDeclineLabel(t, shift);
+  const confirmDeadline = shift.pendingSync ? null : getShiftConfirmDeadline(shift);
+  const deadlineColor = confirmDeadline ? deadlineColors[confirmDeadline.urgency] : undefined;
   const gradientColors: [string, string] = [theme.heroGradientStart, theme.heroGradientEnd];
-  const displayStatus = isConfirmed ? 'confirmed' : shift.status;
+  const displayStatus = isConfirmed
+    ? 'confirmed'
+    : isDeclined
+    ? 'declined'
+    : isTentative
+    ? 'tentative'
+    : shift.status;
   const statusColor = statusColors[displayStatus] ?? '#1d4ed8';
   const statusTranslationKey = statusLabelTranslationKeys[displayStatus];
   const statusLabel = statusTranslationKey ? t(statusTranslationKey) : displayStatus;
@@ -182,7 +232,7 @@ export const ShiftCard = ({
                 {t('upcomingShiftListTitle')}
               </Text>
             </View>
-            <Text style={[styles.cardDate, { color: theme.textSecondary }]}>{formatDate(shift.start)}</Text>
+            <Text style={[styles.cardDate, { color: theme.textSecondary }]}>{formatDate(shift.start, displayTimeZone)}</Text>
             <View style={styles.phaseRow}>
               <LinearGradient
                 colors={phaseGradientColors}
@@ -199,6 +249,24 @@ export const ShiftCard = ({
                 <Text style={styles.phaseBadgeText}>{phaseMetadata.label}</Text>
               </LinearGradient>
             </View>
+            {confirmDeadline ? (
+              <View
+                style={[styles.deadlineBadge, { borderColor: deadlineColor, backgroundColor: `${deadlineColor}1a` }]}
+              >
+                <Ionicons
+                  name={confirmDeadline.urgency === 'overdue' ? 'alert-circle-outline' : 'hourglass-outline'}
+                  size={13}
+                  color={deadlineColor}
+                />
+                <Text style={[styles.deadlineBadgeText, { color: deadlineColor }]}>
+                  {confirmDeadline.urgency === 'overdue'
+                    ? t('shiftConfirmDeadlineOverdue')
+                    : t('shiftConfirmDeadlineBadge', {
+                        time: formatShiftConfirmCountdown(confirmDeadline.remainingMs),
+                      })}
+                </Text>
+              </View>
+            ) : null}
           </View>
           <LinearGradient
             colors={statusGradientColors}
@@ -216,14 +284,18 @@ export const ShiftCard = ({
         </View>
 
         <View style={styles.sectionSpacer}>
-          <Text style={[styles.timeLabel, { color: theme.textSecondary }]}>{t('shiftWindowLabel')}</Text>
+          <Text style={[styles.timeLabel, { color: theme.textSecondary }]}>
+            {timeZoneLabel
+              ? `${t('shiftWindowLabel')} · ${t('shiftSiteTimeLabel', { zone: timeZoneLabel })}`
+              : t('shiftWindowLabel')}
+          </Text>
           <View style={styles.timeRow}>
             <View style={styles.timePart}>
-              <Text style={[styles.timeValue, { color: theme.textPrimary }]}>{formatTime(shift.start)}</Text>
+              <Text style={[styles.timeValue, { color: theme.textPrimary }]}>{formatTime(shift.start, displayTimeZone)}</Text>
               <Text style={[styles.timeLabelSmall, { color: theme.textSecondary }]}>{t('shiftStartLabel')}</Text>
             </View>
             <View style={styles.timePart}>
-              <Text style={[styles.timeValue, { color: theme.textPrimary }]}>{formatTime(shift.end)}</Text>
+              <Text style={[styles.timeValue, { color: theme.textPrimary }]}>{formatTime(shift.end, displayTimeZone)}</Text>
               <Text style={[styles.timeLabelSmall, { color: theme.textSecondary }]}>{t('shiftEndLabel')}</Text>
             </View>
             <View style={[styles.durationContainer, styles.timePartRight]}>
@@ -231,6 +303,14 @@ export const ShiftCard = ({
               <Text style={[styles.timeLabelSmall, { color: theme.textSecondary }]}>· {t('shiftDuration')}</Text>
             </View>
           </View>
+          {seriesSummary ? (
+            <View style={styles.seriesRow}>
+              <Ionicons name="repeat-outline" size={14} color={theme.textSecondary} />
+              <Text style={[styles.seriesText, { color: theme.textSecondary }]} numberOfLines={2}>
+                {seriesSummary}
+              </Text>
+            </View>
+          ) : null}
         </View>
 
         <Pressable
@@ -305,18 +385,53 @@ export const ShiftCard = ({
           ) : null}
         </View>
 
+        {isTentative ? (
+          <Text style={[styles.declineNote, { color: theme.caution }]} numberOfLines={2}>
+            {shift.declineNote ? `${declineLabel} — ${shift.declineNote}` : declineLabel}
+          </Text>
+        ) : null}
+
+        {conflictWarnings?.length ? (
+          <ShiftConflictWarnings warnings={conflictWarnings} style={styles.conflictWarnings} />
+        ) : null}
+
         <View style={styles.confirmSection}>
           {isConfirmed ? (
-            <Text style={[styles.confirmedTextOption, { color: theme.success }]}>{confirmationLabel}</Text>
+            <Text style={[styles.confirmedTextOption, { color: shift.pendingSync ? theme.caution : theme.success }]}>
+              {shift.pendingSync ? t('shiftPendingSyncLabel') : confirmationLabel}
+            </Text>
+          ) : isDeclined ? (
+            <Text style={[styles.confirmedTextOption, { color: theme.fail }]} numberOfLines={2}>
+              {declineLabel}
+            </Text>
           ) : (
-            onConfirm && (
-              <PrimaryButton
-                title={t('confirmShift')}
-                onPress={onConfirm}
-                loading={confirmLoading}
-                style={styles.confirmButton}
-              />
-            )
+            <>
+              {onDecline ? (
+                <Pressable
+                  onPress={onDecline}
+                  accessibilityRole="button"
+                  hitSlop={8}
+                  style={styles.declineButton}
+                  disabled={confirmLoading}
+                >
+                  <Text style={[styles.declineButtonText, { color: theme.textSecondary }]}>
+                    {t('shiftDeclineAction')}
+                  </Text>
+                </Pressable>
+              ) : null}
+              {onConfirm ? (
+                <PrimaryButton
+                  title={confirmLabel ?? t('confirmShift')}
+                  onPress={onConfirm}
+                  loading={confirmLoading}
+                  style={styles.confirmButton}
+                />
+              ) : footerLabel ? (
+                <Text style={[styles.confirmedTextOption, { color: theme.textSecondary }]} numberOfLines={2}>
+                  {footerLabel}
+                </Text>
+              ) : null}
+            </>
           )}
         </View>
       </View>
@@ -435,6 +550,21 @@ const styles = StyleSheet.create({
     shadowOffset: { width: 0, height: 3 },
     shadowRadius: 6,
   },
+  deadlineBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    columnGap: 4,
+    marginTop: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  deadlineBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
   phaseBadgeText: {
     fontSize: 12,
     fontWeight: '600',
@@ -484,6 +614,17 @@ const styles = StyleSheet.create({
   timePartRight: {
     alignItems: 'flex-end',
   },
+  seriesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    columnGap: 6,
+    marginTop: 8,
+  },
+  seriesText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+  },
   locationRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -558,6 +699,22 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#059669',
   },
+  declineNote: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 10,
+  },
+  conflictWarnings: {
+    marginTop: 10,
+  },
+  declineButton: {
+    marginRight: 16,
+    paddingVertical: 8,
+  },
+  declineButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   confirmButton: {
     paddingHorizontal: 22,
     borderRadius: 22,
@@ -0,0 +1,150 @@
+import { StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import { useTheme } from '@shared/themeContext';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import type { ShiftChangeEntry, ShiftChangeField, ShiftFieldChange } from '@features/shifts/shiftChanges';
+
+type Props = {
+  entries: ShiftChangeEntry[];
+  /** Values the shift was first published with, for fields changed since. */
+  originalValues: ShiftFieldChange[];
+  /** Zone start and end values are shown in. */
+  timeZone?: string;
+  style?: StyleProp<ViewStyle>;
+};
+
+const fieldLabelKeys: Record<ShiftChangeField, TranslationKey> = {
+  start: 'shiftChangeFieldStart',
+  end: 'shiftChangeFieldEnd',
+  site: 'shiftChangeFieldSite',
+  location: 'shiftChangeFieldLocation',
+  role: 'shiftRoleLabel',
+  dressCode: 'shiftDressCodeLabel',
+  description: 'shiftChangeFieldDescription',
+};
+
+const formatInstant = (value: string, timeZone?: string) =>
+  new Date(value).toLocaleString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+  });
+
+export const ShiftChangeTimeline = ({ entries, originalValues, timeZone, style }: Props) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+
+  const formatValue = (field: ShiftChangeField, value?: string) => {
+    if (!value) return t('shiftChangeValueEmpty');
+    return field === 'start' || field === 'end' ? formatInstant(value, timeZone) : value;
+  };
+
+  return (
+    <View style={style}>
+      {originalValues.length ? (
+        <View style={[styles.original, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}>
+          <Text style={[styles.originalTitle, { color: theme.textSecondary }]}>
+            {t('shiftChangeOriginalTitle')}
+          </Text>
+          {originalValues.map((value) => (
+            <Text key={value.field} style={[styles.line, { color: theme.textPrimary }]}>
+              {`${t(fieldLabelKeys[value.field])}: ${formatValue(value.field, value.before)}`}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+
+      {entries.map((entry, index) => (
+        <View key={entry.id} style={styles.entry}>
+          <View style={styles.rail}>
+            <View
+              style={[styles.dot, { backgroundColor: entry.kind === 'published' ? theme.success : theme.info }]}
+            />
+            {index < entries.length - 1 ? <View style={[styles.track, { backgroundColor: theme.borderSoft }]} /> : null}
+          </View>
+          <View style={styles.entryBody}>
+            <Text style={[styles.entryTitle, { color: theme.textPrimary }]}>
+              {t(entry.kind === 'published' ? 'shiftChangePublished' : 'shiftChangeUpdated')}
+            </Text>
+            <Text style={[styles.entryMeta, { color: theme.textSecondary }]}>
+              {entry.source === 'device'
+                ? `${formatInstant(entry.changedAt)} · ${t('shiftChangeRecordedOnDevice')}`
+                : formatInstant(entry.changedAt)}
+            </Text>
+            {entry.changes.map((change) =>
+              entry.kind === 'published' ? (
+                <Text key={change.field} style={[styles.line, { color: theme.textPrimary }]} numberOfLines={3}>
+                  {`${t(fieldLabelKeys[change.field])}: ${formatValue(change.field, change.after)}`}
+                </Text>
+              ) : (
+                <Text key={change.field} style={[styles.line, { color: theme.textPrimary }]} numberOfLines={4}>
+                  {`${t(fieldLabelKeys[change.field])}: `}
+                  <Text style={[styles.previous, { color: theme.textSecondary }]}>
+                    {formatValue(change.field, change.before)}
+                  </Text>
+                  {` → ${formatValue(change.field, change.after)}`}
+                </Text>
+              )
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  original: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    marginBottom: 12,
+    gap: 2,
+  },
+  originalTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  entry: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 18,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 5,
+  },
+  track: {
+    flex: 1,
+    width: 2,
+    marginTop: 4,
+  },
+  entryBody: {
+    flex: 1,
+    paddingLeft: 8,
+    paddingBottom: 14,
+  },
+  entryTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  entryMeta: {
+    fontSize: 12,
+    marginTop: 2,
+    marginBottom: 4,
+  },
+  line: {
+    fontSize: 13,
+    lineHeight: 19,
+  },
+  previous: {
+    textDecorationLine: 'line-through',
+  },
+});
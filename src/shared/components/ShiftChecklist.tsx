@@ -0,0 +1,210 @@
+import { Image, Pressable, StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@shared/themeContext';
+import { useLanguage } from '@shared/context/LanguageContext';
+import {
+  isShiftTaskDone,
+  type ShiftChecklistProgress,
+  type ShiftChecklistTask,
+  type ShiftTaskCompletion,
+} from '@features/shifts/shiftChecklist';
+
+type Props = {
+  tasks: ShiftChecklistTask[];
+  completions: ShiftTaskCompletion[];
+  progress: ShiftChecklistProgress;
+  /** Tasks can only be ticked off while the shift is live. */
+  editable: boolean;
+  submittedAt?: string;
+  isPendingSubmit?: boolean;
+  onToggleTask: (task: ShiftChecklistTask) => void;
+  onAddPhoto: (task: ShiftChecklistTask) => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+export const ShiftChecklist = ({
+  tasks,
+  completions,
+  progress,
+  editable,
+  submittedAt,
+  isPendingSubmit,
+  onToggleTask,
+  onAddPhoto,
+  style,
+}: Props) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const completionByTask = new Map(completions.map((completion) => [completion.taskId, completion]));
+  const missingRequired = progress.requiredTotal - progress.requiredDone;
+
+  const statusText = isPendingSubmit
+    ? t('shiftChecklistPendingSubmit')
+    : submittedAt
+    ? t('shiftChecklistSubmittedAt', {
+        time: new Date(submittedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
+      })
+    : editable
+    ? null
+    : t('shiftChecklistLiveOnly');
+
+  return (
+    <View style={style}>
+      <Text style={[styles.summary, { color: theme.textPrimary }]}>
+        {t('shiftChecklistProgress', { done: progress.done, total: progress.total })}
+        {missingRequired > 0 ? (
+          <Text style={{ color: theme.caution }}>
+            {` · ${t('shiftChecklistRequiredOpen', { count: missingRequired })}`}
+          </Text>
+        ) : null}
+      </Text>
+      {statusText ? <Text style={[styles.status, { color: theme.textSecondary }]}>{statusText}</Text> : null}
+
+      {tasks.map((task) => {
+        const completion = completionByTask.get(task.id);
+        const done = isShiftTaskDone(task, completion);
+        const needsPhoto = task.requiresPhoto && !completion?.photoUri && !completion?.photoPath;
+        return (
+          <View key={task.id} style={[styles.task, { borderColor: theme.borderSoft }]}>
+            <Pressable
+              onPress={() => onToggleTask(task)}
+              disabled={!editable}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: done, disabled: !editable }}
+              style={({ pressed }) => [styles.taskMain, pressed && styles.pressed]}
+            >
+              <Ionicons
+                name={done ? 'checkbox' : completion ? 'remove-circle-outline' : 'square-outline'}
+                size={22}
+                color={done ? theme.success : completion ? theme.caution : theme.textSecondary}
+              />
+              <View style={styles.taskText}>
+                <View style={styles.titleRow}>
+                  <Text style={[styles.title, { color: theme.textPrimary }]}>{task.title}</Text>
+                  <Text
+                    style={[
+                      styles.badge,
+                      task.isRequired
+                        ? { color: theme.caution, borderColor: theme.caution }
+                        : { color: theme.textSecondary, borderColor: theme.borderSoft },
+                    ]}
+                  >
+                    {t(task.isRequired ? 'shiftChecklistRequired' : 'shiftChecklistOptional')}
+                  </Text>
+                </View>
+                {task.details ? (
+                  <Text style={[styles.details, { color: theme.textSecondary }]}>{task.details}</Text>
+                ) : null}
+                {completion && needsPhoto ? (
+                  <Text style={[styles.details, { color: theme.caution }]}>{t('shiftChecklistPhotoNeeded')}</Text>
+                ) : null}
+              </View>
+            </Pressable>
+            {task.requiresPhoto ? (
+              completion?.photoUri ? (
+                <Pressable
+                  onPress={() => onAddPhoto(task)}
+                  disabled={!editable}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('shiftChecklistRetakePhoto')}
+                >
+                  <Image source={{ uri: completion.photoUri }} style={styles.thumbnail} />
+                </Pressable>
+              ) : completion?.photoPath ? (
+                <Ionicons name="image" size={20} color={theme.success} style={styles.photoIcon} />
+              ) : editable ? (
+                <Pressable
+                  onPress={() => onAddPhoto(task)}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('shiftChecklistAddPhoto')}
+                  hitSlop={6}
+                  style={({ pressed }) => [
+                    styles.photoButton,
+                    { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft },
+                    pressed && styles.pressed,
+                  ]}
+                >
+                  <Ionicons name="camera-outline" size={18} color={theme.info} />
+                </Pressable>
+              ) : (
+                <Ionicons name="camera-outline" size={18} color={theme.textSecondary} style={styles.photoIcon} />
+              )
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  summary: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  status: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  task: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  taskMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    columnGap: 10,
+  },
+  taskText: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    columnGap: 6,
+  },
+  title: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  badge: {
+    fontSize: 11,
+    fontWeight: '700',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    overflow: 'hidden',
+  },
+  details: {
+    fontSize: 12,
+    lineHeight: 17,
+    marginTop: 2,
+  },
+  photoButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  photoIcon: {
+    marginLeft: 8,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  pressed: {
+    opacity: 0.75,
+  },
+});
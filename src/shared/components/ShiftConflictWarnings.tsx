@@ -0,0 +1,49 @@
+import { StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@shared/themeContext';
+
+type Props = {
+  warnings: string[];
+  style?: StyleProp<ViewStyle>;
+};
+
+export const ShiftConflictWarnings = ({ warnings, style }: Props) => {
+  const { theme } = useTheme();
+  if (!warnings.length) return null;
+  return (
+    <View
+      style={[styles.container, { borderColor: theme.caution, backgroundColor: `${theme.caution}14` }, style]}
+      accessibilityRole="alert"
+    >
+      {warnings.map((warning, index) => (
+        <View key={`${index}-${warning}`} style={styles.row}>
+          <Ionicons name="warning-outline" size={14} color={theme.caution} style={styles.icon} />
+          <Text style={[styles.text, { color: theme.textPrimary }]}>{warning}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  icon: {
+    marginRight: 6,
+    marginTop: 1,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
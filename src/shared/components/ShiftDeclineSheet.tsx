@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { PrimaryButton } from '@shared/components/PrimaryButton';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import { useTheme } from '@shared/themeContext';
+import {
+  SHIFT_DECLINE_NOTE_MAX_LENGTH,
+  SHIFT_DECLINE_REASONS,
+  validateShiftDecline,
+  type ShiftDeclineInput,
+  type ShiftDeclineReason,
+  type ShiftDeclineStatus,
+  type ShiftDeclineValidationError,
+} from '@features/shifts/shiftDecline';
+import type { Shift } from '@features/shifts/shiftsService';
+import { normalizeShiftConfirmationStatus } from '@lib/shiftConfirmationStatus';
+
+export const shiftDeclineReasonTranslationKeys: Record<ShiftDeclineReason, TranslationKey> = {
+  illness: 'shiftDeclineReasonIllness',
+  'schedule-conflict': 'shiftDeclineReasonScheduleConflict',
+  transport: 'shiftDeclineReasonTransport',
+  personal: 'shiftDeclineReasonPersonal',
+  other: 'shiftDeclineReasonOther',
+};
+
+/** "Declined · Illness" style label for a declined or tentative shift. */
+export const getShiftDeclineLabel = (
+  t: ReturnType<typeof useLanguage>['t'],
+  shift: Pick<Shift, 'confirmationStatus' | 'declineReason'>
+) => {
+  const isDeclined = normalizeShiftConfirmationStatus(shift.confirmationStatus) === 'declined by employee';
+  if (!shift.declineReason) {
+    return t(isDeclined ? 'statusDeclined' : 'statusTentative');
+  }
+  return t(isDeclined ? 'shiftDeclinedLabel' : 'shiftTentativeLabel', {
+    reason: t(shiftDeclineReasonTranslationKeys[shift.declineReason]),
+  });
+};
+
+const statusOptions: { status: ShiftDeclineStatus; labelKey: TranslationKey }[] = [
+  { status: 'declined by employee', labelKey: 'shiftDeclineStatusDeclined' },
+  { status: 'tentative', labelKey: 'shiftDeclineStatusTentative' },
+];
+
+const validationMessageKeys: Record<ShiftDeclineValidationError, TranslationKey> = {
+  'reason-required': 'shiftDeclineReasonRequired',
+  'note-required': 'shiftDeclineNoteRequired',
+  'note-too-long': 'shiftDeclineNoteTooLong',
+};
+
+type Props = {
+  visible: boolean;
+  submitting?: boolean;
+  onClose: () => void;
+  onSubmit: (input: ShiftDeclineInput) => void;
+};
+
+export const ShiftDeclineSheet = ({ visible, submitting, onClose, onSubmit }: Props) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const [status, setStatus] = useState<ShiftDeclineStatus>('declined by employee');
+  const [reason, setReason] = useState<ShiftDeclineReason | null>(null);
+  const [note, setNote] = useState('');
+  const [validationError, setValidationError] = useState<ShiftDeclineValidationError | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setStatus('declined by employee');
+    setReason(null);
+    setNote('');
+    setValidationError(null);
+  }, [visible]);
+
+  const handleSubmit = () => {
+    const input = { status, reason: reason ?? undefined, note };
+    const error = validateShiftDecline(input);
+    setValidationError(error);
+    if (error || !reason) return;
+    onSubmit({ status, reason, note });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      style={[
+        styles.chip,
+        {
+          borderColor: selected ? theme.primary : theme.borderSoft,
+          backgroundColor: selected ? theme.primary : theme.surfaceMuted,
+        },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : theme.textPrimary }]}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <Modal transparent visible={visible} animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.modalBackdrop} onPress={onClose}>
+        <Pressable
+          style={[styles.modalCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}
+          onPress={(event) => event.stopPropagation()}
+        >
+          <View style={[styles.modalHandle, { backgroundColor: theme.borderSoft }]} />
+          <Text style={[styles.modalTitle, { color: theme.textPrimary }]}>{t('shiftDeclineTitle')}</Text>
+          <Text style={[styles.modalSubtitle, { color: theme.textSecondary }]}>
+            {t('shiftDeclineSubtitle')}
+          </Text>
+
+          <View style={styles.chipRow}>
+            {statusOptions.map((option) =>
+              renderChip(option.status, t(option.labelKey), status === option.status, () =>
+                setStatus(option.status)
+              )
+            )}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('shiftDeclineReasonLabel')}</Text>
+          <View style={styles.chipRow}>
+            {SHIFT_DECLINE_REASONS.map((option) =>
+              renderChip(option, t(shiftDeclineReasonTranslationKeys[option]), reason === option, () => {
+                setReason(option);
+                setValidationError(null);
+              })
+            )}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('shiftDeclineNoteLabel')}</Text>
+          <View style={[styles.noteWrap, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}>
+            <TextInput
+              value={note}
+              onChangeText={(value) => {
+                setNote(value);
+                setValidationError(null);
+              }}
+              placeholder={t('shiftDeclineNotePlaceholder')}
+              placeholderTextColor={theme.textPlaceholder}
+              maxLength={SHIFT_DECLINE_NOTE_MAX_LENGTH}
+              multiline
+              textAlignVertical="top"
+              style={[styles.noteInput, { color: theme.textPrimary }]}
+            />
+          </View>
+
+          {validationError ? (
+            <Text style={[styles.errorText, { color: theme.fail }]}>
+              {t(validationMessageKeys[validationError], { max: SHIFT_DECLINE_NOTE_MAX_LENGTH })}
+            </Text>
+          ) : null}
+
+          <PrimaryButton
+            title={t('shiftDeclineSubmit')}
+            onPress={handleSubmit}
+            loading={submitting}
+            style={styles.submitButton}
+          />
+          <Pressable onPress={onClose} accessibilityRole="button" style={styles.cancelButton} hitSlop={8}>
+            <Text style={[styles.cancelText, { color: theme.textSecondary }]}>{t('commonCancel')}</Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(2, 6, 23, 0.72)',
+    justifyContent: 'flex-end',
+  },
+  modalCard: {
+    borderTopLeftRadius: 28,
+    borderTopRightRadius: 28,
+    borderWidth: 1,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 28,
+  },
+  modalHandle: {
+    width: 46,
+    height: 5,
+    borderRadius: 999,
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 6,
+    marginBottom: 14,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  noteWrap: {
+    borderWidth: 1,
+    borderRadius: 16,
+    minHeight: 92,
+  },
+  noteInput: {
+    minHeight: 92,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  submitButton: {
+    marginTop: 18,
+  },
+  cancelButton: {
+    alignSelf: 'center',
+    marginTop: 14,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
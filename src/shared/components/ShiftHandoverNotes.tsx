@@ -0,0 +1,122 @@
+import { StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@shared/themeContext';
+import { useLanguage } from '@shared/context/LanguageContext';
+import type { HandoverNote } from '@features/shifts/shiftHandover';
+
+type Props = {
+  incoming: HandoverNote[];
+  outgoing: HandoverNote[];
+  style?: StyleProp<ViewStyle>;
+};
+
+const formatInstant = (value: string) =>
+  new Date(value).toLocaleString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+export const ShiftHandoverNotes = ({ incoming, outgoing, style }: Props) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+
+  const renderReceipts = (note: HandoverNote) => {
+    if (!note.reads.length) {
+      return (
+        <Text style={[styles.receipt, { color: theme.textSecondary }]}>{t('shiftHandoverNotReadYet')}</Text>
+      );
+    }
+    return note.reads.map((read) => (
+      <View key={read.readerId} style={styles.receiptRow}>
+        <Ionicons name="checkmark-done" size={14} color={theme.success} />
+        <Text style={[styles.receipt, { color: theme.textSecondary }]}>
+          {t('shiftHandoverReadBy', {
+            name: read.readerName ?? t('shiftRosterUnnamed'),
+            time: formatTime(read.readAt),
+          })}
+        </Text>
+      </View>
+    ));
+  };
+
+  return (
+    <View style={style}>
+      {incoming.map((note) => (
+        <View
+          key={note.id}
+          style={[styles.note, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}
+        >
+          <Text style={[styles.meta, { color: theme.textSecondary }]}>
+            {t('shiftHandoverFrom', {
+              name: note.authorName ?? t('shiftRosterUnnamed'),
+              time: formatInstant(note.createdAt),
+            })}
+          </Text>
+          <Text style={[styles.body, { color: theme.textPrimary }]}>{note.body}</Text>
+        </View>
+      ))}
+
+      {outgoing.length ? (
+        <View style={incoming.length ? styles.outgoingGroup : undefined}>
+          <Text style={[styles.groupTitle, { color: theme.textSecondary }]}>{t('shiftHandoverYourNotes')}</Text>
+          {outgoing.map((note) => (
+            <View
+              key={note.id}
+              style={[styles.note, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}
+            >
+              <Text style={[styles.meta, { color: theme.textSecondary }]}>{formatInstant(note.createdAt)}</Text>
+              <Text style={[styles.body, { color: theme.textPrimary }]}>{note.body}</Text>
+              {note.recipientShiftId ? (
+                renderReceipts(note)
+              ) : (
+                <Text style={[styles.receipt, { color: theme.textSecondary }]}>
+                  {t('shiftHandoverNoNextShift')}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  note: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    marginBottom: 10,
+    gap: 4,
+  },
+  meta: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  outgoingGroup: {
+    marginTop: 6,
+  },
+  groupTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  receiptRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    columnGap: 4,
+  },
+  receipt: {
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { PrimaryButton } from '@shared/components/PrimaryButton';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import { useTheme } from '@shared/themeContext';
+import {
+  HANDOVER_NOTE_MAX_LENGTH,
+  validateHandoverNote,
+  type HandoverNoteValidationError,
+} from '@features/shifts/shiftHandover';
+
+const validationMessageKeys: Record<HandoverNoteValidationError, TranslationKey> = {
+  'note-required': 'shiftHandoverNoteRequired',
+  'note-too-long': 'shiftHandoverNoteTooLong',
+};
+
+type Props = {
+  visible: boolean;
+  submitting?: boolean;
+  onClose: () => void;
+  onSubmit: (body: string) => void;
+};
+
+/** Note for the next shift at the same object, offered right after clocking out. */
+export const ShiftHandoverSheet = ({ visible, submitting, onClose, onSubmit }: Props) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const [note, setNote] = useState('');
+  const [validationError, setValidationError] = useState<HandoverNoteValidationError | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setNote('');
+    setValidationError(null);
+  }, [visible]);
+
+  const handleSubmit = () => {
+    const error = validateHandoverNote(note);
+    setValidationError(error);
+    if (error) return;
+    onSubmit(note.trim());
+  };
+
+  return (
+    <Modal transparent visible={visible} animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.modalBackdrop} onPress={onClose}>
+        <Pressable
+          style={[styles.modalCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}
+          onPress={(event) => event.stopPropagation()}
+        >
+          <View style={[styles.modalHandle, { backgroundColor: theme.borderSoft }]} />
+          <Text style={[styles.modalTitle, { color: theme.textPrimary }]}>{t('shiftHandoverSheetTitle')}</Text>
+          <Text style={[styles.modalSubtitle, { color: theme.textSecondary }]}>
+            {t('shiftHandoverSheetSubtitle')}
+          </Text>
+
+          <View style={[styles.noteWrap, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}>
+            <TextInput
+              value={note}
+              onChangeText={(value) => {
+                setNote(value);
+                setValidationError(null);
+              }}
+              placeholder={t('shiftHandoverNotePlaceholder')}
+              placeholderTextColor={theme.textPlaceholder}
+              maxLength={HANDOVER_NOTE_MAX_LENGTH}
+              multiline
+              autoFocus
+              textAlignVertical="top"
+              style={[styles.noteInput, { color: theme.textPrimary }]}
+            />
+          </View>
+
+          {validationError ? (
+            <Text style={[styles.errorText, { color: theme.fail }]}>
+              {t(validationMessageKeys[validationError], { max: HANDOVER_NOTE_MAX_LENGTH })}
+            </Text>
+          ) : null}
+
+          <PrimaryButton
+            title={t('shiftHandoverSubmit')}
+            onPress={handleSubmit}
+            loading={submitting}
+            style={styles.submitButton}
+          />
+          <Pressable onPress={onClose} accessibilityRole="button" style={styles.cancelButton} hitSlop={8}>
+            <Text style={[styles.cancelText, { color: theme.textSecondary }]}>{t('shiftHandoverSkip')}</Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(2, 6, 23, 0.72)',
+    justifyContent: 'flex-end',
+  },
+  modalCard: {
+    borderTopLeftRadius: 28,
+    borderTopRightRadius: 28,
+    borderWidth: 1,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 28,
+  },
+  modalHandle: {
+    width: 46,
+    height: 5,
+    borderRadius: 999,
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 6,
+    marginBottom: 14,
+  },
+  noteWrap: {
+    borderWidth: 1,
+    borderRadius: 16,
+    minHeight: 120,
+  },
+  noteInput: {
+    minHeight: 120,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  submitButton: {
+    marginTop: 18,
+  },
+  cancelButton: {
+    alignSelf: 'center',
+    marginTop: 14,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
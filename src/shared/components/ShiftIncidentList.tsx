@@ -0,0 +1,168 @@
+import { Pressable, StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@shared/themeContext';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import {
+  incidentCategoryTranslationKeys,
+  incidentSeverityTranslationKeys,
+} from '@shared/components/ShiftIncidentSheet';
+import type {
+  IncidentReport,
+  IncidentReportStatus,
+  IncidentSeverity,
+  QueuedIncidentReport,
+} from '@features/shifts/shiftIncidents';
+
+type Props = {
+  reports: IncidentReport[];
+  queuedReports: QueuedIncidentReport[];
+  onDiscardQueued: (report: QueuedIncidentReport) => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+const statusKeys: Record<IncidentReportStatus, TranslationKey> = {
+  open: 'incidentStatusOpen',
+  acknowledged: 'incidentStatusAcknowledged',
+  resolved: 'incidentStatusResolved',
+};
+
+const formatInstant = (value: string) =>
+  new Date(value).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const ShiftIncidentList = ({ reports, queuedReports, onDiscardQueued, style }: Props) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+
+  const severityColors: Record<IncidentSeverity, string> = {
+    low: theme.info,
+    medium: theme.caution,
+    high: theme.fail,
+    critical: theme.fail,
+  };
+
+  const renderHeader = (
+    report: Pick<IncidentReport, 'category' | 'severity' | 'occurredAt' | 'locationNote'>,
+    photoCount: number
+  ) => (
+    <>
+      <View style={styles.headerRow}>
+        <Text style={[styles.category, { color: theme.textPrimary }]}>
+          {t(incidentCategoryTranslationKeys[report.category])}
+        </Text>
+        <Text
+          style={[
+            styles.badge,
+            { color: severityColors[report.severity], borderColor: severityColors[report.severity] },
+          ]}
+        >
+          {t(incidentSeverityTranslationKeys[report.severity])}
+        </Text>
+      </View>
+      <Text style={[styles.meta, { color: theme.textSecondary }]}>
+        {[
+          formatInstant(report.occurredAt),
+          report.locationNote,
+          photoCount ? t('incidentPhotoCount', { count: photoCount }) : null,
+        ]
+          .filter(Boolean)
+          .join(' · ')}
+      </Text>
+    </>
+  );
+
+  return (
+    <View style={style}>
+      {queuedReports.map((report) => (
+        <View key={report.id} style={[styles.report, { borderColor: theme.borderSoft }]}>
+          {renderHeader(report, report.photos.length)}
+          <Text style={[styles.description, { color: theme.textPrimary }]} numberOfLines={3}>
+            {report.description}
+          </Text>
+          <View style={styles.statusRow}>
+            <Ionicons
+              name={report.rejectedStatus ? 'alert-circle-outline' : 'cloud-upload-outline'}
+              size={14}
+              color={report.rejectedStatus ? theme.fail : theme.caution}
+            />
+            <Text style={[styles.status, { color: report.rejectedStatus ? theme.fail : theme.caution }]}>
+              {t(report.rejectedStatus ? 'incidentStatusRejected' : 'incidentStatusQueued')}
+            </Text>
+            {report.rejectedStatus ? (
+              <Pressable onPress={() => onDiscardQueued(report)} accessibilityRole="button" hitSlop={8}>
+                <Text style={[styles.discard, { color: theme.textSecondary }]}>{t('incidentDiscard')}</Text>
+              </Pressable>
+            ) : null}
+          </View>
+        </View>
+      ))}
+      {reports.map((report) => (
+        <View key={report.id} style={[styles.report, { borderColor: theme.borderSoft }]}>
+          {renderHeader(report, report.photoCount)}
+          <Text style={[styles.description, { color: theme.textPrimary }]} numberOfLines={3}>
+            {report.description}
+          </Text>
+          <View style={styles.statusRow}>
+            <Ionicons
+              name={report.status === 'resolved' ? 'checkmark-circle-outline' : 'checkmark-done-outline'}
+              size={14}
+              color={theme.success}
+            />
+            <Text style={[styles.status, { color: theme.textSecondary }]}>{t(statusKeys[report.status])}</Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  report: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 3,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    columnGap: 6,
+  },
+  category: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  badge: {
+    fontSize: 11,
+    fontWeight: '700',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    overflow: 'hidden',
+  },
+  meta: {
+    fontSize: 12,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    columnGap: 4,
+  },
+  status: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  discard: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,397 @@
+import { useEffect, useState } from 'react';
+import { Alert, Image, Modal, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import * as ImagePicker from 'expo-image-picker';
+import { PrimaryButton } from '@shared/components/PrimaryButton';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import { useTheme } from '@shared/themeContext';
+import {
+  INCIDENT_CATEGORIES,
+  INCIDENT_DESCRIPTION_MAX_LENGTH,
+  INCIDENT_LOCATION_NOTE_MAX_LENGTH,
+  INCIDENT_MAX_PHOTOS,
+  INCIDENT_SEVERITIES,
+  validateIncidentReport,
+  type IncidentCategory,
+  type IncidentReportInput,
+  type IncidentReportValidationError,
+  type IncidentSeverity,
+} from '@features/shifts/shiftIncidents';
+
+export const incidentCategoryTranslationKeys: Record<IncidentCategory, TranslationKey> = {
+  damage: 'incidentCategoryDamage',
+  injury: 'incidentCategoryInjury',
+  security: 'incidentCategorySecurity',
+  'safety-hazard': 'incidentCategorySafetyHazard',
+  theft: 'incidentCategoryTheft',
+  other: 'incidentCategoryOther',
+};
+
+export const incidentSeverityTranslationKeys: Record<IncidentSeverity, TranslationKey> = {
+  low: 'incidentSeverityLow',
+  medium: 'incidentSeverityMedium',
+  high: 'incidentSeverityHigh',
+  critical: 'incidentSeverityCritical',
+};
+
+/** Minutes before now the employee can backdate the report by. */
+const occurredOffsets: { minutes: number; labelKey: TranslationKey }[] = [
+  { minutes: 0, labelKey: 'incidentOccurredNow' },
+  { minutes: 15, labelKey: 'incidentOccurred15Minutes' },
+  { minutes: 30, labelKey: 'incidentOccurred30Minutes' },
+  { minutes: 60, labelKey: 'incidentOccurred1Hour' },
+];
+
+const validationMessageKeys: Record<IncidentReportValidationError, TranslationKey> = {
+  'description-required': 'incidentDescriptionRequired',
+  'description-too-long': 'incidentDescriptionTooLong',
+  'too-many-photos': 'incidentTooManyPhotos',
+};
+
+type Props = {
+  visible: boolean;
+  submitting?: boolean;
+  onClose: () => void;
+  onSubmit: (input: IncidentReportInput) => void;
+};
+
+export const ShiftIncidentSheet = ({ visible, submitting, onClose, onSubmit }: Props) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const [category, setCategory] = useState<IncidentCategory>('damage');
+  const [severity, setSeverity] = useState<IncidentSeverity>('medium');
+  const [occurredOffset, setOccurredOffset] = useState(0);
+  const [description, setDescription] = useState('');
+  const [locationNote, setLocationNote] = useState('');
+  const [photoUris, setPhotoUris] = useState<string[]>([]);
+  const [validationError, setValidationError] = useState<IncidentReportValidationError | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setCategory('damage');
+    setSeverity('medium');
+    setOccurredOffset(0);
+    setDescription('');
+    setLocationNote('');
+    setPhotoUris([]);
+    setValidationError(null);
+  }, [visible]);
+
+  const handleAddPhoto = async (source: 'camera' | 'library') => {
+    const permission =
+      source === 'camera'
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(t('incidentSheetTitle'), t('incidentPhotoPermissionDenied'));
+      return;
+    }
+    const result =
+      source === 'camera'
+        ? await ImagePicker.launchCameraAsync({ quality: 0.8 })
+        : await ImagePicker.launchImageLibraryAsync({ quality: 0.8 });
+    const uri = result.canceled ? undefined : result.assets?.[0]?.uri;
+    if (!uri) return;
+    setPhotoUris((current) => [...current, uri].slice(0, INCIDENT_MAX_PHOTOS));
+    setValidationError(null);
+  };
+
+  const handleSubmit = () => {
+    const error = validateIncidentReport({ description, photoUris });
+    setValidationError(error);
+    if (error) return;
+    onSubmit({
+      category,
+      severity,
+      description: description.trim(),
+      occurredAt: new Date(Date.now() - occurredOffset * 60 * 1000).toISOString(),
+      locationNote: locationNote.trim() || undefined,
+      photoUris,
+    });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, color?: string) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      style={[
+        styles.chip,
+        {
+          borderColor: selected ? color ?? theme.primary : theme.borderSoft,
+          backgroundColor: selected ? color ?? theme.primary : theme.surfaceMuted,
+        },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : theme.textPrimary }]}>{label}</Text>
+    </Pressable>
+  );
+
+  const severityColors: Record<IncidentSeverity, string> = {
+    low: theme.info,
+    medium: theme.caution,
+    high: theme.fail,
+    critical: theme.fail,
+  };
+
+  return (
+    <Modal transparent visible={visible} animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.modalBackdrop} onPress={onClose}>
+        <Pressable
+          style={[styles.modalCard, { backgroundColor: theme.surface, borderColor: theme.borderSoft }]}
+          onPress={(event) => event.stopPropagation()}
+        >
+          <View style={[styles.modalHandle, { backgroundColor: theme.borderSoft }]} />
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.content}>
+            <Text style={[styles.modalTitle, { color: theme.textPrimary }]}>{t('incidentSheetTitle')}</Text>
+            <Text style={[styles.modalSubtitle, { color: theme.textSecondary }]}>
+              {t('incidentSheetSubtitle')}
+            </Text>
+
+            <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('incidentCategoryLabel')}</Text>
+            <View style={styles.chipRow}>
+              {INCIDENT_CATEGORIES.map((option) =>
+                renderChip(option, t(incidentCategoryTranslationKeys[option]), category === option, () =>
+                  setCategory(option)
+                )
+              )}
+            </View>
+
+            <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('incidentSeverityLabel')}</Text>
+            <View style={styles.chipRow}>
+              {INCIDENT_SEVERITIES.map((option) =>
+                renderChip(
+                  option,
+                  t(incidentSeverityTranslationKeys[option]),
+                  severity === option,
+                  () => setSeverity(option),
+                  severityColors[option]
+                )
+              )}
+            </View>
+
+            <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('incidentOccurredLabel')}</Text>
+            <View style={styles.chipRow}>
+              {occurredOffsets.map((option) =>
+                renderChip(String(option.minutes), t(option.labelKey), occurredOffset === option.minutes, () =>
+                  setOccurredOffset(option.minutes)
+                )
+              )}
+            </View>
+
+            <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('incidentDescriptionLabel')}</Text>
+            <View style={[styles.noteWrap, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}>
+              <TextInput
+                value={description}
+                onChangeText={(value) => {
+                  setDescription(value);
+                  setValidationError(null);
+                }}
+                placeholder={t('incidentDescriptionPlaceholder')}
+                placeholderTextColor={theme.textPlaceholder}
+                maxLength={INCIDENT_DESCRIPTION_MAX_LENGTH}
+                multiline
+                textAlignVertical="top"
+                style={[styles.noteInput, { color: theme.textPrimary }]}
+              />
+            </View>
+
+            <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>{t('incidentLocationLabel')}</Text>
+            <View style={[styles.inputWrap, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}>
+              <TextInput
+                value={locationNote}
+                onChangeText={setLocationNote}
+                placeholder={t('incidentLocationPlaceholder')}
+                placeholderTextColor={theme.textPlaceholder}
+                maxLength={INCIDENT_LOCATION_NOTE_MAX_LENGTH}
+                style={[styles.input, { color: theme.textPrimary }]}
+              />
+            </View>
+
+            <Text style={[styles.fieldLabel, { color: theme.textSecondary }]}>
+              {t('incidentPhotosLabel', { count: photoUris.length, max: INCIDENT_MAX_PHOTOS })}
+            </Text>
+            <View style={styles.photoRow}>
+              {photoUris.map((uri, index) => (
+                <Pressable
+                  key={`${uri}-${index}`}
+                  onPress={() => setPhotoUris((current) => current.filter((_, photoIndex) => photoIndex !== index))}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('incidentRemovePhoto')}
+                >
+                  <Image source={{ uri }} style={styles.photo} />
+                  <View style={[styles.removeBadge, { backgroundColor: theme.surface }]}>
+                    <Ionicons name="close" size={12} color={theme.textPrimary} />
+                  </View>
+                </Pressable>
+              ))}
+              {photoUris.length < INCIDENT_MAX_PHOTOS ? (
+                <>
+                  <Pressable
+                    onPress={() => void handleAddPhoto('camera')}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('incidentTakePhoto')}
+                    style={[styles.photoButton, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}
+                  >
+                    <Ionicons name="camera-outline" size={22} color={theme.info} />
+                  </Pressable>
+                  <Pressable
+                    onPress={() => void handleAddPhoto('library')}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('incidentChoosePhoto')}
+                    style={[styles.photoButton, { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft }]}
+                  >
+                    <Ionicons name="images-outline" size={22} color={theme.info} />
+                  </Pressable>
+                </>
+              ) : null}
+            </View>
+
+            {validationError ? (
+              <Text style={[styles.errorText, { color: theme.fail }]}>
+                {t(validationMessageKeys[validationError], {
+                  max: validationError === 'too-many-photos' ? INCIDENT_MAX_PHOTOS : INCIDENT_DESCRIPTION_MAX_LENGTH,
+                })}
+              </Text>
+            ) : null}
+
+            <PrimaryButton
+              title={t('incidentSubmit')}
+              onPress={handleSubmit}
+              loading={submitting}
+              style={styles.submitButton}
+            />
+            <Pressable onPress={onClose} accessibilityRole="button" style={styles.cancelButton} hitSlop={8}>
+              <Text style={[styles.cancelText, { color: theme.textSecondary }]}>{t('commonCancel')}</Text>
+            </Pressable>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(2, 6, 23, 0.72)',
+    justifyContent: 'flex-end',
+  },
+  modalCard: {
+    maxHeight: '92%',
+    borderTopLeftRadius: 28,
+    borderTopRightRadius: 28,
+    borderWidth: 1,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  content: {
+    paddingBottom: 28,
+  },
+  modalHandle: {
+    width: 46,
+    height: 5,
+    borderRadius: 999,
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 6,
+    marginBottom: 4,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  noteWrap: {
+    borderWidth: 1,
+    borderRadius: 16,
+    minHeight: 110,
+  },
+  noteInput: {
+    minHeight: 110,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  inputWrap: {
+    borderWidth: 1,
+    borderRadius: 16,
+  },
+  input: {
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: 12,
+  },
+  removeBadge: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photoButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  submitButton: {
+    marginTop: 18,
+  },
+  cancelButton: {
+    alignSelf: 'center',
+    marginTop: 14,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
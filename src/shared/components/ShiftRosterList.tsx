@@ -0,0 +1,212 @@
+import { Pressable, StyleSheet, Switch, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@shared/themeContext';
+import { useLanguage } from '@shared/context/LanguageContext';
+import {
+  formatShiftRosterName,
+  type ShiftRosterMember,
+  type ShiftRosterPrivacy,
+} from '@features/shifts/shiftRoster';
+
+export type ShiftRosterContactChannel = 'call' | 'sms' | 'email';
+
+type Props = {
+  members: ShiftRosterMember[];
+  privacy: ShiftRosterPrivacy;
+  onChangePrivacy: (privacy: ShiftRosterPrivacy) => void;
+  onContact: (member: ShiftRosterMember, channel: ShiftRosterContactChannel) => void;
+  privacyDisabled?: boolean;
+  style?: StyleProp<ViewStyle>;
+};
+
+export const ShiftRosterList = ({
+  members,
+  privacy,
+  onChangePrivacy,
+  onContact,
+  privacyDisabled,
+  style,
+}: Props) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const coworkers = members.filter((member) => !member.isSelf);
+
+  const renderContactButton = (
+    member: ShiftRosterMember,
+    channel: ShiftRosterContactChannel,
+    icon: 'call-outline' | 'chatbubble-outline' | 'mail-outline',
+    label: string
+  ) => (
+    <Pressable
+      key={channel}
+      onPress={() => onContact(member, channel)}
+      accessibilityRole="button"
+      accessibilityLabel={`${label}: ${formatShiftRosterName(member) ?? t('shiftRosterUnnamed')}`}
+      hitSlop={6}
+      style={({ pressed }) => [
+        styles.contactButton,
+        { backgroundColor: theme.surfaceMuted, borderColor: theme.borderSoft },
+        pressed && styles.pressed,
+      ]}
+    >
+      <Ionicons name={icon} size={16} color={theme.info} />
+    </Pressable>
+  );
+
+  return (
+    <View style={style}>
+      {coworkers.length ? (
+        members.map((member) => (
+          <View key={member.assignmentId} style={[styles.member, { borderColor: theme.borderSoft }]}>
+            <View style={[styles.avatar, { backgroundColor: theme.surfaceMuted }]}>
+              <Ionicons name={member.isLead ? 'star' : 'person-outline'} size={16} color={theme.info} />
+            </View>
+            <View style={styles.memberText}>
+              <View style={styles.nameRow}>
+                <Text style={[styles.name, { color: theme.textPrimary }]} numberOfLines={1}>
+                  {formatShiftRosterName(member) ?? t('shiftRosterUnnamed')}
+                </Text>
+                {member.isSelf ? (
+                  <Text style={[styles.badge, { color: theme.textSecondary, borderColor: theme.borderSoft }]}>
+                    {t('shiftRosterYou')}
+                  </Text>
+                ) : null}
+                {member.isLead ? (
+                  <Text style={[styles.badge, { color: theme.info, borderColor: theme.info }]}>
+                    {t('shiftRosterLead')}
+                  </Text>
+                ) : null}
+              </View>
+              <Text style={[styles.role, { color: theme.textSecondary }]} numberOfLines={1}>
+                {member.role ?? t('shiftRosterNoRole')}
+              </Text>
+            </View>
+            {!member.isSelf ? (
+              <View style={styles.contactActions}>
+                {member.phone ? renderContactButton(member, 'call', 'call-outline', t('callLabel')) : null}
+                {member.phone
+                  ? renderContactButton(member, 'sms', 'chatbubble-outline', t('shiftRosterMessageLabel'))
+                  : null}
+                {member.email ? renderContactButton(member, 'email', 'mail-outline', t('emailLabel')) : null}
+              </View>
+            ) : null}
+          </View>
+        ))
+      ) : (
+        <Text style={[styles.empty, { color: theme.textSecondary }]}>{t('shiftRosterEmpty')}</Text>
+      )}
+
+      <View style={[styles.privacy, { borderColor: theme.borderSoft }]}>
+        <Text style={[styles.privacyTitle, { color: theme.textSecondary }]}>{t('shiftRosterPrivacyTitle')}</Text>
+        <View style={styles.privacyRow}>
+          <Text style={[styles.privacyLabel, { color: theme.textPrimary }]}>{t('shiftRosterShareContact')}</Text>
+          <Switch
+            value={privacy.shareContact}
+            disabled={privacyDisabled}
+            onValueChange={(shareContact) => onChangePrivacy({ ...privacy, shareContact })}
+            trackColor={{ true: theme.primary, false: theme.border }}
+            thumbColor={privacy.shareContact ? theme.primaryAccent : '#fff'}
+          />
+        </View>
+        <View style={styles.privacyRow}>
+          <Text style={[styles.privacyLabel, { color: theme.textPrimary }]}>{t('shiftRosterShowLastName')}</Text>
+          <Switch
+            value={privacy.showLastName}
+            disabled={privacyDisabled}
+            onValueChange={(showLastName) => onChangePrivacy({ ...privacy, showLastName })}
+            trackColor={{ true: theme.primary, false: theme.border }}
+            thumbColor={privacy.showLastName ? theme.primaryAccent : '#fff'}
+          />
+        </View>
+        <Text style={[styles.privacyHint, { color: theme.textSecondary }]}>{t('shiftRosterPrivacyHint')}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  member: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  avatar: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  memberText: {
+    flex: 1,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    columnGap: 6,
+  },
+  name: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  badge: {
+    fontSize: 11,
+    fontWeight: '700',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    overflow: 'hidden',
+  },
+  role: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  contactActions: {
+    flexDirection: 'row',
+    columnGap: 6,
+    marginLeft: 8,
+  },
+  contactButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pressed: {
+    opacity: 0.75,
+  },
+  empty: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  privacy: {
+    marginTop: 14,
+    paddingTop: 12,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    gap: 6,
+  },
+  privacyTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  privacyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    columnGap: 12,
+  },
+  privacyLabel: {
+    flex: 1,
+    fontSize: 14,
+  },
+  privacyHint: {
+    fontSize: 12,
+    lineHeight: 17,
+  },
+});
@@ -0,0 +1,68 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  parseTimeDisplayMode,
+  resolveDisplayTimeZone,
+  type TimeDisplayMode,
+} from '@shared/utils/timeUtils';
+
+type TimeDisplayContextValue = {
+  timeDisplayMode: TimeDisplayMode;
+  setTimeDisplayMode: (mode: TimeDisplayMode) => void;
+  getDisplayTimeZone: (shift?: { timeZone?: string } | null) => string | undefined;
+};
+
+const TimeDisplayContext = createContext<TimeDisplayContextValue | undefined>(undefined);
+
+type Props = {
+  children: ReactNode;
+};
+
+const STORAGE_KEY = 'employee-portal:time-display-mode';
+
+export const TimeDisplayProvider = ({ children }: Props) => {
+  const [timeDisplayMode, setTimeDisplayModeState] = useState<TimeDisplayMode>('site');
+
+  useEffect(() => {
+    let isMounted = true;
+    AsyncStorage.getItem(STORAGE_KEY)
+      .then((raw) => {
+        if (isMounted) {
+          setTimeDisplayModeState(parseTimeDisplayMode(raw));
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load time display mode', error);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const setTimeDisplayMode = useCallback((mode: TimeDisplayMode) => {
+    setTimeDisplayModeState(mode);
+    AsyncStorage.setItem(STORAGE_KEY, mode).catch((error) => {
+      console.error('Failed to persist time display mode', error);
+    });
+  }, []);
+
+  const getDisplayTimeZone = useCallback(
+    (shift?: { timeZone?: string } | null) => resolveDisplayTimeZone(shift?.timeZone, timeDisplayMode),
+    [timeDisplayMode]
+  );
+
+  const value = useMemo(
+    () => ({ timeDisplayMode, setTimeDisplayMode, getDisplayTimeZone }),
+    [timeDisplayMode, setTimeDisplayMode, getDisplayTimeZone]
+  );
+
+  return <TimeDisplayContext.Provider value={value}>{children}</TimeDisplayContext.Provider>;
+};
+
+export const useTimeDisplay = () => {
+  const context = useContext(TimeDisplayContext);
+  if (!context) {
+    throw new Error('useTimeDisplay must be used within a TimeDisplayProvider');
+  }
+  return context;
+};
@@ -1,61 +1,103 @@
 import Constants from 'expo-constants';
-import { useEffect, useState } from 'react';
+import * as Location from 'expo-location';
+import { useCallback, useEffect, useState } from 'react';
 
 type PermissionStatus = 'undetermined' | 'granted' | 'denied';
 
-type LocationObject = {
-  coords: {
-    latitude: number;
-    longitude: number;
-    accuracy?: number | null;
-    altitude?: number | null;
-    altitudeAccuracy?: number | null;
-    heading?: number | null;
-    speed?: number | null;
-  };
-  timestamp: number;
+export type LocationRequestResult =
+  | { status: 'granted'; location: Location.LocationObject }
+  | { status: 'denied' }
+  /** Location is off for this build, the device has no location service, or there was no fix in time. */
+  | { status: 'unavailable' };
+
+type LocationRequestOptions = {
+  enableHighAccuracy?: boolean;
+  maximumAge?: number;
+  timeout?: number;
+};
+
+const defaultRequestOptions: Required<LocationRequestOptions> = {
+  enableHighAccuracy: false,
+  maximumAge: 60_000,
+  timeout: 10_000,
+};
+
+/** A cached fix this precise is good enough when high accuracy is asked for. */
+const HIGH_ACCURACY_LAST_KNOWN_METERS = 50;
+
+const isLocationDisabledInDev = () => __DEV__ && !Constants.expoConfig?.extra?.enableLocationInDev;
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number) =>
+  new Promise<T | null>((resolve, reject) => {
+    const timer = setTimeout(() => resolve(null), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error: unknown) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/** Asks for foreground permission and one position fix. */
+export const requestCurrentLocation = async (
+  options: LocationRequestOptions = {}
+): Promise<LocationRequestResult> => {
+  if (isLocationDisabledInDev()) {
+    return { status: 'unavailable' };
+  }
+  const { enableHighAccuracy, maximumAge, timeout } = { ...defaultRequestOptions, ...options };
+
+  try {
+    const permission = await Location.requestForegroundPermissionsAsync();
+    if (permission.status !== 'granted') {
+      return { status: 'denied' };
+    }
+
+    const lastKnown = await Location.getLastKnownPositionAsync({ maxAge: maximumAge });
+    if (lastKnown && (!enableHighAccuracy || (lastKnown.coords.accuracy ?? Infinity) <= HIGH_ACCURACY_LAST_KNOWN_METERS)) {
+      return { status: 'granted', location: lastKnown };
+    }
+
+    const current = await withTimeout(
+      Location.getCurrentPositionAsync({
+        accuracy: enableHighAccuracy ? Location.Accuracy.High : Location.Accuracy.Balanced,
+      }),
+      timeout
+    );
+    return current ? { status: 'granted', location: current } : { status: 'unavailable' };
+  } catch (error) {
+    console.warn('Failed to read the current location', error);
+    return { status: 'unavailable' };
+  }
 };
 
 export const useLocation = () => {
-  const [location, setLocation] = useState<LocationObject | null>(null);
+  const [location, setLocation] = useState<Location.LocationObject | null>(null);
   const [status, setStatus] = useState<PermissionStatus>('undetermined');
-  const enableLocationInDev = Boolean(Constants.expoConfig?.extra?.enableLocationInDev);
 
   useEffect(() => {
     let cancelled = false;
-    const skipLocationInDev = __DEV__ && !enableLocationInDev;
 
     (async () => {
-      if (skipLocationInDev) {
+      if (isLocationDisabledInDev()) {
         if (!cancelled) {
           setStatus('denied');
         }
         return;
       }
 
-      if (typeof navigator === 'undefined' || !navigator.geolocation) {
-        if (!cancelled) {
-          setStatus('denied');
-        }
-        return;
+      const result = await requestCurrentLocation();
+      if (cancelled) return;
+      if (result.status === 'granted') {
+        setStatus('granted');
+        setLocation(result.location);
+      } else {
+        setStatus('denied');
       }
-
-      navigator.geolocation.getCurrentPosition(
-        (current) => {
-          if (cancelled) return;
-          setStatus('granted');
-          setLocation({
-            coords: current.coords,
-            timestamp: current.timestamp,
-          });
-        },
-        () => {
-          if (!cancelled) {
-            setStatus('denied');
-          }
-        },
-        { enableHighAccuracy: false, maximumAge: 60_000, timeout: 10_000 }
-      );
     })();
 
     return () => {
@@ -63,5 +105,17 @@ export const useLocation = () => {
     };
   }, []);
 
-  return { location, status };
+  /** Requests a fresh fix, e.g. right before a clock-in is submitted. */
+  const refresh = useCallback(async (options?: LocationRequestOptions) => {
+    const result = await requestCurrentLocation(options);
+    if (result.status === 'granted') {
+      setStatus('granted');
+      setLocation(result.location);
+    } else if (result.status === 'denied') {
+      setStatus('denied');
+    }
+    return result;
+  }, []);
+
+  return { location, status, refresh };
 };
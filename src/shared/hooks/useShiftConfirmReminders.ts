@@ -0,0 +1,68 @@
+import { useEffect } from 'react';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { useLanguage, type TranslationKey } from '@shared/context/LanguageContext';
+import { useTimeDisplay } from '@shared/context/TimeDisplayContext';
+import type { Shift } from '@features/shifts/shiftsService';
+import type { ShiftConfirmReminderLevel } from '@features/shifts/shiftConfirmDeadline';
+import {
+  cancelShiftConfirmReminders,
+  syncShiftConfirmReminders,
+} from '@features/shifts/shiftConfirmReminders';
+import { loadNotificationPreferences } from '@shared/utils/notificationPreferences';
+
+const reminderTitleKeys: Record<ShiftConfirmReminderLevel, TranslationKey> = {
+  gentle: 'shiftConfirmReminderGentleTitle',
+  firm: 'shiftConfirmReminderFirmTitle',
+  final: 'shiftConfirmReminderFinalTitle',
+};
+
+const formatDateTime = (value: string, timeZone?: string) =>
+  new Date(value).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+  });
+
+/** Keeps local confirm-by reminders in step with the employee's unanswered shifts. */
+export const useShiftConfirmReminders = (shifts?: Shift[]) => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { getDisplayTimeZone } = useTimeDisplay();
+  const employeeId = user?.id;
+
+  useEffect(() => {
+    if (!employeeId || !shifts) return;
+    let isActive = true;
+    const shiftsById = new Map(shifts.map((shift) => [shift.id, shift]));
+
+    loadNotificationPreferences(employeeId)
+      .then((preferences) => {
+        if (!isActive) return undefined;
+        if (!preferences.shiftReminders) {
+          return cancelShiftConfirmReminders();
+        }
+        return syncShiftConfirmReminders(shifts, (reminder) => {
+          const shift = shiftsById.get(reminder.shiftId);
+          const timeZone = shift ? getDisplayTimeZone(shift) : undefined;
+          return {
+            title: t(reminderTitleKeys[reminder.level]),
+            body: t('shiftConfirmReminderBody', {
+              shift: shift?.objectName ?? shift?.title ?? '',
+              start: shift ? formatDateTime(shift.start, timeZone) : '',
+              deadline: formatDateTime(reminder.deadline, timeZone),
+            }),
+          };
+        });
+      })
+      .catch((error) => {
+        console.warn('Failed to schedule shift confirmation reminders', error);
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [employeeId, getDisplayTimeZone, shifts, t]);
+};
@@ -0,0 +1,124 @@
+import { useCallback, useMemo } from 'react';
+import { Alert } from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@hooks/useSupabaseAuth';
+import { useLanguage } from '@shared/context/LanguageContext';
+import { useTimeDisplay } from '@shared/context/TimeDisplayContext';
+import type { Shift } from '@features/shifts/shiftsService';
+import {
+  MIN_REST_BETWEEN_SHIFTS_MS,
+  collectShiftConflicts,
+  detectShiftConflicts,
+  type ShiftConflict,
+} from '@features/shifts/shiftConflicts';
+import { fetchVacationRequests, formatVacationRange } from '@features/account/vacationRequests';
+
+const EMPTY_CONFLICTS: ShiftConflict[] = [];
+
+const formatRest = (durationMs: number) => {
+  const totalMinutes = Math.max(0, Math.round(durationMs / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (!hours) return `${minutes}m`;
+  return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+};
+
+/**
+ * Overlap, rest-period and vacation conflicts for the employee's shifts, with
+ * translated warnings and a "confirm anyway" prompt for confirm actions.
+ */
+export const useShiftConflicts = (shifts: Shift[]) => {
+  const { user } = useAuth();
+  const { t, language } = useLanguage();
+  const { getDisplayTimeZone } = useTimeDisplay();
+  const employeeId = user?.id ?? '';
+
+  const { data: vacationRequests } = useQuery({
+    queryKey: ['vacationRequests', employeeId],
+    queryFn: () => fetchVacationRequests(employeeId),
+    enabled: Boolean(employeeId),
+    staleTime: 60_000,
+  });
+
+  const conflictsByShiftId = useMemo(
+    () => detectShiftConflicts(shifts, vacationRequests ?? []),
+    [shifts, vacationRequests]
+  );
+  const shiftsById = useMemo(() => new Map(shifts.map((shift) => [shift.id, shift])), [shifts]);
+
+  const describeShift = useCallback(
+    (shiftId: string) => {
+      const shift = shiftsById.get(shiftId);
+      if (!shift) return '';
+      const when = new Date(shift.start).toLocaleString([], {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZone: getDisplayTimeZone(shift),
+      });
+      return `${shift.objectName ?? shift.title} · ${when}`;
+    },
+    [getDisplayTimeZone, shiftsById]
+  );
+
+  const describeConflict = useCallback(
+    (conflict: ShiftConflict) => {
+      switch (conflict.kind) {
+        case 'overlap':
+          return t('shiftConflictOverlap', { shift: describeShift(conflict.otherShiftId) });
+        case 'short-rest':
+          return t(conflict.position === 'before' ? 'shiftConflictRestAfter' : 'shiftConflictRestBefore', {
+            shift: describeShift(conflict.otherShiftId),
+            rest: formatRest(conflict.restMs),
+            min: formatRest(MIN_REST_BETWEEN_SHIFTS_MS),
+          });
+        case 'vacation':
+          return t('shiftConflictVacation', {
+            range: formatVacationRange(conflict.startDate, conflict.endDate, language),
+          });
+      }
+    },
+    [describeShift, language, t]
+  );
+
+  const getConflicts = useCallback(
+    (shiftId: string) => conflictsByShiftId.get(shiftId) ?? EMPTY_CONFLICTS,
+    [conflictsByShiftId]
+  );
+
+  const getConflictWarnings = useCallback(
+    (shiftId: string) => getConflicts(shiftId).map(describeConflict),
+    [describeConflict, getConflicts]
+  );
+
+  /** Resolves true when the shifts are conflict-free or the employee accepts them anyway. */
+  const confirmDespiteConflicts = useCallback(
+    (targets: Shift[]) => {
+      const conflicts = collectShiftConflicts(
+        conflictsByShiftId,
+        targets.map((shift) => shift.id)
+      );
+      if (!conflicts.length) return Promise.resolve(true);
+      const lines =
+        targets.length === 1
+          ? conflicts.map(describeConflict)
+          : conflicts.map((conflict) => `${describeShift(conflict.shiftId)}: ${describeConflict(conflict)}`);
+      return new Promise<boolean>((resolve) => {
+        Alert.alert(
+          t('shiftConflictConfirmTitle'),
+          `${t('shiftConflictConfirmBody')}\n\n${lines.map((line) => `• ${line}`).join('\n')}`,
+          [
+            { text: t('commonCancel'), style: 'cancel', onPress: () => resolve(false) },
+            { text: t('shiftConflictConfirmAnyway'), onPress: () => resolve(true) },
+          ],
+          { cancelable: true, onDismiss: () => resolve(false) }
+        );
+      });
+    },
+    [conflictsByShiftId, describeConflict, describeShift, t]
+  );
+
+  return { conflictsByShiftId, getConflicts, getConflictWarnings, confirmDespiteConflicts };
+};
@@ -1,15 +1,20 @@
 import { useEffect, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@lib/supabaseClient';
 import { useAuth } from '@hooks/useSupabaseAuth';
 import { useLanguage } from '@shared/context/LanguageContext';
 import { getShiftById, type Shift } from '@features/shifts/shiftsService';
+import { getShiftSchemaColumns } from '@features/shifts/shiftSchemaAdapters';
+import { loadCachedShiftDetail, saveCachedShiftDetail } from '@features/shifts/shiftCache';
+import { recordLocalShiftChange } from '@features/shifts/shiftChanges';
+import { subscribeToShiftClaims } from '@features/shifts/openShiftsService';
+import type { ShiftClaim } from '@features/shifts/openShifts';
+import { subscribeToIncomingHandoverNotes } from '@features/shifts/shiftHandoverService';
+import { summarizeHandoverNote, type HandoverNote } from '@features/shifts/shiftHandover';
 import { type ShiftNotificationI18nCopy } from '@shared/utils/shiftNotificationI18n';
 import { buildShiftNotificationInsertPayload } from '@shared/utils/shiftNotificationPayload';
 import { persistNotificationRow } from '@shared/utils/notificationPersistence';
 import {
-  SHIFT_END_KEYS,
-  SHIFT_LOCATION_KEYS,
-  SHIFT_START_KEYS,
   buildEventKey,
   buildShiftFilterValue,
   getShiftId,
@@ -24,7 +29,7 @@ type PostgresRealtimePayload = {
   old?: Record<string, unknown>;
 };
 
-const formatShiftWindow = (shift?: Shift) => {
+const formatShiftWindow = (shift?: Shift, timeZone?: string) => {
   if (!shift?.start) return undefined;
   const startDate = new Date(shift.start);
   if (Number.isNaN(startDate.getTime())) return undefined;
@@ -32,8 +37,9 @@ const formatShiftWindow = (shift?: Shift) => {
     weekday: 'short',
     month: 'short',
     day: 'numeric',
+    timeZone,
   });
-  const timeOptions: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+  const timeOptions: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit', timeZone };
   const startLabel = startDate.toLocaleTimeString(undefined, timeOptions);
   let range = startLabel;
   if (shift.end) {
@@ -51,8 +57,8 @@ const buildShiftDetail = (
   fallbackRow: Record<string, unknown> | undefined,
   fallbackDetail: string
 ) => {
-  const location = shift?.objectName ?? shift?.location ?? readRowValue(fallbackRow, SHIFT_LOCATION_KEYS);
-  const windowLabel = formatShiftWindow(shift);
+  const location = shift?.objectName ?? shift?.location ?? readRowValue(fallbackRow, getShiftSchemaColumns('location'));
+  const windowLabel = formatShiftWindow(shift, shift?.timeZone);
   const detailParts: string[] = [];
   if (windowLabel) {
     detailParts.push(windowLabel);
@@ -64,8 +70,8 @@ const buildShiftDetail = (
     return detailParts.join(' · ');
   }
   const fallbackParts = [];
-  const start = readRowValue(fallbackRow, SHIFT_START_KEYS);
-  const end = readRowValue(fallbackRow, SHIFT_END_KEYS);
+  const start = readRowValue(fallbackRow, getShiftSchemaColumns('startDate'));
+  const end = readRowValue(fallbackRow, getShiftSchemaColumns('endDate'));
   if (start || end) {
     fallbackParts.push([start, end].filter(Boolean).join(' – '));
   }
@@ -97,6 +103,7 @@ export const useShiftNotifications = (shiftIds: string[]) => {
   const { user } = useAuth();
   const { t } = useLanguage();
   const employeeId = user?.id;
+  const queryClient = useQueryClient();
   const shiftFilterValue = useMemo(() => buildShiftFilterValue(shiftIds), [shiftIds]);
   const notificationCopy = useMemo<ShiftNotificationI18nCopy>(
     () => ({
@@ -109,14 +116,88 @@ export const useShiftNotifications = (shiftIds: string[]) => {
   );
   const assignmentCache = useRef(new Map<string, string>());
   const shiftCache = useRef(new Map<string, string>());
+  const claimCache = useRef(new Map<string, string>());
+  const handoverCache = useRef(new Set<string>());
 
   useEffect(() => {
     if (!employeeId) {
       assignmentCache.current.clear();
       shiftCache.current.clear();
+      claimCache.current.clear();
+      handoverCache.current.clear();
     }
   }, [employeeId]);
 
+  useEffect(() => {
+    if (!employeeId) {
+      return;
+    }
+
+    const handleClaimReviewed = async (claim: ShiftClaim) => {
+      if (claim.status !== 'approved' && claim.status !== 'rejected') {
+        return;
+      }
+      if (claimCache.current.get(claim.id) === claim.status) {
+        return;
+      }
+      claimCache.current.set(claim.id, claim.status);
+
+      const approved = claim.status === 'approved';
+      const detail = buildShiftDetail(
+        await getShiftById(claim.shiftId).catch(() => undefined),
+        undefined,
+        approved ? t('notificationShiftClaimApprovedDetail') : t('notificationShiftClaimRejectedDetail')
+      );
+      await insertNotificationRow(
+        employeeId,
+        approved ? t('notificationShiftClaimApproved') : t('notificationShiftClaimRejected'),
+        detail,
+        {
+          shiftId: claim.shiftId,
+          target: approved ? `/shift-details/${claim.shiftId}` : '/open-shifts',
+          event: approved ? 'CLAIM_APPROVED' : 'CLAIM_REJECTED',
+        }
+      );
+    };
+
+    const subscription = subscribeToShiftClaims(employeeId, (claim) => {
+      void handleClaimReviewed(claim);
+    });
+    return () => subscription.unsubscribe();
+  }, [employeeId, t]);
+
+  useEffect(() => {
+    if (!employeeId || !shiftFilterValue) {
+      return;
+    }
+
+    const handleHandoverNote = async (note: HandoverNote) => {
+      if (!note.recipientShiftId || handoverCache.current.has(note.id)) {
+        return;
+      }
+      handoverCache.current.add(note.id);
+      void queryClient.invalidateQueries({ queryKey: ['handoverNotes', employeeId, note.recipientShiftId] });
+
+      await insertNotificationRow(
+        employeeId,
+        note.authorName
+          ? t('notificationHandoverNoteFrom', { name: note.authorName })
+          : t('notificationHandoverNote'),
+        summarizeHandoverNote(note.body),
+        {
+          shiftId: note.recipientShiftId,
+          target: `/shift-details/${note.recipientShiftId}`,
+          event: 'HANDOVER_NOTE',
+        }
+      );
+    };
+
+    const subscription = subscribeToIncomingHandoverNotes(employeeId, shiftFilterValue, (note) => {
+      void handleHandoverNote(note);
+    });
+    return () => subscription.unsubscribe();
+  }, [employeeId, queryClient, shiftFilterValue, t]);
+
   useEffect(() => {
     if (!employeeId || !supabase) {
       return;
@@ -162,11 +243,7 @@ export const useShiftNotifications = (shiftIds: string[]) => {
     };
 
     const handleShiftChangeEvent = async (payload: PostgresRealtimePayload) => {
-      if (!payload.eventType) {
-        return;
-      }
-
-      if (!shouldNotifyScheduleUpdate(payload)) {
+      if (!payload.eventType || payload.eventType.toUpperCase() !== 'UPDATE') {
         return;
       }
 
@@ -183,11 +260,24 @@ export const useShiftNotifications = (shiftIds: string[]) => {
       }
       shiftCache.current.set(shiftId, eventKey);
 
-      const detail = buildShiftDetail(
-        await getShiftById(shiftId),
-        payload.new ?? payload.old,
-        notificationCopy.recentShiftUpdate
-      );
+      // The last state this device saw is the "before" of the change history entry.
+      const previousShift = await loadCachedShiftDetail(employeeId, shiftId).catch(() => null);
+      const shift = await getShiftById(shiftId);
+      if (shift) {
+        if (previousShift) {
+          await recordLocalShiftChange(employeeId, previousShift, shift).catch((error) => {
+            console.warn('Failed to record shift change', error);
+          });
+        }
+        void saveCachedShiftDetail(employeeId, shift).catch(() => undefined);
+      }
+      void queryClient.invalidateQueries({ queryKey: ['shiftChangeLog', employeeId, shiftId] });
+
+      if (!shouldNotifyScheduleUpdate(payload)) {
+        return;
+      }
+
+      const detail = buildShiftDetail(shift, payload.new ?? payload.old, notificationCopy.recentShiftUpdate);
       const insertPayload = buildShiftNotificationInsertPayload(
         'UPDATE',
         shiftId,
@@ -241,5 +331,5 @@ export const useShiftNotifications = (shiftIds: string[]) => {
       assignmentChannel.unsubscribe();
       shiftChannel?.unsubscribe();
     };
-  }, [employeeId, notificationCopy, shiftFilterValue]);
+  }, [employeeId, notificationCopy, queryClient, shiftFilterValue]);
 };
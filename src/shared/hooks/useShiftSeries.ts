@@ -0,0 +1,100 @@
+import { useCallback, useMemo } from 'react';
+import { Alert } from 'react-native';
+import { useLanguage } from '@shared/context/LanguageContext';
+import type { Shift } from '@features/shifts/shiftsService';
+import {
+  SHIFT_SERIES_WEEKDAYS,
+  getOpenSeriesShifts,
+  groupShiftSeries,
+  type ShiftSeriesGroup,
+} from '@features/shifts/shiftSeries';
+
+export type ShiftSeriesAction = 'confirm' | 'decline';
+
+/** 2024-01-01 was a Monday, so index offsets line up with SHIFT_SERIES_WEEKDAYS. */
+const WEEKDAY_REFERENCE_MS = Date.UTC(2024, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Recurring shift series in the employee's feed, with "every Mon/Wed" summaries
+ * and a prompt that lets confirm and decline actions cover the whole series.
+ */
+export const useShiftSeries = (shifts: Shift[]) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'de' ? 'de-DE' : 'en-US';
+
+  const groups = useMemo(() => groupShiftSeries(shifts), [shifts]);
+
+  const getSeriesGroup = useCallback(
+    (shift: Pick<Shift, 'series'>) => (shift.series ? groups.get(shift.series.id) : undefined),
+    [groups]
+  );
+
+  const describeGroup = useCallback(
+    (group: ShiftSeriesGroup<Shift>) => {
+      const weekdayFormatter = new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' });
+      const days = group.weekdays
+        .map((day) =>
+          weekdayFormatter.format(WEEKDAY_REFERENCE_MS + SHIFT_SERIES_WEEKDAYS.indexOf(day) * DAY_MS)
+        )
+        .join('/');
+      const time = `${group.startTime}–${group.endTime}`;
+      const { recurrence } = group;
+      const summary =
+        recurrence?.freq === 'DAILY' && !recurrence.byDay.length
+          ? t('shiftSeriesDaily', { time })
+          : recurrence && recurrence.interval > 1
+            ? t('shiftSeriesEveryNWeeks', { interval: recurrence.interval, days, time })
+            : t('shiftSeriesWeekly', { days, time });
+      if (!group.until) return summary;
+      const until = new Intl.DateTimeFormat(locale, {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+        timeZone: 'UTC',
+      }).format(new Date(`${group.until}T00:00:00Z`));
+      return t('shiftSeriesUntil', { summary, until });
+    },
+    [locale, t]
+  );
+
+  const getSeriesSummary = useCallback(
+    (shift: Pick<Shift, 'series'>) => {
+      const group = getSeriesGroup(shift);
+      return group ? describeGroup(group) : undefined;
+    },
+    [describeGroup, getSeriesGroup]
+  );
+
+  /**
+   * Resolves the shifts an answer applies to: just this one, or every open
+   * occurrence of its series when the employee picks that. Null on cancel.
+   */
+  const chooseSeriesScope = useCallback(
+    (shift: Shift, action: ShiftSeriesAction) => {
+      const group = getSeriesGroup(shift);
+      const others = group ? getOpenSeriesShifts(group).filter((entry) => entry.id !== shift.id) : [];
+      if (!group || !others.length) return Promise.resolve<Shift[] | null>([shift]);
+      const seriesShifts = [shift, ...others];
+      return new Promise<Shift[] | null>((resolve) => {
+        Alert.alert(
+          t(action === 'confirm' ? 'shiftSeriesConfirmTitle' : 'shiftSeriesDeclineTitle'),
+          t('shiftSeriesScopeBody', { summary: describeGroup(group), count: seriesShifts.length }),
+          [
+            { text: t('commonCancel'), style: 'cancel', onPress: () => resolve(null) },
+            { text: t('shiftSeriesScopeSingle'), onPress: () => resolve([shift]) },
+            {
+              text: t('shiftSeriesScopeAll', { count: seriesShifts.length }),
+              style: action === 'decline' ? 'destructive' : 'default',
+              onPress: () => resolve(seriesShifts),
+            },
+          ],
+          { cancelable: true, onDismiss: () => resolve(null) }
+        );
+      });
+    },
+    [describeGroup, getSeriesGroup, t]
+  );
+
+  return { seriesGroups: groups, getSeriesGroup, getSeriesSummary, chooseSeriesScope };
+};
@@ -54,6 +54,7 @@ export const deTranslations = {
     listEmptySubtitle: 'Sieh später noch einmal nach oder lade neu, um neue Einsätze zu sehen.',
     refreshShifts: 'Schichten aktualisieren',
     shiftWindowLabel: 'Schichtfenster',
+    shiftSiteTimeLabel: 'Ortszeit · {zone}',
     shiftStartLabel: 'Startet',
     shiftEndLabel: 'Endet',
     shiftDuration: 'Dauer',
@@ -70,6 +71,226 @@ export const deTranslations = {
     statusCompletedDescription: 'Gute Arbeit! Diese Schicht wurde abgeschlossen.',
     statusBlockedDescription: 'Dieser Einsatz braucht noch Aufmerksamkeit, bevor du starten kannst.',
     confirmShift: 'Schicht bestätigen',
+    shiftPendingSyncLabel: 'Wartet auf Synchronisierung',
+    shiftConfirmQueuedTitle: 'Offline gespeichert',
+    shiftConfirmQueuedBody:
+      'Deine Bestätigung ist auf diesem Gerät gespeichert und wird automatisch gesendet, sobald du wieder online bist.',
+    statusDeclined: 'Abgesagt',
+    statusTentative: 'Unter Vorbehalt',
+    shiftDeclineAction: 'Kann nicht',
+    shiftDeclineTitle: 'Schicht nicht möglich?',
+    shiftDeclineSubtitle: 'Sag deiner Planung, warum – dann kann rechtzeitig Ersatz gefunden werden.',
+    shiftDeclineStatusDeclined: 'Kann nicht',
+    shiftDeclineStatusTentative: 'Noch unsicher',
+    shiftDeclineReasonLabel: 'Grund',
+    shiftDeclineReasonIllness: 'Krankheit',
+    shiftDeclineReasonScheduleConflict: 'Terminkonflikt',
+    shiftDeclineReasonTransport: 'Anfahrt',
+    shiftDeclineReasonPersonal: 'Persönlich',
+    shiftDeclineReasonOther: 'Sonstiges',
+    shiftDeclineNoteLabel: 'Details',
+    shiftDeclineNotePlaceholder: 'Was deine Planung wissen sollte (optional)',
+    shiftDeclineReasonRequired: 'Wähle einen Grund.',
+    shiftDeclineNoteRequired: 'Ergänze ein paar Details, wenn du Sonstiges wählst.',
+    shiftDeclineNoteTooLong: 'Details dürfen höchstens {max} Zeichen lang sein.',
+    shiftDeclineSubmit: 'Antwort senden',
+    shiftDeclineFailedTitle: 'Antwort nicht gesendet',
+    shiftDeclineFailedBody:
+      'Deine Antwort konnte nicht gespeichert werden. Prüfe deine Verbindung und versuche es erneut.',
+    shiftDeclinedLabel: 'Abgesagt · {reason}',
+    shiftTentativeLabel: 'Unter Vorbehalt · {reason}',
+    shiftResponseHeading: 'Deine Antwort',
+    shiftConfirmDeadlineBadge: 'Bestätigen in {time}',
+    shiftConfirmDeadlineOverdue: 'Bestätigung überfällig',
+    shiftConfirmDeadlineNotice: '{count} Schichten warten auf Bestätigung · nächste Frist in {time}',
+    shiftConfirmDeadlineNoticeOverdue: '{count} Schichten warten auf Bestätigung · eine Frist ist abgelaufen',
+    shiftConfirmReminderGentleTitle: 'Bitte bestätige deine Schicht',
+    shiftConfirmReminderFirmTitle: 'Schichtbestätigung bald fällig',
+    shiftConfirmReminderFinalTitle: 'Letzte Erinnerung: Schicht bestätigen',
+    shiftConfirmReminderBody: '{shift} am {start} – bitte bestätige bis {deadline}.',
+    shiftConflictOverlap: 'Überschneidet sich mit {shift}',
+    shiftConflictRestBefore: 'Nur {rest} Ruhezeit vor {shift} (mindestens {min})',
+    shiftConflictRestAfter: 'Nur {rest} Ruhezeit nach {shift} (mindestens {min})',
+    shiftConflictVacation: 'Fällt in deinen genehmigten Urlaub ({range})',
+    shiftConflictConfirmTitle: 'Bitte vor dem Bestätigen prüfen',
+    shiftConflictConfirmBody: 'Bitte melde diese Konflikte deiner Planung, bevor du zusagst.',
+    shiftConflictConfirmAnyway: 'Trotzdem bestätigen',
+    openShiftsTitle: 'Offene Schichten',
+    openShiftsHint:
+      'Unbesetzte Schichten in deinem Unternehmen. Beanspruche eine und die Planung bestätigt sie.',
+    openShiftsLoading: 'Offene Schichten werden geladen…',
+    openShiftsLoadFailed: 'Offene Schichten konnten nicht geladen werden.',
+    openShiftsEmpty: 'Aktuell gibt es keine offenen Schichten.',
+    openShiftsFilteredEmpty: 'Keine offenen Schichten passen zu diesen Filtern.',
+    openShiftsNotLinked: 'Verknüpfe dein Konto mit einem Unternehmen, um dessen offene Schichten zu sehen.',
+    openShiftsFilterAll: 'Alle',
+    openShiftsFilterQualification: 'Qualifikation',
+    openShiftsFilterSite: 'Standort',
+    openShiftsFilterDay: 'Tag',
+    openShiftsRequires: 'Erfordert: {qualifications}',
+    openShiftsNotQualified: 'Dir fehlt eine erforderliche Qualifikation',
+    openShiftsClaimAction: 'Schicht beanspruchen',
+    openShiftsClaimConfirmTitle: 'Diese Schicht beanspruchen?',
+    openShiftsClaimConfirmBody:
+      'Die Planung prüft deine Anfrage. Nach der Freigabe erscheint die Schicht in deinem Feed.',
+    openShiftsClaimPending: 'Anfrage wartet auf Freigabe',
+    openShiftsClaimRejected: 'Deine letzte Anfrage für diese Schicht wurde abgelehnt.',
+    openShiftsClaimSentTitle: 'Anfrage gesendet',
+    openShiftsClaimSentBody:
+      'Wir benachrichtigen dich, sobald die Planung deine Anfrage freigibt oder ablehnt.',
+    openShiftsClaimFailedTitle: 'Schicht nicht beansprucht',
+    openShiftsClaimFailedBody: 'Die Anfrage konnte nicht gesendet werden. Bitte versuche es erneut.',
+    openShiftsClaimAlreadyClaimed: 'Du hast diese Schicht bereits beansprucht.',
+    openShiftsClaimAlreadyAssigned: 'Du bist dieser Schicht bereits zugeteilt.',
+    openShiftsClaimNotOpen: 'Diese Schicht ist nicht mehr offen.',
+    openShiftsClaimNotQualified: 'Dir fehlen Qualifikationen, die diese Schicht erfordert.',
+    openShiftsWithdrawAction: 'Anfrage zurückziehen',
+    openShiftsWithdrawFailedTitle: 'Anfrage nicht zurückgezogen',
+    openShiftsWithdrawAlreadyReviewed: 'Die Planung hat diese Anfrage bereits bearbeitet.',
+    openShiftsPendingClaimsNotice: '{count} Anfragen für offene Schichten warten auf Freigabe.',
+    notificationShiftClaimApproved: 'Schichtanfrage freigegeben',
+    notificationShiftClaimApprovedDetail: 'Die offene Schicht, die du beansprucht hast, gehört jetzt dir.',
+    notificationShiftClaimRejected: 'Schichtanfrage abgelehnt',
+    notificationShiftClaimRejectedDetail: 'Die Planung hat deine Anfrage für eine offene Schicht abgelehnt.',
+    shiftDetailsHeading: 'Schichtdetails',
+    shiftRoleLabel: 'Rolle',
+    shiftBreaksLabel: 'Pausen',
+    shiftBreakMinutes: '{minutes} Min.',
+    shiftBreakPaid: 'bezahlt',
+    shiftQualificationsLabel: 'Erforderliche Qualifikationen',
+    shiftDressCodeLabel: 'Kleiderordnung',
+    shiftPayLabel: 'Vergütung',
+    shiftPayHourly: '{amount} pro Stunde',
+    shiftPremiumPercent: '{label}: +{percent} %',
+    shiftPremiumAmount: '{label}: +{amount}',
+    shiftFilesHeading: 'Dateien',
+    shiftAttachmentBriefing: 'Einweisung',
+    shiftAttachmentFloorPlan: 'Lageplan',
+    shiftAttachmentOther: 'Datei',
+    shiftAttachmentUnavailable: 'Diese Datei ist gerade nicht verfügbar.',
+    shiftSeriesLabel: 'Wiederholung',
+    shiftSeriesWeekly: 'Jeden {days} {time}',
+    shiftSeriesEveryNWeeks: 'Alle {interval} Wochen am {days} {time}',
+    shiftSeriesDaily: 'Täglich {time}',
+    shiftSeriesUntil: '{summary} bis {until}',
+    shiftSeriesConfirmTitle: 'Ganze Serie bestätigen?',
+    shiftSeriesDeclineTitle: 'Ganze Serie ablehnen?',
+    shiftSeriesScopeBody:
+      '{summary}\n\n{count} kommende Schichten dieser Serie warten noch auf deine Antwort.',
+    shiftSeriesScopeSingle: 'Nur diese Schicht',
+    shiftSeriesScopeAll: 'Alle {count} Schichten',
+    shiftSeriesDeclinePartialBody:
+      '{declined} von {total} Schichten wurden abgelehnt. Bitte versuche die übrigen Schichten erneut.',
+    shiftChangeHistoryHeading: 'Änderungsverlauf',
+    shiftChangeOriginalTitle: 'Ursprünglich veröffentlicht',
+    shiftChangePublished: 'Veröffentlicht',
+    shiftChangeUpdated: 'Geändert',
+    shiftChangeRecordedOnDevice: 'auf diesem Gerät erfasst',
+    shiftChangeValueEmpty: 'keine Angabe',
+    shiftChangeFieldStart: 'Beginn',
+    shiftChangeFieldEnd: 'Ende',
+    shiftChangeFieldSite: 'Objekt',
+    shiftChangeFieldLocation: 'Adresse',
+    shiftChangeFieldDescription: 'Beschreibung',
+    shiftRosterHeading: 'Team dieser Schicht',
+    shiftRosterYou: 'Du',
+    shiftRosterLead: 'Schichtleitung',
+    shiftRosterNoRole: 'Keine Rolle zugewiesen',
+    shiftRosterUnnamed: 'Teammitglied',
+    shiftRosterEmpty: 'Bisher bist nur du für diese Schicht eingeteilt.',
+    shiftRosterMessageLabel: 'Nachricht',
+    shiftRosterPrivacyTitle: 'Deine Sichtbarkeit im Team',
+    shiftRosterShareContact: 'Telefonnummer und E-Mail mit meinen Schichtteams teilen',
+    shiftRosterShowLastName: 'Meinen Nachnamen anzeigen',
+    shiftRosterPrivacyHint:
+      'Dein Schichtteam sieht immer deinen Vornamen und deine Rolle. Diese Einstellungen gelten für alle deine Schichten.',
+    shiftRosterPrivacyFailed:
+      'Deine Sichtbarkeitseinstellungen konnten nicht gespeichert werden. Bitte versuche es erneut.',
+    shiftHandoverHeading: 'Übergabenotizen',
+    shiftHandoverFrom: 'Von {name} · {time}',
+    shiftHandoverYourNotes: 'Deine Notizen für die nächste Schicht',
+    shiftHandoverNotReadYet: 'Noch nicht gelesen',
+    shiftHandoverReadBy: 'Gelesen von {name} um {time}',
+    shiftHandoverNoNextShift:
+      'Es ist noch keine nächste Schicht geplant. Die Notiz wird angezeigt, sobald es eine gibt.',
+    shiftHandoverSheetTitle: 'Übergabenotiz',
+    shiftHandoverSheetSubtitle: 'Hinterlasse eine Notiz für die nächste Schicht an diesem Objekt.',
+    shiftHandoverNotePlaceholder: 'z. B. Das Seitentor klemmt, Schlüssel liegen am Empfang',
+    shiftHandoverNoteRequired: 'Schreib eine Notiz oder überspringe diesen Schritt.',
+    shiftHandoverNoteTooLong: 'Die Notiz darf höchstens {max} Zeichen lang sein.',
+    shiftHandoverSubmit: 'Notiz speichern',
+    shiftHandoverSkip: 'Überspringen',
+    shiftHandoverSubmitFailed: 'Die Übergabenotiz konnte nicht gespeichert werden. Bitte versuche es erneut.',
+    shiftHandoverLeaveNote: 'Übergabenotiz schreiben',
+    notificationHandoverNote: 'Neue Übergabenotiz',
+    notificationHandoverNoteFrom: 'Übergabenotiz von {name}',
+    shiftChecklistHeading: 'Objekt-Checkliste',
+    shiftChecklistProgress: '{done} von {total} Aufgaben erledigt',
+    shiftChecklistRequiredOpen: '{count} Pflichtaufgaben offen',
+    shiftChecklistPendingSubmit:
+      'Auf diesem Gerät gespeichert. Wird übermittelt, sobald du wieder online bist.',
+    shiftChecklistSubmittedAt: 'Übermittelt um {time}',
+    shiftChecklistLiveOnly: 'Aufgaben können abgehakt werden, während die Schicht läuft.',
+    shiftChecklistRequired: 'Pflicht',
+    shiftChecklistOptional: 'Optional',
+    shiftChecklistPhotoNeeded: 'Füge ein Foto als Nachweis hinzu, um diese Aufgabe abzuschließen.',
+    shiftChecklistAddPhoto: 'Fotonachweis hinzufügen',
+    shiftChecklistRetakePhoto: 'Foto neu aufnehmen',
+    shiftChecklistCameraDenied: 'Erlaube den Kamerazugriff, um einen Fotonachweis hinzuzufügen.',
+    shiftChecklistClockOutMissing:
+      '{count} Pflichtaufgaben der Checkliste sind noch offen. Beim Ausstempeln wird die Checkliste so übermittelt, wie sie ist.',
+    incidentHeading: 'Vorfälle',
+    incidentReportAction: 'Vorfall melden',
+    incidentSubmittedMessage: 'Deine Meldung wurde an deine Einsatzleitung gesendet.',
+    incidentQueuedMessage:
+      'Du bist offline. Die Meldung ist auf diesem Gerät gespeichert und wird automatisch gesendet.',
+    incidentSubmitFailed: 'Die Meldung konnte nicht gespeichert werden. Bitte versuche es erneut.',
+    incidentSheetTitle: 'Vorfall melden',
+    incidentSheetSubtitle:
+      'Beschreibe, was passiert ist. Fotos helfen deiner Einsatzleitung bei der Einschätzung.',
+    incidentCategoryLabel: 'Kategorie',
+    incidentSeverityLabel: 'Schweregrad',
+    incidentOccurredLabel: 'Wann ist es passiert?',
+    incidentDescriptionLabel: 'Was ist passiert?',
+    incidentDescriptionPlaceholder: 'z. B. Fenster am Seiteneingang ist kaputt',
+    incidentLocationLabel: 'Ort im Objekt (optional)',
+    incidentLocationPlaceholder: 'z. B. Laderampe 3',
+    incidentPhotosLabel: 'Fotos ({count}/{max})',
+    incidentRemovePhoto: 'Foto entfernen',
+    incidentTakePhoto: 'Foto aufnehmen',
+    incidentChoosePhoto: 'Foto auswählen',
+    incidentPhotoPermissionDenied: 'Erlaube den Zugriff auf Kamera oder Fotos, um Bilder anzuhängen.',
+    incidentSubmit: 'Meldung senden',
+    incidentDescriptionRequired: 'Bitte beschreibe, was passiert ist.',
+    incidentDescriptionTooLong: 'Die Beschreibung darf höchstens {max} Zeichen lang sein.',
+    incidentTooManyPhotos: 'Du kannst bis zu {max} Fotos anhängen.',
+    incidentCategoryDamage: 'Schaden',
+    incidentCategoryInjury: 'Verletzung',
+    incidentCategorySecurity: 'Sicherheit',
+    incidentCategorySafetyHazard: 'Gefahrenstelle',
+    incidentCategoryTheft: 'Diebstahl',
+    incidentCategoryOther: 'Sonstiges',
+    incidentSeverityLow: 'Gering',
+    incidentSeverityMedium: 'Mittel',
+    incidentSeverityHigh: 'Hoch',
+    incidentSeverityCritical: 'Kritisch',
+    incidentOccurredNow: 'Gerade eben',
+    incidentOccurred15Minutes: 'Vor 15 Min.',
+    incidentOccurred30Minutes: 'Vor 30 Min.',
+    incidentOccurred1Hour: 'Vor 1 Stunde',
+    incidentStatusOpen: 'Gesendet',
+    incidentStatusAcknowledged: 'Von der Einsatzleitung gesehen',
+    incidentStatusResolved: 'Erledigt',
+    incidentStatusQueued: 'Wartet auf Upload',
+    incidentStatusRejected: 'Nicht angenommen',
+    incidentDiscard: 'Verwerfen',
+    incidentPhotoCount: '{count} Fotos',
+    shiftSyncPendingNotice: '{count} Bestätigungen warten auf Synchronisierung.',
+    shiftSyncConflictTitle: 'Einige Bestätigungen wurden nicht übernommen',
+    shiftSyncConflictBody:
+      '{count} Schichten wurden geändert, während du offline warst. Deine Bestätigung wurde daher nicht gesendet. Bitte prüfe sie erneut.',
+    shiftSyncFailedBody:
+      '{count} Bestätigungen konnten nach mehreren Versuchen nicht gesendet werden. Bitte bestätige diese Schichten erneut.',
     confirmAllShifts: 'Alle bestätigen ({count})',
     confirmAllShiftsShort: 'Alle bestätigen',
     confirmAllPendingCount: '{count} ausstehende Bestätigungen',
@@ -80,6 +301,12 @@ export const deTranslations = {
       '{successCount} Schichten wurden bestätigt, aber {failedCount} sind fehlgeschlagen. Bitte versuche es erneut.',
     confirmAllShiftsResultFailureBody:
       'Deine Schichten konnten gerade nicht bestätigt werden. Bitte versuche es erneut.',
+    confirmAllShiftsResultQueuedBody:
+      '{count} Schichten wurden offline gespeichert und werden bestätigt, sobald du wieder online bist.',
+    confirmAllShiftsFailedItem: '• {shift}, {date}: {reason}',
+    confirmAllShiftsReasonNotFound: 'dir nicht mehr zugewiesen',
+    confirmAllShiftsReasonNotPublished: 'von deiner Planung geändert',
+    confirmAllShiftsReasonFailed: 'konnte nicht gespeichert werden',
     phasePast: 'Vergangene Schicht',
     phaseLive: 'Jetzt live',
     phaseUpcoming: 'Kommend',
@@ -100,6 +327,7 @@ export const deTranslations = {
     dashboardClockOutAction: 'Ausstempeln',
     dashboardViewShiftsAction: 'Schichten ansehen',
     dashboardOpenCalendarAction: 'Kalender öffnen',
+    dashboardOpenShiftsAction: 'Offene Schichten',
     dashboardUploadDocumentAction: 'Dokument hochladen',
     dashboardRequestVacationAction: 'Urlaub beantragen',
     dashboardContactSupportAction: 'Support kontaktieren',
@@ -148,6 +376,8 @@ export const deTranslations = {
     accountSnapshot: 'Kontenübersicht',
     accountMonthlyHoursTitle: 'Monatlich geleistete Stunden',
     accountMonthlyHoursWorked: 'Geleistet',
+    accountMonthlyHoursNeedsApproval: 'Freigabe ausstehend',
+    accountMonthlyHoursBreak: 'Pause {duration}',
     accountMonthlyHoursPlanned: 'Geplant',
     accountMonthlyHoursBalance: 'Vor / hinter Plan',
     accountMonthlyHoursShiftCount: '{count} Schichten',
@@ -178,6 +408,9 @@ export const deTranslations = {
     accountMonthlyHoursStatusScheduled: 'Geplant',
     accountCertificateOfSickness: 'Dokumente',
     accountVacationRequests: 'Urlaubsanträge',
+    accountQrDisplay: 'Check-in-QR-Code anzeigen',
+    accountKioskMode: 'Kiosk-Modus',
+    accountKioskBadge: 'Check-in-Ausweis',
     accountAvailability: 'Verfuegbarkeit',
     certificateOfSicknessTitle: 'Mitarbeiterdokumente',
     certificateOfSicknessHint:
@@ -477,6 +710,9 @@ export const deTranslations = {
     calendarSettingsSubtitle: 'Verwalte Synchronisierung und externe Kalenderverbindungen.',
     calendarSettingsGroupInApp: 'In der App',
     calendarSettingsGroupExternal: 'Externe Kalender',
+    calendarSettingsGroupTime: 'Schichtzeiten',
+    timeDisplaySite: 'Ortszeit des Einsatzorts anzeigen',
+    timeDisplayDevice: 'Gerätezeit anzeigen',
     notificationBellLabel: 'Benachrichtigungen',
     toolsSectionTitle: 'Werkzeuge',
     notificationsPanelTitle: 'Benachrichtigungen',
@@ -788,6 +1024,159 @@ export const deTranslations = {
     qrClockInMissingApiBaseUrl: 'API-Basis-URL fehlt. Setze API_BASE_URL in der App-Umgebung.',
     qrClockInSessionRequired: 'Deine Sitzung ist abgelaufen. Bitte melde dich erneut an.',
     qrClockInSubmitFailed: 'Der QR-Clock-in konnte gerade nicht abgeschlossen werden.',
+    qrClockInLocationTitle: 'Standortprüfung',
+    qrClockInLocationDenied:
+      'Zum Einchecken an diesem Objekt wird dein Standort benötigt. Erlaube den Standortzugriff in den Systemeinstellungen und scanne erneut.',
+    qrClockInLocationInaccurate:
+      'Dein Standort ist zu ungenau, um zu bestätigen, dass du vor Ort bist. Geh näher an ein Fenster oder nach draußen und scanne erneut.',
+    qrClockInOutsideGeofence:
+      'Du bist anscheinend etwa {distance} vom Objekt entfernt. Checke ein, sobald du vor Ort bist.',
+    qrClockInOutsideGeofenceServer:
+      'Dein Standort liegt außerhalb des Objektbereichs. Checke ein, sobald du vor Ort bist.',
+    qrClockInTokenMalformed: 'Dieser QR-Code ist beschädigt oder kein Shiftor-Check-in-Code.',
+    qrClockInTokenForged:
+      'Dieser QR-Code wurde nicht von deinem Unternehmen ausgestellt. Bitte die Einsatzleitung um einen gültigen Code.',
+    qrClockInTokenExpired:
+      'Dieser QR-Code ist um {time} abgelaufen. Bitte die Einsatzleitung um einen aktuellen Code.',
+    qrClockInTokenNotYetValid: 'Dieser QR-Code ist erst ab {time} gültig. Scanne ihn dann erneut.',
+    qrDisplayTitle: 'Check-in-QR-Code',
+    qrDisplayDescription:
+      'Mitarbeitende scannen diesen Code mit der App, um ein- oder auszuchecken. Er wechselt alle paar Sekunden, Fotos davon funktionieren also nicht.',
+    qrDisplayLoading: 'Objekte werden geladen…',
+    qrDisplayUnavailable: 'Der Check-in-Code konnte nicht geladen werden.',
+    qrDisplayEmpty: 'Du bist für kein Objekt zum Anzeigen eines Check-in-Codes eingerichtet.',
+    qrDisplayRotatesIn: 'Neuer Code in {seconds} s',
+    qrBreakTitle: 'Pause',
+    qrBreakStartAction: 'Pause starten',
+    qrBreakEndAction: 'Pause beenden',
+    qrBreakRunning: 'In Pause seit {time}',
+    qrBreakTotal: 'Pausen in dieser Schicht: {duration}',
+    qrPresenceToday: 'Heute: {events}',
+    qrPresenceClockIn: 'Check-in {time}',
+    qrPresenceClockOut: 'Check-out {time}',
+    qrBreakStartedMessage:
+      'Pause gestartet. Scanne den Objekt-Code oder tippe auf „Pause beenden“, wenn du zurück bist.',
+    qrBreakEndedMessage: 'Pause nach {duration} beendet.',
+    qrBreakResultAlreadyRecorded: 'Diese Pause wurde bereits erfasst.',
+    qrBreakResultAlreadyOnBreak: 'Es läuft bereits eine Pause.',
+    qrBreakResultNotOnBreak: 'Es läuft keine Pause.',
+    qrBreakResultNotAssigned: 'Du bist dieser Schicht nicht zugewiesen.',
+    qrBreakResultNotFound: 'Diese Schicht gibt es nicht mehr.',
+    qrBreakResultOutsideShift: 'Pausen können nur während der Schicht erfasst werden.',
+    qrBreakResultInvalid: 'Die Pause konnte nicht erfasst werden.',
+    qrBreakOffline: 'Pausen können nur online erfasst werden. Versuche es erneut, sobald du Verbindung hast.',
+    qrBreakFailed: 'Die Pause konnte nicht erfasst werden. Bitte versuche es erneut.',
+    kioskTitle: 'Kiosk-Modus',
+    kioskSetupDescription:
+      'Mach dieses Gerät zum gemeinsamen Check-in-Terminal für ein Objekt. Mitarbeitende checken mit ihrem Ausweis oder ihrer PIN ein und aus, ohne sich am Gerät anzumelden.',
+    kioskSetupUnavailable: 'Die Kiosk-Objekte konnten nicht geladen werden.',
+    kioskSetupEmpty: 'Du bist für kein Objekt als Kiosk eingerichtet.',
+    kioskSetupObject: 'Objekt',
+    kioskSetupExitPin: 'Beenden-PIN',
+    kioskSetupExitPinHint: '4 bis 6 Ziffern. Wird gebraucht, um den Kiosk-Modus auf diesem Gerät zu beenden.',
+    kioskSetupInvalidPin: 'Gib eine PIN mit 4 bis 6 Ziffern ein.',
+    kioskSetupStart: 'Kiosk starten',
+    kioskScanPrompt: 'Halte deinen Ausweis vor die Kamera',
+    kioskUsePin: 'Stattdessen PIN verwenden',
+    kioskChooseName: 'Wähle deinen Namen',
+    kioskNoEmployees: 'Gerade ist niemand in diesem Objekt eingeplant.',
+    kioskEnterPin: 'Gib deine PIN ein, {name}',
+    kioskSubmitPin: 'Bestätigen',
+    kioskClockInSuccess: 'Willkommen, {name}! Du bist eingecheckt.',
+    kioskClockOutSuccess: 'Tschüss, {name}! Arbeitszeit: {duration}.',
+    kioskResetIn: 'Bereit für die nächste Person in {seconds} s',
+    kioskErrorNotBadge: 'Das ist kein Check-in-Ausweis. Öffne in der App Konto → Check-in-Ausweis.',
+    kioskErrorUnknownBadge: 'Dieser Ausweis ist nicht mehr gültig. Zeige den aktuellen aus deiner App.',
+    kioskErrorNoPin: 'Du hast noch keine PIN. Leg sie unter Konto → Check-in-Ausweis fest.',
+    kioskErrorWrongPin: 'Falsche PIN.',
+    kioskErrorPinLocked:
+      'Zu viele falsche PINs. Versuche es später erneut oder nutze deinen Ausweis.',
+    kioskErrorRateLimited:
+      'Die PIN-Eingabe ist an diesem Kiosk nach zu vielen falschen PINs pausiert. Bitte nutze deinen Ausweis.',
+    kioskErrorNotScheduled: 'Du hast gerade keine Schicht in diesem Objekt.',
+    kioskErrorNotOperator: 'Dieses Gerät darf für dieses Objekt nicht mehr als Kiosk laufen.',
+    kioskErrorOffline: 'Keine Verbindung. Bitte versuche es gleich noch einmal.',
+    kioskErrorFailed: 'Check-in fehlgeschlagen. Bitte versuche es erneut.',
+    kioskActivityTitle: 'Letzte Aktivitäten',
+    kioskActivityEmpty: 'Noch keine Check-ins.',
+    kioskActivityClockIn: '{name} hat eingecheckt',
+    kioskActivityClockOut: '{name} hat ausgecheckt',
+    kioskActivityRejected: 'Abgelehnt: {reason}',
+    kioskExit: 'Kiosk beenden',
+    kioskExitPrompt: 'Gib die Beenden-PIN ein, um den Kiosk-Modus zu verlassen.',
+    kioskExitWrongPin: 'Falsche Beenden-PIN.',
+    kioskExitLocked: 'Zu viele falsche Beenden-PINs. Versuch es in {seconds} s erneut.',
+    kioskBadgeTitle: 'Check-in-Ausweis',
+    kioskBadgeDescription:
+      'Zeig diesen Code am Kiosk eines Objekts, um ein- oder auszuchecken. Er ist persönlich, gib ihn nicht weiter.',
+    kioskBadgeLoading: 'Ausweis wird geladen…',
+    kioskBadgeUnavailable: 'Dein Ausweis konnte nicht geladen werden.',
+    kioskBadgeRenew: 'Neuen Ausweis ausstellen',
+    kioskBadgeRenewConfirm: 'Dein aktueller Ausweis funktioniert dann nicht mehr, auch nicht als Screenshot.',
+    kioskBadgePinTitle: 'Kiosk-PIN',
+    kioskBadgePinDescription: 'Ohne Handy wählst du am Kiosk deinen Namen und gibst diese PIN ein.',
+    kioskBadgePinSet: 'Eine PIN ist festgelegt. Eine neue ersetzt sie.',
+    kioskBadgePinNotSet: 'Noch keine PIN festgelegt.',
+    kioskBadgePinPlaceholder: 'Neue PIN (4–6 Ziffern)',
+    kioskBadgePinSave: 'PIN speichern',
+    kioskBadgePinSaved: 'Deine PIN wurde gespeichert.',
+    kioskBadgePinFailed: 'Die PIN konnte nicht gespeichert werden. Bitte versuche es erneut.',
+    qrScanStatusReadyBreakBody: 'Du bist in der Pause. Scanne den Objekt-Code, um sie zu beenden.',
+    qrScanStatusQueuedTitle: 'Wartet auf Synchronisierung',
+    qrScanStatusQueuedBody:
+      'Dein Scan ist auf diesem Gerät gespeichert und wird gesendet, sobald du wieder online bist.',
+    qrClockQueuedTitle: 'Offline gespeichert',
+    qrClockQueuedMessage:
+      'Keine Verbindung. {event} ist mit der Scan-Zeit gespeichert und wird automatisch gesendet, sobald du wieder online bist.',
+    qrClockQueuedBehindMessage:
+      'Frühere Scans warten noch auf Synchronisierung. {event} wird dahinter eingereiht und der Reihe nach gesendet.',
+    qrClockQueuePendingTitle: '{count} Scans warten auf Synchronisierung',
+    qrClockQueueClockInAt: 'Check-in um {time} · {shift}',
+    qrClockQueueClockOutAt: 'Check-out um {time} · {shift}',
+    qrClockQueueUnknownShift: 'Gescannte Schicht',
+    qrClockQueueRejectedTitle: 'Scan nicht angenommen',
+    qrClockQueueRejectedMessage:
+      '{count} Offline-Scans wurden nicht angenommen. Öffne den Scanner, um sie zu prüfen.',
+    qrClockQueueRejectedEvent: '{event} wurde nicht angenommen: {reason}',
+    qrClockQueueDiscard: 'Ausblenden',
+    manualClockQrMissingLink: 'QR-Code fehlt oder ist beschädigt?',
+    manualClockOpenAction: 'Manuell einchecken',
+    manualClockSheetTitle: 'Manueller Check-in',
+    manualClockSheetSubtitle:
+      'Nutze das nur, wenn der QR-Code am Objekt nicht gescannt werden kann. Die Einsatzleitung muss den Eintrag freigeben.',
+    manualClockShiftLabel: 'Schicht',
+    manualClockActionLabel: 'Aktion',
+    manualClockActionClockIn: 'Check-in',
+    manualClockActionClockOut: 'Check-out',
+    manualClockReasonLabel: 'Grund',
+    manualClockReasonQrMissing: 'QR-Code fehlt',
+    manualClockReasonQrDamaged: 'QR-Code beschädigt',
+    manualClockReasonScannerFailed: 'Scanner funktioniert nicht',
+    manualClockReasonOther: 'Sonstiges',
+    manualClockNoteLabel: 'Notiz',
+    manualClockNotePlaceholder: 'Was die Einsatzleitung wissen sollte',
+    manualClockNoteRequired: 'Bitte beschreibe, was passiert ist.',
+    manualClockNoteTooLong: 'Die Notiz darf höchstens {max} Zeichen lang sein.',
+    manualClockPhotoLabel: 'Foto (optional)',
+    manualClockPhotoHint: 'Zum Beispiel vom beschädigten oder fehlenden QR-Code.',
+    manualClockTakePhoto: 'Foto aufnehmen',
+    manualClockRemovePhoto: 'Foto entfernen',
+    manualClockPhotoPermissionDenied: 'Erlaube den Kamerazugriff, um ein Foto anzuhängen.',
+    manualClockLocationLabel: 'Standort teilen',
+    manualClockLocationHint: 'Hilft der Einsatzleitung zu bestätigen, dass du vor Ort warst.',
+    manualClockLocationMissing:
+      'Dein Standort konnte nicht bestimmt werden, daher wurde die Anfrage ohne Standort gesendet.',
+    manualClockSubmit: 'Zur Freigabe senden',
+    manualClockNoShifts: 'Gerade gibt es keine Schicht, für die du ein- oder auschecken kannst.',
+    manualClockRequestedTitle: 'Zur Freigabe gesendet',
+    manualClockRequestedMessage:
+      'Die Einsatzleitung prüft den Eintrag. Bis dahin ist er in deinen Monatsstunden als freigabepflichtig markiert.',
+    manualClockNotAssigned: 'Du bist dieser Schicht nicht zugeteilt.',
+    manualClockNotFound: 'Diese Schicht gibt es nicht mehr.',
+    manualClockOutsideWindow:
+      'Manuelle Einträge sind nur bis 2 Stunden vor Schichtbeginn oder nach Schichtende möglich.',
+    manualClockOffline: 'Du bist offline. Verbinde dich mit dem Internet und versuche es erneut.',
+    manualClockSubmitFailed: 'Die Anfrage konnte nicht gesendet werden. Bitte versuche es erneut.',
     qrClockInSuccessTitle: 'Eingecheckt',
     qrClockInSuccessMessage: 'Clock-in gespeichert. Die Schichtdetails werden jetzt geoeffnet.',
     qrClockOutSuccessTitle: 'Ausgecheckt',
@@ -54,6 +54,7 @@ export const enTranslations = {
     listEmptySubtitle: 'Check back soon or refresh to see new assignments that match your availability.',
     refreshShifts: 'Refresh shifts',
     shiftWindowLabel: 'Shift window',
+    shiftSiteTimeLabel: 'Site time · {zone}',
     shiftStartLabel: 'Starts',
     shiftEndLabel: 'Ends',
     shiftDuration: 'Duration',
@@ -70,6 +71,219 @@ export const enTranslations = {
     statusCompletedDescription: 'Nice work! This shift is marked as completed.',
     statusBlockedDescription: 'This assignment needs attention before you can start.',
     confirmShift: 'Confirm shift',
+    shiftPendingSyncLabel: 'Waiting to sync',
+    shiftConfirmQueuedTitle: 'Saved offline',
+    shiftConfirmQueuedBody:
+      'Your confirmation is saved on this device and will be sent automatically once you are back online.',
+    statusDeclined: 'Declined',
+    statusTentative: 'Tentative',
+    shiftDeclineAction: 'Can\'t make it',
+    shiftDeclineTitle: 'Can\'t make this shift?',
+    shiftDeclineSubtitle: 'Let your planner know why so they can find cover in time.',
+    shiftDeclineStatusDeclined: 'Can\'t make it',
+    shiftDeclineStatusTentative: 'Not sure yet',
+    shiftDeclineReasonLabel: 'Reason',
+    shiftDeclineReasonIllness: 'Illness',
+    shiftDeclineReasonScheduleConflict: 'Schedule conflict',
+    shiftDeclineReasonTransport: 'Transport',
+    shiftDeclineReasonPersonal: 'Personal',
+    shiftDeclineReasonOther: 'Other',
+    shiftDeclineNoteLabel: 'Details',
+    shiftDeclineNotePlaceholder: 'Anything your planner should know (optional)',
+    shiftDeclineReasonRequired: 'Choose a reason.',
+    shiftDeclineNoteRequired: 'Add a few details when you choose Other.',
+    shiftDeclineNoteTooLong: 'Details can be at most {max} characters.',
+    shiftDeclineSubmit: 'Send answer',
+    shiftDeclineFailedTitle: 'Answer not sent',
+    shiftDeclineFailedBody: 'Your answer could not be saved. Check your connection and try again.',
+    shiftDeclinedLabel: 'Declined · {reason}',
+    shiftTentativeLabel: 'Tentative · {reason}',
+    shiftResponseHeading: 'Your answer',
+    shiftConfirmDeadlineBadge: 'Confirm within {time}',
+    shiftConfirmDeadlineOverdue: 'Confirmation overdue',
+    shiftConfirmDeadlineNotice: '{count} shifts need confirmation · next deadline in {time}',
+    shiftConfirmDeadlineNoticeOverdue: '{count} shifts need confirmation · a deadline has passed',
+    shiftConfirmReminderGentleTitle: 'Please confirm your shift',
+    shiftConfirmReminderFirmTitle: 'Shift confirmation due soon',
+    shiftConfirmReminderFinalTitle: 'Last call: confirm your shift',
+    shiftConfirmReminderBody: '{shift} on {start} — please confirm by {deadline}.',
+    shiftConflictOverlap: 'Overlaps {shift}',
+    shiftConflictRestBefore: 'Only {rest} rest before {shift} (minimum {min})',
+    shiftConflictRestAfter: 'Only {rest} rest after {shift} (minimum {min})',
+    shiftConflictVacation: 'Falls into your approved vacation ({range})',
+    shiftConflictConfirmTitle: 'Check this before confirming',
+    shiftConflictConfirmBody: 'Please flag these conflicts to your planner before you accept.',
+    shiftConflictConfirmAnyway: 'Confirm anyway',
+    openShiftsTitle: 'Open shifts',
+    openShiftsHint: 'Unassigned shifts at your company. Claim one and a planner will confirm it.',
+    openShiftsLoading: 'Loading open shifts…',
+    openShiftsLoadFailed: 'Open shifts could not be loaded.',
+    openShiftsEmpty: 'There are no open shifts right now.',
+    openShiftsFilteredEmpty: 'No open shifts match these filters.',
+    openShiftsNotLinked: 'Link your account to a company to see its open shifts.',
+    openShiftsFilterAll: 'All',
+    openShiftsFilterQualification: 'Qualification',
+    openShiftsFilterSite: 'Site',
+    openShiftsFilterDay: 'Day',
+    openShiftsRequires: 'Requires: {qualifications}',
+    openShiftsNotQualified: 'You lack a required qualification',
+    openShiftsClaimAction: 'Claim shift',
+    openShiftsClaimConfirmTitle: 'Claim this shift?',
+    openShiftsClaimConfirmBody:
+      'A planner reviews your claim. The shift appears in your feed once it is approved.',
+    openShiftsClaimPending: 'Claim pending approval',
+    openShiftsClaimRejected: 'Your last claim for this shift was declined.',
+    openShiftsClaimSentTitle: 'Claim sent',
+    openShiftsClaimSentBody: 'We\'ll notify you when a planner approves or declines your claim.',
+    openShiftsClaimFailedTitle: 'Shift not claimed',
+    openShiftsClaimFailedBody: 'The claim could not be sent. Please try again.',
+    openShiftsClaimAlreadyClaimed: 'You have already claimed this shift.',
+    openShiftsClaimAlreadyAssigned: 'You are already assigned to this shift.',
+    openShiftsClaimNotOpen: 'This shift is no longer open.',
+    openShiftsClaimNotQualified: 'You don\'t have all qualifications this shift requires.',
+    openShiftsWithdrawAction: 'Withdraw claim',
+    openShiftsWithdrawFailedTitle: 'Claim not withdrawn',
+    openShiftsWithdrawAlreadyReviewed: 'A planner has already reviewed this claim.',
+    openShiftsPendingClaimsNotice: '{count} open-shift claims are waiting for approval.',
+    notificationShiftClaimApproved: 'Shift claim approved',
+    notificationShiftClaimApprovedDetail: 'The open shift you claimed is now yours.',
+    notificationShiftClaimRejected: 'Shift claim declined',
+    notificationShiftClaimRejectedDetail: 'A planner declined your claim for an open shift.',
+    shiftDetailsHeading: 'Shift details',
+    shiftRoleLabel: 'Role',
+    shiftBreaksLabel: 'Breaks',
+    shiftBreakMinutes: '{minutes} min',
+    shiftBreakPaid: 'paid',
+    shiftQualificationsLabel: 'Required qualifications',
+    shiftDressCodeLabel: 'Dress code',
+    shiftPayLabel: 'Pay',
+    shiftPayHourly: '{amount} per hour',
+    shiftPremiumPercent: '{label}: +{percent}%',
+    shiftPremiumAmount: '{label}: +{amount}',
+    shiftFilesHeading: 'Files',
+    shiftAttachmentBriefing: 'Briefing',
+    shiftAttachmentFloorPlan: 'Floor plan',
+    shiftAttachmentOther: 'File',
+    shiftAttachmentUnavailable: 'This file is not available right now.',
+    shiftSeriesLabel: 'Repeats',
+    shiftSeriesWeekly: 'Every {days} {time}',
+    shiftSeriesEveryNWeeks: 'Every {interval} weeks on {days} {time}',
+    shiftSeriesDaily: 'Daily {time}',
+    shiftSeriesUntil: '{summary} until {until}',
+    shiftSeriesConfirmTitle: 'Confirm the whole series?',
+    shiftSeriesDeclineTitle: 'Decline the whole series?',
+    shiftSeriesScopeBody:
+      '{summary}\n\n{count} upcoming shifts in this series are still waiting for your answer.',
+    shiftSeriesScopeSingle: 'Only this shift',
+    shiftSeriesScopeAll: 'All {count} shifts',
+    shiftSeriesDeclinePartialBody:
+      '{declined} of {total} shifts were declined. Please try the remaining shifts again.',
+    shiftChangeHistoryHeading: 'Change history',
+    shiftChangeOriginalTitle: 'Originally published',
+    shiftChangePublished: 'Published',
+    shiftChangeUpdated: 'Changed',
+    shiftChangeRecordedOnDevice: 'recorded on this device',
+    shiftChangeValueEmpty: 'none',
+    shiftChangeFieldStart: 'Start',
+    shiftChangeFieldEnd: 'End',
+    shiftChangeFieldSite: 'Site',
+    shiftChangeFieldLocation: 'Address',
+    shiftChangeFieldDescription: 'Description',
+    shiftRosterHeading: 'Team on this shift',
+    shiftRosterYou: 'You',
+    shiftRosterLead: 'Shift lead',
+    shiftRosterNoRole: 'No role assigned',
+    shiftRosterUnnamed: 'Co-worker',
+    shiftRosterEmpty: 'You\'re the only one assigned to this shift so far.',
+    shiftRosterMessageLabel: 'Message',
+    shiftRosterPrivacyTitle: 'Your visibility to co-workers',
+    shiftRosterShareContact: 'Share my phone and email with my shift teams',
+    shiftRosterShowLastName: 'Show my last name',
+    shiftRosterPrivacyHint:
+      'Co-workers on your shifts always see your first name and role. These settings apply to all your shifts.',
+    shiftRosterPrivacyFailed: 'Your visibility settings could not be saved. Please try again.',
+    shiftHandoverHeading: 'Handover notes',
+    shiftHandoverFrom: 'From {name} · {time}',
+    shiftHandoverYourNotes: 'Your notes for the next shift',
+    shiftHandoverNotReadYet: 'Not read yet',
+    shiftHandoverReadBy: 'Read by {name} at {time}',
+    shiftHandoverNoNextShift: 'No next shift is planned yet. The note will be shown once one is.',
+    shiftHandoverSheetTitle: 'Handover note',
+    shiftHandoverSheetSubtitle: 'Leave a note for whoever works the next shift at this site.',
+    shiftHandoverNotePlaceholder: 'e.g. Side gate lock is sticking, keys are at reception',
+    shiftHandoverNoteRequired: 'Write a note or skip this step.',
+    shiftHandoverNoteTooLong: 'Keep the note under {max} characters.',
+    shiftHandoverSubmit: 'Save note',
+    shiftHandoverSkip: 'Skip',
+    shiftHandoverSubmitFailed: 'The handover note could not be saved. Please try again.',
+    shiftHandoverLeaveNote: 'Leave handover note',
+    notificationHandoverNote: 'New handover note',
+    notificationHandoverNoteFrom: 'Handover note from {name}',
+    shiftChecklistHeading: 'Site checklist',
+    shiftChecklistProgress: '{done} of {total} tasks done',
+    shiftChecklistRequiredOpen: '{count} required open',
+    shiftChecklistPendingSubmit: 'Saved on this device. It will be submitted once you are back online.',
+    shiftChecklistSubmittedAt: 'Submitted at {time}',
+    shiftChecklistLiveOnly: 'Tasks can be ticked off while the shift is live.',
+    shiftChecklistRequired: 'Required',
+    shiftChecklistOptional: 'Optional',
+    shiftChecklistPhotoNeeded: 'Add a photo as proof to complete this task.',
+    shiftChecklistAddPhoto: 'Add photo proof',
+    shiftChecklistRetakePhoto: 'Retake photo',
+    shiftChecklistCameraDenied: 'Allow camera access to add photo proof.',
+    shiftChecklistClockOutMissing:
+      '{count} required checklist tasks are still open. Your checklist is submitted as it is when you clock out.',
+    incidentHeading: 'Incidents',
+    incidentReportAction: 'Report incident',
+    incidentSubmittedMessage: 'Your report was sent to your supervisor.',
+    incidentQueuedMessage:
+      'You\'re offline. The report is saved on this device and will be sent automatically.',
+    incidentSubmitFailed: 'The report could not be saved. Please try again.',
+    incidentSheetTitle: 'Report an incident',
+    incidentSheetSubtitle: 'Describe what happened. Photos help your supervisor assess the damage.',
+    incidentCategoryLabel: 'Category',
+    incidentSeverityLabel: 'Severity',
+    incidentOccurredLabel: 'When did it happen?',
+    incidentDescriptionLabel: 'What happened?',
+    incidentDescriptionPlaceholder: 'e.g. Window at the side entrance is broken',
+    incidentLocationLabel: 'Location on site (optional)',
+    incidentLocationPlaceholder: 'e.g. Loading bay 3',
+    incidentPhotosLabel: 'Photos ({count}/{max})',
+    incidentRemovePhoto: 'Remove photo',
+    incidentTakePhoto: 'Take photo',
+    incidentChoosePhoto: 'Choose photo',
+    incidentPhotoPermissionDenied: 'Allow camera or photo access to attach pictures.',
+    incidentSubmit: 'Submit report',
+    incidentDescriptionRequired: 'Please describe what happened.',
+    incidentDescriptionTooLong: 'Please keep the description under {max} characters.',
+    incidentTooManyPhotos: 'You can attach up to {max} photos.',
+    incidentCategoryDamage: 'Damage',
+    incidentCategoryInjury: 'Injury',
+    incidentCategorySecurity: 'Security',
+    incidentCategorySafetyHazard: 'Safety hazard',
+    incidentCategoryTheft: 'Theft',
+    incidentCategoryOther: 'Other',
+    incidentSeverityLow: 'Low',
+    incidentSeverityMedium: 'Medium',
+    incidentSeverityHigh: 'High',
+    incidentSeverityCritical: 'Critical',
+    incidentOccurredNow: 'Just now',
+    incidentOccurred15Minutes: '15 min ago',
+    incidentOccurred30Minutes: '30 min ago',
+    incidentOccurred1Hour: '1 hour ago',
+    incidentStatusOpen: 'Sent',
+    incidentStatusAcknowledged: 'Seen by supervisor',
+    incidentStatusResolved: 'Resolved',
+    incidentStatusQueued: 'Waiting to upload',
+    incidentStatusRejected: 'Not accepted',
+    incidentDiscard: 'Discard',
+    incidentPhotoCount: '{count} photos',
+    shiftSyncPendingNotice: '{count} confirmations are waiting to sync.',
+    shiftSyncConflictTitle: 'Some confirmations were not applied',
+    shiftSyncConflictBody:
+      '{count} shifts changed while you were offline, so your confirmation was not sent. Please review them again.',
+    shiftSyncFailedBody:
+      '{count} confirmations could not be sent after several attempts. Please confirm those shifts again.',
     confirmAllShifts: 'Confirm all ({count})',
     confirmAllShiftsShort: 'Confirm all',
     confirmAllPendingCount: '{count} pending confirmations',
@@ -80,6 +294,12 @@ export const enTranslations = {
       '{successCount} shifts were confirmed, but {failedCount} failed. Please try again.',
     confirmAllShiftsResultFailureBody:
       'We could not confirm your shifts right now. Please try again.',
+    confirmAllShiftsResultQueuedBody:
+      '{count} shifts were saved offline and will be confirmed once you are back online.',
+    confirmAllShiftsFailedItem: '• {shift}, {date}: {reason}',
+    confirmAllShiftsReasonNotFound: 'no longer assigned to you',
+    confirmAllShiftsReasonNotPublished: 'changed by your planner',
+    confirmAllShiftsReasonFailed: 'could not be saved',
     phasePast: 'Past shift',
     phaseLive: 'Live now',
     phaseUpcoming: 'Upcoming',
@@ -100,6 +320,7 @@ export const enTranslations = {
     dashboardClockOutAction: 'Clock out',
     dashboardViewShiftsAction: 'View shifts',
     dashboardOpenCalendarAction: 'Open calendar',
+    dashboardOpenShiftsAction: 'Open shifts',
     dashboardUploadDocumentAction: 'Upload document',
     dashboardRequestVacationAction: 'Request vacation',
     dashboardContactSupportAction: 'Contact support',
@@ -148,6 +369,8 @@ export const enTranslations = {
     accountSnapshot: 'Account snapshot',
     accountMonthlyHoursTitle: 'Monthly worked hours',
     accountMonthlyHoursWorked: 'Worked',
+    accountMonthlyHoursNeedsApproval: 'Needs approval',
+    accountMonthlyHoursBreak: 'Break {duration}',
     accountMonthlyHoursPlanned: 'Planned',
     accountMonthlyHoursBalance: 'Ahead / behind',
     accountMonthlyHoursShiftCount: '{count} shifts',
@@ -178,6 +401,9 @@ export const enTranslations = {
     accountMonthlyHoursStatusScheduled: 'Scheduled',
     accountCertificateOfSickness: 'Documents',
     accountVacationRequests: 'Vacation requests',
+    accountQrDisplay: 'Show clock-in QR code',
+    accountKioskMode: 'Kiosk mode',
+    accountKioskBadge: 'Clock-in badge',
     accountAvailability: 'Availability',
     certificateOfSicknessTitle: 'Employee documents',
     certificateOfSicknessHint:
@@ -472,6 +698,9 @@ export const enTranslations = {
     calendarSettingsSubtitle: 'Manage sync and external calendar connections.',
     calendarSettingsGroupInApp: 'In app',
     calendarSettingsGroupExternal: 'External calendars',
+    calendarSettingsGroupTime: 'Shift times',
+    timeDisplaySite: 'Show site time',
+    timeDisplayDevice: 'Show device time',
     notificationBellLabel: 'Notifications',
     toolsSectionTitle: 'Tools',
     notificationsPanelTitle: 'Notifications',
@@ -773,6 +1002,152 @@ export const enTranslations = {
     qrClockInMissingApiBaseUrl: 'Missing API base URL. Set API_BASE_URL in the app environment.',
     qrClockInSessionRequired: 'Your session expired. Please login again.',
     qrClockInSubmitFailed: 'Unable to complete QR clock-in right now.',
+    qrClockInLocationTitle: 'Location check',
+    qrClockInLocationDenied:
+      'Clocking in at this site needs your location. Allow location access in the system settings and scan again.',
+    qrClockInLocationInaccurate:
+      'Your location is too imprecise to confirm you are on site. Move closer to a window or outside and scan again.',
+    qrClockInOutsideGeofence:
+      'You seem to be about {distance} away from the site. Clock in once you are on site.',
+    qrClockInOutsideGeofenceServer: 'Your location is outside the site area. Clock in once you are on site.',
+    qrClockInTokenMalformed: 'This QR code is damaged or is not a Shiftor clock-in code.',
+    qrClockInTokenForged:
+      'This QR code was not issued by your company. Ask your supervisor for a valid code.',
+    qrClockInTokenExpired: 'This QR code expired at {time}. Ask your supervisor for a current code.',
+    qrClockInTokenNotYetValid: 'This QR code is only valid from {time}. Scan it again then.',
+    qrDisplayTitle: 'Clock-in QR code',
+    qrDisplayDescription:
+      'Employees scan this code with the app to clock in or out. It changes every few seconds, so photos of it stop working.',
+    qrDisplayLoading: 'Loading sites…',
+    qrDisplayUnavailable: 'The clock-in code could not be loaded.',
+    qrDisplayEmpty: 'You are not set up to show a clock-in code for any site.',
+    qrDisplayRotatesIn: 'New code in {seconds} s',
+    qrBreakTitle: 'Break',
+    qrBreakStartAction: 'Start break',
+    qrBreakEndAction: 'End break',
+    qrBreakRunning: 'On break since {time}',
+    qrBreakTotal: 'Breaks this shift: {duration}',
+    qrPresenceToday: 'Today: {events}',
+    qrPresenceClockIn: 'in {time}',
+    qrPresenceClockOut: 'out {time}',
+    qrBreakStartedMessage: 'Break started. Scan the site code or tap "End break" when you are back.',
+    qrBreakEndedMessage: 'Break ended after {duration}.',
+    qrBreakResultAlreadyRecorded: 'This break was already recorded.',
+    qrBreakResultAlreadyOnBreak: 'A break is already running.',
+    qrBreakResultNotOnBreak: 'No break is running.',
+    qrBreakResultNotAssigned: 'You are not assigned to this shift.',
+    qrBreakResultNotFound: 'This shift no longer exists.',
+    qrBreakResultOutsideShift: 'Breaks can only be recorded during the shift.',
+    qrBreakResultInvalid: 'The break could not be recorded.',
+    qrBreakOffline: 'Breaks can only be recorded online. Try again once you have a connection.',
+    qrBreakFailed: 'The break could not be recorded. Please try again.',
+    kioskTitle: 'Kiosk mode',
+    kioskSetupDescription:
+      'Turn this device into a shared clock-in terminal for a site. Employees check in and out with their badge or PIN; nobody signs in on the device.',
+    kioskSetupUnavailable: 'Kiosk sites could not be loaded.',
+    kioskSetupEmpty: 'You are not set up to run a kiosk for any site.',
+    kioskSetupObject: 'Site',
+    kioskSetupExitPin: 'Exit PIN',
+    kioskSetupExitPinHint: '4 to 6 digits. Needed to leave kiosk mode on this device.',
+    kioskSetupInvalidPin: 'Enter a PIN with 4 to 6 digits.',
+    kioskSetupStart: 'Start kiosk',
+    kioskScanPrompt: 'Hold your badge up to the camera',
+    kioskUsePin: 'Use PIN instead',
+    kioskChooseName: 'Choose your name',
+    kioskNoEmployees: 'Nobody is scheduled at this site right now.',
+    kioskEnterPin: 'Enter your PIN, {name}',
+    kioskSubmitPin: 'Confirm',
+    kioskClockInSuccess: 'Welcome, {name}! You are checked in.',
+    kioskClockOutSuccess: 'Goodbye, {name}! Worked time: {duration}.',
+    kioskResetIn: 'Ready for the next person in {seconds} s',
+    kioskErrorNotBadge: 'This is not a clock-in badge. Open Account → Clock-in badge in your app.',
+    kioskErrorUnknownBadge: 'This badge is no longer valid. Show the current one from your app.',
+    kioskErrorNoPin: 'You have not set a PIN yet. Set one under Account → Clock-in badge.',
+    kioskErrorWrongPin: 'Wrong PIN.',
+    kioskErrorPinLocked: 'Too many wrong PINs. Try again later or use your badge.',
+    kioskErrorRateLimited:
+      'PIN entry is paused on this kiosk after too many wrong PINs. Please use your badge.',
+    kioskErrorNotScheduled: 'You have no shift at this site right now.',
+    kioskErrorNotOperator: 'This device may no longer run a kiosk for this site.',
+    kioskErrorOffline: 'No connection. Please try again in a moment.',
+    kioskErrorFailed: 'Check-in failed. Please try again.',
+    kioskActivityTitle: 'Recent activity',
+    kioskActivityEmpty: 'No check-ins yet.',
+    kioskActivityClockIn: '{name} checked in',
+    kioskActivityClockOut: '{name} checked out',
+    kioskActivityRejected: 'Refused: {reason}',
+    kioskExit: 'Exit kiosk',
+    kioskExitPrompt: 'Enter the exit PIN to leave kiosk mode.',
+    kioskExitWrongPin: 'Wrong exit PIN.',
+    kioskExitLocked: 'Too many wrong exit PINs. Try again in {seconds} s.',
+    kioskBadgeTitle: 'Clock-in badge',
+    kioskBadgeDescription:
+      'Show this code at a site kiosk to check in or out. It is personal, so do not share it.',
+    kioskBadgeLoading: 'Loading badge…',
+    kioskBadgeUnavailable: 'Your badge could not be loaded.',
+    kioskBadgeRenew: 'Issue new badge',
+    kioskBadgeRenewConfirm: 'Your current badge will stop working, including screenshots of it.',
+    kioskBadgePinTitle: 'Kiosk PIN',
+    kioskBadgePinDescription: 'Without your phone, pick your name at the kiosk and enter this PIN.',
+    kioskBadgePinSet: 'A PIN is set. Saving a new one replaces it.',
+    kioskBadgePinNotSet: 'No PIN set yet.',
+    kioskBadgePinPlaceholder: 'New PIN (4–6 digits)',
+    kioskBadgePinSave: 'Save PIN',
+    kioskBadgePinSaved: 'Your PIN was saved.',
+    kioskBadgePinFailed: 'The PIN could not be saved. Please try again.',
+    qrScanStatusReadyBreakBody: 'You are on a break. Scan the site code to end it.',
+    qrScanStatusQueuedTitle: 'Waiting to sync',
+    qrScanStatusQueuedBody: 'Your scan is saved on this device and will be sent when you are back online.',
+    qrClockQueuedTitle: 'Saved offline',
+    qrClockQueuedMessage:
+      'No connection. {event} is saved with the scan time and will be sent automatically once you are back online.',
+    qrClockQueuedBehindMessage:
+      'Earlier scans are still waiting to sync. {event} is queued behind them and will be sent in order.',
+    qrClockQueuePendingTitle: '{count} scans waiting to sync',
+    qrClockQueueClockInAt: 'Clock-in at {time} · {shift}',
+    qrClockQueueClockOutAt: 'Clock-out at {time} · {shift}',
+    qrClockQueueUnknownShift: 'Scanned shift',
+    qrClockQueueRejectedTitle: 'Scan not accepted',
+    qrClockQueueRejectedMessage: '{count} offline scans were not accepted. Open the scanner to review them.',
+    qrClockQueueRejectedEvent: '{event} was not accepted: {reason}',
+    qrClockQueueDiscard: 'Dismiss',
+    manualClockQrMissingLink: 'QR code missing or damaged?',
+    manualClockOpenAction: 'Clock in manually',
+    manualClockSheetTitle: 'Manual clock-in',
+    manualClockSheetSubtitle:
+      'Use this only when the site QR code cannot be scanned. Your supervisor has to approve the entry.',
+    manualClockShiftLabel: 'Shift',
+    manualClockActionLabel: 'Action',
+    manualClockActionClockIn: 'Clock in',
+    manualClockActionClockOut: 'Clock out',
+    manualClockReasonLabel: 'Reason',
+    manualClockReasonQrMissing: 'QR code missing',
+    manualClockReasonQrDamaged: 'QR code damaged',
+    manualClockReasonScannerFailed: 'Scanner not working',
+    manualClockReasonOther: 'Other',
+    manualClockNoteLabel: 'Note',
+    manualClockNotePlaceholder: 'Anything your supervisor should know',
+    manualClockNoteRequired: 'Please describe what happened.',
+    manualClockNoteTooLong: 'Keep the note under {max} characters.',
+    manualClockPhotoLabel: 'Photo (optional)',
+    manualClockPhotoHint: 'For example the damaged or missing QR code.',
+    manualClockTakePhoto: 'Take photo',
+    manualClockRemovePhoto: 'Remove photo',
+    manualClockPhotoPermissionDenied: 'Allow camera access to attach a photo.',
+    manualClockLocationLabel: 'Share my location',
+    manualClockLocationHint: 'Helps your supervisor confirm you were on site.',
+    manualClockLocationMissing: 'Your location could not be determined, so the request was sent without it.',
+    manualClockSubmit: 'Send for approval',
+    manualClockNoShifts: 'There is no shift you can clock in or out of right now.',
+    manualClockRequestedTitle: 'Sent for approval',
+    manualClockRequestedMessage:
+      'Your supervisor will review the entry. It shows as needing approval in your monthly hours until then.',
+    manualClockNotAssigned: 'You are not assigned to this shift.',
+    manualClockNotFound: 'This shift no longer exists.',
+    manualClockOutsideWindow:
+      'Manual entries are only possible up to 2 hours before the shift starts or after it ends.',
+    manualClockOffline: 'You are offline. Connect to the internet and try again.',
+    manualClockSubmitFailed: 'Could not send the request. Please try again.',
     qrClockInSuccessTitle: 'Clocked in',
     qrClockInSuccessMessage: 'Clock-in recorded. Opening shift details now.',
     qrClockOutSuccessTitle: 'Clocked out',
@@ -0,0 +1,122 @@
+/**
+ * Ed25519 signature verification (RFC 8032) in plain TypeScript. Hermes has no
+ * WebCrypto, and verification needs nothing secret, so a small BigInt version
+ * is enough for checking a QR token now and then.
+ */
+
+import { sha512 } from './sha512';
+
+const FIELD_PRIME = (1n << 255n) - 19n;
+const GROUP_ORDER = (1n << 252n) + 27742317777372353535851937790883648493n;
+
+const mod = (value: bigint, modulus = FIELD_PRIME) => {
+  const result = value % modulus;
+  return result >= 0n ? result : result + modulus;
+};
+
+const modPow = (base: bigint, exponent: bigint) => {
+  let result = 1n;
+  let current = mod(base);
+  let remaining = exponent;
+  while (remaining > 0n) {
+    if (remaining & 1n) result = mod(result * current);
+    current = mod(current * current);
+    remaining >>= 1n;
+  }
+  return result;
+};
+
+const invert = (value: bigint) => modPow(value, FIELD_PRIME - 2n);
+
+const CURVE_D = mod(-121665n * invert(121666n));
+const SQRT_MINUS_ONE = modPow(2n, (FIELD_PRIME - 1n) / 4n);
+
+/** Extended coordinates (X, Y, Z, T) with x = X/Z, y = Y/Z and xy = T/Z. */
+type Point = { x: bigint; y: bigint; z: bigint; t: bigint };
+
+const IDENTITY: Point = { x: 0n, y: 1n, z: 1n, t: 0n };
+
+const addPoints = (p: Point, q: Point): Point => {
+  const a = mod((p.y - p.x) * (q.y - q.x));
+  const b = mod((p.y + p.x) * (q.y + q.x));
+  const c = mod(2n * CURVE_D * p.t * q.t);
+  const d = mod(2n * p.z * q.z);
+  const e = b - a;
+  const f = d - c;
+  const g = d + c;
+  const h = b + a;
+  return { x: mod(e * f), y: mod(g * h), z: mod(f * g), t: mod(e * h) };
+};
+
+const multiplyPoint = (point: Point, scalar: bigint): Point => {
+  let result = IDENTITY;
+  let addend = point;
+  let remaining = scalar;
+  while (remaining > 0n) {
+    if (remaining & 1n) result = addPoints(result, addend);
+    addend = addPoints(addend, addend);
+    remaining >>= 1n;
+  }
+  return result;
+};
+
+const pointsEqual = (p: Point, q: Point) =>
+  mod(p.x * q.z) === mod(q.x * p.z) && mod(p.y * q.z) === mod(q.y * p.z);
+
+const readLittleEndian = (bytes: Uint8Array) => {
+  let value = 0n;
+  for (let index = bytes.length - 1; index >= 0; index -= 1) {
+    value = (value << 8n) | BigInt(bytes[index]);
+  }
+  return value;
+};
+
+const decodePoint = (bytes: Uint8Array): Point | null => {
+  if (bytes.length !== 32) return null;
+  const copy = Uint8Array.from(bytes);
+  const xSign = copy[31] >> 7;
+  copy[31] &= 0x7f;
+  const y = readLittleEndian(copy);
+  if (y >= FIELD_PRIME) return null;
+
+  const ySquared = mod(y * y);
+  const u = mod(ySquared - 1n);
+  const v = mod(CURVE_D * ySquared + 1n);
+  let x = mod(u * modPow(v, 3n) * modPow(u * modPow(v, 7n), (FIELD_PRIME - 5n) / 8n));
+  const check = mod(v * x * x);
+  if (check === mod(-u)) {
+    x = mod(x * SQRT_MINUS_ONE);
+  } else if (check !== u) {
+    return null;
+  }
+  if (x === 0n && xSign === 1) return null;
+  if (Number(x & 1n) !== xSign) x = FIELD_PRIME - x;
+  return { x, y, z: 1n, t: mod(x * y) };
+};
+
+const BASE_POINT = decodePoint(
+  Uint8Array.from([
+    0x58, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66,
+    0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66,
+  ])
+) as Point;
+
+/** True when `signature` is a valid Ed25519 signature of `message` by `publicKey`. */
+export const verifyEd25519 = (signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array) => {
+  if (signature.length !== 64 || publicKey.length !== 32) return false;
+  const publicPoint = decodePoint(publicKey);
+  const commitment = decodePoint(signature.subarray(0, 32));
+  const scalar = readLittleEndian(signature.subarray(32));
+  if (!publicPoint || !commitment || scalar >= GROUP_ORDER) return false;
+
+  const hashInput = new Uint8Array(64 + message.length);
+  hashInput.set(signature.subarray(0, 32));
+  hashInput.set(publicKey, 32);
+  hashInput.set(message, 64);
+  const challenge = mod(readLittleEndian(sha512(hashInput)), GROUP_ORDER);
+
+  return pointsEqual(
+    multiplyPoint(BASE_POINT, scalar),
+    addPoints(commitment, multiplyPoint(publicPoint, challenge))
+  );
+};
@@ -0,0 +1,2 @@
+/** A non-blank string, trimmed; anything else reads as missing. */
+export const readString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
@@ -1,16 +1,50 @@
 import type { Shift } from '@features/shifts/shiftMapping';
+import { verifyEd25519 } from './ed25519';
 
 type ParsedQrPayload = {
   shiftId?: string;
   assignmentId?: string;
+  /** Set by rotating v3 codes, which name the site rather than a shift. */
+  objectId?: string;
 };
 
+/** A company's QR signing key: raw Ed25519 public key, base64url encoded. */
+export type QrSigningKey = {
+  kid?: string;
+  publicKey: string;
+};
+
+/**
+ * Device-side check of a signed `SHIFTOR_QR_CLOCK_IN:` token. Only the
+ * rejections are final; `unsigned`, `unverified` and `rotating` codes go to
+ * the server, which checks them anyway.
+ */
+export type SignedQrTokenCheck =
+  | { status: 'unsigned' }
+  | { status: 'valid' }
+  | { status: 'rotating' }
+  | { status: 'unverified' }
+  | { status: 'malformed' }
+  | { status: 'unknown-key' }
+  | { status: 'invalid-signature' }
+  | { status: 'expired'; expiredAt: string }
+  | { status: 'not-yet-valid'; validFrom: string };
+
+/** Tolerance for device clocks running slightly off when checking `exp` and `nbf`. */
+export const QR_TOKEN_CLOCK_SKEW_MS = 60 * 1000;
+
+/** Rotating codes carry the first 32 bytes of an HMAC-SHA-512. */
+export const ROTATING_QR_SIGNATURE_LENGTH = 32;
+
+const ED25519_SIGNATURE_LENGTH = 64;
 const SHIFTOR_QR_CLOCK_IN_PREFIX = 'SHIFTOR_QR_CLOCK_IN:';
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
 
 const compactPayload = (payload: ParsedQrPayload): ParsedQrPayload => {
   const next: ParsedQrPayload = {};
   if (payload.shiftId) next.shiftId = payload.shiftId;
   if (payload.assignmentId) next.assignmentId = payload.assignmentId;
+  if (payload.objectId) next.objectId = payload.objectId;
   return next;
 };
 
@@ -98,6 +132,42 @@ const decodeBase64UrlValue = (value: string): string | null => {
   }
 };
 
+/** Decodes base64 or base64url without relying on `atob` or `Buffer`. */
+export const decodeBase64UrlBytes = (value: string): Uint8Array | null => {
+  const normalized = value.trim().replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (normalized.length % 4 === 1) return null;
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bufferedBits = 0;
+  for (const character of normalized) {
+    const index = BASE64_ALPHABET.indexOf(character);
+    if (index < 0) return null;
+    buffer = ((buffer << 6) | index) & 0xffffff;
+    bufferedBits += 6;
+    if (bufferedBits >= 8) {
+      bufferedBits -= 8;
+      bytes.push((buffer >> bufferedBits) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+/** Unpadded base64url, the encoding used by every part of a clock-in token. */
+export const encodeBase64UrlBytes = (bytes: Uint8Array): string => {
+  let encoded = '';
+  for (let offset = 0; offset < bytes.length; offset += 3) {
+    const chunk = (bytes[offset] << 16) | ((bytes[offset + 1] ?? 0) << 8) | (bytes[offset + 2] ?? 0);
+    const characters = Math.min(4, Math.ceil(((bytes.length - offset) * 8) / 6));
+    for (let index = 0; index < characters; index += 1) {
+      encoded += BASE64_ALPHABET[(chunk >> (18 - index * 6)) & 0x3f];
+    }
+  }
+  return encoded.replace(/\+/g, '-').replace(/\//g, '_');
+};
+
+const readNumericDate = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value * 1000 : undefined;
+
 const readSignedShiftorPayload = (rawValue: string): ParsedQrPayload | null => {
   if (!rawValue.startsWith(SHIFTOR_QR_CLOCK_IN_PREFIX)) {
     return null;
@@ -117,6 +187,9 @@ const readSignedShiftorPayload = (rawValue: string): ParsedQrPayload | null => {
   try {
     const parsed = JSON.parse(decodedPayload) as Record<string, unknown>;
     const version = parsed.v;
+    if (version === 3) {
+      return compactPayload({ objectId: normalizeToken(parsed.objectId ?? parsed.object_id) });
+    }
     if (version !== 2) {
       return {};
     }
@@ -129,12 +202,100 @@ const readSignedShiftorPayload = (rawValue: string): ParsedQrPayload | null => {
   }
 };
 
+/**
+ * Verifies a signed clock-in token: an Ed25519 signature over the encoded
+ * payload, by the key named in `kid` (or any company key when absent), and the
+ * `nbf`/`exp` claims in seconds. Without keys only the claims are checked,
+ * whatever the signature scheme. Printed v2 codes without a signature pass as
+ * unsigned unless they name a `kid` the company keys should have signed.
+ * Rotating v3 codes carry an HMAC only the server and the display know, so
+ * for them only the claims are checked.
+ */
+export const checkSignedQrClockInCode = (
+  rawValue: string,
+  keys: QrSigningKey[] | null,
+  now = new Date()
+): SignedQrTokenCheck => {
+  const normalized = rawValue.trim();
+  if (!normalized.startsWith(SHIFTOR_QR_CLOCK_IN_PREFIX)) {
+    return { status: 'unsigned' };
+  }
+
+  const [encodedPayload, encodedSignature, ...extra] = normalized
+    .slice(SHIFTOR_QR_CLOCK_IN_PREFIX.length)
+    .trim()
+    .split('.');
+  const decodedPayload = encodedPayload ? decodeBase64UrlValue(encodedPayload) : null;
+  const signature = encodedSignature ? decodeBase64UrlBytes(encodedSignature) : null;
+  if (!decodedPayload || (encodedSignature && !signature) || extra.length) {
+    return { status: 'malformed' };
+  }
+
+  let claims: Record<string, unknown>;
+  try {
+    claims = JSON.parse(decodedPayload) as Record<string, unknown>;
+  } catch {
+    return { status: 'malformed' };
+  }
+  if (!claims || typeof claims !== 'object') {
+    return { status: 'malformed' };
+  }
+  const isRotating = claims.v === 3;
+  if (isRotating) {
+    if (
+      signature?.length !== ROTATING_QR_SIGNATURE_LENGTH ||
+      !normalizeToken(claims.objectId) ||
+      readNumericDate(claims.exp) === undefined
+    ) {
+      return { status: 'malformed' };
+    }
+  } else if (claims.v !== 2 || (signature && keys?.length && signature.length !== ED25519_SIGNATURE_LENGTH)) {
+    return { status: 'malformed' };
+  }
+
+  const kid = normalizeToken(claims.kid);
+  if (keys?.length && !isRotating && (signature || kid)) {
+    const candidates = kid ? keys.filter((key) => key.kid === kid) : keys;
+    if (!candidates.length) {
+      return { status: 'unknown-key' };
+    }
+    if (!signature) {
+      return { status: 'invalid-signature' };
+    }
+    const message = Uint8Array.from(encodedPayload, (character) => character.charCodeAt(0));
+    const isSigned = candidates.some((key) => {
+      const publicKey = decodeBase64UrlBytes(key.publicKey);
+      return Boolean(publicKey) && verifyEd25519(signature, message, publicKey as Uint8Array);
+    });
+    if (!isSigned) {
+      return { status: 'invalid-signature' };
+    }
+  }
+
+  const validFrom = readNumericDate(claims.nbf);
+  if (validFrom !== undefined && now.getTime() + QR_TOKEN_CLOCK_SKEW_MS < validFrom) {
+    return { status: 'not-yet-valid', validFrom: new Date(validFrom).toISOString() };
+  }
+  const expiresAt = readNumericDate(claims.exp);
+  if (expiresAt !== undefined && now.getTime() - QR_TOKEN_CLOCK_SKEW_MS >= expiresAt) {
+    return { status: 'expired', expiredAt: new Date(expiresAt).toISOString() };
+  }
+
+  if (isRotating) {
+    return { status: 'rotating' };
+  }
+  if (!signature && !kid) {
+    return { status: 'unsigned' };
+  }
+  return keys?.length ? { status: 'valid' } : { status: 'unverified' };
+};
+
 export const parseQrClockInCode = (rawValue: string): ParsedQrPayload => {
   const normalized = rawValue.trim();
   if (!normalized) return {};
 
   const signedPayload = readSignedShiftorPayload(normalized);
-  if (signedPayload && (signedPayload.shiftId || signedPayload.assignmentId)) {
+  if (signedPayload && (signedPayload.shiftId || signedPayload.assignmentId || signedPayload.objectId)) {
     return signedPayload;
   }
 
@@ -158,9 +319,33 @@ export const parseQrClockInCode = (rawValue: string): ParsedQrPayload => {
   });
 };
 
-export const findShiftForQrClockIn = (rawValue: string, shifts: Shift[]): Shift | null => {
+const pickShiftAtObject = (objectId: string, shifts: Shift[], now: Date): Shift | null => {
+  const nowMs = now.getTime();
+  const candidates = shifts.filter((shift) => shift.objectId === objectId);
+  const live = candidates.find(
+    (shift) => Date.parse(shift.start) <= nowMs && nowMs < Date.parse(shift.end)
+  );
+  if (live) return live;
+
+  const distance = (shift: Shift) =>
+    Math.min(Math.abs(Date.parse(shift.start) - nowMs), Math.abs(Date.parse(shift.end) - nowMs));
+  return candidates.reduce<Shift | null>(
+    (nearest, shift) => (!nearest || distance(shift) < distance(nearest) ? shift : nearest),
+    null
+  );
+};
+
+/**
+ * The shift a scanned code refers to. Rotating codes only name the site, so
+ * the employee's shift there that is running, or else closest to `now`, is used.
+ */
+export const findShiftForQrClockIn = (rawValue: string, shifts: Shift[], now = new Date()): Shift | null => {
   const parsed = parseQrClockInCode(rawValue);
 
+  if (parsed.objectId) {
+    return pickShiftAtObject(parsed.objectId, shifts, now);
+  }
+
   if (parsed.assignmentId) {
     const byAssignmentId = shifts.find((shift) => shift.assignmentId === parsed.assignmentId);
     if (byAssignmentId) return byAssignmentId;
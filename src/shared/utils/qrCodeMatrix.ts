@@ -0,0 +1,372 @@
+/**
+ * Minimal QR code encoder (ISO/IEC 18004): byte mode, error correction level M,
+ * versions 1 to 15. That covers the clock-in tokens the app displays itself,
+ * so no native QR library is needed.
+ */
+
+export type QrCodeMatrix = {
+  size: number;
+  /** `modules[y][x]` is true for dark modules. */
+  modules: boolean[][];
+};
+
+/** Per version: block count, total codewords and data codewords for each block group. */
+const BLOCKS_LEVEL_M: number[][] = [
+  [1, 26, 16],
+  [1, 44, 28],
+  [1, 70, 44],
+  [2, 50, 32],
+  [2, 67, 43],
+  [4, 43, 27],
+  [4, 49, 31],
+  [2, 60, 38, 2, 61, 39],
+  [3, 58, 36, 2, 59, 37],
+  [4, 69, 43, 1, 70, 44],
+  [1, 80, 50, 4, 81, 51],
+  [6, 58, 36, 2, 59, 37],
+  [8, 59, 37, 1, 60, 38],
+  [4, 64, 40, 5, 65, 41],
+  [5, 65, 41, 5, 66, 42],
+];
+
+const ALIGNMENT_POSITIONS: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+  [6, 30, 54],
+  [6, 32, 58],
+  [6, 34, 62],
+  [6, 26, 46, 66],
+  [6, 26, 48, 70],
+];
+
+export const QR_MAX_VERSION = BLOCKS_LEVEL_M.length;
+
+type Block = { data: number[]; ecc: number[] };
+
+const encodeUtf8 = (text: string): number[] => {
+  const bytes: number[] = [];
+  for (const character of text) {
+    const code = character.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+};
+
+const multiplyGf = (left: number, right: number) => {
+  let result = 0;
+  for (let bit = 7; bit >= 0; bit -= 1) {
+    result = (result << 1) ^ ((result >>> 7) * 0x11d);
+    result ^= ((right >>> bit) & 1) * left;
+  }
+  return result & 0xff;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let index = 0; index < degree; index += 1) {
+    for (let term = 0; term < degree; term += 1) {
+      divisor[term] = multiplyGf(divisor[term], root);
+      if (term + 1 < degree) divisor[term] ^= divisor[term + 1];
+    }
+    root = multiplyGf(root, 0x02);
+  }
+  return divisor;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const remainder = new Array<number>(divisor.length).fill(0);
+  data.forEach((byte) => {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, index) => {
+      remainder[index] ^= multiplyGf(coefficient, factor);
+    });
+  });
+  return remainder;
+};
+
+const dataCodewordCount = (version: number) => {
+  const groups = BLOCKS_LEVEL_M[version - 1];
+  let total = 0;
+  for (let index = 0; index < groups.length; index += 3) {
+    total += groups[index] * groups[index + 2];
+  }
+  return total;
+};
+
+const buildCodewords = (bytes: number[], version: number) => {
+  const capacityBits = dataCodewordCount(version) * 8;
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let bit = length - 1; bit >= 0; bit -= 1) bits.push((value >>> bit) & 1);
+  };
+  appendBits(0b0100, 4);
+  appendBits(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => appendBits(byte, 8));
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let index = 0; index < bits.length; index += 8) {
+    data.push(bits.slice(index, index + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const groups = BLOCKS_LEVEL_M[version - 1];
+  const blocks: Block[] = [];
+  let offset = 0;
+  for (let index = 0; index < groups.length; index += 3) {
+    const [count, total, dataLength] = groups.slice(index, index + 3);
+    const divisor = reedSolomonDivisor(total - dataLength);
+    for (let block = 0; block < count; block += 1) {
+      const blockData = data.slice(offset, offset + dataLength);
+      offset += dataLength;
+      blocks.push({ data: blockData, ecc: reedSolomonRemainder(blockData, divisor) });
+    }
+  }
+
+  const codewords: number[] = [];
+  const longestData = Math.max(...blocks.map((block) => block.data.length));
+  for (let index = 0; index < longestData; index += 1) {
+    blocks.forEach((block) => {
+      if (index < block.data.length) codewords.push(block.data[index]);
+    });
+  }
+  for (let index = 0; index < blocks[0].ecc.length; index += 1) {
+    blocks.forEach((block) => codewords.push(block.ecc[index]));
+  }
+  return codewords;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const createGrid = (size: number) => Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+
+const buildBaseMatrix = (version: number, codewords: number[]) => {
+  const size = version * 4 + 17;
+  const modules = createGrid(size);
+  const reserved = createGrid(size);
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  for (let index = 0; index < size; index += 1) {
+    setFunction(6, index, index % 2 === 0);
+    setFunction(index, 6, index % 2 === 0);
+  }
+
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([centerX, centerY]) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = centerX + dx;
+        const y = centerY + dy;
+        if (x < 0 || y < 0 || x >= size || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  const positions = ALIGNMENT_POSITIONS[version - 1];
+  const last = positions.length - 1;
+  positions.forEach((centerX, column) => {
+    positions.forEach((centerY, row) => {
+      if ((column === 0 && row === 0) || (column === 0 && row === last) || (column === last && row === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) {
+          setFunction(centerX + dx, centerY + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format areas now; they are written once the mask is chosen.
+  for (let index = 0; index < 9; index += 1) {
+    reserved[8][index] = true;
+    reserved[index][8] = true;
+  }
+  for (let index = 0; index < 8; index += 1) {
+    reserved[8][size - 1 - index] = true;
+    reserved[size - 1 - index][8] = true;
+  }
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let index = 0; index < 12; index += 1) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (version << 12) | remainder;
+    for (let index = 0; index < 18; index += 1) {
+      const dark = ((bits >>> index) & 1) === 1;
+      const a = size - 11 + (index % 3);
+      const b = Math.floor(index / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      for (let column = 0; column < 2; column += 1) {
+        const x = right - column;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (reserved[y][x] || bitIndex >= codewords.length * 8) continue;
+        modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+        bitIndex += 1;
+      }
+    }
+  }
+
+  return { size, modules, reserved };
+};
+
+const applyMask = (
+  base: { size: number; modules: boolean[][]; reserved: boolean[][] },
+  mask: number
+): boolean[][] => {
+  const { size, reserved } = base;
+  const modules = base.modules.map((row, y) =>
+    row.map((dark, x) => (reserved[y][x] ? dark : dark !== MASKS[mask](x, y)))
+  );
+
+  // Level M is 0b00, so the format data is just the mask number.
+  let remainder = mask;
+  for (let index = 0; index < 10; index += 1) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((mask << 10) | remainder) ^ 0x5412;
+  const bit = (index: number) => ((bits >>> index) & 1) === 1;
+
+  for (let index = 0; index <= 5; index += 1) modules[index][8] = bit(index);
+  modules[7][8] = bit(6);
+  modules[8][8] = bit(7);
+  modules[8][7] = bit(8);
+  for (let index = 9; index < 15; index += 1) modules[8][14 - index] = bit(index);
+
+  for (let index = 0; index < 8; index += 1) modules[8][size - 1 - index] = bit(index);
+  for (let index = 8; index < 15; index += 1) modules[size - 15 + index][8] = bit(index);
+  modules[size - 8][8] = true;
+
+  return modules;
+};
+
+const FINDER_LIKE_PATTERNS = ['10111010000', '00001011101'];
+
+const penaltyScore = (modules: boolean[][]) => {
+  const size = modules.length;
+  const lines: string[] = [];
+  for (let index = 0; index < size; index += 1) {
+    lines.push(modules[index].map((dark) => (dark ? '1' : '0')).join(''));
+    lines.push(modules.map((row) => (row[index] ? '1' : '0')).join(''));
+  }
+
+  let score = 0;
+  lines.forEach((line) => {
+    line.match(/0{5,}|1{5,}/g)?.forEach((run) => {
+      score += run.length - 2;
+    });
+    FINDER_LIKE_PATTERNS.forEach((pattern) => {
+      for (let start = line.indexOf(pattern); start >= 0; start = line.indexOf(pattern, start + 1)) {
+        score += 40;
+      }
+    });
+  });
+
+  let dark = 0;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (modules[y][x]) dark += 1;
+      if (
+        x < size - 1 &&
+        y < size - 1 &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+/**
+ * Encodes `text` as UTF-8 into the smallest fitting QR code. Picks the mask
+ * with the lowest penalty unless `mask` (0-7) is given.
+ */
+export const encodeQrCode = (text: string, mask?: number): QrCodeMatrix => {
+  const bytes = encodeUtf8(text);
+  let version = 1;
+  while (
+    version <= QR_MAX_VERSION &&
+    4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewordCount(version) * 8
+  ) {
+    version += 1;
+  }
+  if (version > QR_MAX_VERSION) {
+    throw new Error('QR code content is too long.');
+  }
+
+  const base = buildBaseMatrix(version, buildCodewords(bytes, version));
+  if (mask !== undefined) {
+    return { size: base.size, modules: applyMask(base, mask) };
+  }
+
+  let best: boolean[][] | null = null;
+  let bestScore = Infinity;
+  for (let candidate = 0; candidate < MASKS.length; candidate += 1) {
+    const modules = applyMask(base, candidate);
+    const score = penaltyScore(modules);
+    if (score < bestScore) {
+      best = modules;
+      bestScore = score;
+    }
+  }
+  return { size: base.size, modules: best as boolean[][] };
+};
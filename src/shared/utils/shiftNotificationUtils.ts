@@ -1,3 +1,9 @@
+import {
+  type ShiftSchemaField,
+  getShiftSchema,
+  getShiftSchemaColumns,
+} from '../../features/shifts/shiftSchemaAdapters';
+
 type PostgresRealtimePayload = {
   eventType?: 'INSERT' | 'UPDATE' | 'DELETE' | string;
   commit_timestamp?: string;
@@ -5,30 +11,19 @@ type PostgresRealtimePayload = {
   old?: Record<string, unknown>;
 };
 
-export const SHIFT_START_KEYS = [
-  'shiftStartingDate',
-  'shiftstartingdate',
-  'start_date',
-  'start',
-  'start_at',
-];
+/** Column names known to the built-in schema adapters when this module loaded. */
+export const SHIFT_START_KEYS = getShiftSchemaColumns('startDate');
 
-export const SHIFT_END_KEYS = [
-  'shiftEndingDate',
-  'shiftendingdate',
-  'end_date',
-  'end',
-  'end_at',
-];
+export const SHIFT_END_KEYS = getShiftSchemaColumns('endDate');
+
+export const SHIFT_LOCATION_KEYS = getShiftSchemaColumns('location');
 
-export const SHIFT_LOCATION_KEYS = [
+const SCHEDULE_CHANGE_FIELDS: ShiftSchemaField[] = [
+  'startDate',
+  'startTime',
+  'endDate',
+  'endTime',
   'location',
-  'address',
-  'shiftLocation',
-  'shift_location',
-  'objectAddress',
-  'shiftAddress',
-  'object_address',
 ];
 
 export const readRowValue = (row: Record<string, unknown> | undefined, keys: string[]) => {
@@ -74,10 +69,9 @@ export const shouldNotifyScheduleUpdate = (payload: PostgresRealtimePayload) =>
   if (!payload.eventType || payload.eventType.toUpperCase() !== 'UPDATE') {
     return false;
   }
-  return (
-    hasRowChange(payload.old, payload.new, SHIFT_START_KEYS) ||
-    hasRowChange(payload.old, payload.new, SHIFT_END_KEYS) ||
-    hasRowChange(payload.old, payload.new, SHIFT_LOCATION_KEYS)
+  const schema = getShiftSchema();
+  return SCHEDULE_CHANGE_FIELDS.some((field) =>
+    hasRowChange(payload.old, payload.new, getShiftSchemaColumns(field, schema))
   );
 };
 
@@ -1,4 +1,12 @@
 import type { Shift } from '@features/shifts/shiftMapping';
+import type { ShiftBreak, ShiftPay } from '@features/shifts/shiftExtras';
+import {
+  type ShiftSeriesGroup,
+  expandShiftRecurrence,
+  formatRecurrenceRule,
+  groupShiftSeries,
+} from '../../features/shifts/shiftSeries';
+import { getZonedDateParts, getZonedDayKey, isValidTimeZone } from './timeUtils';
 
 const escapeIcsText = (value: string) =>
   value
@@ -13,51 +21,177 @@ const formatIcsDate = (value: string) => {
   return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
 };
 
+const formatSiteTime = (value: string, timeZone?: string) => {
+  const parts = getZonedDateParts(value, timeZone);
+  return parts ? `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}` : '';
+};
+
+const formatBreak = (entry: ShiftBreak, timeZone?: string) => {
+  const window =
+    entry.start && entry.end ? `${formatSiteTime(entry.start, timeZone)}-${formatSiteTime(entry.end, timeZone)} ` : '';
+  return `${window}${entry.minutes} min${entry.paid ? ' paid' : ''}`;
+};
+
+const formatPay = (pay: ShiftPay) => {
+  const parts = pay.hourlyRate !== undefined ? [`${pay.hourlyRate.toFixed(2)} ${pay.currency}/h`] : [];
+  pay.premiums.forEach((premium) => {
+    if (premium.percent !== undefined) parts.push(`${premium.label} +${premium.percent}%`);
+    if (premium.amount !== undefined) parts.push(`${premium.label} +${premium.amount.toFixed(2)} ${pay.currency}`);
+  });
+  return parts.join(', ');
+};
+
 const buildShiftDescription = (shift: Shift) => {
   const lines = [
     shift.objectName ? `Site: ${shift.objectName}` : null,
     shift.location ? `Location: ${shift.location}` : null,
+    shift.role ? `Role: ${shift.role}` : null,
+    shift.breaks?.length
+      ? `Breaks: ${shift.breaks.map((entry) => formatBreak(entry, shift.timeZone)).join(', ')}`
+      : null,
+    shift.qualifications?.length ? `Qualifications: ${shift.qualifications.join(', ')}` : null,
+    shift.pay ? `Pay: ${formatPay(shift.pay)}` : null,
+    shift.dressCode ? `Dress code: ${shift.dressCode}` : null,
     shift.objectContactName ? `Contact: ${shift.objectContactName}` : null,
     shift.objectContactPhone ? `Phone: ${shift.objectContactPhone}` : null,
     shift.objectContactEmail ? `Email: ${shift.objectContactEmail}` : null,
+    shift.attachments?.length
+      ? `Files: ${shift.attachments.map((file) => (file.url ? `${file.name} (${file.url})` : file.name)).join(', ')}`
+      : null,
     shift.description ? `Notes: ${shift.description}` : null,
   ].filter(Boolean);
 
   return lines.join('\n');
 };
 
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Site wall-clock time in the `TZID` form, e.g. `20260701T080000`. */
+const formatIcsLocalDate = (value: string, timeZone: string) => {
+  const parts = getZonedDateParts(value, timeZone);
+  if (!parts) return '';
+  return `${parts.year}${pad(parts.month)}${pad(parts.day)}T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`;
+};
+
+type EventTiming = {
+  uid: string;
+  start: string;
+  end: string;
+  recurrence?: string[];
+};
+
+const buildEvent = (shift: Shift, timing: EventTiming, nowStamp: string) => {
+  const summary = escapeIcsText(shift.title || 'Shift');
+  const location = escapeIcsText(shift.objectAddress || shift.location || 'TBD');
+  const description = escapeIcsText(buildShiftDescription(shift));
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${escapeIcsText(timing.uid)}`,
+    `DTSTAMP:${nowStamp}`,
+    timing.start,
+    timing.end,
+    ...(timing.recurrence ?? []),
+    `SUMMARY:${summary}`,
+    `LOCATION:${location}`,
+    description ? `DESCRIPTION:${description}` : null,
+    ...(shift.attachments ?? [])
+      .filter((file) => file.url)
+      .map((file) => `ATTACH${file.mimeType ? `;FMTTYPE=${file.mimeType}` : ''}:${file.url}`),
+    'END:VEVENT',
+  ]
+    .filter(Boolean)
+    .join('\r\n');
+};
+
+/**
+ * One recurring event for the occurrences that follow the series rule at its
+ * usual time. The rule ends at the last exported occurrence so the calendar
+ * never shows shifts the plan does not contain; skipped days become EXDATEs.
+ * Occurrences that were moved are exported as standalone events.
+ */
+const buildSeriesEvent = (group: ShiftSeriesGroup<Shift>, nowStamp: string) => {
+  const { recurrence } = group;
+  const timeZone = group.shifts[0]?.timeZone;
+  if (!recurrence || !isValidTimeZone(timeZone) || group.shifts.some((shift) => shift.timeZone !== timeZone)) {
+    return null;
+  }
+  const firstDay = getZonedDayKey(group.shifts[0].start, timeZone);
+  const lastDay = getZonedDayKey(group.shifts[group.shifts.length - 1].start, timeZone);
+  if (!firstDay || !lastDay) return null;
+  const ruleDays = new Set(expandShiftRecurrence(recurrence, firstDay, lastDay));
+  const firstStartTime = formatIcsLocalDate(group.shifts[0].start, timeZone).slice(9);
+  const firstEndTime = formatIcsLocalDate(group.shifts[0].end, timeZone).slice(9);
+  const matching = group.shifts.filter((shift) => {
+    const day = getZonedDayKey(shift.start, timeZone);
+    return (
+      Boolean(day && ruleDays.has(day)) &&
+      formatIcsLocalDate(shift.start, timeZone).slice(9) === firstStartTime &&
+      formatIcsLocalDate(shift.end, timeZone).slice(9) === firstEndTime
+    );
+  });
+  if (matching.length < 2) return null;
+
+  const first = matching[0];
+  const last = matching[matching.length - 1];
+  const matchedDays = new Set(matching.map((shift) => getZonedDayKey(shift.start, timeZone)));
+  const firstMatchedDay = getZonedDayKey(first.start, timeZone) ?? firstDay;
+  const lastMatchedDay = getZonedDayKey(last.start, timeZone) ?? lastDay;
+  const skippedDays = Array.from(ruleDays).filter(
+    (day) => !matchedDays.has(day) && day > firstMatchedDay && day < lastMatchedDay
+  );
+  const rule = formatRecurrenceRule({ ...recurrence, count: undefined }, formatIcsDate(last.start));
+
+  return {
+    shiftIds: new Set(matching.map((shift) => shift.id)),
+    event: buildEvent(
+      first,
+      {
+        uid: `series-${group.seriesId}@shiftor.employee`,
+        start: `DTSTART;TZID=${timeZone}:${formatIcsLocalDate(first.start, timeZone)}`,
+        end: `DTEND;TZID=${timeZone}:${formatIcsLocalDate(first.end, timeZone)}`,
+        recurrence: [
+          `RRULE:${rule}`,
+          skippedDays.length
+            ? `EXDATE;TZID=${timeZone}:${skippedDays
+                .map((day) => `${day.replace(/-/g, '')}T${firstStartTime}`)
+                .join(',')}`
+            : '',
+        ].filter(Boolean),
+      },
+      nowStamp
+    ),
+  };
+};
+
 export const buildShiftPlanCalendarContent = (
   shifts: Shift[],
   calendarName = 'Shiftor Shift Plan'
 ) => {
   const nowStamp = formatIcsDate(new Date().toISOString());
-  const events = shifts
+  const seriesShiftIds = new Set<string>();
+  const seriesEvents: string[] = [];
+  groupShiftSeries(shifts).forEach((group) => {
+    const series = buildSeriesEvent(group, nowStamp);
+    if (!series) return;
+    series.shiftIds.forEach((id) => seriesShiftIds.add(id));
+    seriesEvents.push(series.event);
+  });
+
+  const singleEvents = shifts
+    .filter((shift) => !seriesShiftIds.has(shift.id))
     .map((shift) => {
       const start = formatIcsDate(shift.start);
       const end = formatIcsDate(shift.end);
       if (!start || !end) return null;
-
-      const summary = escapeIcsText(shift.title || 'Shift');
-      const location = escapeIcsText(shift.objectAddress || shift.location || 'TBD');
-      const description = escapeIcsText(buildShiftDescription(shift));
-      const uid = escapeIcsText(`shift-${shift.id}@shiftor.employee`);
-
-      return [
-        'BEGIN:VEVENT',
-        `UID:${uid}`,
-        `DTSTAMP:${nowStamp}`,
-        `DTSTART:${start}`,
-        `DTEND:${end}`,
-        `SUMMARY:${summary}`,
-        `LOCATION:${location}`,
-        description ? `DESCRIPTION:${description}` : null,
-        'END:VEVENT',
-      ]
-        .filter(Boolean)
-        .join('\r\n');
+      return buildEvent(
+        shift,
+        { uid: `shift-${shift.id}@shiftor.employee`, start: `DTSTART:${start}`, end: `DTEND:${end}` },
+        nowStamp
+      );
     })
-    .filter(Boolean)
-    .join('\r\n');
+    .filter(Boolean);
+  const events = [...seriesEvents, ...singleEvents].join('\r\n');
 
   return [
     'BEGIN:VCALENDAR',
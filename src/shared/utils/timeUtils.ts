@@ -1,11 +1,185 @@
-export const ensureShiftEndAfterStart = (startIso: string, endIso: string): string => {
+export type TimeDisplayMode = 'site' | 'device';
+
+export type ZonedDateParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WALL_TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+const EXPLICIT_OFFSET_PATTERN = /(?:Z|[+-]\d{2}(?::?\d{2})?)$/i;
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedFormatter = (timeZone: string) => {
+  const cached = zonedFormatters.get(timeZone);
+  if (cached) return cached;
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  zonedFormatters.set(timeZone, formatter);
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone?: string | null): timeZone is string => {
+  if (!timeZone?.trim()) return false;
+  try {
+    getZonedFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getDeviceTimeZone = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/** Whether a time or timestamp string pins its own UTC offset. */
+export const hasExplicitUtcOffset = (value: string) => {
+  const timePart = value.includes('T') ? value.split('T')[1] : value;
+  if (!timePart.includes(':') && !/z$/i.test(timePart)) return false;
+  return EXPLICIT_OFFSET_PATTERN.test(timePart);
+};
+
+/** Calendar fields of an instant in the given zone, or in device time without one. */
+export const getZonedDateParts = (value: Date | string, timeZone?: string): ZonedDateParts | null => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    };
+  }
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+  getZonedFormatter(timeZone)
+    .formatToParts(date)
+    .forEach((part) => {
+      if (part.type !== 'literal') {
+        parts[part.type] = Number(part.value);
+      }
+    });
+  return {
+    year: parts.year ?? 0,
+    month: parts.month ?? 0,
+    day: parts.day ?? 0,
+    hour: (parts.hour ?? 0) % 24,
+    minute: parts.minute ?? 0,
+    second: parts.second ?? 0,
+  };
+};
+
+export const getZonedDayKey = (value: Date | string, timeZone?: string) => {
+  const parts = getZonedDateParts(value, timeZone);
+  if (!parts) return null;
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+};
+
+const getTimeZoneOffsetMs = (timeZone: string, instantMs: number) => {
+  const parts = getZonedDateParts(new Date(instantMs), timeZone);
+  if (!parts) return 0;
+  const wallAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallAsUtc - Math.floor(instantMs / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock date and time at a site into an ISO instant. Ambiguous
+ * times after a DST fall-back resolve to the first occurrence; times skipped by
+ * a spring-forward move ahead by the length of the gap.
+ */
+export const zonedWallTimeToUtc = (date: string, time: string, timeZone: string): string | null => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+  const timeMatch = WALL_TIME_PATTERN.exec(time.trim());
+  if (!dateMatch || !timeMatch || !isValidTimeZone(timeZone)) return null;
+  const wallAsUtc = Date.UTC(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    Number(timeMatch[1]),
+    Number(timeMatch[2]),
+    Number(timeMatch[3] ?? 0),
+    Number((timeMatch[4] ?? '0').padEnd(3, '0'))
+  );
+  if (Number.isNaN(wallAsUtc)) return null;
+
+  const offsetBefore = getTimeZoneOffsetMs(timeZone, wallAsUtc - DAY_MS);
+  const offsetAfter = getTimeZoneOffsetMs(timeZone, wallAsUtc + DAY_MS);
+  const matches = Array.from(new Set([wallAsUtc - offsetBefore, wallAsUtc - offsetAfter]))
+    .filter((candidate) => candidate + getTimeZoneOffsetMs(timeZone, candidate) === wallAsUtc)
+    .sort((a, b) => a - b);
+  const instant = matches.length ? matches[0] : wallAsUtc - offsetBefore;
+  return new Date(instant).toISOString();
+};
+
+/** Adds calendar days in the given zone so the wall-clock time survives DST changes. */
+export const addZonedDays = (iso: string, days: number, timeZone?: string): string => {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    date.setDate(date.getDate() + days);
+    return date.toISOString();
+  }
+  const parts = getZonedDateParts(date, timeZone);
+  if (!parts) return iso;
+  const target = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  const targetDate = target.toISOString().split('T')[0];
+  const wallTime = `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}:${String(
+    parts.second
+  ).padStart(2, '0')}`;
+  return zonedWallTimeToUtc(targetDate, wallTime, timeZone) ?? iso;
+};
+
+export const ensureShiftEndAfterStart = (startIso: string, endIso: string, timeZone?: string): string => {
   const startDate = new Date(startIso);
   const endDate = new Date(endIso);
   if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
     return endIso;
   }
   if (endDate <= startDate) {
-    endDate.setDate(endDate.getDate() + 1);
+    return addZonedDays(endDate.toISOString(), 1, timeZone);
   }
   return endDate.toISOString();
 };
+
+export const parseTimeDisplayMode = (value: string | null): TimeDisplayMode =>
+  value === 'device' ? 'device' : 'site';
+
+/** Zone to render a shift in: the site zone unless the employee prefers device time. */
+export const resolveDisplayTimeZone = (
+  siteTimeZone: string | undefined,
+  mode: TimeDisplayMode
+): string | undefined => (mode === 'site' && isValidTimeZone(siteTimeZone) ? siteTimeZone : undefined);
+
+/** Short zone name such as "CET", shown when a shift renders outside device time. */
+export const getTimeZoneLabel = (value: Date | string, timeZone?: string): string | undefined => {
+  if (!timeZone || !isValidTimeZone(timeZone) || timeZone === getDeviceTimeZone()) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  try {
+    return new Intl.DateTimeFormat(undefined, { timeZone, timeZoneName: 'short' })
+      .formatToParts(date)
+      .find((part) => part.type === 'timeZoneName')?.value;
+  } catch {
+    return undefined;
+  }
+};
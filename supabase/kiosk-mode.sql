@@ -0,0 +1,379 @@
+-- Kiosk mode: one shared tablet at a site's entrance, signed in as an
+-- operator (usually the site supervisor), clocks employees in and out. Each
+-- employee identifies with their personal badge code (shown in their own app)
+-- or by picking their name and entering a PIN; nobody signs in on the tablet.
+--
+-- Badge format: SHIFTOR_BADGE:<token>. Tokens are random and can be renewed,
+-- which invalidates screenshots of the old badge. PINs are 4 to 6 digits,
+-- stored as bcrypt hashes. Every fifth wrong PIN in a row locks PIN entry
+-- for the employee, for 5 minutes and doubling with each lock up to a day; the
+-- count only resets on a correct PIN or a new PIN. A kiosk whose operator saw
+-- ten wrong PINs in 15 minutes takes no PINs until that window clears, so one
+-- tablet cannot keep guessing or lock out everyone on the list.
+--
+-- get_my_kiosk_badge returns the caller's badge (status 'ok'), creating it on
+-- first use or replacing it when renew is true, and whether a PIN is set.
+-- set_my_kiosk_pin returns saved or invalid.
+-- list_kiosk_objects returns the objects the caller may run a kiosk for.
+-- list_kiosk_employees returns employees with a shift at the object within
+-- 12 hours of now, for PIN entry (status 'ok' or 'not_operator').
+--
+-- identify_kiosk_employee is for the Employee API (service role only), which
+-- clocks the identified employee and writes kiosk_clock_events. Statuses:
+--   identified     employeeId and shiftId are set
+--   not_operator   the signed-in device user may not run a kiosk for the object
+--   unknown_badge  no employee has this badge
+--   no_pin         the employee has not set a PIN
+--   wrong_pin      the PIN does not match; attemptsLeft is set
+--   pin_locked     too many wrong PINs; lockedUntil is set
+--   rate_limited   too many wrong PINs on this operator's kiosk lately
+--   not_scheduled  the employee has no shift at the object around now
+
+-- Supabase installs pgcrypto in the extensions schema; calls are qualified so
+-- they resolve under `set search_path = public`.
+create schema if not exists extensions;
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.object_kiosks (
+  "objectId" uuid primary key references public.objects (id) on delete cascade,
+  "operatorEmployeeIds" uuid[] not null default '{}',
+  "allowPin" boolean not null default true,
+  "resetSeconds" integer not null default 8 check ("resetSeconds" between 3 and 60),
+  "createdAt" timestamptz not null default now()
+);
+
+comment on table public.object_kiosks is
+  'Sites with a shared clock-in tablet and the employees allowed to run it.';
+
+create table if not exists public.employee_kiosk_credentials (
+  "employeeId" uuid primary key references auth.users (id) on delete cascade,
+  "badgeToken" text not null unique
+    default translate(rtrim(encode(extensions.gen_random_bytes(24), 'base64'), '='), '+/', '-_'),
+  "badgeIssuedAt" timestamptz not null default now(),
+  "pinHash" text,
+  "pinUpdatedAt" timestamptz,
+  "failedPinAttempts" integer not null default 0,
+  "pinLockedUntil" timestamptz
+);
+
+comment on table public.employee_kiosk_credentials is
+  'Personal badge tokens and PIN hashes used to clock in on a site kiosk.';
+
+create table if not exists public.kiosk_clock_events (
+  id uuid primary key default gen_random_uuid(),
+  "objectId" uuid not null references public.objects (id) on delete cascade,
+  "operatorId" uuid not null references auth.users (id) on delete cascade,
+  "employeeId" uuid references auth.users (id) on delete set null,
+  "shiftId" uuid references public.shifts (id) on delete set null,
+  method text not null check (method in ('badge', 'pin')),
+  action text check (action is null or action in ('clock_in', 'clock_out')),
+  status text not null,
+  "clientEventId" text not null,
+  "occurredAt" timestamptz not null,
+  "createdAt" timestamptz not null default now(),
+  unique ("operatorId", "clientEventId")
+);
+
+comment on table public.kiosk_clock_events is
+  'Every identification attempt on a kiosk, written by the Employee API.';
+
+create index if not exists kiosk_clock_events_object_idx
+  on public.kiosk_clock_events ("objectId", "occurredAt" desc);
+
+create index if not exists kiosk_clock_events_operator_idx
+  on public.kiosk_clock_events ("operatorId", "createdAt" desc);
+
+-- Credentials and kiosk settings are read through the functions below only;
+-- setup happens in the admin app.
+alter table public.object_kiosks enable row level security;
+alter table public.employee_kiosk_credentials enable row level security;
+alter table public.kiosk_clock_events enable row level security;
+
+drop policy if exists "Operators can view their kiosk events" on public.kiosk_clock_events;
+create policy "Operators can view their kiosk events"
+  on public.kiosk_clock_events
+  for select
+  using ("operatorId" = auth.uid());
+
+drop function if exists public.get_my_kiosk_badge(boolean);
+create or replace function public.get_my_kiosk_badge(renew boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  credentials public.employee_kiosk_credentials%rowtype;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  insert into public.employee_kiosk_credentials ("employeeId")
+  values (caller_id)
+  on conflict ("employeeId") do nothing;
+
+  if renew then
+    update public.employee_kiosk_credentials
+    set "badgeToken" = translate(rtrim(encode(extensions.gen_random_bytes(24), 'base64'), '='), '+/', '-_'),
+        "badgeIssuedAt" = now()
+    where "employeeId" = caller_id;
+  end if;
+
+  select c.* into credentials
+  from public.employee_kiosk_credentials c
+  where c."employeeId" = caller_id;
+
+  return jsonb_build_object(
+    'ok', true,
+    'status', 'ok',
+    'badge', 'SHIFTOR_BADGE:' || credentials."badgeToken",
+    'issuedAt', credentials."badgeIssuedAt",
+    'hasPin', credentials."pinHash" is not null
+  );
+end;
+$$;
+
+revoke all on function public.get_my_kiosk_badge(boolean) from public;
+grant execute on function public.get_my_kiosk_badge(boolean) to authenticated;
+
+drop function if exists public.set_my_kiosk_pin(text);
+create or replace function public.set_my_kiosk_pin(new_pin text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if coalesce(new_pin, '') !~ '^[0-9]{4,6}$' then
+    return jsonb_build_object('ok', false, 'status', 'invalid');
+  end if;
+
+  insert into public.employee_kiosk_credentials ("employeeId", "pinHash", "pinUpdatedAt")
+  values (caller_id, extensions.crypt(new_pin, extensions.gen_salt('bf')), now())
+  on conflict ("employeeId") do update
+  set "pinHash" = excluded."pinHash",
+      "pinUpdatedAt" = excluded."pinUpdatedAt",
+      "failedPinAttempts" = 0,
+      "pinLockedUntil" = null;
+
+  return jsonb_build_object('ok', true, 'status', 'saved');
+end;
+$$;
+
+revoke all on function public.set_my_kiosk_pin(text) from public;
+grant execute on function public.set_my_kiosk_pin(text) to authenticated;
+
+drop function if exists public.list_kiosk_objects();
+create or replace function public.list_kiosk_objects()
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  kiosk_objects jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select coalesce(jsonb_agg(
+    jsonb_build_object(
+      'objectId', k."objectId",
+      'title', o.title,
+      'allowPin', k."allowPin",
+      'resetSeconds', k."resetSeconds"
+    )
+    order by o.title, k."objectId"
+  ), '[]'::jsonb)
+  into kiosk_objects
+  from public.object_kiosks k
+  join public.objects o on o.id = k."objectId"
+  where caller_id = any (k."operatorEmployeeIds");
+
+  return jsonb_build_object('ok', true, 'status', 'ok', 'objects', kiosk_objects);
+end;
+$$;
+
+revoke all on function public.list_kiosk_objects() from public;
+grant execute on function public.list_kiosk_objects() to authenticated;
+
+drop function if exists public.list_kiosk_employees(uuid);
+create or replace function public.list_kiosk_employees(target_object_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  kiosk_employees jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not exists (
+    select 1 from public.object_kiosks k
+    where k."objectId" = target_object_id and caller_id = any (k."operatorEmployeeIds")
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_operator');
+  end if;
+
+  -- One row per employee: the shift closest to now.
+  select coalesce(jsonb_agg(entry order by entry->>'firstName', entry->>'lastName'), '[]'::jsonb)
+  into kiosk_employees
+  from (
+    select distinct on (a."employeeId")
+      jsonb_build_object(
+        'employeeId', a."employeeId",
+        'firstName', e."firstName",
+        'lastName', case when coalesce(e."rosterShowLastName", true) then e."lastName" end,
+        'shiftId', s.id,
+        'shiftStart', public.shift_starts_at(s),
+        'shiftEnd', public.shift_ends_at(s)
+      ) as entry
+    from public.shifts s
+    join public.shift_assignments a on a."shiftId" = s.id
+    left join public.employees e on e.id = a."employeeId"
+    where s."objectId" = target_object_id
+      and public.shift_starts_at(s) < now() + interval '12 hours'
+      and public.shift_ends_at(s) > now() - interval '12 hours'
+      and lower(replace(replace(coalesce(a."confirmationStatus", ''), '_', ' '), '-', ' '))
+        not in ('declined', 'declined by employee')
+    order by a."employeeId", abs(extract(epoch from public.shift_starts_at(s) - now()))
+  ) candidates;
+
+  return jsonb_build_object('ok', true, 'status', 'ok', 'employees', kiosk_employees);
+end;
+$$;
+
+revoke all on function public.list_kiosk_employees(uuid) from public;
+grant execute on function public.list_kiosk_employees(uuid) to authenticated;
+
+drop function if exists public.identify_kiosk_employee(uuid, uuid, text, uuid, text);
+create or replace function public.identify_kiosk_employee(
+  operator_id uuid,
+  target_object_id uuid,
+  badge text default null,
+  target_employee_id uuid default null,
+  pin text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  kiosk public.object_kiosks%rowtype;
+  credentials public.employee_kiosk_credentials%rowtype;
+  matched_shift_id uuid;
+begin
+  select k.* into kiosk
+  from public.object_kiosks k
+  where k."objectId" = target_object_id and operator_id = any (k."operatorEmployeeIds");
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'not_operator');
+  end if;
+
+  if badge is not null then
+    select c.* into credentials
+    from public.employee_kiosk_credentials c
+    where 'SHIFTOR_BADGE:' || c."badgeToken" = trim(badge);
+    if not found then
+      return jsonb_build_object('ok', false, 'status', 'unknown_badge');
+    end if;
+  else
+    if not kiosk."allowPin" then
+      return jsonb_build_object('ok', false, 'status', 'not_operator');
+    end if;
+
+    if (
+      select count(*)
+      from public.kiosk_clock_events ev
+      where ev."operatorId" = operator_id
+        and ev.method = 'pin'
+        and ev.status = 'wrong_pin'
+        and ev."createdAt" > now() - interval '15 minutes'
+    ) >= 10 then
+      return jsonb_build_object('ok', false, 'status', 'rate_limited');
+    end if;
+
+    select c.* into credentials
+    from public.employee_kiosk_credentials c
+    where c."employeeId" = target_employee_id
+    for update;
+    if not found or credentials."pinHash" is null then
+      return jsonb_build_object('ok', false, 'status', 'no_pin');
+    end if;
+
+    if credentials."pinLockedUntil" > now() then
+      return jsonb_build_object('ok', false, 'status', 'pin_locked', 'lockedUntil', credentials."pinLockedUntil");
+    end if;
+
+    if extensions.crypt(coalesce(pin, ''), credentials."pinHash") <> credentials."pinHash" then
+      update public.employee_kiosk_credentials
+      set "failedPinAttempts" = "failedPinAttempts" + 1,
+          "pinLockedUntil" = case
+            when ("failedPinAttempts" + 1) % 5 = 0 then now() + least(
+              interval '5 minutes' * power(2, ("failedPinAttempts" + 1) / 5 - 1),
+              interval '24 hours'
+            )
+            else "pinLockedUntil"
+          end
+      where "employeeId" = credentials."employeeId"
+      returning * into credentials;
+
+      if credentials."pinLockedUntil" > now() then
+        return jsonb_build_object('ok', false, 'status', 'pin_locked', 'lockedUntil', credentials."pinLockedUntil");
+      end if;
+      return jsonb_build_object(
+        'ok', false,
+        'status', 'wrong_pin',
+        'attemptsLeft', 5 - credentials."failedPinAttempts" % 5
+      );
+    end if;
+
+    update public.employee_kiosk_credentials
+    set "failedPinAttempts" = 0, "pinLockedUntil" = null
+    where "employeeId" = credentials."employeeId";
+  end if;
+
+  select s.id into matched_shift_id
+  from public.shifts s
+  join public.shift_assignments a on a."shiftId" = s.id
+  where s."objectId" = target_object_id
+    and a."employeeId" = credentials."employeeId"
+    and public.shift_starts_at(s) < now() + interval '2 hours'
+    and public.shift_ends_at(s) > now() - interval '2 hours'
+    and lower(replace(replace(coalesce(a."confirmationStatus", ''), '_', ' '), '-', ' '))
+      not in ('declined', 'declined by employee')
+  order by abs(extract(epoch from public.shift_starts_at(s) - now()))
+  limit 1;
+
+  if matched_shift_id is null then
+    return jsonb_build_object('ok', false, 'status', 'not_scheduled', 'employeeId', credentials."employeeId");
+  end if;
+
+  return jsonb_build_object(
+    'ok', true,
+    'status', 'identified',
+    'employeeId', credentials."employeeId",
+    'shiftId', matched_shift_id
+  );
+end;
+$$;
+
+revoke all on function public.identify_kiosk_employee(uuid, uuid, text, uuid, text) from public;
+grant execute on function public.identify_kiosk_employee(uuid, uuid, text, uuid, text) to service_role;
@@ -0,0 +1,14 @@
+-- Confirm-by deadlines for published shifts.
+-- Planners set "confirmBy" when publishing; the app shows a countdown to the
+-- employee and schedules escalating local reminders until the shift is
+-- confirmed or declined.
+
+alter table public.shifts
+  add column if not exists "confirmBy" timestamptz;
+
+comment on column public.shifts."confirmBy" is
+  'Instant by which assigned employees should confirm the published shift. Null means no deadline.';
+
+create index if not exists shifts_confirm_by_idx
+  on public.shifts ("confirmBy")
+  where "confirmBy" is not null;
@@ -0,0 +1,91 @@
+-- Bulk shift confirmation for the "confirm all" action.
+-- Confirms every listed assignment of the calling employee in one transaction and
+-- reports a result per assignment, so the app can tell the employee exactly
+-- which shifts went through and why the others did not.
+--
+-- Result statuses:
+--   confirmed          the assignment moved to 'confirmed by employee'
+--   already_confirmed  it was confirmed before this call
+--   not_found          no such assignment for the caller (deleted or someone else's)
+--   not_published      the planner withdrew or changed it; only published and
+--                      tentative assignments can be confirmed
+
+drop function if exists public.confirm_shift_assignments(uuid[]);
+create or replace function public.confirm_shift_assignments(assignment_ids uuid[])
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  requested_id uuid;
+  assignment_record public.shift_assignments%rowtype;
+  normalized_status text;
+  confirmed_at timestamptz := now();
+  results jsonb := '[]'::jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if coalesce(array_length(assignment_ids, 1), 0) > 200 then
+    raise exception 'At most 200 assignments can be confirmed at once';
+  end if;
+
+  foreach requested_id in array coalesce(assignment_ids, array[]::uuid[]) loop
+    select sa.*
+    into assignment_record
+    from public.shift_assignments sa
+    where sa.id = requested_id
+      and sa."employeeId" = caller_id
+    for update;
+
+    if not found then
+      results := results || jsonb_build_object('assignmentId', requested_id, 'status', 'not_found');
+      continue;
+    end if;
+
+    normalized_status := lower(replace(replace(trim(coalesce(assignment_record."confirmationStatus", '')), '_', ' '), '-', ' '));
+
+    if normalized_status in ('confirmed', 'confirmed by employee') then
+      results := results || jsonb_build_object(
+        'assignmentId', requested_id,
+        'status', 'already_confirmed',
+        'confirmationStatus', assignment_record."confirmationStatus",
+        'confirmedAt', assignment_record."confirmedAt"
+      );
+      continue;
+    end if;
+
+    if normalized_status not in ('published', 'tentative') then
+      results := results || jsonb_build_object(
+        'assignmentId', requested_id,
+        'status', 'not_published',
+        'confirmationStatus', assignment_record."confirmationStatus"
+      );
+      continue;
+    end if;
+
+    update public.shift_assignments
+    set "confirmationStatus" = 'confirmed by employee',
+        "confirmedAt" = confirmed_at,
+        "declineReason" = null,
+        "declineNote" = null,
+        "declinedAt" = null
+    where id = requested_id;
+
+    results := results || jsonb_build_object(
+      'assignmentId', requested_id,
+      'status', 'confirmed',
+      'confirmationStatus', 'confirmed by employee',
+      'confirmedAt', confirmed_at
+    );
+  end loop;
+
+  return jsonb_build_object('ok', true, 'results', results);
+end;
+$$;
+
+revoke all on function public.confirm_shift_assignments(uuid[]) from public;
+grant execute on function public.confirm_shift_assignments(uuid[]) to authenticated;
@@ -0,0 +1,273 @@
+-- Open-shift marketplace for the employee app.
+-- Planners mark unassigned shifts as open; employees of the company browse them
+-- and claim one. A claim starts as 'pending' and a planner approves it (creating
+-- the shift assignment) or rejects it. Employees may withdraw pending claims.
+--
+-- list_open_shifts statuses:
+--   ok          shifts returned (possibly none)
+--   not_linked  the caller has no active company link
+--
+-- claim_open_shift statuses:
+--   pending          claim recorded, waiting for a planner
+--   already_claimed  the caller already has a pending or approved claim
+--   already_assigned the caller is already assigned to the shift
+--   not_open         the shift is no longer open or has started
+--   not_found        no such shift at the caller's company
+--   not_qualified    the caller lacks a qualification the shift requires
+--   not_linked       the caller has no active company link
+
+create extension if not exists pgcrypto;
+
+alter table public.shifts
+  add column if not exists "isOpenShift" boolean not null default false,
+  add column if not exists "requiredQualifications" text[] not null default '{}';
+
+alter table public.employees
+  add column if not exists "qualifications" text[] not null default '{}';
+
+comment on column public.shifts."isOpenShift" is
+  'Unassigned shift that employees of the company may claim in the app.';
+comment on column public.shifts."requiredQualifications" is
+  'Qualifications an employee needs to work the shift, e.g. first-aid or forklift.';
+comment on column public.employees."qualifications" is
+  'Qualifications held by the employee; matched against shifts."requiredQualifications".';
+
+create index if not exists shifts_open_company_start_idx
+  on public.shifts ("companyId", "shiftStartingDate")
+  where "isOpenShift";
+
+create table if not exists public.shift_claims (
+  id uuid primary key default gen_random_uuid(),
+  "shiftId" uuid not null references public.shifts (id) on delete cascade,
+  "employeeId" uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'withdrawn')),
+  note text check (note is null or char_length(note) <= 500),
+  "reviewedAt" timestamptz,
+  "reviewedBy" uuid references auth.users (id) on delete set null,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+comment on table public.shift_claims is
+  'Employee requests to take over an open shift, reviewed by planners.';
+
+create unique index if not exists shift_claims_active_unique
+  on public.shift_claims ("shiftId", "employeeId")
+  where status in ('pending', 'approved');
+
+create index if not exists shift_claims_employee_updated_idx
+  on public.shift_claims ("employeeId", "updatedAt" desc);
+
+alter table public.shift_claims enable row level security;
+
+drop policy if exists "Employees can view own shift claims" on public.shift_claims;
+create policy "Employees can view own shift claims"
+  on public.shift_claims
+  for select
+  using ("employeeId" = auth.uid());
+
+-- Claims are written through the functions below only.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'shift_claims'
+  ) then
+    alter publication supabase_realtime add table public.shift_claims;
+  end if;
+end;
+$$;
+
+create or replace function public.resolve_open_shift_company(caller_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select company_id
+  from public.employee_company_links
+  where user_id = caller_id
+    and status = 'active'
+  order by updated_at desc
+  limit 1;
+$$;
+
+revoke all on function public.resolve_open_shift_company(uuid) from public;
+
+drop function if exists public.list_open_shifts(timestamptz, timestamptz);
+create or replace function public.list_open_shifts(window_from timestamptz, window_to timestamptz)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  caller_company_id uuid;
+  employee_qualifications text[];
+  shift_rows jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  caller_company_id := public.resolve_open_shift_company(caller_id);
+  if caller_company_id is null then
+    return jsonb_build_object('ok', false, 'status', 'not_linked');
+  end if;
+
+  select coalesce(e."qualifications", '{}')
+  into employee_qualifications
+  from public.employees e
+  where e.id = caller_id;
+
+  select coalesce(jsonb_agg(
+    to_jsonb(s) || jsonb_build_object('object', to_jsonb(o))
+    order by public.shift_starts_at(s), s.id
+  ), '[]'::jsonb)
+  into shift_rows
+  from public.shifts s
+  left join public.objects o on o.id = s."objectId"
+  where s."isOpenShift"
+    and s."companyId" = caller_company_id
+    -- The date bounds keep the index usable; the instants decide.
+    and s."shiftStartingDate" >= (greatest(window_from, now()) - interval '1 day')::date
+    and s."shiftStartingDate" < (window_to + interval '1 day')::date
+    and public.shift_starts_at(s) >= greatest(window_from, now())
+    and public.shift_starts_at(s) < window_to
+    and not exists (
+      select 1 from public.shift_assignments sa
+      where sa."shiftId" = s.id and sa."employeeId" = caller_id
+    );
+
+  return jsonb_build_object(
+    'ok', true,
+    'status', 'ok',
+    'shifts', shift_rows,
+    'qualifications', to_jsonb(coalesce(employee_qualifications, '{}'))
+  );
+end;
+$$;
+
+revoke all on function public.list_open_shifts(timestamptz, timestamptz) from public;
+grant execute on function public.list_open_shifts(timestamptz, timestamptz) to authenticated;
+
+drop function if exists public.claim_open_shift(uuid, text);
+create or replace function public.claim_open_shift(target_shift_id uuid, claim_note text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  caller_company_id uuid;
+  shift_record public.shifts%rowtype;
+  employee_qualifications text[];
+  created_claim public.shift_claims%rowtype;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  caller_company_id := public.resolve_open_shift_company(caller_id);
+  if caller_company_id is null then
+    return jsonb_build_object('ok', false, 'status', 'not_linked');
+  end if;
+
+  select s.*
+  into shift_record
+  from public.shifts s
+  where s.id = target_shift_id
+    and s."companyId" = caller_company_id
+  for share;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'not_found');
+  end if;
+
+  if not shift_record."isOpenShift" or public.shift_starts_at(shift_record) <= now() then
+    return jsonb_build_object('ok', false, 'status', 'not_open');
+  end if;
+
+  if exists (
+    select 1 from public.shift_assignments sa
+    where sa."shiftId" = target_shift_id and sa."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'already_assigned');
+  end if;
+
+  select coalesce(e."qualifications", '{}')
+  into employee_qualifications
+  from public.employees e
+  where e.id = caller_id;
+
+  if not (coalesce(shift_record."requiredQualifications", '{}') <@ coalesce(employee_qualifications, '{}')) then
+    return jsonb_build_object('ok', false, 'status', 'not_qualified');
+  end if;
+
+  insert into public.shift_claims ("shiftId", "employeeId", status, note)
+  values (target_shift_id, caller_id, 'pending', nullif(trim(claim_note), ''))
+  on conflict do nothing
+  returning * into created_claim;
+
+  if created_claim.id is null then
+    return jsonb_build_object('ok', false, 'status', 'already_claimed');
+  end if;
+
+  return jsonb_build_object(
+    'ok', true,
+    'status', 'pending',
+    'claimId', created_claim.id,
+    'createdAt', created_claim."createdAt"
+  );
+end;
+$$;
+
+revoke all on function public.claim_open_shift(uuid, text) from public;
+grant execute on function public.claim_open_shift(uuid, text) to authenticated;
+
+drop function if exists public.withdraw_shift_claim(uuid);
+create or replace function public.withdraw_shift_claim(target_claim_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  claim_status text;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select status
+  into claim_status
+  from public.shift_claims
+  where id = target_claim_id
+    and "employeeId" = caller_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'not_found');
+  end if;
+
+  if claim_status <> 'pending' then
+    return jsonb_build_object('ok', false, 'status', claim_status);
+  end if;
+
+  update public.shift_claims
+  set status = 'withdrawn',
+      "updatedAt" = now()
+  where id = target_claim_id;
+
+  return jsonb_build_object('ok', true, 'status', 'withdrawn');
+end;
+$$;
+
+revoke all on function public.withdraw_shift_claim(uuid) from public;
+grant execute on function public.withdraw_shift_claim(uuid) to authenticated;
@@ -0,0 +1,53 @@
+-- Rich shift details for the employee app: scheduled breaks, role, pay,
+-- dress code and attached files. Sites (objects) may carry their own dress
+-- code and files, which the app merges into every shift at the site.
+--
+-- "breaks" entries: {"start": "12:00", "end": "12:30", "paid": false}
+--   start/end are site wall-clock times or timestamps; {"minutes": 30} plans a
+--   break without a fixed time. "breakMinutes" is used when no entries exist.
+-- "premiums" entries: {"label": "Night", "percent": 25} or {"label": "Sunday", "amount": 10}
+-- "attachments" entries: {"name": "Briefing", "kind": "briefing" | "floor-plan" | "other",
+--   "url": "https://…"} or {"name": …, "path": "<storage object path>", "mimeType": …}
+
+alter table public.shifts
+  add column if not exists "breaks" jsonb not null default '[]'::jsonb,
+  add column if not exists "breakMinutes" integer check ("breakMinutes" is null or "breakMinutes" >= 0),
+  add column if not exists "role" text,
+  add column if not exists "hourlyRate" numeric(10, 2) check ("hourlyRate" is null or "hourlyRate" >= 0),
+  add column if not exists "currency" text not null default 'EUR' check ("currency" ~ '^[A-Z]{3}$'),
+  add column if not exists "premiums" jsonb not null default '[]'::jsonb,
+  add column if not exists "dressCode" text,
+  add column if not exists "attachments" jsonb not null default '[]'::jsonb;
+
+alter table public.objects
+  add column if not exists "dressCode" text,
+  add column if not exists "siteFiles" jsonb not null default '[]'::jsonb;
+
+alter table public.shifts
+  drop constraint if exists shifts_breaks_is_array,
+  add constraint shifts_breaks_is_array check (jsonb_typeof("breaks") = 'array'),
+  drop constraint if exists shifts_premiums_is_array,
+  add constraint shifts_premiums_is_array check (jsonb_typeof("premiums") = 'array'),
+  drop constraint if exists shifts_attachments_is_array,
+  add constraint shifts_attachments_is_array check (jsonb_typeof("attachments") = 'array');
+
+alter table public.objects
+  drop constraint if exists objects_site_files_is_array,
+  add constraint objects_site_files_is_array check (jsonb_typeof("siteFiles") = 'array');
+
+comment on column public.shifts."breaks" is
+  'Scheduled breaks: [{start, end, paid}] in site wall-clock time, or [{minutes}].';
+comment on column public.shifts."breakMinutes" is
+  'Total unpaid break minutes when no individual breaks are scheduled.';
+comment on column public.shifts."role" is
+  'Role or position worked on the shift, e.g. team lead or receptionist.';
+comment on column public.shifts."hourlyRate" is
+  'Base hourly pay for the shift in "currency".';
+comment on column public.shifts."premiums" is
+  'Pay premiums: [{label, percent}] on top of the hourly rate or [{label, amount}] per shift.';
+comment on column public.shifts."dressCode" is
+  'Dress code for the shift; falls back to objects."dressCode".';
+comment on column public.shifts."attachments" is
+  'Files for the shift: [{name, kind, url | path, mimeType}].';
+comment on column public.objects."siteFiles" is
+  'Files for every shift at the site, e.g. floor plans: [{name, kind, url | path, mimeType}].';
@@ -0,0 +1,26 @@
+-- Recurring shift series. Planners generate one shift row per occurrence and
+-- tag every row of a pattern with the same "seriesId", so the employee app can
+-- group them, answer the whole series at once and export a single RRULE.
+--
+-- "recurrenceRule" is an RFC 5545 RRULE without the "RRULE:" prefix, e.g.
+--   FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261231
+-- The app understands DAILY and WEEKLY rules with INTERVAL, BYDAY, COUNT and
+-- UNTIL. "seriesEndsOn" is the last day of the series when the rule has no UNTIL.
+
+alter table public.shifts
+  add column if not exists "seriesId" uuid,
+  add column if not exists "recurrenceRule" text,
+  add column if not exists "seriesEndsOn" date;
+
+alter table public.shifts
+  drop constraint if exists shifts_recurrence_rule_has_series,
+  add constraint shifts_recurrence_rule_has_series check ("recurrenceRule" is null or "seriesId" is not null);
+
+create index if not exists shifts_series_id_idx on public.shifts ("seriesId") where "seriesId" is not null;
+
+comment on column public.shifts."seriesId" is
+  'Shared by every occurrence of a recurring shift pattern.';
+comment on column public.shifts."recurrenceRule" is
+  'RFC 5545 RRULE of the series, e.g. FREQ=WEEKLY;BYDAY=MO,WE.';
+comment on column public.shifts."seriesEndsOn" is
+  'Last day of the series when the rule itself has no UNTIL.';
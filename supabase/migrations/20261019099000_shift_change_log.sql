@@ -0,0 +1,83 @@
+-- Per-shift change history for the employee app.
+-- Every insert and update of a shift stores full snapshots of the row (with its
+-- site embedded as "object", the shape the app selects) so the app can map both
+-- states with its regular shift adapters and show what changed, from what, and
+-- when. The insert entry ("before" is null) records what was first published.
+--
+-- Only the database writes to the log; employees can read the history of shifts
+-- they are assigned to.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.shift_change_log (
+  id uuid primary key default gen_random_uuid(),
+  "shiftId" uuid not null references public.shifts (id) on delete cascade,
+  "changedAt" timestamptz not null default now(),
+  "changedBy" uuid references auth.users (id) on delete set null,
+  "before" jsonb,
+  "after" jsonb not null
+);
+
+comment on table public.shift_change_log is
+  'Snapshots of shifts before and after each change; "before" is null for the published version.';
+
+create index if not exists shift_change_log_shift_changed_idx
+  on public.shift_change_log ("shiftId", "changedAt" desc);
+
+alter table public.shift_change_log enable row level security;
+
+drop policy if exists "Employees can view changes of assigned shifts" on public.shift_change_log;
+create policy "Employees can view changes of assigned shifts"
+  on public.shift_change_log
+  for select
+  using (
+    exists (
+      select 1
+      from public.shift_assignments assignment
+      where assignment."shiftId" = shift_change_log."shiftId"
+        and assignment."employeeId" = auth.uid()
+    )
+  );
+
+create or replace function public.shift_change_snapshot(shift_row public.shifts)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select to_jsonb(shift_row) || jsonb_build_object(
+    'object',
+    (select to_jsonb(site) from public.objects site where site.id = shift_row."objectId")
+  );
+$$;
+
+revoke all on function public.shift_change_snapshot(public.shifts) from public;
+
+create or replace function public.log_shift_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and (to_jsonb(new) - 'updatedAt') = (to_jsonb(old) - 'updatedAt') then
+    return new;
+  end if;
+
+  insert into public.shift_change_log ("shiftId", "changedBy", "before", "after")
+  values (
+    new.id,
+    auth.uid(),
+    case when tg_op = 'UPDATE' then public.shift_change_snapshot(old) end,
+    public.shift_change_snapshot(new)
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists shifts_log_change on public.shifts;
+create trigger shifts_log_change
+  after insert or update on public.shifts
+  for each row execute function public.log_shift_change();
@@ -0,0 +1,142 @@
+-- Co-worker roster for a shift in the employee app.
+-- Employees only read their own assignments, so the roster is served by a
+-- security definer function that checks the caller is assigned to the shift and
+-- applies every member's privacy settings:
+--   "rosterShareContact"  phone and email are shown to co-workers (opt-in)
+--   "rosterShowLastName"  the last name is shown; otherwise only the first name
+-- Declined assignments are left out. "isShiftLead" marks the shift lead.
+--
+-- list_shift_roster statuses:
+--   ok            members returned, including the caller ("isSelf")
+--   not_assigned  the caller has no assignment on the shift
+--
+-- update_roster_privacy statuses:
+--   updated    settings saved
+--   not_found  the caller has no employee record
+
+alter table public.employees
+  add column if not exists "rosterShareContact" boolean not null default false,
+  add column if not exists "rosterShowLastName" boolean not null default true;
+
+alter table public.shift_assignments
+  add column if not exists "isShiftLead" boolean not null default false,
+  add column if not exists "role" text;
+
+comment on column public.employees."rosterShareContact" is
+  'Employee opted in to showing phone and email to co-workers on shared shifts.';
+comment on column public.employees."rosterShowLastName" is
+  'Employee shows their last name on shift rosters; otherwise only the first name.';
+comment on column public.shift_assignments."isShiftLead" is
+  'Assignee leads the shift team.';
+comment on column public.shift_assignments."role" is
+  'Role of the assignee on this shift; falls back to the shift role.';
+
+drop function if exists public.list_shift_roster(uuid);
+create or replace function public.list_shift_roster(target_shift_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  caller_privacy jsonb;
+  members jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select jsonb_build_object(
+    'shareContact', coalesce(e."rosterShareContact", false),
+    'showLastName', coalesce(e."rosterShowLastName", true)
+  )
+  into caller_privacy
+  from public.employees e
+  where e.id = caller_id;
+
+  if not exists (
+    select 1
+    from public.shift_assignments a
+    where a."shiftId" = target_shift_id
+      and a."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_assigned', 'privacy', caller_privacy);
+  end if;
+
+  select coalesce(jsonb_agg(
+    jsonb_build_object(
+      'assignmentId', a.id,
+      'employeeId', a."employeeId",
+      'firstName', e."firstName",
+      'lastName', case when a."employeeId" = caller_id or coalesce(e."rosterShowLastName", true)
+        then e."lastName" end,
+      'role', coalesce(nullif(trim(a."role"), ''), nullif(trim(s."role"), '')),
+      'isLead', coalesce(a."isShiftLead", false),
+      'isSelf', a."employeeId" = caller_id,
+      'phone', case when a."employeeId" <> caller_id and coalesce(e."rosterShareContact", false)
+        then coalesce(
+          to_jsonb(e) ->> 'mobile',
+          to_jsonb(e) ->> 'phone',
+          to_jsonb(e) ->> 'phone_number',
+          to_jsonb(e) ->> 'phoneNumber'
+        ) end,
+      'email', case when a."employeeId" <> caller_id and coalesce(e."rosterShareContact", false)
+        then to_jsonb(e) ->> 'email' end
+    )
+    order by e."firstName", e."lastName", a.id
+  ), '[]'::jsonb)
+  into members
+  from public.shift_assignments a
+  join public.shifts s on s.id = a."shiftId"
+  left join public.employees e on e.id = a."employeeId"
+  where a."shiftId" = target_shift_id
+    and lower(replace(replace(coalesce(a."confirmationStatus", ''), '_', ' '), '-', ' '))
+      not in ('declined', 'declined by employee');
+
+  return jsonb_build_object('ok', true, 'status', 'ok', 'members', members, 'privacy', caller_privacy);
+end;
+$$;
+
+revoke all on function public.list_shift_roster(uuid) from public;
+grant execute on function public.list_shift_roster(uuid) to authenticated;
+
+drop function if exists public.update_roster_privacy(boolean, boolean);
+create or replace function public.update_roster_privacy(share_contact boolean, show_last_name boolean)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  saved public.employees%rowtype;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  update public.employees
+  set "rosterShareContact" = coalesce(share_contact, false),
+      "rosterShowLastName" = coalesce(show_last_name, true)
+  where id = caller_id
+  returning * into saved;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'not_found');
+  end if;
+
+  return jsonb_build_object(
+    'ok', true,
+    'status', 'updated',
+    'privacy', jsonb_build_object(
+      'shareContact', saved."rosterShareContact",
+      'showLastName', saved."rosterShowLastName"
+    )
+  );
+end;
+$$;
+
+revoke all on function public.update_roster_privacy(boolean, boolean) from public;
+grant execute on function public.update_roster_privacy(boolean, boolean) to authenticated;
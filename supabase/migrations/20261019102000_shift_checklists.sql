@@ -0,0 +1,248 @@
+-- Site task checklists per object, completed by employees during a live shift.
+-- Planners maintain the tasks of an object; every shift at that object shows
+-- them. The app keeps ticked tasks on the device while the shift runs and
+-- submits them at clock-out. Tasks marked "requiresPhoto" only count as done
+-- with a photo in the private 'shift-evidence' bucket under
+-- shift-checklists/<shiftId>/<auth.uid()>/.
+--
+-- list_shift_checklist statuses:
+--   ok            tasks of the shift's object plus the caller's submitted completions
+--   not_assigned  the caller has no assignment on the shift
+--
+-- submit_shift_checklist statuses:
+--   submitted     completions replaced; "missingRequired" lists required task ids not done
+--   not_assigned  the caller has no assignment on the shift
+--   not_found     no such shift
+--   invalid       payload is not an array of {taskId, completedAt, photoPath?, note?}
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.object_checklist_tasks (
+  id uuid primary key default gen_random_uuid(),
+  "objectId" uuid not null references public.objects (id) on delete cascade,
+  title text not null check (char_length(trim(title)) between 1 and 200),
+  details text,
+  "isRequired" boolean not null default true,
+  "requiresPhoto" boolean not null default false,
+  position integer not null default 0,
+  "isActive" boolean not null default true,
+  "createdAt" timestamptz not null default now()
+);
+
+comment on table public.object_checklist_tasks is
+  'Tasks employees tick off during every shift at an object.';
+comment on column public.object_checklist_tasks."requiresPhoto" is
+  'Task needs photo proof; without one it is not counted as done.';
+
+create index if not exists object_checklist_tasks_object_idx
+  on public.object_checklist_tasks ("objectId", position)
+  where "isActive";
+
+create table if not exists public.shift_task_completions (
+  id uuid primary key default gen_random_uuid(),
+  "shiftId" uuid not null references public.shifts (id) on delete cascade,
+  "taskId" uuid not null references public.object_checklist_tasks (id) on delete cascade,
+  "employeeId" uuid not null references auth.users (id) on delete cascade,
+  "completedAt" timestamptz not null,
+  "photoPath" text,
+  note text check (note is null or char_length(note) <= 500),
+  "submittedAt" timestamptz not null default now(),
+  unique ("shiftId", "taskId", "employeeId")
+);
+
+comment on table public.shift_task_completions is
+  'Checklist tasks an employee completed on a shift, submitted at clock-out.';
+
+alter table public.object_checklist_tasks enable row level security;
+alter table public.shift_task_completions enable row level security;
+
+drop policy if exists "Employees can view own task completions" on public.shift_task_completions;
+create policy "Employees can view own task completions"
+  on public.shift_task_completions
+  for select
+  using ("employeeId" = auth.uid());
+
+-- Tasks and completions are served and written through the functions below.
+
+insert into storage.buckets (id, name, public)
+values ('shift-evidence', 'shift-evidence', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Employees can upload own shift evidence" on storage.objects;
+create policy "Employees can upload own shift evidence"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (
+    bucket_id = 'shift-evidence'
+    and (storage.foldername(name))[3] = auth.uid()::text
+  );
+
+drop policy if exists "Employees can read own shift evidence" on storage.objects;
+create policy "Employees can read own shift evidence"
+  on storage.objects
+  for select
+  to authenticated
+  using (
+    bucket_id = 'shift-evidence'
+    and (storage.foldername(name))[3] = auth.uid()::text
+  );
+
+drop function if exists public.list_shift_checklist(uuid);
+create or replace function public.list_shift_checklist(target_shift_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  shift_object_id uuid;
+  tasks jsonb;
+  completions jsonb;
+  submitted_at timestamptz;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not exists (
+    select 1 from public.shift_assignments a
+    where a."shiftId" = target_shift_id and a."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_assigned');
+  end if;
+
+  select s."objectId" into shift_object_id from public.shifts s where s.id = target_shift_id;
+
+  select coalesce(jsonb_agg(
+    jsonb_build_object(
+      'id', t.id,
+      'title', t.title,
+      'details', t.details,
+      'isRequired', t."isRequired",
+      'requiresPhoto', t."requiresPhoto",
+      'position', t.position
+    )
+    order by t.position, t."createdAt", t.id
+  ), '[]'::jsonb)
+  into tasks
+  from public.object_checklist_tasks t
+  where t."objectId" = shift_object_id
+    and t."isActive";
+
+  select
+    coalesce(jsonb_agg(
+      jsonb_build_object(
+        'taskId', c."taskId",
+        'completedAt', c."completedAt",
+        'photoPath', c."photoPath",
+        'note', c.note
+      )
+      order by c."completedAt"
+    ), '[]'::jsonb),
+    max(c."submittedAt")
+  into completions, submitted_at
+  from public.shift_task_completions c
+  where c."shiftId" = target_shift_id
+    and c."employeeId" = caller_id;
+
+  return jsonb_build_object(
+    'ok', true,
+    'status', 'ok',
+    'tasks', tasks,
+    'completions', completions,
+    'submittedAt', submitted_at
+  );
+end;
+$$;
+
+revoke all on function public.list_shift_checklist(uuid) from public;
+grant execute on function public.list_shift_checklist(uuid) to authenticated;
+
+drop function if exists public.submit_shift_checklist(uuid, jsonb);
+create or replace function public.submit_shift_checklist(target_shift_id uuid, task_completions jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  shift_object_id uuid;
+  missing_required jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select s."objectId" into shift_object_id from public.shifts s where s.id = target_shift_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'not_found');
+  end if;
+
+  if not exists (
+    select 1 from public.shift_assignments a
+    where a."shiftId" = target_shift_id and a."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_assigned');
+  end if;
+
+  if task_completions is null or jsonb_typeof(task_completions) <> 'array' or exists (
+    select 1
+    from jsonb_array_elements(task_completions) entry
+    where jsonb_typeof(entry) <> 'object'
+      or coalesce(entry ->> 'taskId', '') !~* '^[0-9a-f-]{36}$'
+      or (entry ->> 'completedAt') is null
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'invalid');
+  end if;
+
+  -- The submission replaces earlier ones, so unticked tasks are removed.
+  delete from public.shift_task_completions c
+  where c."shiftId" = target_shift_id
+    and c."employeeId" = caller_id;
+
+  insert into public.shift_task_completions (
+    "shiftId", "taskId", "employeeId", "completedAt", "photoPath", note
+  )
+  select distinct on (t.id)
+    target_shift_id,
+    t.id,
+    caller_id,
+    (entry ->> 'completedAt')::timestamptz,
+    nullif(trim(entry ->> 'photoPath'), ''),
+    left(nullif(trim(entry ->> 'note'), ''), 500)
+  from jsonb_array_elements(task_completions) entry
+  join public.object_checklist_tasks t
+    on t.id = (entry ->> 'taskId')::uuid
+   and t."objectId" = shift_object_id
+  where not t."requiresPhoto"
+     or nullif(trim(entry ->> 'photoPath'), '') like 'shift-checklists/' || target_shift_id || '/' || caller_id || '/%'
+  order by t.id, (entry ->> 'completedAt')::timestamptz desc;
+
+  select coalesce(jsonb_agg(t.id order by t.position, t.id), '[]'::jsonb)
+  into missing_required
+  from public.object_checklist_tasks t
+  where t."objectId" = shift_object_id
+    and t."isActive"
+    and t."isRequired"
+    and not exists (
+      select 1 from public.shift_task_completions c
+      where c."shiftId" = target_shift_id
+        and c."employeeId" = caller_id
+        and c."taskId" = t.id
+    );
+
+  return jsonb_build_object(
+    'ok', true,
+    'status', 'submitted',
+    'missingRequired', missing_required,
+    'submittedAt', now()
+  );
+end;
+$$;
+
+revoke all on function public.submit_shift_checklist(uuid, jsonb) from public;
+grant execute on function public.submit_shift_checklist(uuid, jsonb) to authenticated;
@@ -0,0 +1,20 @@
+-- Geofences for QR clock-in. Sites (objects) carry their position and the
+-- radius an employee must be within; the app reads them through the embedded
+-- object of each shift and checks a fresh location fix before submitting.
+--
+-- The API repeats the check; see docs/backend-api-contracts.md.
+
+alter table public.objects
+  add column if not exists "latitude" double precision
+    check ("latitude" is null or "latitude" between -90 and 90),
+  add column if not exists "longitude" double precision
+    check ("longitude" is null or "longitude" between -180 and 180),
+  add column if not exists "geofenceRadiusMeters" integer not null default 150
+    check ("geofenceRadiusMeters" between 25 and 5000);
+
+comment on column public.objects."latitude" is
+  'Site latitude (WGS 84); QR clock-in is geofenced when latitude and longitude are set.';
+comment on column public.objects."longitude" is
+  'Site longitude (WGS 84).';
+comment on column public.objects."geofenceRadiusMeters" is
+  'How close to the site position an employee must be to clock in by QR.';
@@ -0,0 +1,223 @@
+-- Manual clock-in/out when the site QR code is missing or unreadable.
+-- Employees file a request for one of their shifts with a reason and, when
+-- available, a photo of the site and a location fix. Requests count towards
+-- monthly hours only once a supervisor approves them; until then the app shows
+-- them as "needs approval". Photos go to the private 'shift-evidence' bucket
+-- under manual-clock/<shiftId>/<auth.uid()>/.
+--
+-- request_manual_clock_event statuses:
+--   requested          request stored, waiting for approval
+--   already_requested  a request with this "clientRequestId" exists; it is returned
+--   not_assigned       the caller has no assignment on the shift
+--   not_found          no such shift
+--   outside_window     the time is in the future or more than 2 hours outside the shift
+--   invalid            unknown action or reason, missing note for 'other', or a
+--                      photo outside the caller's folder
+--
+-- list_manual_clock_requests returns the caller's requests for shifts starting
+-- in the given month (status 'ok').
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.manual_clock_requests (
+  id uuid primary key default gen_random_uuid(),
+  "clientRequestId" text not null,
+  "shiftId" uuid not null references public.shifts (id) on delete cascade,
+  "employeeId" uuid not null references auth.users (id) on delete cascade,
+  action text not null check (action in ('clock_in', 'clock_out')),
+  "requestedAt" timestamptz not null,
+  reason text not null check (reason in ('qr-missing', 'qr-damaged', 'scanner-failed', 'other')),
+  note text check (note is null or char_length(note) <= 500),
+  "photoPath" text,
+  latitude double precision check (latitude is null or latitude between -90 and 90),
+  longitude double precision check (longitude is null or longitude between -180 and 180),
+  "locationAccuracy" double precision,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  "reviewedAt" timestamptz,
+  "reviewedBy" uuid references auth.users (id) on delete set null,
+  "reviewNote" text,
+  "createdAt" timestamptz not null default now(),
+  unique ("employeeId", "clientRequestId")
+);
+
+comment on table public.manual_clock_requests is
+  'Clock-ins and clock-outs entered without a QR scan; they need supervisor approval before they count.';
+
+create index if not exists manual_clock_requests_shift_idx
+  on public.manual_clock_requests ("shiftId", "requestedAt");
+
+create index if not exists manual_clock_requests_pending_idx
+  on public.manual_clock_requests ("createdAt")
+  where status = 'pending';
+
+alter table public.manual_clock_requests enable row level security;
+
+drop policy if exists "Employees can view own manual clock requests" on public.manual_clock_requests;
+create policy "Employees can view own manual clock requests"
+  on public.manual_clock_requests
+  for select
+  using ("employeeId" = auth.uid());
+
+-- Requests are written through request_manual_clock_event only; review happens
+-- in the admin app.
+
+create or replace function public.manual_clock_request_json(request public.manual_clock_requests)
+returns jsonb
+language sql
+immutable
+set search_path = public
+as $$
+  select to_jsonb(request) - 'photoPath' - 'latitude' - 'longitude' - 'locationAccuracy' - 'reviewedBy'
+    || jsonb_build_object(
+      'hasPhoto', request."photoPath" is not null,
+      'hasLocation', request.latitude is not null
+    );
+$$;
+
+drop function if exists public.request_manual_clock_event(
+  text, uuid, text, timestamptz, text, text, text, double precision, double precision, double precision
+);
+create or replace function public.request_manual_clock_event(
+  client_request_id text,
+  target_shift_id uuid,
+  clock_action text,
+  requested_at timestamptz,
+  request_reason text,
+  request_note text default null,
+  photo_path text default null,
+  location_latitude double precision default null,
+  location_longitude double precision default null,
+  location_accuracy double precision default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  shift_record public.shifts%rowtype;
+  existing public.manual_clock_requests%rowtype;
+  saved public.manual_clock_requests%rowtype;
+  trimmed_note text := nullif(trim(coalesce(request_note, '')), '');
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select r.* into existing
+  from public.manual_clock_requests r
+  where r."employeeId" = caller_id
+    and r."clientRequestId" = client_request_id;
+
+  if found then
+    return jsonb_build_object(
+      'ok', true,
+      'status', 'already_requested',
+      'request', public.manual_clock_request_json(existing)
+    );
+  end if;
+
+  select s.* into shift_record from public.shifts s where s.id = target_shift_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'not_found');
+  end if;
+
+  if not exists (
+    select 1 from public.shift_assignments a
+    where a."shiftId" = target_shift_id and a."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_assigned');
+  end if;
+
+  if coalesce(trim(client_request_id), '') = ''
+    or clock_action not in ('clock_in', 'clock_out')
+    or request_reason not in ('qr-missing', 'qr-damaged', 'scanner-failed', 'other')
+    or (request_reason = 'other' and trimmed_note is null)
+    or char_length(coalesce(trimmed_note, '')) > 500
+    or (photo_path is not null
+      and photo_path not like 'manual-clock/' || target_shift_id || '/' || caller_id || '/%')
+    or (location_latitude is null) <> (location_longitude is null)
+  then
+    return jsonb_build_object('ok', false, 'status', 'invalid');
+  end if;
+
+  if requested_at is null
+    or requested_at > now() + interval '5 minutes'
+    or requested_at < public.shift_starts_at(shift_record) - interval '2 hours'
+    or requested_at > public.shift_ends_at(shift_record) + interval '2 hours'
+  then
+    return jsonb_build_object('ok', false, 'status', 'outside_window');
+  end if;
+
+  insert into public.manual_clock_requests (
+    "clientRequestId", "shiftId", "employeeId", action, "requestedAt", reason, note,
+    "photoPath", latitude, longitude, "locationAccuracy"
+  )
+  values (
+    client_request_id,
+    target_shift_id,
+    caller_id,
+    clock_action,
+    least(requested_at, now()),
+    request_reason,
+    trimmed_note,
+    photo_path,
+    location_latitude,
+    location_longitude,
+    location_accuracy
+  )
+  returning * into saved;
+
+  return jsonb_build_object('ok', true, 'status', 'requested', 'request', public.manual_clock_request_json(saved));
+end;
+$$;
+
+revoke all on function public.request_manual_clock_event(
+  text, uuid, text, timestamptz, text, text, text, double precision, double precision, double precision
+) from public;
+grant execute on function public.request_manual_clock_event(
+  text, uuid, text, timestamptz, text, text, text, double precision, double precision, double precision
+) to authenticated;
+
+drop function if exists public.list_manual_clock_requests(date);
+create or replace function public.list_manual_clock_requests(month_start date)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  window_start timestamptz := date_trunc('month', month_start)::timestamptz;
+  requests jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select coalesce(
+    jsonb_agg(
+      public.manual_clock_request_json(r) || jsonb_build_object(
+        'shiftTitle', coalesce(to_jsonb(s) ->> 'title', to_jsonb(s) ->> 'shiftTitle'),
+        'shiftStart', public.shift_starts_at(s),
+        'shiftEnd', public.shift_ends_at(s)
+      )
+      order by r."requestedAt"
+    ),
+    '[]'::jsonb
+  )
+  into requests
+  from public.manual_clock_requests r
+  join public.shifts s on s.id = r."shiftId"
+  where r."employeeId" = caller_id
+    and s."shiftStartingDate" >= window_start
+    and s."shiftStartingDate" < window_start + interval '1 month';
+
+  return jsonb_build_object('ok', true, 'status', 'ok', 'requests', requests);
+end;
+$$;
+
+revoke all on function public.list_manual_clock_requests(date) from public;
+grant execute on function public.list_manual_clock_requests(date) to authenticated;
@@ -0,0 +1,199 @@
+-- Breaks within a clocked-in shift, documented as German working-time law
+-- requires. Employees start and end a break with a button or by scanning the
+-- site code while clocked in; the app deducts finished breaks from the worked
+-- time in monthly hours until the Employee API reports "breakMinutes" itself.
+--
+-- record_shift_break statuses:
+--   started           a new break is running; it is returned
+--   ended             the running break of the shift was closed; it is returned
+--   already_recorded  an event with this client id was already applied
+--   already_on_break  break_start while a break is running
+--   not_on_break      break_end without a running break in the shift
+--   not_assigned      the caller has no assignment on the shift
+--   not_found         no such shift
+--   outside_shift     the time is in the future or more than 2 hours outside the shift
+--   invalid           unknown action or source, or a missing client id
+--
+-- list_shift_breaks returns the caller's breaks in shifts starting in the given
+-- month plus any break still running (status 'ok').
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.shift_breaks (
+  id uuid primary key default gen_random_uuid(),
+  "shiftId" uuid not null references public.shifts (id) on delete cascade,
+  "employeeId" uuid not null references auth.users (id) on delete cascade,
+  "startedAt" timestamptz not null,
+  "endedAt" timestamptz check ("endedAt" is null or "endedAt" >= "startedAt"),
+  "startEventId" text not null,
+  "endEventId" text,
+  "startSource" text not null check ("startSource" in ('scan', 'button')),
+  "endSource" text check ("endSource" is null or "endSource" in ('scan', 'button')),
+  "createdAt" timestamptz not null default now(),
+  unique ("employeeId", "startEventId"),
+  unique ("employeeId", "endEventId")
+);
+
+comment on table public.shift_breaks is
+  'Breaks taken during a clocked-in shift; worked time excludes them.';
+
+-- At most one running break per employee.
+create unique index if not exists shift_breaks_running_idx
+  on public.shift_breaks ("employeeId")
+  where "endedAt" is null;
+
+create index if not exists shift_breaks_shift_idx
+  on public.shift_breaks ("shiftId", "startedAt");
+
+alter table public.shift_breaks enable row level security;
+
+drop policy if exists "Employees can view own shift breaks" on public.shift_breaks;
+create policy "Employees can view own shift breaks"
+  on public.shift_breaks
+  for select
+  using ("employeeId" = auth.uid());
+
+-- Breaks are written through record_shift_break only; corrections happen in
+-- the admin app.
+
+create or replace function public.shift_break_json(entry public.shift_breaks)
+returns jsonb
+language sql
+immutable
+set search_path = public
+as $$
+  select to_jsonb(entry) - 'employeeId' - 'startEventId' - 'endEventId';
+$$;
+
+drop function if exists public.record_shift_break(text, uuid, text, timestamptz, text);
+create or replace function public.record_shift_break(
+  client_event_id text,
+  target_shift_id uuid,
+  break_action text,
+  occurred_at timestamptz,
+  event_source text default 'button'
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  shift_record public.shifts%rowtype;
+  existing public.shift_breaks%rowtype;
+  saved public.shift_breaks%rowtype;
+  event_at timestamptz := least(occurred_at, now());
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select b.* into existing
+  from public.shift_breaks b
+  where b."employeeId" = caller_id
+    and (b."startEventId" = client_event_id or b."endEventId" = client_event_id);
+
+  if found then
+    return jsonb_build_object(
+      'ok', true,
+      'status', 'already_recorded',
+      'break', public.shift_break_json(existing)
+    );
+  end if;
+
+  if coalesce(trim(client_event_id), '') = ''
+    or break_action not in ('break_start', 'break_end')
+    or event_source not in ('scan', 'button')
+  then
+    return jsonb_build_object('ok', false, 'status', 'invalid');
+  end if;
+
+  select s.* into shift_record from public.shifts s where s.id = target_shift_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'not_found');
+  end if;
+
+  if not exists (
+    select 1 from public.shift_assignments a
+    where a."shiftId" = target_shift_id and a."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_assigned');
+  end if;
+
+  if occurred_at is null
+    or occurred_at > now() + interval '5 minutes'
+    or occurred_at < public.shift_starts_at(shift_record) - interval '2 hours'
+    or occurred_at > public.shift_ends_at(shift_record) + interval '2 hours'
+  then
+    return jsonb_build_object('ok', false, 'status', 'outside_shift');
+  end if;
+
+  select b.* into existing
+  from public.shift_breaks b
+  where b."employeeId" = caller_id and b."endedAt" is null
+  for update;
+
+  if break_action = 'break_start' then
+    if found then
+      return jsonb_build_object('ok', false, 'status', 'already_on_break');
+    end if;
+
+    insert into public.shift_breaks ("shiftId", "employeeId", "startedAt", "startEventId", "startSource")
+    values (target_shift_id, caller_id, event_at, client_event_id, event_source)
+    returning * into saved;
+
+    return jsonb_build_object('ok', true, 'status', 'started', 'break', public.shift_break_json(saved));
+  end if;
+
+  if not found or existing."shiftId" <> target_shift_id then
+    return jsonb_build_object('ok', false, 'status', 'not_on_break');
+  end if;
+
+  update public.shift_breaks
+  set "endedAt" = greatest(event_at, existing."startedAt"),
+      "endEventId" = client_event_id,
+      "endSource" = event_source
+  where id = existing.id
+  returning * into saved;
+
+  return jsonb_build_object('ok', true, 'status', 'ended', 'break', public.shift_break_json(saved));
+end;
+$$;
+
+revoke all on function public.record_shift_break(text, uuid, text, timestamptz, text) from public;
+grant execute on function public.record_shift_break(text, uuid, text, timestamptz, text) to authenticated;
+
+drop function if exists public.list_shift_breaks(date);
+create or replace function public.list_shift_breaks(month_start date)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  window_start timestamptz := date_trunc('month', month_start)::timestamptz;
+  breaks jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select coalesce(jsonb_agg(public.shift_break_json(b) order by b."startedAt"), '[]'::jsonb)
+  into breaks
+  from public.shift_breaks b
+  join public.shifts s on s.id = b."shiftId"
+  where b."employeeId" = caller_id
+    and (
+      b."endedAt" is null
+      or (s."shiftStartingDate" >= window_start and s."shiftStartingDate" < window_start + interval '1 month')
+    );
+
+  return jsonb_build_object('ok', true, 'status', 'ok', 'breaks', breaks);
+end;
+$$;
+
+revoke all on function public.list_shift_breaks(date) from public;
+grant execute on function public.list_shift_breaks(date) to authenticated;
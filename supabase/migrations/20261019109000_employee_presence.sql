@@ -0,0 +1,148 @@
+-- Clock state for the signed-in employee in one call, replacing the app's
+-- lookups of the employees row by several id and email columns.
+--
+-- The Employee API writes an employee_clock_events row for every presence
+-- transition it applies (QR scan, kiosk, approved manual request), next to
+-- the employees."isLoggedIn" / "lastCheckInAt" / "lastCheckInTag" columns it
+-- already maintains. The table is published to realtime so the app updates
+-- the moment a transition lands.
+--
+-- get_employee_presence returns (status 'ok'):
+--   isClockedIn   from the caller's employees row, or their latest event
+--   clockedInAt   when the running clock-in started; null when clocked out
+--   activeShift   { id, title, objectTitle, start, end } of the running clock-in
+--   events        the caller's events since day_start (local midnight), oldest first
+--   serverTime
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.employee_clock_events (
+  id uuid primary key default gen_random_uuid(),
+  "employeeId" uuid not null references auth.users (id) on delete cascade,
+  "shiftId" uuid references public.shifts (id) on delete set null,
+  action text not null check (action in ('clock_in', 'clock_out')),
+  source text not null default 'qr' check (source in ('qr', 'kiosk', 'manual')),
+  "occurredAt" timestamptz not null,
+  "clientEventId" text,
+  "createdAt" timestamptz not null default now(),
+  unique ("employeeId", "clientEventId")
+);
+
+comment on table public.employee_clock_events is
+  'Presence transitions applied by the Employee API, one row per clock-in or clock-out.';
+
+create index if not exists employee_clock_events_employee_idx
+  on public.employee_clock_events ("employeeId", "occurredAt" desc);
+
+alter table public.employee_clock_events enable row level security;
+
+drop policy if exists "Employees can view own clock events" on public.employee_clock_events;
+create policy "Employees can view own clock events"
+  on public.employee_clock_events
+  for select
+  using ("employeeId" = auth.uid());
+
+-- Rows are written by the Employee API with the service role only.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'employee_clock_events'
+  ) then
+    alter publication supabase_realtime add table public.employee_clock_events;
+  end if;
+end;
+$$;
+
+drop function if exists public.get_employee_presence(timestamptz);
+create or replace function public.get_employee_presence(day_start timestamptz default null)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  window_start timestamptz := coalesce(day_start, date_trunc('day', now()));
+  employee_row jsonb;
+  latest public.employee_clock_events%rowtype;
+  is_clocked_in boolean := false;
+  clocked_in_at text;
+  active_tag text;
+  active_shift_id uuid;
+  active_shift jsonb;
+  today_events jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select to_jsonb(e) into employee_row from public.employees e where e.id = caller_id;
+
+  select ev.* into latest
+  from public.employee_clock_events ev
+  where ev."employeeId" = caller_id
+  order by ev."occurredAt" desc, ev."createdAt" desc
+  limit 1;
+
+  if employee_row is not null then
+    is_clocked_in := coalesce(employee_row->>'isLoggedIn', 'false') = 'true';
+    -- Passed through as stored; the app reads zone-less values as UTC.
+    clocked_in_at := employee_row->>'lastCheckInAt';
+    active_tag := trim(coalesce(employee_row->>'lastCheckInTag', ''));
+    if active_tag ~* '^shift:\s*[0-9a-f-]{36}$' then
+      active_shift_id := trim(substr(active_tag, length('shift:') + 1))::uuid;
+    end if;
+  elsif latest.id is not null then
+    is_clocked_in := latest.action = 'clock_in';
+    clocked_in_at := to_jsonb(latest."occurredAt") #>> '{}';
+    active_shift_id := latest."shiftId";
+  end if;
+
+  if is_clocked_in and active_shift_id is not null then
+    select jsonb_build_object(
+      'id', s.id,
+      'title', coalesce(to_jsonb(s) ->> 'title', o.title),
+      'objectTitle', o.title,
+      'start', public.shift_starts_at(s),
+      'end', public.shift_ends_at(s)
+    )
+    into active_shift
+    from public.shifts s
+    left join public.objects o on o.id = s."objectId"
+    where s.id = active_shift_id;
+  end if;
+
+  select coalesce(jsonb_agg(
+    jsonb_build_object(
+      'id', ev.id,
+      'shiftId', ev."shiftId",
+      'action', ev.action,
+      'source', ev.source,
+      'occurredAt', ev."occurredAt"
+    )
+    order by ev."occurredAt", ev."createdAt"
+  ), '[]'::jsonb)
+  into today_events
+  from public.employee_clock_events ev
+  where ev."employeeId" = caller_id
+    and ev."occurredAt" >= window_start
+    and ev."occurredAt" < window_start + interval '1 day';
+
+  return jsonb_build_object(
+    'ok', true,
+    'status', 'ok',
+    'isClockedIn', is_clocked_in,
+    'clockedInAt', case when is_clocked_in then clocked_in_at end,
+    'activeShift', active_shift,
+    'activeShiftId', case when is_clocked_in then active_shift_id end,
+    'events', today_events,
+    'serverTime', now()
+  );
+end;
+$$;
+
+revoke all on function public.get_employee_presence(timestamptz) from public;
+grant execute on function public.get_employee_presence(timestamptz) to authenticated;
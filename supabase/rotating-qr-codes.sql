@@ -0,0 +1,168 @@
+-- Rotating clock-in QR codes shown on a supervisor's device instead of a
+-- printed code. Each object (site) gets an HMAC secret; the display derives a
+-- new code every "stepSeconds" from it, so a photographed code stops working
+-- after two steps.
+--
+-- Code format: SHIFTOR_QR_CLOCK_IN:<base64url payload>.<base64url tag>
+--   payload  {"v":3,"kid":"...","objectId":"uuid","nbf":<s>,"exp":<s>}, nbf on a
+--            step boundary and exp = nbf + 2 * stepSeconds
+--   tag      first 32 bytes of HMAC-SHA-512(secret, <base64url payload>)
+--
+-- list_qr_display_objects returns the objects the caller may display, with
+-- their secrets and the server time (status 'ok').
+--
+-- check_rotating_qr_code is for the Employee API (service role only); it
+-- checks a scanned code at the scan instant and returns:
+--   valid              the code was current or one step old; objectId is set
+--   malformed          not a v3 code
+--   unknown_object     no rotation set up for the object
+--   unknown_key        kid differs from the object's current key
+--   invalid_signature  the tag does not match
+--   expired            the code is from another step
+
+-- Supabase installs pgcrypto in the extensions schema; calls are qualified so
+-- they resolve under `set search_path = public`.
+create schema if not exists extensions;
+create extension if not exists pgcrypto with schema extensions;
+
+create or replace function public.base64url_decode(value text)
+returns bytea
+language sql
+immutable
+set search_path = public
+as $$
+  select decode(
+    translate(value, '-_', '+/') || repeat('=', (4 - length(value) % 4) % 4),
+    'base64'
+  );
+$$;
+
+create table if not exists public.object_qr_rotations (
+  "objectId" uuid primary key references public.objects (id) on delete cascade,
+  kid text not null default 'default',
+  secret text not null default translate(rtrim(encode(extensions.gen_random_bytes(32), 'base64'), '='), '+/', '-_'),
+  "stepSeconds" integer not null default 30 check ("stepSeconds" between 10 and 300),
+  "displayEmployeeIds" uuid[] not null default '{}',
+  "createdAt" timestamptz not null default now(),
+  "rotatedAt" timestamptz not null default now()
+);
+
+comment on table public.object_qr_rotations is
+  'Secrets for rotating clock-in QR codes and the employees allowed to display them.';
+comment on column public.object_qr_rotations."displayEmployeeIds" is
+  'Supervisors whose app may show the rotating code for the object.';
+
+-- Secrets are read through list_qr_display_objects only; setup happens in the
+-- admin app.
+alter table public.object_qr_rotations enable row level security;
+
+drop function if exists public.list_qr_display_objects();
+create or replace function public.list_qr_display_objects()
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  display_objects jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select coalesce(jsonb_agg(
+    jsonb_build_object(
+      'objectId', r."objectId",
+      'title', o.title,
+      'kid', r.kid,
+      'secret', r.secret,
+      'stepSeconds', r."stepSeconds"
+    )
+    order by o.title, r."objectId"
+  ), '[]'::jsonb)
+  into display_objects
+  from public.object_qr_rotations r
+  join public.objects o on o.id = r."objectId"
+  where caller_id = any (r."displayEmployeeIds");
+
+  return jsonb_build_object('ok', true, 'status', 'ok', 'serverTime', now(), 'objects', display_objects);
+end;
+$$;
+
+revoke all on function public.list_qr_display_objects() from public;
+grant execute on function public.list_qr_display_objects() to authenticated;
+
+drop function if exists public.check_rotating_qr_code(text, timestamptz);
+create or replace function public.check_rotating_qr_code(qr_code text, scanned_at timestamptz default now())
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  token text := trim(coalesce(qr_code, ''));
+  encoded_payload text;
+  encoded_tag text;
+  claims jsonb;
+  rotation public.object_qr_rotations%rowtype;
+  current_step_start bigint;
+begin
+  if token not like 'SHIFTOR\_QR\_CLOCK\_IN:%' then
+    return jsonb_build_object('ok', false, 'status', 'malformed');
+  end if;
+  token := substr(token, length('SHIFTOR_QR_CLOCK_IN:') + 1);
+  encoded_payload := split_part(token, '.', 1);
+  encoded_tag := split_part(token, '.', 2);
+
+  begin
+    claims := convert_from(public.base64url_decode(encoded_payload), 'UTF8')::jsonb;
+  exception when others then
+    return jsonb_build_object('ok', false, 'status', 'malformed');
+  end;
+
+  if encoded_tag = '' or split_part(token, '.', 3) <> ''
+    or jsonb_typeof(claims) <> 'object'
+    or claims->>'v' is distinct from '3'
+    or jsonb_typeof(claims->'nbf') <> 'number'
+    or jsonb_typeof(claims->'exp') <> 'number'
+    or coalesce(claims->>'objectId', '') !~* '^[0-9a-f-]{36}$'
+  then
+    return jsonb_build_object('ok', false, 'status', 'malformed');
+  end if;
+
+  select r.* into rotation
+  from public.object_qr_rotations r
+  where r."objectId" = (claims->>'objectId')::uuid;
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'unknown_object');
+  end if;
+
+  if claims->>'kid' is distinct from rotation.kid then
+    return jsonb_build_object('ok', false, 'status', 'unknown_key');
+  end if;
+
+  if substring(
+      extensions.hmac(convert_to(encoded_payload, 'UTF8'), public.base64url_decode(rotation.secret), 'sha512')
+      from 1 for 32
+    ) <> public.base64url_decode(encoded_tag)
+  then
+    return jsonb_build_object('ok', false, 'status', 'invalid_signature');
+  end if;
+
+  current_step_start :=
+    floor(extract(epoch from scanned_at) / rotation."stepSeconds")::bigint * rotation."stepSeconds";
+  if (claims->>'nbf')::numeric not in (current_step_start, current_step_start - rotation."stepSeconds")
+    or (claims->>'exp')::numeric <> (claims->>'nbf')::numeric + 2 * rotation."stepSeconds"
+  then
+    return jsonb_build_object('ok', false, 'status', 'expired');
+  end if;
+
+  return jsonb_build_object('ok', true, 'status', 'valid', 'objectId', rotation."objectId");
+end;
+$$;
+
+revoke all on function public.check_rotating_qr_code(text, timestamptz) from public;
+grant execute on function public.check_rotating_qr_code(text, timestamptz) to service_role;
@@ -0,0 +1,34 @@
+-- Decline and tentative answers for shift assignments.
+-- Employees answer a published shift with confirmationStatus 'declined by employee'
+-- or 'tentative' and a reason category; planners read the reason to find cover.
+-- Confirming the shift afterwards clears the decline columns again.
+
+alter table public.shift_assignments
+  add column if not exists "declineReason" text,
+  add column if not exists "declineNote" text,
+  add column if not exists "declinedAt" timestamptz;
+
+alter table public.shift_assignments
+  drop constraint if exists shift_assignments_decline_reason_check;
+alter table public.shift_assignments
+  add constraint shift_assignments_decline_reason_check
+  check (
+    "declineReason" is null
+    or "declineReason" in ('illness', 'schedule-conflict', 'transport', 'personal', 'other')
+  );
+
+alter table public.shift_assignments
+  drop constraint if exists shift_assignments_decline_note_length_check;
+alter table public.shift_assignments
+  add constraint shift_assignments_decline_note_length_check
+  check ("declineNote" is null or char_length("declineNote") <= 500);
+
+comment on column public.shift_assignments."declineReason" is
+  'Why the employee declined or marked the shift tentative: illness, schedule-conflict, transport, personal or other.';
+comment on column public.shift_assignments."declineNote" is
+  'Optional free text from the employee; required by the app when the reason is other.';
+comment on column public.shift_assignments."declinedAt" is
+  'When the employee declined or marked the shift tentative.';
+
+comment on policy "Employees can confirm own shift assignments" on public.shift_assignments is
+  'Allows an authenticated employee to update confirmationStatus/confirmedAt and the decline columns on their own shift assignment rows.';
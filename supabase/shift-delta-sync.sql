@@ -0,0 +1,39 @@
+-- Incremental shift sync for the employee app.
+-- The app keeps a per-employee high-water mark and only requests assignments and
+-- shifts whose "updatedAt" is at or after that mark. Rows touched by SQL, RPCs or
+-- the admin tooling must therefore bump "updatedAt" in the database itself.
+-- The stamp is the statement's wall clock rather than the transaction start, and
+-- the app re-reads a few minutes before its mark, so a long transaction that
+-- commits after a newer one is still picked up.
+
+alter table public.shift_assignments
+  add column if not exists "updatedAt" timestamptz not null default now();
+
+alter table public.shifts
+  add column if not exists "updatedAt" timestamptz not null default now();
+
+create or replace function public.touch_updated_at_column()
+returns trigger
+language plpgsql
+as $$
+begin
+  new."updatedAt" := clock_timestamp();
+  return new;
+end;
+$$;
+
+drop trigger if exists shift_assignments_touch_updated_at on public.shift_assignments;
+create trigger shift_assignments_touch_updated_at
+  before insert or update on public.shift_assignments
+  for each row execute function public.touch_updated_at_column();
+
+drop trigger if exists shifts_touch_updated_at on public.shifts;
+create trigger shifts_touch_updated_at
+  before insert or update on public.shifts
+  for each row execute function public.touch_updated_at_column();
+
+create index if not exists shift_assignments_employee_updated_idx
+  on public.shift_assignments ("employeeId", "updatedAt");
+
+create index if not exists shifts_updated_idx
+  on public.shifts ("updatedAt");
@@ -0,0 +1,295 @@
+-- Handover notes between consecutive shifts at the same object.
+-- An employee writes a note when clocking out; it is addressed to the next shift
+-- at the same object (the first one starting after the author's shift) and shown
+-- to everyone assigned to it. Reading a note on the shift details records a read
+-- receipt the author can see.
+--
+-- Notes are written and read through the functions below only. Assignees of the
+-- recipient shift may select the note rows so the app receives realtime inserts
+-- and notifies them.
+--
+-- create_handover_note statuses:
+--   created       note saved; "recipientShiftId" is null when no next shift exists yet
+--   not_assigned  the caller has no assignment on the shift
+--   not_found     no such shift
+--   invalid       the note is empty or longer than 1000 characters
+--
+-- list_handover_notes statuses:
+--   ok            "incoming" notes from the previous shift and "outgoing" notes
+--                 written by the caller on this shift, with read receipts
+--   not_assigned  the caller has no assignment on the shift
+--
+-- mark_handover_note_read statuses:
+--   read          receipt saved (or already present)
+--   not_found     no such note addressed to a shift the caller is assigned to
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.shift_handover_notes (
+  id uuid primary key default gen_random_uuid(),
+  "shiftId" uuid not null references public.shifts (id) on delete cascade,
+  "objectId" uuid,
+  "recipientShiftId" uuid references public.shifts (id) on delete set null,
+  "authorId" uuid not null references auth.users (id) on delete cascade,
+  "authorName" text,
+  body text not null check (char_length(trim(body)) between 1 and 1000),
+  "createdAt" timestamptz not null default now()
+);
+
+comment on table public.shift_handover_notes is
+  'Notes an employee leaves at clock-out for the next shift at the same object.';
+comment on column public.shift_handover_notes."recipientShiftId" is
+  'Next shift at the object when the note was written; used to notify its assignees.';
+
+create index if not exists shift_handover_notes_shift_idx
+  on public.shift_handover_notes ("shiftId", "createdAt");
+
+create index if not exists shift_handover_notes_recipient_idx
+  on public.shift_handover_notes ("recipientShiftId", "createdAt");
+
+create table if not exists public.shift_handover_note_reads (
+  "noteId" uuid not null references public.shift_handover_notes (id) on delete cascade,
+  "readerId" uuid not null references auth.users (id) on delete cascade,
+  "readAt" timestamptz not null default now(),
+  primary key ("noteId", "readerId")
+);
+
+comment on table public.shift_handover_note_reads is
+  'Read receipts for handover notes, one per reader.';
+
+alter table public.shift_handover_notes enable row level security;
+alter table public.shift_handover_note_reads enable row level security;
+
+drop policy if exists "Recipients can view handover notes" on public.shift_handover_notes;
+create policy "Recipients can view handover notes"
+  on public.shift_handover_notes
+  for select
+  using (
+    "authorId" = auth.uid()
+    or exists (
+      select 1 from public.shift_assignments a
+      where a."shiftId" = shift_handover_notes."recipientShiftId"
+        and a."employeeId" = auth.uid()
+    )
+  );
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'shift_handover_notes'
+  ) then
+    alter publication supabase_realtime add table public.shift_handover_notes;
+  end if;
+end;
+$$;
+
+-- The shift at the same object that starts right after the given one.
+create or replace function public.next_handover_shift(source_shift_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select next_shift.id
+  from public.shifts source
+  join public.shifts next_shift
+    on next_shift."objectId" = source."objectId"
+   and next_shift.id <> source.id
+   and next_shift."shiftStartingDate" >= source."shiftStartingDate"
+   and public.shift_starts_at(next_shift) > public.shift_starts_at(source)
+  where source.id = source_shift_id
+  order by public.shift_starts_at(next_shift), next_shift.id
+  limit 1;
+$$;
+
+revoke all on function public.next_handover_shift(uuid) from public;
+
+drop function if exists public.create_handover_note(uuid, text);
+create or replace function public.create_handover_note(source_shift_id uuid, note_body text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  shift_record public.shifts%rowtype;
+  trimmed_body text := trim(coalesce(note_body, ''));
+  author_name text;
+  saved public.shift_handover_notes%rowtype;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select s.* into shift_record from public.shifts s where s.id = source_shift_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'not_found');
+  end if;
+
+  if not exists (
+    select 1 from public.shift_assignments a
+    where a."shiftId" = source_shift_id and a."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_assigned');
+  end if;
+
+  if char_length(trimmed_body) = 0 or char_length(trimmed_body) > 1000 then
+    return jsonb_build_object('ok', false, 'status', 'invalid');
+  end if;
+
+  select nullif(trim(coalesce(e."firstName", '') || ' ' || coalesce(e."lastName", '')), '')
+  into author_name
+  from public.employees e
+  where e.id = caller_id;
+
+  insert into public.shift_handover_notes (
+    "shiftId", "objectId", "recipientShiftId", "authorId", "authorName", body
+  )
+  values (
+    source_shift_id,
+    shift_record."objectId",
+    public.next_handover_shift(source_shift_id),
+    caller_id,
+    author_name,
+    trimmed_body
+  )
+  returning * into saved;
+
+  return jsonb_build_object(
+    'ok', true,
+    'status', 'created',
+    'note', to_jsonb(saved) || jsonb_build_object('reads', '[]'::jsonb)
+  );
+end;
+$$;
+
+revoke all on function public.create_handover_note(uuid, text) from public;
+grant execute on function public.create_handover_note(uuid, text) to authenticated;
+
+drop function if exists public.list_handover_notes(uuid);
+create or replace function public.list_handover_notes(target_shift_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  previous_shift_id uuid;
+  incoming jsonb;
+  outgoing jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not exists (
+    select 1 from public.shift_assignments a
+    where a."shiftId" = target_shift_id and a."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_assigned');
+  end if;
+
+  -- Notes written before this shift was planned still reach it: the previous
+  -- shift is resolved now rather than from "recipientShiftId".
+  select previous_shift.id
+  into previous_shift_id
+  from public.shifts target
+  join public.shifts previous_shift
+    on previous_shift."objectId" = target."objectId"
+   and previous_shift.id <> target.id
+   and previous_shift."shiftStartingDate" <= target."shiftStartingDate"
+   and public.shift_starts_at(previous_shift) < public.shift_starts_at(target)
+  where target.id = target_shift_id
+  order by public.shift_starts_at(previous_shift) desc, previous_shift.id desc
+  limit 1;
+
+  select coalesce(jsonb_agg(
+    to_jsonb(n) || jsonb_build_object('readAt', r."readAt")
+    order by n."createdAt"
+  ), '[]'::jsonb)
+  into incoming
+  from public.shift_handover_notes n
+  left join public.shift_handover_note_reads r
+    on r."noteId" = n.id and r."readerId" = caller_id
+  where n."recipientShiftId" = target_shift_id
+     or (previous_shift_id is not null and n."shiftId" = previous_shift_id and n."recipientShiftId" is null);
+
+  select coalesce(jsonb_agg(
+    to_jsonb(n) || jsonb_build_object(
+      'reads',
+      (
+        select coalesce(jsonb_agg(
+          jsonb_build_object(
+            'readerId', r."readerId",
+            'readerName', e."firstName",
+            'readAt', r."readAt"
+          )
+          order by r."readAt"
+        ), '[]'::jsonb)
+        from public.shift_handover_note_reads r
+        left join public.employees e on e.id = r."readerId"
+        where r."noteId" = n.id
+      )
+    )
+    order by n."createdAt"
+  ), '[]'::jsonb)
+  into outgoing
+  from public.shift_handover_notes n
+  where n."shiftId" = target_shift_id
+    and n."authorId" = caller_id;
+
+  return jsonb_build_object('ok', true, 'status', 'ok', 'incoming', incoming, 'outgoing', outgoing);
+end;
+$$;
+
+revoke all on function public.list_handover_notes(uuid) from public;
+grant execute on function public.list_handover_notes(uuid) to authenticated;
+
+drop function if exists public.mark_handover_note_read(uuid);
+create or replace function public.mark_handover_note_read(target_note_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  note_record public.shift_handover_notes%rowtype;
+  read_at timestamptz;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select n.* into note_record from public.shift_handover_notes n where n.id = target_note_id;
+  if not found or note_record."authorId" = caller_id or not exists (
+    select 1
+    from public.shift_assignments a
+    where a."employeeId" = caller_id
+      and a."shiftId" in (
+        note_record."recipientShiftId",
+        public.next_handover_shift(note_record."shiftId")
+      )
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_found');
+  end if;
+
+  insert into public.shift_handover_note_reads ("noteId", "readerId")
+  values (target_note_id, caller_id)
+  on conflict ("noteId", "readerId") do nothing;
+
+  select r."readAt" into read_at
+  from public.shift_handover_note_reads r
+  where r."noteId" = target_note_id and r."readerId" = caller_id;
+
+  return jsonb_build_object('ok', true, 'status', 'read', 'readAt', read_at);
+end;
+$$;
+
+revoke all on function public.mark_handover_note_read(uuid) from public;
+grant execute on function public.mark_handover_note_read(uuid) to authenticated;
@@ -0,0 +1,198 @@
+-- Incident and damage reports filed by employees from a shift.
+-- The app queues reports on the device, uploads photos to the private
+-- 'shift-evidence' bucket under shift-incidents/<shiftId>/<auth.uid()>/ and then
+-- submits the report. "clientReportId" is generated on the device so a replayed
+-- submission never creates a second report.
+--
+-- submit_incident_report statuses:
+--   submitted          report stored
+--   already_submitted  a report with this "clientReportId" exists; it is returned
+--   not_assigned       the caller has no assignment on the shift
+--   not_found          no such shift
+--   invalid            unknown category or severity, empty description, more than
+--                      5 photos or a photo outside the caller's folder
+--
+-- list_incident_reports statuses:
+--   ok            the caller's reports for the shift, newest first
+--   not_assigned  the caller has no assignment on the shift
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.shift_incident_reports (
+  id uuid primary key default gen_random_uuid(),
+  "clientReportId" text not null,
+  "shiftId" uuid not null references public.shifts (id) on delete cascade,
+  "objectId" uuid,
+  "employeeId" uuid not null references auth.users (id) on delete cascade,
+  category text not null check (category in ('damage', 'injury', 'security', 'safety-hazard', 'theft', 'other')),
+  severity text not null check (severity in ('low', 'medium', 'high', 'critical')),
+  description text not null check (char_length(trim(description)) between 1 and 2000),
+  "occurredAt" timestamptz not null,
+  "locationNote" text check ("locationNote" is null or char_length("locationNote") <= 200),
+  "photoPaths" text[] not null default '{}' check (cardinality("photoPaths") <= 5),
+  status text not null default 'open' check (status in ('open', 'acknowledged', 'resolved')),
+  "createdAt" timestamptz not null default now(),
+  unique ("employeeId", "clientReportId")
+);
+
+comment on table public.shift_incident_reports is
+  'Structured incident and damage reports employees file from a shift for supervisors.';
+comment on column public.shift_incident_reports."locationNote" is
+  'Where on site it happened, e.g. loading bay 3.';
+
+create index if not exists shift_incident_reports_shift_idx
+  on public.shift_incident_reports ("shiftId", "createdAt" desc);
+
+create index if not exists shift_incident_reports_open_idx
+  on public.shift_incident_reports ("objectId", "createdAt" desc)
+  where status = 'open';
+
+alter table public.shift_incident_reports enable row level security;
+
+drop policy if exists "Employees can view own incident reports" on public.shift_incident_reports;
+create policy "Employees can view own incident reports"
+  on public.shift_incident_reports
+  for select
+  using ("employeeId" = auth.uid());
+
+-- Reports are written through submit_incident_report only. Photos share the
+-- 'shift-evidence' bucket and its per-employee folder policies with the site
+-- checklists (supabase/shift-checklists.sql).
+
+create or replace function public.incident_report_json(report public.shift_incident_reports)
+returns jsonb
+language sql
+immutable
+set search_path = public
+as $$
+  select to_jsonb(report) - 'photoPaths' || jsonb_build_object('photoCount', cardinality(report."photoPaths"));
+$$;
+
+drop function if exists public.submit_incident_report(text, uuid, text, text, text, timestamptz, text, text[]);
+create or replace function public.submit_incident_report(
+  client_report_id text,
+  target_shift_id uuid,
+  report_category text,
+  report_severity text,
+  report_description text,
+  occurred_at timestamptz,
+  location_note text default null,
+  photo_paths text[] default '{}'
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  shift_object_id uuid;
+  existing public.shift_incident_reports%rowtype;
+  saved public.shift_incident_reports%rowtype;
+  trimmed_description text := trim(coalesce(report_description, ''));
+  paths text[] := coalesce(photo_paths, '{}');
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select r.* into existing
+  from public.shift_incident_reports r
+  where r."employeeId" = caller_id
+    and r."clientReportId" = client_report_id;
+
+  if found then
+    return jsonb_build_object(
+      'ok', true,
+      'status', 'already_submitted',
+      'report', public.incident_report_json(existing)
+    );
+  end if;
+
+  select s."objectId" into shift_object_id from public.shifts s where s.id = target_shift_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'status', 'not_found');
+  end if;
+
+  if not exists (
+    select 1 from public.shift_assignments a
+    where a."shiftId" = target_shift_id and a."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_assigned');
+  end if;
+
+  if coalesce(trim(client_report_id), '') = ''
+    or report_category not in ('damage', 'injury', 'security', 'safety-hazard', 'theft', 'other')
+    or report_severity not in ('low', 'medium', 'high', 'critical')
+    or char_length(trimmed_description) not between 1 and 2000
+    or occurred_at is null
+    or cardinality(paths) > 5
+    or exists (
+      select 1 from unnest(paths) path
+      where path not like 'shift-incidents/' || target_shift_id || '/' || caller_id || '/%'
+    )
+  then
+    return jsonb_build_object('ok', false, 'status', 'invalid');
+  end if;
+
+  insert into public.shift_incident_reports (
+    "clientReportId", "shiftId", "objectId", "employeeId", category, severity,
+    description, "occurredAt", "locationNote", "photoPaths"
+  )
+  values (
+    client_report_id,
+    target_shift_id,
+    shift_object_id,
+    caller_id,
+    report_category,
+    report_severity,
+    trimmed_description,
+    least(occurred_at, now()),
+    left(nullif(trim(location_note), ''), 200),
+    paths
+  )
+  returning * into saved;
+
+  return jsonb_build_object('ok', true, 'status', 'submitted', 'report', public.incident_report_json(saved));
+end;
+$$;
+
+revoke all on function public.submit_incident_report(text, uuid, text, text, text, timestamptz, text, text[]) from public;
+grant execute on function public.submit_incident_report(text, uuid, text, text, text, timestamptz, text, text[])
+  to authenticated;
+
+drop function if exists public.list_incident_reports(uuid);
+create or replace function public.list_incident_reports(target_shift_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  caller_id uuid := auth.uid();
+  reports jsonb;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not exists (
+    select 1 from public.shift_assignments a
+    where a."shiftId" = target_shift_id and a."employeeId" = caller_id
+  ) then
+    return jsonb_build_object('ok', false, 'status', 'not_assigned');
+  end if;
+
+  select coalesce(jsonb_agg(public.incident_report_json(r) order by r."createdAt" desc), '[]'::jsonb)
+  into reports
+  from public.shift_incident_reports r
+  where r."shiftId" = target_shift_id
+    and r."employeeId" = caller_id;
+
+  return jsonb_build_object('ok', true, 'status', 'ok', 'reports', reports);
+end;
+$$;
+
+revoke all on function public.list_incident_reports(uuid) from public;
+grant execute on function public.list_incident_reports(uuid) to authenticated;
@@ -0,0 +1,43 @@
+-- Site time zones for shifts.
+-- Date and time columns on a shift are wall-clock values at the site. The app
+-- resolves them in "timeZone" (an IANA name such as 'Europe/Berlin'); when the
+-- shift has none it falls back to a "timeZone" column on the embedded object.
+
+alter table public.shifts
+  add column if not exists "timeZone" text;
+
+comment on column public.shifts."timeZone" is
+  'IANA time zone of the site. Shift date/time columns are interpreted in this zone.';
+
+-- The instants a shift starts and ends. "shiftStartingDate"/"shiftEndingDate"
+-- hold the calendar day only; the wall-clock time is in "shiftStartingTime"/
+-- "shiftEndingTime". Shifts without a zone are read as UTC. An end at or before
+-- the start is the next day, like the app's ensureShiftEndAfterStart.
+create or replace function public.shift_starts_at(shift public.shifts)
+returns timestamptz
+language sql
+stable
+set search_path = public
+as $$
+  select (shift."shiftStartingDate"::date + coalesce(shift."shiftStartingTime"::time, time '00:00'))
+    at time zone coalesce(nullif(shift."timeZone", ''), 'UTC');
+$$;
+
+create or replace function public.shift_ends_at(shift public.shifts)
+returns timestamptz
+language sql
+stable
+set search_path = public
+as $$
+  select case when ends_at <= starts_at then ends_at + interval '1 day' else ends_at end
+  from (
+    select
+      public.shift_starts_at(shift) as starts_at,
+      (coalesce(shift."shiftEndingDate", shift."shiftStartingDate")::date
+        + coalesce(shift."shiftEndingTime"::time, time '00:00'))
+        at time zone coalesce(nullif(shift."timeZone", ''), 'UTC') as ends_at
+  ) instants;
+$$;
+
+grant execute on function public.shift_starts_at(public.shifts) to authenticated;
+grant execute on function public.shift_ends_at(public.shifts) to authenticated;
@@ -0,0 +1,9 @@
+-- Date-windowed shift queries for the employee app.
+-- The app pages through shifts by ("shiftStartingDate", id) inside a month window
+-- and joins the employee's assignment, so both sides need matching indexes.
+
+create index if not exists shifts_starting_date_id_idx
+  on public.shifts ("shiftStartingDate", id);
+
+create index if not exists shift_assignments_employee_shift_idx
+  on public.shift_assignments ("employeeId", "shiftId");
@@ -0,0 +1,54 @@
+import assert from 'assert';
+import { createHash, createHmac } from 'crypto';
+import { verifyEd25519 } from '../src/shared/utils/ed25519';
+import { hmacSha512, sha512 } from '../src/shared/utils/sha512';
+
+const fromHex = (value: string) => Uint8Array.from(Buffer.from(value, 'hex'));
+const toHex = (value: Uint8Array) => Buffer.from(value).toString('hex');
+
+assert.strictEqual(
+  toHex(sha512(new TextEncoder().encode('abc'))),
+  'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a' +
+    '2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f'
+);
+assert.strictEqual(
+  toHex(sha512(new Uint8Array())),
+  'cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce' +
+    '47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e'
+);
+// Messages crossing the 112-byte padding boundary need a second block.
+assert.strictEqual(
+  toHex(sha512(new TextEncoder().encode('a'.repeat(112)))),
+  createHash('sha512').update('a'.repeat(112)).digest('hex')
+);
+
+// Keys longer than the 128-byte block are hashed first.
+[new TextEncoder().encode('rotation-secret'), new Uint8Array(200).fill(7)].forEach((key) => {
+  const message = new TextEncoder().encode('eyJ2IjozfQ');
+  assert.strictEqual(
+    toHex(hmacSha512(key, message)),
+    createHmac('sha512', Buffer.from(key)).update(Buffer.from(message)).digest('hex')
+  );
+});
+
+// RFC 8032, section 7.1, tests 1 and 2.
+const publicKey1 = fromHex('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+const signature1 = fromHex(
+  'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b'
+);
+const publicKey2 = fromHex('3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c');
+const signature2 = fromHex(
+  '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00'
+);
+
+assert.strictEqual(verifyEd25519(signature1, new Uint8Array(), publicKey1), true);
+assert.strictEqual(verifyEd25519(signature2, fromHex('72'), publicKey2), true);
+assert.strictEqual(verifyEd25519(signature2, fromHex('73'), publicKey2), false);
+assert.strictEqual(verifyEd25519(signature1, new Uint8Array(), publicKey2), false);
+
+const tampered = Uint8Array.from(signature2);
+tampered[40] ^= 0x01;
+assert.strictEqual(verifyEd25519(tampered, fromHex('72'), publicKey2), false);
+assert.strictEqual(verifyEd25519(signature2.subarray(0, 63), fromHex('72'), publicKey2), false);
+
+console.log('tests/ed25519.test.ts OK');
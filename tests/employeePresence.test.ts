@@ -0,0 +1,99 @@
+import assert from 'assert';
+import {
+  EMPTY_EMPLOYEE_PRESENCE,
+  applyPresenceClockEvent,
+  getPresenceDayStart,
+  parseEmployeePresence,
+  parsePresenceClockEvent,
+  parsePresenceDate,
+} from '../src/features/shifts/employeePresence';
+
+assert.strictEqual(parsePresenceDate('2026-10-19T08:00:00')?.toISOString(), '2026-10-19T08:00:00.000Z');
+assert.strictEqual(parsePresenceDate('2026-10-19T10:00:00+02:00')?.toISOString(), '2026-10-19T08:00:00.000Z');
+assert.strictEqual(parsePresenceDate('not a date'), null);
+assert.strictEqual(parsePresenceDate(''), null);
+
+const dayStart = getPresenceDayStart(new Date(2026, 9, 19, 15, 30));
+assert.strictEqual(dayStart.getTime(), new Date(2026, 9, 19).getTime());
+
+const presence = parseEmployeePresence({
+  ok: true,
+  status: 'ok',
+  isClockedIn: true,
+  clockedInAt: '2026-10-19T08:00:00',
+  activeShiftId: 'shift-1',
+  activeShift: { id: 'shift-1', title: 'Early', objectTitle: 'Depot', start: '2026-10-19T08:00:00Z' },
+  events: [
+    { id: 'e1', shiftId: 'shift-1', action: 'clock_in', source: 'kiosk', occurredAt: '2026-10-19T08:00:00+00:00' },
+    { id: 'bad', action: 'teleport', occurredAt: '2026-10-19T09:00:00Z' },
+  ],
+});
+assert.strictEqual(presence.isClockedIn, true);
+assert.strictEqual(presence.clockedInAt?.toISOString(), '2026-10-19T08:00:00.000Z');
+assert.strictEqual(presence.activeShiftId, 'shift-1');
+assert.strictEqual(presence.activeShift?.objectTitle, 'Depot');
+assert.deepStrictEqual(
+  presence.events.map((event) => [event.id, event.source]),
+  [['e1', 'kiosk']]
+);
+
+const clockedOut = parseEmployeePresence({
+  status: 'ok',
+  isClockedIn: false,
+  clockedInAt: '2026-10-19T08:00:00Z',
+  activeShiftId: 'shift-1',
+  events: null,
+});
+assert.strictEqual(clockedOut.clockedInAt, null);
+assert.strictEqual(clockedOut.activeShiftId, null);
+assert.deepStrictEqual(clockedOut.events, []);
+
+assert.throws(() => parseEmployeePresence(null), /invalid response/);
+assert.throws(() => parseEmployeePresence({ status: 'nope' }), /unknown status/);
+
+assert.strictEqual(parsePresenceClockEvent({ id: 'x', action: 'clock_in' }), null);
+assert.strictEqual(
+  parsePresenceClockEvent({ id: 'x', action: 'clock_out', occurredAt: '2026-10-19T12:00:00Z' })?.source,
+  'qr'
+);
+
+const eventDay = new Date('2026-10-19T00:00:00Z');
+const clockOut = parsePresenceClockEvent({
+  id: 'e2',
+  shiftId: 'shift-1',
+  action: 'clock_out',
+  source: 'qr',
+  occurredAt: '2026-10-19T12:00:00Z',
+});
+assert.ok(clockOut);
+const afterClockOut = applyPresenceClockEvent(presence, clockOut, eventDay);
+assert.strictEqual(afterClockOut.isClockedIn, false);
+assert.strictEqual(afterClockOut.activeShift, null);
+assert.deepStrictEqual(
+  afterClockOut.events.map((event) => event.id),
+  ['e1', 'e2']
+);
+assert.strictEqual(applyPresenceClockEvent(afterClockOut, clockOut, eventDay), afterClockOut);
+
+const staleClockIn = applyPresenceClockEvent(
+  afterClockOut,
+  { id: 'e0', action: 'clock_in', source: 'qr', occurredAt: '2026-10-19T07:00:00.000Z' },
+  eventDay
+);
+assert.strictEqual(staleClockIn.isClockedIn, false);
+assert.deepStrictEqual(
+  staleClockIn.events.map((event) => event.id),
+  ['e0', 'e1', 'e2']
+);
+
+const clockIn = applyPresenceClockEvent(
+  EMPTY_EMPLOYEE_PRESENCE,
+  { id: 'e3', shiftId: 'shift-2', action: 'clock_in', source: 'manual', occurredAt: '2026-10-18T22:00:00.000Z' },
+  eventDay
+);
+assert.strictEqual(clockIn.isClockedIn, true);
+assert.strictEqual(clockIn.activeShiftId, 'shift-2');
+assert.strictEqual(clockIn.clockedInAt?.toISOString(), '2026-10-18T22:00:00.000Z');
+assert.deepStrictEqual(clockIn.events, []);
+
+console.log('tests/employeePresence.test.ts OK');
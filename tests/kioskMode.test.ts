@@ -0,0 +1,139 @@
+import assert from 'assert';
+import {
+  type KioskActivityEntry,
+  appendKioskActivity,
+  checkKioskExitPin,
+  createKioskSession,
+  getKioskExitLockMs,
+  isValidKioskPin,
+  parseKioskActivity,
+  parseKioskBadge,
+  parseKioskBadgeCode,
+  parseKioskEmployees,
+  parseKioskObjects,
+  parseKioskPinResult,
+  parseKioskSession,
+  recordKioskExitFailure,
+  resolveKioskRejection,
+} from '../src/features/shifts/kioskMode';
+
+const badge = 'SHIFTOR_BADGE:Zk3x-9qLm_2vT8wR4pYc';
+assert.strictEqual(parseKioskBadgeCode(`  ${badge}\n`), badge);
+assert.strictEqual(parseKioskBadgeCode('SHIFTOR_BADGE:short'), null);
+assert.strictEqual(parseKioskBadgeCode('SHIFTOR_BADGE:not a valid token!!'), null);
+assert.strictEqual(parseKioskBadgeCode('SHIFTOR_QR_CLOCK_IN:abc.def'), null);
+
+assert.strictEqual(isValidKioskPin('1234'), true);
+assert.strictEqual(isValidKioskPin('123456'), true);
+assert.strictEqual(isValidKioskPin('123'), false);
+assert.strictEqual(isValidKioskPin('1234567'), false);
+assert.strictEqual(isValidKioskPin('12a4'), false);
+
+assert.strictEqual(resolveKioskRejection('wrong_pin'), 'wrong_pin');
+assert.strictEqual(resolveKioskRejection('rate_limited'), 'rate_limited');
+assert.strictEqual(resolveKioskRejection('Internal error'), undefined);
+assert.strictEqual(resolveKioskRejection(undefined), undefined);
+
+const objects = parseKioskObjects({
+  ok: true,
+  status: 'ok',
+  objects: [
+    { objectId: 'object-1', title: 'HQ', allowPin: false, resetSeconds: 120 },
+    { objectId: 'object-2' },
+    { title: 'Missing id' },
+  ],
+});
+assert.deepStrictEqual(objects, [
+  { objectId: 'object-1', title: 'HQ', allowPin: false, resetSeconds: 60 },
+  { objectId: 'object-2', title: 'object-2', allowPin: true, resetSeconds: 8 },
+]);
+assert.throws(() => parseKioskObjects({ status: 'failed' }), /unknown status/);
+assert.throws(() => parseKioskObjects(null), /invalid response/);
+
+const employees = parseKioskEmployees({
+  ok: true,
+  status: 'ok',
+  employees: [
+    { employeeId: 'employee-1', firstName: 'Ana', lastName: 'Lopez', shiftId: 'shift-1' },
+    { employeeId: 'employee-2', firstName: 'Ben', lastName: null, shiftId: 'shift-2' },
+    { employeeId: 'employee-3' },
+  ],
+});
+assert.strictEqual(employees.ok, true);
+assert.deepStrictEqual(
+  employees.employees.map((employee) => employee.name),
+  ['Ana Lopez', 'Ben']
+);
+assert.deepStrictEqual(parseKioskEmployees({ ok: false, status: 'not_operator' }), {
+  ok: false,
+  status: 'not_operator',
+  employees: [],
+});
+
+assert.deepStrictEqual(parseKioskBadge({ ok: true, status: 'ok', badge, hasPin: true }), {
+  badge,
+  issuedAt: undefined,
+  hasPin: true,
+});
+assert.throws(() => parseKioskBadge({ ok: true, status: 'ok', badge: 'not-a-badge' }), /unknown status/);
+assert.deepStrictEqual(parseKioskPinResult({ ok: false, status: 'invalid' }), { ok: false, status: 'invalid' });
+assert.throws(() => parseKioskPinResult({ ok: true, status: 'stored' }), /unknown status/);
+
+const session = createKioskSession(
+  { object: objects[0], operatorId: 'operator-1', exitPin: '4711' },
+  new Date('2026-04-19T06:00:00Z'),
+  'salt-1'
+);
+assert.strictEqual(session.startedAt, '2026-04-19T06:00:00.000Z');
+assert.notStrictEqual(session.exitPinHash, '4711');
+assert.strictEqual(checkKioskExitPin(session, '4711'), true);
+assert.strictEqual(checkKioskExitPin(session, '4712'), false);
+assert.notStrictEqual(
+  createKioskSession({ object: objects[0], operatorId: 'operator-1', exitPin: '4711' }, new Date(), 'salt-2')
+    .exitPinHash,
+  session.exitPinHash
+);
+
+assert.deepStrictEqual(parseKioskSession(JSON.stringify(session)), session);
+assert.strictEqual(parseKioskSession(JSON.stringify({ objectId: 'object-1' })), null);
+assert.strictEqual(parseKioskSession('{not json'), null);
+assert.strictEqual(parseKioskSession(null), null);
+
+const lockNow = new Date('2026-04-19T07:00:00Z');
+assert.strictEqual(getKioskExitLockMs(session, lockNow), 0);
+const twoFailures = recordKioskExitFailure(recordKioskExitFailure(session, lockNow), lockNow);
+assert.strictEqual(twoFailures.failedExitAttempts, 2);
+assert.strictEqual(getKioskExitLockMs(twoFailures, lockNow), 0);
+const firstLock = recordKioskExitFailure(twoFailures, lockNow);
+assert.strictEqual(getKioskExitLockMs(firstLock, lockNow), 30 * 1000);
+assert.strictEqual(getKioskExitLockMs(firstLock, new Date('2026-04-19T07:00:31Z')), 0);
+assert.deepStrictEqual(parseKioskSession(JSON.stringify(firstLock)), firstLock);
+let repeated = firstLock;
+for (let index = 0; index < 3; index += 1) repeated = recordKioskExitFailure(repeated, lockNow);
+assert.strictEqual(getKioskExitLockMs(repeated, lockNow), 60 * 1000);
+for (let index = 0; index < 60; index += 1) repeated = recordKioskExitFailure(repeated, lockNow);
+assert.strictEqual(getKioskExitLockMs(repeated, lockNow), 60 * 60 * 1000);
+const { failedExitAttempts: _attempts, exitLockedUntil: _lockedUntil, ...legacySession } = session;
+assert.deepStrictEqual(parseKioskSession(JSON.stringify(legacySession)), session);
+
+const entry = (id: string): KioskActivityEntry => ({
+  id,
+  at: '2026-04-19T06:00:00Z',
+  method: 'badge',
+  status: 'success',
+  action: 'clock_in',
+});
+const log = [entry('a'), entry('b'), entry('c')].reduce<KioskActivityEntry[]>(
+  (current, next) => appendKioskActivity(current, next, 2),
+  []
+);
+assert.deepStrictEqual(
+  log.map((item) => item.id),
+  ['c', 'b']
+);
+assert.deepStrictEqual(
+  parseKioskActivity(JSON.stringify([entry('a'), { id: 'broken' }])).map((item) => item.id),
+  ['a']
+);
+
+console.log('tests/kioskMode.test.ts OK');
@@ -0,0 +1,192 @@
+import assert from 'assert';
+import {
+  MANUAL_CLOCK_NOTE_MAX_LENGTH,
+  applyManualClockRequests,
+  createManualClockSubmission,
+  getDefaultManualClockAction,
+  getManualClockShifts,
+  parseManualClockRequestResult,
+  parseManualClockRequests,
+  validateManualClockInput,
+  type ManualClockRequest,
+} from '../src/features/shifts/manualClock';
+import type { MonthlyHoursShiftTiming } from '../src/features/account/monthlyHoursParsing';
+import type { Shift } from '../src/features/shifts/shiftMapping';
+
+const buildShift = (id: string, start: string, end: string): Shift => ({
+  id,
+  title: `Shift ${id}`,
+  location: 'Main Lobby',
+  start,
+  end,
+  status: 'scheduled',
+});
+
+const buildRequest = (overrides: Partial<ManualClockRequest>): ManualClockRequest => ({
+  id: 'request-1',
+  shiftId: 'shift-1',
+  action: 'clock_in',
+  requestedAt: '2026-04-20T08:05:00Z',
+  reason: 'qr-damaged',
+  hasPhoto: false,
+  hasLocation: true,
+  status: 'pending',
+  createdAt: '2026-04-20T08:05:02Z',
+  ...overrides,
+});
+
+assert.strictEqual(validateManualClockInput({ reason: 'qr-missing' }), null);
+assert.strictEqual(validateManualClockInput({ reason: 'other', note: '   ' }), 'note-required');
+assert.strictEqual(validateManualClockInput({ reason: 'other', note: 'Door locked' }), null);
+assert.strictEqual(
+  validateManualClockInput({ reason: 'qr-damaged', note: 'x'.repeat(MANUAL_CLOCK_NOTE_MAX_LENGTH + 1) }),
+  'note-too-long'
+);
+
+const now = new Date('2026-04-20T10:00:00Z');
+const shifts = [
+  buildShift('later', '2026-04-20T11:30:00Z', '2026-04-20T18:00:00Z'),
+  buildShift('live', '2026-04-20T06:00:00Z', '2026-04-20T14:00:00Z'),
+  buildShift('tomorrow', '2026-04-21T08:00:00Z', '2026-04-21T16:00:00Z'),
+  buildShift('ended', '2026-04-19T22:00:00Z', '2026-04-20T08:30:00Z'),
+  buildShift('long-ago', '2026-04-19T08:00:00Z', '2026-04-19T16:00:00Z'),
+];
+assert.deepStrictEqual(
+  getManualClockShifts(shifts, now).map((shift) => shift.id),
+  ['ended', 'live', 'later']
+);
+
+assert.strictEqual(getDefaultManualClockAction(shifts[1], { now }), 'clock_in');
+assert.strictEqual(getDefaultManualClockAction(shifts[1], { now, isClockedInToShift: true }), 'clock_out');
+assert.strictEqual(getDefaultManualClockAction(shifts[3], { now }), 'clock_out');
+assert.strictEqual(
+  getDefaultManualClockAction(shifts[1], {
+    now,
+    requests: [buildRequest({ shiftId: 'live', action: 'clock_in' })],
+  }),
+  'clock_out'
+);
+assert.strictEqual(
+  getDefaultManualClockAction(shifts[1], {
+    now,
+    requests: [buildRequest({ shiftId: 'live', action: 'clock_in', status: 'rejected' })],
+  }),
+  'clock_in'
+);
+
+const submission = createManualClockSubmission(
+  { shiftId: 'live', action: 'clock_in', reason: 'qr-missing', note: '  Sticker gone  ', includeLocation: true },
+  { location: { latitude: 52.52, longitude: 13.405, accuracy: 12, capturedAt: now.toISOString() } },
+  now
+);
+assert.ok(submission.clientRequestId.startsWith(`manual-${now.getTime()}-`));
+assert.strictEqual(submission.requestedAt, now.toISOString());
+assert.strictEqual(submission.note, 'Sticker gone');
+assert.strictEqual(submission.location?.accuracy, 12);
+assert.strictEqual(submission.photoPath, undefined);
+
+assert.deepStrictEqual(parseManualClockRequestResult({ ok: false, status: 'outside_window' }), {
+  ok: false,
+  status: 'outside_window',
+  request: undefined,
+});
+assert.throws(() => parseManualClockRequestResult(null), /invalid response/);
+assert.throws(() => parseManualClockRequestResult({ ok: true, status: 'approved' }), /unknown status/);
+
+const parsed = parseManualClockRequests({
+  ok: true,
+  status: 'ok',
+  requests: [
+    {
+      id: 'request-2',
+      shiftId: 'shift-2',
+      action: 'clock_out',
+      requestedAt: '2026-04-20T16:00:00Z',
+      reason: 'unknown',
+      hasPhoto: true,
+      status: 'approved',
+      createdAt: '2026-04-20T16:00:01Z',
+    },
+    {
+      id: 'request-1',
+      shiftId: 'shift-1',
+      action: 'clock_in',
+      requestedAt: '2026-04-20T08:00:00Z',
+      reason: 'qr-damaged',
+      createdAt: '2026-04-20T08:00:01Z',
+    },
+    { id: 'broken' },
+  ],
+});
+assert.deepStrictEqual(
+  parsed.map((request) => [request.id, request.reason, request.status, request.hasPhoto]),
+  [
+    ['request-1', 'qr-damaged', 'pending', false],
+    ['request-2', 'other', 'approved', true],
+  ]
+);
+assert.throws(() => parseManualClockRequests({ ok: true, status: 'error' }), /unknown status/);
+
+const timings: MonthlyHoursShiftTiming[] = [
+  {
+    id: 'shift-1',
+    title: 'Front desk',
+    location: 'Main Lobby',
+    start: '2026-04-20T08:00:00Z',
+    end: '2026-04-20T16:00:00Z',
+    clockIn: null,
+    clockOut: '2026-04-20T16:02:00Z',
+    workedMinutes: 0,
+  },
+  {
+    id: 'shift-3',
+    title: 'Patrol',
+    location: 'Warehouse',
+    start: '2026-04-22T08:00:00Z',
+    end: '2026-04-22T16:00:00Z',
+    clockIn: '2026-04-22T08:00:00Z',
+    clockOut: '2026-04-22T16:00:00Z',
+    workedMinutes: 480,
+  },
+];
+
+assert.strictEqual(applyManualClockRequests(timings, []), timings);
+assert.strictEqual(
+  applyManualClockRequests(timings, [buildRequest({ status: 'rejected' }), buildRequest({ status: 'approved' })]),
+  timings
+);
+
+const merged = applyManualClockRequests(timings, [
+  buildRequest({ shiftId: 'shift-1', action: 'clock_in', requestedAt: '2026-04-20T08:05:00Z' }),
+  buildRequest({
+    id: 'request-4',
+    shiftId: 'shift-4',
+    action: 'clock_in',
+    requestedAt: '2026-04-21T07:58:00Z',
+    shiftTitle: 'Night patrol',
+    shiftStart: '2026-04-21T08:00:00Z',
+    shiftEnd: '2026-04-21T16:00:00Z',
+  }),
+]);
+assert.deepStrictEqual(
+  merged.map((timing) => [timing.id, timing.clockIn, timing.needsApproval]),
+  [
+    ['shift-1', '2026-04-20T08:05:00Z', true],
+    ['shift-4', '2026-04-21T07:58:00Z', true],
+    ['shift-3', '2026-04-22T08:00:00Z', undefined],
+  ]
+);
+assert.strictEqual(merged[0]?.clockOut, '2026-04-20T16:02:00Z');
+assert.strictEqual(merged[1]?.title, 'Night patrol');
+assert.strictEqual(merged[1]?.clockOut, null);
+
+const byShiftId = applyManualClockRequests(
+  [{ ...timings[1], id: 'row-3', shiftId: 'shift-3', clockIn: null }],
+  [buildRequest({ shiftId: 'shift-3', action: 'clock_in', requestedAt: '2026-04-22T08:01:00Z' })]
+);
+assert.deepStrictEqual(
+  byShiftId.map((timing) => [timing.id, timing.clockIn]),
+  [['row-3', '2026-04-22T08:01:00Z']]
+);
+
+console.log('tests/manualClock.test.ts OK');
@@ -33,6 +33,12 @@ assert.deepStrictEqual(parsed[0], {
   workedMinutes: 714,
 });
 
+const withRowIds = getMonthlyHoursShiftTimings({
+  rows: [{ id: 'row-1', shiftId: 'shift-1', firstClockInAt: '2026-04-19T08:04:00Z', workedMinutes: 60 }],
+});
+assert.strictEqual(withRowIds[0]?.id, 'row-1');
+assert.strictEqual(withRowIds[0]?.shiftId, 'shift-1');
+
 const fallbackShape = getMonthlyHoursShiftTimings({
   shiftEntries: [
     {
@@ -55,4 +61,32 @@ assert.strictEqual(fallbackShape[0]?.clockIn, '2026-04-21T09:05:00.000Z');
 assert.strictEqual(fallbackShape[0]?.clockOut, '2026-04-21T17:10:00.000Z');
 assert.strictEqual(fallbackShape[0]?.workedMinutes, 0);
 
+const approvalShape = getMonthlyHoursShiftTimings({
+  shifts: [
+    {
+      id: 'shift-4',
+      title: 'Night patrol',
+      clockIn: '2026-04-22T22:00:00Z',
+      workedMinutes: 0,
+      approvalStatus: 'pending',
+    },
+    {
+      id: 'shift-5',
+      title: 'Night patrol',
+      clockIn: '2026-04-23T22:00:00Z',
+      manual: true,
+      approvalStatus: 'approved',
+    },
+  ],
+});
+
+assert.strictEqual(approvalShape[0]?.needsApproval, true);
+assert.strictEqual(approvalShape[1]?.needsApproval, undefined);
+
+const withBreak = getMonthlyHoursShiftTimings({
+  rows: [{ shiftId: 'shift-6', clockIn: '2026-04-24T08:00:00Z', workedMinutes: 450, breakMinutes: 30.4 }],
+});
+assert.strictEqual(withBreak[0]?.breakMinutes, 30);
+assert.strictEqual(withBreak[0]?.workedMinutes, 450);
+
 console.log('tests/monthlyHours.test.ts OK');
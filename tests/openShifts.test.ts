@@ -0,0 +1,110 @@
+import assert from 'assert';
+import {
+  filterOpenShifts,
+  getLatestShiftClaims,
+  getOpenShiftFilterOptions,
+  isQualifiedForShift,
+  parseClaimOpenShiftResult,
+  parseOpenShiftListResult,
+  parseShiftClaimRow,
+  parseWithdrawShiftClaimResult,
+} from '../src/features/shifts/openShifts';
+
+const shift = (
+  id: string,
+  start: string,
+  extra: { objectName?: string; location?: string; qualifications?: string[] } = {}
+) => ({
+  id,
+  start,
+  timeZone: 'Europe/Berlin',
+  objectName: extra.objectName,
+  location: extra.location ?? 'Main street 1',
+  qualifications: extra.qualifications,
+});
+
+const shifts = [
+  shift('warehouse-early', '2026-07-01T05:00:00Z', { objectName: 'Warehouse', qualifications: ['Forklift'] }),
+  shift('office-late', '2026-07-01T22:30:00Z', { objectName: 'Office' }),
+  shift('street', '2026-07-02T08:00:00Z', { qualifications: ['First aid', 'forklift'] }),
+];
+
+assert.deepStrictEqual(getOpenShiftFilterOptions(shifts), {
+  qualifications: ['First aid', 'Forklift'],
+  sites: ['Main street 1', 'Office', 'Warehouse'],
+  // 22:30 UTC is already the next day in Berlin.
+  days: ['2026-07-01', '2026-07-02'],
+});
+
+assert.deepStrictEqual(
+  filterOpenShifts(shifts, { qualification: 'FORKLIFT' }).map((entry) => entry.id),
+  ['warehouse-early', 'street']
+);
+assert.deepStrictEqual(filterOpenShifts(shifts, { site: 'Office' }).map((entry) => entry.id), ['office-late']);
+assert.deepStrictEqual(
+  filterOpenShifts(shifts, { day: '2026-07-02' }).map((entry) => entry.id),
+  ['office-late', 'street']
+);
+assert.deepStrictEqual(
+  filterOpenShifts(shifts, { qualification: 'first aid', day: '2026-07-02' }).map((entry) => entry.id),
+  ['street']
+);
+assert.strictEqual(filterOpenShifts(shifts, {}).length, 3);
+
+assert.strictEqual(isQualifiedForShift(shifts[0], ['forklift ']), true);
+assert.strictEqual(isQualifiedForShift(shifts[2], ['Forklift']), false);
+assert.strictEqual(isQualifiedForShift(shifts[1], []), true);
+
+assert.deepStrictEqual(parseOpenShiftListResult({ ok: false, status: 'not_linked' }), {
+  status: 'not_linked',
+  rows: [],
+  qualifications: [],
+});
+assert.deepStrictEqual(
+  parseOpenShiftListResult({ ok: true, status: 'ok', shifts: [{ id: 's1' }, null], qualifications: ['Forklift', 3] }),
+  { status: 'ok', rows: [{ id: 's1' }], qualifications: ['Forklift'] }
+);
+assert.throws(() => parseOpenShiftListResult({ ok: true, status: 'weird' }), /unknown status/);
+assert.throws(() => parseOpenShiftListResult(null), /invalid response/);
+
+assert.deepStrictEqual(parseClaimOpenShiftResult({ ok: true, status: 'pending', claimId: 'c1' }), {
+  ok: true,
+  status: 'pending',
+  claimId: 'c1',
+});
+assert.deepStrictEqual(parseClaimOpenShiftResult({ ok: false, status: 'not_qualified' }), {
+  ok: false,
+  status: 'not_qualified',
+  claimId: undefined,
+});
+assert.throws(() => parseClaimOpenShiftResult({ ok: true, status: 'approved' }), /unknown status/);
+
+assert.deepStrictEqual(parseWithdrawShiftClaimResult({ ok: false, status: 'approved' }), {
+  ok: false,
+  status: 'approved',
+});
+assert.throws(() => parseWithdrawShiftClaimResult({ ok: true, status: 'gone' }), /unknown status/);
+
+assert.strictEqual(parseShiftClaimRow({ id: 'c1', shiftId: 's1', status: 'maybe' }), null);
+assert.deepStrictEqual(
+  parseShiftClaimRow({ id: 'c1', shiftId: 's1', status: 'pending', note: ' ', createdAt: '2026-06-01T10:00:00Z' }),
+  {
+    id: 'c1',
+    shiftId: 's1',
+    status: 'pending',
+    note: undefined,
+    createdAt: '2026-06-01T10:00:00Z',
+    updatedAt: '2026-06-01T10:00:00Z',
+    reviewedAt: undefined,
+  }
+);
+
+const latest = getLatestShiftClaims([
+  { id: 'old', shiftId: 's1', status: 'rejected', createdAt: '', updatedAt: '2026-06-01T10:00:00Z' },
+  { id: 'new', shiftId: 's1', status: 'pending', createdAt: '', updatedAt: '2026-06-02T10:00:00Z' },
+  { id: 'other', shiftId: 's2', status: 'withdrawn', createdAt: '', updatedAt: '2026-06-01T09:00:00Z' },
+]);
+assert.strictEqual(latest.get('s1')?.id, 'new');
+assert.strictEqual(latest.get('s2')?.status, 'withdrawn');
+
+console.log('tests/openShifts.test.ts OK');
@@ -1,5 +1,13 @@
 import assert from 'assert';
-import { findShiftForQrClockIn, parseQrClockInCode } from '../src/shared/utils/qrClockIn';
+import { generateKeyPairSync, sign } from 'crypto';
+import {
+  checkSignedQrClockInCode,
+  decodeBase64UrlBytes,
+  encodeBase64UrlBytes,
+  findShiftForQrClockIn,
+  parseQrClockInCode,
+} from '../src/shared/utils/qrClockIn';
+import { parseQrSigningKeys } from '../src/features/shifts/qrSigningKeys';
 import type { Shift } from '../src/features/shifts/shiftMapping';
 
 const shifts: Shift[] = [
@@ -21,6 +29,24 @@ const shifts: Shift[] = [
     end: '2026-03-01T16:00:00Z',
     status: 'scheduled',
   },
+  {
+    id: 'shift-3',
+    objectId: 'object-hq',
+    title: 'Evening desk',
+    location: 'HQ',
+    start: '2026-03-01T16:00:00Z',
+    end: '2026-03-01T22:00:00Z',
+    status: 'scheduled',
+  },
+  {
+    id: 'shift-4',
+    objectId: 'object-hq',
+    title: 'Morning desk',
+    location: 'HQ',
+    start: '2026-03-02T06:00:00Z',
+    end: '2026-03-02T12:00:00Z',
+    status: 'scheduled',
+  },
 ];
 
 assert.deepStrictEqual(parseQrClockInCode('shift:shift-1'), { shiftId: 'shift-1' });
@@ -41,4 +67,132 @@ assert.strictEqual(findShiftForQrClockIn('assignment:assignment-2', shifts)?.id,
 assert.strictEqual(findShiftForQrClockIn('{"assignmentId":"assignment-1"}', shifts)?.id, 'shift-1');
 assert.strictEqual(findShiftForQrClockIn('missing-shift', shifts), null);
 
+const rotatingCode = `SHIFTOR_QR_CLOCK_IN:${Buffer.from(
+  JSON.stringify({ v: 3, kid: 'default', objectId: 'object-hq', nbf: 1, exp: 2 })
+).toString('base64url')}.tag`;
+assert.deepStrictEqual(parseQrClockInCode(rotatingCode), { objectId: 'object-hq' });
+// Rotating codes name the site: the running shift there wins, otherwise the closest one.
+assert.strictEqual(findShiftForQrClockIn(rotatingCode, shifts, new Date('2026-03-01T17:00:00Z'))?.id, 'shift-3');
+assert.strictEqual(findShiftForQrClockIn(rotatingCode, shifts, new Date('2026-03-02T05:45:00Z'))?.id, 'shift-4');
+assert.strictEqual(findShiftForQrClockIn(rotatingCode, shifts.slice(0, 2)), null);
+
+assert.deepStrictEqual(Array.from(decodeBase64UrlBytes('AP8') ?? []), [0, 255]);
+assert.deepStrictEqual(Array.from(decodeBase64UrlBytes('-_-_') ?? []), [251, 255, 191]);
+assert.strictEqual(decodeBase64UrlBytes('a$b'), null);
+[[], [0], [0, 255], [251, 255, 191], [1, 2, 3, 4]].forEach((bytes) => {
+  const encoded = encodeBase64UrlBytes(Uint8Array.from(bytes));
+  assert.strictEqual(encoded, Buffer.from(bytes).toString('base64url'));
+  assert.deepStrictEqual(Array.from(decodeBase64UrlBytes(encoded) ?? []), bytes);
+});
+
+const createSigningKey = (kid: string) => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  return { kid, publicKey: publicKey.export({ format: 'jwk' }).x as string, privateKey };
+};
+const companyKey = createSigningKey('company-2026');
+const otherKey = createSigningKey('other-company');
+const keys = [{ kid: companyKey.kid, publicKey: companyKey.publicKey }];
+
+const signToken = (claims: Record<string, unknown>, key = companyKey) => {
+  const encodedPayload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = sign(null, Buffer.from(encodedPayload), key.privateKey).toString('base64url');
+  return `SHIFTOR_QR_CLOCK_IN:${encodedPayload}.${signature}`;
+};
+
+const now = new Date('2026-03-01T08:00:00Z');
+const nowSeconds = now.getTime() / 1000;
+const validToken = signToken({ v: 2, kid: 'company-2026', shiftId: 'shift-1', nbf: nowSeconds - 60, exp: nowSeconds + 300 });
+
+assert.deepStrictEqual(parseQrClockInCode(validToken), { shiftId: 'shift-1' });
+assert.deepStrictEqual(checkSignedQrClockInCode(validToken, keys, now), { status: 'valid' });
+assert.deepStrictEqual(checkSignedQrClockInCode(validToken, null, now), { status: 'unverified' });
+assert.deepStrictEqual(checkSignedQrClockInCode('shift:shift-1', keys, now), { status: 'unsigned' });
+assert.deepStrictEqual(
+  checkSignedQrClockInCode(signToken({ v: 2, shiftId: 'shift-1' }), keys, now),
+  { status: 'valid' }
+);
+
+assert.deepStrictEqual(
+  checkSignedQrClockInCode('SHIFTOR_QR_CLOCK_IN:eyJ2IjoyLCJzaGlmdElkIjoic2hpZnQtMiJ9.signature', keys, now),
+  { status: 'malformed' }
+);
+const otherSchemeToken = `SHIFTOR_QR_CLOCK_IN:${Buffer.from(JSON.stringify({ v: 2, shiftId: 'shift-2' })).toString(
+  'base64url'
+)}.${Buffer.alloc(32, 7).toString('base64url')}`;
+assert.deepStrictEqual(checkSignedQrClockInCode(otherSchemeToken, null, now), { status: 'unverified' });
+assert.deepStrictEqual(checkSignedQrClockInCode(otherSchemeToken, [], now), { status: 'unverified' });
+assert.deepStrictEqual(checkSignedQrClockInCode(otherSchemeToken, keys, now), { status: 'malformed' });
+// Printed v2 codes without a signature still go to the server unless they claim a company key.
+const encodeUnsignedToken = (claims: Record<string, unknown>) =>
+  `SHIFTOR_QR_CLOCK_IN:${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+const unsignedToken = encodeUnsignedToken({ v: 2, shiftId: 'shift-2' });
+assert.deepStrictEqual(parseQrClockInCode(unsignedToken), { shiftId: 'shift-2' });
+assert.deepStrictEqual(checkSignedQrClockInCode(unsignedToken, null, now), { status: 'unsigned' });
+assert.deepStrictEqual(checkSignedQrClockInCode(unsignedToken, keys, now), { status: 'unsigned' });
+assert.deepStrictEqual(checkSignedQrClockInCode(`${unsignedToken}.`, keys, now), { status: 'unsigned' });
+assert.deepStrictEqual(
+  checkSignedQrClockInCode(encodeUnsignedToken({ v: 2, shiftId: 'shift-2', exp: nowSeconds - 300 }), keys, now),
+  { status: 'expired', expiredAt: new Date((nowSeconds - 300) * 1000).toISOString() }
+);
+const unsignedKidToken = encodeUnsignedToken({ v: 2, kid: 'company-2026', shiftId: 'shift-2' });
+assert.deepStrictEqual(checkSignedQrClockInCode(unsignedKidToken, null, now), { status: 'unverified' });
+assert.deepStrictEqual(checkSignedQrClockInCode(unsignedKidToken, keys, now), { status: 'invalid-signature' });
+assert.deepStrictEqual(
+  checkSignedQrClockInCode(encodeUnsignedToken({ v: 3, objectId: 'object-hq', exp: nowSeconds + 60 }), null, now),
+  { status: 'malformed' }
+);
+assert.deepStrictEqual(
+  checkSignedQrClockInCode(signToken({ v: 1, shiftId: 'shift-1' }), keys, now),
+  { status: 'malformed' }
+);
+assert.deepStrictEqual(
+  checkSignedQrClockInCode(signToken({ v: 2, kid: 'other-company', shiftId: 'shift-1' }, otherKey), keys, now),
+  { status: 'unknown-key' }
+);
+assert.deepStrictEqual(
+  checkSignedQrClockInCode(signToken({ v: 2, kid: 'company-2026', shiftId: 'shift-1' }, otherKey), keys, now),
+  { status: 'invalid-signature' }
+);
+
+const [, validSignature] = validToken.split('.');
+const forgedPayload = Buffer.from(JSON.stringify({ v: 2, kid: 'company-2026', shiftId: 'shift-2' })).toString(
+  'base64url'
+);
+assert.deepStrictEqual(
+  checkSignedQrClockInCode(`SHIFTOR_QR_CLOCK_IN:${forgedPayload}.${validSignature}`, keys, now),
+  { status: 'invalid-signature' }
+);
+
+const expiredToken = signToken({ v: 2, kid: 'company-2026', shiftId: 'shift-1', exp: nowSeconds - 120 });
+assert.deepStrictEqual(checkSignedQrClockInCode(expiredToken, keys, now), {
+  status: 'expired',
+  expiredAt: '2026-03-01T07:58:00.000Z',
+});
+assert.strictEqual(checkSignedQrClockInCode(expiredToken, null, now).status, 'expired');
+// Within the clock skew allowance the token still counts as valid.
+assert.deepStrictEqual(
+  checkSignedQrClockInCode(signToken({ v: 2, shiftId: 'shift-1', exp: nowSeconds - 30 }), keys, now),
+  { status: 'valid' }
+);
+assert.deepStrictEqual(
+  checkSignedQrClockInCode(signToken({ v: 2, shiftId: 'shift-1', nbf: nowSeconds + 600 }), keys, now),
+  { status: 'not-yet-valid', validFrom: '2026-03-01T08:10:00.000Z' }
+);
+
+assert.deepStrictEqual(
+  parseQrSigningKeys({
+    keys: [
+      { kid: ' company-2026 ', alg: 'Ed25519', publicKey: companyKey.publicKey },
+      { kid: 'rsa', alg: 'RS256', publicKey: 'abc' },
+      { kid: 'empty', publicKey: '' },
+      { publicKey: otherKey.publicKey },
+    ],
+  }),
+  [
+    { kid: 'company-2026', publicKey: companyKey.publicKey },
+    { kid: undefined, publicKey: otherKey.publicKey },
+  ]
+);
+assert.deepStrictEqual(parseQrSigningKeys(null), []);
+
 console.log('tests/qrClockIn.test.ts OK');
@@ -0,0 +1,183 @@
+import assert from 'assert';
+import {
+  type ClockEventSubmitResponse,
+  type QueuedClockEvent,
+  type QueuedClockEventMeta,
+  buildQueuedClockEventMeta,
+  createQueuedClockEvent,
+  getPendingClockEvents,
+  getRejectedClockEvents,
+  inferQueuedClockAction,
+  isClockEventRejection,
+  parseQrClockQueue,
+  replayQueuedClockEvents,
+} from '../src/features/shifts/qrClockQueue';
+
+const scanTime = new Date('2026-10-19T07:58:00.000Z');
+const event = createQueuedClockEvent(
+  { qrCode: 'SHIFTOR_QR_CLOCK_IN:abc.sig', shiftId: 's1', expectedAction: 'clock_in' },
+  scanTime,
+  { sessionId: 'session-a', monotonicMs: 1_000 }
+);
+assert.match(event.id, /^clock-\d+-[a-z0-9]+$/);
+assert.strictEqual(event.scannedAt, scanTime.toISOString());
+assert.strictEqual(event.monotonicMs, 1_000);
+assert.strictEqual(event.sessionId, 'session-a');
+assert.strictEqual(event.attempts, 0);
+
+assert.deepStrictEqual(buildQueuedClockEventMeta(event, { sessionId: 'session-a', monotonicMs: 61_000 }), {
+  eventId: event.id,
+  scannedAt: event.scannedAt,
+  elapsedSinceScanMs: 60_000,
+  attempts: 1,
+});
+// After an app restart the monotonic clock no longer relates to the scan.
+assert.strictEqual(
+  buildQueuedClockEventMeta(event, { sessionId: 'session-b', monotonicMs: 61_000 }).elapsedSinceScanMs,
+  undefined
+);
+assert.strictEqual(
+  buildQueuedClockEventMeta({ ...event, monotonicMs: undefined }, { sessionId: 'session-a', monotonicMs: 5 })
+    .elapsedSinceScanMs,
+  undefined
+);
+
+assert.strictEqual(isClockEventRejection(403), true);
+assert.strictEqual(isClockEventRejection(409), true);
+assert.strictEqual(isClockEventRejection(401), false);
+assert.strictEqual(isClockEventRejection(429), false);
+assert.strictEqual(isClockEventRejection(503), false);
+
+const queuedEvent = (id: string, overrides: Partial<QueuedClockEvent> = {}): QueuedClockEvent => ({
+  ...event,
+  id,
+  ...overrides,
+});
+
+assert.strictEqual(inferQueuedClockAction([], 's1', false), 'clock_in');
+assert.strictEqual(inferQueuedClockAction([], 's1', true), 'clock_out');
+assert.strictEqual(inferQueuedClockAction([queuedEvent('e1')], 's1', false), 'clock_out');
+assert.strictEqual(
+  inferQueuedClockAction([queuedEvent('e1'), queuedEvent('e2', { expectedAction: 'clock_out' })], 's1', true),
+  'clock_in'
+);
+assert.strictEqual(inferQueuedClockAction([queuedEvent('e1', { shiftId: 's2' })], 's1', false), 'clock_in');
+assert.strictEqual(
+  inferQueuedClockAction([queuedEvent('e1', { rejected: { status: 403, at: scanTime.toISOString() } })], 's1', false),
+  'clock_in'
+);
+
+const fixedClock = () => ({ sessionId: 'session-a', monotonicMs: 31_000 });
+const fixedNow = () => new Date('2026-10-19T09:00:00.000Z');
+
+const run = async () => {
+  const calls: QueuedClockEventMeta[] = [];
+  const respond =
+    (responses: Record<string, ClockEventSubmitResponse | Error>) =>
+    async (queued: QueuedClockEvent, meta: QueuedClockEventMeta) => {
+      calls.push(meta);
+      const response = responses[queued.id];
+      if (response instanceof Error) throw response;
+      return response;
+    };
+
+  const alreadyRejected = queuedEvent('e0', { rejected: { status: 403, at: scanTime.toISOString() } });
+  const replay = await replayQueuedClockEvents(
+    [alreadyRejected, queuedEvent('e1'), queuedEvent('e2'), queuedEvent('e3')],
+    respond({
+      e1: { status: 200, clockIn: { shiftId: 's1', action: 'clock_in' } },
+      e2: { status: 403, error: 'Not eligible' },
+      e3: { status: 200, clockIn: { shiftId: 's1', action: 'clock_out' } },
+    }),
+    fixedClock,
+    fixedNow
+  );
+  assert.deepStrictEqual(
+    calls.map((meta) => [meta.eventId, meta.elapsedSinceScanMs]),
+    [
+      ['e1', 30_000],
+      ['e2', 30_000],
+      ['e3', 30_000],
+    ]
+  );
+  assert.deepStrictEqual(
+    replay.submitted.map(({ event: submitted }) => submitted.id),
+    ['e1', 'e3']
+  );
+  assert.deepStrictEqual(replay.rejected, [
+    {
+      ...queuedEvent('e2'),
+      attempts: 1,
+      rejected: { status: 403, error: 'Not eligible', at: '2026-10-19T09:00:00.000Z' },
+    },
+  ]);
+  assert.deepStrictEqual(
+    replay.remaining.map((entry) => entry.id),
+    ['e0', 'e2']
+  );
+
+  calls.length = 0;
+  const offline = await replayQueuedClockEvents(
+    [queuedEvent('e1'), queuedEvent('e2')],
+    respond({ e1: new Error('Network request failed') }),
+    fixedClock,
+    fixedNow
+  );
+  assert.strictEqual(calls.length, 1);
+  assert.deepStrictEqual(offline.submitted, []);
+  assert.deepStrictEqual(
+    offline.remaining.map((entry) => [entry.id, entry.attempts, entry.lastError]),
+    [
+      ['e1', 1, 'Network request failed'],
+      ['e2', 0, undefined],
+    ]
+  );
+
+  // Server errors and expired sessions keep the order for the next attempt.
+  const unavailable = await replayQueuedClockEvents(
+    [queuedEvent('e1'), queuedEvent('e2')],
+    respond({ e1: { status: 503 } }),
+    fixedClock,
+    fixedNow
+  );
+  assert.deepStrictEqual(
+    unavailable.remaining.map((entry) => [entry.id, entry.lastError]),
+    [
+      ['e1', 'HTTP 503'],
+      ['e2', undefined],
+    ]
+  );
+  const expired = await replayQueuedClockEvents([queuedEvent('e1')], respond({ e1: { status: 401 } }), fixedClock, fixedNow);
+  assert.strictEqual(expired.remaining[0].rejected, undefined);
+
+  // A 200 without a shift is not a confirmed clock event.
+  const incomplete = await replayQueuedClockEvents([queuedEvent('e1')], respond({ e1: { status: 200 } }), fixedClock, fixedNow);
+  assert.strictEqual(incomplete.submitted.length, 0);
+  assert.strictEqual(incomplete.remaining.length, 1);
+};
+
+const queue = [queuedEvent('e1'), queuedEvent('e2', { rejected: { status: 409, at: scanTime.toISOString() } })];
+assert.deepStrictEqual(
+  getPendingClockEvents(queue).map((entry) => entry.id),
+  ['e1']
+);
+assert.deepStrictEqual(
+  getRejectedClockEvents(queue).map((entry) => entry.id),
+  ['e2']
+);
+
+assert.deepStrictEqual(parseQrClockQueue(null), []);
+assert.deepStrictEqual(parseQrClockQueue('not json'), []);
+assert.deepStrictEqual(
+  parseQrClockQueue(JSON.stringify([queue[0], { ...queue[1], expectedAction: 'break' }, { id: 'x' }])),
+  [JSON.parse(JSON.stringify(queue[0]))]
+);
+
+void run()
+  .then(() => {
+    console.log('tests/qrClockQueue.test.ts OK');
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
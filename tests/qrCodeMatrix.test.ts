@@ -0,0 +1,49 @@
+import assert from 'assert';
+import { QR_MAX_VERSION, encodeQrCode } from '../src/shared/utils/qrCodeMatrix';
+
+const isFinderAt = (modules: boolean[][], left: number, top: number) => {
+  for (let dy = 0; dy < 7; dy += 1) {
+    for (let dx = 0; dx < 7; dx += 1) {
+      const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      if (modules[top + dy][left + dx] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+};
+
+const readFormatMask = (modules: boolean[][]) => {
+  let bits = 0;
+  for (let index = 0; index <= 5; index += 1) bits |= Number(modules[index][8]) << index;
+  bits |= Number(modules[7][8]) << 6;
+  bits |= Number(modules[8][8]) << 7;
+  bits |= Number(modules[8][7]) << 8;
+  for (let index = 9; index < 15; index += 1) bits |= Number(modules[8][14 - index]) << index;
+  const data = (bits ^ 0x5412) >>> 10;
+  return { level: data >>> 3, mask: data & 7 };
+};
+
+assert.strictEqual(encodeQrCode('HELLO').size, 21);
+assert.strictEqual(encodeQrCode('x'.repeat(14)).size, 21);
+assert.strictEqual(encodeQrCode('x'.repeat(15)).size, 25);
+assert.strictEqual(encodeQrCode('x'.repeat(200)).size, 4 * 10 + 17);
+assert.throws(() => encodeQrCode('x'.repeat(500)), /too long/);
+
+const token = `SHIFTOR_QR_CLOCK_IN:${'a'.repeat(120)}.${'b'.repeat(43)}`;
+const matrix = encodeQrCode(token);
+const { size, modules } = matrix;
+assert.ok((size - 17) / 4 <= QR_MAX_VERSION);
+assert.ok(isFinderAt(modules, 0, 0));
+assert.ok(isFinderAt(modules, size - 7, 0));
+assert.ok(isFinderAt(modules, 0, size - 7));
+for (let index = 8; index < size - 8; index += 1) {
+  assert.strictEqual(modules[6][index], index % 2 === 0);
+  assert.strictEqual(modules[index][6], index % 2 === 0);
+}
+assert.strictEqual(modules[size - 8][8], true);
+
+for (let mask = 0; mask < 8; mask += 1) {
+  assert.deepStrictEqual(readFormatMask(encodeQrCode(token, mask).modules), { level: 0, mask });
+}
+assert.deepStrictEqual(encodeQrCode(token), matrix);
+
+console.log('tests/qrCodeMatrix.test.ts OK');
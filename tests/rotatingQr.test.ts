@@ -0,0 +1,76 @@
+import assert from 'assert';
+import { createHmac } from 'crypto';
+import {
+  createRotatingQrToken,
+  parseQrDisplayObjects,
+  type QrDisplayObject,
+} from '../src/features/shifts/rotatingQr';
+import { checkSignedQrClockInCode, parseQrClockInCode } from '../src/shared/utils/qrClockIn';
+
+const secret = Buffer.from('an object secret of thirty-two b').toString('base64url');
+const object: QrDisplayObject = {
+  objectId: '7b0c2c1e-2f0a-4d38-9d8a-2f3c5b7e9a10',
+  title: 'HQ',
+  kid: 'rotation-1',
+  secret,
+  stepSeconds: 30,
+};
+
+const nowMs = Date.parse('2026-03-01T08:00:47Z');
+const token = createRotatingQrToken(object, nowMs);
+assert.strictEqual(token.validFrom, Date.parse('2026-03-01T08:00:30Z'));
+assert.strictEqual(token.nextRotationAt, Date.parse('2026-03-01T08:01:00Z'));
+assert.strictEqual(token.expiresAt, Date.parse('2026-03-01T08:01:30Z'));
+assert.strictEqual(createRotatingQrToken(object, token.validFrom).value, token.value);
+assert.notStrictEqual(createRotatingQrToken(object, token.nextRotationAt).value, token.value);
+
+const [prefix, encodedPayload, tag] = token.value.split(/[:.]/);
+assert.strictEqual(prefix, 'SHIFTOR_QR_CLOCK_IN');
+assert.deepStrictEqual(JSON.parse(Buffer.from(encodedPayload, 'base64url').toString()), {
+  v: 3,
+  kid: 'rotation-1',
+  objectId: object.objectId,
+  nbf: token.validFrom / 1000,
+  exp: token.expiresAt / 1000,
+});
+assert.strictEqual(
+  tag,
+  createHmac('sha512', Buffer.from(secret, 'base64url')).update(encodedPayload).digest().subarray(0, 32).toString('base64url')
+);
+
+assert.deepStrictEqual(parseQrClockInCode(token.value), { objectId: object.objectId });
+assert.deepStrictEqual(checkSignedQrClockInCode(token.value, null, new Date(nowMs)), { status: 'rotating' });
+assert.deepStrictEqual(checkSignedQrClockInCode(token.value, [{ publicKey: 'unused' }], new Date(nowMs)), {
+  status: 'rotating',
+});
+assert.deepStrictEqual(checkSignedQrClockInCode(token.value, null, new Date(token.expiresAt + 5 * 60_000)), {
+  status: 'expired',
+  expiredAt: '2026-03-01T08:01:30.000Z',
+});
+assert.deepStrictEqual(checkSignedQrClockInCode(`${token.value.slice(0, -4)}`, null, new Date(nowMs)), {
+  status: 'malformed',
+});
+
+assert.deepStrictEqual(
+  parseQrDisplayObjects({
+    ok: true,
+    status: 'ok',
+    serverTime: '2026-03-01T08:00:00Z',
+    objects: [
+      { objectId: 'b', title: 'Warehouse', kid: 'k', secret, stepSeconds: 5 },
+      { objectId: 'a', title: ' Archive ', secret },
+      { objectId: 'c', title: 'Broken', secret: '$$$' },
+    ],
+  }),
+  {
+    serverTime: '2026-03-01T08:00:00Z',
+    objects: [
+      { objectId: 'a', title: 'Archive', kid: 'default', secret, stepSeconds: 30 },
+      { objectId: 'b', title: 'Warehouse', kid: 'k', secret, stepSeconds: 10 },
+    ],
+  }
+);
+assert.throws(() => parseQrDisplayObjects(null), /invalid response/);
+assert.throws(() => parseQrDisplayObjects({ ok: false, status: 'forbidden' }), /unknown status/);
+
+console.log('tests/rotatingQr.test.ts OK');
@@ -0,0 +1,170 @@
+import assert from 'assert';
+import {
+  applyOptimisticShiftConfirmations,
+  classifyShiftConfirmRows,
+  confirmShiftAssignmentsWithRetry,
+  isTransientShiftConfirmError,
+  parseShiftBatchConfirmResult,
+  reconcileShiftConfirmations,
+  snapshotShiftConfirmations,
+  type ShiftConfirmItemResult,
+} from '../src/features/shifts/shiftBatchConfirm';
+import type { Shift } from '../src/features/shifts/shiftMapping';
+
+const shifts: Shift[] = [
+  {
+    id: 'shift-1',
+    assignmentId: 'a-1',
+    title: 'Lobby',
+    location: 'HQ',
+    start: '2026-07-01T08:00:00Z',
+    end: '2026-07-01T12:00:00Z',
+    status: 'scheduled',
+    confirmationStatus: 'published',
+  },
+  {
+    id: 'shift-2',
+    assignmentId: 'a-2',
+    title: 'Dock',
+    location: 'Warehouse',
+    start: '2026-07-02T08:00:00Z',
+    end: '2026-07-02T12:00:00Z',
+    status: 'scheduled',
+    confirmationStatus: 'tentative',
+    declineReason: 'personal',
+    declinedAt: '2026-06-20T10:00:00Z',
+  },
+];
+
+assert.deepStrictEqual(
+  parseShiftBatchConfirmResult(['a-1', 'a-2', 'a-3'], {
+    ok: true,
+    results: [
+      { assignmentId: 'a-1', status: 'confirmed', confirmationStatus: 'confirmed by employee', confirmedAt: 'x' },
+      { assignmentId: 'a-2', status: 'not_published', confirmationStatus: 'draft' },
+      { assignmentId: 'a-4', status: 'confirmed' },
+      { assignmentId: 'a-3', status: 'unknown' },
+    ],
+  }).map((result) => result.status),
+  ['confirmed', 'not_published', 'failed']
+);
+assert.throws(() => parseShiftBatchConfirmResult(['a-1'], null), /invalid response/);
+
+const classified = classifyShiftConfirmRows(
+  ['a-1', 'a-2', 'a-3', 'a-4'],
+  [
+    { id: 'a-1', confirmationStatus: 'Published' },
+    { id: 'a-2', confirmationStatus: 'confirmed by employee', confirmedAt: '2026-06-30T10:00:00Z' },
+    { id: 'a-3', confirmationStatus: 'draft' },
+  ]
+);
+assert.deepStrictEqual(classified.eligibleIds, ['a-1']);
+assert.deepStrictEqual(
+  classified.results.map((result) => [result.assignmentId, result.status]),
+  [
+    ['a-2', 'already_confirmed'],
+    ['a-3', 'not_published'],
+    ['a-4', 'not_found'],
+  ]
+);
+
+assert.strictEqual(isTransientShiftConfirmError(new Error('Network request failed')), true);
+assert.strictEqual(isTransientShiftConfirmError({ code: '40001', message: 'serialization failure' }), true);
+assert.strictEqual(isTransientShiftConfirmError({ code: '42501', message: 'permission denied' }), false);
+
+const optimistic = applyOptimisticShiftConfirmations(shifts, ['a-2'], '2026-06-30T12:00:00Z');
+assert.strictEqual(optimistic[0], shifts[0]);
+assert.strictEqual(optimistic[1].confirmationStatus, 'confirmed by employee');
+assert.strictEqual(optimistic[1].declineReason, undefined);
+
+const snapshot = snapshotShiftConfirmations(shifts, ['a-1', 'a-2']);
+const optimisticBoth = applyOptimisticShiftConfirmations(shifts, ['a-1', 'a-2'], '2026-06-30T12:00:00Z');
+const reconciled = reconcileShiftConfirmations(
+  optimisticBoth,
+  {
+    results: [
+      { assignmentId: 'a-1', status: 'confirmed', confirmationStatus: 'confirmed by employee', confirmedAt: 'server' },
+      { assignmentId: 'a-2', status: 'failed', error: 'boom' },
+    ],
+  },
+  snapshot
+);
+assert.strictEqual(reconciled[0].confirmedAt, 'server');
+assert.strictEqual(reconciled[1].confirmationStatus, 'tentative');
+assert.strictEqual(reconciled[1].declineReason, 'personal');
+assert.strictEqual(reconciled[1].confirmedAt, undefined);
+
+const run = async () => {
+  const calls: string[][] = [];
+  const waits: number[] = [];
+  const report = await confirmShiftAssignmentsWithRetry(
+    ['a-1', 'a-2', 'a-3', 'a-1'],
+    async (assignmentIds) => {
+      calls.push(assignmentIds);
+      if (calls.length === 1) {
+        throw new Error('Network request failed');
+      }
+      return assignmentIds.map(
+        (assignmentId): ShiftConfirmItemResult =>
+          assignmentId === 'a-3'
+            ? { assignmentId, status: 'not_found' }
+            : assignmentId === 'a-2' && calls.length === 2
+            ? { assignmentId, status: 'failed', error: 'No result returned for assignment.', transient: true }
+            : { assignmentId, status: 'confirmed' }
+      );
+    },
+    { wait: async (attempt) => void waits.push(attempt) }
+  );
+  assert.deepStrictEqual(calls, [['a-1', 'a-2', 'a-3'], ['a-1', 'a-2', 'a-3'], ['a-2']]);
+  assert.deepStrictEqual(waits, [1, 2]);
+  assert.strictEqual(report.attempts, 3);
+  assert.deepStrictEqual(report.confirmedIds, ['a-1', 'a-2']);
+  assert.deepStrictEqual(
+    report.failed.map((result) => [result.assignmentId, result.status]),
+    [['a-3', 'not_found']]
+  );
+
+  let permanentCalls = 0;
+  const permanent = await confirmShiftAssignmentsWithRetry(
+    ['a-1'],
+    async () => {
+      permanentCalls += 1;
+      throw { code: '42501', message: 'permission denied' };
+    },
+    { wait: async () => undefined }
+  );
+  assert.strictEqual(permanentCalls, 1);
+  assert.deepStrictEqual(permanent.failed, [
+    { assignmentId: 'a-1', status: 'failed', error: 'permission denied', transient: false, offline: false },
+  ]);
+
+  const offline = await confirmShiftAssignmentsWithRetry(
+    ['a-1'],
+    async () => {
+      throw new Error('Network request failed');
+    },
+    { maxAttempts: 2, wait: async () => undefined }
+  );
+  assert.strictEqual(offline.attempts, 2);
+  assert.strictEqual(offline.failed[0].transient, true);
+  assert.strictEqual(offline.failed[0].offline, true);
+
+  const busy = await confirmShiftAssignmentsWithRetry(
+    ['a-1'],
+    async () => {
+      throw { code: '40001', message: '' };
+    },
+    { maxAttempts: 1, wait: async () => undefined }
+  );
+  assert.strictEqual(busy.failed[0].transient, true);
+  assert.strictEqual(busy.failed[0].offline, false);
+};
+
+void run()
+  .then(() => {
+    console.log('tests/shiftBatchConfirm.test.ts OK');
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,103 @@
+import assert from 'assert';
+import {
+  applyShiftBreaks,
+  createShiftBreakSubmission,
+  getActiveShiftBreak,
+  getShiftBreakMs,
+  parseShiftBreakResult,
+  parseShiftBreaks,
+} from '../src/features/shifts/shiftBreaks';
+import type { MonthlyHoursShiftTiming } from '../src/features/account/monthlyHoursParsing';
+
+const submission = createShiftBreakSubmission(
+  { shiftId: 'shift-1', action: 'break_start', source: 'scan' },
+  new Date('2026-04-19T12:00:00Z')
+);
+assert.match(submission.clientEventId, /^break-\d+-[a-z0-9]+$/);
+assert.strictEqual(submission.occurredAt, '2026-04-19T12:00:00.000Z');
+assert.strictEqual(submission.source, 'scan');
+
+const breaks = parseShiftBreaks({
+  ok: true,
+  status: 'ok',
+  breaks: [
+    { id: 'b2', shiftId: 'shift-2', startedAt: '2026-04-20T12:00:00Z', endedAt: null, startSource: 'button' },
+    {
+      id: 'b1',
+      shiftId: 'shift-1',
+      startedAt: '2026-04-19T12:00:00Z',
+      endedAt: '2026-04-19T12:30:00Z',
+      startSource: 'scan',
+      endSource: 'button',
+    },
+    { id: 'b0', shiftId: 'shift-1', startedAt: 'not a date' },
+  ],
+});
+assert.deepStrictEqual(
+  breaks.map((entry) => entry.id),
+  ['b1', 'b2']
+);
+assert.strictEqual(breaks[0]?.endSource, 'button');
+assert.throws(() => parseShiftBreaks({ status: 'failed' }), /unknown status/);
+assert.throws(() => parseShiftBreaks(null), /invalid response/);
+
+assert.strictEqual(getActiveShiftBreak(breaks)?.id, 'b2');
+assert.strictEqual(getActiveShiftBreak(breaks, 'shift-2')?.id, 'b2');
+assert.strictEqual(getActiveShiftBreak(breaks, 'shift-1'), null);
+
+assert.strictEqual(getShiftBreakMs(breaks, 'shift-1'), 30 * 60000);
+assert.strictEqual(getShiftBreakMs(breaks, 'shift-2', Date.parse('2026-04-20T12:10:00Z')), 10 * 60000);
+
+const ended = parseShiftBreakResult({
+  ok: true,
+  status: 'ended',
+  break: { id: 'b2', shiftId: 'shift-2', startedAt: '2026-04-20T12:00:00Z', endedAt: '2026-04-20T12:15:00Z' },
+});
+assert.strictEqual(ended.ok, true);
+assert.strictEqual(ended.shiftBreak?.endedAt, '2026-04-20T12:15:00Z');
+assert.deepStrictEqual(parseShiftBreakResult({ ok: false, status: 'already_on_break' }), {
+  ok: false,
+  status: 'already_on_break',
+  shiftBreak: undefined,
+});
+assert.throws(() => parseShiftBreakResult({ ok: true, status: 'paused' }), /unknown status/);
+
+const timing = (
+  id: string,
+  workedMinutes: number,
+  extra: Partial<MonthlyHoursShiftTiming> = {}
+): MonthlyHoursShiftTiming => ({
+  id,
+  title: id,
+  location: '',
+  start: null,
+  end: null,
+  clockIn: null,
+  clockOut: null,
+  workedMinutes,
+  ...extra,
+});
+
+const applied = applyShiftBreaks(
+  [timing('shift-1', 480), timing('shift-2', 240), timing('shift-3', 300, { breakMinutes: 45 })],
+  [
+    ...breaks,
+    { id: 'b3', shiftId: 'shift-3', startedAt: '2026-04-21T12:00:00Z', endedAt: '2026-04-21T12:45:00Z', startSource: 'button' },
+  ]
+);
+assert.strictEqual(applied.deductedMinutes, 30);
+assert.strictEqual(applied.timings[0]?.workedMinutes, 450);
+assert.strictEqual(applied.timings[0]?.breakMinutes, 30);
+// Running breaks wait until they end; API-reported breaks are already netted out.
+assert.strictEqual(applied.timings[1]?.breakMinutes, undefined);
+assert.strictEqual(applied.timings[2]?.workedMinutes, 300);
+
+const byShiftId = applyShiftBreaks([timing('row-1', 480, { shiftId: 'shift-1' })], breaks);
+assert.strictEqual(byShiftId.timings[0]?.workedMinutes, 450);
+assert.strictEqual(byShiftId.deductedMinutes, 30);
+
+const short = applyShiftBreaks([timing('shift-1', 20)], breaks);
+assert.strictEqual(short.timings[0]?.workedMinutes, 0);
+assert.strictEqual(short.deductedMinutes, 20);
+
+console.log('tests/shiftBreaks.test.ts OK');
@@ -0,0 +1,104 @@
+import assert from 'assert';
+import {
+  type ShiftChangeEntry,
+  diffShiftSnapshots,
+  getOriginalShiftValues,
+  mergeShiftChangeEntries,
+  parseLocalShiftChanges,
+  parseShiftChangeLogRow,
+} from '../src/features/shifts/shiftChanges';
+import { mapShiftRecord } from '../src/features/shifts/shiftMapping';
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 'shift-1',
+  title: 'Lobby',
+  shiftStartingDate: '2026-07-01',
+  shiftStartingTime: '08:00',
+  shiftEndingDate: '2026-07-01',
+  shiftEndingTime: '16:00',
+  location: 'Main street 1',
+  object: { title: 'HQ', timeZone: 'Europe/Berlin' },
+  ...overrides,
+});
+
+assert.deepStrictEqual(
+  diffShiftSnapshots(
+    mapShiftRecord(row()),
+    mapShiftRecord(row({ shiftStartingTime: '09:00', location: 'Side entrance', updatedAt: '2026-06-30T10:00:00Z' }))
+  ),
+  [
+    { field: 'start', before: '2026-07-01T06:00:00.000Z', after: '2026-07-01T07:00:00.000Z' },
+    { field: 'location', before: 'Main street 1', after: 'Side entrance' },
+  ]
+);
+
+const updated = parseShiftChangeLogRow({
+  id: 'log-2',
+  shiftId: 'shift-1',
+  changedAt: '2026-06-30T10:00:00Z',
+  before: row(),
+  after: JSON.stringify(row({ shiftEndingTime: '17:00' })),
+});
+assert.deepStrictEqual(updated, {
+  id: 'log-2',
+  shiftId: 'shift-1',
+  changedAt: '2026-06-30T10:00:00Z',
+  kind: 'updated',
+  changes: [{ field: 'end', before: '2026-07-01T14:00:00.000Z', after: '2026-07-01T15:00:00.000Z' }],
+  source: 'server',
+});
+
+const published = parseShiftChangeLogRow({
+  id: 'log-1',
+  shiftId: 'shift-1',
+  changedAt: '2026-06-20T09:00:00Z',
+  before: null,
+  after: row(),
+});
+assert.strictEqual(published?.kind, 'published');
+assert.deepStrictEqual(
+  published?.changes.map((change) => [change.field, change.after]),
+  [
+    ['start', '2026-07-01T06:00:00.000Z'],
+    ['end', '2026-07-01T14:00:00.000Z'],
+    ['site', 'HQ'],
+    ['location', 'Main street 1'],
+  ]
+);
+
+// Rows that only touched untracked columns are not shown.
+assert.strictEqual(
+  parseShiftChangeLogRow({ id: 'log-3', changedAt: '2026-06-30T11:00:00Z', before: row(), after: row({ notes: 'x' }) }),
+  null
+);
+assert.strictEqual(parseShiftChangeLogRow({ id: 'log-4', changedAt: '2026-06-30T11:00:00Z' }), null);
+
+assert.ok(updated && published);
+const deviceCopy: ShiftChangeEntry = { ...updated, id: 'device-1', changedAt: '2026-06-30T10:00:04Z', source: 'device' };
+const deviceOnly: ShiftChangeEntry = {
+  id: 'device-2',
+  shiftId: 'shift-1',
+  changedAt: '2026-06-30T12:00:00Z',
+  kind: 'updated',
+  changes: [{ field: 'role', after: 'Team lead' }],
+  source: 'device',
+};
+assert.deepStrictEqual(
+  mergeShiftChangeEntries([updated, published], [deviceCopy, deviceOnly]).map((entry) => entry.id),
+  ['device-2', 'log-2', 'log-1']
+);
+
+assert.deepStrictEqual(getOriginalShiftValues([deviceOnly, updated, published]), [
+  { field: 'end', before: '2026-07-01T14:00:00.000Z' },
+  { field: 'role', before: undefined },
+]);
+assert.deepStrictEqual(getOriginalShiftValues([updated]), [{ field: 'end', before: '2026-07-01T14:00:00.000Z' }]);
+assert.deepStrictEqual(getOriginalShiftValues([published]), []);
+
+assert.deepStrictEqual(
+  parseLocalShiftChanges(JSON.stringify([{ ...deviceOnly, source: 'server' }, { id: 'broken' }])),
+  [deviceOnly]
+);
+assert.deepStrictEqual(parseLocalShiftChanges('not json'), []);
+
+console.log('tests/shiftChanges.test.ts OK');
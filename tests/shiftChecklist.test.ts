@@ -0,0 +1,132 @@
+import assert from 'assert';
+import {
+  buildShiftChecklistSubmission,
+  getShiftChecklistProgress,
+  mergeShiftChecklist,
+  parseLocalShiftChecklists,
+  parseShiftChecklistResult,
+  parseSubmitShiftChecklistResult,
+  pruneLocalShiftChecklists,
+  setShiftTaskCompletion,
+  type LocalShiftChecklist,
+} from '../src/features/shifts/shiftChecklist';
+
+const server = parseShiftChecklistResult({
+  ok: true,
+  status: 'ok',
+  tasks: [
+    { id: 't3', title: 'Report to reception', isRequired: false, position: 3 },
+    { id: 't1', title: 'Check fire exits', position: 1, requiresPhoto: true, details: 'All three floors' },
+    { id: 't2', title: 'Lock side gate', isRequired: true, position: 2 },
+    { title: 'missing id' },
+  ],
+  completions: [{ taskId: 't2', completedAt: '2026-10-19T20:00:00.000Z' }, { taskId: 't1' }],
+  submittedAt: '2026-10-19T22:00:00.000+00:00',
+});
+
+assert.strictEqual(server.status, 'ok');
+assert.deepStrictEqual(
+  server.tasks.map((task) => task.id),
+  ['t1', 't2', 't3'],
+  'tasks are ordered by position and invalid rows dropped'
+);
+assert.strictEqual(server.tasks[0].requiresPhoto, true);
+assert.strictEqual(server.tasks[0].isRequired, true, 'tasks are required unless marked optional');
+assert.strictEqual(server.completions.length, 1);
+assert.deepStrictEqual(parseShiftChecklistResult({ ok: false, status: 'not_assigned' }), {
+  status: 'not_assigned',
+  tasks: [],
+  completions: [],
+});
+assert.throws(() => parseShiftChecklistResult({ status: 'ok' }), /unknown status/);
+
+const empty: LocalShiftChecklist = {
+  shiftId: 's1',
+  tasks: server.tasks,
+  completions: [],
+  updatedAt: '2026-10-19T18:00:00.000Z',
+};
+const now = new Date('2026-10-19T19:00:00.000Z');
+let checklist = setShiftTaskCompletion(empty, 't1', { completedAt: now.toISOString() }, now);
+checklist = setShiftTaskCompletion(checklist, 't3', { completedAt: now.toISOString() }, now);
+
+let progress = getShiftChecklistProgress(checklist.tasks, checklist.completions);
+assert.strictEqual(progress.done, 1, 'a photo task without a photo is not done');
+assert.strictEqual(progress.requiredDone, 0);
+assert.deepStrictEqual(
+  progress.missingRequired.map((task) => task.id),
+  ['t1', 't2']
+);
+
+checklist = setShiftTaskCompletion(
+  checklist,
+  't1',
+  { completedAt: now.toISOString(), photoUri: 'file:///exit.jpg' },
+  now
+);
+checklist = setShiftTaskCompletion(checklist, 't3', null, now);
+progress = getShiftChecklistProgress(checklist.tasks, checklist.completions);
+assert.deepStrictEqual([progress.done, progress.total, progress.requiredDone, progress.requiredTotal], [1, 3, 1, 2]);
+assert.strictEqual(checklist.updatedAt, now.toISOString());
+
+assert.deepStrictEqual(
+  buildShiftChecklistSubmission([
+    { taskId: 't1', completedAt: 'x', photoUri: 'file:///exit.jpg', photoPath: 'shift-checklists/s1/e1/t1.jpg' },
+  ]),
+  [{ taskId: 't1', completedAt: 'x', photoPath: 'shift-checklists/s1/e1/t1.jpg', note: undefined }],
+  'local photo uris are not submitted'
+);
+
+// Device ticks made before the last submission give way to the server copy.
+const merged = mergeShiftChecklist('s1', server, {
+  ...checklist,
+  completions: [{ taskId: 't2', completedAt: '2026-10-19T20:00:00.000Z', photoUri: 'file:///gate.jpg' }],
+  submittedAt: '2026-10-19T22:00:00.000Z',
+});
+assert.strictEqual(merged.submittedAt, server.submittedAt);
+assert.deepStrictEqual(merged.completions, [
+  { taskId: 't2', completedAt: '2026-10-19T20:00:00.000Z', photoUri: 'file:///gate.jpg', photoPath: undefined, note: undefined },
+]);
+
+// Ticks made offline after the submission win until they are submitted.
+const pending = mergeShiftChecklist('s1', server, {
+  ...checklist,
+  updatedAt: '2026-10-19T23:00:00.000Z',
+  pendingSubmitAt: '2026-10-19T23:05:00.000Z',
+  completions: [...checklist.completions, { taskId: 'removed-task', completedAt: 'x' }],
+});
+assert.strictEqual(pending.pendingSubmitAt, '2026-10-19T23:05:00.000Z');
+assert.strictEqual(pending.submittedAt, undefined);
+assert.deepStrictEqual(
+  pending.completions.map((completion) => completion.taskId),
+  ['t1'],
+  'completions of tasks no longer on the checklist are dropped'
+);
+
+const submitted = parseSubmitShiftChecklistResult({
+  ok: true,
+  status: 'submitted',
+  missingRequired: ['t2', 5],
+  submittedAt: '2026-10-19T23:06:00Z',
+});
+assert.deepStrictEqual(submitted.missingRequired, ['t2']);
+assert.throws(() => parseSubmitShiftChecklistResult({ status: 'done' }), /unknown status/);
+assert.throws(() => parseSubmitShiftChecklistResult(undefined), /invalid response/);
+
+const stored = parseLocalShiftChecklists(
+  JSON.stringify({
+    s1: { ...checklist, submittedAt: '2026-10-01T00:00:00.000Z', updatedAt: '2026-10-01T00:00:00.000Z' },
+    s2: { ...checklist, shiftId: 's2', updatedAt: '2026-10-01T00:00:00.000Z', pendingSubmitAt: '2026-10-01T00:00:00.000Z' },
+    s3: { ...checklist, shiftId: 's3' },
+    broken: { shiftId: 'x' },
+  })
+);
+assert.deepStrictEqual(Object.keys(stored).sort(), ['s1', 's2', 's3']);
+assert.deepStrictEqual(
+  Object.keys(pruneLocalShiftChecklists(stored, now)).sort(),
+  ['s2', 's3'],
+  'old checklists are pruned unless still waiting for submission'
+);
+assert.deepStrictEqual(parseLocalShiftChecklists('not json'), {});
+
+console.log('tests/shiftChecklist.test.ts OK');
@@ -0,0 +1,80 @@
+import assert from 'assert';
+import {
+  buildShiftConfirmReminders,
+  diffShiftConfirmReminders,
+  formatShiftConfirmCountdown,
+  getEarliestShiftConfirmDeadline,
+  getShiftConfirmDeadline,
+  isShiftConfirmReminderIdentifier,
+} from '../src/features/shifts/shiftConfirmDeadline';
+
+const now = new Date('2026-07-01T12:00:00Z');
+const published = {
+  id: 'shift-1',
+  assignmentId: 'a-1',
+  confirmationStatus: 'published' as const,
+  confirmBy: '2026-07-03T12:00:00Z',
+};
+
+const state = getShiftConfirmDeadline(published, now);
+assert.strictEqual(state?.urgency, 'normal');
+assert.strictEqual(state?.remainingMs, 48 * 60 * 60 * 1000);
+assert.strictEqual(getShiftConfirmDeadline({ ...published, confirmBy: '2026-07-02T06:00:00Z' }, now)?.urgency, 'soon');
+assert.strictEqual(getShiftConfirmDeadline({ ...published, confirmBy: '2026-07-01T15:00:00Z' }, now)?.urgency, 'urgent');
+assert.strictEqual(getShiftConfirmDeadline({ ...published, confirmBy: '2026-07-01T11:00:00Z' }, now)?.urgency, 'overdue');
+assert.strictEqual(
+  getShiftConfirmDeadline({ ...published, confirmationStatus: 'confirmed by employee' }, now),
+  null,
+  'answered shifts have no open deadline'
+);
+assert.strictEqual(getShiftConfirmDeadline({ ...published, confirmBy: undefined }, now), null);
+assert.strictEqual(getShiftConfirmDeadline({ ...published, confirmationStatus: 'tentative' }, now)?.urgency, 'normal');
+
+assert.strictEqual(
+  getEarliestShiftConfirmDeadline(
+    [published, { ...published, id: 'shift-2', assignmentId: 'a-2', confirmBy: '2026-07-01T14:00:00Z' }],
+    now
+  )?.deadline,
+  '2026-07-01T14:00:00.000Z'
+);
+assert.strictEqual(getEarliestShiftConfirmDeadline([], now), null);
+
+assert.strictEqual(formatShiftConfirmCountdown(2 * 24 * 60 * 60 * 1000 + 4 * 60 * 60 * 1000), '2d 4h');
+assert.strictEqual(formatShiftConfirmCountdown(3 * 60 * 60 * 1000 + 20 * 60 * 1000), '3h 20m');
+assert.strictEqual(formatShiftConfirmCountdown(15 * 60 * 1000 - 1), '15m');
+assert.strictEqual(formatShiftConfirmCountdown(-5000), '0m');
+
+const reminders = buildShiftConfirmReminders([published], now);
+assert.deepStrictEqual(
+  reminders.map((reminder) => [reminder.level, reminder.fireAt]),
+  [
+    ['gentle', '2026-07-02T12:00:00.000Z'],
+    ['firm', '2026-07-03T06:00:00.000Z'],
+    ['final', '2026-07-03T11:00:00.000Z'],
+  ]
+);
+const lateReminders = buildShiftConfirmReminders([{ ...published, confirmBy: '2026-07-01T15:00:00Z' }], now);
+assert.deepStrictEqual(
+  lateReminders.map((reminder) => reminder.level),
+  ['final'],
+  'reminders whose time already passed are skipped'
+);
+assert.deepStrictEqual(
+  buildShiftConfirmReminders([{ ...published, confirmationStatus: 'declined by employee' }], now),
+  []
+);
+
+assert.strictEqual(isShiftConfirmReminderIdentifier(reminders[0].identifier, 'a-1'), true);
+assert.strictEqual(isShiftConfirmReminderIdentifier(reminders[0].identifier, 'a-10'), false);
+assert.strictEqual(isShiftConfirmReminderIdentifier('shift-start-reminder:1'), false);
+
+const movedDeadline = buildShiftConfirmReminders([{ ...published, confirmBy: '2026-07-04T12:00:00Z' }], now);
+const diff = diffShiftConfirmReminders([reminders[0].identifier, 'unrelated-notification'], movedDeadline);
+assert.deepStrictEqual(diff.cancel, [reminders[0].identifier], 'a moved deadline replaces its reminders');
+assert.strictEqual(diff.schedule.length, 3);
+assert.deepStrictEqual(diffShiftConfirmReminders(reminders.map((reminder) => reminder.identifier), reminders), {
+  cancel: [],
+  schedule: [],
+});
+
+console.log('tests/shiftConfirmDeadline.test.ts OK');
@@ -1,6 +1,9 @@
 import assert from 'assert';
 import {
   getShiftConfirmationStatusLabel,
+  isShiftAwaitingResponse,
+  isShiftDeclinedByEmployee,
+  isShiftVisibleToEmployee,
   normalizeShiftConfirmationStatus,
 } from '../src/lib/shiftConfirmationStatus';
 
@@ -12,6 +15,10 @@ assert.strictEqual(normalizeShiftConfirmationStatus('confirmed_by_employee'), 'c
 assert.strictEqual(normalizeShiftConfirmationStatus('confirmed-by-employee'), 'confirmed by employee');
 assert.strictEqual(normalizeShiftConfirmationStatus('  confirmed by employee  '), 'confirmed by employee');
 assert.strictEqual(normalizeShiftConfirmationStatus('unknown status'), 'not published');
+assert.strictEqual(normalizeShiftConfirmationStatus('Tentative'), 'tentative');
+assert.strictEqual(normalizeShiftConfirmationStatus('declined'), 'declined by employee');
+assert.strictEqual(normalizeShiftConfirmationStatus('declined_by_employee'), 'declined by employee');
+assert.strictEqual(normalizeShiftConfirmationStatus('Declined-By-Employee'), 'declined by employee');
 
 assert.strictEqual(getShiftConfirmationStatusLabel('not published'), 'Not published');
 assert.strictEqual(getShiftConfirmationStatusLabel('pending'), 'Pending');
@@ -23,5 +30,17 @@ assert.strictEqual(
   getShiftConfirmationStatusLabel('confirmed by employee'),
   'Confirmed by employee'
 );
+assert.strictEqual(getShiftConfirmationStatusLabel('tentative'), 'Tentative');
+assert.strictEqual(getShiftConfirmationStatusLabel('declined by employee'), 'Declined by employee');
+
+assert.strictEqual(isShiftVisibleToEmployee('declined by employee'), true);
+assert.strictEqual(isShiftVisibleToEmployee('tentative'), true);
+assert.strictEqual(isShiftVisibleToEmployee('assigned'), false);
+assert.strictEqual(isShiftAwaitingResponse('published'), true);
+assert.strictEqual(isShiftAwaitingResponse('tentative'), true);
+assert.strictEqual(isShiftAwaitingResponse('declined by employee'), false);
+assert.strictEqual(isShiftAwaitingResponse('confirmed by employee'), false);
+assert.strictEqual(isShiftDeclinedByEmployee('declined by employee'), true);
+assert.strictEqual(isShiftDeclinedByEmployee('tentative'), false);
 
 console.log('tests/shiftConfirmationStatus.test.ts OK');
@@ -0,0 +1,73 @@
+import assert from 'assert';
+import {
+  MIN_REST_BETWEEN_SHIFTS_MS,
+  collectShiftConflicts,
+  detectShiftConflicts,
+} from '../src/features/shifts/shiftConflicts';
+
+const shift = (id: string, start: string, end: string, extra: { confirmationStatus?: 'declined by employee'; timeZone?: string } = {}) => ({
+  id,
+  start,
+  end,
+  confirmationStatus: extra.confirmationStatus ?? ('published' as const),
+  timeZone: extra.timeZone ?? 'Europe/Berlin',
+});
+
+const conflicts = detectShiftConflicts([
+  shift('early', '2026-07-01T06:00:00Z', '2026-07-01T14:00:00Z'),
+  shift('overlap', '2026-07-01T12:00:00Z', '2026-07-01T18:00:00Z'),
+  shift('night', '2026-07-02T01:00:00Z', '2026-07-02T05:00:00Z'),
+  shift('rested', '2026-07-03T08:00:00Z', '2026-07-03T16:00:00Z'),
+]);
+
+assert.deepStrictEqual(conflicts.get('early'), [{ kind: 'overlap', shiftId: 'early', otherShiftId: 'overlap' }]);
+assert.deepStrictEqual(
+  conflicts.get('overlap')?.map((conflict) => conflict.kind),
+  ['overlap', 'short-rest']
+);
+assert.deepStrictEqual(conflicts.get('night'), [
+  {
+    kind: 'short-rest',
+    shiftId: 'night',
+    otherShiftId: 'overlap',
+    position: 'before',
+    restMs: 7 * 60 * 60 * 1000,
+  },
+]);
+assert.strictEqual(conflicts.has('rested'), false);
+
+const exactRest = detectShiftConflicts([
+  shift('a', '2026-07-01T06:00:00Z', '2026-07-01T14:00:00Z'),
+  shift('b', new Date(Date.parse('2026-07-01T14:00:00Z') + MIN_REST_BETWEEN_SHIFTS_MS).toISOString(), '2026-07-02T09:00:00Z'),
+]);
+assert.strictEqual(exactRest.size, 0);
+
+const declined = detectShiftConflicts([
+  shift('a', '2026-07-01T06:00:00Z', '2026-07-01T14:00:00Z'),
+  shift('b', '2026-07-01T10:00:00Z', '2026-07-01T16:00:00Z', { confirmationStatus: 'declined by employee' }),
+]);
+assert.strictEqual(declined.size, 0);
+
+// A shift ending after midnight in Berlin touches the vacation's first day.
+const vacations = [
+  { id: 'v-1', startDate: '2026-08-02', endDate: '2026-08-09', status: 'approved' },
+  { id: 'v-2', startDate: '2026-08-01', endDate: '2026-08-01', status: 'pending' },
+];
+const vacationConflicts = detectShiftConflicts(
+  [
+    shift('late', '2026-08-01T18:00:00Z', '2026-08-01T23:00:00Z'),
+    shift('before', '2026-07-31T06:00:00Z', '2026-07-31T12:00:00Z'),
+  ],
+  vacations
+);
+assert.deepStrictEqual(vacationConflicts.get('late'), [
+  { kind: 'vacation', shiftId: 'late', vacationId: 'v-1', startDate: '2026-08-02', endDate: '2026-08-09' },
+]);
+assert.strictEqual(vacationConflicts.has('before'), false);
+
+assert.deepStrictEqual(
+  collectShiftConflicts(conflicts, ['early', 'rested', 'night']).map((conflict) => conflict.shiftId),
+  ['early', 'night']
+);
+
+console.log('tests/shiftConflicts.test.ts OK');
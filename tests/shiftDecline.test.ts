@@ -0,0 +1,38 @@
+import assert from 'assert';
+import {
+  SHIFT_DECLINE_NOTE_MAX_LENGTH,
+  normalizeShiftDeclineNote,
+  parseShiftDeclineReason,
+  validateShiftDecline,
+} from '../src/features/shifts/shiftDecline';
+
+assert.strictEqual(parseShiftDeclineReason('illness'), 'illness');
+assert.strictEqual(parseShiftDeclineReason('Schedule_Conflict'), 'schedule-conflict');
+assert.strictEqual(parseShiftDeclineReason(' sick '), 'illness');
+assert.strictEqual(parseShiftDeclineReason('vacation'), undefined);
+assert.strictEqual(parseShiftDeclineReason(42), undefined);
+
+assert.strictEqual(normalizeShiftDeclineNote('  '), undefined);
+assert.strictEqual(normalizeShiftDeclineNote(null), undefined);
+assert.strictEqual(normalizeShiftDeclineNote(' Train strike '), 'Train strike');
+
+assert.strictEqual(validateShiftDecline({ status: 'declined by employee' }), 'reason-required');
+assert.strictEqual(validateShiftDecline({ status: 'declined by employee', reason: 'illness' }), null);
+assert.strictEqual(
+  validateShiftDecline({ status: 'declined by employee', reason: 'other', note: '   ' }),
+  'note-required'
+);
+assert.strictEqual(
+  validateShiftDecline({ status: 'tentative', reason: 'other', note: 'Waiting on childcare' }),
+  null
+);
+assert.strictEqual(
+  validateShiftDecline({
+    status: 'declined by employee',
+    reason: 'personal',
+    note: 'x'.repeat(SHIFT_DECLINE_NOTE_MAX_LENGTH + 1),
+  }),
+  'note-too-long'
+);
+
+console.log('tests/shiftDecline.test.ts OK');
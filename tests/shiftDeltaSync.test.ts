@@ -0,0 +1,118 @@
+import assert from 'assert';
+import {
+  advanceHighWaterMark,
+  collectDeltaShiftIds,
+  getShiftDeltaSince,
+  mergeShiftFeedDelta,
+  readRowUpdatedAt,
+  shouldRunFullShiftSync,
+} from '../src/features/shifts/shiftDeltaSync';
+import type { Shift } from '../src/features/shifts/shiftMapping';
+
+const cachedShifts: Shift[] = [
+  {
+    id: 'shift-1',
+    assignmentId: 'a-1',
+    title: 'Lobby',
+    location: 'HQ',
+    start: '2026-07-01T08:00:00Z',
+    end: '2026-07-01T12:00:00Z',
+    status: 'scheduled',
+    confirmationStatus: 'published',
+  },
+  {
+    id: 'shift-2',
+    assignmentId: 'a-2',
+    title: 'Dock',
+    location: 'Warehouse',
+    start: '2026-07-02T08:00:00Z',
+    end: '2026-07-02T12:00:00Z',
+    status: 'scheduled',
+    confirmationStatus: 'published',
+  },
+  {
+    id: 'shift-3',
+    assignmentId: 'a-3',
+    title: 'Gate',
+    location: 'Site',
+    start: '2026-07-03T08:00:00Z',
+    end: '2026-07-03T12:00:00Z',
+    status: 'scheduled',
+    confirmationStatus: 'confirmed',
+  },
+];
+
+const changedAssignments = [
+  { assignmentId: 'a-1', shiftId: 'shift-1', confirmationStatus: 'confirmed by employee', confirmedAt: '2026-06-30T10:00:00Z', updatedAt: '2026-06-30T10:00:00Z' },
+  { assignmentId: 'a-3', shiftId: 'shift-3', confirmationStatus: 'not published', updatedAt: '2026-06-30T10:05:00Z' },
+  { assignmentId: 'a-4', shiftId: 'shift-4', confirmationStatus: 'published', updatedAt: '2026-06-30T10:06:00Z' },
+];
+
+assert.deepStrictEqual(collectDeltaShiftIds(cachedShifts, changedAssignments), ['shift-4']);
+
+const merged = mergeShiftFeedDelta(cachedShifts, {
+  changedAssignments,
+  activeAssignmentIds: ['a-1', 'a-3', 'a-4'],
+  shiftRows: [
+    { id: 'shift-4', title: 'New patrol', start: '2026-07-04T08:00:00Z', end: '2026-07-04T12:00:00Z' },
+    { id: 'shift-1', title: 'Lobby (moved)', start: '2026-07-01T09:00:00Z', end: '2026-07-01T13:00:00Z' },
+  ],
+});
+
+assert.deepStrictEqual(
+  merged.map((shift) => shift.id),
+  ['shift-1', 'shift-4'],
+  'deleted and unpublished assignments leave the feed, new published ones join'
+);
+assert.strictEqual(merged[0].title, 'Lobby (moved)');
+assert.strictEqual(merged[0].start, '2026-07-01T09:00:00Z');
+assert.strictEqual(merged[0].confirmationStatus, 'confirmed by employee');
+assert.strictEqual(merged[0].confirmedAt, '2026-06-30T10:00:00Z');
+assert.strictEqual(merged[1].assignmentId, 'a-4');
+
+const declined = mergeShiftFeedDelta(cachedShifts, {
+  changedAssignments: [
+    {
+      assignmentId: 'a-2',
+      shiftId: 'shift-2',
+      confirmationStatus: 'declined',
+      declineReason: 'schedule_conflict',
+      declineNote: 'Second job',
+      declinedAt: '2026-06-30T11:00:00Z',
+      updatedAt: '2026-06-30T11:00:00Z',
+    },
+  ],
+  activeAssignmentIds: ['a-1', 'a-2', 'a-3'],
+  shiftRows: [{ id: 'shift-2', title: 'Dock (moved)', start: '2026-07-02T09:00:00Z', end: '2026-07-02T13:00:00Z' }],
+});
+const declinedShift = declined.find((shift) => shift.id === 'shift-2');
+assert.strictEqual(declinedShift?.confirmationStatus, 'declined by employee', 'declined shifts stay in the feed');
+assert.strictEqual(declinedShift?.declineReason, 'schedule-conflict');
+assert.strictEqual(declinedShift?.declineNote, 'Second job');
+assert.strictEqual(declinedShift?.declinedAt, '2026-06-30T11:00:00Z');
+assert.strictEqual(declinedShift?.title, 'Dock (moved)');
+
+const unchanged = mergeShiftFeedDelta(cachedShifts, {
+  changedAssignments: [],
+  activeAssignmentIds: ['a-1', 'a-2', 'a-3'],
+  shiftRows: [],
+});
+assert.deepStrictEqual(unchanged, cachedShifts);
+
+assert.strictEqual(readRowUpdatedAt({ updated_at: '2026-06-30T10:00:00Z' }), '2026-06-30T10:00:00Z');
+assert.strictEqual(readRowUpdatedAt({ updatedAt: 'not-a-date' }), undefined);
+
+assert.strictEqual(
+  advanceHighWaterMark('2026-06-30T10:00:00Z', ['2026-06-30T09:00:00Z', '2026-06-30T11:00:00+00:00', undefined]),
+  '2026-06-30T11:00:00+00:00'
+);
+assert.strictEqual(advanceHighWaterMark(null, []), null);
+assert.strictEqual(getShiftDeltaSince('2026-06-30T10:00:00Z'), '2026-06-30T09:55:00.000Z');
+assert.strictEqual(getShiftDeltaSince('not-a-date'), 'not-a-date');
+
+const now = new Date('2026-07-01T12:00:00Z');
+assert.strictEqual(shouldRunFullShiftSync(null, '2026-07-01T11:00:00Z', now), true);
+assert.strictEqual(shouldRunFullShiftSync('2026-07-01T11:00:00Z', '2026-07-01T11:00:00Z', now), false);
+assert.strictEqual(shouldRunFullShiftSync('2026-07-01T11:00:00Z', '2026-06-30T11:00:00Z', now), true);
+
+console.log('tests/shiftDeltaSync.test.ts OK');
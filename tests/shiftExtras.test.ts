@@ -0,0 +1,110 @@
+import assert from 'assert';
+import {
+  getUnpaidBreakMinutes,
+  parseShiftAttachmentKind,
+  parseShiftAttachments,
+  parseShiftBreaks,
+  parseShiftPay,
+} from '../src/features/shifts/shiftExtras';
+
+const berlinShift = { start: '2026-07-01T06:00:00.000Z', timeZone: 'Europe/Berlin' };
+
+assert.deepStrictEqual(
+  parseShiftBreaks(
+    [
+      { start: '15:00', end: '15:15', paid: true },
+      { start: '12:00', end: '12:30' },
+      { minutes: 10 },
+    ],
+    undefined,
+    berlinShift
+  ),
+  [
+    { start: '2026-07-01T10:00:00.000Z', end: '2026-07-01T10:30:00.000Z', minutes: 30, paid: false },
+    { start: '2026-07-01T13:00:00.000Z', end: '2026-07-01T13:15:00.000Z', minutes: 15, paid: true },
+    { start: undefined, end: undefined, minutes: 10, paid: false },
+  ]
+);
+
+// A night shift's break after midnight falls on the next day.
+assert.deepStrictEqual(
+  parseShiftBreaks('[{"start":"02:00","end":"02:30"}]', undefined, {
+    start: '2026-07-01T20:00:00.000Z',
+    timeZone: 'Europe/Berlin',
+  }),
+  [{ start: '2026-07-02T00:00:00.000Z', end: '2026-07-02T00:30:00.000Z', minutes: 30, paid: false }]
+);
+assert.deepStrictEqual(
+  parseShiftBreaks(
+    [{ start: '2026-07-01T10:00:00Z', end: '2026-07-01T10:45:00Z' }],
+    undefined,
+    berlinShift
+  )?.[0].minutes,
+  45
+);
+assert.deepStrictEqual(parseShiftBreaks([], '45', berlinShift), [{ minutes: 45, paid: false }]);
+assert.strictEqual(parseShiftBreaks([{ start: 'lunch' }], 0, berlinShift), undefined);
+assert.strictEqual(parseShiftBreaks('not json', null, berlinShift), undefined);
+
+assert.strictEqual(
+  getUnpaidBreakMinutes([
+    { minutes: 30, paid: false },
+    { minutes: 15, paid: true },
+  ]),
+  30
+);
+assert.strictEqual(getUnpaidBreakMinutes(undefined), 0);
+
+assert.deepStrictEqual(
+  parseShiftPay('18,50', 'chf', [
+    { label: 'Night', percent: 25 },
+    { name: 'Sunday', amount: '10' },
+    { label: 'Broken' },
+  ]),
+  {
+    hourlyRate: 18.5,
+    currency: 'CHF',
+    premiums: [
+      { label: 'Night', percent: 25, amount: undefined },
+      { label: 'Sunday', percent: undefined, amount: 10 },
+    ],
+  }
+);
+assert.strictEqual(parseShiftPay(16, 'euro', [])?.currency, 'EUR');
+assert.strictEqual(parseShiftPay(null, 'EUR', []), undefined);
+
+assert.strictEqual(parseShiftAttachmentKind('Floor_Plan'), 'floor-plan');
+assert.strictEqual(parseShiftAttachmentKind('BRIEFING'), 'briefing');
+assert.strictEqual(parseShiftAttachmentKind('photo'), 'other');
+
+assert.deepStrictEqual(
+  parseShiftAttachments(
+    [
+      { name: 'Briefing', kind: 'briefing', url: 'https://files.example.com/briefing.pdf', mimeType: 'application/pdf' },
+      { title: 'No location' },
+    ],
+    [
+      { path: 'sites/hq/floor-plan.png', type: 'floorplan' },
+      { name: 'Briefing copy', url: 'https://files.example.com/briefing.pdf' },
+    ]
+  ),
+  [
+    {
+      name: 'Briefing',
+      kind: 'briefing',
+      url: 'https://files.example.com/briefing.pdf',
+      path: undefined,
+      mimeType: 'application/pdf',
+    },
+    {
+      name: 'floor-plan.png',
+      kind: 'floor-plan',
+      url: undefined,
+      path: 'sites/hq/floor-plan.png',
+      mimeType: undefined,
+    },
+  ]
+);
+assert.strictEqual(parseShiftAttachments(undefined, []), undefined);
+
+console.log('tests/shiftExtras.test.ts OK');
@@ -0,0 +1,79 @@
+import assert from 'assert';
+import {
+  DEFAULT_GEOFENCE_RADIUS_METERS,
+  checkGeofence,
+  getDistanceMeters,
+  parseShiftGeofence,
+  toQrClockInLocation,
+} from '../src/features/shifts/shiftGeofence';
+import { mapShiftRecord } from '../src/features/shifts/shiftMapping';
+
+assert.deepStrictEqual(parseShiftGeofence('52.5200', '13,4050', 200), {
+  latitude: 52.52,
+  longitude: 13.405,
+  radiusMeters: 200,
+});
+assert.strictEqual(parseShiftGeofence(52.52, 13.405)?.radiusMeters, DEFAULT_GEOFENCE_RADIUS_METERS);
+assert.strictEqual(parseShiftGeofence(52.52, 13.405, -5)?.radiusMeters, DEFAULT_GEOFENCE_RADIUS_METERS);
+assert.strictEqual(parseShiftGeofence(undefined, 13.405), undefined);
+assert.strictEqual(parseShiftGeofence(0, 0), undefined);
+assert.strictEqual(parseShiftGeofence(95, 13.405), undefined);
+assert.strictEqual(parseShiftGeofence('north', 13.405), undefined);
+
+const site = { latitude: 52.52, longitude: 13.405, radiusMeters: 150 };
+// One thousandth of a degree of latitude is about 111 m.
+const distance = getDistanceMeters(site, { latitude: 52.521, longitude: 13.405 });
+assert.ok(distance > 110 && distance < 112, `unexpected distance ${distance}`);
+assert.strictEqual(getDistanceMeters(site, site), 0);
+
+const fixAt = (latitude: number, accuracy?: number) => ({
+  latitude,
+  longitude: 13.405,
+  accuracy,
+  capturedAt: '2026-10-19T07:58:12.000Z',
+});
+
+assert.deepStrictEqual(checkGeofence(undefined, fixAt(48.1)), { status: 'no-geofence' });
+assert.deepStrictEqual(checkGeofence(site, fixAt(52.521, 10)), { status: 'inside', distanceMeters: 111 });
+// 200 m away, but a 60 m accuracy covers the gap to the radius.
+assert.strictEqual(checkGeofence(site, fixAt(52.5218, 60)).status, 'inside');
+// Accuracy is forgiven only up to a limit.
+assert.strictEqual(checkGeofence(site, fixAt(52.5225, 400)).status, 'outside');
+assert.deepStrictEqual(checkGeofence(site, fixAt(52.53, 900)), {
+  status: 'inaccurate',
+  distanceMeters: 1112,
+  accuracy: 900,
+});
+assert.deepStrictEqual(checkGeofence(site, fixAt(52.6, 15)), { status: 'outside', distanceMeters: 8896 });
+
+assert.deepStrictEqual(toQrClockInLocation(fixAt(52.52, 12.6)), {
+  latitude: 52.52,
+  longitude: 13.405,
+  accuracy: 13,
+  capturedAt: '2026-10-19T07:58:12.000Z',
+});
+
+const mapped = mapShiftRecord({
+  id: 'shift-1',
+  shiftStartingDate: '2026-10-19T08:00:00Z',
+  shiftEndingDate: '2026-10-19T16:00:00Z',
+  object: { title: 'Warehouse', latitude: 52.52, longitude: '13.405', geofenceRadiusMeters: 250 },
+});
+assert.deepStrictEqual(mapped.geofence, { latitude: 52.52, longitude: 13.405, radiusMeters: 250 });
+
+const legacy = mapShiftRecord({
+  id: 'shift-2',
+  start_date: '2026-10-19T08:00:00Z',
+  end_date: '2026-10-19T16:00:00Z',
+  object_latitude: 48.137,
+  object_longitude: 11.575,
+});
+assert.deepStrictEqual(legacy.geofence, {
+  latitude: 48.137,
+  longitude: 11.575,
+  radiusMeters: DEFAULT_GEOFENCE_RADIUS_METERS,
+});
+
+assert.strictEqual(mapShiftRecord({ id: 'shift-3' }).geofence, undefined);
+
+console.log('tests/shiftGeofence.test.ts OK');
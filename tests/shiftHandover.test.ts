@@ -0,0 +1,118 @@
+import assert from 'assert';
+import {
+  HANDOVER_NOTE_MAX_LENGTH,
+  getUnreadHandoverNotes,
+  parseCreateHandoverNoteResult,
+  parseHandoverNote,
+  parseHandoverNotesResult,
+  parseMarkHandoverNoteReadResult,
+  summarizeHandoverNote,
+  validateHandoverNote,
+} from '../src/features/shifts/shiftHandover';
+
+assert.strictEqual(validateHandoverNote('  '), 'note-required');
+assert.strictEqual(validateHandoverNote(undefined), 'note-required');
+assert.strictEqual(validateHandoverNote('x'.repeat(HANDOVER_NOTE_MAX_LENGTH + 1)), 'note-too-long');
+assert.strictEqual(validateHandoverNote(` ${'x'.repeat(HANDOVER_NOTE_MAX_LENGTH)} `), null);
+
+const notes = parseHandoverNotesResult({
+  ok: true,
+  status: 'ok',
+  incoming: [
+    {
+      id: 'n2',
+      shiftId: 's1',
+      recipientShiftId: 's2',
+      authorId: 'e1',
+      authorName: 'Alex Meyer',
+      body: 'Keys are at reception',
+      createdAt: '2026-10-19T18:05:00.000Z',
+      readAt: '2026-10-19T19:00:00.000Z',
+    },
+    {
+      id: 'n1',
+      shiftId: 's1',
+      recipientShiftId: 's2',
+      authorId: 'e1',
+      body: 'Side gate is sticking',
+      createdAt: '2026-10-19T18:00:00.000Z',
+    },
+    { id: 'broken', shiftId: 's1', body: 'no author' },
+  ],
+  outgoing: [
+    {
+      id: 'n3',
+      shiftId: 's2',
+      authorId: 'e2',
+      body: ' Alarm tested ',
+      createdAt: '2026-10-20T02:00:00.000Z',
+      reads: [{ readerId: 'e3', readerName: 'Mia', readAt: '2026-10-20T06:10:00.000Z' }, { readerId: 'e4' }],
+    },
+  ],
+});
+
+assert.strictEqual(notes.status, 'ok');
+assert.deepStrictEqual(
+  notes.incoming.map((note) => note.id),
+  ['n1', 'n2'],
+  'invalid rows are dropped and notes are ordered by creation'
+);
+assert.deepStrictEqual(getUnreadHandoverNotes(notes.incoming).map((note) => note.id), ['n1']);
+assert.deepStrictEqual(notes.outgoing[0], {
+  id: 'n3',
+  shiftId: 's2',
+  recipientShiftId: undefined,
+  authorId: 'e2',
+  authorName: undefined,
+  body: 'Alarm tested',
+  createdAt: '2026-10-20T02:00:00.000Z',
+  readAt: undefined,
+  reads: [{ readerId: 'e3', readerName: 'Mia', readAt: '2026-10-20T06:10:00.000Z' }],
+});
+
+assert.deepStrictEqual(parseHandoverNotesResult({ ok: false, status: 'not_assigned' }), {
+  status: 'not_assigned',
+  incoming: [],
+  outgoing: [],
+});
+assert.throws(() => parseHandoverNotesResult(null), /invalid response/);
+assert.throws(() => parseHandoverNotesResult({ status: 'nope' }), /unknown status/);
+
+// Realtime inserts carry the plain table row.
+assert.strictEqual(
+  parseHandoverNote({
+    id: 'n4',
+    shiftId: 's1',
+    recipientShiftId: 's2',
+    authorId: 'e1',
+    body: 'Hi',
+    createdAt: '2026-10-19T18:00:00.000Z',
+  })?.recipientShiftId,
+  's2'
+);
+
+const created = parseCreateHandoverNoteResult({
+  ok: true,
+  status: 'created',
+  note: { id: 'n5', shiftId: 's1', authorId: 'e1', body: 'Done', createdAt: '2026-10-19T18:00:00.000Z', reads: [] },
+});
+assert.strictEqual(created.ok, true);
+assert.strictEqual(created.note?.id, 'n5');
+assert.deepStrictEqual(parseCreateHandoverNoteResult({ ok: false, status: 'not_assigned' }), {
+  ok: false,
+  status: 'not_assigned',
+  note: undefined,
+});
+assert.throws(() => parseCreateHandoverNoteResult({ status: 'saved' }), /unknown status/);
+
+assert.deepStrictEqual(parseMarkHandoverNoteReadResult({ ok: true, status: 'read', readAt: '2026-10-20T06:10:00Z' }), {
+  ok: true,
+  status: 'read',
+  readAt: '2026-10-20T06:10:00Z',
+});
+assert.throws(() => parseMarkHandoverNoteReadResult('read'), /invalid response/);
+
+assert.strictEqual(summarizeHandoverNote('Gate\n\nsticks  again'), 'Gate sticks again');
+assert.strictEqual(summarizeHandoverNote('abcdefghij', 5), 'abcd…');
+
+console.log('tests/shiftHandover.test.ts OK');
@@ -0,0 +1,136 @@
+import assert from 'assert';
+import {
+  INCIDENT_DESCRIPTION_MAX_LENGTH,
+  INCIDENT_LOCATION_NOTE_MAX_LENGTH,
+  INCIDENT_MAX_PHOTOS,
+  type QueuedIncidentReport,
+  createQueuedIncidentReport,
+  getQueuedIncidentReports,
+  parseIncidentQueue,
+  parseIncidentReport,
+  parseIncidentReportsResult,
+  parseSubmitIncidentReportResult,
+  validateIncidentReport,
+} from '../src/features/shifts/shiftIncidents';
+
+assert.strictEqual(validateIncidentReport({ description: '  ', photoUris: [] }), 'description-required');
+assert.strictEqual(
+  validateIncidentReport({ description: 'x'.repeat(INCIDENT_DESCRIPTION_MAX_LENGTH + 1), photoUris: [] }),
+  'description-too-long'
+);
+assert.strictEqual(
+  validateIncidentReport({
+    description: 'Broken window',
+    photoUris: Array.from({ length: INCIDENT_MAX_PHOTOS + 1 }, (_, index) => `file://${index}.jpg`),
+  }),
+  'too-many-photos'
+);
+assert.strictEqual(validateIncidentReport({ description: 'Broken window', photoUris: ['file://1.jpg'] }), null);
+
+const now = new Date('2026-10-19T10:00:00.000Z');
+const queued = createQueuedIncidentReport(
+  'shift-1',
+  {
+    category: 'damage',
+    severity: 'high',
+    description: '  Broken window at the side entrance  ',
+    occurredAt: '2026-10-19T09:45:00.000Z',
+    locationNote: `  ${'y'.repeat(INCIDENT_LOCATION_NOTE_MAX_LENGTH + 20)}`,
+    photoUris: ['file://a.jpg', 'file://b.jpg'],
+  },
+  now
+);
+assert.match(queued.id, /^incident-\d+-[a-z0-9]+$/);
+assert.strictEqual(queued.shiftId, 'shift-1');
+assert.strictEqual(queued.description, 'Broken window at the side entrance');
+assert.strictEqual(queued.locationNote?.length, INCIDENT_LOCATION_NOTE_MAX_LENGTH);
+assert.deepStrictEqual(queued.photos, [{ uri: 'file://a.jpg' }, { uri: 'file://b.jpg' }]);
+assert.strictEqual(queued.queuedAt, now.toISOString());
+assert.strictEqual(queued.attempts, 0);
+
+const withoutLocation = createQueuedIncidentReport(
+  'shift-1',
+  { category: 'other', severity: 'low', description: 'x', occurredAt: now.toISOString(), locationNote: ' ', photoUris: [] },
+  now
+);
+assert.strictEqual(withoutLocation.locationNote, undefined);
+
+const serverReport = {
+  id: 'report-1',
+  clientReportId: 'incident-1',
+  shiftId: 'shift-1',
+  category: 'theft',
+  severity: 'critical',
+  description: 'Copper cable missing',
+  occurredAt: '2026-10-19T08:00:00Z',
+  photoCount: 2,
+  status: 'acknowledged',
+  createdAt: '2026-10-19T08:05:00Z',
+};
+
+assert.deepStrictEqual(parseIncidentReport(serverReport), { ...serverReport, locationNote: undefined });
+assert.strictEqual(parseIncidentReport({ ...serverReport, description: ' ' }), null);
+assert.deepStrictEqual(
+  parseIncidentReport({ ...serverReport, category: 'flood', severity: 'huge', status: 'lost', photoCount: '2' }),
+  {
+    ...serverReport,
+    category: 'other',
+    severity: 'medium',
+    status: 'open',
+    photoCount: 0,
+    locationNote: undefined,
+  }
+);
+
+const reportsResult = parseIncidentReportsResult({
+  status: 'ok',
+  reports: [serverReport, { ...serverReport, id: 'report-2', createdAt: '2026-10-19T09:00:00Z' }, null],
+});
+assert.deepStrictEqual(
+  reportsResult.reports.map((report) => report.id),
+  ['report-2', 'report-1']
+);
+assert.deepStrictEqual(parseIncidentReportsResult({ status: 'not_assigned' }), { status: 'not_assigned', reports: [] });
+assert.throws(() => parseIncidentReportsResult(null), /invalid response/);
+assert.throws(() => parseIncidentReportsResult({ status: 'nope' }), /unknown status/);
+
+const submitted = parseSubmitIncidentReportResult({ ok: true, status: 'submitted', report: serverReport });
+assert.strictEqual(submitted.ok, true);
+assert.strictEqual(submitted.report?.id, 'report-1');
+assert.deepStrictEqual(parseSubmitIncidentReportResult({ ok: false, status: 'not_assigned' }), {
+  ok: false,
+  status: 'not_assigned',
+  report: undefined,
+});
+assert.throws(() => parseSubmitIncidentReportResult('ok'), /invalid response/);
+assert.throws(() => parseSubmitIncidentReportResult({ ok: true, status: 'done' }), /unknown status/);
+
+const queueEntry = (id: string, shiftId: string, queuedAt: string): QueuedIncidentReport => ({
+  ...queued,
+  id,
+  shiftId,
+  queuedAt,
+});
+const queue = [
+  queueEntry('incident-1', 'shift-1', '2026-10-19T08:00:00.000Z'),
+  queueEntry('incident-2', 'shift-1', '2026-10-19T09:00:00.000Z'),
+  queueEntry('incident-3', 'shift-2', '2026-10-19T09:30:00.000Z'),
+];
+assert.deepStrictEqual(
+  getQueuedIncidentReports(queue, 'shift-1').map((report) => report.id),
+  ['incident-2', 'incident-1']
+);
+assert.deepStrictEqual(
+  getQueuedIncidentReports(queue, 'shift-1', reportsResult.reports).map((report) => report.id),
+  ['incident-2']
+);
+
+assert.deepStrictEqual(parseIncidentQueue(null), []);
+assert.deepStrictEqual(parseIncidentQueue('{broken'), []);
+assert.deepStrictEqual(parseIncidentQueue(JSON.stringify({ id: 'x' })), []);
+assert.deepStrictEqual(
+  parseIncidentQueue(JSON.stringify([queue[0], { ...queue[1], category: 'flood' }, { id: 'incomplete' }])),
+  [queue[0]]
+);
+
+console.log('tests/shiftIncidents.test.ts OK');
@@ -39,6 +39,98 @@ assert.strictEqual(overnightMapped.start, '2026-03-01T22:00:00.000Z');
 assert.strictEqual(overnightMapped.end, '2026-03-02T06:00:00.000Z');
 assert.strictEqual(overnightMapped.status, 'completed');
 
+const siteMapped = mapShiftRecord({
+  id: 'shift-site',
+  title: 'Night desk',
+  timeZone: 'America/New_York',
+  shiftStartingDate: '2026-03-07',
+  shiftStartingTime: '22:00:00',
+  shiftEndingDate: '2026-03-07',
+  shiftEndingTime: '06:00:00',
+});
+
+assert.strictEqual(siteMapped.timeZone, 'America/New_York');
+assert.strictEqual(siteMapped.start, '2026-03-08T03:00:00.000Z');
+// The site springs forward overnight, so the 06:00 end is only seven hours later.
+assert.strictEqual(siteMapped.end, '2026-03-08T10:00:00.000Z');
+
+const objectZoneMapped = mapShiftRecord({
+  id: 'shift-object-zone',
+  shiftStartingDate: '2026-07-01T09:00:00',
+  shiftEndingDate: '2026-07-01T17:00:00',
+  object: { title: 'Depot', address: 'Dock 1', timeZone: 'Europe/Berlin' },
+});
+
+assert.strictEqual(objectZoneMapped.timeZone, 'Europe/Berlin');
+assert.strictEqual(objectZoneMapped.start, '2026-07-01T07:00:00.000Z');
+assert.strictEqual(objectZoneMapped.end, '2026-07-01T15:00:00.000Z');
+
+const invalidZoneMapped = mapShiftRecord({
+  id: 'shift-invalid-zone',
+  timeZone: 'Mars/Olympus',
+  start: '2026-07-01T09:00:00Z',
+  end: '2026-07-01T17:00:00Z',
+});
+
+assert.strictEqual(invalidZoneMapped.timeZone, undefined);
+assert.strictEqual(invalidZoneMapped.start, '2026-07-01T09:00:00Z');
+
+const deadlineMapped = mapShiftRecord({
+  id: 'shift-deadline',
+  timeZone: 'Europe/Berlin',
+  shiftStartingDate: '2026-07-03T09:00:00',
+  confirmBy: '2026-07-01 18:00:00',
+});
+assert.strictEqual(deadlineMapped.confirmBy, '2026-07-01T16:00:00.000Z', 'deadlines without offset are site time');
+assert.strictEqual(
+  mapShiftRecord({ id: 'shift-deadline-utc', confirm_by: '2026-07-01T18:00:00+00:00' }).confirmBy,
+  '2026-07-01T18:00:00.000Z'
+);
+assert.strictEqual(mapShiftRecord({ id: 'shift-deadline-bad', confirmBy: 'soon' }).confirmBy, undefined);
+assert.deepStrictEqual(
+  mapShiftRecord({ id: 'shift-quals', requiredQualifications: ['first-aid', ' forklift ', 'first-aid'] }).qualifications,
+  ['first-aid', 'forklift']
+);
+assert.deepStrictEqual(
+  mapShiftRecord({ id: 'shift-quals-text', required_qualifications: '{first-aid,"security"}' }).qualifications,
+  ['first-aid', 'security']
+);
+assert.strictEqual(mapShiftRecord({ id: 'shift-quals-empty', requiredQualifications: [] }).qualifications, undefined);
+
+const richMapped = mapShiftRecord({
+  id: 'shift-rich',
+  shiftStartingDate: '2026-07-01',
+  shiftStartingTime: '08:00',
+  timeZone: 'Europe/Berlin',
+  breaks: [{ start: '12:00', end: '12:30' }],
+  role: ' Team lead ',
+  hourlyRate: '17.25',
+  premiums: [{ label: 'Night', percent: 25 }],
+  attachments: [{ name: 'Briefing', url: 'https://files.example.com/briefing.pdf' }],
+  object: {
+    title: 'HQ',
+    dressCode: 'Black suit',
+    siteFiles: [{ name: 'Floor plan', kind: 'floor-plan', path: 'sites/hq/plan.pdf' }],
+  },
+});
+assert.deepStrictEqual(richMapped.breaks, [
+  { start: '2026-07-01T10:00:00.000Z', end: '2026-07-01T10:30:00.000Z', minutes: 30, paid: false },
+]);
+assert.strictEqual(richMapped.role, 'Team lead');
+assert.deepStrictEqual(richMapped.pay, {
+  hourlyRate: 17.25,
+  currency: 'EUR',
+  premiums: [{ label: 'Night', percent: 25, amount: undefined }],
+});
+assert.strictEqual(richMapped.dressCode, 'Black suit');
+assert.deepStrictEqual(
+  richMapped.attachments?.map((attachment) => attachment.name),
+  ['Briefing', 'Floor plan']
+);
+assert.deepStrictEqual(mapShiftRecord({ id: 'shift-break-total', break_minutes: 30 }).breaks, [
+  { minutes: 30, paid: false },
+]);
+
 const fallbackMapped = mapShiftRecord({ id: 'shift-fallback' });
 assert.strictEqual(fallbackMapped.title, 'Shift');
 assert.strictEqual(fallbackMapped.location, 'TBD');
@@ -152,4 +244,15 @@ assert.strictEqual(mappedArray[1].confirmationStatus, 'confirmed');
 assert.strictEqual(mappedArray[1].assignmentId, 'a-1');
 assert.strictEqual(mappedArray[1].confirmedAt, '2026-03-02T07:00:00Z');
 
+assert.deepStrictEqual(
+  mapShiftRecord({
+    id: 'shift-series',
+    series_id: 'series-7',
+    rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+    seriesEndsOn: '2026-09-30',
+  }).series,
+  { id: 'series-7', rule: 'FREQ=WEEKLY;BYDAY=MO,WE', endsOn: '2026-09-30' }
+);
+assert.strictEqual(mapShiftRecord({ id: 'shift-single', rrule: 'FREQ=DAILY' }).series, undefined);
+
 console.log('tests/shiftMapping.test.ts OK');
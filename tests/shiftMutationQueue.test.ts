@@ -0,0 +1,121 @@
+import assert from 'assert';
+import {
+  applyQueuedShiftMutations,
+  createConfirmShiftMutation,
+  isNetworkError,
+  parseShiftMutationQueue,
+  replayShiftMutations,
+  resolveQueuedMutation,
+  type QueuedShiftMutation,
+} from '../src/features/shifts/shiftMutationQueue';
+import type { Shift } from '../src/features/shifts/shiftMapping';
+
+const baseShift: Shift = {
+  id: 'shift-1',
+  assignmentId: 'assignment-1',
+  title: 'Warehouse',
+  location: 'Dock 4',
+  start: '2026-07-04T08:00:00Z',
+  end: '2026-07-04T16:00:00Z',
+  status: 'scheduled',
+  confirmationStatus: 'published',
+};
+
+const mutation = createConfirmShiftMutation(baseShift, new Date('2026-07-03T10:00:00Z'));
+assert.ok(mutation);
+assert.strictEqual(mutation?.assignmentId, 'assignment-1');
+assert.strictEqual(mutation?.expectedStatus, 'published');
+assert.strictEqual(mutation?.queuedAt, '2026-07-03T10:00:00.000Z');
+assert.strictEqual(createConfirmShiftMutation({ ...baseShift, assignmentId: undefined }), null);
+
+assert.deepStrictEqual(parseShiftMutationQueue(JSON.stringify([mutation, { id: 'broken' }])), [mutation]);
+assert.deepStrictEqual(parseShiftMutationQueue('not-json'), []);
+assert.deepStrictEqual(parseShiftMutationQueue(null), []);
+
+const queued = mutation as QueuedShiftMutation;
+assert.strictEqual(resolveQueuedMutation(queued, { confirmationStatus: 'published' }), 'apply');
+assert.strictEqual(
+  resolveQueuedMutation(queued, { confirmationStatus: 'confirmed_by_employee' }),
+  'already-applied'
+);
+assert.strictEqual(resolveQueuedMutation(queued, { confirmationStatus: 'not published' }), 'status-changed');
+assert.strictEqual(resolveQueuedMutation(queued, null), 'assignment-missing');
+
+const overlaid = applyQueuedShiftMutations([baseShift, { ...baseShift, id: 'shift-2', assignmentId: 'a-2' }], [queued]);
+assert.strictEqual(overlaid[0].confirmationStatus, 'confirmed by employee');
+assert.strictEqual(overlaid[0].pendingSync, true);
+assert.strictEqual(overlaid[1].pendingSync, undefined);
+
+assert.strictEqual(isNetworkError(new TypeError('Network request failed')), true);
+assert.strictEqual(isNetworkError({ message: 'TypeError: Failed to fetch' }), true);
+assert.strictEqual(isNetworkError(new Error('permission denied')), false);
+
+const queue: QueuedShiftMutation[] = [
+  { ...queued, id: 'm-1', assignmentId: 'a-1' },
+  { ...queued, id: 'm-2', assignmentId: 'a-2' },
+  { ...queued, id: 'm-3', assignmentId: 'a-3' },
+  { ...queued, id: 'm-4', assignmentId: 'a-4' },
+];
+
+const run = async () => {
+  const confirmed: string[] = [];
+  const result = await replayShiftMutations(queue, {
+    fetchAssignmentStatus: async (assignmentId) => {
+      if (assignmentId === 'a-2') return { confirmationStatus: 'not published' };
+      if (assignmentId === 'a-3') throw new TypeError('Network request failed');
+      return { confirmationStatus: 'published' };
+    },
+    confirm: async (assignmentId) => {
+      confirmed.push(assignmentId);
+    },
+  });
+
+  assert.deepStrictEqual(confirmed, ['a-1']);
+  assert.deepStrictEqual(result.applied.map((entry) => entry.id), ['m-1']);
+  assert.deepStrictEqual(result.conflicts.map((entry) => [entry.mutation.id, entry.reason]), [
+    ['m-2', 'status-changed'],
+  ]);
+  assert.deepStrictEqual(result.remaining.map((entry) => entry.id), ['m-3', 'm-4']);
+  assert.strictEqual(result.remaining[0].attempts, 1);
+  assert.strictEqual(result.remaining[1].attempts, 0);
+
+  const exhausted = await replayShiftMutations([{ ...queued, attempts: 4 }], {
+    fetchAssignmentStatus: async () => ({ confirmationStatus: 'published' }),
+    confirm: async () => {
+      throw new Error('permission denied');
+    },
+  });
+  assert.strictEqual(exhausted.failed.length, 1);
+  assert.strictEqual(exhausted.remaining.length, 0);
+  assert.deepStrictEqual(exhausted.conflicts.map((entry) => entry.reason), ['retries-exhausted']);
+
+  const attempted: string[] = [];
+  const stopped = await replayShiftMutations(
+    [
+      { ...queued, id: 'm-5', assignmentId: 'a-5' },
+      { ...queued, id: 'm-6', assignmentId: 'a-6' },
+    ],
+    {
+      fetchAssignmentStatus: async (assignmentId) => {
+        attempted.push(assignmentId);
+        throw new Error('permission denied');
+      },
+      confirm: async () => {},
+    }
+  );
+  assert.deepStrictEqual(attempted, ['a-5']);
+  assert.deepStrictEqual(stopped.remaining.map((entry) => [entry.id, entry.attempts]), [
+    ['m-5', 1],
+    ['m-6', 0],
+  ]);
+  assert.strictEqual(stopped.conflicts.length, 0);
+};
+
+void run()
+  .then(() => {
+    console.log('tests/shiftMutationQueue.test.ts OK');
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
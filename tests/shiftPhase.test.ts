@@ -1,5 +1,6 @@
 import assert from 'assert';
 import { getShiftPhase, phaseMeta } from '../src/shared/utils/shiftPhase';
+import { ensureShiftEndAfterStart } from '../src/shared/utils/timeUtils';
 
 const start = '2026-03-10T08:00:00Z';
 const end = '2026-03-10T16:00:00Z';
@@ -34,6 +35,12 @@ assert.strictEqual(
   'after shift end should be past'
 );
 
+// Berlin night shift 22:00–06:00 across the spring-forward change lasts seven hours.
+const dstNightStart = '2026-03-28T21:00:00.000Z';
+const dstNightEnd = ensureShiftEndAfterStart(dstNightStart, '2026-03-28T05:00:00.000Z', 'Europe/Berlin');
+assert.strictEqual(getShiftPhase(dstNightStart, dstNightEnd, new Date('2026-03-29T03:30:00Z')), 'live');
+assert.strictEqual(getShiftPhase(dstNightStart, dstNightEnd, new Date('2026-03-29T04:30:00Z')), 'past');
+
 assert.strictEqual(phaseMeta.past.label, 'Past shift');
 assert.strictEqual(phaseMeta.live.label, 'Live now');
 assert.strictEqual(phaseMeta.upcoming.label, 'Upcoming');
@@ -37,6 +37,60 @@ assert.ok(content.includes('DTSTART:20260420T080000Z'));
 assert.ok(content.includes('DTEND:20260422T223000Z'));
 assert.ok(content.includes('UID:shift-shift-1@shiftor.employee'));
 
+const richContent = buildShiftPlanCalendarContent([
+  {
+    id: 'shift-3',
+    title: 'Night Desk',
+    location: 'HQ',
+    start: '2026-04-24T20:00:00.000Z',
+    end: '2026-04-25T04:00:00.000Z',
+    status: 'scheduled' as const,
+    timeZone: 'Europe/Berlin',
+    role: 'Team lead',
+    breaks: [{ start: '2026-04-24T23:00:00.000Z', end: '2026-04-24T23:30:00.000Z', minutes: 30, paid: false }],
+    qualifications: ['First aid'],
+    pay: { hourlyRate: 17.5, currency: 'EUR', premiums: [{ label: 'Night', percent: 25 }] },
+    dressCode: 'Black suit',
+    attachments: [
+      { name: 'Briefing', kind: 'briefing' as const, url: 'https://files.example.com/b.pdf', mimeType: 'application/pdf' },
+      { name: 'Floor plan', kind: 'floor-plan' as const, path: 'sites/hq/plan.pdf' },
+    ],
+  },
+]);
+assert.ok(richContent.includes('Role: Team lead'));
+assert.ok(richContent.includes('Breaks: 01:00-01:30 30 min'));
+assert.ok(richContent.includes('Qualifications: First aid'));
+assert.ok(richContent.includes('Pay: 17.50 EUR/h\\, Night +25%'));
+assert.ok(richContent.includes('Dress code: Black suit'));
+assert.ok(richContent.includes('Files: Briefing (https://files.example.com/b.pdf)\\, Floor plan'));
+assert.ok(richContent.includes('ATTACH;FMTTYPE=application/pdf:https://files.example.com/b.pdf'));
+
+const seriesShift = (id: string, start: string, end: string) => ({
+  id,
+  title: 'Front desk',
+  location: 'HQ',
+  start,
+  end,
+  status: 'scheduled' as const,
+  timeZone: 'Europe/Berlin',
+  series: { id: 'desk', rule: 'FREQ=WEEKLY;BYDAY=MO,WE' },
+});
+const seriesContent = buildShiftPlanCalendarContent([
+  seriesShift('mon', '2026-07-06T06:00:00.000Z', '2026-07-06T10:00:00.000Z'),
+  seriesShift('wed', '2026-07-08T06:00:00.000Z', '2026-07-08T10:00:00.000Z'),
+  seriesShift('next-wed', '2026-07-15T06:00:00.000Z', '2026-07-15T10:00:00.000Z'),
+  seriesShift('moved', '2026-07-20T09:00:00.000Z', '2026-07-20T13:00:00.000Z'),
+]);
+assert.ok(seriesContent.includes('UID:series-desk@shiftor.employee'));
+assert.ok(seriesContent.includes('DTSTART;TZID=Europe/Berlin:20260706T080000'));
+assert.ok(seriesContent.includes('DTEND;TZID=Europe/Berlin:20260706T120000'));
+assert.ok(seriesContent.includes('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260715T060000Z'));
+assert.ok(seriesContent.includes('EXDATE;TZID=Europe/Berlin:20260713T080000'));
+// The occurrence at a different time stays a standalone event.
+assert.ok(seriesContent.includes('UID:shift-moved@shiftor.employee'));
+assert.ok(!seriesContent.includes('UID:shift-wed@shiftor.employee'));
+assert.strictEqual(seriesContent.split('BEGIN:VEVENT').length - 1, 2);
+
 assert.strictEqual(
   buildShiftPlanFileName(shifts),
   'shiftor-shift-plan-2026-04-20-to-2026-04-22.ics'
@@ -0,0 +1,63 @@
+import assert from 'assert';
+import {
+  DEFAULT_SHIFT_ROSTER_PRIVACY,
+  formatShiftRosterName,
+  parseShiftRosterResult,
+  parseUpdateShiftRosterPrivacyResult,
+} from '../src/features/shifts/shiftRoster';
+
+const roster = parseShiftRosterResult({
+  ok: true,
+  status: 'ok',
+  privacy: { shareContact: true, showLastName: false },
+  members: [
+    { assignmentId: 'a3', employeeId: 'e3', firstName: 'Zoe', lastName: 'Brandt', role: 'Patrol' },
+    { assignmentId: 'a1', employeeId: 'e1', firstName: 'Alex', isSelf: true },
+    { assignmentId: 'a2', employeeId: 'e2', firstName: 'Mia', role: ' ', isLead: true, phone: '+49 1', email: 'mia@x.de' },
+    { assignmentId: 'a4', employeeId: 'e4', firstName: 'Ben' },
+    { employeeId: 'broken' },
+  ],
+});
+
+assert.strictEqual(roster.status, 'ok');
+assert.deepStrictEqual(roster.privacy, { shareContact: true, showLastName: false });
+assert.deepStrictEqual(
+  roster.members.map((member) => member.assignmentId),
+  ['a2', 'a1', 'a4', 'a3'],
+  'leads first, then the caller, then co-workers by name'
+);
+assert.deepStrictEqual(roster.members[0], {
+  assignmentId: 'a2',
+  employeeId: 'e2',
+  firstName: 'Mia',
+  lastName: undefined,
+  role: undefined,
+  isLead: true,
+  isSelf: false,
+  phone: '+49 1',
+  email: 'mia@x.de',
+});
+
+assert.deepStrictEqual(parseShiftRosterResult({ ok: false, status: 'not_assigned' }), {
+  status: 'not_assigned',
+  members: [],
+  privacy: DEFAULT_SHIFT_ROSTER_PRIVACY,
+});
+assert.throws(() => parseShiftRosterResult({ ok: true, status: 'ok' }), /unknown status/);
+assert.throws(() => parseShiftRosterResult(null), /invalid response/);
+
+assert.deepStrictEqual(
+  parseUpdateShiftRosterPrivacyResult({
+    ok: true,
+    status: 'updated',
+    privacy: { shareContact: false, showLastName: true },
+  }),
+  { ok: true, status: 'updated', privacy: { shareContact: false, showLastName: true } }
+);
+assert.throws(() => parseUpdateShiftRosterPrivacyResult({ ok: true, status: 'saved' }), /unknown status/);
+
+assert.strictEqual(formatShiftRosterName({ firstName: 'Zoe', lastName: 'Brandt' }), 'Zoe Brandt');
+assert.strictEqual(formatShiftRosterName({ firstName: 'Zoe' }), 'Zoe');
+assert.strictEqual(formatShiftRosterName({}), null);
+
+console.log('tests/shiftRoster.test.ts OK');
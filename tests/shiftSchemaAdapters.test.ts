@@ -0,0 +1,139 @@
+import assert from 'assert';
+import { mapShiftArrayWithDiagnostics, mapShiftRecord } from '../src/features/shifts/shiftMapping';
+import {
+  getShiftSchema,
+  getShiftSchemaColumns,
+  listShiftSchemaAdapters,
+  registerShiftSchemaAdapter,
+  resetShiftSchemaAdapters,
+  resolveShiftSchema,
+  unregisterShiftSchemaAdapter,
+} from '../src/features/shifts/shiftSchemaAdapters';
+import { shouldNotifyScheduleUpdate } from '../src/shared/utils/shiftNotificationUtils';
+
+assert.deepStrictEqual(
+  listShiftSchemaAdapters().map((adapter) => adapter.id),
+  ['shiftor-camel', 'shiftor-lowercase', 'legacy-snake']
+);
+assert.deepStrictEqual(getShiftSchemaColumns('startDate'), [
+  'shiftStartingDate',
+  'shiftstartingdate',
+  'start_date',
+  'start',
+  'start_at',
+]);
+
+const locationColumns = getShiftSchema().location;
+assert.deepStrictEqual(locationColumns[locationColumns.length - 1], {
+  column: 'address',
+  adapterId: 'shiftor-camel',
+  source: 'object',
+});
+assert.ok(!getShiftSchemaColumns('location').includes('title'));
+
+const resolved = resolveShiftSchema([
+  { id: 'old', version: 1, label: 'Old', fields: { title: ['old_title'] } },
+  { id: 'new', version: 3, label: 'New', fields: { title: ['headline', 'old_title'] } },
+]);
+assert.deepStrictEqual(
+  resolved.title.map((entry) => `${entry.adapterId}:${entry.column}`),
+  ['new:headline', 'new:old_title']
+);
+
+assert.throws(
+  () => registerShiftSchemaAdapter({ id: '', version: 1, label: 'Missing id', fields: {} }),
+  /requires an id/
+);
+assert.throws(
+  () =>
+    registerShiftSchemaAdapter({
+      id: 'broken',
+      version: 1,
+      label: 'Broken',
+      fields: { title: [''] },
+    }),
+  /invalid columns/
+);
+
+registerShiftSchemaAdapter({
+  id: 'tenant-v3',
+  version: 3,
+  label: 'Tenant with begins/ends columns',
+  fields: {
+    startDate: ['begins_on'],
+    startTime: ['begins_at'],
+    endDate: ['ends_on'],
+    endTime: ['ends_at'],
+    title: ['headline'],
+  },
+});
+assert.strictEqual(listShiftSchemaAdapters()[0].id, 'tenant-v3');
+
+const tenantShift = mapShiftRecord({
+  id: 'tenant-1',
+  headline: 'Night desk',
+  begins_on: '2026-04-01',
+  begins_at: '22:00:00Z',
+  ends_on: '2026-04-01',
+  ends_at: '06:00:00Z',
+});
+assert.strictEqual(tenantShift.title, 'Night desk');
+assert.strictEqual(tenantShift.start, '2026-04-01T22:00:00.000Z');
+assert.strictEqual(tenantShift.end, '2026-04-02T06:00:00.000Z');
+
+assert.strictEqual(
+  shouldNotifyScheduleUpdate({
+    eventType: 'UPDATE',
+    old: { begins_on: '2026-04-01', begins_at: '22:00:00Z' },
+    new: { begins_on: '2026-04-01', begins_at: '23:00:00Z' },
+  }),
+  true
+);
+
+const { shifts, diagnostics } = mapShiftArrayWithDiagnostics(
+  [
+    { id: 'tenant-1', begins_on: '2026-04-01', begins_at: '22:00:00Z' },
+    { id: 'legacy-1', start_at: '2026-04-02T08:00:00Z', end_at: '2026-04-02T12:00:00Z' },
+    { id: 'no-times', title: 'Missing times' },
+    { id: 42, title: 'Numeric id' },
+    { title: 'No id at all' },
+    { id: 'hidden', start: '2026-04-03T08:00:00Z' },
+  ],
+  [
+    { shiftId: 'tenant-1', confirmationStatus: 'published' },
+    { shiftId: 'legacy-1', confirmationStatus: 'confirmed' },
+    { shiftId: 'no-times', confirmationStatus: 'published' },
+    { shiftId: 'hidden', confirmationStatus: 'pending' },
+  ]
+);
+
+assert.deepStrictEqual(
+  shifts.map((shift) => shift.id),
+  ['no-times', 'tenant-1', 'legacy-1']
+);
+assert.strictEqual(diagnostics.total, 6);
+assert.strictEqual(diagnostics.mapped, 3);
+assert.strictEqual(diagnostics.hidden, 1);
+assert.deepStrictEqual(diagnostics.dropped, [
+  { index: 3, reason: 'missing-id', columns: ['id', 'title'] },
+  { index: 4, reason: 'missing-id', columns: ['title'] },
+]);
+assert.deepStrictEqual(diagnostics.defaulted, [
+  { index: 0, shiftId: 'tenant-1', field: 'end' },
+  { index: 2, shiftId: 'no-times', field: 'start' },
+  { index: 2, shiftId: 'no-times', field: 'end' },
+  { index: 5, shiftId: 'hidden', field: 'end' },
+]);
+assert.deepStrictEqual(diagnostics.adapterUsage, {
+  'tenant-v3': 1,
+  'legacy-snake': 2,
+});
+
+unregisterShiftSchemaAdapter('tenant-v3');
+assert.strictEqual(mapShiftRecord({ id: 'tenant-1', headline: 'Night desk' }).title, 'Shift');
+
+registerShiftSchemaAdapter({ id: 'temporary', version: 9, label: 'Temporary', fields: { title: ['x'] } });
+resetShiftSchemaAdapters();
+assert.strictEqual(listShiftSchemaAdapters().length, 3);
+
+console.log('tests/shiftSchemaAdapters.test.ts OK');
@@ -0,0 +1,103 @@
+import assert from 'assert';
+import {
+  expandShiftRecurrence,
+  formatRecurrenceRule,
+  getDayKeyWeekday,
+  getOpenSeriesShifts,
+  groupShiftSeries,
+  parseRecurrenceRule,
+  parseShiftSeriesRef,
+} from '../src/features/shifts/shiftSeries';
+
+assert.deepStrictEqual(parseRecurrenceRule('RRULE:FREQ=WEEKLY;BYDAY=WE,MO;UNTIL=20260731T215959Z'), {
+  freq: 'WEEKLY',
+  interval: 1,
+  byDay: ['MO', 'WE'],
+  until: '2026-07-31',
+  count: undefined,
+});
+assert.deepStrictEqual(parseRecurrenceRule('freq=daily;interval=2;count=5'), {
+  freq: 'DAILY',
+  interval: 2,
+  byDay: [],
+  until: undefined,
+  count: 5,
+});
+assert.strictEqual(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1'), null);
+assert.strictEqual(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=XX'), null);
+assert.strictEqual(parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=0'), null);
+assert.strictEqual(parseRecurrenceRule(''), null);
+
+assert.deepStrictEqual(parseShiftSeriesRef(' s1 ', 'FREQ=WEEKLY', '2026-07-31T00:00:00Z'), {
+  id: 's1',
+  rule: 'FREQ=WEEKLY',
+  endsOn: '2026-07-31',
+});
+assert.strictEqual(parseShiftSeriesRef(null, 'FREQ=WEEKLY', null), undefined);
+
+assert.strictEqual(getDayKeyWeekday('2026-07-06'), 'MO');
+assert.strictEqual(getDayKeyWeekday('2026-07-12'), 'SU');
+
+const shift = (id: string, start: string, end: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  start,
+  end,
+  timeZone: 'Europe/Berlin',
+  assignmentId: `a-${id}`,
+  confirmationStatus: 'published',
+  ...extra,
+});
+
+const series = { id: 'series-1', rule: 'FREQ=WEEKLY;BYDAY=MO,WE' };
+const groups = groupShiftSeries([
+  shift('wed', '2026-07-08T06:00:00Z', '2026-07-08T10:00:00Z', { series }),
+  shift('mon', '2026-07-06T06:00:00Z', '2026-07-06T10:00:00Z', { series: { ...series, endsOn: '2026-07-31' } }),
+  shift('next-mon', '2026-07-13T06:00:00Z', '2026-07-13T10:00:00Z', {
+    series,
+    confirmationStatus: 'confirmed',
+  }),
+  shift('standalone', '2026-07-07T06:00:00Z', '2026-07-07T10:00:00Z'),
+]);
+assert.deepStrictEqual(Array.from(groups.keys()), ['series-1']);
+const group = groups.get('series-1');
+assert.ok(group);
+assert.deepStrictEqual(
+  group.shifts.map((entry) => entry.id),
+  ['mon', 'wed', 'next-mon']
+);
+assert.deepStrictEqual(group.weekdays, ['MO', 'WE']);
+assert.strictEqual(group.startTime, '08:00');
+assert.strictEqual(group.endTime, '12:00');
+assert.strictEqual(group.until, '2026-07-31');
+assert.deepStrictEqual(
+  getOpenSeriesShifts(group, new Date('2026-07-07T00:00:00Z')).map((entry) => entry.id),
+  ['wed']
+);
+
+// Without a rule the weekdays come from the loaded occurrences.
+const derived = groupShiftSeries([
+  shift('tue', '2026-07-07T06:00:00Z', '2026-07-07T10:00:00Z', { series: { id: 'plain' } }),
+  shift('fri', '2026-07-10T06:00:00Z', '2026-07-10T10:00:00Z', { series: { id: 'plain' } }),
+]).get('plain');
+assert.strictEqual(derived?.recurrence, null);
+assert.deepStrictEqual(derived?.weekdays, ['TU', 'FR']);
+
+assert.deepStrictEqual(
+  expandShiftRecurrence({ freq: 'WEEKLY', interval: 1, byDay: ['MO', 'WE'] }, '2026-07-08', '2026-07-15'),
+  ['2026-07-08', '2026-07-13', '2026-07-15']
+);
+assert.deepStrictEqual(
+  expandShiftRecurrence({ freq: 'WEEKLY', interval: 2, byDay: [], count: 2 }, '2026-07-06', '2026-08-31'),
+  ['2026-07-06', '2026-07-20']
+);
+assert.deepStrictEqual(
+  expandShiftRecurrence({ freq: 'DAILY', interval: 1, byDay: [], until: '2026-07-08' }, '2026-07-06', '2026-07-31'),
+  ['2026-07-06', '2026-07-07', '2026-07-08']
+);
+
+assert.strictEqual(
+  formatRecurrenceRule({ freq: 'WEEKLY', interval: 2, byDay: ['MO', 'WE'], count: 4 }, '20260729T060000Z'),
+  'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20260729T060000Z'
+);
+
+console.log('tests/shiftSeries.test.ts OK');
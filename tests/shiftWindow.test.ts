@@ -0,0 +1,86 @@
+import assert from 'assert';
+import type { Shift } from '../src/features/shifts/shiftMapping';
+import {
+  decodeShiftWindowCursor,
+  encodeShiftWindowCursor,
+  getDefaultShiftFeedWindow,
+  getMonthShiftWindow,
+  getNeighbourMonths,
+  getShiftMonthKey,
+  getShiftWindowDates,
+  getShiftWindowKey,
+  isMonthInShiftWindow,
+  isShiftInWindow,
+  mergeShiftWindows,
+  parseShiftMonthKey,
+} from '../src/features/shifts/shiftWindow';
+
+const buildShift = (id: string, start: string, title = 'Shift'): Shift => ({
+  id,
+  title,
+  location: 'HQ',
+  start,
+  end: start,
+  status: 'scheduled',
+});
+
+const now = new Date(2026, 9, 19, 10, 30);
+
+assert.strictEqual(getShiftMonthKey(now), '2026-10');
+assert.strictEqual(parseShiftMonthKey('2026-10')?.getTime(), new Date(2026, 9, 1).getTime());
+assert.strictEqual(parseShiftMonthKey('2026-13'), null);
+assert.strictEqual(parseShiftMonthKey('october'), null);
+
+assert.deepStrictEqual(getMonthShiftWindow(now), {
+  from: new Date(2026, 9, 1).toISOString(),
+  to: new Date(2026, 10, 1).toISOString(),
+});
+
+const feedWindow = getDefaultShiftFeedWindow(now);
+assert.deepStrictEqual(feedWindow, {
+  from: new Date(2026, 8, 1).toISOString(),
+  to: new Date(2027, 1, 1).toISOString(),
+});
+assert.strictEqual(getShiftWindowKey(feedWindow), getShiftWindowKey(getDefaultShiftFeedWindow(new Date(2026, 9, 2))));
+assert.notStrictEqual(getShiftWindowKey(feedWindow), getShiftWindowKey(getDefaultShiftFeedWindow(new Date(2026, 10, 2))));
+
+assert.deepStrictEqual(
+  getNeighbourMonths(new Date(2026, 0, 15)).map(getShiftMonthKey),
+  ['2025-12', '2026-01', '2026-02']
+);
+assert.strictEqual(isMonthInShiftWindow(new Date(2026, 8, 1), feedWindow), true);
+assert.strictEqual(isMonthInShiftWindow(new Date(2027, 0, 1), feedWindow), true);
+assert.strictEqual(isMonthInShiftWindow(new Date(2026, 7, 1), feedWindow), false);
+assert.strictEqual(isMonthInShiftWindow(new Date(2027, 1, 1), feedWindow), false);
+
+const octoberWindow = getMonthShiftWindow(now);
+assert.strictEqual(isShiftInWindow(buildShift('a', new Date(2026, 9, 1).toISOString()), octoberWindow), true);
+assert.strictEqual(isShiftInWindow(buildShift('b', new Date(2026, 10, 1).toISOString()), octoberWindow), false);
+assert.strictEqual(isShiftInWindow(buildShift('c', 'not-a-date'), octoberWindow), false);
+assert.deepStrictEqual(getShiftWindowDates(octoberWindow), { from: '2026-10-01', to: '2026-11-01' });
+assert.deepStrictEqual(getShiftWindowDates(feedWindow), { from: '2026-09-01', to: '2027-02-01' });
+
+const cursor = encodeShiftWindowCursor({ start: '2026-10-19T08:00:00+00:00', id: 'shift|7' });
+assert.deepStrictEqual(decodeShiftWindowCursor(cursor), { start: '2026-10-19T08:00:00+00:00', id: 'shift|7' });
+assert.deepStrictEqual(decodeShiftWindowCursor(encodeShiftWindowCursor({ start: '2026-10-19', id: 'shift-7' })), {
+  start: '2026-10-19',
+  id: 'shift-7',
+});
+assert.strictEqual(decodeShiftWindowCursor(null), null);
+assert.strictEqual(decodeShiftWindowCursor('no-separator'), null);
+assert.strictEqual(decodeShiftWindowCursor('2026-10-19|'), null);
+
+const merged = mergeShiftWindows([
+  [buildShift('shift-2', '2026-10-02T08:00:00Z', 'Synced')],
+  undefined,
+  [buildShift('shift-2', '2026-10-02T08:00:00Z', 'Month page'), buildShift('shift-1', '2026-08-30T08:00:00Z')],
+]);
+assert.deepStrictEqual(
+  merged.map((shift) => [shift.id, shift.title]),
+  [
+    ['shift-1', 'Shift'],
+    ['shift-2', 'Synced'],
+  ]
+);
+
+console.log('tests/shiftWindow.test.ts OK');
@@ -1,5 +1,16 @@
 import assert from 'assert';
-import { ensureShiftEndAfterStart } from '../src/shared/utils/timeUtils';
+import {
+  addZonedDays,
+  ensureShiftEndAfterStart,
+  getTimeZoneLabel,
+  getZonedDateParts,
+  getZonedDayKey,
+  hasExplicitUtcOffset,
+  isValidTimeZone,
+  parseTimeDisplayMode,
+  resolveDisplayTimeZone,
+  zonedWallTimeToUtc,
+} from '../src/shared/utils/timeUtils';
 
 type TestCase = {
   name: string;
@@ -56,4 +67,55 @@ testCases.forEach((test) => {
   );
 });
 
+assert.strictEqual(isValidTimeZone('Europe/Berlin'), true);
+assert.strictEqual(isValidTimeZone('Mars/Olympus'), false);
+assert.strictEqual(isValidTimeZone(''), false);
+
+assert.strictEqual(hasExplicitUtcOffset('08:00:00'), false);
+assert.strictEqual(hasExplicitUtcOffset('08:00:00Z'), true);
+assert.strictEqual(hasExplicitUtcOffset('2026-03-01T08:00:00+02:00'), true);
+assert.strictEqual(hasExplicitUtcOffset('2026-03-01'), false);
+assert.strictEqual(hasExplicitUtcOffset('2026-03-01T08:00:00'), false);
+
+assert.strictEqual(zonedWallTimeToUtc('2026-01-15', '08:00', 'Europe/Berlin'), '2026-01-15T07:00:00.000Z');
+assert.strictEqual(zonedWallTimeToUtc('2026-07-15', '08:00:00', 'Europe/Berlin'), '2026-07-15T06:00:00.000Z');
+assert.strictEqual(zonedWallTimeToUtc('2026-07-15', '08:00:00', 'America/New_York'), '2026-07-15T12:00:00.000Z');
+// 02:30 does not exist on the spring-forward night and moves ahead by the gap.
+assert.strictEqual(zonedWallTimeToUtc('2026-03-29', '02:30', 'Europe/Berlin'), '2026-03-29T01:30:00.000Z');
+// 02:30 happens twice on the fall-back night; the first occurrence wins.
+assert.strictEqual(zonedWallTimeToUtc('2026-10-25', '02:30', 'Europe/Berlin'), '2026-10-25T00:30:00.000Z');
+assert.strictEqual(zonedWallTimeToUtc('2026-10-25', 'noon', 'Europe/Berlin'), null);
+assert.strictEqual(zonedWallTimeToUtc('2026-10-25', '12:00', 'Mars/Olympus'), null);
+
+assert.deepStrictEqual(getZonedDateParts('2026-03-01T23:30:00Z', 'Europe/Berlin'), {
+  year: 2026,
+  month: 3,
+  day: 2,
+  hour: 0,
+  minute: 30,
+  second: 0,
+});
+assert.strictEqual(getZonedDayKey('2026-03-01T23:30:00Z', 'Europe/Berlin'), '2026-03-02');
+assert.strictEqual(getZonedDayKey('2026-03-01T23:30:00Z', 'America/New_York'), '2026-03-01');
+assert.strictEqual(getZonedDayKey('invalid', 'Europe/Berlin'), null);
+
+// Overnight shifts keep their wall-clock end across DST changes at the site.
+assert.strictEqual(
+  ensureShiftEndAfterStart('2026-03-28T21:00:00.000Z', '2026-03-28T05:00:00.000Z', 'Europe/Berlin'),
+  '2026-03-29T04:00:00.000Z'
+);
+assert.strictEqual(
+  ensureShiftEndAfterStart('2026-10-24T20:00:00.000Z', '2026-10-24T04:00:00.000Z', 'Europe/Berlin'),
+  '2026-10-25T05:00:00.000Z'
+);
+assert.strictEqual(addZonedDays('2026-03-28T11:00:00.000Z', 1, 'Europe/Berlin'), '2026-03-29T10:00:00.000Z');
+
+assert.strictEqual(parseTimeDisplayMode('device'), 'device');
+assert.strictEqual(parseTimeDisplayMode(null), 'site');
+assert.strictEqual(parseTimeDisplayMode('other'), 'site');
+assert.strictEqual(resolveDisplayTimeZone('Europe/Berlin', 'site'), 'Europe/Berlin');
+assert.strictEqual(resolveDisplayTimeZone('Europe/Berlin', 'device'), undefined);
+assert.strictEqual(resolveDisplayTimeZone('Mars/Olympus', 'site'), undefined);
+assert.strictEqual(getTimeZoneLabel('2026-03-01T08:00:00Z'), undefined);
+
 console.log('tests/timeUtils.test.ts OK');